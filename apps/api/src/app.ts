@@ -16,6 +16,7 @@ import tasksRoutes from './routes/tasks.routes.js';
 import modulesRoutes from './routes/modules.routes.js';
 import boardManagementRoutes from './routes/board-management.routes.js';
 import actionsRoutes from './routes/actions.routes.js';
+import approvalsRoutes from './routes/approvals.routes.js';
 import notificationsRoutes from './routes/notifications.routes.js';
 import alertsRoutes from './routes/alerts.routes.js';
 import healthRoutes from './routes/health.routes.js';
@@ -23,8 +24,14 @@ import knowledgeRoutes from './routes/knowledge.routes.js';
 import videoRoutes from './routes/video.routes.js';
 import marketplaceRoutes from './routes/marketplace.routes.js';
 import billingRoutes from './routes/billing.routes.js';
+import llmRoutes from './routes/llm.routes.js';
+import eventsRoutes from './routes/events.routes.js';
+import teamRoutes from './routes/team.routes.js';
+import auditRoutes from './routes/audit.routes.js';
+import moduleWorkersRoutes from './routes/module-workers.routes.js';
 import { metricsMiddleware } from './middleware/metrics.js';
 import { accessLogMiddleware } from './middleware/access-log.js';
+import { captureRawBody } from './middleware/raw-body.js';
 
 /**
  * Create and configure Express application
@@ -53,7 +60,7 @@ export function createApp(): Application {
   app.use(compression());
 
   // Body parsing middleware
-  app.use(express.json({ limit: '10mb' }));
+  app.use(express.json({ limit: '10mb', verify: captureRawBody }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
   // Metrics middleware (track all requests)
@@ -109,6 +116,7 @@ export function createApp(): Application {
         boardMeeting: '/c-suite/board-meeting',
         connectors: '/connectors',
         actions: '/actions',
+        approvalPolicies: '/approvals/policies',
         tasks: '/tasks',
         modules: '/modules',
         notifications: '/notifications',
@@ -117,7 +125,12 @@ export function createApp(): Application {
         video: '/video',
         marketplace: '/marketplace/widgets',
         billingUsage: '/billing/usage',
+        billingQuota: '/billing/quota',
         billingWebhook: '/billing/webhook',
+        llmSettings: '/llm/settings',
+        events: '/events',
+        team: '/team/members',
+        audit: '/audit',
       },
     });
   });
@@ -135,6 +148,7 @@ export function createApp(): Application {
 
   // Action approval routes
   app.use('/actions', actionsRoutes);
+  app.use('/approvals', approvalsRoutes);
 
   // Task routes
   app.use('/tasks', tasksRoutes);
@@ -142,16 +156,29 @@ export function createApp(): Application {
   // Module routes
   app.use('/modules', modulesRoutes);
 
+  // Remote module worker control plane (worker token auth)
+  app.use('/module-workers', moduleWorkersRoutes);
+
   // Notification & alert routes
   app.use('/notifications', notificationsRoutes);
   app.use('/alerts', alertsRoutes);
   app.use('/knowledge', knowledgeRoutes);
   app.use('/marketplace', marketplaceRoutes);
   app.use('/billing', billingRoutes);
+  app.use('/llm', llmRoutes);
 
   // Video production routes
   app.use('/video', videoRoutes);
 
+  // Live tenant event stream
+  app.use('/events', eventsRoutes);
+
+  // Team members & invitations
+  app.use('/team', teamRoutes);
+
+  // Tenant audit log
+  app.use('/audit', auditRoutes);
+
   apiLogger.info('All routes mounted successfully', {
     routes: [
       'POST /c-suite/ceo/chat',
@@ -162,7 +189,14 @@ export function createApp(): Application {
       'POST /c-suite/board-meeting',
     'GET /board/meetings',
     'GET /board/meetings/:id',
+    'POST /board/meetings/:id/minutes',
+    'GET /board/meetings/:id/minutes',
+    'GET /board/meetings/:id/minutes/:exportId/download',
     'PATCH /board/action-items/:id',
+    'GET /board/personas',
+    'POST /board/personas',
+    'PATCH /board/personas/:personaId',
+    'DELETE /board/personas/:personaId',
       'GET /connectors',
       'POST /connectors/:provider/authorize',
       'GET /connectors/:provider/callback',
@@ -172,6 +206,12 @@ export function createApp(): Application {
     'GET /actions/pending',
     'POST /actions/:id/approve',
     'POST /actions/:id/reject',
+    'GET /actions/scheduled',
+    'POST /actions/:id/cancel',
+    'POST /actions/:id/reschedule',
+    'POST /actions/:id/rollback',
+    'GET /approvals/policies',
+    'GET /approvals/delegations',
   'GET /notifications/stats',
     'GET /notifications',
     'POST /notifications/:id/read',
@@ -184,18 +224,42 @@ export function createApp(): Application {
     'POST /marketplace/widgets/:slug/install',
     'DELETE /marketplace/widgets/:slug/install',
   'GET /billing/usage',
+  'GET /billing/quota',
   'POST /billing/webhook',
+      'GET /llm/providers',
+      'GET /llm/settings',
+      'PUT /llm/settings/:scope',
+      'DELETE /llm/settings/:scope',
+      'GET /team/members',
+      'PATCH /team/members/:id',
+      'DELETE /team/members/:id',
+      'GET /team/invitations',
+      'POST /team/invitations',
+      'DELETE /team/invitations/:id',
+      'POST /team/invitations/preview',
+      'POST /team/invitations/accept',
+      'POST /team/invitations/decline',
+      'GET /audit',
+      'GET /audit/export',
       'GET /modules/growth-pulse/insights',
       'GET /modules/growth-pulse/insights/:insightId',
       'POST /modules/growth-pulse/run',
+      'POST /module-workers/register',
+      'POST /module-workers/:workerId/heartbeat',
+      'DELETE /module-workers/:workerId',
+      'GET /module-workers',
       'GET /modules/growth-pulse/job/:jobId',
       'POST /video/transcribe',
       'POST /video/extract-clips',
       'POST /video/render',
       'POST /video/add-captions',
       'POST /video/optimize',
+      'GET /video/transcripts/:id',
+      'PATCH /video/transcripts/:id',
+      'GET /video/transcripts/:id/captions',
       'GET /video/jobs',
       'GET /video/jobs/:id',
+      'GET /video/jobs/:id/output',
       'DELETE /video/jobs/:id',
     ],
   });
@@ -1,9 +1,30 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { z } from 'zod';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
+const LLM_PROVIDERS = ['fireworks', 'openai', 'ollama'] as const;
+
+// An MCP server is either spawned over stdio (`command`) or reached over
+// streamable HTTP (`url`)
+const mcpServerSchema = z
+  .object({
+    slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/),
+    command: z.string().min(1).optional(),
+    args: z.array(z.string()).optional(),
+    cwd: z.string().optional(),
+    env: z.record(z.string()).optional(),
+    url: z.string().url().optional(),
+    // Tools that run without approval even if the server does not annotate them readOnlyHint
+    readOnlyTools: z.array(z.string()).optional(),
+  })
+  .refine((server) => Boolean(server.command) !== Boolean(server.url), {
+    message: 'Set exactly one of command or url',
+  });
+
 // Configuration schema with validation
 const configSchema = z.object({
   // Server
@@ -28,6 +49,11 @@ const configSchema = z.object({
   queueRemoveOnComplete: z.coerce.number().default(100),
   queueRemoveOnFail: z.coerce.number().default(1000),
   triggerRunnerCron: z.string().default('*/10 * * * *'),
+  connectorRefreshCron: z.string().default('*/15 * * * *'),
+  // Tokens expiring within this window are renewed by the refresh job
+  connectorRefreshLeadMinutes: z.coerce.number().int().positive().default(30),
+  // Consecutive refresh failures before a connector is marked as error
+  connectorRefreshMaxFailures: z.coerce.number().int().positive().default(3),
 
   // Clerk Authentication
   clerkSecretKey: z.string().min(1),
@@ -99,9 +125,68 @@ const configSchema = z.object({
   googleClientSecret: z.string().optional(),
   googleRedirectUri: z.string().optional(),
 
+  // Connector OAuth apps (redirect URIs default to the API's /connectors/:provider/callback)
+  connectors: z
+    .object({
+      gmail: z
+        .object({
+          clientId: z.string().optional(),
+          clientSecret: z.string().optional(),
+          redirectUri: z.string().optional(),
+        })
+        .default({}),
+      slack: z
+        .object({
+          clientId: z.string().optional(),
+          clientSecret: z.string().optional(),
+          redirectUri: z.string().optional(),
+        })
+        .default({}),
+      notion: z
+        .object({
+          clientId: z.string().optional(),
+          clientSecret: z.string().optional(),
+          redirectUri: z.string().optional(),
+        })
+        .default({}),
+      stripe: z
+        .object({
+          clientId: z.string().optional(),
+          secretKey: z.string().optional(),
+          redirectUri: z.string().optional(),
+        })
+        .default({}),
+    })
+    .default({})
+    .transform((value) => ({
+      // Gmail is a Google OAuth app; reuse the Google client unless one is set
+      gmail: {
+        clientId: value.gmail.clientId?.trim() || null,
+        clientSecret: value.gmail.clientSecret?.trim() || null,
+        redirectUri: value.gmail.redirectUri?.trim() || null,
+      },
+      slack: {
+        clientId: value.slack.clientId?.trim() || null,
+        clientSecret: value.slack.clientSecret?.trim() || null,
+        redirectUri: value.slack.redirectUri?.trim() || null,
+      },
+      notion: {
+        clientId: value.notion.clientId?.trim() || null,
+        clientSecret: value.notion.clientSecret?.trim() || null,
+        redirectUri: value.notion.redirectUri?.trim() || null,
+      },
+      stripe: {
+        // Stripe Connect exchanges codes with the platform's secret key
+        clientId: value.stripe.clientId?.trim() || null,
+        secretKey: value.stripe.secretKey?.trim() || null,
+        redirectUri: value.stripe.redirectUri?.trim() || null,
+      },
+    })),
+
   // Fireworks AI Configuration
   fireworks: z.object({
-    apiKey: z.string().min(1),
+    // Optional so self-hosted installs can run entirely on a local provider
+    apiKey: z.string().optional(),
     model: z.string().default('accounts/fireworks/models/qwen2p5-72b-instruct'),
     maxTokens: z.coerce.number().default(2048),
     temperature: z.coerce.number().default(0.7),
@@ -109,6 +194,197 @@ const configSchema = z.object({
     embeddingDimensions: z.coerce.number().default(1536),
   }),
 
+  // LLM provider routing (tenants and personas can override via TenantLlmSetting)
+  llm: z
+    .object({
+      provider: z.enum(LLM_PROVIDERS).optional(),
+      fallbackProviders: z.string().optional(),
+      requestTimeoutMs: z.coerce.number().int().positive().optional(),
+      openai: z
+        .object({
+          baseUrl: z.string().url().optional(),
+          apiKey: z.string().optional(),
+          model: z.string().optional(),
+        })
+        .default({}),
+      ollama: z
+        .object({
+          baseUrl: z.string().url().optional(),
+          model: z.string().optional(),
+        })
+        .default({}),
+    })
+    .default({})
+    .transform((value, ctx) => {
+      const fallbackProviders = (value.fallbackProviders ?? '')
+        .split(',')
+        .map((provider) => provider.trim())
+        .filter((provider) => provider.length > 0);
+
+      const unknown = fallbackProviders.filter(
+        (provider) => !(LLM_PROVIDERS as readonly string[]).includes(provider)
+      );
+      if (unknown.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown provider(s) in LLM_FALLBACK_PROVIDERS: ${unknown.join(', ')}`,
+        });
+        return z.NEVER;
+      }
+
+      return {
+        provider: value.provider ?? 'fireworks',
+        fallbackProviders: fallbackProviders as Array<(typeof LLM_PROVIDERS)[number]>,
+        requestTimeoutMs: value.requestTimeoutMs ?? 120000,
+        openai: {
+          baseUrl: value.openai.baseUrl?.trim() || 'https://api.openai.com/v1',
+          apiKey: value.openai.apiKey?.trim() || null,
+          model: value.openai.model?.trim() || 'gpt-4o-mini',
+        },
+        ollama: {
+          baseUrl: value.ollama.baseUrl?.trim() || 'http://localhost:11434',
+          model: value.ollama.model?.trim() || 'llama3.1:8b',
+        },
+      };
+    }),
+
+  // Email/Slack delivery of notifications (in-app notifications need none of this)
+  notifications: z
+    .object({
+      deliveryCron: z.string().optional(),
+      deliveryBatchSize: z.coerce.number().int().positive().optional(),
+      deliveryMaxAttempts: z.coerce.number().int().positive().optional(),
+      appUrl: z.string().url().optional(),
+      smtp: z
+        .object({
+          host: z.string().optional(),
+          port: z.coerce.number().int().positive().optional(),
+          secure: z.enum(['true', 'false']).optional(),
+          user: z.string().optional(),
+          password: z.string().optional(),
+          from: z.string().optional(),
+        })
+        .default({}),
+    })
+    .default({})
+    .transform((value) => ({
+      deliveryCron: value.deliveryCron?.trim() || '* * * * *',
+      deliveryBatchSize: value.deliveryBatchSize ?? 50,
+      deliveryMaxAttempts: value.deliveryMaxAttempts ?? 5,
+      appUrl: value.appUrl?.trim().replace(/\/$/, '') || null,
+      smtp: {
+        host: value.smtp.host?.trim() || null,
+        port: value.smtp.port ?? 587,
+        // Implicit TLS (usually port 465); otherwise STARTTLS is negotiated when offered
+        secure: value.smtp.secure === 'true',
+        user: value.smtp.user?.trim() || null,
+        password: value.smtp.password || null,
+        from: value.smtp.from?.trim() || 'OC-Suite <notifications@localhost>',
+      },
+    })),
+
+  chat: z
+    .object({
+      maxToolRounds: z.coerce.number().int().min(0).max(10).optional(),
+    })
+    .default({})
+    .transform((value) => ({
+      // 0 disables tool calling in chat
+      maxToolRounds: value.maxToolRounds ?? 4,
+    })),
+
+  // Team invitations
+  team: z
+    .object({
+      invitationTtlHours: z.coerce.number().int().positive().max(24 * 30).optional(),
+    })
+    .default({})
+    .transform((value) => ({
+      invitationTtlHours: value.invitationTtlHours ?? 168,
+    })),
+
+  // Approval policies: how often pending requests past their deadline are auto-rejected,
+  // and how often scheduled actions are checked for release
+  approvals: z
+    .object({
+      expiryCron: z.string().optional(),
+      scheduleCron: z.string().optional(),
+    })
+    .default({})
+    .transform((value) => ({
+      expiryCron: value.expiryCron?.trim() || '*/5 * * * *',
+      scheduleCron: value.scheduleCron?.trim() || '* * * * *',
+    })),
+
+  // Out-of-process module workers (registration is disabled without a token)
+  moduleWorkers: z
+    .object({
+      token: z.string().optional(),
+      heartbeatTtlSeconds: z.coerce.number().int().positive().optional(),
+      dispatchTimeoutMs: z.coerce.number().int().positive().optional(),
+      maxDispatchFailures: z.coerce.number().int().positive().optional(),
+    })
+    .default({})
+    .transform((value) => ({
+      token: value.token?.trim() || null,
+      heartbeatTtlSeconds: value.heartbeatTtlSeconds ?? 90,
+      dispatchTimeoutMs: value.dispatchTimeoutMs ?? 30000,
+      maxDispatchFailures: value.maxDispatchFailures ?? 3,
+    })),
+
+  // MCP servers (e.g. the lead-gen-app agents) exposed as module capabilities
+  mcpModules: z
+    .object({
+      servers: z.string().optional(),
+      idleTimeoutSeconds: z.coerce.number().int().positive().optional(),
+      maxConnections: z.coerce.number().int().positive().optional(),
+      callTimeoutMs: z.coerce.number().int().positive().optional(),
+    })
+    .default({})
+    .transform((value, ctx) => {
+      let servers: z.infer<typeof mcpServerSchema>[] = [];
+
+      if (value.servers?.trim()) {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(value.servers);
+        } catch (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'MCP_MODULE_SERVERS must be valid JSON (e.g., [{"slug":"leadtracker-pro","command":"node","args":["dist/index.js"]}])',
+          });
+          return z.NEVER;
+        }
+
+        const result = z.array(mcpServerSchema).safeParse(parsed);
+        if (!result.success) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `MCP_MODULE_SERVERS is invalid: ${result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`,
+          });
+          return z.NEVER;
+        }
+        servers = result.data;
+      }
+
+      return {
+        servers,
+        idleTimeoutSeconds: value.idleTimeoutSeconds ?? 300,
+        maxConnections: value.maxConnections ?? 20,
+        callTimeoutMs: value.callTimeoutMs ?? 60000,
+      };
+    }),
+
+  // Tenant audit log
+  audit: z
+    .object({
+      exportMaxRows: z.coerce.number().int().positive().optional(),
+    })
+    .default({})
+    .transform((value) => ({
+      exportMaxRows: value.exportMaxRows ?? 50000,
+    })),
+
   // PostHog / telemetry configuration
   posthog: z
     .object({
@@ -157,15 +433,91 @@ const configSchema = z.object({
   stripe: z
     .object({
       webhookSecret: z.string().optional(),
+      webhookToleranceSeconds: z.coerce.number().int().positive().optional(),
+      pricePlans: z.string().optional(),
+    })
+    .default({})
+    .transform((value, ctx) => {
+      let pricePlans: Record<string, string> = {};
+
+      if (value.pricePlans?.trim()) {
+        try {
+          const parsed = JSON.parse(value.pricePlans) as Record<string, unknown>;
+          pricePlans = Object.fromEntries(
+            Object.entries(parsed)
+              .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+              .map(([priceId, plan]) => [priceId.trim(), plan.trim()])
+          );
+        } catch (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'STRIPE_PRICE_PLANS must be valid JSON (e.g., {"price_123":"growth"})',
+          });
+          return z.NEVER;
+        }
+      }
+
+      return {
+        webhookSecret: value.webhookSecret?.trim() || null,
+        webhookToleranceSeconds: value.webhookToleranceSeconds ?? 300,
+        pricePlans,
+      };
+    }),
+
+  quotas: z
+    .object({
+      enforcement: z.enum(['enforce', 'warn', 'off']).optional(),
     })
     .default({})
     .transform((value) => ({
-      webhookSecret: value.webhookSecret?.trim() || null,
+      enforcement: value.enforcement ?? 'enforce',
     })),
 
   // Video Production API Keys
   assemblyAIApiKey: z.string().optional(),
   shotstackApiKey: z.string().optional(),
+
+  // `auto` transcribes with AssemblyAI when a key is configured, else with
+  // whisper.cpp on the API host
+  videoTranscription: z
+    .object({
+      provider: z.enum(['auto', 'assemblyai', 'whisper_cpp']).optional(),
+      whisperBinaryPath: z.string().optional(),
+      whisperModelPath: z.string().optional(),
+      whisperThreads: z.coerce.number().int().positive().optional(),
+      whisperDiarize: z.string().optional(),
+      timeoutSeconds: z.coerce.number().int().positive().optional(),
+    })
+    .default({})
+    .transform((value) => ({
+      provider: value.provider ?? 'auto',
+      whisperBinaryPath: value.whisperBinaryPath?.trim() || 'whisper-cli',
+      whisperModelPath: value.whisperModelPath?.trim() || null,
+      whisperThreads: value.whisperThreads ?? null,
+      whisperDiarize: value.whisperDiarize === 'true',
+      timeoutSeconds: value.timeoutSeconds ?? 3600,
+    })),
+
+  // `auto` renders with Shotstack when a key is configured, else with ffmpeg
+  videoRender: z
+    .object({
+      backend: z.enum(['auto', 'shotstack', 'ffmpeg']).optional(),
+      ffmpegPath: z.string().optional(),
+      ffprobePath: z.string().optional(),
+      outputDir: z.string().optional(),
+      publicUrl: z.string().url().optional(),
+      timeoutSeconds: z.coerce.number().int().positive().optional(),
+    })
+    .default({})
+    .transform((value) => ({
+      backend: value.backend ?? 'auto',
+      ffmpegPath: value.ffmpegPath?.trim() || 'ffmpeg',
+      ffprobePath: value.ffprobePath?.trim() || 'ffprobe',
+      outputDir: value.outputDir?.trim() || join(tmpdir(), 'ocsuite-renders'),
+      publicUrl: value.publicUrl ?? null,
+      timeoutSeconds: value.timeoutSeconds ?? 1800,
+    })),
+
   pexelsApiKey: z.string().optional(),
   unsplashApiKey: z.string().optional(),
   freesoundApiKey: z.string().optional(),
@@ -190,6 +542,9 @@ const rawConfig = {
   queueRemoveOnComplete: process.env.QUEUE_REMOVE_ON_COMPLETE,
   queueRemoveOnFail: process.env.QUEUE_REMOVE_ON_FAIL,
   triggerRunnerCron: process.env.TRIGGER_RUNNER_CRON,
+  connectorRefreshCron: process.env.CONNECTOR_REFRESH_CRON,
+  connectorRefreshLeadMinutes: process.env.CONNECTOR_REFRESH_LEAD_MINUTES,
+  connectorRefreshMaxFailures: process.env.CONNECTOR_REFRESH_MAX_FAILURES,
   clerkSecretKey: process.env.CLERK_SECRET_KEY,
   clerkPublishableKey: process.env.CLERK_PUBLISHABLE_KEY,
   masterEncryptionKey: process.env.MASTER_ENCRYPTION_KEY,
@@ -203,6 +558,28 @@ const rawConfig = {
   googleClientId: process.env.GOOGLE_CLIENT_ID,
   googleClientSecret: process.env.GOOGLE_CLIENT_SECRET,
   googleRedirectUri: process.env.GOOGLE_REDIRECT_URI,
+  connectors: {
+    gmail: {
+      clientId: process.env.GMAIL_CLIENT_ID,
+      clientSecret: process.env.GMAIL_CLIENT_SECRET,
+      redirectUri: process.env.GMAIL_REDIRECT_URI,
+    },
+    slack: {
+      clientId: process.env.SLACK_CLIENT_ID,
+      clientSecret: process.env.SLACK_CLIENT_SECRET,
+      redirectUri: process.env.SLACK_REDIRECT_URI,
+    },
+    notion: {
+      clientId: process.env.NOTION_CLIENT_ID,
+      clientSecret: process.env.NOTION_CLIENT_SECRET,
+      redirectUri: process.env.NOTION_REDIRECT_URI,
+    },
+    stripe: {
+      clientId: process.env.STRIPE_CONNECT_CLIENT_ID,
+      secretKey: process.env.STRIPE_CONNECT_SECRET_KEY,
+      redirectUri: process.env.STRIPE_CONNECT_REDIRECT_URI,
+    },
+  },
   fireworks: {
     apiKey: process.env.FIREWORKS_API_KEY,
     model: process.env.FIREWORKS_MODEL,
@@ -211,6 +588,59 @@ const rawConfig = {
     embeddingModel: process.env.FIREWORKS_EMBEDDING_MODEL,
     embeddingDimensions: process.env.FIREWORKS_EMBEDDING_DIMENSIONS,
   },
+  llm: {
+    provider: process.env.LLM_PROVIDER,
+    fallbackProviders: process.env.LLM_FALLBACK_PROVIDERS,
+    requestTimeoutMs: process.env.LLM_REQUEST_TIMEOUT_MS,
+    openai: {
+      baseUrl: process.env.OPENAI_BASE_URL,
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_MODEL,
+    },
+    ollama: {
+      baseUrl: process.env.OLLAMA_BASE_URL,
+      model: process.env.OLLAMA_MODEL,
+    },
+  },
+  notifications: {
+    deliveryCron: process.env.NOTIFICATION_DELIVERY_CRON,
+    deliveryBatchSize: process.env.NOTIFICATION_DELIVERY_BATCH_SIZE,
+    deliveryMaxAttempts: process.env.NOTIFICATION_DELIVERY_MAX_ATTEMPTS,
+    appUrl: process.env.APP_URL,
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: process.env.SMTP_PORT,
+      secure: process.env.SMTP_SECURE,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.NOTIFICATION_EMAIL_FROM,
+    },
+  },
+  chat: {
+    maxToolRounds: process.env.CHAT_MAX_TOOL_ROUNDS,
+  },
+  team: {
+    invitationTtlHours: process.env.TEAM_INVITATION_TTL_HOURS,
+  },
+  approvals: {
+    expiryCron: process.env.APPROVAL_EXPIRY_CRON,
+    scheduleCron: process.env.ACTION_SCHEDULE_CRON,
+  },
+  mcpModules: {
+    servers: process.env.MCP_MODULE_SERVERS,
+    idleTimeoutSeconds: process.env.MCP_MODULE_IDLE_TIMEOUT_SECONDS,
+    maxConnections: process.env.MCP_MODULE_MAX_CONNECTIONS,
+    callTimeoutMs: process.env.MCP_MODULE_CALL_TIMEOUT_MS,
+  },
+  moduleWorkers: {
+    token: process.env.MODULE_WORKER_TOKEN,
+    heartbeatTtlSeconds: process.env.MODULE_WORKER_HEARTBEAT_TTL_SECONDS,
+    dispatchTimeoutMs: process.env.MODULE_WORKER_DISPATCH_TIMEOUT_MS,
+    maxDispatchFailures: process.env.MODULE_WORKER_MAX_DISPATCH_FAILURES,
+  },
+  audit: {
+    exportMaxRows: process.env.AUDIT_EXPORT_MAX_ROWS,
+  },
   posthog: {
     apiKey: process.env.POSTHOG_API_KEY,
     host: process.env.POSTHOG_HOST,
@@ -228,9 +658,30 @@ const rawConfig = {
   },
   stripe: {
     webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
+    webhookToleranceSeconds: process.env.STRIPE_WEBHOOK_TOLERANCE_SECONDS,
+    pricePlans: process.env.STRIPE_PRICE_PLANS,
+  },
+  quotas: {
+    enforcement: process.env.QUOTA_ENFORCEMENT,
   },
   assemblyAIApiKey: process.env.ASSEMBLYAI_API_KEY,
   shotstackApiKey: process.env.SHOTSTACK_API_KEY,
+  videoTranscription: {
+    provider: process.env.VIDEO_TRANSCRIPTION_PROVIDER,
+    whisperBinaryPath: process.env.WHISPER_CPP_PATH,
+    whisperModelPath: process.env.WHISPER_CPP_MODEL,
+    whisperThreads: process.env.WHISPER_CPP_THREADS,
+    whisperDiarize: process.env.WHISPER_CPP_DIARIZE,
+    timeoutSeconds: process.env.VIDEO_TRANSCRIPTION_TIMEOUT_SECONDS,
+  },
+  videoRender: {
+    backend: process.env.VIDEO_RENDER_BACKEND,
+    ffmpegPath: process.env.FFMPEG_PATH,
+    ffprobePath: process.env.FFPROBE_PATH,
+    outputDir: process.env.VIDEO_RENDER_OUTPUT_DIR,
+    publicUrl: process.env.VIDEO_RENDER_PUBLIC_URL || undefined,
+    timeoutSeconds: process.env.VIDEO_RENDER_TIMEOUT_SECONDS,
+  },
   pexelsApiKey: process.env.PEXELS_API_KEY,
   unsplashApiKey: process.env.UNSPLASH_API_KEY,
   freesoundApiKey: process.env.FREESOUND_API_KEY,
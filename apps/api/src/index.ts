@@ -2,6 +2,8 @@ import { createApp } from './app.js';
 import { config } from './config/index.js';
 import { apiLogger } from './utils/logger.js';
 import { initializeQueues, closeQueues } from './queue/index.js';
+import { closeTenantEvents } from './services/tenant-events.js';
+import { loadMcpModules, closeMcpConnections } from './modules/mcp/index.js';
 import { checkDatabaseHealth, disconnectDatabase } from '@ocsuite/db';
 import { initializeCrypto } from '@ocsuite/crypto';
 import { initializeTelemetry, shutdownTelemetry, parseOtlpHeaders } from './observability/telemetry.js';
@@ -50,6 +52,12 @@ async function startServer() {
     await initializeQueues();
     apiLogger.info('Job queues initialized');
 
+    // Register MCP server tools as module capabilities (chat tools, approvals)
+    if (config.mcpModules.servers.length) {
+      apiLogger.info('Loading MCP modules...');
+      await loadMcpModules();
+    }
+
     // Create Express app
     const app = createApp();
 
@@ -94,6 +102,9 @@ async function startServer() {
         apiLogger.info('HTTP server closed');
 
         try {
+          await closeTenantEvents();
+          await closeMcpConnections();
+
           // Close queues
           apiLogger.info('Closing job queues...');
           await closeQueues();
@@ -6,6 +6,7 @@ import { apiLogger } from '../utils/logger.js';
 const SENSITIVE_PREFIXES = [
   '/actions',
   '/alerts',
+  '/audit',
   '/billing',
   '/board',
   '/connectors',
@@ -157,6 +157,15 @@ export const errorHandler = (
       message: err.message || 'Resource not found',
       code: 'NOT_FOUND',
     };
+  } else if (err instanceof QuotaExceededError) {
+    // Plan quota exhausted for the current billing period
+    statusCode = 402;
+    errorResponse = {
+      error: 'quota_exceeded',
+      message: err.message,
+      code: 'QUOTA_EXCEEDED',
+      details: err.details,
+    };
   } else if (err.name === 'BadRequestError') {
     // Bad request errors
     statusCode = 400;
@@ -250,3 +259,17 @@ export class NotFoundError extends Error {
     this.name = 'NotFoundError';
   }
 }
+
+export class QuotaExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly details: {
+      plan: string;
+      metrics: Array<{ metric: string; used: number; limit: number }>;
+      resetsAt: string;
+    }
+  ) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
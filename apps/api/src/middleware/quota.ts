@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/index.js';
+import { getQuotaStatus, type QuotaMetric } from '../services/quotas.js';
+import { apiLogger } from '../utils/logger.js';
+import { QuotaExceededError } from './error-handler.js';
+
+const QUOTA_WARNING_HEADER = 'X-Quota-Warning';
+
+/**
+ * Checks the tenant's plan quotas before a metered request runs.
+ * Requires resolveTenant to run first.
+ *
+ * Metrics at or above 80% are reported in the `X-Quota-Warning` header.
+ * Exhausted metrics reject the request with `quota_exceeded` on plans that
+ * block, and only warn on plans billed for overage or when
+ * QUOTA_ENFORCEMENT=warn. Quota lookups fail open so a billing outage never
+ * takes metered features down with it.
+ */
+export const enforceQuota = (...metrics: QuotaMetric[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const tenantId = req.tenantId;
+
+    if (!tenantId || config.quotas.enforcement === 'off') {
+      return next();
+    }
+
+    try {
+      const status = await getQuotaStatus(tenantId);
+      const usage = metrics.map((metric) => status.metrics[metric]);
+
+      const warnings = usage.filter((entry) => entry.state !== 'ok');
+      if (warnings.length) {
+        res.setHeader(
+          QUOTA_WARNING_HEADER,
+          warnings.map((entry) => `${entry.metric}=${Math.round((entry.ratio ?? 0) * 100)}%`).join(', ')
+        );
+      }
+
+      const exceeded = usage.filter((entry) => entry.state === 'exceeded');
+      if (!exceeded.length) {
+        return next();
+      }
+
+      const block = status.enforcement === 'block' && config.quotas.enforcement === 'enforce';
+
+      apiLogger.warn('Tenant quota exceeded', {
+        tenantId,
+        plan: status.plan,
+        metrics: exceeded.map((entry) => entry.metric),
+        blocked: block,
+        path: req.path,
+      });
+
+      if (!block) {
+        return next();
+      }
+
+      return next(
+        new QuotaExceededError(
+          `Your ${status.plan} plan limit for ${exceeded.map((entry) => entry.metric).join(', ')} has been reached for this billing period.`,
+          {
+            plan: status.plan,
+            metrics: exceeded.map((entry) => ({
+              metric: entry.metric,
+              used: entry.used,
+              limit: entry.limit ?? 0,
+            })),
+            resetsAt: status.period.resetsAt.toISOString(),
+          }
+        )
+      );
+    } catch (error) {
+      apiLogger.error('Quota check failed; allowing request', {
+        tenantId,
+        metrics,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next();
+    }
+  };
+};
@@ -0,0 +1,19 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Request } from 'express';
+
+// Routes whose handlers must verify a signature over the exact bytes received.
+const RAW_BODY_PATHS = ['/billing/webhook'];
+
+/**
+ * `verify` hook for express.json that keeps the unparsed body on
+ * `req.rawBody` for signed webhooks. Re-serialising `req.body` does not
+ * reproduce the original bytes, so signature checks need this copy.
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  const url = req.url ?? '';
+  const path = url.split('?')[0] ?? url;
+
+  if (RAW_BODY_PATHS.includes(path)) {
+    (req as Request).rawBody = Buffer.from(buf);
+  }
+}
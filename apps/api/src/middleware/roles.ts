@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { TenantMemberRole } from '@ocsuite/db';
+import { apiLogger } from '../utils/logger.js';
+
+/**
+ * Roles allowed to change tenant-wide state (rules, connectors, approvals).
+ */
+export const TENANT_ADMIN_ROLES: TenantMemberRole[] = [TenantMemberRole.owner, TenantMemberRole.admin];
+
+function describeRoles(roles: TenantMemberRole[]): string {
+  return roles.length > 1
+    ? `${roles.slice(0, -1).join(', ')} or ${roles[roles.length - 1]}`
+    : roles[0] ?? 'a higher';
+}
+
+/**
+ * Restricts a route to members holding one of `roles` in the resolved tenant.
+ * Must run after resolveTenant, which attaches the caller's role.
+ *
+ * @param action - Used in the 403 message, e.g. "Managing connectors"
+ */
+export const requireRole = (roles: TenantMemberRole[], action = 'This action') => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.tenantRole && roles.includes(req.tenantRole)) {
+      return next();
+    }
+
+    apiLogger.warn('Role check failed', {
+      tenantId: req.tenantId,
+      clerkId: req.clerkId,
+      role: req.tenantRole,
+      required: roles,
+      path: req.originalUrl,
+    });
+
+    return res.status(403).json({
+      error: 'forbidden',
+      message: `${action} requires ${describeRoles(roles)} role`,
+    });
+  };
+};
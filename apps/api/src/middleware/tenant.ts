@@ -142,8 +142,10 @@ export const resolveTenant = () => {
         });
       }
 
-      // Attach tenant ID to request
-  req.tenantId = membership.tenantId;
+      // Attach tenant ID and the caller's membership to request
+      req.tenantId = membership.tenantId;
+      req.tenantUserId = user.id;
+      req.tenantRole = membership.role;
       
       apiLogger.debug('Tenant resolved successfully', {
         userId: user.id,
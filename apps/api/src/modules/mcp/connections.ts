@@ -0,0 +1,211 @@
+import { createInterface } from 'readline';
+import type { Readable } from 'stream';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { config } from '../../config/index.js';
+import { createContextLogger } from '../../utils/logger.js';
+
+export type McpServerDefinition = (typeof config.mcpModules.servers)[number];
+
+const mcpLogger = createContextLogger('mcp');
+
+interface PooledConnection {
+  client: Promise<Client>;
+  /** Calls holding the connection; busy connections are never evicted. */
+  inFlight: number;
+  lastUsedAt: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * One connection per (server, tenant): every tenant gets its own stdio
+ * process or HTTP session, so servers never see two tenants' calls on the
+ * same connection.
+ */
+const pool = new Map<string, PooledConnection>();
+
+/** Callers waiting for a pool slot while every connection is busy. */
+let slotWaiters: Array<() => void> = [];
+
+function notifySlotWaiters(): void {
+  const waiters = slotWaiters;
+  slotWaiters = [];
+  waiters.forEach((resolve) => resolve());
+}
+
+function poolKey(server: McpServerDefinition, tenantId: string): string {
+  return `${server.slug}:${tenantId}`;
+}
+
+/**
+ * Connects to an MCP server. The tenant is passed as OCSUITE_TENANT_ID to
+ * spawned servers and as the X-Tenant-Id header to remote ones; `null` is
+ * used for tool discovery, which runs outside any tenant.
+ */
+export async function connectMcpServer(server: McpServerDefinition, tenantId: string | null): Promise<Client> {
+  const client = new Client({ name: 'ocsuite-api', version: '1.0.0' });
+
+  if (server.command) {
+    const transport = new StdioClientTransport({
+      command: server.command,
+      args: server.args,
+      cwd: server.cwd,
+      env: {
+        ...getDefaultEnvironment(),
+        ...server.env,
+        ...(tenantId ? { OCSUITE_TENANT_ID: tenantId } : {}),
+      },
+      stderr: 'pipe',
+    });
+
+    // Servers log to stderr; forward it instead of mixing it into our output
+    const stderr = transport.stderr as Readable | null;
+    if (stderr) {
+      createInterface({ input: stderr }).on('line', (line) => {
+        mcpLogger.debug(line, { server: server.slug, tenantId });
+      });
+    }
+
+    await client.connect(transport);
+    return client;
+  }
+
+  const transport = new StreamableHTTPClientTransport(new URL(server.url!), {
+    requestInit: { headers: tenantId ? { 'X-Tenant-Id': tenantId } : {} },
+  });
+  await client.connect(transport);
+  return client;
+}
+
+async function closeConnection(key: string, connection: PooledConnection): Promise<void> {
+  if (pool.get(key) === connection) {
+    pool.delete(key);
+    notifySlotWaiters();
+  }
+
+  if (connection.idleTimer) {
+    clearTimeout(connection.idleTimer);
+  }
+
+  try {
+    const client = await connection.client;
+    await client.close();
+  } catch (error) {
+    mcpLogger.warn('Failed to close MCP connection', {
+      key,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Closes the least recently used idle connection. Returns false when every
+ * connection is busy.
+ */
+async function evictLeastRecentlyUsed(): Promise<boolean> {
+  let oldest: { key: string; connection: PooledConnection } | null = null;
+
+  for (const [key, connection] of pool) {
+    if (connection.inFlight === 0 && (!oldest || connection.lastUsedAt < oldest.connection.lastUsedAt)) {
+      oldest = { key, connection };
+    }
+  }
+
+  if (!oldest) {
+    return false;
+  }
+
+  await closeConnection(oldest.key, oldest.connection);
+  return true;
+}
+
+function openConnection(server: McpServerDefinition, tenantId: string, key: string): PooledConnection {
+  const connection: PooledConnection = {
+    client: connectMcpServer(server, tenantId),
+    inFlight: 0,
+    lastUsedAt: Date.now(),
+  };
+  pool.set(key, connection);
+
+  const forget = () => {
+    if (pool.get(key) === connection) {
+      pool.delete(key);
+      notifySlotWaiters();
+    }
+    if (connection.idleTimer) {
+      clearTimeout(connection.idleTimer);
+    }
+  };
+  connection.client.then((client) => {
+    client.onclose = forget;
+  }, forget);
+
+  mcpLogger.info('Opening MCP connection', { server: server.slug, tenantId });
+  return connection;
+}
+
+/**
+ * Reserves the tenant's connection, opening it if needed. When the pool is
+ * full of busy connections the caller waits for one to be released rather
+ * than closing it mid-call.
+ */
+async function acquire(server: McpServerDefinition, tenantId: string, key: string): Promise<PooledConnection> {
+  let connection = pool.get(key);
+
+  while (!connection && pool.size >= config.mcpModules.maxConnections) {
+    if (!(await evictLeastRecentlyUsed())) {
+      await new Promise<void>((resolve) => slotWaiters.push(resolve));
+    }
+    connection = pool.get(key);
+  }
+
+  connection ??= openConnection(server, tenantId, key);
+  connection.inFlight += 1;
+  connection.lastUsedAt = Date.now();
+
+  if (connection.idleTimer) {
+    clearTimeout(connection.idleTimer);
+    connection.idleTimer = undefined;
+  }
+
+  return connection;
+}
+
+function release(key: string, connection: PooledConnection): void {
+  connection.inFlight -= 1;
+  connection.lastUsedAt = Date.now();
+
+  if (connection.inFlight > 0 || pool.get(key) !== connection) {
+    return;
+  }
+
+  connection.idleTimer = setTimeout(() => {
+    void closeConnection(key, connection);
+  }, config.mcpModules.idleTimeoutSeconds * 1000);
+  connection.idleTimer.unref();
+  notifySlotWaiters();
+}
+
+/**
+ * Runs `fn` with the tenant's pooled client. Connections that close (e.g. the
+ * server process exits) leave the pool, so the next call reconnects.
+ */
+export async function withMcpClient<T>(
+  server: McpServerDefinition,
+  tenantId: string,
+  fn: (client: Client) => Promise<T>
+): Promise<T> {
+  const key = poolKey(server, tenantId);
+  const connection = await acquire(server, tenantId, key);
+
+  try {
+    return await fn(await connection.client);
+  } finally {
+    release(key, connection);
+  }
+}
+
+export async function closeMcpConnections(): Promise<void> {
+  await Promise.all([...pool.entries()].map(([key, connection]) => closeConnection(key, connection)));
+}
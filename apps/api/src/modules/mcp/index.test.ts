@@ -0,0 +1,125 @@
+import { fileURLToPath } from 'url';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import type { PrismaClient } from '@ocsuite/db';
+
+vi.mock('@ocsuite/db', () => ({
+  createTenantClient: vi.fn(),
+  // No remote workers are registered, so capabilities always run in process
+  prisma: { moduleWorker: { findMany: vi.fn(async () => []) } },
+}));
+
+import { config } from '../../config/index.js';
+import { closeMcpConnections, loadMcpModules, toTaskExecutionResult } from './index.js';
+import { executeModuleCapability, getModuleCapability, listModuleCapabilities } from '../registry.js';
+
+const server = {
+  slug: 'echo-crm',
+  command: process.execPath,
+  args: [fileURLToPath(new URL('../../../tests/fixtures/mcp/echo-server.mjs', import.meta.url))],
+};
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+function context(tenantId: string, capability: string, payload: Record<string, unknown>) {
+  return {
+    moduleSlug: 'echo-crm',
+    capability,
+    tenantId,
+    actorId: 'user-1',
+    taskId: 'clx-task-1',
+    payload,
+    db: {} as PrismaClient,
+    logger: logger as never,
+  };
+}
+
+describe('MCP module adapter', () => {
+  afterAll(async () => {
+    await closeMcpConnections();
+  });
+
+  it('registers MCP tools as versioned module capabilities', async () => {
+    await expect(loadMcpModules([server])).resolves.toEqual(['echo-crm']);
+
+    const capabilities = (await listModuleCapabilities()).filter((capability) => capability.moduleSlug === 'echo-crm');
+    expect(capabilities.map(({ capability, mutating }) => ({ capability, mutating }))).toEqual([
+      { capability: 'get-pipeline-stats-v2', mutating: false },
+      { capability: 'add-prospect-v2', mutating: true },
+    ]);
+    expect((await getModuleCapability('echo-crm', 'add-prospect-v2')).definition).toMatchObject({
+      version: '2.1.0',
+      inputsSchema: { type: 'object', required: ['company_name'] },
+      metadata: { source: 'mcp', tool: 'add_prospect' },
+    });
+
+    // A slug can only be registered once
+    await expect(loadMcpModules([server])).resolves.toEqual([]);
+  });
+
+  it('refuses servers that do not declare tenant scope', async () => {
+    const unscoped = { ...server, slug: 'shared-crm', env: { ECHO_UNSCOPED: '1' } };
+
+    await expect(loadMcpModules([unscoped])).resolves.toEqual([]);
+    expect((await listModuleCapabilities()).some((capability) => capability.moduleSlug === 'shared-crm')).toBe(false);
+  });
+
+  it('runs each tenant on its own server process', async () => {
+    const first = await executeModuleCapability(context('tenant-a', 'add-prospect-v2', { company_name: 'Acme' }));
+    const again = await executeModuleCapability(context('tenant-a', 'get-pipeline-stats-v2', {}));
+    const other = await executeModuleCapability(context('tenant-b', 'get-pipeline-stats-v2', {}));
+
+    expect(first).toMatchObject({
+      success: true,
+      outputs: {
+        tool: 'add_prospect',
+        arguments: { company_name: 'Acme' },
+        tenantFromEnv: 'tenant-a',
+        tenantFromMeta: 'tenant-a',
+      },
+      metadata: { extra: { controlPlaneTaskId: 'clx-task-1' } },
+    });
+    expect(again.outputs?.pid).toBe(first.outputs?.pid);
+    expect(other.outputs).toMatchObject({ tenantFromEnv: 'tenant-b' });
+    expect(other.outputs?.pid).not.toBe(first.outputs?.pid);
+  });
+
+  it('waits for a busy connection instead of evicting it', { timeout: 15_000 }, async () => {
+    // Stdio servers get two seconds to finish before being terminated, so the
+    // call has to outlast that to show it is not evicted
+    await closeMcpConnections();
+    const { maxConnections } = config.mcpModules;
+    config.mcpModules.maxConnections = 1;
+
+    try {
+      const slow = executeModuleCapability(
+        context('tenant-a', 'get-pipeline-stats-v2', { delayMs: 2500 })
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const other = executeModuleCapability(context('tenant-c', 'get-pipeline-stats-v2', {}));
+
+      await expect(slow).resolves.toMatchObject({ success: true, outputs: { tenantFromEnv: 'tenant-a' } });
+      await expect(other).resolves.toMatchObject({ success: true, outputs: { tenantFromEnv: 'tenant-c' } });
+    } finally {
+      config.mcpModules.maxConnections = maxConnections;
+    }
+  });
+
+  it('reports tool errors as failed results', async () => {
+    const result = await executeModuleCapability(context('tenant-a', 'add-prospect-v2', { fail: true }));
+
+    expect(result).toMatchObject({
+      success: false,
+      error: { code: 'MCP_TOOL_ERROR', message: 'Prospect already exists' },
+    });
+  });
+
+  it('wraps non-object text content', () => {
+    const result = toTaskExecutionResult(
+      { content: [{ type: 'text', text: 'Imported 12 prospects' }] },
+      { taskId: 'clx-task-2', moduleSlug: 'echo-crm', capability: 'import-prospects-v2' },
+      new Date()
+    );
+
+    expect(result.outputs).toEqual({ result: 'Imported 12 prospects' });
+  });
+});
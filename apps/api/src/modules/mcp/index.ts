@@ -0,0 +1,228 @@
+import type { JsonSchema, ModuleCapability, TaskExecutionResult } from '@ocsuite/module-sdk';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../../config/index.js';
+import { toSdkTaskId } from '../../services/module-workers.js';
+import { createContextLogger } from '../../utils/logger.js';
+import {
+  registerModuleCapabilities,
+  type CapabilityHandler,
+  type ModuleExecutionContext,
+} from '../registry.js';
+import { connectMcpServer, withMcpClient, type McpServerDefinition } from './connections.js';
+
+export { closeMcpConnections } from './connections.js';
+
+const mcpLogger = createContextLogger('mcp');
+
+/**
+ * Experimental capability a server advertises to promise it scopes every
+ * call to the tenant it is given (`OCSUITE_TENANT_ID`, `X-Tenant-Id` or
+ * `_meta.tenantId`).
+ */
+export const MCP_TENANT_SCOPE_CAPABILITY = 'ocsuite/tenant-scope';
+
+export class McpTenantScopeError extends Error {
+  constructor(slug: string) {
+    super(`MCP server ${slug} does not declare the ${MCP_TENANT_SCOPE_CAPABILITY} capability`);
+    this.name = 'McpTenantScopeError';
+  }
+}
+
+function toSchema(schema: Tool['inputSchema'] | Tool['outputSchema']): JsonSchema {
+  return {
+    type: 'object',
+    properties: schema?.properties ?? {},
+    ...(schema?.required ? { required: schema.required } : {}),
+  };
+}
+
+/**
+ * Capability names follow the SDK's `{name}-v{major}` convention, with the
+ * major version taken from the server's reported version.
+ */
+export function toMcpCapabilityDefinition(
+  server: McpServerDefinition,
+  tool: Tool,
+  serverVersion: string | undefined
+): { definition: ModuleCapability; mutating: boolean } {
+  const version = serverVersion?.match(/^\d+\.\d+\.\d+/)?.[0] ?? '1.0.0';
+  const major = version.split('.')[0];
+  const baseName = tool.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const readOnly = tool.annotations?.readOnlyHint === true || (server.readOnlyTools ?? []).includes(tool.name);
+
+  return {
+    definition: {
+      name: `${baseName}-v${major}`,
+      version,
+      description: tool.description ?? tool.annotations?.title ?? tool.name,
+      inputsSchema: toSchema(tool.inputSchema),
+      outputsSchema: toSchema(tool.outputSchema),
+      metadata: {
+        source: 'mcp',
+        server: server.slug,
+        tool: tool.name,
+        readOnly,
+      },
+    },
+    // Unannotated tools may change data, so they go through approval
+    mutating: !readOnly,
+  };
+}
+
+function parseTextContent(result: CallToolResult): { text: string; json: unknown } {
+  const text = result.content
+    .flatMap((item) => (item.type === 'text' ? [item.text] : []))
+    .join('\n');
+
+  try {
+    return { text, json: JSON.parse(text) };
+  } catch {
+    return { text, json: undefined };
+  }
+}
+
+/**
+ * Tools usually answer with JSON text; structured content wins when the
+ * server provides it.
+ */
+export function toTaskExecutionResult(
+  result: CallToolResult,
+  context: Pick<ModuleExecutionContext, 'taskId' | 'moduleSlug' | 'capability' | 'approvalId'>,
+  startedAt: Date
+): TaskExecutionResult {
+  const completedAt = new Date();
+  const { text, json } = parseTextContent(result);
+  const metadata = {
+    durationMs: completedAt.getTime() - startedAt.getTime(),
+    startedAt: startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    workerId: `mcp:${context.moduleSlug}`,
+    extra: {
+      moduleSlug: context.moduleSlug,
+      capability: context.capability,
+      approvalId: context.approvalId,
+      controlPlaneTaskId: context.taskId,
+    },
+  };
+
+  if (result.isError) {
+    return {
+      taskId: toSdkTaskId(context.taskId),
+      success: false,
+      error: { code: 'MCP_TOOL_ERROR', message: text || 'MCP tool reported an error' },
+      metadata,
+    };
+  }
+
+  const outputs =
+    result.structuredContent ??
+    (json !== null && typeof json === 'object' && !Array.isArray(json)
+      ? (json as Record<string, unknown>)
+      : { result: json ?? text });
+
+  return { taskId: toSdkTaskId(context.taskId), success: true, outputs, metadata };
+}
+
+function createToolHandler(
+  server: McpServerDefinition,
+  tool: Tool,
+  serverVersion: string | undefined
+): CapabilityHandler {
+  const { definition, mutating } = toMcpCapabilityDefinition(server, tool, serverVersion);
+
+  return {
+    definition,
+    mutating,
+    execute: async (context) => {
+      const startedAt = new Date();
+      const result = await withMcpClient(server, context.tenantId, (client) =>
+        client.callTool(
+          {
+            name: tool.name,
+            arguments: context.payload,
+            _meta: {
+              tenantId: context.tenantId,
+              actorId: context.actorId,
+              taskId: context.taskId,
+              ...(context.approvalId ? { approvalId: context.approvalId } : {}),
+            },
+          },
+          undefined,
+          { timeout: config.mcpModules.callTimeoutMs }
+        )
+      );
+
+      return toTaskExecutionResult(result as CallToolResult, context, startedAt);
+    },
+  };
+}
+
+async function listAllTools(client: Client): Promise<Tool[]> {
+  const tools: Tool[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await client.listTools(cursor ? { cursor } : undefined);
+    tools.push(...page.tools);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return tools;
+}
+
+/**
+ * Connects to every configured MCP server once, maps its tools into module
+ * capabilities and registers them under the server's slug. A server that
+ * cannot be reached is logged and skipped so it never blocks startup.
+ *
+ * Tenants share the server's backing store, so servers that do not declare
+ * tenant scope are refused rather than letting one tenant's calls read or
+ * write another's data.
+ */
+export async function loadMcpModules(
+  servers: McpServerDefinition[] = config.mcpModules.servers
+): Promise<string[]> {
+  const loaded: string[] = [];
+
+  for (const server of servers) {
+    let client: Client | null = null;
+
+    try {
+      client = await connectMcpServer(server, null);
+      if (!client.getServerCapabilities()?.experimental?.[MCP_TENANT_SCOPE_CAPABILITY]) {
+        throw new McpTenantScopeError(server.slug);
+      }
+
+      const serverVersion = client.getServerVersion()?.version;
+      const tools = await listAllTools(client);
+
+      const capabilities: Record<string, CapabilityHandler> = {};
+      for (const tool of tools) {
+        const handler = createToolHandler(server, tool, serverVersion);
+        capabilities[handler.definition.name] = handler;
+      }
+
+      registerModuleCapabilities(server.slug, capabilities);
+      loaded.push(server.slug);
+
+      mcpLogger.info('Registered MCP module', {
+        moduleSlug: server.slug,
+        serverVersion,
+        capabilities: Object.keys(capabilities),
+      });
+    } catch (error) {
+      mcpLogger.error('Failed to load MCP module', {
+        moduleSlug: server.slug,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      await client?.close().catch(() => undefined);
+    }
+  }
+
+  return loaded;
+}
@@ -1,9 +1,18 @@
 import type { PrismaClient } from '@ocsuite/db';
-import type { TaskExecutionResult } from '@ocsuite/module-sdk';
+import type { ModuleCapability, TaskExecutionResult } from '@ocsuite/module-sdk';
 import type { Logger } from 'pino';
 import { validateTaskResult, formatValidationErrors } from '@ocsuite/module-sdk/validation';
+import { getMajorVersion } from '@ocsuite/module-sdk/versioning';
 import { GrowthPulseOutputSchema } from '@ocsuite/module-sdk';
 import { growthPulseCapabilityDefinition, growthPulseExecution } from './growth-pulse/index.js';
+import {
+  RemoteDispatchError,
+  dispatchToModuleWorker,
+  findRemoteCapability,
+  listRemoteCapabilities,
+  type RemoteCapabilityMatch,
+} from '../services/module-workers.js';
+import { apiLogger } from '../utils/logger.js';
 
 export interface ModuleExecutionLogger extends Logger {}
 
@@ -13,7 +22,8 @@ export interface ModuleExecutionContext {
   tenantId: string;
   actorId: string;
   taskId: string;
-  approvalId: string;
+  /** Absent when a read-only capability runs directly (e.g. a chat tool call). */
+  approvalId?: string;
   payload: Record<string, unknown>;
   db: PrismaClient;
   logger: ModuleExecutionLogger;
@@ -26,10 +36,23 @@ export class ModuleExecutionError extends Error {
   }
 }
 
-interface CapabilityHandler {
+export interface CapabilityHandler {
+  definition: ModuleCapability;
+  /**
+   * Mutating capabilities change tenant or external state and must go through
+   * action approval; read-only ones may be executed directly.
+   */
+  mutating: boolean;
   execute: (context: ModuleExecutionContext) => Promise<TaskExecutionResult>;
 }
 
+export interface RegisteredCapability {
+  moduleSlug: string;
+  capability: string;
+  definition: ModuleCapability;
+  mutating: boolean;
+}
+
 interface ModuleRegistryEntry {
   capabilities: Record<string, CapabilityHandler>;
 }
@@ -38,6 +61,9 @@ const moduleRegistry: Record<string, ModuleRegistryEntry> = {
   'growth-pulse': {
     capabilities: {
       [growthPulseCapabilityDefinition.name]: {
+        definition: growthPulseCapabilityDefinition,
+        // Reads analytics snapshots and returns insights; persists nothing
+        mutating: false,
         execute: async (context) => {
           const { payload, tenantId, actorId, db, logger, taskId } = context;
           const startedAt = new Date();
@@ -78,27 +104,165 @@ const moduleRegistry: Record<string, ModuleRegistryEntry> = {
   },
 };
 
-function getCapabilityHandler(moduleSlug: string, capability: string): CapabilityHandler {
-  const moduleEntry = moduleRegistry[moduleSlug];
-
-  if (!moduleEntry) {
-    throw new ModuleExecutionError(`Unknown module slug: ${moduleSlug}`);
+/**
+ * Adds a module discovered at startup, such as an MCP server. Built-in
+ * modules cannot be replaced.
+ */
+export function registerModuleCapabilities(
+  moduleSlug: string,
+  capabilities: Record<string, CapabilityHandler>
+): void {
+  if (moduleRegistry[moduleSlug]) {
+    throw new ModuleExecutionError(`Module slug ${moduleSlug} is already registered`);
   }
 
-  const handler = moduleEntry.capabilities[capability];
+  moduleRegistry[moduleSlug] = { capabilities };
+}
+
+function missingCapabilityError(moduleSlug: string, capability: string): ModuleExecutionError {
+  return moduleRegistry[moduleSlug]
+    ? new ModuleExecutionError(`Module ${moduleSlug} does not expose capability ${capability}`)
+    : new ModuleExecutionError(`Unknown module slug: ${moduleSlug}`);
+}
+
+function getCapabilityHandler(moduleSlug: string, capability: string): CapabilityHandler {
+  const handler = moduleRegistry[moduleSlug]?.capabilities[capability];
 
   if (!handler) {
-    throw new ModuleExecutionError(`Module ${moduleSlug} does not expose capability ${capability}`);
+    throw missingCapabilityError(moduleSlug, capability);
   }
 
   return handler;
 }
 
+/**
+ * Remote workers must be at least as new as the in-process implementation;
+ * without one, any version of the capability's major will do.
+ */
+function requiredRemoteVersion(capability: string, handler: CapabilityHandler | undefined): string | null {
+  const major = getMajorVersion(capability);
+  return handler?.definition.version ?? (major !== null ? `${major}.0.0` : null);
+}
+
+// Workers do not declare whether a capability has side effects, so
+// remote-only capabilities are treated as mutating and go through approval.
+function fromRemoteMatch(match: RemoteCapabilityMatch): RegisteredCapability {
+  return {
+    moduleSlug: match.worker.moduleSlug,
+    capability: match.definition.name,
+    definition: match.definition,
+    mutating: true,
+  };
+}
+
+/**
+ * In-process capabilities plus those only offered by live module workers.
+ * If the worker lookup fails, only in-process capabilities are returned.
+ */
+export async function listModuleCapabilities(): Promise<RegisteredCapability[]> {
+  const local = Object.entries(moduleRegistry).flatMap(([moduleSlug, entry]) =>
+    Object.entries(entry.capabilities).map(([capability, handler]) => ({
+      moduleSlug,
+      capability,
+      definition: handler.definition,
+      mutating: handler.mutating,
+    }))
+  );
+
+  let remote: RemoteCapabilityMatch[] = [];
+  try {
+    remote = await listRemoteCapabilities();
+  } catch (error) {
+    apiLogger.warn('Module worker lookup failed; listing in-process capabilities only', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  const remoteOnly = remote.filter(
+    ({ worker, definition }) => !moduleRegistry[worker.moduleSlug]?.capabilities[definition.name]
+  );
+
+  return [...local, ...remoteOnly.map(fromRemoteMatch)];
+}
+
+/**
+ * Resolves an in-process capability, or one a live module worker offers.
+ * Throws ModuleExecutionError when neither exists.
+ */
+export async function getModuleCapability(moduleSlug: string, capability: string): Promise<RegisteredCapability> {
+  const handler = moduleRegistry[moduleSlug]?.capabilities[capability];
+  if (handler) {
+    return { moduleSlug, capability, definition: handler.definition, mutating: handler.mutating };
+  }
+
+  const requiredVersion = requiredRemoteVersion(capability, undefined);
+  const remote = requiredVersion
+    ? await findRemoteCapability({ moduleSlug, capability, requiredVersion })
+    : null;
+  if (!remote) {
+    throw missingCapabilityError(moduleSlug, capability);
+  }
+
+  return fromRemoteMatch(remote);
+}
+
+async function findRemoteWorker(
+  context: ModuleExecutionContext,
+  handler: CapabilityHandler | undefined
+): Promise<RemoteCapabilityMatch | null> {
+  const requiredVersion = requiredRemoteVersion(context.capability, handler);
+  if (!requiredVersion) {
+    return null;
+  }
+
+  try {
+    return await findRemoteCapability({
+      moduleSlug: context.moduleSlug,
+      capability: context.capability,
+      requiredVersion,
+    });
+  } catch (error) {
+    context.logger.warn('Module worker lookup failed; using in-process handler', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Runs a capability on a healthy remote worker when one advertises a
+ * compatible version, otherwise in process. A failed dispatch falls back to
+ * the in-process handler unless a mutating request may already have reached
+ * the worker.
+ */
 export async function executeModuleCapability(
   context: ModuleExecutionContext
 ): Promise<TaskExecutionResult> {
-  const handler = getCapabilityHandler(context.moduleSlug, context.capability);
-  const result = await handler.execute(context);
+  const handler = moduleRegistry[context.moduleSlug]?.capabilities[context.capability];
+  const remote = await findRemoteWorker(context, handler);
+  let result: TaskExecutionResult | null = null;
+
+  if (remote) {
+    try {
+      result = await dispatchToModuleWorker(remote, context);
+    } catch (error) {
+      if (!(error instanceof RemoteDispatchError)) {
+        throw error;
+      }
+      if (!handler || (handler.mutating && error.delivered)) {
+        throw new ModuleExecutionError(error.message);
+      }
+
+      context.logger.warn('Module worker dispatch failed; falling back to in-process handler', {
+        workerId: remote.worker.id,
+        error: error.message,
+      });
+    }
+  }
+
+  if (!result) {
+    result = await getCapabilityHandler(context.moduleSlug, context.capability).execute(context);
+  }
 
   const validation = validateTaskResult(result);
   if (!validation.success) {
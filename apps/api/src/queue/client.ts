@@ -6,12 +6,14 @@ import {
   boardMeetingQueue,
   actionExecutorQueue,
   knowledgeRetentionQueue,
+  keyRotationQueue,
   SyncConnectorJobData,
   ExecuteTaskJobData,
   SyncAnalyticsJobData,
   BoardMeetingJobData,
   ActionExecutorJobData,
   KnowledgeRetentionJobData,
+  KeyRotationJobData,
   QUEUE_NAMES,
 } from './index.js';
 import { queueLogger } from '../utils/logger.js';
@@ -294,6 +296,8 @@ export const getJobStatus = async (
       job = await boardMeetingQueue.getJob(jobId);
     } else if (queueName === QUEUE_NAMES.KNOWLEDGE_RETENTION) {
       job = await knowledgeRetentionQueue.getJob(jobId);
+    } else if (queueName === QUEUE_NAMES.KEY_ROTATION) {
+      job = await keyRotationQueue.getJob(jobId);
     }
 
     if (!job) {
@@ -580,6 +584,51 @@ export const enqueueBoardMeeting = async (
   }
 };
 
+/**
+ * Enqueue a master-key rotation or verification run
+ *
+ * One rotation runs at a time; the worker processes the queue serially.
+ */
+export const enqueueKeyRotation = async (
+  jobData: KeyRotationJobData,
+  options: EnqueueOptions = {}
+): Promise<EnqueueResult> => {
+  try {
+    const { priority, delay, removeOnComplete, removeOnFail, jobId } = options;
+
+    const jobOptions: JobsOptions = {
+      priority,
+      delay,
+      removeOnComplete,
+      removeOnFail,
+      jobId: jobId || `key-rotation-${jobData.mode}-v${jobData.targetVersion}-${Date.now()}`,
+    };
+
+    const job = await keyRotationQueue.add(`key-rotation-${jobData.mode}`, jobData, jobOptions);
+
+    queueLogger.info('Enqueued key rotation job', {
+      jobId: job.id,
+      mode: jobData.mode,
+      targetVersion: jobData.targetVersion,
+      tenantId: jobData.tenantId ?? 'all-tenants',
+      resumed: !!jobData.resumeFrom,
+    });
+
+    return {
+      jobId: job.id!,
+      queueName: QUEUE_NAMES.KEY_ROTATION,
+      enqueuedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    queueLogger.error('Failed to enqueue key rotation job', {
+      mode: jobData.mode,
+      targetVersion: jobData.targetVersion,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+};
+
 /**
  * Check if a job exists (for deduplication)
  *
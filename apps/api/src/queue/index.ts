@@ -3,6 +3,7 @@ import IORedis from 'ioredis';
 import { config } from '../config/index.js';
 import { queueLogger } from '../utils/logger.js';
 import { registerQueueMetrics } from '../observability/queue-metrics.js';
+import type { KeyRotationProgress, KeyRotationTarget } from '../services/key-rotation.js';
 
 /**
  * Queue Names
@@ -16,6 +17,11 @@ export const QUEUE_NAMES = {
   BOARD_MEETING: 'board-meeting',
   ACTION_EXECUTOR: 'action-executor',
   KNOWLEDGE_RETENTION: 'knowledge-retention',
+  CONNECTOR_REFRESH: 'connector-refresh',
+  KEY_ROTATION: 'key-rotation',
+  NOTIFICATION_DELIVERY: 'notification-delivery',
+  APPROVAL_EXPIRY: 'approval-expiry',
+  ACTION_SCHEDULER: 'action-scheduler',
   SYNC_CONNECTOR_DLQ: 'sync-connector-dlq',
   EXECUTE_TASK_DLQ: 'execute-task-dlq',
   SYNC_ANALYTICS_DLQ: 'sync-analytics-dlq',
@@ -24,6 +30,11 @@ export const QUEUE_NAMES = {
   BOARD_MEETING_DLQ: 'board-meeting-dlq',
   ACTION_EXECUTOR_DLQ: 'action-executor-dlq',
   KNOWLEDGE_RETENTION_DLQ: 'knowledge-retention-dlq',
+  CONNECTOR_REFRESH_DLQ: 'connector-refresh-dlq',
+  KEY_ROTATION_DLQ: 'key-rotation-dlq',
+  NOTIFICATION_DELIVERY_DLQ: 'notification-delivery-dlq',
+  APPROVAL_EXPIRY_DLQ: 'approval-expiry-dlq',
+  ACTION_SCHEDULER_DLQ: 'action-scheduler-dlq',
 } as const;
 
 export type QueueName = (typeof QUEUE_NAMES)[keyof typeof QUEUE_NAMES];
@@ -68,6 +79,8 @@ export interface BoardMeetingJobData {
     dependsOn?: string | null;
   }[];
   agendaVersion: number;
+  /** Total rounds including the opening statements; rounds after the first are rebuttals */
+  debateRounds?: number;
   triggeredBy?: string;
 }
 
@@ -108,6 +121,38 @@ export interface TriggerRunnerJobData {
   triggeredBy?: string;
 }
 
+export interface ConnectorRefreshJobData {
+  tenantId?: string;
+  triggeredBy?: string;
+}
+
+export interface NotificationDeliveryJobData {
+  tenantId?: string;
+  triggeredBy?: string;
+}
+
+export interface ApprovalExpiryJobData {
+  tenantId?: string;
+  triggeredBy?: string;
+}
+
+export interface ActionSchedulerJobData {
+  tenantId?: string;
+  triggeredBy?: string;
+}
+
+export interface KeyRotationJobData {
+  mode: 'rotate' | 'verify';
+  targetVersion: number;
+  targets: KeyRotationTarget[];
+  batchSize: number;
+  dryRun?: boolean;
+  tenantId?: string;
+  requestedBy?: string;
+  /** Checkpoint of an earlier run to continue from. */
+  resumeFrom?: KeyRotationProgress;
+}
+
 export interface DLQJobData {
   originalQueue: string;
   originalJobId: string;
@@ -309,6 +354,101 @@ export const triggerRunnerDLQ = new Queue<DLQJobData>(
   }
 );
 
+export const connectorRefreshQueue = new Queue<ConnectorRefreshJobData>(
+  QUEUE_NAMES.CONNECTOR_REFRESH,
+  {
+    ...defaultQueueOptions,
+    connection: getRedisConnection(),
+  }
+);
+
+export const connectorRefreshDLQ = new Queue<DLQJobData>(
+  QUEUE_NAMES.CONNECTOR_REFRESH_DLQ,
+  {
+    connection: getRedisConnection(),
+    defaultJobOptions: {
+      removeOnComplete: false,
+      removeOnFail: false,
+    },
+  }
+);
+
+export const notificationDeliveryQueue = new Queue<NotificationDeliveryJobData>(
+  QUEUE_NAMES.NOTIFICATION_DELIVERY,
+  {
+    ...defaultQueueOptions,
+    connection: getRedisConnection(),
+  }
+);
+
+export const notificationDeliveryDLQ = new Queue<DLQJobData>(
+  QUEUE_NAMES.NOTIFICATION_DELIVERY_DLQ,
+  {
+    connection: getRedisConnection(),
+    defaultJobOptions: {
+      removeOnComplete: false,
+      removeOnFail: false,
+    },
+  }
+);
+
+export const approvalExpiryQueue = new Queue<ApprovalExpiryJobData>(
+  QUEUE_NAMES.APPROVAL_EXPIRY,
+  {
+    ...defaultQueueOptions,
+    connection: getRedisConnection(),
+  }
+);
+
+export const approvalExpiryDLQ = new Queue<DLQJobData>(
+  QUEUE_NAMES.APPROVAL_EXPIRY_DLQ,
+  {
+    connection: getRedisConnection(),
+    defaultJobOptions: {
+      removeOnComplete: false,
+      removeOnFail: false,
+    },
+  }
+);
+
+export const actionSchedulerQueue = new Queue<ActionSchedulerJobData>(
+  QUEUE_NAMES.ACTION_SCHEDULER,
+  {
+    ...defaultQueueOptions,
+    connection: getRedisConnection(),
+  }
+);
+
+export const actionSchedulerDLQ = new Queue<DLQJobData>(
+  QUEUE_NAMES.ACTION_SCHEDULER_DLQ,
+  {
+    connection: getRedisConnection(),
+    defaultJobOptions: {
+      removeOnComplete: false,
+      removeOnFail: false,
+    },
+  }
+);
+
+export const keyRotationQueue = new Queue<KeyRotationJobData>(
+  QUEUE_NAMES.KEY_ROTATION,
+  {
+    ...defaultQueueOptions,
+    connection: getRedisConnection(),
+  }
+);
+
+export const keyRotationDLQ = new Queue<DLQJobData>(
+  QUEUE_NAMES.KEY_ROTATION_DLQ,
+  {
+    connection: getRedisConnection(),
+    defaultJobOptions: {
+      removeOnComplete: false,
+      removeOnFail: false,
+    },
+  }
+);
+
 export const boardMeetingQueue = new Queue<BoardMeetingJobData>(
   QUEUE_NAMES.BOARD_MEETING,
   {
@@ -348,6 +488,16 @@ export const queues = {
   [QUEUE_NAMES.BOARD_MEETING]: boardMeetingQueue,
   [QUEUE_NAMES.BOARD_MEETING_DLQ]: boardMeetingDLQ,
   [QUEUE_NAMES.KNOWLEDGE_RETENTION_DLQ]: knowledgeRetentionDLQ,
+  [QUEUE_NAMES.CONNECTOR_REFRESH]: connectorRefreshQueue,
+  [QUEUE_NAMES.CONNECTOR_REFRESH_DLQ]: connectorRefreshDLQ,
+  [QUEUE_NAMES.KEY_ROTATION]: keyRotationQueue,
+  [QUEUE_NAMES.KEY_ROTATION_DLQ]: keyRotationDLQ,
+  [QUEUE_NAMES.NOTIFICATION_DELIVERY]: notificationDeliveryQueue,
+  [QUEUE_NAMES.NOTIFICATION_DELIVERY_DLQ]: notificationDeliveryDLQ,
+  [QUEUE_NAMES.APPROVAL_EXPIRY]: approvalExpiryQueue,
+  [QUEUE_NAMES.APPROVAL_EXPIRY_DLQ]: approvalExpiryDLQ,
+  [QUEUE_NAMES.ACTION_SCHEDULER]: actionSchedulerQueue,
+  [QUEUE_NAMES.ACTION_SCHEDULER_DLQ]: actionSchedulerDLQ,
 };
 
 /**
@@ -378,6 +528,16 @@ export const initializeQueues = async (): Promise<void> => {
       triggerRunnerDLQ.waitUntilReady(),
       knowledgeRetentionDLQ.waitUntilReady(),
       boardMeetingDLQ.waitUntilReady(),
+      connectorRefreshQueue.waitUntilReady(),
+      connectorRefreshDLQ.waitUntilReady(),
+      keyRotationQueue.waitUntilReady(),
+      keyRotationDLQ.waitUntilReady(),
+      notificationDeliveryQueue.waitUntilReady(),
+      notificationDeliveryDLQ.waitUntilReady(),
+      approvalExpiryQueue.waitUntilReady(),
+      approvalExpiryDLQ.waitUntilReady(),
+      actionSchedulerQueue.waitUntilReady(),
+      actionSchedulerDLQ.waitUntilReady(),
     ]);
 
     queueLogger.info('All queues initialized successfully', {
@@ -417,6 +577,16 @@ export const closeQueues = async (): Promise<void> => {
       triggerRunnerDLQ.close(),
       knowledgeRetentionDLQ.close(),
       boardMeetingDLQ.close(),
+      connectorRefreshQueue.close(),
+      connectorRefreshDLQ.close(),
+      keyRotationQueue.close(),
+      keyRotationDLQ.close(),
+      notificationDeliveryQueue.close(),
+      notificationDeliveryDLQ.close(),
+      approvalExpiryQueue.close(),
+      approvalExpiryDLQ.close(),
+      actionSchedulerQueue.close(),
+      actionSchedulerDLQ.close(),
     ]);
 
     if (redisConnection) {
@@ -524,3 +694,43 @@ boardMeetingQueue.on('error', (error) => {
 boardMeetingDLQ.on('error', (error) => {
   queueLogger.error('Board meeting DLQ error', { error: error.message });
 });
+
+connectorRefreshQueue.on('error', (error) => {
+  queueLogger.error('Connector refresh queue error', { error: error.message });
+});
+
+connectorRefreshDLQ.on('error', (error) => {
+  queueLogger.error('Connector refresh DLQ error', { error: error.message });
+});
+
+keyRotationQueue.on('error', (error) => {
+  queueLogger.error('Key rotation queue error', { error: error.message });
+});
+
+keyRotationDLQ.on('error', (error) => {
+  queueLogger.error('Key rotation DLQ error', { error: error.message });
+});
+
+notificationDeliveryQueue.on('error', (error) => {
+  queueLogger.error('Notification delivery queue error', { error: error.message });
+});
+
+notificationDeliveryDLQ.on('error', (error) => {
+  queueLogger.error('Notification delivery DLQ error', { error: error.message });
+});
+
+approvalExpiryQueue.on('error', (error) => {
+  queueLogger.error('Approval expiry queue error', { error: error.message });
+});
+
+approvalExpiryDLQ.on('error', (error) => {
+  queueLogger.error('Approval expiry DLQ error', { error: error.message });
+});
+
+actionSchedulerQueue.on('error', (error) => {
+  queueLogger.error('Action scheduler queue error', { error: error.message });
+});
+
+actionSchedulerDLQ.on('error', (error) => {
+  queueLogger.error('Action scheduler DLQ error', { error: error.message });
+});
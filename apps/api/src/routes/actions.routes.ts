@@ -3,23 +3,29 @@ import type { Router } from 'express';
 import { z } from 'zod';
 import {
   createTenantClient,
-  getTenantDb,
   ActionApproval,
   Task,
-  TenantMemberRole,
 } from '@ocsuite/db';
 import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole, TENANT_ADMIN_ROLES } from '../middleware/roles.js';
 import {
   submitActionApproval,
   listActionApprovals,
   approveAction,
   rejectAction,
+  listScheduledActions,
+  cancelScheduledAction,
+  rescheduleAction,
   normalizeAuditLog,
   ActionApprovalNotFoundError,
   ActionApprovalStateError,
+  ActionApprovalForbiddenError,
+  ActionScheduleError,
   payloadToRecord,
 } from '../services/action-approvals.js';
+import { parseApprovalPolicySnapshot } from '../services/approval-policies.js';
+import { requestActionRollback, ActionRollbackUnavailableError } from '../services/action-rollbacks.js';
 import { apiLogger } from '../utils/logger.js';
 
 const router: Router = createRouter();
@@ -31,7 +37,16 @@ const submitSchema = z.object({
   comment: z.string().max(500).optional(),
 });
 
-const ACTION_STATUS_VALUES = ['pending', 'approved', 'rejected', 'executing', 'executed', 'failed'] as const;
+const ACTION_STATUS_VALUES = [
+  'pending',
+  'approved',
+  'rejected',
+  'executing',
+  'executed',
+  'failed',
+  'scheduled',
+  'canceled',
+] as const;
 
 const listQuerySchema = z.object({
   status: z.enum(ACTION_STATUS_VALUES).optional(),
@@ -46,6 +61,28 @@ const commentSchema = z.object({
   comment: z.string().max(500).optional(),
 });
 
+// `runAt` is an ISO timestamp with offset, or a local time read in `timezone`
+const scheduleSchema = z
+  .object({
+    runAt: z.string().trim().min(1).max(40).optional(),
+    timezone: z.string().trim().min(1).max(100).optional(),
+    afterApprovalId: z.string().min(1).optional(),
+  })
+  .refine((value) => value.runAt || value.afterApprovalId, {
+    message: 'Provide runAt, afterApprovalId or both',
+  });
+
+const approveSchema = commentSchema.extend({
+  schedule: scheduleSchema.optional(),
+});
+
+const scheduledQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(250).optional(),
+});
+
+// Canceling or moving a deferred action changes what runs against connected systems
+const requireScheduleAdmin = requireRole(TENANT_ADMIN_ROLES, 'Managing scheduled actions');
+
 router.post(
   '/submit',
   requireAuth(),
@@ -101,6 +138,7 @@ router.get(
   '/:id/audit',
   requireAuth(),
   resolveTenant(),
+  requireRole(TENANT_ADMIN_ROLES, 'Audit log access'),
   async (req, res) => {
     const { id } = req.params as { id?: string };
 
@@ -112,36 +150,9 @@ router.get(
     }
 
     const tenantId = req.tenantId!;
-    const clerkId = req.clerkId!;
-
-    const systemDb = getTenantDb();
-
-    let tenantUserId: string | undefined;
 
     try {
-      const membership = await systemDb.tenantMember.findFirst({
-        where: {
-          tenantId,
-          user: {
-            clerkId,
-          },
-        },
-        select: {
-          role: true,
-          userId: true,
-        },
-      });
-
-      if (!membership || (membership.role !== TenantMemberRole.owner && membership.role !== TenantMemberRole.admin)) {
-        return res.status(403).json({
-          error: 'forbidden',
-          message: 'Audit log access requires owner or admin role',
-        });
-      }
-
-      tenantUserId = membership.userId;
-
-      const db = createTenantClient({ tenantId, userId: tenantUserId });
+      const db = createTenantClient({ tenantId, userId: req.tenantUserId! });
 
       try {
         const approval = await db.actionApproval.findUnique({
@@ -169,6 +180,13 @@ router.get(
           approvedAt: approval.approvedAt,
           executedAt: approval.executedAt,
           auditLog: normalizeAuditLog(approval.auditLog),
+          policy: serializePolicySnapshot(approval),
+          currentStep: approval.currentStep,
+          expiresAt: approval.expiresAt,
+          scheduledFor: approval.scheduledFor,
+          scheduleTimezone: approval.scheduleTimezone,
+          runAfterApprovalId: approval.runAfterApprovalId,
+          rollbackOfId: approval.rollbackOfId,
           createdAt: approval.createdAt,
           updatedAt: approval.updatedAt,
         });
@@ -247,7 +265,7 @@ router.post(
   requireAuth(),
   resolveTenant(),
   async (req, res) => {
-    const parse = commentSchema.safeParse(req.body ?? {});
+    const parse = approveSchema.safeParse(req.body ?? {});
 
     if (!parse.success) {
       return res.status(400).json({
@@ -271,19 +289,31 @@ router.post(
     const db = createTenantClient({ tenantId, userId });
 
     try {
+      // Who may sign off depends on the approval's policy step and any
+      // delegations, so eligibility is checked by the service
       const result = await approveAction(db, {
         tenantId,
         userId,
+        tenantUserId: req.tenantUserId!,
+        tenantRole: req.tenantRole!,
         approvalId: id,
         comment: parse.data.comment,
+        schedule: parse.data.schedule,
       });
 
       return res.status(200).json({
         approval: serializeApproval(result.approval),
-        task: serializeTask(result.task),
+        task: result.task ? serializeTask(result.task) : null,
         job: result.job,
       });
     } catch (error) {
+      if (error instanceof ActionScheduleError) {
+        return res.status(400).json({
+          error: 'validation_error',
+          message: error.message,
+        });
+      }
+
       if (error instanceof ActionApprovalNotFoundError) {
         return res.status(404).json({
           error: 'not_found',
@@ -298,6 +328,13 @@ router.post(
         });
       }
 
+      if (error instanceof ActionApprovalForbiddenError) {
+        return res.status(403).json({
+          error: 'forbidden',
+          message: error.message,
+        });
+      }
+
       apiLogger.error('Failed to approve action', {
         tenantId,
         userId,
@@ -347,6 +384,8 @@ router.post(
       const approval = await rejectAction(db, {
         tenantId,
         userId,
+        tenantUserId: req.tenantUserId!,
+        tenantRole: req.tenantRole!,
         approvalId: id,
         comment: parse.data.comment,
       });
@@ -369,6 +408,13 @@ router.post(
         });
       }
 
+      if (error instanceof ActionApprovalForbiddenError) {
+        return res.status(403).json({
+          error: 'forbidden',
+          message: error.message,
+        });
+      }
+
       apiLogger.error('Failed to reject action', {
         tenantId,
         userId,
@@ -386,6 +432,282 @@ router.post(
   }
 );
 
+/**
+ * GET /actions/scheduled
+ *
+ * Approved actions waiting for their execution window, soonest first.
+ */
+router.get(
+  '/scheduled',
+  requireAuth(),
+  resolveTenant(),
+  async (req, res) => {
+    const parse = scheduledQuerySchema.safeParse(req.query ?? {});
+
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid query parameters',
+        details: parse.error.format(),
+      });
+    }
+
+    const tenantId = req.tenantId!;
+    const userId = req.clerkId!;
+
+    const db = createTenantClient({ tenantId, userId });
+
+    try {
+      const approvals = await listScheduledActions(db, parse.data.limit);
+
+      return res.status(200).json({
+        approvals: approvals.map(serializeApproval),
+      });
+    } catch (error) {
+      apiLogger.error('Failed to list scheduled actions', {
+        tenantId,
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to list scheduled actions',
+      });
+    } finally {
+      await db.$disconnect();
+    }
+  }
+);
+
+/**
+ * POST /actions/:id/cancel
+ *
+ * Stops a scheduled action from running. Actions scheduled to run after it
+ * are canceled by the scheduler on its next pass.
+ */
+router.post(
+  '/:id/cancel',
+  requireAuth(),
+  resolveTenant(),
+  requireScheduleAdmin,
+  async (req, res) => {
+    const parse = commentSchema.safeParse(req.body ?? {});
+
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid request body',
+        details: parse.error.format(),
+      });
+    }
+
+    const tenantId = req.tenantId!;
+    const userId = req.clerkId!;
+    const { id } = req.params as { id: string };
+
+    const db = createTenantClient({ tenantId, userId });
+
+    try {
+      const approval = await cancelScheduledAction(db, {
+        tenantId,
+        userId,
+        approvalId: id,
+        comment: parse.data.comment,
+      });
+
+      return res.status(200).json({
+        approval: serializeApproval(approval),
+      });
+    } catch (error) {
+      if (error instanceof ActionApprovalNotFoundError) {
+        return res.status(404).json({
+          error: 'not_found',
+          message: 'Approval not found',
+        });
+      }
+
+      if (error instanceof ActionApprovalStateError) {
+        return res.status(409).json({
+          error: 'invalid_state',
+          message: error.message,
+        });
+      }
+
+      apiLogger.error('Failed to cancel scheduled action', {
+        tenantId,
+        userId,
+        approvalId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to cancel scheduled action',
+      });
+    } finally {
+      await db.$disconnect();
+    }
+  }
+);
+
+/**
+ * POST /actions/:id/reschedule
+ *
+ * Replaces the execution window of a scheduled action.
+ */
+router.post(
+  '/:id/reschedule',
+  requireAuth(),
+  resolveTenant(),
+  requireScheduleAdmin,
+  async (req, res) => {
+    const parse = scheduleSchema.safeParse(req.body ?? {});
+
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid request body',
+        details: parse.error.format(),
+      });
+    }
+
+    const tenantId = req.tenantId!;
+    const userId = req.clerkId!;
+    const { id } = req.params as { id: string };
+
+    const db = createTenantClient({ tenantId, userId });
+
+    try {
+      const approval = await rescheduleAction(db, {
+        tenantId,
+        userId,
+        approvalId: id,
+        schedule: parse.data,
+      });
+
+      return res.status(200).json({
+        approval: serializeApproval(approval),
+      });
+    } catch (error) {
+      if (error instanceof ActionScheduleError) {
+        return res.status(400).json({
+          error: 'validation_error',
+          message: error.message,
+        });
+      }
+
+      if (error instanceof ActionApprovalNotFoundError) {
+        return res.status(404).json({
+          error: 'not_found',
+          message: 'Approval not found',
+        });
+      }
+
+      if (error instanceof ActionApprovalStateError) {
+        return res.status(409).json({
+          error: 'invalid_state',
+          message: error.message,
+        });
+      }
+
+      apiLogger.error('Failed to reschedule action', {
+        tenantId,
+        userId,
+        approvalId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to reschedule action',
+      });
+    } finally {
+      await db.$disconnect();
+    }
+  }
+);
+
+/**
+ * POST /actions/:id/rollback
+ *
+ * Submits the compensating capability declared by the action's module for
+ * approval. The original run's outputs and payload hash ride along in the
+ * new approval's `payload.rollbackOf`.
+ */
+router.post(
+  '/:id/rollback',
+  requireAuth(),
+  resolveTenant(),
+  async (req, res) => {
+    const parse = commentSchema.safeParse(req.body ?? {});
+
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid request body',
+        details: parse.error.format(),
+      });
+    }
+
+    const tenantId = req.tenantId!;
+    const userId = req.clerkId!;
+    const { id } = req.params as { id: string };
+
+    const db = createTenantClient({ tenantId, userId });
+
+    try {
+      const result = await requestActionRollback(db, {
+        tenantId,
+        userId,
+        approvalId: id,
+        comment: parse.data.comment,
+      });
+
+      return res.status(201).json({
+        approval: serializeApproval(result.approval),
+        risk: result.risk,
+        rollbackOf: result.rollbackOf,
+      });
+    } catch (error) {
+      if (error instanceof ActionApprovalNotFoundError) {
+        return res.status(404).json({
+          error: 'not_found',
+          message: 'Approval not found',
+        });
+      }
+
+      if (error instanceof ActionApprovalStateError) {
+        return res.status(409).json({
+          error: 'invalid_state',
+          message: error.message,
+        });
+      }
+
+      if (error instanceof ActionRollbackUnavailableError) {
+        return res.status(400).json({
+          error: 'rollback_unavailable',
+          message: error.message,
+        });
+      }
+
+      apiLogger.error('Failed to request action rollback', {
+        tenantId,
+        userId,
+        approvalId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to request action rollback',
+      });
+    } finally {
+      await db.$disconnect();
+    }
+  }
+);
+
 function serializeApproval(approval: ActionApproval) {
   return {
     id: approval.id,
@@ -401,11 +723,24 @@ function serializeApproval(approval: ActionApproval) {
     approvedAt: approval.approvedAt,
     executedAt: approval.executedAt,
     auditLog: normalizeAuditLog(approval.auditLog),
+    policyId: approval.policyId,
+    policy: serializePolicySnapshot(approval),
+    currentStep: approval.currentStep,
+    expiresAt: approval.expiresAt,
+    scheduledFor: approval.scheduledFor,
+    scheduleTimezone: approval.scheduleTimezone,
+    runAfterApprovalId: approval.runAfterApprovalId,
+    rollbackOfId: approval.rollbackOfId,
     createdAt: approval.createdAt,
     updatedAt: approval.updatedAt,
   };
 }
 
+function serializePolicySnapshot(approval: ActionApproval) {
+  const snapshot = parseApprovalPolicySnapshot(approval.policySnapshot);
+  return snapshot ? { name: snapshot.name, steps: snapshot.steps } : null;
+}
+
 function serializeTask(task: Task) {
   return {
     id: task.id,
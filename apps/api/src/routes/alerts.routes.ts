@@ -1,17 +1,136 @@
 import { Router as createRouter } from 'express';
 import type { Router } from 'express';
 import { z } from 'zod';
+import CronExpressionParser from 'cron-parser';
 import { createTenantClient } from '@ocsuite/db';
-import type { Prisma } from '@ocsuite/db';
+import type { Prisma, TriggerRule } from '@ocsuite/db';
 import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole, TENANT_ADMIN_ROLES } from '../middleware/roles.js';
 import { apiLogger } from '../utils/logger.js';
 import { trackTenantEvent } from '../utils/telemetry.js';
+import { parseJsonRecord, toInputJson } from '../utils/json.js';
+import {
+  DEFAULT_PREVIEW_DAYS,
+  MAX_CONDITION_WINDOW_DAYS,
+  conditionForRule,
+  conditionRuleSchema,
+  previewCondition,
+  type TriggerCondition,
+} from '../services/trigger-conditions.js';
+import {
+  parseRuleAction,
+  triggerActionTemplateSchema,
+  type TriggerActionTemplate,
+} from '../services/trigger-actions.js';
+import { publishTenantEvent } from '../services/tenant-events.js';
+import { getModuleCapability } from '../modules/registry.js';
 
 const router: Router = createRouter();
 
 const STATUS_VALUES = ['pending', 'acknowledged', 'resolved', 'snoozed'] as const;
 const SEVERITY_VALUES = ['info', 'warning', 'critical'] as const;
+const RULE_TYPE_VALUES = ['schedule', 'metric_threshold', 'anomaly', 'condition'] as const;
+
+const ruleFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  severity: z.enum(SEVERITY_VALUES),
+  enabled: z.boolean(),
+  schedule: z.string().trim().max(120).nullable(),
+  metric: z.string().trim().max(120).nullable(),
+  threshold: z.number().finite().nullable(),
+  windowDays: z.number().int().min(1).max(MAX_CONDITION_WINDOW_DAYS).nullable(),
+  condition: conditionRuleSchema.nullable(),
+  // Proposed for approval whenever the rule raises an alert; null removes it
+  action: triggerActionTemplateSchema.nullable(),
+});
+
+// New rules start disabled so they can be previewed before they fire
+const createRuleSchema = ruleFieldsSchema.partial().extend({
+  name: ruleFieldsSchema.shape.name,
+  type: z.enum(RULE_TYPE_VALUES),
+  severity: ruleFieldsSchema.shape.severity.default('warning'),
+  enabled: z.boolean().default(false),
+});
+
+const updateRuleSchema = ruleFieldsSchema.partial();
+
+const previewBodySchema = z.object({
+  days: z.number().int().min(1).max(MAX_CONDITION_WINDOW_DAYS).default(DEFAULT_PREVIEW_DAYS),
+  // Unsaved edits can be previewed without touching the stored rule
+  condition: conditionRuleSchema.optional(),
+});
+
+interface RuleShape {
+  type: (typeof RULE_TYPE_VALUES)[number];
+  schedule?: string | null;
+  metric?: string | null;
+  threshold?: number | null;
+  condition?: TriggerCondition | null;
+}
+
+/**
+ * Fields each rule type needs before the trigger runner can evaluate it.
+ */
+function ruleShapeError(rule: RuleShape): string | null {
+  switch (rule.type) {
+    case 'schedule':
+      if (!rule.schedule) {
+        return 'Schedule rules require a cron schedule';
+      }
+      try {
+        CronExpressionParser.parse(rule.schedule, { tz: 'UTC' });
+      } catch {
+        return 'Schedule must be a valid cron expression';
+      }
+      return null;
+    case 'metric_threshold':
+      return rule.metric && rule.threshold !== null && rule.threshold !== undefined
+        ? null
+        : 'Metric threshold rules require a metric and threshold';
+    case 'anomaly':
+      return rule.metric ? null : 'Anomaly rules require a metric';
+    case 'condition':
+      return rule.condition ? null : 'Condition rules require a condition';
+  }
+}
+
+async function actionTemplateError(action: TriggerActionTemplate | null | undefined): Promise<string | null> {
+  if (!action) {
+    return null;
+  }
+
+  try {
+    await getModuleCapability(action.moduleSlug, action.capability);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Unknown module capability';
+  }
+}
+
+function serializeRule(rule: TriggerRule) {
+  return {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    severity: rule.severity,
+    enabled: rule.enabled,
+    schedule: rule.schedule,
+    metric: rule.metric,
+    threshold: rule.threshold,
+    windowDays: rule.windowDays,
+    condition: rule.type === 'condition' ? conditionForRule(rule) : null,
+    action: parseRuleAction(rule.config),
+    lastRunAt: rule.lastRunAt?.toISOString() ?? null,
+    lastTriggeredAt: rule.lastTriggeredAt?.toISOString() ?? null,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
+
+// Rules raise alerts for the whole tenant, so only owners and admins may
+// create or change them.
+const requireRulesAdmin = requireRole(TENANT_ADMIN_ROLES, 'Managing trigger rules');
 
 const listQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).optional(),
@@ -62,6 +181,12 @@ router.get(
       const [alerts, pendingCount, criticalPendingCount] = await Promise.all([
         db.alert.findMany({
           where,
+          include: {
+            actionApprovals: {
+              select: { id: true, status: true, riskScore: true, createdAt: true },
+              orderBy: { createdAt: 'desc' },
+            },
+          },
           orderBy: [{ createdAt: 'desc' }],
           take: limit,
           ...(cursor
@@ -111,6 +236,238 @@ router.get(
   }
 );
 
+/**
+ * GET /alerts/rules
+ */
+router.get('/rules', requireAuth(), resolveTenant(), async (req, res) => {
+  const tenantId = req.tenantId!;
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const rules = await db.triggerRule.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return res.status(200).json({ rules: rules.map(serializeRule) });
+  } catch (error) {
+    apiLogger.error('Failed to list trigger rules', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to load trigger rules',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * POST /alerts/rules
+ *
+ * Rules are created disabled unless `enabled: true` is sent.
+ */
+router.post('/rules', requireAuth(), resolveTenant(), requireRulesAdmin, async (req, res) => {
+  const parse = createRuleSchema.safeParse(req.body ?? {});
+
+  if (!parse.success) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid trigger rule',
+      details: parse.error.format(),
+    });
+  }
+
+  const shapeError = ruleShapeError(parse.data) ?? (await actionTemplateError(parse.data.action));
+  if (shapeError) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: shapeError,
+    });
+  }
+
+  const tenantId = req.tenantId!;
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const { condition, action, ...fields } = parse.data;
+    const rule = await db.triggerRule.create({
+      data: {
+        tenantId,
+        ...fields,
+        config:
+          condition || action
+            ? toInputJson({ ...(condition ? { condition } : {}), ...(action ? { action } : {}) })
+            : undefined,
+      },
+    });
+
+    return res.status(201).json({ rule: serializeRule(rule) });
+  } catch (error) {
+    apiLogger.error('Failed to create trigger rule', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to create trigger rule',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * PATCH /alerts/rules/:id
+ */
+router.patch('/rules/:id', requireAuth(), resolveTenant(), requireRulesAdmin, async (req, res) => {
+  const parse = updateRuleSchema.safeParse(req.body ?? {});
+
+  if (!parse.success) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid trigger rule',
+      details: parse.error.format(),
+    });
+  }
+
+  const tenantId = req.tenantId!;
+  const { id } = req.params as { id: string };
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const existing = await db.triggerRule.findFirst({ where: { id, tenantId } });
+    if (!existing) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Trigger rule not found',
+      });
+    }
+
+    const { condition, action, ...fields } = parse.data;
+    if (condition && existing.type !== 'condition') {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Only condition rules accept a condition',
+      });
+    }
+
+    const shapeError = ruleShapeError({
+      type: existing.type,
+      schedule: fields.schedule !== undefined ? fields.schedule : existing.schedule,
+      metric: fields.metric !== undefined ? fields.metric : existing.metric,
+      threshold: fields.threshold !== undefined ? fields.threshold : existing.threshold,
+      condition: condition !== undefined ? condition : conditionForRule(existing),
+    }) ?? (await actionTemplateError(action));
+    if (shapeError) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: shapeError,
+      });
+    }
+
+    const config = parseJsonRecord(existing.config ?? {});
+    if (condition !== undefined) {
+      config.condition = condition;
+    }
+    if (action !== undefined) {
+      config.action = action;
+    }
+
+    const rule = await db.triggerRule.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(condition !== undefined || action !== undefined ? { config: toInputJson(config) } : {}),
+      },
+    });
+
+    return res.status(200).json({ rule: serializeRule(rule) });
+  } catch (error) {
+    apiLogger.error('Failed to update trigger rule', {
+      tenantId,
+      ruleId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to update trigger rule',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * POST /alerts/rules/:id/preview
+ *
+ * Dry-runs the rule's condition (or an unsaved `condition` from the body)
+ * against historical AnalyticsSnapshot data, once per day over `days` days.
+ * Nothing is written and no alerts are raised.
+ */
+router.post('/rules/:id/preview', requireAuth(), resolveTenant(), async (req, res) => {
+  const parse = previewBodySchema.safeParse(req.body ?? {});
+
+  if (!parse.success) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid preview request',
+      details: parse.error.format(),
+    });
+  }
+
+  const tenantId = req.tenantId!;
+  const { id } = req.params as { id: string };
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const rule = await db.triggerRule.findFirst({ where: { id, tenantId } });
+    if (!rule) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Trigger rule not found',
+      });
+    }
+
+    const condition = parse.data.condition ?? conditionForRule(rule);
+    if (!condition) {
+      return res.status(400).json({
+        error: 'unsupported_rule',
+        message: `Rules of type ${rule.type} cannot be previewed against analytics history`,
+      });
+    }
+
+    const preview = await previewCondition(db, tenantId, condition, {
+      days: parse.data.days,
+      now: new Date(),
+    });
+
+    return res.status(200).json({
+      ruleId: rule.id,
+      condition,
+      preview,
+    });
+  } catch (error) {
+    apiLogger.error('Failed to preview trigger rule', {
+      tenantId,
+      ruleId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to preview trigger rule',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
 router.post(
   '/:id/acknowledge',
   requireAuth(),
@@ -169,6 +526,13 @@ router.post(
         },
       });
 
+      publishTenantEvent(tenantId, 'alert.updated', {
+        alertId: updated.id,
+        ruleId: updated.ruleId,
+        status: updated.status,
+        severity: updated.severity,
+      });
+
       await trackTenantEvent({
         tenantId,
         distinctId: user.id,
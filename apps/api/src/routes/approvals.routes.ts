@@ -0,0 +1,438 @@
+import { Router as createRouter } from 'express';
+import type { Router } from 'express';
+import { z } from 'zod';
+import { createTenantClient } from '@ocsuite/db';
+import type { ApprovalDelegation, ApprovalPolicy } from '@ocsuite/db';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole, TENANT_ADMIN_ROLES } from '../middleware/roles.js';
+import { apiLogger } from '../utils/logger.js';
+import { toInputJson } from '../utils/json.js';
+import { approvalPolicyStepsSchema, parseApprovalPolicySteps } from '../services/approval-policies.js';
+import { personaIdSchema } from '../services/tenant-personas.js';
+
+const router: Router = createRouter();
+
+const MAX_DELEGATION_DAYS = 90;
+
+// Policies decide who can release actions against connected systems
+const requirePolicyAdmin = requireRole(TENANT_ADMIN_ROLES, 'Managing approval policies');
+
+const policyFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(1000).nullable(),
+  enabled: z.boolean(),
+  priority: z.number().int().min(-1000).max(1000),
+  moduleSlug: z.string().trim().min(1).max(120).nullable(),
+  // `*` matches any run of characters, e.g. `send-*`
+  capability: z.string().trim().min(1).max(120).nullable(),
+  // Built-in or custom persona id
+  persona: personaIdSchema.nullable(),
+  source: z.string().trim().min(1).max(200).nullable(),
+  minRiskScore: z.number().int().min(0).max(100).nullable(),
+  steps: approvalPolicyStepsSchema,
+  approvalTtlHours: z.number().int().min(1).max(24 * 30).nullable(),
+  autoRejectAfterHours: z.number().int().min(1).max(24 * 90).nullable(),
+});
+
+const createPolicySchema = policyFieldsSchema.partial().extend({
+  name: policyFieldsSchema.shape.name,
+  steps: policyFieldsSchema.shape.steps,
+  enabled: z.boolean().default(true),
+  priority: policyFieldsSchema.shape.priority.default(0),
+});
+
+const updatePolicySchema = policyFieldsSchema.partial();
+
+const createDelegationSchema = z
+  .object({
+    delegateId: z.string().min(1),
+    startsAt: z.string().datetime({ offset: true }).optional(),
+    endsAt: z.string().datetime({ offset: true }),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .transform((value) => ({
+    ...value,
+    startsAt: value.startsAt ? new Date(value.startsAt) : new Date(),
+    endsAt: new Date(value.endsAt),
+  }))
+  .refine((value) => value.endsAt > value.startsAt, {
+    message: 'endsAt must be after startsAt',
+    path: ['endsAt'],
+  })
+  .refine((value) => value.endsAt.getTime() - value.startsAt.getTime() <= MAX_DELEGATION_DAYS * 24 * 60 * 60 * 1000, {
+    message: `Delegations may last at most ${MAX_DELEGATION_DAYS} days`,
+    path: ['endsAt'],
+  });
+
+function serializePolicy(policy: ApprovalPolicy) {
+  return {
+    id: policy.id,
+    tenantId: policy.tenantId,
+    name: policy.name,
+    description: policy.description,
+    enabled: policy.enabled,
+    priority: policy.priority,
+    moduleSlug: policy.moduleSlug,
+    capability: policy.capability,
+    persona: policy.persona,
+    source: policy.source,
+    minRiskScore: policy.minRiskScore,
+    steps: parseApprovalPolicySteps(policy.steps),
+    approvalTtlHours: policy.approvalTtlHours,
+    autoRejectAfterHours: policy.autoRejectAfterHours,
+    createdBy: policy.createdBy,
+    createdAt: policy.createdAt.toISOString(),
+    updatedAt: policy.updatedAt.toISOString(),
+  };
+}
+
+function serializeDelegation(delegation: ApprovalDelegation) {
+  return {
+    id: delegation.id,
+    tenantId: delegation.tenantId,
+    delegatorId: delegation.delegatorId,
+    delegateId: delegation.delegateId,
+    startsAt: delegation.startsAt.toISOString(),
+    endsAt: delegation.endsAt.toISOString(),
+    reason: delegation.reason,
+    revokedAt: delegation.revokedAt?.toISOString() ?? null,
+    createdAt: delegation.createdAt.toISOString(),
+  };
+}
+
+/**
+ * GET /approvals/policies
+ *
+ * Ordered the way they are evaluated: highest priority first.
+ */
+router.get('/policies', requireAuth(), resolveTenant(), async (req, res) => {
+  const tenantId = req.tenantId!;
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const policies = await db.approvalPolicy.findMany({
+      where: { tenantId },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return res.status(200).json({ policies: policies.map(serializePolicy) });
+  } catch (error) {
+    apiLogger.error('Failed to list approval policies', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to load approval policies',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * POST /approvals/policies
+ */
+router.post('/policies', requireAuth(), resolveTenant(), requirePolicyAdmin, async (req, res) => {
+  const parse = createPolicySchema.safeParse(req.body ?? {});
+
+  if (!parse.success) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid approval policy',
+      details: parse.error.format(),
+    });
+  }
+
+  const tenantId = req.tenantId!;
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const { steps, ...fields } = parse.data;
+    const policy = await db.approvalPolicy.create({
+      data: {
+        tenantId,
+        ...fields,
+        steps: toInputJson(steps),
+        createdBy: req.clerkId!,
+      },
+    });
+
+    return res.status(201).json({ policy: serializePolicy(policy) });
+  } catch (error) {
+    apiLogger.error('Failed to create approval policy', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to create approval policy',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * PATCH /approvals/policies/:id
+ *
+ * Pending approvals keep the policy snapshot taken when they were submitted.
+ */
+router.patch('/policies/:id', requireAuth(), resolveTenant(), requirePolicyAdmin, async (req, res) => {
+  const parse = updatePolicySchema.safeParse(req.body ?? {});
+
+  if (!parse.success) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid approval policy',
+      details: parse.error.format(),
+    });
+  }
+
+  const tenantId = req.tenantId!;
+  const { id } = req.params as { id: string };
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const existing = await db.approvalPolicy.findFirst({ where: { id, tenantId } });
+    if (!existing) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Approval policy not found',
+      });
+    }
+
+    const { steps, ...fields } = parse.data;
+    const policy = await db.approvalPolicy.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(steps ? { steps: toInputJson(steps) } : {}),
+      },
+    });
+
+    return res.status(200).json({ policy: serializePolicy(policy) });
+  } catch (error) {
+    apiLogger.error('Failed to update approval policy', {
+      tenantId,
+      policyId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to update approval policy',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * DELETE /approvals/policies/:id
+ */
+router.delete('/policies/:id', requireAuth(), resolveTenant(), requirePolicyAdmin, async (req, res) => {
+  const tenantId = req.tenantId!;
+  const { id } = req.params as { id: string };
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const { count } = await db.approvalPolicy.deleteMany({ where: { id, tenantId } });
+    if (!count) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Approval policy not found',
+      });
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    apiLogger.error('Failed to delete approval policy', {
+      tenantId,
+      policyId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to delete approval policy',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * GET /approvals/delegations
+ *
+ * Owners and admins see every delegation; members see those they gave or received.
+ */
+router.get('/delegations', requireAuth(), resolveTenant(), async (req, res) => {
+  const tenantId = req.tenantId!;
+  const tenantUserId = req.tenantUserId!;
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const delegations = await db.approvalDelegation.findMany({
+      where: {
+        tenantId,
+        ...(TENANT_ADMIN_ROLES.includes(req.tenantRole!)
+          ? {}
+          : { OR: [{ delegatorId: tenantUserId }, { delegateId: tenantUserId }] }),
+      },
+      orderBy: { startsAt: 'desc' },
+      take: 200,
+    });
+
+    return res.status(200).json({ delegations: delegations.map(serializeDelegation) });
+  } catch (error) {
+    apiLogger.error('Failed to list approval delegations', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to load approval delegations',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * POST /approvals/delegations
+ *
+ * Hands the caller's approval authority to another member until `endsAt`.
+ * The delegate signs off with the caller's role, and the audit trail records
+ * on whose behalf.
+ */
+router.post('/delegations', requireAuth(), resolveTenant(), async (req, res) => {
+  const parse = createDelegationSchema.safeParse(req.body ?? {});
+
+  if (!parse.success) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid delegation',
+      details: parse.error.format(),
+    });
+  }
+
+  const tenantId = req.tenantId!;
+  const delegatorId = req.tenantUserId!;
+  const { delegateId, startsAt, endsAt, reason } = parse.data;
+
+  if (delegateId === delegatorId) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'You cannot delegate to yourself',
+    });
+  }
+
+  if (endsAt <= new Date()) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'endsAt must be in the future',
+    });
+  }
+
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const delegate = await db.tenantMember.findFirst({ where: { tenantId, userId: delegateId } });
+    if (!delegate) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Delegate is not a member of this workspace',
+      });
+    }
+
+    const delegation = await db.approvalDelegation.create({
+      data: {
+        tenantId,
+        delegatorId,
+        delegateId,
+        startsAt,
+        endsAt,
+        reason: reason || null,
+      },
+    });
+
+    apiLogger.info('Approval delegation created', {
+      tenantId,
+      delegationId: delegation.id,
+      delegatorId,
+      delegateId,
+      endsAt: endsAt.toISOString(),
+    });
+
+    return res.status(201).json({ delegation: serializeDelegation(delegation) });
+  } catch (error) {
+    apiLogger.error('Failed to create approval delegation', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to create approval delegation',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * DELETE /approvals/delegations/:id
+ *
+ * Revokes a delegation; allowed for the delegator, owners and admins.
+ */
+router.delete('/delegations/:id', requireAuth(), resolveTenant(), async (req, res) => {
+  const tenantId = req.tenantId!;
+  const { id } = req.params as { id: string };
+  const db = createTenantClient({ tenantId, userId: req.clerkId! });
+
+  try {
+    const existing = await db.approvalDelegation.findFirst({ where: { id, tenantId } });
+    if (!existing) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'Delegation not found',
+      });
+    }
+
+    if (existing.delegatorId !== req.tenantUserId && !TENANT_ADMIN_ROLES.includes(req.tenantRole!)) {
+      return res.status(403).json({
+        error: 'forbidden',
+        message: 'Only the delegator, owners or admins can revoke a delegation',
+      });
+    }
+
+    const delegation = existing.revokedAt
+      ? existing
+      : await db.approvalDelegation.update({
+          where: { id },
+          data: { revokedAt: new Date() },
+        });
+
+    return res.status(200).json({ delegation: serializeDelegation(delegation) });
+  } catch (error) {
+    apiLogger.error('Failed to revoke approval delegation', {
+      tenantId,
+      delegationId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to revoke approval delegation',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+export default router;
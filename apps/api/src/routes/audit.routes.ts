@@ -0,0 +1,197 @@
+import { Router as createRouter } from 'express';
+import type { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { createTenantClient } from '@ocsuite/db';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole, TENANT_ADMIN_ROLES } from '../middleware/roles.js';
+import { apiLogger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import {
+  AuditCursorError,
+  formatAuditCsvHeader,
+  formatAuditCsvRow,
+  formatAuditJsonLine,
+  iterateAuditLog,
+  listAuditLog,
+  resolveAuditActor,
+  type AuditLogFilters,
+} from '../services/audit-log.js';
+
+const router: Router = createRouter();
+
+// Rows fetched per page while streaming an export
+const EXPORT_PAGE_SIZE = 500;
+
+const requireAuditAccess = requireRole(TENANT_ADMIN_ROLES, 'Audit log access');
+
+const TYPE_PATTERN = /^(access|approval|knowledge|connector)(\.[a-z_]+)?$/;
+
+const filterSchema = z
+  .object({
+    actor: z.string().trim().min(1).max(320).optional(),
+    from: z.string().datetime({ offset: true }).optional(),
+    to: z.string().datetime({ offset: true }).optional(),
+    type: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .transform((value) =>
+        (Array.isArray(value) ? value : value ? [value] : [])
+          .flatMap((item) => item.split(','))
+          .map((item) => item.trim())
+          .filter(Boolean)
+      )
+      .refine((types) => types.every((type) => TYPE_PATTERN.test(type)), {
+        message: 'type must be access, approval, knowledge or connector, optionally followed by .<event>',
+      }),
+  })
+  .refine((value) => !value.from || !value.to || new Date(value.from) <= new Date(value.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+const listQuerySchema = filterSchema.and(
+  z.object({
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    cursor: z.string().min(1).optional(),
+  })
+);
+
+const exportQuerySchema = filterSchema.and(
+  z.object({
+    format: z.enum(['csv', 'jsonl']).default('csv'),
+  })
+);
+
+async function buildFilters(
+  db: ReturnType<typeof createTenantClient>,
+  tenantId: string,
+  query: z.infer<typeof filterSchema>
+): Promise<Omit<AuditLogFilters, 'limit' | 'cursor'>> {
+  return {
+    tenantId,
+    actorId: query.actor ? await resolveAuditActor(db, query.actor) : undefined,
+    from: query.from ? new Date(query.from) : undefined,
+    to: query.to ? new Date(query.to) : undefined,
+    types: query.type,
+  };
+}
+
+/**
+ * GET /audit
+ *
+ * Merged, newest-first audit timeline for the tenant. Owners and admins only.
+ */
+router.get('/', requireAuth(), resolveTenant(), requireAuditAccess, async (req: Request, res: Response) => {
+  const parse = listQuerySchema.safeParse(req.query ?? {});
+
+  if (!parse.success) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid query parameters',
+      details: parse.error.format(),
+    });
+  }
+
+  const tenantId = req.tenantId!;
+  const db = createTenantClient({ tenantId, userId: req.tenantUserId! });
+
+  try {
+    const filters = await buildFilters(db, tenantId, parse.data);
+    const page = await listAuditLog(db, { ...filters, limit: parse.data.limit, cursor: parse.data.cursor });
+
+    return res.status(200).json(page);
+  } catch (error) {
+    if (error instanceof AuditCursorError) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: error.message,
+      });
+    }
+
+    apiLogger.error('Failed to list audit log', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list audit log',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * GET /audit/export?format=csv|jsonl
+ *
+ * Streams the filtered log as a download, capped at AUDIT_EXPORT_MAX_ROWS.
+ */
+router.get('/export', requireAuth(), resolveTenant(), requireAuditAccess, async (req: Request, res: Response) => {
+  const parse = exportQuerySchema.safeParse(req.query ?? {});
+
+  if (!parse.success) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid query parameters',
+      details: parse.error.format(),
+    });
+  }
+
+  const tenantId = req.tenantId!;
+  const { format } = parse.data;
+  const db = createTenantClient({ tenantId, userId: req.tenantUserId! });
+  let rows = 0;
+
+  try {
+    const filters = await buildFilters(db, tenantId, parse.data);
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.status(200);
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (format === 'csv') {
+      res.write(formatAuditCsvHeader());
+    }
+
+    for await (const entry of iterateAuditLog(db, { ...filters, limit: EXPORT_PAGE_SIZE }, config.audit.exportMaxRows)) {
+      res.write(format === 'csv' ? formatAuditCsvRow(entry) : formatAuditJsonLine(entry));
+      rows += 1;
+    }
+
+    apiLogger.info('Audit log exported', {
+      tenantId,
+      exportedBy: req.tenantUserId,
+      format,
+      rows,
+      truncated: rows >= config.audit.exportMaxRows,
+    });
+
+    return res.end();
+  } catch (error) {
+    apiLogger.error('Failed to export audit log', {
+      tenantId,
+      format,
+      rows,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    // Once rows are streamed the status is sent; cut the download short instead
+    if (res.headersSent) {
+      return res.destroy(error instanceof Error ? error : undefined);
+    }
+
+    res.removeHeader('Content-Disposition');
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to export audit log',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+export default router;
@@ -5,6 +5,15 @@ import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
 import { apiLogger } from '../utils/logger.js';
 import { applyBillingUsageDelta, getBillingUsage, normalizeToDate } from '../services/billing.js';
+import { getQuotaStatus } from '../services/quotas.js';
+import {
+  claimBillingEvent,
+  completeBillingEvent,
+  isStripeLifecycleEvent,
+  processStripeLifecycleEvent,
+  verifyStripeSignature,
+  type StripeEventResult,
+} from '../services/stripe-webhooks.js';
 import { config } from '../config/index.js';
 
 const router: Router = createRouter();
@@ -64,6 +73,30 @@ router.get('/usage', requireAuth(), resolveTenant(), async (req: Request, res: R
   }
 });
 
+router.get('/quota', requireAuth(), resolveTenant(), async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+
+  try {
+    const status = await getQuotaStatus(tenantId);
+    return res.status(200).json({
+      plan: status.plan,
+      enforcement: status.enforcement,
+      period: status.period,
+      metrics: status.metrics,
+    });
+  } catch (error) {
+    apiLogger.error('Failed to load billing quota', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to load billing quota',
+    });
+  }
+});
+
 const webhookSchema = z
   .object({
     type: z.string().min(1),
@@ -78,6 +111,7 @@ const webhookSchema = z
             tasksExecuted: z.number().int().nonnegative().optional(),
             alertsTriggered: z.number().int().nonnegative().optional(),
             activeWidgets: z.number().int().nonnegative().optional(),
+            videoMinutes: z.number().int().nonnegative().optional(),
           })
           .optional(),
         metadata: z.record(z.unknown()).optional(),
@@ -120,14 +154,55 @@ function toEventIso(created?: number): string | undefined {
   return date.toISOString();
 }
 
+async function applyUsageEvent(event: z.infer<typeof webhookSchema>): Promise<StripeEventResult> {
+  const tenantId = resolveTenantFromEvent(event);
+
+  if (!tenantId) {
+    apiLogger.warn('Billing webhook missing tenant identifier', {
+      eventType: event.type,
+      eventId: event.id,
+    });
+    return { status: 'ignored', tenantId: null, reason: 'tenant_not_found' };
+  }
+
+  const usage = event.data?.usage ?? {};
+
+  const point = await applyBillingUsageDelta({
+    tenantId,
+    deltas: {
+      tokensUsed: usage.tokensUsed,
+      tasksExecuted: usage.tasksExecuted,
+      alertsTriggered: usage.alertsTriggered,
+      activeWidgets: usage.activeWidgets,
+      videoMinutes: usage.videoMinutes,
+    },
+    event: {
+      type: event.type,
+      occurredAt: toEventIso(event.created),
+      payload: event.data?.metadata,
+    },
+  });
+
+  apiLogger.info('Processed billing webhook event', {
+    tenantId,
+    eventType: event.type,
+    eventId: event.id,
+    usage: point,
+  });
+
+  return { status: 'processed', tenantId };
+}
+
 router.post('/webhook', async (req: Request, res: Response) => {
-  const expectedSignature = config.stripe.webhookSecret;
-  if (expectedSignature) {
-    const actualSignature = req.header('stripe-signature');
-    if (!actualSignature || actualSignature !== expectedSignature) {
-      apiLogger.warn('Rejected billing webhook due to signature mismatch', {
-        expected: !!expectedSignature,
-        provided: Boolean(actualSignature),
+  const secret = config.stripe.webhookSecret;
+  if (secret) {
+    const header = req.header('stripe-signature');
+    try {
+      verifyStripeSignature({ payload: req.rawBody ?? '', header, secret });
+    } catch (error) {
+      apiLogger.warn('Rejected billing webhook due to invalid signature', {
+        provided: Boolean(header),
+        reason: error instanceof Error ? error.message : 'Unknown error',
       });
 
       return res.status(401).json({
@@ -135,6 +210,13 @@ router.post('/webhook', async (req: Request, res: Response) => {
         message: 'Invalid webhook signature',
       });
     }
+  } else if (config.nodeEnv === 'production') {
+    apiLogger.error('Rejected billing webhook because STRIPE_WEBHOOK_SECRET is not configured');
+
+    return res.status(503).json({
+      error: 'service_unavailable',
+      message: 'Billing webhooks are not configured',
+    });
   }
 
   const parse = webhookSchema.safeParse(req.body ?? {});
@@ -151,50 +233,74 @@ router.post('/webhook', async (req: Request, res: Response) => {
   }
 
   const event = parse.data;
-  const tenantId = resolveTenantFromEvent(event);
 
-  if (!tenantId) {
-    apiLogger.warn('Billing webhook missing tenant identifier', {
-      eventType: event.type,
-      eventId: event.id,
-    });
-    return res.status(202).json({ status: 'ignored' });
-  }
+  if (event.id) {
+    try {
+      const claim = await claimBillingEvent({ id: event.id, type: event.type, payload: event });
+      if (claim === 'duplicate') {
+        apiLogger.info('Skipped duplicate billing webhook event', {
+          eventType: event.type,
+          eventId: event.id,
+        });
+        return res.status(200).json({ status: 'duplicate' });
+      }
+      if (claim === 'in_progress') {
+        // Not a 2xx, so Stripe redelivers once the current attempt has settled
+        return res.status(409).json({
+          error: 'invalid_state',
+          message: 'Billing webhook event is already being processed',
+        });
+      }
+    } catch (error) {
+      apiLogger.error('Failed to record billing webhook event', {
+        eventType: event.type,
+        eventId: event.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
 
-  const usage = event.data?.usage ?? {};
+      return res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to process billing webhook',
+      });
+    }
+  }
 
   try {
-    const point = await applyBillingUsageDelta({
-      tenantId,
-      deltas: {
-        tokensUsed: usage.tokensUsed,
-        tasksExecuted: usage.tasksExecuted,
-        alertsTriggered: usage.alertsTriggered,
-        activeWidgets: usage.activeWidgets,
-      },
-      event: {
-        type: event.type,
-        occurredAt: toEventIso(event.created),
-        payload: event.data?.metadata,
-      },
-    });
+    const result = isStripeLifecycleEvent(event.type)
+      ? await processStripeLifecycleEvent(event)
+      : await applyUsageEvent(event);
 
-    apiLogger.info('Processed billing webhook event', {
-      tenantId,
-      eventType: event.type,
-      eventId: event.id,
-      usage: point,
-    });
+    if (result.status === 'ignored') {
+      apiLogger.info('Ignored billing webhook event', {
+        eventType: event.type,
+        eventId: event.id,
+        reason: result.reason,
+      });
+    }
 
-    return res.status(202).json({ status: 'processed' });
+    if (event.id) {
+      await completeBillingEvent(event.id, { status: result.status, tenantId: result.tenantId });
+    }
+
+    return res.status(202).json({ status: result.status });
   } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
     apiLogger.error('Failed to process billing webhook', {
-      tenantId,
       eventType: event.type,
       eventId: event.id,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: message,
     });
 
+    if (event.id) {
+      await completeBillingEvent(event.id, { status: 'failed', error: message }).catch((recordError) => {
+        apiLogger.error('Failed to mark billing webhook event as failed', {
+          eventId: event.id,
+          error: recordError instanceof Error ? recordError.message : 'Unknown error',
+        });
+      });
+    }
+
     return res.status(500).json({
       error: 'internal_error',
       message: 'Failed to process billing webhook',
@@ -5,19 +5,41 @@ import { Prisma } from '@prisma/client';
 import { createTenantClient } from '@ocsuite/db';
 import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole, TENANT_ADMIN_ROLES } from '../middleware/roles.js';
 import { apiLogger } from '../utils/logger.js';
 import {
   enrichActionItemWithAssignee,
   mapBoardActionItemRecord,
   parsePersonaPayload,
 } from '../services/board-meeting.js';
+import {
+  TenantPersonaConflictError,
+  TenantPersonaNotFoundError,
+  TenantPersonaStateError,
+  createCustomPersona,
+  createCustomPersonaSchema,
+  deleteCustomPersona,
+  listTenantPersonas,
+  personaIdSchema,
+  updatePersonaSchema,
+  updateTenantPersona,
+} from '../services/tenant-personas.js';
+import {
+  BoardMinutesForbiddenError,
+  BoardMinutesNotFoundError,
+  BoardMinutesStateError,
+  createMinutesExport,
+  createMinutesExportSchema,
+  getMinutesExport,
+  listMinutesExports,
+} from '../services/board-minutes.js';
 import { getPersonaById } from '@ocsuite/module-sdk';
 import { parseJsonRecord } from '../utils/json.js';
 
 const listQuerySchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   pageSize: z.coerce.number().int().positive().max(100).default(10),
-  persona: z.enum(['ceo', 'cfo', 'cmo']).optional(),
+  persona: personaIdSchema.optional(),
   from: z.string().datetime().optional(),
   to: z.string().datetime().optional(),
 });
@@ -191,9 +213,11 @@ router.get(
         const metricsRecord = turn.metrics ? parseJsonRecord(turn.metrics) : null;
         const cachedParsed = metricsRecord?.parsed as ReturnType<typeof parsePersonaPayload> | undefined;
         const parsed = cachedParsed ?? parsePersonaPayload(turn.content);
+        // Custom personas may since have been renamed or deleted
+        const storedName = typeof metricsRecord?.personaName === 'string' ? metricsRecord.personaName : undefined;
         return {
           personaId: turn.persona,
-          personaName: persona?.name ?? turn.persona.toUpperCase(),
+          personaName: storedName ?? persona?.name ?? turn.persona.toUpperCase(),
           summary: parsed.summary,
           risks: parsed.risks,
           opportunities: parsed.opportunities,
@@ -202,6 +226,9 @@ router.get(
           rawContent: turn.content,
           sequence: turn.sequence,
           createdAt: turn.createdAt.toISOString(),
+          round: typeof metricsRecord?.round === 'number' ? metricsRecord.round : 1,
+          agreements: parsed.agreements,
+          dissent: parsed.dissent,
         };
       });
 
@@ -418,4 +445,382 @@ router.patch(
   }
 );
 
+function minutesErrorResponse(res: Response, error: unknown): Response | null {
+  if (error instanceof BoardMinutesNotFoundError) {
+    return res.status(404).json({ error: { code: 'MINUTES_NOT_FOUND', message: error.message } });
+  }
+  if (error instanceof BoardMinutesStateError) {
+    return res.status(400).json({ error: { code: 'MEETING_NOT_COMPLETED', message: error.message } });
+  }
+  if (error instanceof BoardMinutesForbiddenError) {
+    return res.status(403).json({ error: { code: 'MINUTES_EMAIL_FORBIDDEN', message: error.message } });
+  }
+  return null;
+}
+
+/**
+ * POST /board/meetings/:id/minutes
+ *
+ * Renders formal minutes as Markdown, PDF or DOCX and stores them for
+ * download. With `emailMembers` the file is also emailed to every member;
+ * only owners, admins and the meeting's organizer may do that.
+ */
+router.post(
+  '/meetings/:id/minutes',
+  requireAuth(),
+  resolveTenant(),
+  async (req: Request, res: Response) => {
+    const tenantId = req.tenantId!;
+    const meetingId = req.params.id!;
+    const parsed = createMinutesExportSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid minutes export request',
+          details: parsed.error.flatten(),
+        },
+      });
+    }
+
+    const prisma = createTenantClient({ tenantId });
+
+    try {
+      const minutesExport = await createMinutesExport(prisma, {
+        tenantId,
+        meetingId,
+        userId: req.tenantUserId!,
+        clerkId: req.clerkId!,
+        tenantRole: req.tenantRole!,
+        input: parsed.data,
+      });
+
+      apiLogger.info('Board minutes exported', {
+        tenantId,
+        meetingId,
+        exportId: minutesExport.id,
+        format: minutesExport.format,
+        emailed: minutesExport.emailedTo.length,
+      });
+
+      return res.status(201).json({ data: minutesExport });
+    } catch (error) {
+      const handled = minutesErrorResponse(res, error);
+      if (handled) {
+        return handled;
+      }
+
+      apiLogger.error('Failed to export board minutes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId,
+        meetingId,
+      });
+      return res.status(500).json({
+        error: {
+          code: 'MINUTES_EXPORT_ERROR',
+          message: 'Failed to export board minutes',
+        },
+      });
+    } finally {
+      await prisma.$disconnect();
+    }
+  }
+);
+
+/**
+ * GET /board/meetings/:id/minutes
+ *
+ * Minutes previously exported for the meeting, newest first.
+ */
+router.get(
+  '/meetings/:id/minutes',
+  requireAuth(),
+  resolveTenant(),
+  async (req: Request, res: Response) => {
+    const tenantId = req.tenantId!;
+    const meetingId = req.params.id!;
+    const prisma = createTenantClient({ tenantId });
+
+    try {
+      const exports = await listMinutesExports(prisma, { tenantId, meetingId });
+      return res.json({ data: exports });
+    } catch (error) {
+      apiLogger.error('Failed to list board minutes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId,
+        meetingId,
+      });
+      return res.status(500).json({
+        error: {
+          code: 'MINUTES_LIST_ERROR',
+          message: 'Failed to list board minutes',
+        },
+      });
+    } finally {
+      await prisma.$disconnect();
+    }
+  }
+);
+
+/**
+ * GET /board/meetings/:id/minutes/:exportId/download
+ */
+router.get(
+  '/meetings/:id/minutes/:exportId/download',
+  requireAuth(),
+  resolveTenant(),
+  async (req: Request, res: Response) => {
+    const tenantId = req.tenantId!;
+    const meetingId = req.params.id!;
+    const exportId = req.params.exportId!;
+    const prisma = createTenantClient({ tenantId });
+
+    try {
+      const minutesExport = await getMinutesExport(prisma, { tenantId, meetingId, exportId });
+
+      res.setHeader('Content-Type', minutesExport.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${minutesExport.fileName}"`);
+      return res.send(Buffer.from(minutesExport.content));
+    } catch (error) {
+      const handled = minutesErrorResponse(res, error);
+      if (handled) {
+        return handled;
+      }
+
+      apiLogger.error('Failed to download board minutes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId,
+        meetingId,
+        exportId,
+      });
+      return res.status(500).json({
+        error: {
+          code: 'MINUTES_DOWNLOAD_ERROR',
+          message: 'Failed to download board minutes',
+        },
+      });
+    } finally {
+      await prisma.$disconnect();
+    }
+  }
+);
+
+// Seats decide who speaks in every board meeting and chat, so only owners and
+// admins may change them.
+const requirePersonaAdmin = requireRole(TENANT_ADMIN_ROLES, 'Managing board personas');
+
+function personaErrorResponse(res: Response, error: unknown): Response | null {
+  if (error instanceof TenantPersonaNotFoundError) {
+    return res.status(404).json({ error: { code: 'PERSONA_NOT_FOUND', message: error.message } });
+  }
+  if (error instanceof TenantPersonaConflictError) {
+    return res.status(409).json({ error: { code: 'PERSONA_CONFLICT', message: error.message } });
+  }
+  if (error instanceof TenantPersonaStateError) {
+    return res.status(409).json({ error: { code: 'PERSONA_STATE_ERROR', message: error.message } });
+  }
+  return null;
+}
+
+/**
+ * GET /board/personas
+ *
+ * Built-in and custom personas with whether each has a seat on the board.
+ */
+router.get(
+  '/personas',
+  requireAuth(),
+  resolveTenant(),
+  async (req: Request, res: Response) => {
+    const tenantId = req.tenantId!;
+    const prisma = createTenantClient({ tenantId });
+
+    try {
+      const personas = await listTenantPersonas(prisma, tenantId);
+      return res.json({ data: personas });
+    } catch (error) {
+      apiLogger.error('Failed to list board personas', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId,
+      });
+      return res.status(500).json({
+        error: {
+          code: 'PERSONA_LIST_ERROR',
+          message: 'Failed to list board personas',
+        },
+      });
+    } finally {
+      await prisma.$disconnect();
+    }
+  }
+);
+
+/**
+ * POST /board/personas
+ *
+ * Defines a custom persona for the tenant.
+ */
+router.post(
+  '/personas',
+  requireAuth(),
+  resolveTenant(),
+  requirePersonaAdmin,
+  async (req: Request, res: Response) => {
+    const tenantId = req.tenantId!;
+    const parsed = createCustomPersonaSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid persona definition',
+          details: parsed.error.flatten(),
+        },
+      });
+    }
+
+    const prisma = createTenantClient({ tenantId });
+
+    try {
+      const persona = await createCustomPersona(prisma, {
+        tenantId,
+        userId: req.tenantUserId!,
+        input: parsed.data,
+      });
+
+      apiLogger.info('Custom board persona created', { tenantId, personaId: persona.id });
+
+      return res.status(201).json({ data: persona });
+    } catch (error) {
+      const handled = personaErrorResponse(res, error);
+      if (handled) {
+        return handled;
+      }
+
+      apiLogger.error('Failed to create board persona', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId,
+      });
+      return res.status(500).json({
+        error: {
+          code: 'PERSONA_CREATE_ERROR',
+          message: 'Failed to create board persona',
+        },
+      });
+    } finally {
+      await prisma.$disconnect();
+    }
+  }
+);
+
+/**
+ * PATCH /board/personas/:personaId
+ *
+ * Enables or disables a built-in seat, or edits a custom persona.
+ */
+router.patch(
+  '/personas/:personaId',
+  requireAuth(),
+  resolveTenant(),
+  requirePersonaAdmin,
+  async (req: Request, res: Response) => {
+    const tenantId = req.tenantId!;
+    const personaId = req.params.personaId!;
+    const parsed = updatePersonaSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid persona update',
+          details: parsed.error.flatten(),
+        },
+      });
+    }
+
+    const prisma = createTenantClient({ tenantId });
+
+    try {
+      const persona = await updateTenantPersona(prisma, {
+        tenantId,
+        userId: req.tenantUserId!,
+        personaId,
+        input: parsed.data,
+      });
+
+      apiLogger.info('Board persona updated', {
+        tenantId,
+        personaId,
+        enabled: persona.enabled,
+      });
+
+      return res.json({ data: persona });
+    } catch (error) {
+      const handled = personaErrorResponse(res, error);
+      if (handled) {
+        return handled;
+      }
+
+      apiLogger.error('Failed to update board persona', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId,
+        personaId,
+      });
+      return res.status(500).json({
+        error: {
+          code: 'PERSONA_UPDATE_ERROR',
+          message: 'Failed to update board persona',
+        },
+      });
+    } finally {
+      await prisma.$disconnect();
+    }
+  }
+);
+
+/**
+ * DELETE /board/personas/:personaId
+ *
+ * Removes a custom persona. Past meetings keep the name it had.
+ */
+router.delete(
+  '/personas/:personaId',
+  requireAuth(),
+  resolveTenant(),
+  requirePersonaAdmin,
+  async (req: Request, res: Response) => {
+    const tenantId = req.tenantId!;
+    const personaId = req.params.personaId!;
+    const prisma = createTenantClient({ tenantId });
+
+    try {
+      await deleteCustomPersona(prisma, { tenantId, personaId });
+
+      apiLogger.info('Custom board persona deleted', { tenantId, personaId });
+
+      return res.status(204).send();
+    } catch (error) {
+      const handled = personaErrorResponse(res, error);
+      if (handled) {
+        return handled;
+      }
+
+      apiLogger.error('Failed to delete board persona', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId,
+        personaId,
+      });
+      return res.status(500).json({
+        error: {
+          code: 'PERSONA_DELETE_ERROR',
+          message: 'Failed to delete board persona',
+        },
+      });
+    } finally {
+      await prisma.$disconnect();
+    }
+  }
+);
+
 export default router;
@@ -62,11 +62,7 @@ vi.mock('../utils/logger.js', () => ({
 }));
 
 vi.mock('../services/board-meeting.js', () => ({
-  DEFAULT_AGENDA: [
-    { id: 'exec-overview', title: 'Executive Overview', personaId: 'ceo', dependsOn: null },
-    { id: 'financial', title: 'Financial Health', personaId: 'cfo', dependsOn: null },
-    { id: 'growth', title: 'Growth Outlook', personaId: 'cmo', dependsOn: null },
-  ],
+  MAX_DEBATE_ROUNDS: 3,
   agendaTemplateToDisplay: vi.fn((agenda: BoardMeetingAgendaItem[]) =>
     agenda.map((item: BoardMeetingAgendaItem) => ({
       ...item,
@@ -86,6 +82,11 @@ vi.mock('../services/board-meeting.js', () => ({
       };
     }
   }),
+  buildDefaultAgenda: vi.fn(() => [
+    { id: 'exec-overview', title: 'Executive Overview', personaId: 'ceo' },
+    { id: 'financial', title: 'Financial Health', personaId: 'cfo', dependsOn: 'exec-overview' },
+    { id: 'growth', title: 'Growth Outlook', personaId: 'cmo', dependsOn: 'financial' },
+  ]),
   enrichActionItemWithAssignee: vi.fn(
     (
       item: BoardActionItemRecord,
@@ -111,6 +112,13 @@ vi.mock('../services/board-meeting.js', () => ({
   })),
 }));
 
+vi.mock('../services/tenant-personas.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/tenant-personas.js')>()),
+  listBoardSeats: vi.fn(async () =>
+    ['ceo', 'cfo', 'cmo', 'gc'].map((id) => ({ id, name: id.toUpperCase(), expertise: [] }))
+  ),
+}));
+
 vi.mock('../queue/client.js', () => ({
   enqueueBoardMeeting: vi.fn(),
   getJobStatus: vi.fn(),
@@ -281,6 +289,32 @@ describe('board.routes SSE streaming', () => {
       expect(response.body.error).toBeDefined();
     });
 
+    it('should only accept personas with a seat on the tenant board', async () => {
+      const rejected = await request(app)
+        .post('/c-suite/board-meeting')
+        .set('X-Test-Auto-Finish', 'true')
+        .send({ agenda: [{ title: 'Ops Review', personaId: 'coo' }] })
+        .expect(400);
+
+      expect(rejected.body.error).toMatchObject({
+        code: 'INVALID_AGENDA',
+        details: { personaIds: ['coo'] },
+      });
+
+      await request(app)
+        .post('/c-suite/board-meeting')
+        .set('X-Test-Auto-Finish', 'true')
+        .send({ agenda: [{ title: 'Contract Exposure', personaId: 'gc' }] })
+        .expect(200);
+
+      expect(enqueueBoardMeeting).toHaveBeenCalledWith(
+        expect.objectContaining({
+          agenda: [expect.objectContaining({ personaId: 'gc', title: 'Contract Exposure' })],
+        }),
+        expect.any(Object)
+      );
+    });
+
     it('should accept valid agenda configuration', async () => {
       const response = await request(app)
         .post('/c-suite/board-meeting')
@@ -362,6 +396,30 @@ describe('board.routes SSE streaming', () => {
         })
       );
     });
+
+    it('should pass debate rounds through to the meeting and job', async () => {
+      await request(app)
+        .post('/c-suite/board-meeting')
+        .set('X-Test-Auto-Finish', 'true')
+        .send({ debateRounds: 4 })
+        .expect(400);
+
+      await request(app)
+        .post('/c-suite/board-meeting')
+        .set('X-Test-Auto-Finish', 'true')
+        .send({ debateRounds: 2 })
+        .expect(200);
+
+      expect(mockDb.boardMeeting.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          metadata: expect.objectContaining({ debateRounds: 2 }),
+        }),
+      });
+      expect(enqueueBoardMeeting).toHaveBeenCalledWith(
+        expect.objectContaining({ debateRounds: 2 }),
+        expect.any(Object)
+      );
+    });
   });
 
   describe('SSE event payloads', () => {
@@ -8,12 +8,14 @@ import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
 import { apiLogger, sseLogger } from '../utils/logger.js';
 import {
-  DEFAULT_AGENDA,
+  MAX_DEBATE_ROUNDS,
+  buildDefaultAgenda,
   agendaTemplateToDisplay,
   parsePersonaPayload,
   enrichActionItemWithAssignee,
   mapBoardActionItemRecord,
 } from '../services/board-meeting.js';
+import { listBoardSeats, personaIdSchema } from '../services/tenant-personas.js';
 import {
   enqueueBoardMeeting,
   getJobStatus,
@@ -29,30 +31,25 @@ const startMeetingSchema = z.object({
       z.object({
         id: z.string().min(1).optional(),
         title: z.string().min(1),
-        personaId: z.enum(['ceo', 'cfo', 'cmo']),
+        personaId: personaIdSchema,
         dependsOn: z.string().min(1).optional().nullable(),
       })
     )
     .optional(),
   agendaVersion: z.number().int().positive().max(99).optional(),
+  // Rounds after the first let personas rebut each other
+  debateRounds: z.number().int().min(1).max(MAX_DEBATE_ROUNDS).optional(),
 });
 
 interface NormalizedAgendaItem {
   id: string;
   title: string;
-  personaId: 'ceo' | 'cfo' | 'cmo';
+  personaId: string;
   dependsOn?: string | null;
 }
 
 type PersonaPayload = ReturnType<typeof parsePersonaPayload>;
 
-const DEFAULT_NORMALIZED_AGENDA: NormalizedAgendaItem[] = DEFAULT_AGENDA.map((item) => ({
-  id: item.id,
-  title: item.title,
-  personaId: item.personaId as 'ceo' | 'cfo' | 'cmo',
-  dependsOn: item.dependsOn ?? null,
-}));
-
 router.post(
   '/board-meeting',
   requireAuth(),
@@ -98,8 +95,25 @@ router.post(
         });
       }
 
+      const seats = await listBoardSeats(prisma, tenantId);
+      const unseated = (parsed.data.agenda ?? [])
+        .map((section) => section.personaId)
+        .filter((personaId) => !seats.some((seat) => seat.id === personaId));
+
+      if (unseated.length) {
+        await cleanup();
+        return res.status(400).json({
+          error: {
+            code: 'INVALID_AGENDA',
+            message: 'Agenda references personas that do not have a seat on this board',
+            details: { personaIds: [...new Set(unseated)] },
+          },
+        });
+      }
+
       const agendaVersion = parsed.data.agendaVersion ?? 1;
-      const normalizedAgenda = normalizeAgenda(parsed.data.agenda);
+      const debateRounds = parsed.data.debateRounds ?? 1;
+      const normalizedAgenda = normalizeAgenda(parsed.data.agenda, seats);
       const agendaDisplay = agendaTemplateToDisplay(normalizedAgenda);
 
       res.writeHead(200, {
@@ -134,6 +148,7 @@ router.post(
           metadata: toInputJson({
             status: 'queued',
             requestedBy: userId,
+            debateRounds,
           }),
         },
       });
@@ -154,6 +169,7 @@ router.post(
         meetingId: meeting.id,
         tenantId,
         agendaVersion,
+        debateRounds,
         agendaSections: normalizedAgenda.length,
       });
 
@@ -174,12 +190,13 @@ router.post(
           userId,
           agenda: normalizedAgenda,
           agendaVersion,
+          debateRounds,
           triggeredBy: userId,
         },
         { removeOnComplete: 50 }
       );
 
-      const personaNameLookup = new Map<string, string>();
+      const personaNameLookup = new Map<string, string>(seats.map((seat) => [seat.id, seat.name]));
 
       const agendaStatus = new Map<string, string>(
         agendaDisplay.map((section) => [section.id, section.status ?? 'pending'])
@@ -256,14 +273,15 @@ router.post(
           for (const turn of personaTurns) {
             lastPersonaSequence = Math.max(lastPersonaSequence, turn.sequence);
 
-            if (!personaNameLookup.has(turn.persona)) {
-              const persona = getPersonaById(turn.persona);
-              personaNameLookup.set(turn.persona, persona?.name ?? turn.persona.toUpperCase());
-            }
-
             const metricsRecord = turn.metrics
               ? parseJsonRecord(turn.metrics)
               : null;
+
+            if (!personaNameLookup.has(turn.persona)) {
+              const persona = getPersonaById(turn.persona);
+              const storedName = typeof metricsRecord?.personaName === 'string' ? metricsRecord.personaName : undefined;
+              personaNameLookup.set(turn.persona, storedName ?? persona?.name ?? turn.persona.toUpperCase());
+            }
             const cachedParsed = metricsRecord?.parsed as PersonaPayload | undefined;
             const parsed = cachedParsed ?? parsePersonaPayload(turn.content);
 
@@ -279,6 +297,9 @@ router.post(
               metrics: parsed.metrics ?? null,
               rawContent: turn.content,
               createdAt: turn.createdAt.toISOString(),
+              round: typeof metricsRecord?.round === 'number' ? metricsRecord.round : 1,
+              agreements: parsed.agreements,
+              dissent: parsed.dissent,
             });
           }
 
@@ -394,15 +415,19 @@ router.post(
 );
 
 function normalizeAgenda(
-  sections?: Array<{
+  sections: Array<{
     id?: string;
     title: string;
-    personaId: 'ceo' | 'cfo' | 'cmo';
+    personaId: string;
     dependsOn?: string | null;
-  }>
+  }> | undefined,
+  seats: Parameters<typeof buildDefaultAgenda>[0]
 ): NormalizedAgendaItem[] {
   if (!sections || sections.length === 0) {
-  return DEFAULT_NORMALIZED_AGENDA.map((section) => ({ ...section }));
+    return buildDefaultAgenda(seats).map((section) => ({
+      ...section,
+      dependsOn: section.dependsOn ?? null,
+    }));
   }
 
   return sections.map((section, index) => ({
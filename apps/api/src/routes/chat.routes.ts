@@ -5,9 +5,19 @@ import { createTenantClient } from '@ocsuite/db';
 import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
 import { apiLogger, sseLogger } from '../utils/logger.js';
-import { streamCompletion, estimateTokens } from '../services/llm/fireworks-client.js';
+import type { LLMToolCall } from '../services/llm/llm-client.js';
 import { buildPersonaPrompt } from '../services/llm/prompt-builder.js';
+import { personaIdSchema, resolveTenantPersona } from '../services/tenant-personas.js';
 import { chatRateLimiter } from '../middleware/rate-limit.js';
+import { enforceQuota } from '../middleware/quota.js';
+import {
+  findPendingToolCalls,
+  isResumable,
+  runChatToolLoop,
+  runPendingToolCalls,
+  type ChatLoopContext,
+  type ChatLoopEvent,
+} from '../services/chat-tools.js';
 
 const router: Router = createRouter();
 
@@ -15,7 +25,11 @@ const chatRateLimiterMiddleware: RequestHandler = process.env.NODE_ENV === 'test
   ? (_req, _res, next) => next()
   : chatRateLimiter;
 
-const personaTypeSchema = z.enum(['ceo', 'cfo', 'cmo', 'cto']);
+// Built-in or custom persona id; whether it is enabled is checked per tenant
+const personaTypeSchema = personaIdSchema;
+
+// Enough history to find the interrupted turn's user message and tool calls
+const RESUME_HISTORY_WINDOW = 30;
 
 const listConversationsQuerySchema = z.object({
   personaType: personaTypeSchema.optional(),
@@ -26,11 +40,17 @@ const createConversationSchema = z.object({
   title: z.string().min(1).max(120).optional(),
 });
 
-const chatRequestSchema = z.object({
-  message: z.string().min(1, 'Message cannot be empty').max(5000, 'Message too long'),
-  conversationId: z.string().uuid().optional(),
-  personaType: personaTypeSchema.optional(),
-});
+const chatRequestSchema = z
+  .object({
+    message: z.string().min(1, 'Message cannot be empty').max(5000, 'Message too long').optional(),
+    conversationId: z.string().uuid().optional(),
+    personaType: personaTypeSchema.optional(),
+    // Continue an interrupted turn (e.g. dropped connection during tool calls)
+    resume: z.boolean().optional(),
+  })
+  .refine((value) => (value.resume ? !!value.conversationId && !value.message : !!value.message), {
+    message: 'Provide a message, or conversationId with resume: true',
+  });
 
 /**
  * GET /c-suite/ceo/conversations
@@ -120,12 +140,23 @@ router.post(
     const db = createTenantClient({ tenantId, userId });
 
     try {
+      const persona = await resolveTenantPersona(db, tenantId, personaType);
+      if (!persona) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'PERSONA_NOT_ENABLED',
+            message: `Persona ${personaType} is not enabled for this tenant`,
+          },
+        });
+      }
+
       const conversation = await db.conversation.create({
         data: {
           tenantId,
           userId,
           personaType,
-          title: title || `Conversation with ${personaType.toUpperCase()}`,
+          title: title || `Conversation with ${persona.name}`,
         },
       });
 
@@ -341,17 +372,21 @@ const fetchPromptContext = async (
  * Chat with the CEO assistant using Server-Sent Events for streaming responses
  *
  * Request body:
- * - message: string (required) - User's message
+ * - message: string (required unless resuming) - User's message
  * - conversationId: string (optional) - UUID of existing conversation
+ * - resume: boolean (optional) - Continue an interrupted turn of conversationId
  *
  * Response:
- * - SSE stream with chunks of the CEO's response
+ * - SSE stream with chunks of the CEO's response. When the persona calls a
+ *   module capability, `tool_progress` events report each call's status
+ *   (running, completed, failed, pending_approval).
  */
 router.post(
   '/chat',
   requireAuth(),
   resolveTenant(),
   chatRateLimiterMiddleware,
+  enforceQuota('tokens'),
   async (req: Request, res: Response) => {
     try {
       // Validate request body
@@ -366,22 +401,32 @@ router.post(
         });
       }
 
-      const { message, conversationId, personaType } = parseResult.data;
+      const { message, conversationId, personaType, resume } = parseResult.data;
       const tenantId = req.tenantId!;
       const userId = req.clerkId!;
-      const targetPersona = personaType ?? 'ceo';
+      let targetPersona = personaType ?? 'ceo';
 
       apiLogger.info('Chat request received', {
         tenantId,
         userId,
         conversationId,
-        messageLength: message.length,
+        messageLength: message?.length ?? 0,
+        resume: resume ?? false,
       });
 
       // Get tenant-scoped database client
       const db = createTenantClient({ tenantId, userId });
 
       try {
+        let persona = await resolveTenantPersona(db, tenantId, targetPersona);
+        if (!persona) {
+          return res.status(400).json({
+            error: 'Validation Error',
+            message: `Persona ${targetPersona} is not enabled for this tenant`,
+            code: 'PERSONA_NOT_ENABLED',
+          });
+        }
+
         // Find or create conversation
         let conversation;
         if (conversationId) {
@@ -403,7 +448,7 @@ router.post(
               tenantId,
               userId,
               personaType: targetPersona,
-              title: message.slice(0, 80),
+              title: message!.slice(0, 80),
             },
           });
 
@@ -415,34 +460,50 @@ router.post(
           });
         }
 
-        // Save user's message
-        await db.message.create({
-          data: {
-            conversationId: conversation.id,
-            tenantId,
-            role: 'user',
-            content: message,
-            metadata: { personaType: targetPersona },
-          },
-        });
+        let promptMessage = message ?? '';
+        let pendingToolCalls: LLMToolCall[] = [];
+
+        if (resume) {
+          // Rebuild the interrupted turn from persisted messages
+          const history = (
+            await db.message.findMany({
+              where: { conversationId: conversation.id, tenantId },
+              orderBy: { createdAt: 'desc' },
+              take: RESUME_HISTORY_WINDOW,
+            })
+          ).reverse();
+
+          if (!isResumable(history)) {
+            return res.status(409).json({
+              error: 'Conflict',
+              message: 'Conversation has no interrupted turn to resume',
+              code: 'NOTHING_TO_RESUME',
+            });
+          }
 
-        // Fetch context for prompt building
-        const promptContext = await fetchPromptContext(
-          tenantId,
-          userId,
-          conversation.id
-        );
-
-        // Build prompt with context
-        const promptMessages = await buildPersonaPrompt(
-          message,
-          {
-            ...promptContext,
-            tenantId,
-            userId,
-          },
-          targetPersona
-        );
+          targetPersona = conversation.personaType;
+          persona = await resolveTenantPersona(db, tenantId, targetPersona);
+          if (!persona) {
+            return res.status(400).json({
+              error: 'Validation Error',
+              message: `Persona ${targetPersona} is not enabled for this tenant`,
+              code: 'PERSONA_NOT_ENABLED',
+            });
+          }
+          pendingToolCalls = findPendingToolCalls(history);
+          promptMessage = [...history].reverse().find((msg) => msg.role === 'user')?.content ?? '';
+        } else {
+          // Save user's message
+          await db.message.create({
+            data: {
+              conversationId: conversation.id,
+              tenantId,
+              role: 'user',
+              content: promptMessage,
+              metadata: { personaType: targetPersona },
+            },
+          });
+        }
 
         // Set up SSE headers
         res.setHeader('Content-Type', 'text/event-stream');
@@ -456,14 +517,46 @@ router.post(
           data: {
             conversationId: conversation.id,
             personaType: targetPersona,
+            resumed: resume ?? false,
           },
         })}\n\n`);
 
         sseLogger.info('Started SSE stream', {
           conversationId: conversation.id,
           tenantId,
+          resume: resume ?? false,
         });
 
+        const loopContext: ChatLoopContext = {
+          db,
+          tenantId,
+          userId,
+          conversationId: conversation.id,
+          personaType: targetPersona,
+        };
+
+        const emit = (event: ChatLoopEvent) => {
+          if (event.type === 'chunk') {
+            res.write(`data: ${JSON.stringify({
+              type: 'chunk',
+              data: {
+                content: event.content,
+                conversationId: conversation.id,
+              },
+            })}\n\n`);
+            return;
+          }
+
+          const { type, ...data } = event;
+          res.write(`data: ${JSON.stringify({
+            type,
+            data: {
+              ...data,
+              conversationId: conversation.id,
+            },
+          })}\n\n`);
+        };
+
         // Provide a deterministic response in test environments to avoid external dependencies
         if (process.env.NODE_ENV === 'test') {
           const mockContent = 'This is a mocked strategic summary for testing.';
@@ -512,44 +605,44 @@ router.post(
           return;
         }
 
-        // Stream LLM response
-        let fullResponse = '';
-        let inputTokens = 0;
-        let outputTokens = 0;
-
         try {
-          // Estimate input tokens
-          inputTokens = estimateTokens(
-            promptMessages.map(m => m.content).join(' ')
-          );
+          if (pendingToolCalls.length) {
+            await runPendingToolCalls(pendingToolCalls, loopContext, emit);
+          }
 
-          for await (const chunk of streamCompletion({
-            messages: promptMessages,
+          // Fetch context for prompt building
+          const promptContext = await fetchPromptContext(
             tenantId,
             userId,
-          })) {
-            if (chunk.done) {
-              res.write(`data: ${JSON.stringify({
-                type: 'done',
-                data: {
-                  conversationId: conversation.id,
-                },
-              })}\n\n`);
-              break;
-            }
+            conversation.id
+          );
 
-            fullResponse += chunk.content;
-            res.write(`data: ${JSON.stringify({
-              type: 'chunk',
-              data: {
-                content: chunk.content,
-                conversationId: conversation.id,
-              },
-            })}\n\n`);
-          }
+          // Build prompt with context
+          const promptMessages = await buildPersonaPrompt(
+            promptMessage,
+            {
+              ...promptContext,
+              tenantId,
+              userId,
+            },
+            targetPersona,
+            { appendUserMessage: !resume, persona }
+          );
 
-          // Estimate output tokens
-          outputTokens = estimateTokens(fullResponse);
+          // Stream the answer, letting the persona call module tools first.
+          // Token usage is charged to the tenant by the LLM client itself.
+          const result = await runChatToolLoop({
+            context: loopContext,
+            messages: promptMessages,
+            emit,
+          });
+
+          res.write(`data: ${JSON.stringify({
+            type: 'done',
+            data: {
+              conversationId: conversation.id,
+            },
+          })}\n\n`);
 
           // Save assistant message with token metadata
           await db.message.create({
@@ -557,15 +650,13 @@ router.post(
               conversationId: conversation.id,
               tenantId,
               role: 'assistant',
-              content: fullResponse,
+              content: result.content,
               metadata: {
-                model: 'qwen2p5-72b-instruct',
+                model: result.model ?? null,
+                provider: result.provider ?? null,
                 personaType: targetPersona,
-                tokens: {
-                  input: inputTokens,
-                  output: outputTokens,
-                  total: inputTokens + outputTokens,
-                },
+                toolRounds: result.toolRounds,
+                tokens: result.tokens,
               },
             },
           });
@@ -584,11 +675,8 @@ router.post(
           sseLogger.info('Completed SSE stream', {
             conversationId: conversation.id,
             tenantId,
-            tokens: {
-              input: inputTokens,
-              output: outputTokens,
-              total: inputTokens + outputTokens,
-            },
+            toolRounds: result.toolRounds,
+            tokens: result.tokens,
           });
         } catch (streamError) {
           apiLogger.error('Error during LLM streaming', {
@@ -597,10 +685,15 @@ router.post(
             conversationId: conversation.id,
           });
 
-          // Send error event to client
+          // Send error event to client; tool progress so far is persisted,
+          // so the client can retry with resume: true
           res.write(`data: ${JSON.stringify({
             type: 'error',
             error: 'Failed to generate response. Please try again.',
+            data: {
+              conversationId: conversation.id,
+              resumable: true,
+            },
           })}\n\n`);
           res.end();
         }
@@ -3,14 +3,24 @@ import type { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { randomBytes } from 'crypto';
 import { createTenantClient } from '@ocsuite/db';
-import { encryptForTenant, getCurrentKeyVersion } from '@ocsuite/crypto';
+import { decryptForTenantWithVersion, encryptForTenant, getCurrentKeyVersion } from '@ocsuite/crypto';
 import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole, TENANT_ADMIN_ROLES } from '../middleware/roles.js';
 import { enqueueSyncConnector } from '../queue/client.js';
 import { getRedisConnection } from '../queue/index.js';
 import { apiLogger } from '../utils/logger.js';
 import { config } from '../config/index.js';
 import { enqueueSyncAnalytics } from '../queue/client.js';
+import {
+  CONNECTOR_PROVIDER_IDS,
+  exchangeConnectorCode,
+  getConnectorProvider,
+  isConnectorProviderConfigured,
+} from '../services/connectors/providers/index.js';
+import { toInputJson } from '../utils/json.js';
+import { buildConnectorHealth } from '../services/connectors/connector-health.js';
+import { recordConnectorAuditEvent } from '../services/connectors/connector-audit.js';
 
 const router: Router = createRouter();
 
@@ -22,7 +32,7 @@ const OAUTH_STATE_EXPIRY_SECONDS = 15 * 60;
 /**
  * Supported OAuth providers
  */
-const SUPPORTED_PROVIDERS = ['google'] as const;
+const SUPPORTED_PROVIDERS = CONNECTOR_PROVIDER_IDS;
 type Provider = typeof SUPPORTED_PROVIDERS[number];
 
 /**
@@ -39,29 +49,33 @@ const callbackQuerySchema = z.object({
   error_description: z.string().optional(),
 });
 
-const googleTokenResponseSchema = z.object({
-  access_token: z.string(),
-  refresh_token: z.string().optional(),
-  expires_in: z.number(),
-  token_type: z.string(),
-  scope: z.string().optional(),
-});
+/**
+ * Decrypts a connector's stored refresh token; an unreadable token is
+ * dropped so the reconnect still succeeds.
+ */
+function readRefreshToken(
+  connector: { encryptedRefreshToken: string | null; encryptionKeyVersion: number | null },
+  tenantId: string
+): string | null {
+  if (!connector.encryptedRefreshToken) {
+    return null;
+  }
 
-const googleAccountsResponseSchema = z.object({
-  accountSummaries: z
-    .array(
-      z.object({
-        propertySummaries: z
-          .array(
-            z.object({
-              property: z.string(),
-            })
-          )
-          .optional(),
-      })
-    )
-    .optional(),
-});
+  try {
+    return decryptForTenantWithVersion(
+      connector.encryptedRefreshToken,
+      tenantId,
+      'connector-tokens',
+      connector.encryptionKeyVersion ?? 1
+    );
+  } catch (error) {
+    apiLogger.warn('Discarding unreadable connector refresh token', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
 
 /**
  * OAuth state data stored in Redis
@@ -73,17 +87,6 @@ interface OAuthState {
   createdAt: string;
 }
 
-/**
- * Mock token exchange response (in production, call actual OAuth provider)
- */
-interface TokenResponse {
-  access_token: string;
-  refresh_token?: string;
-  expires_in: number;
-  token_type: string;
-  scope?: string;
-}
-
 /**
  * GET /connectors
  *
@@ -114,14 +117,30 @@ router.get(
           createdAt: true,
           updatedAt: true,
           metadata: true,
+          tokenExpiresAt: true,
+          lastError: true,
+          lastErrorAt: true,
+          lastRefreshedAt: true,
+          refreshFailureCount: true,
           // Don't include encrypted tokens in the response
         },
       });
 
       await db.$disconnect();
 
+      const now = new Date();
+
       return res.status(200).json({
-        connectors,
+        connectors: connectors.map((connector) => ({
+          id: connector.id,
+          provider: connector.provider,
+          status: connector.status,
+          lastSyncedAt: connector.lastSyncedAt,
+          createdAt: connector.createdAt,
+          updatedAt: connector.updatedAt,
+          metadata: connector.metadata,
+          health: buildConnectorHealth(connector, now),
+        })),
         count: connectors.length,
       });
 
@@ -146,12 +165,14 @@ router.get(
  * POST /connectors/:provider/authorize
  *
  * Initiate OAuth flow for a connector provider
- * Generates a state token, stores it in Redis, and returns the authorization URL
+ * Generates a state token, stores it in Redis, and returns the authorization URL.
+ * Requires owner or admin role.
  */
 router.post(
   '/:provider/authorize',
   requireAuth(),
   resolveTenant(),
+  requireRole(TENANT_ADMIN_ROLES, 'Managing connectors'),
   async (req: Request, res: Response) => {
     try {
       // Validate provider parameter
@@ -169,6 +190,15 @@ router.post(
       const { provider } = paramParseResult.data;
       const tenantId = req.tenantId!;
       const userId = req.clerkId!;
+      const definition = getConnectorProvider(provider);
+
+      if (config.nodeEnv === 'production' && !isConnectorProviderConfigured(definition)) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: `${definition.label} is not configured on this server`,
+          code: 'PROVIDER_NOT_CONFIGURED',
+        });
+      }
 
       apiLogger.info('Initiating OAuth authorization', {
         provider,
@@ -201,45 +231,7 @@ router.post(
         expirySeconds: OAUTH_STATE_EXPIRY_SECONDS,
       });
 
-      // Build authorization URL based on provider
-      let authorizationUrl: string;
-
-      switch (provider) {
-        case 'google': {
-          const googleClientId = config.googleClientId || 'demo-client-id';
-          const googleRedirectUri =
-            config.googleRedirectUri ||
-            `http://localhost:${config.port}/connectors/google/callback`;
-
-          // Google Analytics scopes for Phase 2
-          const googleScopes = [
-            'https://www.googleapis.com/auth/analytics.readonly',
-            'https://www.googleapis.com/auth/userinfo.email',
-            'https://www.googleapis.com/auth/userinfo.profile',
-          ].join(' ');
-
-          const googleParams = new URLSearchParams({
-            client_id: googleClientId,
-            redirect_uri: googleRedirectUri,
-            response_type: 'code',
-            scope: googleScopes,
-            access_type: 'offline',
-            prompt: 'consent',
-            state,
-            include_granted_scopes: 'true',
-          });
-
-          authorizationUrl = `https://accounts.google.com/o/oauth2/v2/auth?${googleParams.toString()}`;
-          break;
-        }
-
-        default:
-          return res.status(400).json({
-            error: 'Bad Request',
-            message: `Provider ${provider} not yet implemented`,
-            code: 'PROVIDER_NOT_IMPLEMENTED',
-          });
-      }
+      const authorizationUrl = definition.buildAuthorizationUrl(state);
 
       return res.status(200).json({
         authorizationUrl,
@@ -366,63 +358,95 @@ router.get(
       });
 
       // Exchange authorization code for tokens
-      // In production, this would make a real HTTP request to the OAuth provider
-      // For demo purposes, we'll mock the response
-      const tokens: TokenResponse = await exchangeCodeForTokens(provider, code);
+      const definition = getConnectorProvider(provider);
+      const tokens = await exchangeConnectorCode(definition, code);
 
       apiLogger.info('Exchanged code for tokens', {
         provider,
         tenantId,
-        hasRefreshToken: !!tokens.refresh_token,
-        expiresIn: tokens.expires_in,
+        hasRefreshToken: !!tokens.refreshToken,
+        expiresIn: tokens.expiresIn,
       });
 
-      // Fetch Google Analytics property ID if applicable
-      let analyticsPropertyId: string | null = null;
-      if (provider === 'google') {
-        analyticsPropertyId = await fetchGoogleAnalyticsProperty(tokens.access_token);
-        if (analyticsPropertyId) {
-          apiLogger.info('Fetched Google Analytics property', {
-            propertyId: analyticsPropertyId,
+      // Account details (GA property, Slack team, Notion workspace, ...) are
+      // informational; a failed lookup should not fail the connection
+      let accountMetadata: Record<string, unknown> = {};
+      if (definition.describeAccount) {
+        try {
+          accountMetadata = await definition.describeAccount(tokens);
+        } catch (describeError) {
+          apiLogger.warn('Failed to describe connector account', {
+            provider,
             tenantId,
+            error: describeError instanceof Error ? describeError.message : 'Unknown error',
           });
         }
       }
 
+      const analyticsPropertyId =
+        typeof accountMetadata.propertyId === 'string' ? accountMetadata.propertyId : null;
+      if (analyticsPropertyId) {
+        apiLogger.info('Fetched Google Analytics property', {
+          propertyId: analyticsPropertyId,
+          tenantId,
+        });
+      }
+
       // Encrypt tokens using tenant-specific encryption
       const encryptedAccessToken = encryptForTenant(
-        tokens.access_token,
+        tokens.accessToken,
         tenantId,
         'connector-tokens'
       );
 
-      const encryptedRefreshToken = tokens.refresh_token
-        ? encryptForTenant(tokens.refresh_token, tenantId, 'connector-tokens')
+      // Store connector in database; reconnecting replaces the previous grant
+      const db = createTenantClient({ tenantId, userId });
+
+      const previous = await db.connector.findUnique({
+        where: { tenantId_provider: { tenantId, provider } },
+        select: { id: true, encryptedRefreshToken: true, encryptionKeyVersion: true },
+      });
+
+      // Providers usually only issue a refresh token on first consent, so a
+      // reconnect keeps the existing one, re-encrypted under the current key
+      const refreshToken = tokens.refreshToken ?? (previous ? readRefreshToken(previous, tenantId) : null);
+      const encryptedRefreshToken = refreshToken
+        ? encryptForTenant(refreshToken, tenantId, 'connector-tokens')
         : null;
 
-      // Store connector in database
-      const db = createTenantClient({ tenantId, userId });
+      const connectorData = {
+        status: 'pending' as const,
+        encryptedAccessToken,
+        encryptedRefreshToken,
+        encryptionKeyVersion: getCurrentKeyVersion(),
+        tokenExpiresAt: tokens.expiresIn !== null ? new Date(Date.now() + tokens.expiresIn * 1000) : null,
+        scopes: tokens.scopes,
+        refreshFailureCount: 0,
+        metadata: toInputJson({
+          tokenType: tokens.tokenType,
+          ...accountMetadata,
+        }),
+      };
 
-      const connector = await db.connector.create({
-        data: {
-          tenantId,
-          provider,
-          status: 'pending',
-          encryptedAccessToken,
-          encryptedRefreshToken,
-          encryptionKeyVersion: getCurrentKeyVersion(),
-          tokenExpiresAt: new Date(Date.now() + tokens.expires_in * 1000),
-          scopes: tokens.scope?.split(' ') || [],
-          metadata: {
-            tokenType: tokens.token_type,
-            propertyId: analyticsPropertyId,
-          },
-        },
+      const connector = await db.connector.upsert({
+        where: { tenantId_provider: { tenantId, provider } },
+        create: { tenantId, provider, ...connectorData },
+        update: connectorData,
+      });
+
+      await recordConnectorAuditEvent(db, {
+        tenantId,
+        connectorId: connector.id,
+        provider,
+        event: previous ? 'reconnected' : 'connected',
+        actorId: userId,
+        summary: `${definition.label} ${previous ? 'reconnected' : 'connected'}`,
+        metadata: { scopes: tokens.scopes },
       });
 
       await db.$disconnect();
 
-      apiLogger.info('Created connector in database', {
+      apiLogger.info('Saved connector in database', {
         connectorId: connector.id,
         provider,
         tenantId,
@@ -486,126 +510,4 @@ router.get(
   }
 );
 
-/**
- * Exchange authorization code for tokens with real OAuth provider
- */
-async function exchangeCodeForTokens(
-  provider: Provider,
-  code: string
-): Promise<TokenResponse> {
-  if (provider === 'google') {
-    const googleClientId = config.googleClientId;
-    const googleClientSecret = config.googleClientSecret;
-    const googleRedirectUri = config.googleRedirectUri ||
-      `http://localhost:${config.port}/connectors/google/callback`;
-
-    // If no client credentials configured, return mock tokens
-    if (!googleClientId || !googleClientSecret) {
-      apiLogger.warn('Google OAuth credentials not configured, using mock tokens');
-      await new Promise(resolve => setTimeout(resolve, 100));
-      return {
-        access_token: `mock_access_token_${code}_${Date.now()}`,
-        refresh_token: `mock_refresh_token_${code}_${Date.now()}`,
-        expires_in: 3600,
-        token_type: 'Bearer',
-        scope: 'https://www.googleapis.com/auth/analytics.readonly https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile',
-      };
-    }
-
-    // Real token exchange
-    const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        code,
-        client_id: googleClientId,
-        client_secret: googleClientSecret,
-        redirect_uri: googleRedirectUri,
-        grant_type: 'authorization_code',
-      }),
-    });
-
-    if (!tokenResponse.ok) {
-      const errorData = await tokenResponse.json().catch(() => null);
-      const errorDescription =
-        typeof errorData === 'object' &&
-        errorData !== null &&
-        'error_description' in errorData &&
-        typeof (errorData as Record<string, unknown>).error_description === 'string'
-          ? (errorData as Record<string, unknown>).error_description
-          : tokenResponse.statusText;
-      throw new Error(`Google token exchange failed: ${errorDescription}`);
-    }
-
-    const tokenData = googleTokenResponseSchema.parse(await tokenResponse.json());
-    return {
-      access_token: tokenData.access_token,
-      refresh_token: tokenData.refresh_token,
-      expires_in: tokenData.expires_in,
-      token_type: tokenData.token_type,
-      scope: tokenData.scope,
-    };
-  }
-
-  // Fallback for unsupported providers
-  throw new Error(`Token exchange not implemented for provider: ${provider}`);
-}
-
-/**
- * Fetch Google Analytics property ID for the authenticated user
- */
-async function fetchGoogleAnalyticsProperty(accessToken: string): Promise<string | null> {
-  try {
-    // Fetch Analytics accounts
-    const accountsResponse = await fetch(
-      'https://analyticsadmin.googleapis.com/v1beta/accountSummaries',
-      {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    if (!accountsResponse.ok) {
-      apiLogger.warn('Failed to fetch Google Analytics accounts', {
-        status: accountsResponse.status,
-      });
-      return null;
-    }
-
-    const accountsData = googleAccountsResponseSchema.parse(
-      await accountsResponse.json()
-    );
-
-    const accountSummaries = accountsData.accountSummaries ?? [];
-    if (accountSummaries.length === 0) {
-      return null;
-    }
-
-    const firstAccount = accountSummaries[0];
-    if (!firstAccount) {
-      return null;
-    }
-
-    const propertySummaries = firstAccount.propertySummaries ?? [];
-    if (propertySummaries.length === 0) {
-      return null;
-    }
-
-    const propertyName = propertySummaries[0]?.property;
-    if (typeof propertyName !== 'string') {
-      return null;
-    }
-
-    const [, propertyId] = propertyName.split('/');
-    return propertyId ?? null;
-  } catch (error) {
-    apiLogger.error('Error fetching Google Analytics property', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-    return null;
-  }
-}
-
 export default router;
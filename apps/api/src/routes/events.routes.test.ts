@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import request from 'supertest';
+import type { TenantEvent } from '@ocsuite/types';
+
+type MockRequest = Request & { clerkId?: string; tenantId?: string };
+type Listener = (event: TenantEvent) => void;
+
+const { mockFindUser, mockSubscribe, mockUnsubscribe } = vi.hoisted(() => ({
+  mockFindUser: vi.fn(),
+  mockSubscribe: vi.fn(),
+  mockUnsubscribe: vi.fn(),
+}));
+
+vi.mock('@ocsuite/db', () => ({
+  createTenantClient: vi.fn(() => ({
+    user: { findUnique: mockFindUser },
+    $disconnect: vi.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+vi.mock('../middleware/auth.js', () => ({
+  requireAuth: () => (req: MockRequest, _res: Response, next: NextFunction) => {
+    req.clerkId = 'clerk-123';
+    next();
+  },
+}));
+
+vi.mock('../middleware/tenant.js', () => ({
+  resolveTenant: () => (req: MockRequest, _res: Response, next: NextFunction) => {
+    req.tenantId = 'tenant-123';
+    next();
+  },
+}));
+
+vi.mock('../utils/logger.js', () => ({
+  apiLogger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+  sseLogger: { info: vi.fn(), error: vi.fn() },
+  createContextLogger: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+}));
+
+vi.mock('../services/tenant-events.js', async () => {
+  const actual = await vi.importActual<typeof import('../services/tenant-events.js')>(
+    '../services/tenant-events.js'
+  );
+  return {
+    isEventVisibleTo: actual.isEventVisibleTo,
+    subscribeToTenantEvents: mockSubscribe,
+  };
+});
+
+import eventsRoutes from './events.routes.js';
+
+function buildEvent(type: TenantEvent['type'], data: unknown, userId?: string): TenantEvent {
+  return {
+    id: `evt-${type}`,
+    type,
+    tenantId: 'tenant-123',
+    ...(userId ? { userId } : {}),
+    occurredAt: new Date().toISOString(),
+    data,
+  } as TenantEvent;
+}
+
+describe('GET /events', () => {
+  let app: express.Express;
+  let server: Server | null = null;
+  let listener: Listener | null = null;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    listener = null;
+    mockFindUser.mockResolvedValue({ id: 'user-1' });
+    mockUnsubscribe.mockResolvedValue(undefined);
+    mockSubscribe.mockImplementation(async (_tenantId: string, registered: Listener) => {
+      listener = registered;
+      return mockUnsubscribe;
+    });
+
+    app = express();
+    app.use('/events', eventsRoutes);
+  });
+
+  afterEach(async () => {
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  it('streams tenant events visible to the caller and unsubscribes on disconnect', async () => {
+    server = app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    const controller = new AbortController();
+
+    const response = await fetch(`http://127.0.0.1:${port}/events`, { signal: controller.signal });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const messages: Array<{ type: string; data?: unknown }> = [];
+    let buffer = '';
+
+    const readUntil = async (count: number) => {
+      while (messages.length < count) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const raw = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          if (raw.startsWith('data: ')) {
+            messages.push(JSON.parse(raw.slice(6)));
+          }
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+    };
+
+    await readUntil(1);
+    expect(messages[0]).toMatchObject({ type: 'connected' });
+    expect(mockSubscribe).toHaveBeenCalledWith('tenant-123', expect.any(Function));
+
+    listener!(buildEvent('notification.created', { type: 'alert.triggered' }, 'user-2'));
+    listener!(buildEvent('notification.created', { type: 'alert.triggered' }, 'user-1'));
+    listener!(
+      buildEvent('video-job.updated', { id: 'job-1', type: 'render', status: 'processing', progress: 30 })
+    );
+
+    await readUntil(3);
+    expect(messages.slice(1)).toEqual([
+      expect.objectContaining({ type: 'notification.created', userId: 'user-1' }),
+      expect.objectContaining({ type: 'video-job.updated', data: expect.objectContaining({ progress: 30 }) }),
+    ]);
+
+    controller.abort();
+    await vi.waitFor(() => expect(mockUnsubscribe).toHaveBeenCalledTimes(1));
+  });
+
+  it('returns 404 when the caller has no user record', async () => {
+    mockFindUser.mockResolvedValueOnce(null);
+
+    const response = await request(app).get('/events');
+
+    expect(response.status).toBe(404);
+    expect(response.body).toMatchObject({ error: 'not_found' });
+    expect(mockSubscribe).not.toHaveBeenCalled();
+  });
+});
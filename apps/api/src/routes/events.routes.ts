@@ -0,0 +1,128 @@
+import { Router as createRouter } from 'express';
+import type { Router, Request, Response } from 'express';
+import { createTenantClient } from '@ocsuite/db';
+import type { TenantEvent } from '@ocsuite/types';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { isEventVisibleTo, subscribeToTenantEvents } from '../services/tenant-events.js';
+import { apiLogger, sseLogger } from '../utils/logger.js';
+
+const router: Router = createRouter();
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * GET /events
+ *
+ * Server-Sent Events stream of the tenant's live updates: new notifications
+ * for the caller, alert changes, task status, approval decisions and video
+ * job progress. Each message is a `TenantEvent` JSON envelope on a `data:`
+ * line; a `connected` envelope is sent first so clients can resync state
+ * they may have missed while disconnected.
+ */
+router.get('/', requireAuth(), resolveTenant(), async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const clerkId = req.clerkId!;
+
+  let userId: string;
+  const db = createTenantClient({ tenantId, userId: clerkId });
+  try {
+    const user = await db.user.findUnique({
+      where: { clerkId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'User not found',
+      });
+    }
+
+    userId = user.id;
+  } catch (error) {
+    apiLogger.error('Failed to resolve user for event stream', {
+      tenantId,
+      clerkId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to open event stream',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  let closed = false;
+  let unsubscribe: (() => Promise<void>) | null = null;
+
+  const send = (event: TenantEvent | { type: 'connected'; occurredAt: string }) => {
+    if (closed || res.writableEnded) {
+      return;
+    }
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const heartbeatTimer = setInterval(() => {
+    if (!closed) {
+      res.write(': heartbeat\n\n');
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const cleanup = async () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeatTimer);
+
+    try {
+      await unsubscribe?.();
+    } catch (error) {
+      sseLogger.error('Failed to unsubscribe event stream', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    sseLogger.info('Event stream closed', { tenantId, userId });
+  };
+
+  req.on('close', () => {
+    void cleanup();
+  });
+
+  try {
+    const stop = await subscribeToTenantEvents(tenantId, (event) => {
+      if (isEventVisibleTo(event, userId)) {
+        send(event);
+      }
+    });
+
+    // The client went away while the subscription was being set up
+    if (closed) {
+      await stop();
+      return;
+    }
+    unsubscribe = stop;
+  } catch (error) {
+    sseLogger.error('Failed to subscribe to tenant events', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    await cleanup();
+    res.end();
+    return;
+  }
+
+  sseLogger.info('Event stream opened', { tenantId, userId });
+  send({ type: 'connected', occurredAt: new Date().toISOString() });
+});
+
+export default router;
@@ -9,7 +9,7 @@ import type {
 } from '@ocsuite/types';
 import { prisma } from '@ocsuite/db';
 
-import { KnowledgeResolver } from '../services/knowledge-resolver.js';
+import { KnowledgeResolver, type KnowledgeSearchMode } from '../services/knowledge-resolver.js';
 import { KnowledgeIngestService } from '../services/knowledge-ingest.js';
 import {
   KnowledgeAdminService,
@@ -19,11 +19,13 @@ import { generateEmbeddings } from '../services/llm/embedding-client.js';
 import { apiLogger } from '../utils/logger.js';
 import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole, TENANT_ADMIN_ROLES } from '../middleware/roles.js';
 
 const router: Router = createRouter();
 
 const RETENTION_POLICIES = ['retain_indefinitely', 'rolling_90_days', 'manual_purge'] as const satisfies readonly KnowledgeRetentionPolicy[];
 const STORAGE_STRATEGIES = ['managed_postgres', 'external_s3'] as const satisfies readonly KnowledgeStorageStrategy[];
+const SEARCH_MODES: readonly KnowledgeSearchMode[] = ['vector', 'hybrid'];
 
 const uploadSchema = z.object({
   filename: z.string().min(1),
@@ -53,6 +55,14 @@ const sourceIdParamSchema = z.object({
   id: z.string().min(1),
 });
 
+const searchSettingsSchema = z.object({
+  keywordIndex: z.boolean(),
+});
+
+// The keyword index keeps plaintext lexemes outside the encrypted content, so
+// only owners and admins may turn it on.
+const requireKnowledgeAdmin = requireRole(TENANT_ADMIN_ROLES, 'Changing knowledge settings');
+
 function sanitizeFileName(value: string, fallback: string): string {
   const base = value
     .normalize('NFKD')
@@ -67,6 +77,57 @@ function padIndex(index: number): string {
   return index.toString().padStart(3, '0');
 }
 
+router.get(
+  '/settings',
+  requireAuth(),
+  resolveTenant(),
+  async (req: Request, res: Response) => {
+    try {
+      const admin = new KnowledgeAdminService({ prisma, tenantId: req.tenantId! });
+      const settings = await admin.getSearchSettings();
+      res.status(200).json({ settings });
+    } catch (error) {
+      apiLogger.error('Failed to load knowledge settings', {
+        tenantId: req.tenantId,
+        userId: req.clerkId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      res.status(500).json({ error: 'Failed to load knowledge settings' });
+    }
+  },
+);
+
+router.put(
+  '/settings',
+  requireAuth(),
+  resolveTenant(),
+  requireKnowledgeAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = searchSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid request', details: parsed.error.flatten() });
+      return;
+    }
+
+    try {
+      const admin = new KnowledgeAdminService({
+        prisma,
+        tenantId: req.tenantId!,
+        actorId: req.clerkId ?? undefined,
+      });
+      const settings = await admin.updateSearchSettings(parsed.data);
+      res.status(200).json({ settings });
+    } catch (error) {
+      apiLogger.error('Failed to update knowledge settings', {
+        tenantId: req.tenantId,
+        userId: req.clerkId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      res.status(500).json({ error: 'Failed to update knowledge settings' });
+    }
+  },
+);
+
 router.get(
   '/sources',
   requireAuth(),
@@ -389,12 +450,34 @@ router.post(
       embedding,
       persona,
       sourceIds,
+      mode,
+      keywordWeight,
       limit = 8,
     } = req.body ?? {};
 
     const tenantId = req.tenantId ?? null;
     const userId = req.clerkId ?? undefined;
 
+    if (mode !== undefined && !SEARCH_MODES.includes(mode)) {
+      res.status(400).json({ error: `mode must be one of: ${SEARCH_MODES.join(', ')}` });
+      return;
+    }
+    const searchMode: KnowledgeSearchMode = mode ?? 'vector';
+
+    if (
+      keywordWeight !== undefined &&
+      (typeof keywordWeight !== 'number' || !Number.isFinite(keywordWeight) || keywordWeight < 0 || keywordWeight > 1)
+    ) {
+      res.status(400).json({ error: 'keywordWeight must be a number between 0 and 1' });
+      return;
+    }
+
+    const queryText = typeof query === 'string' ? query.trim() : '';
+    if (searchMode === 'hybrid' && !queryText) {
+      res.status(400).json({ error: 'Query text is required for hybrid search' });
+      return;
+    }
+
     const sourceIdFilter = Array.isArray(sourceIds)
       ? sourceIds.filter((value: unknown): value is string => typeof value === 'string' && value.length > 0)
       : undefined;
@@ -407,30 +490,40 @@ router.post(
     }
 
     if (!vector) {
-      if (!query || typeof query !== 'string') {
+      if (!queryText) {
         res.status(400).json({ error: 'Either embedding array or query text is required' });
         return;
       }
 
       try {
         const embeddings = await generateEmbeddings({
-          inputs: [query],
+          inputs: [queryText],
           tenantId,
           userId,
         });
         [vector] = embeddings.vectors;
       } catch (error) {
-        apiLogger.error('Embedding generation failed for knowledge search', {
+        if (searchMode !== 'hybrid') {
+          apiLogger.error('Embedding generation failed for knowledge search', {
+            tenantId: tenantId ?? 'hq',
+            userId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          res.status(500).json({ error: 'Embedding generation failed' });
+          return;
+        }
+
+        // Hybrid search can still answer from the keyword index alone.
+        apiLogger.warn('Embedding generation failed; falling back to keyword-only hybrid search', {
           tenantId: tenantId ?? 'hq',
           userId,
           error: error instanceof Error ? error.message : 'Unknown error',
         });
-        res.status(500).json({ error: 'Embedding generation failed' });
-        return;
+        vector = [];
       }
     }
 
-    if (!vector || !vector.length) {
+    if (searchMode === 'vector' && (!vector || !vector.length)) {
       res.status(200).json({ results: [] });
       return;
     }
@@ -443,17 +536,21 @@ router.post(
       });
 
       const results = await resolver.resolveContext({
-        embedding: vector,
+        embedding: vector ?? [],
+        query: queryText || undefined,
+        mode: searchMode,
+        keywordWeight: typeof keywordWeight === 'number' ? keywordWeight : undefined,
         persona: typeof persona === 'string' ? persona : undefined,
         sourceIds: sourceIdFilter,
         limit: safeLimit,
       });
 
-      res.status(200).json({ results });
+      res.status(200).json({ results, mode: searchMode });
     } catch (error) {
       apiLogger.error('Knowledge search failed', {
         tenantId: tenantId ?? 'hq',
         userId,
+        mode: searchMode,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       res.status(500).json({ error: 'Knowledge search failed' });
@@ -0,0 +1,177 @@
+import { Router as createRouter } from 'express';
+import type { Router } from 'express';
+import { z } from 'zod';
+import type { TenantLlmSetting } from '@ocsuite/db';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole, TENANT_ADMIN_ROLES } from '../middleware/roles.js';
+import { apiLogger } from '../utils/logger.js';
+import { LLM_PROVIDER_IDS, listLLMProviders } from '../services/llm/providers/index.js';
+import {
+  DEFAULT_LLM_SCOPE,
+  deleteTenantLlmSetting,
+  getConfigLLMRoute,
+  listTenantLlmSettings,
+  upsertTenantLlmSetting,
+} from '../services/llm/model-routing.js';
+
+const router: Router = createRouter();
+
+const providerSchema = z.enum(LLM_PROVIDER_IDS);
+
+// "default" or a persona type such as ceo/cfo/cmo/cto
+const scopeSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(64)
+  .regex(/^[a-z0-9_-]+$/, 'Scope must be "default" or a lowercase persona id');
+
+const settingBodySchema = z.object({
+  provider: providerSchema,
+  model: z.string().trim().max(200).nullable().optional(),
+  fallbackProviders: z.array(providerSchema).max(LLM_PROVIDER_IDS.length).optional(),
+});
+
+function serializeSetting(setting: TenantLlmSetting) {
+  return {
+    scope: setting.scope,
+    provider: setting.provider,
+    model: setting.model,
+    fallbackProviders: setting.fallbackProviders,
+    updatedBy: setting.updatedBy,
+    updatedAt: setting.updatedAt.toISOString(),
+  };
+}
+
+// Model settings change where tenant data is sent, so only owners and admins
+// may edit them.
+const requireSettingsAdmin = requireRole(TENANT_ADMIN_ROLES, 'Changing LLM settings');
+
+/**
+ * GET /llm/providers
+ *
+ * Lists the providers this deployment can route to and the config default.
+ */
+router.get('/providers', requireAuth(), resolveTenant(), (_req, res) => {
+  const route = getConfigLLMRoute();
+
+  return res.status(200).json({
+    defaultProvider: route.provider,
+    fallbackProviders: route.fallbackProviders,
+    providers: listLLMProviders().map((provider) => ({
+      id: provider.id,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured(),
+    })),
+  });
+});
+
+/**
+ * GET /llm/settings
+ *
+ * Tenant default and persona-specific model settings.
+ */
+router.get('/settings', requireAuth(), resolveTenant(), async (req, res) => {
+  const tenantId = req.tenantId!;
+
+  try {
+    const settings = await listTenantLlmSettings(tenantId);
+    return res.status(200).json({ settings: settings.map(serializeSetting) });
+  } catch (error) {
+    apiLogger.error('Failed to list LLM settings', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to load LLM settings',
+    });
+  }
+});
+
+/**
+ * PUT /llm/settings/:scope
+ *
+ * Upserts the provider/model for the tenant default or one persona.
+ */
+router.put('/settings/:scope', requireAuth(), resolveTenant(), requireSettingsAdmin, async (req, res) => {
+  const tenantId = req.tenantId!;
+
+  const parsedScope = scopeSchema.safeParse(req.params.scope);
+  const parsedBody = settingBodySchema.safeParse(req.body);
+
+  if (!parsedScope.success || !parsedBody.success) {
+    const issues = !parsedScope.success ? parsedScope.error : parsedBody.error!;
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid LLM setting',
+      details: issues.flatten(),
+    });
+  }
+
+  try {
+    const setting = await upsertTenantLlmSetting({
+      tenantId,
+      scope: parsedScope.data,
+      provider: parsedBody.data.provider,
+      model: parsedBody.data.model,
+      fallbackProviders: parsedBody.data.fallbackProviders,
+      updatedBy: req.tenantUserId!,
+    });
+
+    apiLogger.info('LLM setting updated', {
+      tenantId,
+      scope: setting.scope,
+      provider: setting.provider,
+      model: setting.model,
+    });
+
+    return res.status(200).json({ setting: serializeSetting(setting) });
+  } catch (error) {
+    apiLogger.error('Failed to update LLM setting', {
+      tenantId,
+      scope: req.params.scope,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to update LLM setting',
+    });
+  }
+});
+
+/**
+ * DELETE /llm/settings/:scope
+ *
+ * Removes an override so the scope inherits the tenant default (or, for
+ * "default", the deployment config).
+ */
+router.delete('/settings/:scope', requireAuth(), resolveTenant(), requireSettingsAdmin, async (req, res) => {
+  const tenantId = req.tenantId!;
+  const scope = req.params.scope ?? DEFAULT_LLM_SCOPE;
+
+  try {
+    const deleted = await deleteTenantLlmSetting(tenantId, scope);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'LLM setting not found',
+      });
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    apiLogger.error('Failed to delete LLM setting', {
+      tenantId,
+      scope,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to delete LLM setting',
+    });
+  }
+});
+
+export default router;
@@ -1,17 +1,21 @@
 import { Router as createRouter } from 'express';
-import type { Request, Response, Router } from 'express';
+import type { NextFunction, Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
+import { enforceQuota } from '../middleware/quota.js';
 import { apiLogger } from '../utils/logger.js';
 import { config } from '../config/index.js';
 import {
+  countInstalledWidgets,
   installWidgetForTenant,
+  isWidgetInstalledForTenant,
   listWidgetsForTenant,
   registerWidget,
   uninstallWidgetForTenant,
   WidgetNotFoundError,
 } from '../services/marketplace.js';
+import { recordUsage } from '../services/quotas.js';
 import { normalizeWidgetRegistration } from '@ocsuite/module-sdk';
 
 const router: Router = createRouter();
@@ -20,6 +24,42 @@ const installRequestSchema = z.object({
   settings: z.record(z.unknown()).optional(),
 });
 
+const enforceWidgetQuota = enforceQuota('activeWidgets');
+
+/**
+ * Only new installs count against the active widget quota; re-installing to
+ * update settings must keep working at the limit.
+ */
+async function enforceWidgetQuotaForNewInstall(req: Request, res: Response, next: NextFunction) {
+  const { slug } = req.params as { slug?: string };
+
+  try {
+    if (slug && (await isWidgetInstalledForTenant(req.tenantId!, slug))) {
+      return next();
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  return enforceWidgetQuota(req, res, next);
+}
+
+async function recordActiveWidgetUsage(tenantId: string): Promise<void> {
+  try {
+    const activeWidgets = await countInstalledWidgets(tenantId);
+    await recordUsage({
+      tenantId,
+      deltas: { activeWidgets },
+      event: { type: 'marketplace.widgets.changed', payload: { activeWidgets } },
+    });
+  } catch (error) {
+    apiLogger.error('Failed to record active widget usage', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 function isInternalAdmin(req: Request): boolean {
   const expectedKey = config.internalAdminApiKey?.trim();
   if (!expectedKey) {
@@ -94,6 +134,7 @@ router.post(
   '/widgets/:slug/install',
   requireAuth(),
   resolveTenant(),
+  enforceWidgetQuotaForNewInstall,
   async (req: Request, res: Response) => {
     const tenantId = req.tenantId!;
     const clerkId = req.clerkId;
@@ -124,6 +165,8 @@ router.post(
         clerkId,
       });
 
+      await recordActiveWidgetUsage(tenantId);
+
       return res.status(200).json({ widget });
     } catch (error) {
       if (error instanceof WidgetNotFoundError) {
@@ -170,6 +213,8 @@ router.delete(
         clerkId,
       });
 
+      await recordActiveWidgetUsage(tenantId);
+
       return res.status(204).send();
     } catch (error) {
       if (error instanceof WidgetNotFoundError) {
@@ -0,0 +1,199 @@
+import { timingSafeEqual } from 'crypto';
+import { Router as createRouter } from 'express';
+import type { NextFunction, Request, Response, Router } from 'express';
+import { config } from '../config/index.js';
+import {
+  ModuleWorkerNotFoundError,
+  deregisterModuleWorker,
+  listModuleWorkers,
+  moduleWorkerHeartbeatSchema,
+  moduleWorkerRegistrationSchema,
+  recordModuleWorkerHeartbeat,
+  registerModuleWorker,
+} from '../services/module-workers.js';
+import { apiLogger } from '../utils/logger.js';
+
+const router: Router = createRouter();
+
+function tokensMatch(expected: string, candidate: string): boolean {
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const candidateBuffer = Buffer.from(candidate, 'utf8');
+
+  if (expectedBuffer.length !== candidateBuffer.length) {
+    return false;
+  }
+
+  return timingSafeEqual(expectedBuffer, candidateBuffer);
+}
+
+/**
+ * Workers are services rather than users, so they authenticate with the
+ * shared MODULE_WORKER_TOKEN instead of a Clerk session.
+ */
+function requireWorkerToken() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = config.moduleWorkers.token;
+    if (!token) {
+      return res.status(503).json({
+        error: {
+          code: 'MODULE_WORKERS_DISABLED',
+          message: 'Remote module workers are not configured',
+        },
+      });
+    }
+
+    const provided = req.header('x-worker-token');
+    if (!provided || !tokensMatch(token, provided)) {
+      apiLogger.warn('Rejected module worker request with invalid token', {
+        path: req.path,
+        provided: Boolean(provided),
+      });
+      return res.status(401).json({
+        error: {
+          code: 'INVALID_WORKER_TOKEN',
+          message: 'A valid X-Worker-Token header is required',
+        },
+      });
+    }
+
+    next();
+  };
+}
+
+router.use(requireWorkerToken());
+
+/**
+ * POST /module-workers/register
+ *
+ * Advertises a worker's capabilities. Re-registering replaces the previous
+ * registration and marks the worker healthy.
+ */
+router.post('/register', async (req: Request, res: Response) => {
+  const parsed = moduleWorkerRegistrationSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid worker registration',
+        details: parsed.error.flatten(),
+      },
+    });
+  }
+
+  try {
+    const worker = await registerModuleWorker(parsed.data);
+    return res.status(201).json({
+      data: {
+        ...worker,
+        heartbeatIntervalSeconds: Math.floor(config.moduleWorkers.heartbeatTtlSeconds / 3),
+      },
+    });
+  } catch (error) {
+    apiLogger.error('Failed to register module worker', {
+      workerId: parsed.data.workerId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: {
+        code: 'WORKER_REGISTRATION_ERROR',
+        message: 'Failed to register module worker',
+      },
+    });
+  }
+});
+
+/**
+ * POST /module-workers/:workerId/heartbeat
+ *
+ * Body is a HealthCheckResponse. `unhealthy` drains the worker until it
+ * reports `healthy` or `degraded` again.
+ */
+router.post('/:workerId/heartbeat', async (req: Request, res: Response) => {
+  const workerId = req.params.workerId!;
+  const parsed = moduleWorkerHeartbeatSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid health check response',
+        details: parsed.error.flatten(),
+      },
+    });
+  }
+
+  try {
+    const worker = await recordModuleWorkerHeartbeat(workerId, parsed.data);
+    return res.json({ data: worker });
+  } catch (error) {
+    if (error instanceof ModuleWorkerNotFoundError) {
+      // Tells the worker to register again, e.g. after it was deregistered
+      return res.status(404).json({
+        error: { code: 'WORKER_NOT_REGISTERED', message: error.message },
+      });
+    }
+
+    apiLogger.error('Failed to record module worker heartbeat', {
+      workerId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: {
+        code: 'WORKER_HEARTBEAT_ERROR',
+        message: 'Failed to record heartbeat',
+      },
+    });
+  }
+});
+
+/**
+ * DELETE /module-workers/:workerId
+ *
+ * Called by a worker on shutdown so no further tasks are routed to it.
+ */
+router.delete('/:workerId', async (req: Request, res: Response) => {
+  const workerId = req.params.workerId!;
+
+  try {
+    await deregisterModuleWorker(workerId);
+    return res.status(204).send();
+  } catch (error) {
+    if (error instanceof ModuleWorkerNotFoundError) {
+      return res.status(404).json({
+        error: { code: 'WORKER_NOT_REGISTERED', message: error.message },
+      });
+    }
+
+    apiLogger.error('Failed to deregister module worker', {
+      workerId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: {
+        code: 'WORKER_DEREGISTRATION_ERROR',
+        message: 'Failed to deregister module worker',
+      },
+    });
+  }
+});
+
+/**
+ * GET /module-workers
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const workers = await listModuleWorkers();
+    return res.json({ data: workers });
+  } catch (error) {
+    apiLogger.error('Failed to list module workers', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: {
+        code: 'WORKER_LIST_ERROR',
+        message: 'Failed to list module workers',
+      },
+    });
+  }
+});
+
+export default router;
@@ -47,6 +47,7 @@ router.get(
       const baseWhere = {
         tenantId,
         userId: user.id,
+        channel: 'in_app',
       } as const;
 
       const [total, unread, latest] = await Promise.all([
@@ -106,7 +107,8 @@ router.get(
     const db = createTenantClient({ tenantId, userId: clerkId });
 
     try {
-      const { limit = 20, cursor, channel, unread } = parse.data;
+      // Email and Slack copies are delivery records, not inbox entries
+      const { limit = 20, cursor, channel = 'in_app', unread } = parse.data;
 
       const notifications = await db.notification.findMany({
         where: {
@@ -4,6 +4,8 @@ import { z } from 'zod';
 import { createTenantClient } from '@ocsuite/db';
 import { requireAuth, verifyClerkToken } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
+import { enforceQuota } from '../middleware/quota.js';
+import { recordUsage } from '../services/quotas.js';
 import { enqueueTaskExecution, getJobStatus } from '../queue/client.js';
 import { apiLogger } from '../utils/logger.js';
 import { QUEUE_NAMES } from '../queue/index.js';
@@ -94,6 +96,7 @@ router.post(
   '/execute',
   requireAuth(),
   resolveTenant(),
+  enforceQuota('taskExecutions'),
   async (req: Request, res: Response) => {
     try {
       // Validate request body
@@ -167,6 +170,18 @@ router.post(
 
       await db.$disconnect();
 
+      await recordUsage({
+        tenantId,
+        deltas: { tasksExecuted: 1 },
+        event: { type: 'task.executed', payload: { taskId: task.id, taskType } },
+      }).catch((usageError) => {
+        apiLogger.error('Failed to record task usage', {
+          tenantId,
+          taskId: task.id,
+          error: usageError instanceof Error ? usageError.message : 'Unknown error',
+        });
+      });
+
       // Return success response
       return res.status(200).json({
         taskId: task.id,
@@ -0,0 +1,318 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+
+type Role = 'owner' | 'admin' | 'member';
+type MockRequest = Request & {
+  clerkId?: string;
+  tenantId?: string;
+  tenantUserId?: string;
+  tenantRole?: Role;
+};
+
+interface MemberRow {
+  id: string;
+  tenantId: string;
+  userId: string;
+  role: Role;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface InvitationRow {
+  id: string;
+  tenantId: string;
+  email: string;
+  role: Role;
+  status: string;
+  invitedBy: string;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  acceptedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const state = vi.hoisted(() => ({
+  caller: { clerkId: 'clerk-owner', userId: 'user-owner', role: 'owner' as Role },
+  members: [] as MemberRow[],
+  invitations: [] as InvitationRow[],
+  users: new Map<string, { id: string; clerkId: string; email: string; name: string | null }>(),
+}));
+
+function matchesMember(member: MemberRow, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([key, value]) => {
+    if (key === 'user') {
+      const email = ((value as { email: { equals: string } }).email.equals ?? '').toLowerCase();
+      return state.users.get(member.userId)?.email.toLowerCase() === email;
+    }
+    return member[key as keyof MemberRow] === value;
+  });
+}
+
+function matchesInvitation(invitation: InvitationRow, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([key, value]) => invitation[key as keyof InvitationRow] === value);
+}
+
+function withUser(member: MemberRow) {
+  const user = state.users.get(member.userId)!;
+  return { ...member, user: { id: user.id, email: user.email, name: user.name } };
+}
+
+const mockDb = vi.hoisted(() => ({}) as Record<string, unknown>);
+
+Object.assign(mockDb, {
+  tenant: {
+    findUnique: vi.fn(async () => ({ id: 'tenant-123', name: 'Acme' })),
+  },
+  user: {
+    findUnique: vi.fn(async ({ where }: { where: { id?: string; clerkId?: string } }) =>
+      [...state.users.values()].find((user) => user.id === where.id || user.clerkId === where.clerkId) ?? null
+    ),
+  },
+  tenantMember: {
+    findMany: vi.fn(async () => state.members.map(withUser)),
+    findFirst: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+      state.members.find((member) => matchesMember(member, where)) ?? null
+    ),
+    count: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+      state.members.filter((member) => matchesMember(member, where)).length
+    ),
+    update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<MemberRow> }) => {
+      const member = state.members.find((row) => row.id === where.id)!;
+      Object.assign(member, data);
+      return withUser(member);
+    }),
+    delete: vi.fn(async ({ where }: { where: { id: string } }) => {
+      const member = state.members.find((row) => row.id === where.id)!;
+      state.members = state.members.filter((row) => row.id !== where.id);
+      return member;
+    }),
+    upsert: vi.fn(
+      async ({ create }: { create: { tenantId: string; userId: string; role: Role } }) => {
+        const existing = state.members.find(
+          (member) => member.tenantId === create.tenantId && member.userId === create.userId
+        );
+        if (existing) return existing;
+        const member = { id: `member-${state.members.length + 1}`, ...create, createdAt: new Date(), updatedAt: new Date() };
+        state.members.push(member);
+        return member;
+      }
+    ),
+  },
+  tenantInvitation: {
+    findMany: vi.fn(async () => state.invitations),
+    findFirst: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+      state.invitations.find((invitation) => matchesInvitation(invitation, where)) ?? null
+    ),
+    findUniqueOrThrow: vi.fn(async ({ where }: { where: { id: string } }) =>
+      state.invitations.find((invitation) => invitation.id === where.id)!
+    ),
+    create: vi.fn(async ({ data }: { data: Omit<InvitationRow, 'id' | 'status' | 'respondedAt' | 'acceptedBy' | 'createdAt' | 'updatedAt'> }) => {
+      const invitation: InvitationRow = {
+        id: `inv-${state.invitations.length + 1}`,
+        status: 'pending',
+        respondedAt: null,
+        acceptedBy: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...data,
+      };
+      state.invitations.push(invitation);
+      return invitation;
+    }),
+    update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<InvitationRow> }) => {
+      const invitation = state.invitations.find((row) => row.id === where.id)!;
+      Object.assign(invitation, data);
+      return invitation;
+    }),
+    updateMany: vi.fn(async ({ where, data }: { where: Record<string, unknown>; data: Partial<InvitationRow> }) => {
+      const matched = state.invitations.filter((invitation) => matchesInvitation(invitation, where));
+      matched.forEach((invitation) => Object.assign(invitation, data));
+      return { count: matched.length };
+    }),
+  },
+  // Only the owner-row lock in the last-owner check queries raw SQL
+  $queryRaw: vi.fn(async (_sql: TemplateStringsArray, tenantId: string, role: Role) =>
+    state.members
+      .filter((member) => member.tenantId === tenantId && member.role === role)
+      .map(({ id }) => ({ id }))
+  ),
+  $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(mockDb)),
+  $disconnect: vi.fn().mockResolvedValue(undefined),
+});
+
+vi.mock('@ocsuite/db', () => ({
+  TenantMemberRole: { owner: 'owner', admin: 'admin', member: 'member' },
+  TenantInvitationStatus: { pending: 'pending', accepted: 'accepted', declined: 'declined', revoked: 'revoked' },
+  createTenantClient: vi.fn(() => mockDb),
+  getTenantDb: vi.fn(() => mockDb),
+}));
+
+vi.mock('../middleware/auth.js', () => ({
+  requireAuth: () => (req: MockRequest, _res: Response, next: NextFunction) => {
+    req.clerkId = state.caller.clerkId;
+    next();
+  },
+}));
+
+vi.mock('../middleware/tenant.js', () => ({
+  resolveTenant: () => (req: MockRequest, _res: Response, next: NextFunction) => {
+    req.tenantId = 'tenant-123';
+    req.tenantUserId = state.caller.userId;
+    req.tenantRole = state.caller.role;
+    next();
+  },
+}));
+
+vi.mock('../utils/logger.js', () => ({
+  apiLogger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('../services/notification-transports.js', () => ({
+  createEmailTransport: vi.fn(() => null),
+}));
+
+import teamRoutes from './team.routes.js';
+
+function addUser(id: string, email: string) {
+  state.users.set(id, { id, clerkId: `clerk-${id}`, email, name: null });
+}
+
+function addMember(userId: string, role: Role) {
+  state.members.push({
+    id: `member-${userId}`,
+    tenantId: 'tenant-123',
+    userId,
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+function actAs(userId: string, role: Role) {
+  state.caller = { clerkId: `clerk-${userId}`, userId, role };
+}
+
+describe('team routes', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.members = [];
+    state.invitations = [];
+    state.users.clear();
+
+    addUser('user-owner', 'owner@example.com');
+    addUser('user-admin', 'admin@example.com');
+    addUser('user-new', 'New.Person@example.com');
+    addMember('user-owner', 'owner');
+    addMember('user-admin', 'admin');
+    actAs('user-owner', 'owner');
+
+    app = express();
+    app.use(express.json());
+    app.use('/team', teamRoutes);
+  });
+
+  it('lists members with their user details', async () => {
+    const response = await request(app).get('/team/members');
+
+    expect(response.status).toBe(200);
+    expect(response.body.members).toEqual([
+      expect.objectContaining({ id: 'member-user-owner', email: 'owner@example.com', role: 'owner' }),
+      expect.objectContaining({ id: 'member-user-admin', email: 'admin@example.com', role: 'admin' }),
+    ]);
+  });
+
+  it('restricts role changes to owners', async () => {
+    actAs('user-admin', 'admin');
+
+    const response = await request(app).patch('/team/members/member-user-owner').send({ role: 'member' });
+
+    expect(response.status).toBe(403);
+    expect(response.body).toMatchObject({ error: 'forbidden', message: 'Changing member roles requires owner role' });
+  });
+
+  it('refuses to demote or remove the last owner', async () => {
+    const demote = await request(app).patch('/team/members/member-user-owner').send({ role: 'admin' });
+    expect(demote.status).toBe(409);
+    expect(demote.body.error).toBe('invalid_state');
+
+    const remove = await request(app).delete('/team/members/member-user-owner');
+    expect(remove.status).toBe(409);
+
+    const promote = await request(app).patch('/team/members/member-user-admin').send({ role: 'owner' });
+    expect(promote.status).toBe(200);
+
+    const demoteAgain = await request(app).patch('/team/members/member-user-owner').send({ role: 'admin' });
+    expect(demoteAgain.status).toBe(200);
+    expect(demoteAgain.body.member).toMatchObject({ role: 'admin' });
+  });
+
+  it('only lets admins invite members', async () => {
+    actAs('user-admin', 'admin');
+
+    const asAdmin = await request(app).post('/team/invitations').send({ email: 'x@example.com', role: 'admin' });
+    expect(asAdmin.status).toBe(403);
+
+    const asMember = await request(app).post('/team/invitations').send({ email: 'x@example.com' });
+    expect(asMember.status).toBe(201);
+    expect(asMember.body.invitation).toMatchObject({ email: 'x@example.com', role: 'member', status: 'pending' });
+  });
+
+  it('refreshes a pending invitation instead of creating a duplicate', async () => {
+    const first = await request(app).post('/team/invitations').send({ email: 'x@example.com' });
+    const second = await request(app).post('/team/invitations').send({ email: 'X@example.com', role: 'admin' });
+
+    expect(second.status).toBe(201);
+    expect(second.body.invitation.id).toBe(first.body.invitation.id);
+    expect(second.body.invitation.role).toBe('admin');
+    expect(state.invitations).toHaveLength(1);
+  });
+
+  it('accepts a signed invitation for the invited email', async () => {
+    const created = await request(app).post('/team/invitations').send({ email: 'new.person@example.com', role: 'admin' });
+    const token = new URL(created.body.acceptUrl, 'http://localhost').searchParams.get('token')!;
+
+    actAs('user-admin', 'admin');
+    const wrongUser = await request(app).post('/team/invitations/accept').send({ token });
+    expect(wrongUser.status).toBe(409);
+
+    actAs('user-new', 'member');
+    const tampered = await request(app)
+      .post('/team/invitations/accept')
+      .send({ token: `${token.slice(0, -4)}AAAA` });
+    expect(tampered.status).toBe(400);
+    expect(tampered.body.error).toBe('invalid_token');
+
+    const accepted = await request(app).post('/team/invitations/accept').send({ token });
+    expect(accepted.status).toBe(200);
+    expect(accepted.body).toMatchObject({ tenantId: 'tenant-123', role: 'admin' });
+    expect(state.members).toContainEqual(expect.objectContaining({ userId: 'user-new', role: 'admin' }));
+
+    const again = await request(app).post('/team/invitations/decline').send({ token });
+    expect(again.status).toBe(409);
+  });
+
+  it('rejects expired invitations', async () => {
+    const created = await request(app).post('/team/invitations').send({ email: 'new.person@example.com' });
+    const token = new URL(created.body.acceptUrl, 'http://localhost').searchParams.get('token')!;
+
+    // Moving the expiry also invalidates the signature, so re-sign the stale row
+    const { signInvitationToken } = await import('../services/team.js');
+    state.invitations[0]!.expiresAt = new Date(Date.now() - 1000);
+    const expiredToken = signInvitationToken(state.invitations[0]!);
+    expect(expiredToken).not.toBe(token);
+
+    actAs('user-new', 'member');
+    const preview = await request(app).post('/team/invitations/preview').send({ token: expiredToken });
+    expect(preview.status).toBe(200);
+    expect(preview.body).toMatchObject({ invitation: { expired: true }, emailMatches: true });
+
+    const response = await request(app).post('/team/invitations/accept').send({ token: expiredToken });
+    expect(response.status).toBe(409);
+    expect(response.body.message).toBe('Invitation has expired');
+  });
+});
@@ -0,0 +1,500 @@
+import { Router as createRouter } from 'express';
+import type { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import {
+  createTenantClient,
+  getTenantDb,
+  TenantInvitationStatus,
+  TenantMemberRole,
+  type TenantInvitation,
+} from '@ocsuite/db';
+import type { TeamMember, TenantInvitation as TenantInvitationDto } from '@ocsuite/types';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole, TENANT_ADMIN_ROLES } from '../middleware/roles.js';
+import { apiLogger } from '../utils/logger.js';
+import {
+  acceptInvitation,
+  changeMemberRole,
+  createInvitation,
+  declineInvitation,
+  findInvitationByToken,
+  isInvitationExpired,
+  listInvitations,
+  listMembers,
+  parseInvitationToken,
+  removeMember,
+  revokeInvitation,
+  InvitationNotFoundError,
+  InvitationStateError,
+  InvitationTokenError,
+  LastOwnerError,
+  MemberNotFoundError,
+  type MemberWithUser,
+} from '../services/team.js';
+
+const router: Router = createRouter();
+
+const ROLE_VALUES = [TenantMemberRole.owner, TenantMemberRole.admin, TenantMemberRole.member] as const;
+const STATUS_VALUES = ['pending', 'accepted', 'declined', 'revoked'] as const;
+
+const roleSchema = z.object({
+  role: z.enum(ROLE_VALUES),
+});
+
+const inviteSchema = z.object({
+  email: z.string().trim().email().max(320),
+  role: z.enum(ROLE_VALUES).default(TenantMemberRole.member),
+});
+
+const invitationListQuerySchema = z.object({
+  status: z.enum(STATUS_VALUES).optional(),
+});
+
+const tokenSchema = z.object({
+  token: z.string().min(1).max(512),
+});
+
+function serializeMember(member: MemberWithUser): TeamMember {
+  return {
+    id: member.id,
+    userId: member.userId,
+    email: member.user.email,
+    name: member.user.name,
+    role: member.role,
+    createdAt: member.createdAt.toISOString(),
+  };
+}
+
+function serializeInvitation(invitation: TenantInvitation): TenantInvitationDto {
+  return {
+    id: invitation.id,
+    tenantId: invitation.tenantId,
+    email: invitation.email,
+    role: invitation.role,
+    status: invitation.status,
+    invitedBy: invitation.invitedBy,
+    expiresAt: invitation.expiresAt.toISOString(),
+    expired: isInvitationExpired(invitation),
+    respondedAt: invitation.respondedAt?.toISOString() ?? null,
+    createdAt: invitation.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Maps team service errors onto responses. Returns false for anything
+ * unexpected so the caller can log it and answer 500.
+ */
+function sendTeamError(res: Response, error: unknown): boolean {
+  if (error instanceof InvitationNotFoundError || error instanceof MemberNotFoundError) {
+    res.status(404).json({ error: 'not_found', message: error.message });
+    return true;
+  }
+
+  if (error instanceof InvitationTokenError) {
+    res.status(400).json({ error: 'invalid_token', message: error.message });
+    return true;
+  }
+
+  if (error instanceof InvitationStateError || error instanceof LastOwnerError) {
+    res.status(409).json({ error: 'invalid_state', message: error.message });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * GET /team/members
+ */
+router.get('/members', requireAuth(), resolveTenant(), async (req, res) => {
+  const tenantId = req.tenantId!;
+  const db = createTenantClient({ tenantId, userId: req.tenantUserId! });
+
+  try {
+    const members = await listMembers(db, tenantId);
+    return res.status(200).json({ members: members.map(serializeMember) });
+  } catch (error) {
+    apiLogger.error('Failed to list team members', {
+      tenantId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list team members',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * PATCH /team/members/:id
+ *
+ * Owners only. The last owner cannot be demoted.
+ */
+router.patch(
+  '/members/:id',
+  requireAuth(),
+  resolveTenant(),
+  requireRole([TenantMemberRole.owner], 'Changing member roles'),
+  async (req, res) => {
+    const parse = roleSchema.safeParse(req.body ?? {});
+
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid role',
+        details: parse.error.format(),
+      });
+    }
+
+    const tenantId = req.tenantId!;
+    const { id } = req.params as { id: string };
+    const db = createTenantClient({ tenantId, userId: req.tenantUserId! });
+
+    try {
+      const member = await changeMemberRole(db, { tenantId, memberId: id, role: parse.data.role });
+
+      apiLogger.info('Team member role changed', {
+        tenantId,
+        memberId: id,
+        role: member.role,
+        changedBy: req.tenantUserId,
+      });
+
+      return res.status(200).json({ member: serializeMember(member) });
+    } catch (error) {
+      if (sendTeamError(res, error)) {
+        return;
+      }
+
+      apiLogger.error('Failed to change team member role', {
+        tenantId,
+        memberId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to change team member role',
+      });
+    } finally {
+      await db.$disconnect();
+    }
+  }
+);
+
+/**
+ * DELETE /team/members/:id
+ *
+ * Owners may remove anyone; other members may only leave. The last owner
+ * cannot be removed.
+ */
+router.delete('/members/:id', requireAuth(), resolveTenant(), async (req, res) => {
+  const tenantId = req.tenantId!;
+  const { id } = req.params as { id: string };
+  const db = createTenantClient({ tenantId, userId: req.tenantUserId! });
+
+  try {
+    if (req.tenantRole !== TenantMemberRole.owner) {
+      const target = await db.tenantMember.findFirst({
+        where: { id, tenantId },
+        select: { userId: true },
+      });
+
+      if (target?.userId !== req.tenantUserId) {
+        return res.status(403).json({
+          error: 'forbidden',
+          message: 'Removing other members requires owner role',
+        });
+      }
+    }
+
+    await removeMember(db, { tenantId, memberId: id });
+
+    apiLogger.info('Team member removed', {
+      tenantId,
+      memberId: id,
+      removedBy: req.tenantUserId,
+    });
+
+    return res.status(204).send();
+  } catch (error) {
+    if (sendTeamError(res, error)) {
+      return;
+    }
+
+    apiLogger.error('Failed to remove team member', {
+      tenantId,
+      memberId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to remove team member',
+    });
+  } finally {
+    await db.$disconnect();
+  }
+});
+
+/**
+ * GET /team/invitations
+ */
+router.get(
+  '/invitations',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(TENANT_ADMIN_ROLES, 'Managing invitations'),
+  async (req, res) => {
+    const parse = invitationListQuerySchema.safeParse(req.query ?? {});
+
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid query parameters',
+        details: parse.error.format(),
+      });
+    }
+
+    const tenantId = req.tenantId!;
+    const db = createTenantClient({ tenantId, userId: req.tenantUserId! });
+
+    try {
+      const invitations = await listInvitations(db, tenantId, {
+        status: parse.data.status as TenantInvitationStatus | undefined,
+      });
+      return res.status(200).json({ invitations: invitations.map(serializeInvitation) });
+    } catch (error) {
+      apiLogger.error('Failed to list invitations', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to list invitations',
+      });
+    } finally {
+      await db.$disconnect();
+    }
+  }
+);
+
+/**
+ * POST /team/invitations
+ *
+ * Admins may invite members; only owners may invite admins or owners.
+ * Re-inviting a pending email refreshes its role and expiry.
+ */
+router.post(
+  '/invitations',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(TENANT_ADMIN_ROLES, 'Managing invitations'),
+  async (req, res) => {
+    const parse = inviteSchema.safeParse(req.body ?? {});
+
+    if (!parse.success) {
+      return res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid invitation',
+        details: parse.error.format(),
+      });
+    }
+
+    if (parse.data.role !== TenantMemberRole.member && req.tenantRole !== TenantMemberRole.owner) {
+      return res.status(403).json({
+        error: 'forbidden',
+        message: `Inviting an ${parse.data.role === 'admin' ? 'admin' : 'owner'} requires owner role`,
+      });
+    }
+
+    const tenantId = req.tenantId!;
+    const db = createTenantClient({ tenantId, userId: req.tenantUserId! });
+
+    try {
+      const result = await createInvitation(db, {
+        tenantId,
+        email: parse.data.email,
+        role: parse.data.role,
+        invitedBy: req.tenantUserId!,
+      });
+
+      return res.status(201).json({
+        invitation: serializeInvitation(result.invitation),
+        acceptUrl: result.acceptUrl,
+        emailSent: result.emailSent,
+      });
+    } catch (error) {
+      if (sendTeamError(res, error)) {
+        return;
+      }
+
+      apiLogger.error('Failed to create invitation', {
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to create invitation',
+      });
+    } finally {
+      await db.$disconnect();
+    }
+  }
+);
+
+/**
+ * DELETE /team/invitations/:id
+ */
+router.delete(
+  '/invitations/:id',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(TENANT_ADMIN_ROLES, 'Managing invitations'),
+  async (req, res) => {
+    const tenantId = req.tenantId!;
+    const { id } = req.params as { id: string };
+    const db = createTenantClient({ tenantId, userId: req.tenantUserId! });
+
+    try {
+      const invitation = await revokeInvitation(db, { tenantId, invitationId: id });
+      return res.status(200).json({ invitation: serializeInvitation(invitation) });
+    } catch (error) {
+      if (sendTeamError(res, error)) {
+        return;
+      }
+
+      apiLogger.error('Failed to revoke invitation', {
+        tenantId,
+        invitationId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to revoke invitation',
+      });
+    } finally {
+      await db.$disconnect();
+    }
+  }
+);
+
+/**
+ * Invitees are not members yet, so the token routes below skip
+ * resolveTenant and take the tenant from the signed token instead.
+ */
+async function withInvitee(
+  req: Request,
+  res: Response,
+  action: string,
+  handler: (context: {
+    db: ReturnType<typeof createTenantClient>;
+    token: string;
+    user: { id: string; email: string };
+  }) => Promise<unknown>
+): Promise<unknown> {
+  const parse = tokenSchema.safeParse(req.body ?? {});
+
+  if (!parse.success) {
+    return res.status(400).json({
+      error: 'validation_error',
+      message: 'Invitation token is required',
+      details: parse.error.format(),
+    });
+  }
+
+  const { token } = parse.data;
+  let tenantId: string;
+
+  try {
+    ({ tenantId } = parseInvitationToken(token));
+  } catch (error) {
+    sendTeamError(res, error);
+    return;
+  }
+
+  let db: ReturnType<typeof createTenantClient> | null = null;
+
+  try {
+    const user = await getTenantDb().user.findUnique({
+      where: { clerkId: req.clerkId! },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'not_found',
+        message: 'User not found. Please complete onboarding.',
+      });
+    }
+
+    db = createTenantClient({ tenantId, userId: user.id });
+    return await handler({ db, token, user });
+  } catch (error) {
+    if (sendTeamError(res, error)) {
+      return;
+    }
+
+    apiLogger.error(`Failed to ${action} invitation`, {
+      tenantId,
+      clerkId: req.clerkId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return res.status(500).json({
+      error: 'internal_error',
+      message: `Failed to ${action} invitation`,
+    });
+  } finally {
+    await db?.$disconnect();
+  }
+}
+
+/**
+ * POST /team/invitations/preview
+ *
+ * Describes the invitation behind a token so the accept page can show who
+ * invited the caller, and whether the signed-in email matches.
+ */
+router.post('/invitations/preview', requireAuth(), (req, res) =>
+  withInvitee(req, res, 'preview', async ({ db, token, user }) => {
+    const invitation = await findInvitationByToken(db, token);
+    const tenant = await db.tenant.findUnique({
+      where: { id: invitation.tenantId },
+      select: { id: true, name: true },
+    });
+
+    return res.status(200).json({
+      invitation: serializeInvitation(invitation),
+      tenant,
+      emailMatches: user.email.toLowerCase() === invitation.email,
+    });
+  })
+);
+
+/**
+ * POST /team/invitations/accept
+ */
+router.post('/invitations/accept', requireAuth(), (req, res) =>
+  withInvitee(req, res, 'accept', async ({ db, token, user }) => {
+    const { invitation, membership } = await acceptInvitation(db, { token, user });
+
+    return res.status(200).json({
+      invitation: serializeInvitation(invitation),
+      tenantId: membership.tenantId,
+      role: membership.role,
+    });
+  })
+);
+
+/**
+ * POST /team/invitations/decline
+ */
+router.post('/invitations/decline', requireAuth(), (req, res) =>
+  withInvitee(req, res, 'decline', async ({ db, token, user }) => {
+    const invitation = await declineInvitation(db, { token, user });
+    return res.status(200).json({ invitation: serializeInvitation(invitation) });
+  })
+);
+
+export default router;
@@ -1,9 +1,15 @@
 import { Router as createRouter } from 'express';
 import type { Request, Response, Router } from 'express';
 import { ZodError } from 'zod';
-import { videoProductionService } from '../services/video-production.js';
+import {
+  TranscriptEditError,
+  TranscriptWordsMissingError,
+  TranscriptionProviderUnavailableError,
+  videoProductionService,
+} from '../services/video-production.js';
 import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
+import { enforceQuota } from '../middleware/quota.js';
 import { apiLogger } from '../utils/logger.js';
 import {
   TranscribeRequestSchema,
@@ -11,6 +17,9 @@ import {
   RenderVideoRequestSchema,
   AddCaptionsRequestSchema,
   OptimizeVideoRequestSchema,
+  TranscriptExportFormat,
+  TRANSCRIPT_EXPORT_CONTENT_TYPES,
+  UpdateTranscriptRequestSchema,
 } from '@ocsuite/video-core';
 
 const router: Router = createRouter();
@@ -23,7 +32,7 @@ router.use(resolveTenant());
  * POST /video/transcribe
  * Transcribe a video or audio file
  */
-router.post('/transcribe', async (req: Request, res: Response) => {
+router.post('/transcribe', enforceQuota('videoMinutes'), async (req: Request, res: Response) => {
   try {
     const tenantId = req.tenantId;
     const userId = req.clerkId;
@@ -41,6 +50,7 @@ router.post('/transcribe', async (req: Request, res: Response) => {
       {
         language: body.language,
         speakerLabels: body.speakerLabels,
+        provider: body.provider,
       }
     );
 
@@ -57,6 +67,13 @@ router.post('/transcribe', async (req: Request, res: Response) => {
       });
     }
 
+    if (error instanceof TranscriptionProviderUnavailableError) {
+      return res.status(400).json({
+        error: 'Transcription provider unavailable',
+        message: error.message,
+      });
+    }
+
     res.status(500).json({
       error: 'Failed to start transcription',
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -114,7 +131,7 @@ router.post('/extract-clips', async (req: Request, res: Response) => {
  * POST /video/render
  * Render a video from composition
  */
-router.post('/render', async (req: Request, res: Response) => {
+router.post('/render', enforceQuota('videoMinutes'), async (req: Request, res: Response) => {
   try {
     const tenantId = req.tenantId;
     const userId = req.clerkId;
@@ -163,7 +180,7 @@ router.post('/render', async (req: Request, res: Response) => {
  * POST /video/add-captions
  * Add captions to a video
  */
-router.post('/add-captions', async (req: Request, res: Response) => {
+router.post('/add-captions', enforceQuota('videoMinutes'), async (req: Request, res: Response) => {
   try {
     const tenantId = req.tenantId;
     const userId = req.clerkId;
@@ -206,7 +223,7 @@ router.post('/add-captions', async (req: Request, res: Response) => {
  * POST /video/optimize
  * Optimize video for a platform
  */
-router.post('/optimize', async (req: Request, res: Response) => {
+router.post('/optimize', enforceQuota('videoMinutes'), async (req: Request, res: Response) => {
   try {
     const tenantId = req.tenantId;
     const userId = req.clerkId;
@@ -221,7 +238,8 @@ router.post('/optimize', async (req: Request, res: Response) => {
       body.videoUrl,
       body.platform,
       tenantId,
-      userId
+      userId,
+      body.customSpec
     );
 
     apiLogger.info(`Optimization job created: ${job.id}`, {
@@ -248,6 +266,149 @@ router.post('/optimize', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /video/transcripts/:id
+ * Get a transcript with word timings and speakers
+ */
+router.get('/transcripts/:id', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+
+    if (!tenantId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const transcriptId = req.params?.id;
+
+    if (!transcriptId) {
+      return res.status(400).json({ error: 'Invalid request' });
+    }
+
+    const transcript = await videoProductionService.getTranscript(transcriptId, tenantId);
+
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not found' });
+    }
+
+    res.status(200).json(transcript);
+  } catch (error: unknown) {
+    apiLogger.error('Get transcript endpoint error:', error);
+
+    res.status(500).json({
+      error: 'Failed to get transcript',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PATCH /video/transcripts/:id
+ * Correct word text or rename speakers
+ */
+router.patch('/transcripts/:id', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+    const userId = req.clerkId;
+
+    if (!tenantId || !userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const transcriptId = req.params?.id;
+
+    if (!transcriptId) {
+      return res.status(400).json({ error: 'Invalid request' });
+    }
+
+    const body = UpdateTranscriptRequestSchema.parse(req.body);
+
+    const transcript = await videoProductionService.updateTranscript(transcriptId, tenantId, body);
+
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not found' });
+    }
+
+    apiLogger.info(`Transcript updated: ${transcriptId}`, { tenantId, userId });
+
+    res.status(200).json(transcript);
+  } catch (error: unknown) {
+    apiLogger.error('Update transcript endpoint error:', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: error.errors,
+      });
+    }
+
+    if (error instanceof TranscriptEditError) {
+      return res.status(400).json({
+        error: 'Invalid transcript edit',
+        message: error.message,
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to update transcript',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /video/transcripts/:id/captions?format=srt|vtt|txt
+ * Download a transcript as a caption file or plain text
+ */
+router.get('/transcripts/:id/captions', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+
+    if (!tenantId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const transcriptId = req.params?.id;
+
+    if (!transcriptId) {
+      return res.status(400).json({ error: 'Invalid request' });
+    }
+
+    const format = TranscriptExportFormat.parse(req.query.format ?? 'srt');
+
+    const content = await videoProductionService.exportTranscript(transcriptId, tenantId, format);
+
+    if (content === null) {
+      return res.status(404).json({ error: 'Transcript not found' });
+    }
+
+    res.attachment(`${transcriptId}.${format}`);
+    res.type(`${TRANSCRIPT_EXPORT_CONTENT_TYPES[format]}; charset=utf-8`);
+    res.status(200).send(content);
+  } catch (error: unknown) {
+    apiLogger.error('Export transcript endpoint error:', error);
+
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: error.errors,
+      });
+    }
+
+    // Subtitle formats need word timings; plain text export still works
+    if (error instanceof TranscriptWordsMissingError) {
+      return res.status(409).json({
+        error: 'Transcript cannot be exported',
+        message: error.message,
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to export transcript',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * GET /video/jobs
  * List all video jobs for tenant
@@ -315,6 +476,49 @@ router.get('/jobs/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /video/jobs/:id/output
+ * Download a job's rendered file (redirects when it is hosted remotely)
+ */
+router.get('/jobs/:id/output', async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.tenantId;
+
+    if (!tenantId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const jobId = req.params?.id;
+
+    if (!jobId) {
+      return res.status(400).json({ error: 'Invalid request' });
+    }
+
+    const output = await videoProductionService.getJobOutput(jobId, tenantId);
+
+    if (!output) {
+      return res.status(404).json({ error: 'Output not found' });
+    }
+
+    if ('url' in output) {
+      return res.redirect(302, output.url);
+    }
+
+    res.download(output.path, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: 'Output not found' });
+      }
+    });
+  } catch (error: unknown) {
+    apiLogger.error('Get job output endpoint error:', error);
+
+    res.status(500).json({
+      error: 'Failed to get job output',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * DELETE /video/jobs/:id
  * Cancel/delete a job
@@ -0,0 +1,145 @@
+#!/usr/bin/env tsx
+import 'dotenv/config';
+
+import { prisma } from '@ocsuite/db';
+import { initializeCrypto, decryptForTenantWithVersion } from '@ocsuite/crypto';
+
+import { config } from '../config/index.js';
+import { apiLogger } from '../utils/logger.js';
+import { KNOWLEDGE_ENCRYPTION_CONTEXT } from '../services/knowledge-constants.js';
+import {
+  isKnowledgeKeywordIndexEnabled,
+  writeKnowledgeSearchVector,
+} from '../services/knowledge-search-index.js';
+import { EXTERNAL_CONTENT_PLACEHOLDER } from '../services/knowledge-storage.js';
+
+/**
+ * Builds `knowledge_entries.search_vector` for entries ingested before hybrid
+ * search existed or before a tenant opted in to keyword indexing. Content is
+ * encrypted at rest, so the keyword index can only be rebuilt by decrypting
+ * each chunk here; externally stored chunks are skipped and pick up an index
+ * the next time their source re-syncs. Tenants that have not opted in are
+ * never indexed.
+ */
+
+const DEFAULT_BATCH_SIZE = 100;
+
+interface BackfillRow {
+  id: string;
+  tenantId: string | null;
+  content: string;
+  encryptionKeyVersion: number | null;
+  metadata: Record<string, unknown> | null;
+}
+
+function getFlagValue(flag: string, args: string[]): string | undefined {
+  const index = args.indexOf(flag);
+  if (index >= 0) {
+    const next = args[index + 1];
+    return next && !next.startsWith('--') ? next : undefined;
+  }
+  const withEquals = args.find((arg) => arg.startsWith(`${flag}=`));
+  return withEquals ? withEquals.slice(flag.length + 1) : undefined;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const tenantId = getFlagValue('--tenant', args)?.trim() || undefined;
+  const batchSize = Number.parseInt(getFlagValue('--batch-size', args) ?? `${DEFAULT_BATCH_SIZE}`, 10);
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error('Invalid --batch-size value. Provide a positive integer.');
+  }
+
+  if (tenantId && !(await isKnowledgeKeywordIndexEnabled(prisma, tenantId))) {
+    apiLogger.warn('Tenant has not opted in to knowledge keyword indexing; nothing to backfill', { tenantId });
+    await prisma.$disconnect();
+    return;
+  }
+
+  initializeCrypto({
+    currentKey: config.masterEncryptionKey,
+    currentKeyVersion: config.masterEncryptionKeyVersion,
+    previousKeys:
+      Object.keys(config.masterEncryptionPreviousKeys ?? {}).length > 0
+        ? config.masterEncryptionPreviousKeys
+        : undefined,
+  });
+
+  let cursor = '';
+  let indexed = 0;
+  let skipped = 0;
+
+  try {
+    for (;;) {
+      const rows = tenantId
+        ? await prisma.$queryRaw<BackfillRow[]>`
+            SELECT "id", "tenantId", "content", "encryption_key_version" AS "encryptionKeyVersion", "metadata"
+            FROM knowledge_entries
+            WHERE "search_vector" IS NULL AND "id" > ${cursor} AND "tenantId" = ${tenantId}
+            ORDER BY "id"
+            LIMIT ${batchSize}
+          `
+        : await prisma.$queryRaw<BackfillRow[]>`
+            SELECT e."id", e."tenantId", e."content", e."encryption_key_version" AS "encryptionKeyVersion", e."metadata"
+            FROM knowledge_entries e
+            LEFT JOIN tenants t ON t."id" = e."tenantId"
+            WHERE e."search_vector" IS NULL AND e."id" > ${cursor}
+              AND (e."tenantId" IS NULL OR t."knowledge_keyword_index")
+            ORDER BY e."id"
+            LIMIT ${batchSize}
+          `;
+
+      if (!rows.length) {
+        break;
+      }
+
+      for (const row of rows) {
+        if (row.content === EXTERNAL_CONTENT_PLACEHOLDER) {
+          skipped += 1;
+          continue;
+        }
+
+        try {
+          const plaintext = decryptForTenantWithVersion(
+            row.content,
+            row.tenantId ?? 'company_hq',
+            KNOWLEDGE_ENCRYPTION_CONTEXT,
+            row.encryptionKeyVersion ?? 1,
+          );
+          const title = typeof row.metadata?.documentTitle === 'string' ? row.metadata.documentTitle : '';
+
+          if (!dryRun) {
+            await writeKnowledgeSearchVector(prisma, { entryId: row.id, title, content: plaintext });
+          }
+          indexed += 1;
+        } catch (error) {
+          skipped += 1;
+          apiLogger.error('Failed to index knowledge entry for keyword search', {
+            entryId: row.id,
+            tenantId: row.tenantId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      cursor = rows[rows.length - 1]!.id;
+    }
+
+    apiLogger.info('Knowledge search index backfill finished', {
+      dryRun,
+      tenantId: tenantId ?? null,
+      indexed,
+      skipped,
+    });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  apiLogger.error('Knowledge search index backfill failed', {
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+  process.exitCode = 1;
+});
@@ -2,65 +2,34 @@
 import 'dotenv/config';
 
 import { prisma } from '@ocsuite/db';
-import {
-  initializeCrypto,
-  encryptForTenant,
-  decryptForTenantWithVersion,
-  getCurrentKeyVersion,
-} from '@ocsuite/crypto';
+import { initializeCrypto, getCurrentKeyVersion } from '@ocsuite/crypto';
 
 import { config } from '../config/index.js';
 import { apiLogger } from '../utils/logger.js';
-import { KNOWLEDGE_ENCRYPTION_CONTEXT } from '../services/knowledge-constants.js';
-import { EXTERNAL_CONTENT_PLACEHOLDER } from '../services/knowledge-storage.js';
-
-const DEFAULT_BATCH_SIZE = 100;
-
-interface RotationScope {
+import {
+  KEY_ROTATION_DEFAULT_BATCH_SIZE,
+  isKeyRotationProgress,
+  runKeyRotation,
+  verifyKeyRotation,
+  type KeyRotationProgress,
+  type KeyRotationTarget,
+  type KeyRotationVerification,
+} from '../services/key-rotation.js';
+
+type Command = 'run' | 'enqueue' | 'verify' | 'status' | 'resume';
+
+interface ParsedOptions {
+  command: Command;
   dryRun: boolean;
   batchSize: number;
   tenantId?: string;
-}
-
-interface ParsedOptions extends RotationScope {
   targetVersion?: number;
-  includeConnectors: boolean;
-  includeKnowledge: boolean;
+  targets: KeyRotationTarget[];
+  jobId?: string;
 }
 
-interface ConnectorRotationResult {
-  processed: number;
-  skipped: number;
-}
-
-interface KnowledgeRotationResult {
-  processed: number;
-  skipped: number;
-  external: number;
-}
-
-type RotatableConnector = {
-  id: string;
-  tenantId: string;
-  encryptedAccessToken: string;
-  encryptedRefreshToken: string | null;
-  encryptionKeyVersion: number | null;
-};
-
-type RotatableKnowledgeEntry = {
-  id: string;
-  tenantId: string | null;
-  content: string;
-  encryptionKeyVersion: number | null;
-  storageKey: string | null;
-  sourceId: string | null;
-  sourceRef: {
-    storageStrategy: 'managed_postgres' | 'external_s3';
-  } | null;
-};
-
 function printUsage(): void {
-  console.log(`\nUsage: pnpm --filter api tsx src/scripts/rotate-encryption-keys.ts [options]\n\nOptions:\n  --dry-run               Perform decrypt/encrypt validation without persisting updates\n  --tenant <tenantId>     Limit rotation to a single tenant\n  --target-version <int>  Override the master key version used for re-encryption\n  --batch-size <int>      Number of records processed per batch (default ${DEFAULT_BATCH_SIZE})\n  --only <target>         Restrict to 'connectors' or 'knowledge'\n  --skip-connectors       Skip rotating connector tokens\n  --skip-knowledge        Skip rotating knowledge entries\n  -h, --help              Show this help message\n`);
+  console.log(`\nUsage: pnpm --filter api tsx src/scripts/rotate-encryption-keys.ts [options]\n\nRe-encrypts connector tokens and knowledge entries with the current master key\n(MASTER_ENCRYPTION_KEY_VERSION). Keep the old key in MASTER_ENCRYPTION_PREVIOUS_KEYS\nuntil --verify reports it as retirable.\n\nCommands (default: rotate in this process, then verify):\n  --enqueue               Queue the rotation on the key-rotation worker instead\n  --verify                Only run the verification pass; exits 1 when rows remain\n  --status <jobId>        Print progress of a queued rotation job\n  --resume <jobId>        Queue a new rotation continuing from a failed job's checkpoint\n\nOptions:\n  --dry-run               Perform decrypt/encrypt validation without persisting updates\n  --tenant <tenantId>     Limit rotation to a single tenant\n  --target-version <int>  Expected master key version; must match the configured current version\n  --batch-size <int>      Number of records processed per batch (default ${KEY_ROTATION_DEFAULT_BATCH_SIZE})\n  --only <target>         Restrict to 'connectors' or 'knowledge'\n  --skip-connectors       Skip rotating connector tokens\n  --skip-knowledge        Skip rotating knowledge entries\n  -h, --help              Show this help message\n`);
 }
 
 function getFlagValue(flag: string, args: string[]): string | undefined {
@@ -97,7 +66,7 @@ function parseCommandLine(args: string[]): ParsedOptions {
   const tenantId = tenantFlag?.length ? tenantFlag : undefined;
 
   const batchFlag = getFlagValue('--batch-size', args);
-  const batchSize = batchFlag ? Number.parseInt(batchFlag, 10) : DEFAULT_BATCH_SIZE;
+  const batchSize = batchFlag ? Number.parseInt(batchFlag, 10) : KEY_ROTATION_DEFAULT_BATCH_SIZE;
   if (!Number.isInteger(batchSize) || batchSize <= 0) {
     throw new Error('Invalid --batch-size value. Provide a positive integer.');
   }
@@ -137,13 +106,30 @@ function parseCommandLine(args: string[]): ParsedOptions {
     throw new Error('At least one rotation target must remain enabled.');
   }
 
+  const statusJobId = getFlagValue('--status', args);
+  const resumeJobId = getFlagValue('--resume', args);
+  let command: Command = 'run';
+  if (statusJobId) {
+    command = 'status';
+  } else if (resumeJobId) {
+    command = 'resume';
+  } else if (args.includes('--verify')) {
+    command = 'verify';
+  } else if (args.includes('--enqueue')) {
+    command = 'enqueue';
+  }
+
   return {
+    command,
     dryRun,
     tenantId,
     batchSize,
     targetVersion,
-    includeConnectors,
-    includeKnowledge,
+    targets: [
+      ...(includeConnectors ? (['connectors'] as const) : []),
+      ...(includeKnowledge ? (['knowledge'] as const) : []),
+    ],
+    jobId: statusJobId ?? resumeJobId,
   };
 }
 
@@ -158,251 +144,131 @@ function initializeCryptoRegistry(): void {
   });
 }
 
-async function rotateConnectorSecrets(
-  targetVersion: number,
-  scope: RotationScope,
-): Promise<ConnectorRotationResult> {
-  let processed = 0;
-  let skipped = 0;
-  let cursor: string | null = null;
-
-  while (true) {
-  const connectors: RotatableConnector[] = await prisma.connector.findMany({
-      where: {
-        encryptionKeyVersion: {
-          lt: targetVersion,
-        },
-        ...(scope.tenantId ? { tenantId: scope.tenantId } : {}),
-      },
-      orderBy: { id: 'asc' },
-      take: scope.batchSize,
-      ...(cursor
-        ? {
-            cursor: { id: cursor },
-            skip: 1,
-          }
-        : {}),
-      select: {
-        id: true,
-        tenantId: true,
-        encryptedAccessToken: true,
-        encryptedRefreshToken: true,
-        encryptionKeyVersion: true,
-      },
-    });
+function resolveTargetVersion(options: ParsedOptions): number {
+  const currentVersion = getCurrentKeyVersion();
+  if (options.targetVersion !== undefined && options.targetVersion !== currentVersion) {
+    throw new Error(
+      `--target-version ${options.targetVersion} does not match MASTER_ENCRYPTION_KEY_VERSION ${currentVersion}.`
+    );
+  }
+  return currentVersion;
+}
 
-    if (connectors.length === 0) {
-      break;
-    }
+function printVerification(verification: KeyRotationVerification): void {
+  console.log(JSON.stringify(verification, null, 2));
+  if (verification.ok) {
+    console.log(
+      verification.retirableVersions.length
+        ? `\nVerification passed. Key versions safe to retire: ${verification.retirableVersions.join(', ')}`
+        : '\nVerification passed.'
+    );
+  } else {
+    console.log('\nVerification failed: rows remain on old key versions or cannot be decrypted.');
+    process.exitCode = 1;
+  }
+}
 
-    for (const connector of connectors) {
-      const legacyVersion = connector.encryptionKeyVersion ?? 1;
-
-      try {
-        const accessTokenPlain = decryptForTenantWithVersion(
-          connector.encryptedAccessToken,
-          connector.tenantId,
-          'connector-tokens',
-          legacyVersion,
-        );
-
-  const newAccessToken = encryptForTenant(accessTokenPlain, connector.tenantId, 'connector-tokens');
-
-        let newRefreshToken: string | null = null;
-        if (connector.encryptedRefreshToken) {
-          const refreshTokenPlain = decryptForTenantWithVersion(
-            connector.encryptedRefreshToken,
-            connector.tenantId,
-            'connector-tokens',
-            legacyVersion,
-          );
-          newRefreshToken = encryptForTenant(refreshTokenPlain, connector.tenantId, 'connector-tokens');
-        }
-
-        if (scope.dryRun) {
-          apiLogger.debug('Dry-run: connector secrets would be rotated', {
-            connectorId: connector.id,
-            tenantId: connector.tenantId,
-            legacyVersion,
-            targetVersion,
-          });
-        } else {
-          await prisma.connector.update({
-            where: { id: connector.id },
-            data: {
-              encryptedAccessToken: newAccessToken,
-              encryptedRefreshToken: newRefreshToken,
-              encryptionKeyVersion: targetVersion,
-            },
-          });
-        }
-
-        processed += 1;
-      } catch (error) {
-        skipped += 1;
-        apiLogger.error('Failed to rotate connector secrets', {
-          connectorId: connector.id,
-          tenantId: connector.tenantId,
-          legacyVersion,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
+async function runInProcess(options: ParsedOptions, targetVersion: number): Promise<void> {
+  const rotation = await runKeyRotation(prisma, {
+    targetVersion,
+    targets: options.targets,
+    batchSize: options.batchSize,
+    dryRun: options.dryRun,
+    tenantId: options.tenantId,
+  }, {
+    onProgress: (progress) => {
+      apiLogger.info('Key rotation progress', {
+        phase: progress.phase,
+        percentage: progress.percentage,
+        counts: progress.counts,
+      });
+    },
+  });
 
-    const lastConnector = connectors[connectors.length - 1];
-    cursor = lastConnector ? lastConnector.id : null;
+  console.log(JSON.stringify(rotation, null, 2));
+
+  if (!options.dryRun) {
+    printVerification(
+      await verifyKeyRotation(prisma, {
+        targetVersion,
+        targets: options.targets,
+        batchSize: options.batchSize,
+        tenantId: options.tenantId,
+      })
+    );
   }
-
-  return { processed, skipped };
 }
 
-async function rotateKnowledgeEntries(
-  targetVersion: number,
-  scope: RotationScope,
-): Promise<KnowledgeRotationResult> {
-  let processed = 0;
-  let skipped = 0;
-  let external = 0;
-  let cursor: string | null = null;
-
-  while (true) {
-  const entries: RotatableKnowledgeEntry[] = await prisma.knowledgeEntry.findMany({
-      where: {
-        encryptionKeyVersion: {
-          lt: targetVersion,
-        },
-        ...(scope.tenantId ? { tenantId: scope.tenantId } : {}),
-      },
-      orderBy: { id: 'asc' },
-      take: scope.batchSize,
-      ...(cursor
-        ? {
-            cursor: { id: cursor },
-            skip: 1,
-          }
-        : {}),
-      select: {
-        id: true,
-        tenantId: true,
-        content: true,
-        encryptionKeyVersion: true,
-        storageKey: true,
-        sourceId: true,
-        sourceRef: {
-          select: {
-            storageStrategy: true,
-          },
-        },
-      },
-    });
+/**
+ * Queue commands load the queue module lazily so in-process runs do not need
+ * Redis.
+ */
+async function runQueueCommand(options: ParsedOptions, targetVersion: number): Promise<void> {
+  const { closeQueues, keyRotationQueue, QUEUE_NAMES } = await import('../queue/index.js');
+  const { enqueueKeyRotation, getJobStatus } = await import('../queue/client.js');
 
-    if (entries.length === 0) {
-      break;
+  try {
+    if (options.command === 'status') {
+      console.log(JSON.stringify(await getJobStatus(QUEUE_NAMES.KEY_ROTATION, options.jobId!), null, 2));
+      return;
     }
 
-    for (const entry of entries) {
-      const legacyVersion = entry.encryptionKeyVersion ?? 1;
-      const tenantId = entry.tenantId ?? 'company_hq';
-  const storageStrategy = entry.sourceRef?.storageStrategy ?? null;
-      const isExternal = storageStrategy === 'external_s3';
-
-      if (isExternal || (entry.storageKey && entry.content === EXTERNAL_CONTENT_PLACEHOLDER)) {
-        external += 1;
-        apiLogger.warn('Skipping knowledge entry rotation; content stored externally', {
-          entryId: entry.id,
-          sourceId: entry.sourceId,
-          storageStrategy,
-        });
-        continue;
-      }
-
-      try {
-        const plaintext = decryptForTenantWithVersion(
-          entry.content,
-          tenantId,
-          KNOWLEDGE_ENCRYPTION_CONTEXT,
-          legacyVersion,
-        );
-        const newContent = encryptForTenant(plaintext, tenantId, KNOWLEDGE_ENCRYPTION_CONTEXT);
-
-        if (scope.dryRun) {
-          apiLogger.debug('Dry-run: knowledge entry would be rotated', {
-            entryId: entry.id,
-            tenantId: entry.tenantId,
-            sourceId: entry.sourceId,
-            legacyVersion,
-            targetVersion,
-          });
-        } else {
-          await prisma.knowledgeEntry.update({
-            where: { id: entry.id },
-            data: {
-              content: newContent,
-              encryptionKeyVersion: targetVersion,
-            },
-          });
-        }
-
-        processed += 1;
-      } catch (error) {
-        skipped += 1;
-        apiLogger.error('Failed to rotate knowledge entry', {
-          entryId: entry.id,
-          tenantId: entry.tenantId,
-          legacyVersion,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+    let resumeFrom: KeyRotationProgress | undefined;
+    if (options.command === 'resume') {
+      const previous = await keyRotationQueue.getJob(options.jobId!);
+      if (!previous || !isKeyRotationProgress(previous.progress)) {
+        throw new Error(`Job ${options.jobId} has no rotation checkpoint to resume from.`);
       }
+      resumeFrom = previous.progress;
     }
 
-    const lastEntry = entries[entries.length - 1];
-    cursor = lastEntry ? lastEntry.id : null;
-  }
+    const result = await enqueueKeyRotation({
+      mode: 'rotate',
+      targetVersion,
+      targets: options.targets,
+      batchSize: options.batchSize,
+      dryRun: options.dryRun,
+      tenantId: options.tenantId,
+      requestedBy: 'cli',
+      resumeFrom,
+    });
 
-  return { processed, skipped, external };
+    console.log('Key rotation job enqueued:', result);
+  } finally {
+    await closeQueues();
+  }
 }
 
 async function main(): Promise<void> {
   const options = parseCommandLine(process.argv.slice(2));
 
   initializeCryptoRegistry();
-  const resolvedTargetVersion = options.targetVersion ?? getCurrentKeyVersion();
+  const targetVersion = resolveTargetVersion(options);
 
-  apiLogger.info('Starting encryption key rotation', {
-    targetVersion: resolvedTargetVersion,
+  apiLogger.info('Starting encryption key rotation command', {
+    command: options.command,
+    targetVersion,
     dryRun: options.dryRun,
     batchSize: options.batchSize,
     tenantId: options.tenantId ?? null,
-    includeConnectors: options.includeConnectors,
-    includeKnowledge: options.includeKnowledge,
+    targets: options.targets,
   });
 
   try {
-    let connectorResult: ConnectorRotationResult | null = null;
-    let knowledgeResult: KnowledgeRotationResult | null = null;
-
-    if (options.includeConnectors) {
-      connectorResult = await rotateConnectorSecrets(resolvedTargetVersion, options);
-      apiLogger.info('Connector secret rotation complete', {
-        ...connectorResult,
-        dryRun: options.dryRun,
-      });
+    if (options.command === 'verify') {
+      printVerification(
+        await verifyKeyRotation(prisma, {
+          targetVersion,
+          targets: options.targets,
+          batchSize: options.batchSize,
+          tenantId: options.tenantId,
+        })
+      );
+    } else if (options.command === 'run') {
+      await runInProcess(options, targetVersion);
+    } else {
+      await runQueueCommand(options, targetVersion);
     }
-
-    if (options.includeKnowledge) {
-      knowledgeResult = await rotateKnowledgeEntries(resolvedTargetVersion, options);
-      apiLogger.info('Knowledge entry rotation complete', {
-        ...knowledgeResult,
-        dryRun: options.dryRun,
-      });
-    }
-
-    apiLogger.info('Encryption key rotation finished', {
-      dryRun: options.dryRun,
-      targetVersion: resolvedTargetVersion,
-      connectorSummary: connectorResult,
-      knowledgeSummary: knowledgeResult,
-    });
   } finally {
     await prisma.$disconnect();
   }
@@ -0,0 +1,484 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ActionApproval, PrismaClient } from '@ocsuite/db';
+
+const { mockEnqueueActionExecution, mockNotifyDecision } = vi.hoisted(() => ({
+  mockEnqueueActionExecution: vi.fn(),
+  mockNotifyDecision: vi.fn(),
+}));
+
+vi.mock('@ocsuite/db', () => ({
+  TenantMemberRole: { owner: 'owner', admin: 'admin', member: 'member' },
+  createTenantClient: vi.fn(),
+  prisma: {},
+}));
+
+vi.mock('../../queue/client.js', () => ({
+  enqueueActionExecution: mockEnqueueActionExecution,
+}));
+
+vi.mock('../notifications.js', () => ({
+  notifyActionApprovalSubmitted: vi.fn(),
+  notifyActionApprovalDecision: mockNotifyDecision,
+}));
+
+vi.mock('../tenant-events.js', () => ({
+  publishApprovalUpdate: vi.fn(),
+  publishTaskUpdate: vi.fn(),
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  apiLogger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import {
+  approveAction,
+  cancelScheduledAction,
+  expireActionApproval,
+  normalizeAuditLog,
+  rejectAction,
+  releaseScheduledAction,
+  rescheduleAction,
+  submitActionApproval,
+  ActionApprovalForbiddenError,
+  ActionApprovalStateError,
+  ActionScheduleError,
+} from '../action-approvals.js';
+
+type Role = 'owner' | 'admin' | 'member';
+
+const HIGH_RISK_POLICY = {
+  id: 'policy-high',
+  tenantId: 'tenant-1',
+  name: 'High risk spend',
+  description: null,
+  enabled: true,
+  priority: 10,
+  moduleSlug: null,
+  capability: 'send-*',
+  persona: 'cfo',
+  source: null,
+  minRiskScore: null,
+  steps: [
+    { name: 'Admin review', roles: ['owner', 'admin'], approvals: 2 },
+    { name: 'Owner sign-off', roles: ['owner'], approvals: 1 },
+  ],
+  approvalTtlHours: 24,
+  autoRejectAfterHours: 48,
+  createdBy: 'clerk-owner',
+  createdAt: new Date('2025-11-01T00:00:00Z'),
+  updatedAt: new Date('2025-11-01T00:00:00Z'),
+};
+
+function createDb() {
+  const state = {
+    approvals: new Map<string, ActionApproval>(),
+    policies: [HIGH_RISK_POLICY, { ...HIGH_RISK_POLICY, id: 'policy-catch-all', priority: 0, capability: null, persona: null }],
+    delegations: [] as Array<{ delegatorId: string; delegateId: string }>,
+    members: new Map<string, Role>([
+      ['user-owner', 'owner'],
+      ['user-admin-a', 'admin'],
+      ['user-admin-b', 'admin'],
+      ['user-member', 'member'],
+    ]),
+  };
+
+  // Row locks taken with SELECT ... FOR UPDATE, held until the transaction ends
+  const locks = new Map<string, Promise<void>>();
+
+  const db = {
+    approvalPolicy: {
+      findMany: vi.fn(async () => [...state.policies].sort((a, b) => b.priority - a.priority)),
+    },
+    approvalDelegation: {
+      findMany: vi.fn(async ({ where }: { where: { delegateId: string } }) =>
+        state.delegations.filter((delegation) => delegation.delegateId === where.delegateId)
+      ),
+    },
+    tenantMember: {
+      findMany: vi.fn(async ({ where }: { where: { userId: { in: string[] } } }) =>
+        where.userId.in.map((userId) => ({ userId, role: state.members.get(userId)! }))
+      ),
+    },
+    actionApproval: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        const approval = {
+          id: 'approval-1',
+          actionItemId: null,
+          alertId: null,
+          approvedBy: null,
+          approvedAt: null,
+          executedAt: null,
+          policyId: null,
+          policySnapshot: null,
+          currentStep: 0,
+          expiresAt: null,
+          scheduledFor: null,
+          scheduleTimezone: null,
+          runAfterApprovalId: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          ...data,
+        } as unknown as ActionApproval;
+        state.approvals.set(approval.id, approval);
+        return approval;
+      }),
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => state.approvals.get(where.id) ?? null),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<ActionApproval> }) => {
+        const approval = { ...state.approvals.get(where.id)!, ...data, updatedAt: new Date() };
+        state.approvals.set(where.id, approval);
+        return approval;
+      }),
+    },
+    task: {
+      upsert: vi.fn(async () => ({ id: 'task-1' })),
+      update: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'task-1', ...data })),
+    },
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => {
+      const held: Array<() => void> = [];
+      const tx = {
+        ...db,
+        $queryRaw: vi.fn(async (_sql: TemplateStringsArray, id: string) => {
+          while (locks.has(id)) {
+            await locks.get(id);
+          }
+          locks.set(id, new Promise<void>((resolve) => held.push(() => (locks.delete(id), resolve()))));
+          return [{ id }];
+        }),
+      };
+
+      try {
+        return await fn(tx);
+      } finally {
+        held.forEach((release) => release());
+      }
+    }),
+  };
+
+  return { state, db, client: db as unknown as PrismaClient };
+}
+
+async function submit(client: PrismaClient, capability = 'send-invoice') {
+  return submitActionApproval(client, {
+    tenantId: 'tenant-1',
+    userId: 'clerk-requester',
+    source: 'chat-tool',
+    payload: { moduleSlug: 'billing', capability, amount: 5000 },
+    persona: 'cfo',
+  });
+}
+
+function approveAs(client: PrismaClient, userId: string, role: Role) {
+  return approveAction(client, {
+    tenantId: 'tenant-1',
+    userId: `clerk-${userId}`,
+    tenantUserId: userId,
+    tenantRole: role,
+    approvalId: 'approval-1',
+  });
+}
+
+describe('action approval policies', () => {
+  let mocks: ReturnType<typeof createDb>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnqueueActionExecution.mockResolvedValue({ jobId: 'job-1', queueName: 'action-executor' });
+    mocks = createDb();
+  });
+
+  it('snapshots the highest-priority matching policy at submit time', async () => {
+    const { approval } = await submit(mocks.client);
+
+    expect(approval.policyId).toBe('policy-high');
+    expect(approval.policySnapshot).toMatchObject({ name: 'High risk spend', autoRejectAfterHours: 48 });
+    expect(approval.expiresAt!.getTime() - Date.now()).toBeGreaterThan(47 * 60 * 60 * 1000);
+    expect(normalizeAuditLog(approval.auditLog)[0]).toMatchObject({
+      event: 'submitted',
+      metadata: expect.objectContaining({ policyId: 'policy-high', steps: 2 }),
+    });
+
+    const other = await submit(mocks.client, 'refund-invoice');
+    expect(other.approval.policyId).toBe('policy-catch-all');
+  });
+
+  it('walks every step with distinct approvers before enqueueing', async () => {
+    await submit(mocks.client);
+
+    const first = await approveAs(mocks.client, 'user-admin-a', 'admin');
+    expect(first).toMatchObject({ task: null, job: null });
+    expect(first.approval).toMatchObject({ status: 'pending', currentStep: 0 });
+
+    await expect(approveAs(mocks.client, 'user-admin-a', 'admin')).rejects.toBeInstanceOf(ActionApprovalStateError);
+
+    const second = await approveAs(mocks.client, 'user-admin-b', 'admin');
+    expect(second.approval.currentStep).toBe(1);
+
+    await expect(approveAs(mocks.client, 'user-member', 'member')).rejects.toThrow('Owner sign-off requires owner approval');
+
+    // The owner is away and has handed their authority to a member
+    mocks.state.delegations.push({ delegatorId: 'user-owner', delegateId: 'user-member' });
+    const final = await approveAs(mocks.client, 'user-member', 'member');
+
+    expect(final.approval.status).toBe('approved');
+    expect(final.job).toEqual({ jobId: 'job-1', queueName: 'action-executor' });
+    expect(mockEnqueueActionExecution).toHaveBeenCalledTimes(1);
+    expect(normalizeAuditLog(final.approval.auditLog).map((event) => event.event)).toEqual([
+      'submitted',
+      'step_approved',
+      'step_approved',
+      'approved',
+      'enqueued',
+    ]);
+    expect(normalizeAuditLog(final.approval.auditLog)[3]!.metadata).toMatchObject({
+      step: 1,
+      role: 'owner',
+      principalId: 'user-owner',
+      onBehalfOf: 'user-owner',
+    });
+  });
+
+  it('applies concurrent sign-offs one after another', async () => {
+    await submit(mocks.client);
+
+    await Promise.all([
+      approveAs(mocks.client, 'user-admin-a', 'admin'),
+      approveAs(mocks.client, 'user-admin-b', 'admin'),
+    ]);
+
+    const approval = mocks.state.approvals.get('approval-1')!;
+    expect(approval.currentStep).toBe(1);
+    expect(normalizeAuditLog(approval.auditLog).map((event) => event.by)).toEqual([
+      'clerk-requester',
+      'clerk-user-admin-a',
+      'clerk-user-admin-b',
+    ]);
+  });
+
+  it('stops counting step approvals once they outlive the policy TTL', async () => {
+    await submit(mocks.client);
+    await approveAs(mocks.client, 'user-admin-a', 'admin');
+
+    const stale = mocks.state.approvals.get('approval-1')!;
+    const log = normalizeAuditLog(stale.auditLog);
+    log[1]!.at = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString();
+    mocks.state.approvals.set('approval-1', { ...stale, auditLog: log as unknown as ActionApproval['auditLog'] });
+
+    const result = await approveAs(mocks.client, 'user-admin-b', 'admin');
+
+    expect(result.approval.currentStep).toBe(0);
+    expect(normalizeAuditLog(result.approval.auditLog)[2]!.metadata).toMatchObject({ approvals: 1, required: 2 });
+  });
+
+  it('only lets eligible approvers reject', async () => {
+    await submit(mocks.client);
+
+    await expect(
+      rejectAction(mocks.client, {
+        tenantId: 'tenant-1',
+        userId: 'clerk-user-member',
+        tenantUserId: 'user-member',
+        tenantRole: 'member',
+        approvalId: 'approval-1',
+      })
+    ).rejects.toBeInstanceOf(ActionApprovalForbiddenError);
+
+    const rejected = await rejectAction(mocks.client, {
+      tenantId: 'tenant-1',
+      userId: 'clerk-user-admin-a',
+      tenantUserId: 'user-admin-a',
+      tenantRole: 'admin',
+      approvalId: 'approval-1',
+      comment: 'Too large',
+    });
+
+    expect(rejected.status).toBe('rejected');
+  });
+
+  it('auto-rejects requests past their deadline', async () => {
+    await submit(mocks.client);
+    const later = new Date(Date.now() + 49 * 60 * 60 * 1000);
+
+    await expect(
+      approveAction(mocks.client, {
+        tenantId: 'tenant-1',
+        userId: 'clerk-user-owner',
+        tenantUserId: 'user-owner',
+        tenantRole: 'owner',
+        approvalId: 'approval-1',
+      })
+    ).resolves.toMatchObject({ task: null });
+
+    const expired = await expireActionApproval(mocks.client, { tenantId: 'tenant-1', approvalId: 'approval-1', now: later });
+
+    expect(expired?.status).toBe('rejected');
+    expect(normalizeAuditLog(expired!.auditLog).at(-1)).toMatchObject({
+      event: 'expired',
+      by: 'system-approval-expiry',
+    });
+    expect(mockNotifyDecision).toHaveBeenCalledWith(
+      mocks.client,
+      expect.objectContaining({ decision: 'rejected', approval: expired })
+    );
+
+    // Already decided, so a second sweep is a no-op
+    await expect(expireActionApproval(mocks.client, { tenantId: 'tenant-1', approvalId: 'approval-1', now: later })).resolves.toBeNull();
+  });
+});
+
+describe('scheduled actions', () => {
+  let mocks: ReturnType<typeof createDb>;
+  const tomorrow = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnqueueActionExecution.mockResolvedValue({ jobId: 'job-1', queueName: 'action-executor' });
+    mocks = createDb();
+    // No policy: a single owner or admin sign-off is final
+    mocks.state.policies = [];
+  });
+
+  function approveWithSchedule(schedule: { runAt?: string; timezone?: string; afterApprovalId?: string }) {
+    return approveAction(mocks.client, {
+      tenantId: 'tenant-1',
+      userId: 'clerk-user-owner',
+      tenantUserId: 'user-owner',
+      tenantRole: 'owner',
+      approvalId: 'approval-1',
+      schedule,
+    });
+  }
+
+  function seedPrerequisite(status: ActionApproval['status']) {
+    mocks.state.approvals.set('approval-0', {
+      ...mocks.state.approvals.get('approval-1')!,
+      id: 'approval-0',
+      status,
+      auditLog: [],
+    });
+  }
+
+  it('defers execution until the scheduled time', async () => {
+    await submit(mocks.client);
+    const runAt = tomorrow();
+
+    const result = await approveWithSchedule({ runAt: runAt.toISOString() });
+
+    expect(result).toMatchObject({ task: null, job: null });
+    expect(result.approval).toMatchObject({ status: 'scheduled', approvedBy: 'clerk-user-owner', scheduledFor: runAt });
+    expect(mockEnqueueActionExecution).not.toHaveBeenCalled();
+    expect(mockNotifyDecision).toHaveBeenCalledWith(mocks.client, expect.objectContaining({ decision: 'approved' }));
+
+    await expect(releaseScheduledAction(mocks.client, { tenantId: 'tenant-1', approvalId: 'approval-1' })).resolves.toBe(
+      'waiting'
+    );
+
+    const released = await releaseScheduledAction(mocks.client, {
+      tenantId: 'tenant-1',
+      approvalId: 'approval-1',
+      now: new Date(runAt.getTime() + 1000),
+    });
+
+    expect(released).toBe('released');
+    expect(mockEnqueueActionExecution).toHaveBeenCalledWith(
+      expect.objectContaining({ approvalId: 'approval-1', approvedBy: 'clerk-user-owner' })
+    );
+    expect(normalizeAuditLog(mocks.state.approvals.get('approval-1')!.auditLog).map((event) => event.event)).toEqual([
+      'submitted',
+      'approved',
+      'scheduled',
+      'enqueued',
+    ]);
+  });
+
+  it('rejects schedules in the past, too far ahead or in unknown timezones', async () => {
+    await submit(mocks.client);
+
+    await expect(approveWithSchedule({ runAt: '2020-01-01T00:00:00Z' })).rejects.toThrow('runAt must be in the future');
+    await expect(
+      approveWithSchedule({ runAt: new Date(Date.now() + 91 * 24 * 60 * 60 * 1000).toISOString() })
+    ).rejects.toThrow('at most 90 days ahead');
+    await expect(approveWithSchedule({ runAt: '2099-01-01T09:00', timezone: 'Nowhere/City' })).rejects.toThrow(
+      'Unknown timezone'
+    );
+    // Without a timezone a local time would be read in server time
+    await expect(approveWithSchedule({ runAt: '2099-01-01T09:00' })).rejects.toBeInstanceOf(ActionScheduleError);
+    await expect(approveWithSchedule({ afterApprovalId: 'approval-1' })).rejects.toThrow('cannot wait on itself');
+
+    expect(mocks.state.approvals.get('approval-1')!.status).toBe('pending');
+  });
+
+  it('waits for the prerequisite to execute and cancels when it cannot', async () => {
+    await submit(mocks.client);
+    seedPrerequisite('executing');
+
+    await approveWithSchedule({ afterApprovalId: 'approval-0' });
+    await expect(releaseScheduledAction(mocks.client, { tenantId: 'tenant-1', approvalId: 'approval-1' })).resolves.toBe(
+      'waiting'
+    );
+
+    mocks.state.approvals.set('approval-0', { ...mocks.state.approvals.get('approval-0')!, status: 'failed' });
+
+    await expect(releaseScheduledAction(mocks.client, { tenantId: 'tenant-1', approvalId: 'approval-1' })).resolves.toBe(
+      'canceled'
+    );
+    expect(mockEnqueueActionExecution).not.toHaveBeenCalled();
+    expect(normalizeAuditLog(mocks.state.approvals.get('approval-1')!.auditLog).at(-1)).toMatchObject({
+      event: 'canceled',
+      by: 'system-action-scheduler',
+      note: 'Prerequisite action is failed',
+    });
+  });
+
+  it('reschedules and cancels only scheduled actions', async () => {
+    await submit(mocks.client);
+    await approveWithSchedule({ runAt: tomorrow().toISOString() });
+
+    // Kolkata has no DST, so its wall time is a fixed +05:30 from UTC
+    const target = new Date(Math.floor((Date.now() + 2 * 24 * 60 * 60 * 1000) / 60000) * 60000);
+    const kolkataWallTime = new Date(target.getTime() + 330 * 60 * 1000).toISOString().slice(0, 16);
+
+    const rescheduled = await rescheduleAction(mocks.client, {
+      tenantId: 'tenant-1',
+      userId: 'clerk-user-admin-a',
+      approvalId: 'approval-1',
+      schedule: { runAt: kolkataWallTime, timezone: 'Asia/Kolkata' },
+    });
+
+    expect(rescheduled).toMatchObject({ status: 'scheduled', scheduledFor: target, scheduleTimezone: 'Asia/Kolkata' });
+    expect(normalizeAuditLog(rescheduled.auditLog).at(-1)).toMatchObject({
+      event: 'scheduled',
+      metadata: expect.objectContaining({ rescheduled: true }),
+    });
+
+    const canceled = await cancelScheduledAction(mocks.client, {
+      tenantId: 'tenant-1',
+      userId: 'clerk-user-admin-a',
+      approvalId: 'approval-1',
+      comment: 'Plans changed',
+    });
+
+    expect(canceled.status).toBe('canceled');
+    await expect(
+      cancelScheduledAction(mocks.client, { tenantId: 'tenant-1', userId: 'clerk-user-admin-a', approvalId: 'approval-1' })
+    ).rejects.toBeInstanceOf(ActionApprovalStateError);
+    await expect(releaseScheduledAction(mocks.client, { tenantId: 'tenant-1', approvalId: 'approval-1' })).resolves.toBe(
+      'waiting'
+    );
+  });
+
+  it('refuses to cancel an action released in the meantime', async () => {
+    await submit(mocks.client);
+    await approveWithSchedule({ runAt: tomorrow().toISOString() });
+    const due = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+
+    const [release, cancel] = await Promise.allSettled([
+      releaseScheduledAction(mocks.client, { tenantId: 'tenant-1', approvalId: 'approval-1', now: due }),
+      cancelScheduledAction(mocks.client, { tenantId: 'tenant-1', userId: 'clerk-user-admin-a', approvalId: 'approval-1' }),
+    ]);
+
+    expect(release).toEqual({ status: 'fulfilled', value: 'released' });
+    expect(cancel).toMatchObject({ status: 'rejected', reason: expect.any(ActionApprovalStateError) });
+    expect(mockEnqueueActionExecution).toHaveBeenCalledTimes(1);
+    expect(mocks.state.approvals.get('approval-1')!.status).not.toBe('canceled');
+  });
+});
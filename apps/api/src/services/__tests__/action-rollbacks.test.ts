@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ActionApproval, PrismaClient } from '@ocsuite/db';
+
+const { mockGetModuleCapability, mockPublishApprovalUpdate } = vi.hoisted(() => ({
+  mockGetModuleCapability: vi.fn(),
+  mockPublishApprovalUpdate: vi.fn(),
+}));
+
+vi.mock('@ocsuite/db', () => ({
+  TenantMemberRole: { owner: 'owner', admin: 'admin', member: 'member' },
+  createTenantClient: vi.fn(),
+  prisma: {},
+}));
+
+vi.mock('../../modules/registry.js', async () => {
+  class ModuleExecutionError extends Error {}
+  return { getModuleCapability: mockGetModuleCapability, ModuleExecutionError };
+});
+
+vi.mock('../../queue/client.js', () => ({
+  enqueueActionExecution: vi.fn(),
+}));
+
+vi.mock('../notifications.js', () => ({
+  notifyActionApprovalSubmitted: vi.fn(),
+  notifyActionApprovalDecision: vi.fn(),
+}));
+
+vi.mock('../tenant-events.js', () => ({
+  publishApprovalUpdate: mockPublishApprovalUpdate,
+  publishTaskUpdate: vi.fn(),
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  apiLogger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import { normalizeAuditLog, ActionApprovalStateError } from '../action-approvals.js';
+import { requestActionRollback, ActionRollbackUnavailableError } from '../action-rollbacks.js';
+
+function capabilityDefinition(name: string, metadata?: Record<string, unknown>) {
+  return {
+    name,
+    version: '1.0.0',
+    description: name,
+    inputsSchema: { type: 'object' },
+    outputsSchema: { type: 'object' },
+    metadata,
+  };
+}
+
+function createDb(status: ActionApproval['status'] = 'executed') {
+  const original = {
+    id: 'approval-1',
+    tenantId: 'tenant-1',
+    actionItemId: null,
+    alertId: null,
+    source: 'chat-tool',
+    payload: {
+      moduleSlug: 'campaigns',
+      capability: 'send-campaign-v1',
+      summary: 'Send November newsletter',
+      campaignId: 'cmp_42',
+      audience: 'all',
+      undoPayload: { reason: 'sent in error' },
+    },
+    riskScore: 40,
+    status,
+    createdBy: 'clerk-requester',
+    approvedBy: 'clerk-owner',
+    auditLog: [
+      { event: 'submitted', at: '2025-11-20T10:00:00.000Z', by: 'clerk-requester' },
+      { event: 'executing', at: '2025-11-20T10:05:00.000Z', by: 'clerk-owner' },
+      {
+        event: status === 'executed' ? 'completed' : 'failed',
+        at: '2025-11-20T10:05:02.000Z',
+        by: 'clerk-owner',
+        metadata: { payloadHash: 'hash-abc' },
+      },
+    ],
+    rollbackOfId: null,
+  } as unknown as ActionApproval;
+
+  const state = {
+    approvals: new Map<string, ActionApproval>([[original.id, original]]),
+  };
+
+  const db = {
+    approvalPolicy: { findMany: vi.fn(async () => []) },
+    actionApproval: {
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => state.approvals.get(where.id) ?? null),
+      findFirst: vi.fn(async ({ where }: { where: { rollbackOfId: string; status: { notIn: string[] } } }) =>
+        [...state.approvals.values()].find(
+          (approval) => approval.rollbackOfId === where.rollbackOfId && !where.status.notIn.includes(approval.status)
+        ) ?? null
+      ),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        const approval = { id: 'approval-2', ...data } as unknown as ActionApproval;
+        state.approvals.set(approval.id, approval);
+        return approval;
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<ActionApproval> }) => {
+        const approval = { ...state.approvals.get(where.id)!, ...data };
+        state.approvals.set(where.id, approval);
+        return approval;
+      }),
+    },
+    task: {
+      findFirst: vi.fn(async () => ({
+        result: { success: status === 'executed', outputs: { sent: 1200, queued: 300 } },
+        error: status === 'executed' ? null : 'SMTP quota exceeded',
+      })),
+    },
+  };
+
+  return { state, client: db as unknown as PrismaClient };
+}
+
+describe('requestActionRollback', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetModuleCapability.mockImplementation((moduleSlug: string, capability: string) => ({
+      moduleSlug,
+      capability,
+      mutating: true,
+      definition:
+        capability === 'send-campaign-v1'
+          ? capabilityDefinition(capability, {
+              compensation: { capability: 'cancel-campaign-v1', payloadKeys: ['campaignId'] },
+            })
+          : capabilityDefinition(capability),
+    }));
+  });
+
+  it('submits the compensating capability with the original run attached', async () => {
+    const { state, client } = createDb();
+
+    const result = await requestActionRollback(client, {
+      tenantId: 'tenant-1',
+      userId: 'clerk-admin',
+      approvalId: 'approval-1',
+      comment: 'Wrong segment',
+    });
+
+    expect(result.approval).toMatchObject({ status: 'pending', source: 'rollback', rollbackOfId: 'approval-1' });
+    expect(result.approval.payload).toEqual({
+      campaignId: 'cmp_42',
+      reason: 'sent in error',
+      moduleSlug: 'campaigns',
+      capability: 'cancel-campaign-v1',
+      summary: 'Roll back: Send November newsletter',
+      rollbackOf: {
+        approvalId: 'approval-1',
+        moduleSlug: 'campaigns',
+        capability: 'send-campaign-v1',
+        status: 'executed',
+        payloadHash: 'hash-abc',
+        outputs: { sent: 1200, queued: 300 },
+        error: null,
+      },
+    });
+
+    expect(normalizeAuditLog(state.approvals.get('approval-1')!.auditLog).at(-1)).toMatchObject({
+      event: 'rollback_requested',
+      by: 'clerk-admin',
+      metadata: { rollbackApprovalId: 'approval-2', compensatingCapability: 'cancel-campaign-v1', payloadHash: 'hash-abc' },
+    });
+    expect(mockPublishApprovalUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: 'approval-1' }));
+
+    // One live rollback per action
+    await expect(
+      requestActionRollback(client, { tenantId: 'tenant-1', userId: 'clerk-admin', approvalId: 'approval-1' })
+    ).rejects.toThrow('Rollback approval-2 has already been requested');
+  });
+
+  it('rolls back runs that failed part-way', async () => {
+    const { client } = createDb('failed');
+
+    const result = await requestActionRollback(client, {
+      tenantId: 'tenant-1',
+      userId: 'clerk-admin',
+      approvalId: 'approval-1',
+    });
+
+    expect(result.rollbackOf).toMatchObject({
+      status: 'failed',
+      payloadHash: 'hash-abc',
+      outputs: { sent: 1200, queued: 300 },
+      error: 'SMTP quota exceeded',
+    });
+  });
+
+  it('refuses actions that never ran or declare no compensation', async () => {
+    const pending = createDb('pending');
+    await expect(
+      requestActionRollback(pending.client, { tenantId: 'tenant-1', userId: 'clerk-admin', approvalId: 'approval-1' })
+    ).rejects.toBeInstanceOf(ActionApprovalStateError);
+
+    mockGetModuleCapability.mockImplementation((moduleSlug: string, capability: string) => ({
+      moduleSlug,
+      capability,
+      mutating: true,
+      definition: capabilityDefinition(capability),
+    }));
+
+    const executed = createDb();
+    await expect(
+      requestActionRollback(executed.client, { tenantId: 'tenant-1', userId: 'clerk-admin', approvalId: 'approval-1' })
+    ).rejects.toBeInstanceOf(ActionRollbackUnavailableError);
+  });
+});
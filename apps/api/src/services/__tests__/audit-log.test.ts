@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PrismaClient } from '@ocsuite/db';
+import type { AuditLogEntry } from '@ocsuite/types';
+
+vi.mock('../action-approvals.js', () => ({
+  normalizeAuditLog: (value: unknown) => (Array.isArray(value) ? value : []),
+}));
+
+import {
+  decodeAuditCursor,
+  formatAuditCsvHeader,
+  formatAuditCsvRow,
+  listAuditLog,
+  AuditCursorError,
+} from '../audit-log.js';
+
+function createDb() {
+  const db = {
+    accessLog: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          id: 'acc-1',
+          userId: 'clerk-1',
+          method: 'POST',
+          route: '/actions/a1/approve',
+          statusCode: 200,
+          ip: '127.0.0.1',
+          userAgent: 'vitest',
+          durationMs: 12,
+          metadata: { requestId: 'req-1' },
+          createdAt: new Date('2025-11-01T10:00:03Z'),
+        },
+      ]),
+    },
+    knowledgeAuditEvent: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          id: 'kn-1',
+          sourceId: 'src-1',
+          sourceName: 'Handbook',
+          event: 'upload',
+          actorId: 'clerk-2',
+          summary: 'Uploaded Handbook',
+          entryCount: 4,
+          metadata: null,
+          createdAt: new Date('2025-11-01T10:00:01Z'),
+        },
+      ]),
+    },
+    connectorAuditEvent: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          id: 'con-1',
+          connectorId: 'conn-1',
+          provider: 'slack',
+          event: 'connected',
+          actorId: 'clerk-1',
+          summary: 'Slack connected',
+          metadata: null,
+          createdAt: new Date('2025-11-01T09:59:00Z'),
+        },
+      ]),
+    },
+    actionApproval: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          id: 'a1',
+          source: 'growth-pulse',
+          status: 'approved',
+          updatedAt: new Date('2025-11-01T10:00:02Z'),
+          auditLog: [
+            { event: 'submitted', at: '2025-11-01T10:00:00.000Z', by: 'clerk-2' },
+            { event: 'approved', at: '2025-11-01T10:00:02.000Z', by: 'clerk-1', note: 'ship it' },
+          ],
+        },
+      ]),
+    },
+    user: {
+      findMany: vi.fn().mockResolvedValue([
+        { clerkId: 'clerk-1', email: 'owner@example.com' },
+        { clerkId: 'clerk-2', email: 'admin@example.com' },
+      ]),
+    },
+  };
+
+  return { db, client: db as unknown as PrismaClient };
+}
+
+describe('listAuditLog', () => {
+  let mocks: ReturnType<typeof createDb>;
+
+  beforeEach(() => {
+    mocks = createDb();
+  });
+
+  it('merges every source newest first and resolves actor emails', async () => {
+    const page = await listAuditLog(mocks.client, { tenantId: 'tenant-1', limit: 10 });
+
+    expect(page.entries.map((entry) => entry.type)).toEqual([
+      'access.request',
+      'approval.approved',
+      'knowledge.upload',
+      'approval.submitted',
+      'connector.connected',
+    ]);
+    expect(page.entries[1]).toMatchObject({
+      id: 'a1:1',
+      actorId: 'clerk-1',
+      actorEmail: 'owner@example.com',
+      resourceId: 'a1',
+      summary: 'growth-pulse approved: ship it',
+    });
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('returns a cursor that continues after the last entry', async () => {
+    const first = await listAuditLog(mocks.client, { tenantId: 'tenant-1', limit: 2 });
+
+    expect(first.entries.map((entry) => entry.id)).toEqual(['acc-1', 'a1:1']);
+    expect(decodeAuditCursor(first.nextCursor!)).toEqual({ at: new Date('2025-11-01T10:00:02Z'), id: 'a1:1' });
+
+    // The access log row is newer than the cursor, so the database would no longer return it
+    mocks.db.accessLog.findMany.mockResolvedValue([]);
+    const second = await listAuditLog(mocks.client, { tenantId: 'tenant-1', limit: 2, cursor: first.nextCursor! });
+
+    // Database sources get the cursor as a where clause; approvals are filtered in memory
+    expect(mocks.db.accessLog.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [
+            { createdAt: { lt: new Date('2025-11-01T10:00:02Z') } },
+            { createdAt: new Date('2025-11-01T10:00:02Z'), id: { lt: 'a1:1' } },
+          ],
+        }),
+      })
+    );
+    expect(second.entries.map((entry) => entry.id)).toEqual(['kn-1', 'a1:0']);
+    expect(second.nextCursor).not.toBeNull();
+  });
+
+  it('only queries the sources named by the type filter', async () => {
+    const page = await listAuditLog(mocks.client, {
+      tenantId: 'tenant-1',
+      limit: 10,
+      types: ['approval.approved', 'connector'],
+    });
+
+    expect(page.entries.map((entry) => entry.type)).toEqual(['approval.approved', 'connector.connected']);
+    expect(mocks.db.accessLog.findMany).not.toHaveBeenCalled();
+    expect(mocks.db.knowledgeAuditEvent.findMany).not.toHaveBeenCalled();
+    expect(mocks.db.connectorAuditEvent.findMany.mock.calls[0]![0].where).not.toHaveProperty('event');
+  });
+
+  it('filters approval events by actor and time range', async () => {
+    const page = await listAuditLog(mocks.client, {
+      tenantId: 'tenant-1',
+      limit: 10,
+      types: ['approval'],
+      actorId: 'clerk-2',
+      to: new Date('2025-11-01T10:00:01Z'),
+    });
+
+    expect(page.entries.map((entry) => entry.id)).toEqual(['a1:0']);
+  });
+
+  it('rejects malformed cursors', async () => {
+    await expect(listAuditLog(mocks.client, { tenantId: 'tenant-1', limit: 10, cursor: 'nope' })).rejects.toBeInstanceOf(
+      AuditCursorError
+    );
+  });
+});
+
+describe('formatAuditCsvRow', () => {
+  it('quotes separators and neutralises spreadsheet formulas', () => {
+    const entry: AuditLogEntry = {
+      id: 'kn-1',
+      source: 'knowledge',
+      type: 'knowledge.upload',
+      actorId: 'clerk-1',
+      actorEmail: null,
+      occurredAt: '2025-11-01T10:00:00.000Z',
+      summary: '=HYPERLINK("http://evil")',
+      resourceId: 'src-1',
+      metadata: { note: 'a,b' },
+    };
+
+    expect(formatAuditCsvHeader()).toBe('occurredAt,type,source,actorId,actorEmail,summary,resourceId,metadata\n');
+    expect(formatAuditCsvRow(entry)).toBe(
+      '2025-11-01T10:00:00.000Z,knowledge.upload,knowledge,clerk-1,,"\'=HYPERLINK(""http://evil"")",src-1,"{""note"":""a,b""}"\n'
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMeetingSummary,
+  buildPersonaAnalysis,
+  parseDebatePayload,
+  parsePersonaPayload,
+} from '../board-meeting.js';
+
+function opening(personaId: string, personaName: string, sequence: number, recommendations: string[]) {
+  return buildPersonaAnalysis(
+    personaId,
+    personaName,
+    parsePersonaPayload(
+      JSON.stringify({
+        summary: `${personaName} opening`,
+        risks: [],
+        opportunities: [],
+        recommendations: recommendations.map((title) => ({ title })),
+      })
+    ),
+    sequence,
+    '{}'
+  );
+}
+
+describe('board meeting debate synthesis', () => {
+  it('attributes dissent to the rebutting persona', () => {
+    const parsed = parseDebatePayload(
+      JSON.stringify({
+        summary: 'Enterprise push needs more runway',
+        agreements: ['Tighten the ICP'],
+        dissent: [
+          {
+            against: 'ceo',
+            point: 'Hiring ahead of enterprise revenue shortens runway',
+            recommendation: { title: 'Stage enterprise hiring', priority: 'medium', rationale: 'Protect runway' },
+          },
+          { against: 'cmo', point: 'Paid social spend is not paying back' },
+          { against: 'cmo' },
+        ],
+      }),
+      { personaId: 'cfo', personaName: 'CFO', round: 2 }
+    );
+
+    expect(parsed.agreements).toEqual(['Tighten the ICP']);
+    expect(parsed.dissent).toEqual([
+      {
+        personaId: 'cfo',
+        personaName: 'CFO',
+        against: 'ceo',
+        point: 'Hiring ahead of enterprise revenue shortens runway',
+        recommendation: {
+          title: 'Stage enterprise hiring',
+          ownerHint: undefined,
+          dueDateHint: undefined,
+          priority: 'medium',
+          rationale: 'Protect runway',
+        },
+        round: 2,
+      },
+      {
+        personaId: 'cfo',
+        personaName: 'CFO',
+        against: 'cmo',
+        point: 'Paid social spend is not paying back',
+        recommendation: null,
+        round: 2,
+      },
+    ]);
+
+    expect(parseDebatePayload('Not JSON', { personaId: 'cfo', personaName: 'CFO', round: 2 })).toMatchObject({
+      summary: 'Not JSON',
+      agreements: [],
+      dissent: [],
+    });
+  });
+
+  it('records consensus and dissent in the final synthesis', () => {
+    const rebuttal = buildPersonaAnalysis(
+      'cfo',
+      'CFO',
+      parseDebatePayload(
+        JSON.stringify({
+          summary: 'Backs the ICP work, not the hiring plan',
+          agreements: ['Tighten the ICP', 'tighten the ICP.'],
+          dissent: [{ against: 'ceo', point: 'Hiring too early' }],
+        }),
+        { personaId: 'cfo', personaName: 'CFO', round: 2 }
+      ),
+      3,
+      '{}',
+      2
+    );
+
+    const summary = buildMeetingSummary([
+      opening('ceo', 'CEO', 1, ['Hire two enterprise AEs', 'Launch customer advisory board']),
+      opening('cfo', 'CFO', 2, ['Launch customer advisory board']),
+      rebuttal,
+    ]);
+
+    expect(summary.narrative).toBe(
+      'CEO: CEO opening\n\nCFO: CFO opening\n\nCFO (round 2): Backs the ICP work, not the hiring plan'
+    );
+    expect(summary.consensus).toEqual(['Tighten the ICP', 'Launch customer advisory board']);
+    expect(summary.dissent).toEqual([
+      expect.objectContaining({ personaId: 'cfo', against: 'ceo', point: 'Hiring too early', round: 2 }),
+    ]);
+  });
+});
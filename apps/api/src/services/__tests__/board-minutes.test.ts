@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import type { PrismaClient } from '@ocsuite/db';
+
+const { mockCreateEmailTransport } = vi.hoisted(() => ({
+  mockCreateEmailTransport: vi.fn(),
+}));
+
+vi.mock('@ocsuite/db', () => ({
+  TenantMemberRole: { owner: 'owner', admin: 'admin', member: 'member' },
+  createTenantClient: vi.fn(),
+  prisma: {},
+}));
+
+vi.mock('../notification-transports.js', () => ({
+  createEmailTransport: mockCreateEmailTransport,
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  apiLogger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import { BoardMinutesForbiddenError, BoardMinutesStateError, createMinutesExport } from '../board-minutes.js';
+
+function turnContent(summary: string, recommendations: string[]) {
+  return JSON.stringify({
+    summary,
+    risks: ['Runway is nine months'],
+    opportunities: [],
+    recommendations: recommendations.map((title) => ({ title })),
+  });
+}
+
+function createDb(options: { endedAt?: Date | null } = {}) {
+  const meeting = {
+    id: 'meeting-abc123',
+    tenantId: 'tenant-1',
+    agenda: [
+      { title: 'Pipeline review', personaId: 'ceo' },
+      { title: 'Cash position', personaId: 'cfo' },
+    ],
+    startedAt: new Date('2025-11-20T09:00:00.000Z'),
+    endedAt: options.endedAt === undefined ? new Date('2025-11-20T09:30:00.000Z') : options.endedAt,
+    outcomeSummary: null,
+    metadata: {
+      requestedBy: 'clerk-organizer',
+      summary: {
+        narrative: 'CEO: Pipeline is healthy\n\nCFO: Cash is tight',
+        nextSteps: ['Hire two enterprise AEs'],
+        consensus: ['Tighten the ICP'],
+        dissent: [{ personaId: 'cfo', personaName: 'CFO', against: 'ceo', point: 'Hiring too early', round: 2 }],
+      },
+    },
+    personaTurns: [
+      { persona: 'ceo', sequence: 1, content: turnContent('Pipeline is healthy', ['Hire two enterprise AEs']), metrics: { personaName: 'CEO' } },
+      { persona: 'cfo', sequence: 2, content: turnContent('Cash is tight', []), metrics: { personaName: 'CFO' } },
+      { persona: 'cfo', sequence: 3, content: turnContent('Backs the ICP work', []), metrics: { personaName: 'CFO', round: 2 } },
+    ],
+    actionItems: [
+      {
+        title: 'Hire two enterprise AEs',
+        priority: 'high',
+        status: 'open',
+        dueDate: new Date('2025-12-15T00:00:00.000Z'),
+        metadata: {},
+        assignee: { user: { name: 'Dana Lee', email: 'dana@example.com' } },
+      },
+      {
+        title: 'Stage enterprise hiring',
+        priority: 'medium',
+        status: 'open',
+        dueDate: null,
+        metadata: { ownerHint: 'CFO', dueDateHint: 'Next quarter' },
+        assignee: null,
+      },
+    ],
+  };
+
+  const create = vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({
+    id: 'export-1',
+    emailedTo: [],
+    emailedAt: null,
+    createdAt: new Date('2025-11-21T08:00:00.000Z'),
+    ...data,
+  }));
+  const update = vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({
+    ...(await create.mock.results[0]!.value),
+    ...data,
+  }));
+
+  const db = {
+    boardMeeting: { findFirst: vi.fn(async () => meeting) },
+    tenant: { findUnique: vi.fn(async () => ({ name: 'Acme Corp' })) },
+    tenantMember: {
+      findMany: vi.fn(async () => [
+        { userId: 'user-1', user: { email: 'owner@example.com' } },
+        { userId: 'user-2', user: { email: 'member@example.com' } },
+      ]),
+    },
+    user: { findUnique: vi.fn(async () => ({ name: 'Owner', email: 'owner@example.com' })) },
+    boardMinutesExport: { create, update },
+  };
+
+  return { db: db as unknown as PrismaClient, create, update };
+}
+
+function storedContent(create: ReturnType<typeof createDb>['create']): Buffer {
+  return create.mock.calls[0]![0].data.content as Buffer;
+}
+
+describe('board minutes export', () => {
+  beforeEach(() => {
+    mockCreateEmailTransport.mockReset();
+  });
+
+  it('renders formal minutes as Markdown', async () => {
+    const { db, create } = createDb();
+
+    const record = await createMinutesExport(db, {
+      tenantId: 'tenant-1',
+      meetingId: 'meeting-abc123',
+      userId: 'user-1',
+      clerkId: 'clerk-1',
+      tenantRole: 'owner',
+      input: { format: 'markdown' },
+    });
+
+    expect(record).toMatchObject({
+      format: 'markdown',
+      fileName: 'board-minutes-2025-11-20-abc123.md',
+      contentType: 'text/markdown; charset=utf-8',
+      downloadPath: '/board/meetings/meeting-abc123/minutes/export-1/download',
+      emailedTo: [],
+    });
+
+    const markdown = storedContent(create).toString('utf8');
+    expect(markdown).toContain('Acme Corp');
+    expect(markdown).toContain('## Attendees');
+    expect(markdown).toContain('Pipeline review');
+    expect(markdown).toContain('Pipeline is healthy');
+    expect(markdown).toContain('Tighten the ICP');
+    expect(markdown).toContain('Hiring too early');
+    expect(markdown).toContain('| Hire two enterprise AEs | Dana Lee | 2025-12-15 |');
+    expect(markdown).toContain('CFO (suggested)');
+    expect(markdown).toContain('Next quarter');
+    expect(mockCreateEmailTransport).not.toHaveBeenCalled();
+  });
+
+  it('renders PDF and DOCX documents', async () => {
+    const pdf = createDb();
+    await createMinutesExport(pdf.db, {
+      tenantId: 'tenant-1',
+      meetingId: 'meeting-abc123',
+      userId: 'user-1',
+      clerkId: 'clerk-1',
+      tenantRole: 'owner',
+      input: { format: 'pdf' },
+    });
+    const pdfContent = storedContent(pdf.create).toString('latin1');
+    expect(pdfContent.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdfContent.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const docx = createDb();
+    await createMinutesExport(docx.db, {
+      tenantId: 'tenant-1',
+      meetingId: 'meeting-abc123',
+      userId: 'user-1',
+      clerkId: 'clerk-1',
+      tenantRole: 'owner',
+      input: { format: 'docx' },
+    });
+    const archive = await JSZip.loadAsync(storedContent(docx.create));
+    const document = await archive.file('word/document.xml')!.async('string');
+    expect(document).toContain('Pipeline review');
+    expect(document).toContain('Hire two enterprise AEs');
+  });
+
+  it('emails the minutes to members as an attachment', async () => {
+    const send = vi.fn().mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('mailbox full'));
+    const close = vi.fn();
+    mockCreateEmailTransport.mockReturnValue({ send, close });
+    const { db, update } = createDb();
+
+    const record = await createMinutesExport(db, {
+      tenantId: 'tenant-1',
+      meetingId: 'meeting-abc123',
+      userId: 'user-1',
+      clerkId: 'clerk-1',
+      tenantRole: 'owner',
+      input: { format: 'markdown', emailMembers: true },
+    });
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0]![0]).toBe('owner@example.com');
+    expect(send.mock.calls[0]![2]).toEqual([
+      expect.objectContaining({ filename: 'board-minutes-2025-11-20-abc123.md', contentType: 'text/markdown; charset=utf-8' }),
+    ]);
+    expect(close).toHaveBeenCalled();
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ emailedTo: ['user-1'] }) })
+    );
+    expect(record.emailedTo).toEqual(['user-1']);
+    expect(record.emailedAt).not.toBeNull();
+  });
+
+  it('lets the meeting organizer email the minutes', async () => {
+    mockCreateEmailTransport.mockReturnValue({ send: vi.fn().mockResolvedValue(undefined), close: vi.fn() });
+    const { db } = createDb();
+
+    const record = await createMinutesExport(db, {
+      tenantId: 'tenant-1',
+      meetingId: 'meeting-abc123',
+      userId: 'user-2',
+      clerkId: 'clerk-organizer',
+      tenantRole: 'member',
+      input: { format: 'markdown', emailMembers: true },
+    });
+
+    expect(record.emailedTo).toEqual(['user-1', 'user-2']);
+  });
+
+  it('only lets owners, admins and the organizer email the minutes', async () => {
+    const { db, create } = createDb();
+
+    await expect(
+      createMinutesExport(db, {
+        tenantId: 'tenant-1',
+        meetingId: 'meeting-abc123',
+        userId: 'user-2',
+        clerkId: 'clerk-2',
+        tenantRole: 'member',
+        input: { format: 'markdown', emailMembers: true },
+      })
+    ).rejects.toBeInstanceOf(BoardMinutesForbiddenError);
+    expect(create).not.toHaveBeenCalled();
+    expect(mockCreateEmailTransport).not.toHaveBeenCalled();
+
+    await createMinutesExport(db, {
+      tenantId: 'tenant-1',
+      meetingId: 'meeting-abc123',
+      userId: 'user-2',
+      clerkId: 'clerk-2',
+      tenantRole: 'member',
+      input: { format: 'markdown' },
+    });
+    expect(create).toHaveBeenCalled();
+  });
+
+  it('refuses meetings that have not finished', async () => {
+    const { db, create } = createDb({ endedAt: null });
+
+    await expect(
+      createMinutesExport(db, {
+        tenantId: 'tenant-1',
+        meetingId: 'meeting-abc123',
+        userId: 'user-1',
+        clerkId: 'clerk-1',
+        tenantRole: 'owner',
+        input: { format: 'pdf' },
+      })
+    ).rejects.toBeInstanceOf(BoardMinutesStateError);
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,298 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  buildChatTools,
+  findPendingToolCalls,
+  isResumable,
+  runChatToolLoop,
+  runPendingToolCalls,
+  type ChatLoopContext,
+  type ChatLoopEvent,
+} from '../chat-tools.js';
+import type { RegisteredCapability } from '../../modules/registry.js';
+
+const { mockStreamCompletion, mockExecuteModuleCapability, mockSubmitActionApproval } = vi.hoisted(() => ({
+  mockStreamCompletion: vi.fn(),
+  mockExecuteModuleCapability: vi.fn(),
+  mockSubmitActionApproval: vi.fn(),
+}));
+
+vi.mock('../llm/llm-client.js', () => ({
+  streamCompletion: mockStreamCompletion,
+}));
+
+vi.mock('../../modules/registry.js', () => ({
+  executeModuleCapability: mockExecuteModuleCapability,
+  listModuleCapabilities: vi.fn(async () => []),
+}));
+
+vi.mock('../action-approvals.js', () => ({
+  submitActionApproval: mockSubmitActionApproval,
+}));
+
+const growthPulse: RegisteredCapability = {
+  moduleSlug: 'growth-pulse',
+  capability: 'growth-pulse',
+  mutating: false,
+  definition: {
+    name: 'growth-pulse',
+    version: '1.0.0',
+    description: 'Analyzes revenue trends and provides growth insights',
+    inputsSchema: {
+      type: 'object',
+      properties: {
+        tenantId: { type: 'string' },
+        includeForecasts: { type: 'boolean' },
+      },
+      required: ['tenantId'],
+    },
+    outputsSchema: { type: 'object' },
+  },
+};
+
+const campaignSender: RegisteredCapability = {
+  moduleSlug: 'campaigns',
+  capability: 'send-campaign-v1',
+  mutating: true,
+  definition: {
+    name: 'send-campaign-v1',
+    version: '1.0.0',
+    description: 'Sends an email campaign',
+    inputsSchema: {
+      type: 'object',
+      properties: { campaignId: { type: 'string' } },
+      required: ['campaignId'],
+    },
+    outputsSchema: { type: 'object' },
+  },
+};
+
+function completion(content: string, toolCalls?: Array<{ id: string; name: string; arguments: string }>) {
+  return async function* () {
+    if (content) {
+      yield { content, done: false };
+    }
+    yield {
+      content: '',
+      done: true,
+      metadata: { model: 'test-model', provider: 'fireworks' },
+      usage: { inputTokens: 100, outputTokens: 10, reported: true },
+      toolCalls,
+    };
+  };
+}
+
+let mockMessageCreate: ReturnType<typeof vi.fn>;
+let context: ChatLoopContext;
+let events: ChatLoopEvent[];
+
+beforeEach(() => {
+  mockStreamCompletion.mockReset();
+  mockExecuteModuleCapability.mockReset();
+  mockSubmitActionApproval.mockReset();
+  mockMessageCreate = vi.fn().mockResolvedValue({});
+  events = [];
+  context = {
+    db: { message: { create: mockMessageCreate } } as unknown as ChatLoopContext['db'],
+    tenantId: 'tenant-1',
+    userId: 'user_clerk_1',
+    conversationId: 'conversation-1',
+    personaType: 'ceo',
+  };
+});
+
+describe('buildChatTools', () => {
+  it('exposes capabilities without the implied tenantId argument', () => {
+    const tools = buildChatTools([growthPulse, campaignSender]);
+
+    const pulse = tools.get('growth-pulse__growth-pulse');
+    expect(pulse?.definition.parameters).toEqual({
+      type: 'object',
+      properties: { includeForecasts: { type: 'boolean' } },
+      required: [],
+    });
+
+    expect(tools.get('campaigns__send-campaign-v1')?.definition.description).toContain('approval request');
+  });
+});
+
+describe('runChatToolLoop', () => {
+  it('runs read-only tools inline and feeds results back to the model', async () => {
+    mockStreamCompletion
+      .mockImplementationOnce(
+        completion('Let me check.', [{ id: 'call_1', name: 'growth-pulse__growth-pulse', arguments: '{"includeForecasts":true}' }])
+      )
+      .mockImplementationOnce(completion('Revenue is up 12%.'));
+    mockExecuteModuleCapability.mockResolvedValue({ success: true, outputs: { score: 82 } });
+
+    const result = await runChatToolLoop({
+      context,
+      messages: [{ role: 'user', content: 'How are we growing?' }],
+      emit: (event) => events.push(event),
+      tools: buildChatTools([growthPulse]),
+      maxToolRounds: 3,
+    });
+
+    expect(result).toMatchObject({
+      content: 'Revenue is up 12%.',
+      toolRounds: 1,
+      tokens: { input: 200, output: 20, total: 220 },
+    });
+
+    expect(mockExecuteModuleCapability).toHaveBeenCalledWith(
+      expect.objectContaining({
+        moduleSlug: 'growth-pulse',
+        capability: 'growth-pulse',
+        tenantId: 'tenant-1',
+        payload: { includeForecasts: true },
+      })
+    );
+
+    const secondCall = mockStreamCompletion.mock.calls[1]![0];
+    expect(secondCall.messages.slice(-2)).toEqual([
+      {
+        role: 'assistant',
+        content: 'Let me check.',
+        toolCalls: [{ id: 'call_1', name: 'growth-pulse__growth-pulse', arguments: '{"includeForecasts":true}' }],
+      },
+      { role: 'tool', toolCallId: 'call_1', content: JSON.stringify({ outputs: { score: 82 } }) },
+    ]);
+
+    expect(mockMessageCreate.mock.calls.map(([args]) => args.data.role)).toEqual(['assistant', 'tool']);
+    expect(mockMessageCreate.mock.calls[1]![0].data.metadata).toMatchObject({
+      toolCallId: 'call_1',
+      status: 'completed',
+    });
+
+    expect(events.filter((event) => event.type === 'tool_progress').map((event) => event.status)).toEqual([
+      'running',
+      'completed',
+    ]);
+  });
+
+  it('submits mutating capabilities for approval instead of running them', async () => {
+    mockStreamCompletion
+      .mockImplementationOnce(
+        completion('', [{ id: 'call_9', name: 'campaigns__send-campaign-v1', arguments: '{"campaignId":"c-1"}' }])
+      )
+      .mockImplementationOnce(completion('I have queued the campaign for approval.'));
+    mockSubmitActionApproval.mockResolvedValue({
+      approval: { id: 'approval-1' },
+      risk: { score: 35, level: 'low', reasons: [] },
+    });
+
+    await runChatToolLoop({
+      context,
+      messages: [{ role: 'user', content: 'Send the spring campaign' }],
+      emit: (event) => events.push(event),
+      tools: buildChatTools([campaignSender]),
+      maxToolRounds: 3,
+    });
+
+    expect(mockExecuteModuleCapability).not.toHaveBeenCalled();
+    expect(mockSubmitActionApproval).toHaveBeenCalledWith(
+      context.db,
+      expect.objectContaining({
+        tenantId: 'tenant-1',
+        userId: 'user_clerk_1',
+        source: 'chat-tool',
+        payload: { campaignId: 'c-1', moduleSlug: 'campaigns', capability: 'send-campaign-v1' },
+        persona: 'ceo',
+      })
+    );
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'tool_progress', status: 'pending_approval', approvalId: 'approval-1' })
+    );
+  });
+
+  it('reports unknown tools and bad arguments back to the model', async () => {
+    mockStreamCompletion
+      .mockImplementationOnce(completion('', [{ id: 'call_1', name: 'growth-pulse__growth-pulse', arguments: '[1,2]' }]))
+      .mockImplementationOnce(completion('Sorry, I could not run that.'));
+
+    await runChatToolLoop({
+      context,
+      messages: [{ role: 'user', content: 'Check growth' }],
+      emit: (event) => events.push(event),
+      tools: buildChatTools([growthPulse]),
+      maxToolRounds: 3,
+    });
+
+    expect(mockExecuteModuleCapability).not.toHaveBeenCalled();
+    expect(mockMessageCreate.mock.calls[1]![0].data).toMatchObject({
+      role: 'tool',
+      content: JSON.stringify({ error: 'Tool arguments must be a JSON object' }),
+    });
+  });
+
+  it('withholds tools once the round limit is reached', async () => {
+    mockStreamCompletion
+      .mockImplementationOnce(completion('', [{ id: 'call_1', name: 'growth-pulse__growth-pulse', arguments: '{}' }]))
+      .mockImplementationOnce(completion('Final answer.'));
+    mockExecuteModuleCapability.mockResolvedValue({ success: true, outputs: {} });
+
+    const result = await runChatToolLoop({
+      context,
+      messages: [{ role: 'user', content: 'Check growth' }],
+      emit: () => undefined,
+      tools: buildChatTools([growthPulse]),
+      maxToolRounds: 1,
+    });
+
+    expect(mockStreamCompletion.mock.calls[0]![0].tools).toHaveLength(1);
+    expect(mockStreamCompletion.mock.calls[1]![0].tools).toBeUndefined();
+    expect(result.content).toBe('Final answer.');
+  });
+});
+
+describe('resuming interrupted turns', () => {
+  const toolCallTurn = {
+    role: 'assistant' as const,
+    metadata: {
+      toolCalls: [
+        { id: 'call_1', name: 'growth-pulse__growth-pulse', arguments: '{}' },
+        { id: 'call_2', name: 'growth-pulse__growth-pulse', arguments: '{}' },
+      ],
+    },
+  };
+
+  it('finds tool calls without persisted results', () => {
+    const history = [
+      { role: 'user' as const, metadata: null },
+      toolCallTurn,
+      { role: 'tool' as const, metadata: { toolCallId: 'call_1' } },
+    ];
+
+    expect(findPendingToolCalls(history).map((call) => call.id)).toEqual(['call_2']);
+    expect(isResumable(history)).toBe(true);
+  });
+
+  it('treats a completed answer as nothing to resume', () => {
+    expect(
+      isResumable([
+        { role: 'user', metadata: null },
+        { role: 'assistant', metadata: { model: 'test-model' } },
+      ])
+    ).toBe(false);
+    expect(isResumable([{ role: 'user', metadata: null }])).toBe(true);
+  });
+
+  it('persists results for pending calls', async () => {
+    mockExecuteModuleCapability.mockResolvedValue({ success: true, outputs: { score: 50 } });
+
+    await runPendingToolCalls(
+      [{ id: 'call_2', name: 'growth-pulse__growth-pulse', arguments: '{}' }],
+      context,
+      (event) => events.push(event),
+      buildChatTools([growthPulse])
+    );
+
+    expect(mockMessageCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        role: 'tool',
+        conversationId: 'conversation-1',
+        metadata: expect.objectContaining({ toolCallId: 'call_2', status: 'completed' }),
+      }),
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Connector, PrismaClient } from '@ocsuite/db';
+
+import { buildConnectorHealth, needsTokenRefresh, refreshConnectorToken } from '../connectors/connector-health.js';
+import { notifyConnectorError } from '../notifications.js';
+
+const refreshTokens = vi.fn();
+
+vi.mock('@ocsuite/db', () => ({
+  createTenantClient: vi.fn(),
+  prisma: {},
+  TenantContextError: class TenantContextError extends Error {},
+}));
+
+vi.mock('@ocsuite/crypto', () => ({
+  decryptForTenantWithVersion: vi.fn((value: string) => value.replace(/^enc:/, '')),
+  encryptForTenant: vi.fn((value: string) => `enc:${value}`),
+  getCurrentKeyVersion: vi.fn(() => 2),
+}));
+
+vi.mock('../notifications.js', () => ({
+  notifyConnectorError: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../connectors/providers/index.js', () => ({
+  getConnectorProvider: vi.fn(() => ({ id: 'gmail', label: 'Gmail', refreshTokens })),
+}));
+
+const now = new Date('2025-03-14T12:00:00Z');
+
+function buildConnector(overrides: Partial<Connector> = {}): Connector {
+  return {
+    id: 'connector-1',
+    tenantId: 'tenant-1',
+    provider: 'gmail',
+    status: 'active',
+    encryptedAccessToken: 'enc:old-access',
+    encryptedRefreshToken: 'enc:refresh-1',
+    encryptionKeyVersion: 1,
+    tokenExpiresAt: new Date('2025-03-14T12:10:00Z'),
+    scopes: [],
+    metadata: null,
+    lastSyncedAt: new Date('2025-03-14T06:00:00Z'),
+    lastError: null,
+    lastErrorAt: null,
+    lastRefreshedAt: null,
+    refreshFailureCount: 0,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  } as Connector;
+}
+
+function createDb() {
+  const connector = {
+    update: vi.fn(({ data }: { data: Partial<Connector> }) => Promise.resolve(buildConnector(data))),
+  };
+  const connectorAuditEvent = { create: vi.fn().mockResolvedValue({}) };
+  return { db: { connector, connectorAuditEvent } as unknown as PrismaClient, connector, connectorAuditEvent };
+}
+
+beforeEach(() => {
+  refreshTokens.mockReset();
+  vi.mocked(notifyConnectorError).mockClear();
+});
+
+describe('buildConnectorHealth', () => {
+  it('reports time until expiry and last successful sync', () => {
+    const health = buildConnectorHealth(
+      buildConnector({ tokenExpiresAt: new Date('2025-03-14T14:00:00Z') }),
+      now
+    );
+
+    expect(health).toMatchObject({
+      state: 'healthy',
+      lastSuccessfulSyncAt: '2025-03-14T06:00:00.000Z',
+      expiresInSeconds: 7200,
+      lastError: null,
+    });
+  });
+
+  it('flags tokens inside the refresh window and expired tokens', () => {
+    expect(buildConnectorHealth(buildConnector(), now).state).toBe('expiring');
+    expect(
+      buildConnectorHealth(buildConnector({ tokenExpiresAt: new Date('2025-03-14T11:00:00Z') }), now).state
+    ).toBe('expired');
+  });
+
+  it('surfaces the connector error state with the last error', () => {
+    const health = buildConnectorHealth(
+      buildConnector({
+        status: 'error',
+        lastError: 'Token refresh failed: invalid_grant',
+        lastErrorAt: new Date('2025-03-14T11:30:00Z'),
+      }),
+      now
+    );
+
+    expect(health.state).toBe('error');
+    expect(health.lastError).toEqual({
+      message: 'Token refresh failed: invalid_grant',
+      at: '2025-03-14T11:30:00.000Z',
+    });
+  });
+});
+
+describe('needsTokenRefresh', () => {
+  it('only refreshes expiring tokens that have a refresh token', () => {
+    expect(needsTokenRefresh(buildConnector(), now)).toBe(true);
+    expect(needsTokenRefresh(buildConnector({ encryptedRefreshToken: null }), now)).toBe(false);
+    expect(needsTokenRefresh(buildConnector({ tokenExpiresAt: null }), now)).toBe(false);
+    expect(
+      needsTokenRefresh(buildConnector({ tokenExpiresAt: new Date('2025-03-15T12:00:00Z') }), now)
+    ).toBe(false);
+  });
+});
+
+describe('refreshConnectorToken', () => {
+  it('stores the renewed tokens and resets the failure count', async () => {
+    refreshTokens.mockResolvedValue({
+      accessToken: 'new-access',
+      refreshToken: null,
+      expiresIn: 3600,
+      tokenType: 'Bearer',
+      scopes: [],
+      raw: {},
+    });
+    const { db, connector } = createDb();
+
+    const result = await refreshConnectorToken(db, buildConnector({ refreshFailureCount: 1 }), now);
+
+    expect(result.outcome).toBe('refreshed');
+    expect(refreshTokens).toHaveBeenCalledWith('refresh-1');
+    expect(connector.update).toHaveBeenCalledWith({
+      where: { id: 'connector-1' },
+      data: expect.objectContaining({
+        encryptedAccessToken: 'enc:new-access',
+        encryptedRefreshToken: 'enc:refresh-1',
+        encryptionKeyVersion: 2,
+        tokenExpiresAt: new Date('2025-03-14T13:00:00Z'),
+        lastRefreshedAt: now,
+        refreshFailureCount: 0,
+      }),
+    });
+  });
+
+  it('counts failures without changing status below the threshold', async () => {
+    refreshTokens.mockRejectedValue(new Error('invalid_grant'));
+    const { db, connector } = createDb();
+
+    const result = await refreshConnectorToken(db, buildConnector(), now);
+
+    expect(result.outcome).toBe('failed');
+    const { data } = connector.update.mock.calls[0]![0];
+    expect(data).toMatchObject({ refreshFailureCount: 1, lastError: 'Token refresh failed: invalid_grant' });
+    expect(data).not.toHaveProperty('status');
+    expect(notifyConnectorError).not.toHaveBeenCalled();
+  });
+
+  it('moves the connector to error and notifies owners after repeated failures', async () => {
+    refreshTokens.mockRejectedValue(new Error('invalid_grant'));
+    const { db, connector, connectorAuditEvent } = createDb();
+
+    const result = await refreshConnectorToken(db, buildConnector({ refreshFailureCount: 2 }), now);
+
+    expect(result.outcome).toBe('errored');
+    expect(connector.update.mock.calls[0]![0].data).toMatchObject({ status: 'error', refreshFailureCount: 3 });
+    expect(connectorAuditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ tenantId: 'tenant-1', connectorId: 'connector-1', event: 'error' }),
+    });
+    expect(notifyConnectorError).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({ tenantId: 'tenant-1', connectorId: 'connector-1', failures: 3 })
+    );
+  });
+});
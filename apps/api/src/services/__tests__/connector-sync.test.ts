@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PrismaClient } from '@ocsuite/db';
+
+import { applyConnectorSnapshots, resolveSyncWindowStart } from '../connectors/connector-sync.js';
+import { getConnectorProvider } from '../connectors/providers/index.js';
+import { normalizeTokenResponse } from '../connectors/providers/oauth.js';
+
+vi.mock('@ocsuite/db', () => ({
+  createTenantClient: vi.fn(),
+  TenantContextError: class TenantContextError extends Error {},
+}));
+
+const mockFetch = vi.fn();
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: () => Promise.resolve(body),
+  };
+}
+
+function createSnapshotDb(existing: { id: string; connectorId: string | null; metadata: unknown } | null) {
+  const analyticsSnapshot = {
+    findUnique: vi.fn().mockResolvedValue(existing),
+    create: vi.fn().mockResolvedValue({}),
+    update: vi.fn().mockResolvedValue({}),
+  };
+  return { db: { analyticsSnapshot } as unknown as PrismaClient, analyticsSnapshot };
+}
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  vi.stubGlobal('fetch', mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('resolveSyncWindowStart', () => {
+  it('restarts incremental syncs at the UTC midnight of the last sync', () => {
+    expect(resolveSyncWindowStart(new Date('2025-03-14T17:45:00Z'))).toEqual(new Date('2025-03-14T00:00:00Z'));
+  });
+
+  it('reaches back 30 days on the first sync', () => {
+    expect(resolveSyncWindowStart(null, new Date('2025-03-31T09:00:00Z'))).toEqual(
+      new Date('2025-03-01T00:00:00Z')
+    );
+  });
+});
+
+describe('normalizeTokenResponse', () => {
+  it('splits scopes and reports non-expiring tokens', () => {
+    const tokens = normalizeTokenResponse(
+      'slack',
+      { access_token: 'xoxb-1', token_type: 'bot', scope: 'channels:read,channels:history' },
+      ','
+    );
+
+    expect(tokens).toMatchObject({
+      accessToken: 'xoxb-1',
+      refreshToken: null,
+      expiresIn: null,
+      scopes: ['channels:read', 'channels:history'],
+    });
+  });
+});
+
+describe('applyConnectorSnapshots', () => {
+  const snapshot = {
+    date: '2025-03-14',
+    totals: { revenue: 420, conversions: 3 },
+    metrics: { revenue: 420, successfulCharges: 3 },
+  };
+  const syncedAt = new Date('2025-03-15T00:00:00Z');
+
+  it('creates the day with headline totals when no snapshot exists', async () => {
+    const { db, analyticsSnapshot } = createSnapshotDb(null);
+
+    await applyConnectorSnapshots(db, {
+      tenantId: 'tenant-1',
+      connectorId: 'conn-stripe',
+      provider: 'stripe',
+      snapshots: [snapshot],
+      syncedAt,
+    });
+
+    expect(analyticsSnapshot.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        tenantId: 'tenant-1',
+        connectorId: 'conn-stripe',
+        date: new Date('2025-03-14T00:00:00.000Z'),
+        revenue: 420,
+        conversions: 3,
+        metadata: {
+          connectors: { stripe: { revenue: 420, successfulCharges: 3, syncedAt: syncedAt.toISOString() } },
+        },
+      }),
+    });
+  });
+
+  it('only merges metrics into a day owned by another connector', async () => {
+    const { db, analyticsSnapshot } = createSnapshotDb({
+      id: 'snap-1',
+      connectorId: 'conn-google',
+      metadata: { connectors: { slack: { messages: 12 } } },
+    });
+
+    await applyConnectorSnapshots(db, {
+      tenantId: 'tenant-1',
+      connectorId: 'conn-stripe',
+      provider: 'stripe',
+      snapshots: [snapshot],
+      syncedAt,
+    });
+
+    expect(analyticsSnapshot.update).toHaveBeenCalledWith({
+      where: { id: 'snap-1' },
+      data: {
+        metadata: {
+          connectors: {
+            slack: { messages: 12 },
+            stripe: { revenue: 420, successfulCharges: 3, syncedAt: syncedAt.toISOString() },
+          },
+        },
+      },
+    });
+  });
+});
+
+describe('connector providers', () => {
+  it('rolls Stripe charges up into daily revenue', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        has_more: false,
+        data: [
+          { id: 'ch_1', amount: 10_000, amount_refunded: 2_000, currency: 'usd', status: 'succeeded', created: 1741946400, customer: 'cus_1' },
+          { id: 'ch_2', amount: 5_000, amount_refunded: 0, currency: 'usd', status: 'succeeded', created: 1741950000, customer: 'cus_2' },
+          { id: 'ch_3', amount: 7_500, amount_refunded: 0, currency: 'eur', status: 'succeeded', created: 1741950000 },
+          { id: 'ch_4', amount: 1_000, amount_refunded: 0, currency: 'usd', status: 'failed', created: 1741950000 },
+        ],
+      })
+    );
+
+    const payload = await getConnectorProvider('stripe').sync!({
+      tenantId: 'tenant-1',
+      connectorId: 'conn-stripe',
+      accessToken: 'sk_connected',
+      metadata: { defaultCurrency: 'usd' },
+      since: new Date('2025-03-14T00:00:00Z'),
+    });
+
+    expect(mockFetch.mock.calls[0]![0]).toContain('created%5Bgte%5D=1741910400');
+    expect(payload.documents).toEqual([]);
+    expect(payload.snapshots).toEqual([
+      {
+        date: '2025-03-14',
+        totals: { revenue: 130, conversions: 2 },
+        metrics: {
+          revenue: 130,
+          refunded: 20,
+          successfulCharges: 2,
+          failedCharges: 1,
+          otherCurrencyCharges: 1,
+          payingCustomers: 2,
+        },
+      },
+    ]);
+  });
+
+  it('files Slack history as one document per channel per day', async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({
+          ok: true,
+          channels: [
+            { id: 'C1', name: 'general', is_member: true },
+            { id: 'C2', name: 'random', is_member: false },
+          ],
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          ok: true,
+          messages: [
+            { ts: '1741950000.000200', user: 'U2', text: 'Shipped the pricing page' },
+            { ts: '1741946400.000100', user: 'U1', text: 'Morning all' },
+            { ts: '1741946000.000100', user: 'U3', subtype: 'channel_join', text: 'joined' },
+          ],
+        })
+      );
+
+    const payload = await getConnectorProvider('slack').sync!({
+      tenantId: 'tenant-1',
+      connectorId: 'conn-slack',
+      accessToken: 'xoxb-1',
+      metadata: {},
+      since: new Date('2025-03-14T00:00:00Z'),
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(payload.documents).toHaveLength(1);
+    expect(payload.documents[0]).toMatchObject({
+      externalId: 'slack:C1:2025-03-14',
+      title: '#general — 2025-03-14',
+      content: '[10:00] U1: Morning all\n[11:00] U2: Shipped the pricing page',
+    });
+    expect(payload.snapshots).toEqual([
+      { date: '2025-03-14', metrics: { messages: 2, activeChannels: 1, activeMembers: 2 } },
+    ]);
+  });
+
+  it('surfaces Slack ok:false responses as provider errors', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ ok: false, error: 'invalid_auth' }));
+
+    await expect(
+      getConnectorProvider('slack').sync!({
+        tenantId: 'tenant-1',
+        connectorId: 'conn-slack',
+        accessToken: 'revoked',
+        metadata: {},
+        since: new Date('2025-03-14T00:00:00Z'),
+      })
+    ).rejects.toMatchObject({ name: 'ConnectorProviderError', provider: 'slack' });
+  });
+});
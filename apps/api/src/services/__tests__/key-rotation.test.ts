@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PrismaClient } from '@ocsuite/db';
+import {
+  decryptForTenantWithVersion,
+  encryptForTenant,
+  generateMasterKey,
+  initializeCrypto,
+} from '@ocsuite/crypto';
+
+import { runKeyRotation, verifyKeyRotation, type KeyRotationProgress } from '../key-rotation.js';
+import { KNOWLEDGE_ENCRYPTION_CONTEXT } from '../knowledge-constants.js';
+
+vi.mock('@ocsuite/db', () => ({
+  createTenantClient: vi.fn(),
+  TenantContextError: class TenantContextError extends Error {},
+}));
+
+type Row = Record<string, unknown> & { id: string; encryptionKeyVersion: number };
+
+interface Where {
+  tenantId?: string;
+  encryptionKeyVersion?: { lt: number };
+  id?: { gt: string };
+}
+
+function matches(row: Row, where: Where): boolean {
+  return (
+    (!where.tenantId || row.tenantId === where.tenantId) &&
+    (!where.encryptionKeyVersion || row.encryptionKeyVersion < where.encryptionKeyVersion.lt) &&
+    (!where.id || row.id > where.id.gt)
+  );
+}
+
+function createTable(rows: Row[]) {
+  return {
+    rows,
+    count: vi.fn(async ({ where }: { where: Where }) => rows.filter((row) => matches(row, where)).length),
+    groupBy: vi.fn(async ({ where }: { where: Where }) =>
+      [...new Set(rows.filter((row) => matches(row, where)).map((row) => row.encryptionKeyVersion))].map(
+        (encryptionKeyVersion) => ({ encryptionKeyVersion })
+      )
+    ),
+    findMany: vi.fn(async ({ where, take }: { where: Where; take: number }) =>
+      rows
+        .filter((row) => matches(row, where))
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .slice(0, take)
+        .map((row) => ({ ...row }))
+    ),
+    updateMany: vi.fn(
+      async ({ where, data }: { where: Record<string, unknown>; data: Record<string, unknown> }) => {
+        const matched = rows.filter((row) => Object.entries(where).every(([field, value]) => row[field] === value));
+        matched.forEach((row) => Object.assign(row, data));
+        return { count: matched.length };
+      }
+    ),
+  };
+}
+
+const legacyKey = generateMasterKey();
+let connectors: ReturnType<typeof createTable>;
+let knowledgeEntries: ReturnType<typeof createTable>;
+let db: PrismaClient;
+
+beforeEach(() => {
+  initializeCrypto(legacyKey);
+
+  connectors = createTable(
+    ['c1', 'c2', 'c3'].map((id) => ({
+      id,
+      tenantId: 'tenant-1',
+      encryptedAccessToken: encryptForTenant(`access-${id}`, 'tenant-1', 'connector-tokens'),
+      encryptedRefreshToken: id === 'c3' ? null : encryptForTenant(`refresh-${id}`, 'tenant-1', 'connector-tokens'),
+      encryptionKeyVersion: 1,
+    }))
+  );
+  knowledgeEntries = createTable([
+    {
+      id: 'k1',
+      tenantId: null,
+      content: encryptForTenant('hq note', 'company_hq', KNOWLEDGE_ENCRYPTION_CONTEXT),
+      encryptionKeyVersion: 1,
+      storageKey: null,
+      sourceRef: null,
+    },
+    {
+      id: 'k2',
+      tenantId: 'tenant-1',
+      content: '__external_storage__',
+      encryptionKeyVersion: 1,
+      storageKey: 's3://bucket/k2',
+      sourceRef: { storageStrategy: 'external_s3' },
+    },
+  ]);
+  db = { connector: connectors, knowledgeEntry: knowledgeEntries } as unknown as PrismaClient;
+
+  initializeCrypto({ currentKey: generateMasterKey(), currentKeyVersion: 2, previousKeys: { 1: legacyKey } });
+});
+
+const options = {
+  targetVersion: 2,
+  targets: ['connectors', 'knowledge'] as Array<'connectors' | 'knowledge'>,
+  batchSize: 2,
+  dryRun: false,
+};
+
+describe('runKeyRotation', () => {
+  it('re-encrypts connector tokens and knowledge entries with the current key', async () => {
+    const checkpoints: KeyRotationProgress[] = [];
+
+    const progress = await runKeyRotation(db, options, {
+      onProgress: (checkpoint) => {
+        checkpoints.push(structuredClone(checkpoint));
+      },
+    });
+
+    expect(progress.phase).toBe('completed');
+    expect(progress.counts.connectors).toEqual({ total: 3, processed: 3, failed: 0, skipped: 0 });
+    expect(progress.counts.knowledge).toEqual({ total: 2, processed: 1, failed: 0, skipped: 1 });
+    expect(checkpoints[0]).toMatchObject({ phase: 'connectors', cursors: { connectors: 'c2' } });
+
+    const c1 = connectors.rows.find((row) => row.id === 'c1')!;
+    expect(c1.encryptionKeyVersion).toBe(2);
+    expect(
+      decryptForTenantWithVersion(c1.encryptedRefreshToken as string, 'tenant-1', 'connector-tokens', 2)
+    ).toBe('refresh-c1');
+    expect(connectors.rows.find((row) => row.id === 'c3')!.encryptedRefreshToken).toBeNull();
+    expect(knowledgeEntries.rows.find((row) => row.id === 'k2')!.encryptionKeyVersion).toBe(1);
+  });
+
+  it('resumes after the checkpointed cursor', async () => {
+    const resumeFrom: KeyRotationProgress = {
+      targetVersion: 2,
+      dryRun: false,
+      phase: 'connectors',
+      percentage: 40,
+      cursors: { connectors: 'c2', knowledge: null },
+      counts: {
+        connectors: { total: 3, processed: 2, failed: 0, skipped: 0 },
+        knowledge: { total: 2, processed: 0, failed: 0, skipped: 0 },
+      },
+      failedIds: [],
+      updatedAt: new Date().toISOString(),
+    };
+
+    const progress = await runKeyRotation(db, { ...options, targets: ['connectors'] }, { resumeFrom });
+
+    expect(progress.counts.connectors.processed).toBe(3);
+    expect(connectors.updateMany).toHaveBeenCalledTimes(1);
+    expect(connectors.updateMany.mock.calls[0]![0].where).toMatchObject({ id: 'c3', encryptionKeyVersion: 1 });
+  });
+
+  it('leaves rows untouched on dry runs', async () => {
+    const progress = await runKeyRotation(db, { ...options, dryRun: true });
+
+    expect(progress.counts.connectors.processed).toBe(3);
+    expect(connectors.updateMany).not.toHaveBeenCalled();
+    expect(knowledgeEntries.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('skips rows rewritten after they were read', async () => {
+    const refreshed = encryptForTenant('access-c1-refreshed', 'tenant-1', 'connector-tokens');
+    connectors.findMany.mockImplementationOnce(async () => {
+      const batch = connectors.rows.slice(0, 2).map((row) => ({ ...row }));
+      // A token refresh lands between the read and the write
+      connectors.rows[0]!.encryptedAccessToken = refreshed;
+      return batch;
+    });
+
+    const progress = await runKeyRotation(db, { ...options, targets: ['connectors'] });
+
+    expect(progress.counts.connectors).toEqual({ total: 3, processed: 2, failed: 0, skipped: 1 });
+    expect(connectors.rows[0]).toMatchObject({ encryptedAccessToken: refreshed, encryptionKeyVersion: 1 });
+  });
+
+  it('counts undecryptable rows as failures and keeps going', async () => {
+    connectors.rows[0]!.encryptedAccessToken = encryptForTenant('other', 'tenant-2', 'connector-tokens');
+
+    const progress = await runKeyRotation(db, { ...options, targets: ['connectors'] });
+
+    expect(progress.counts.connectors).toMatchObject({ processed: 2, failed: 1 });
+    expect(progress.failedIds).toEqual(['c1']);
+  });
+
+  it('refuses a target version other than the current key', async () => {
+    await expect(runKeyRotation(db, { ...options, targetVersion: 3 })).rejects.toThrow(
+      'does not match the current master key version 2'
+    );
+  });
+});
+
+describe('verifyKeyRotation', () => {
+  it('reports outdated rows before rotation and retirable keys after it', async () => {
+    const before = await verifyKeyRotation(db, options);
+    expect(before.ok).toBe(false);
+    expect(before.counts.connectors.outdated).toBe(3);
+    expect(before.retirableVersions).toEqual([]);
+
+    await runKeyRotation(db, options);
+    knowledgeEntries.rows.find((row) => row.id === 'k2')!.encryptionKeyVersion = 2;
+
+    const after = await verifyKeyRotation(db, options);
+    expect(after.ok).toBe(true);
+    expect(after.versionsInUse).toEqual([2]);
+    expect(after.retirableVersions).toEqual([1]);
+  });
+
+  it('never marks keys retirable from a tenant-scoped check', async () => {
+    await runKeyRotation(db, options);
+
+    const verification = await verifyKeyRotation(db, { ...options, tenantId: 'tenant-1' });
+
+    expect(verification.retirableVersions).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ModuleWorker, PrismaClient } from '@ocsuite/db';
+
+const { workers } = vi.hoisted(() => ({
+  workers: new Map<string, ModuleWorker>(),
+}));
+
+vi.mock('@ocsuite/db', () => ({
+  createTenantClient: vi.fn(),
+  prisma: {
+    moduleWorker: {
+      findMany: vi.fn(
+        async ({ where }: { where: { moduleSlug?: string; status: { in: string[] }; lastHeartbeatAt: { gte: Date } } }) =>
+          [...workers.values()].filter(
+            (worker) =>
+              (where.moduleSlug === undefined || worker.moduleSlug === where.moduleSlug) &&
+              where.status.in.includes(worker.status) &&
+              worker.lastHeartbeatAt >= where.lastHeartbeatAt.gte
+          )
+      ),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<ModuleWorker> }) => {
+        const updated = { ...workers.get(where.id)!, ...data };
+        workers.set(where.id, updated);
+        return updated;
+      }),
+    },
+  },
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  apiLogger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+import { dispatchToModuleWorker, findRemoteCapability } from '../module-workers.js';
+import {
+  executeModuleCapability,
+  getModuleCapability,
+  listModuleCapabilities,
+  ModuleExecutionError,
+} from '../../modules/registry.js';
+
+const TASK_ID = '5f0c6b1e-2a7d-4c3b-9f1e-8d2a6c4b1e3f';
+
+function capability(name: string, version: string) {
+  return {
+    name,
+    version,
+    description: name,
+    inputsSchema: { type: 'object' },
+    outputsSchema: { type: 'object' },
+  };
+}
+
+function addWorker(
+  id: string,
+  versions: string[],
+  overrides: Partial<ModuleWorker> = {}
+): ModuleWorker {
+  const worker: ModuleWorker = {
+    id,
+    moduleSlug: 'campaigns',
+    endpoint: `http://${id}.internal:4000`,
+    capabilities: versions.map((version) => capability(`send-campaign-v${version.split('.')[0]}`, version)),
+    metadata: null,
+    status: 'healthy',
+    failureCount: 0,
+    lastHeartbeatAt: new Date(),
+    registeredAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+  workers.set(id, worker);
+  return worker;
+}
+
+function taskResult(taskId: string) {
+  const now = new Date().toISOString();
+  return {
+    taskId,
+    success: true,
+    outputs: { sent: 42 },
+    metadata: { durationMs: 12, startedAt: now, completedAt: now },
+  };
+}
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+describe('remote module workers', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    workers.clear();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('routes to the highest compatible version and skips drained workers', async () => {
+    addWorker('old', ['1.1.0']);
+    addWorker('degraded', ['1.4.0'], { status: 'degraded' });
+    addWorker('healthy', ['1.4.0', '2.0.0']);
+    addWorker('unhealthy', ['1.9.0'], { status: 'unhealthy' });
+    addWorker('silent', ['1.8.0'], { lastHeartbeatAt: new Date(Date.now() - 10 * 60 * 1000) });
+
+    const match = await findRemoteCapability({
+      moduleSlug: 'campaigns',
+      capability: 'send-campaign-v1',
+      requiredVersion: '1.2.0',
+    });
+
+    expect(match?.worker.id).toBe('healthy');
+    expect(match?.definition.version).toBe('1.4.0');
+
+    await expect(
+      findRemoteCapability({ moduleSlug: 'campaigns', capability: 'send-campaign-v3', requiredVersion: '3.0.0' })
+    ).resolves.toBeNull();
+  });
+
+  it('sends a TaskExecutionRequest and returns the validated result', async () => {
+    const worker = addWorker('w1', ['1.0.0']);
+    fetchMock.mockImplementation(async (_url: string, init: { body: string }) => {
+      const request = JSON.parse(init.body);
+      return new Response(JSON.stringify(taskResult(request.taskId)), { status: 200 });
+    });
+
+    const result = await dispatchToModuleWorker(
+      { worker, definition: capability('send-campaign-v1', '1.0.0') },
+      { taskId: 'clx-task-1', tenantId: 'tenant-1', actorId: 'user-1', payload: { campaignId: 'cmp_1' } }
+    );
+
+    const [url, init] = fetchMock.mock.calls[0]!;
+    const request = JSON.parse(init.body);
+    expect(url).toBe('http://w1.internal:4000/tasks');
+    expect(request).toMatchObject({
+      capabilityName: 'send-campaign-v1',
+      inputs: { campaignId: 'cmp_1' },
+      context: { tenantId: 'tenant-1', userId: 'user-1', metadata: { controlPlaneTaskId: 'clx-task-1' } },
+    });
+    expect(request.taskId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(result.outputs).toEqual({ sent: 42 });
+    expect(result.metadata.extra).toMatchObject({ remoteWorkerId: 'w1', capabilityVersion: '1.0.0' });
+  });
+
+  it('drains a worker after repeated failed dispatches', async () => {
+    addWorker('w1', ['1.0.0']);
+    fetchMock.mockResolvedValue(new Response('oops', { status: 502 }));
+
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      await expect(
+        dispatchToModuleWorker(
+          { worker: workers.get('w1')!, definition: capability('send-campaign-v1', '1.0.0') },
+          { taskId: TASK_ID, tenantId: 'tenant-1', actorId: 'user-1', payload: {} }
+        )
+      ).rejects.toMatchObject({ name: 'RemoteDispatchError', delivered: true });
+    }
+
+    expect(workers.get('w1')).toMatchObject({ status: 'unhealthy', failureCount: 3 });
+    await expect(
+      findRemoteCapability({ moduleSlug: 'campaigns', capability: 'send-campaign-v1', requiredVersion: '1.0.0' })
+    ).resolves.toBeNull();
+  });
+
+  it('executes remote-only capabilities and fails when no worker can take them', async () => {
+    fetchMock.mockImplementation(async (_url: string, init: { body: string }) => {
+      const request = JSON.parse(init.body);
+      return new Response(JSON.stringify(taskResult(request.taskId)), { status: 200 });
+    });
+
+    const context = {
+      moduleSlug: 'campaigns',
+      capability: 'send-campaign-v1',
+      tenantId: 'tenant-1',
+      actorId: 'user-1',
+      taskId: TASK_ID,
+      payload: {},
+      db: {} as PrismaClient,
+      logger: logger as never,
+    };
+
+    await expect(executeModuleCapability(context)).rejects.toBeInstanceOf(ModuleExecutionError);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    addWorker('w1', ['1.0.0']);
+    const result = await executeModuleCapability(context);
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('resolves and lists capabilities only offered by workers', async () => {
+    await expect(getModuleCapability('campaigns', 'send-campaign-v1')).rejects.toBeInstanceOf(ModuleExecutionError);
+
+    addWorker('w1', ['1.0.0']);
+    addWorker('w2', ['1.3.0', '2.0.0'], { status: 'degraded' });
+
+    await expect(getModuleCapability('campaigns', 'send-campaign-v1')).resolves.toMatchObject({
+      moduleSlug: 'campaigns',
+      capability: 'send-campaign-v1',
+      definition: { version: '1.3.0' },
+      mutating: true,
+    });
+
+    const remote = (await listModuleCapabilities()).filter((entry) => entry.moduleSlug === 'campaigns');
+    expect(remote.map(({ capability, definition }) => `${capability}@${definition.version}`)).toEqual([
+      'send-campaign-v1@1.3.0',
+      'send-campaign-v2@2.0.0',
+    ]);
+    expect((await listModuleCapabilities()).some((entry) => entry.moduleSlug === 'growth-pulse')).toBe(true);
+  });
+});
@@ -0,0 +1,352 @@
+import { createServer as createHttpServer, type Server as HttpServer } from 'node:http';
+import { createServer as createTcpServer, type AddressInfo, type Server as TcpServer } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { deliverPendingNotifications, deliveryRetryDelayMs } from '../notification-delivery.js';
+import {
+  createEmailTransport,
+  createSlackTransport,
+  type NotificationTransports,
+} from '../notification-transports.js';
+
+const { mockCreateTenantClient } = vi.hoisted(() => ({
+  mockCreateTenantClient: vi.fn(),
+}));
+
+vi.mock('@ocsuite/db', () => ({
+  createTenantClient: mockCreateTenantClient,
+  prisma: {},
+  TenantContextError: class TenantContextError extends Error {},
+}));
+
+vi.mock('../connectors/connector-sync.js', () => ({
+  decryptConnectorAccessToken: () => 'xoxb-test',
+}));
+
+interface StoredEmail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * Minimal SMTP sink: accepts every message except mail to `rejected@…`,
+ * which gets a permanent 550.
+ */
+function startSmtpSink(received: StoredEmail[]): Promise<TcpServer> {
+  const server = createTcpServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let current: StoredEmail = { from: '', to: [], data: '' };
+
+    socket.write('220 localhost ESMTP sink\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+
+      while (buffer.length) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) {
+            return;
+          }
+          current.data += buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          received.push(current);
+          current = { from: '', to: [], data: '' };
+          socket.write('250 OK queued\r\n');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) {
+          return;
+        }
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250-localhost\r\n250 8BITMIME\r\n');
+        } else if (command === 'MAIL') {
+          current.from = line;
+          socket.write('250 OK\r\n');
+        } else if (command === 'RCPT') {
+          if (line.includes('rejected@')) {
+            socket.write('550 5.1.1 No such user\r\n');
+          } else {
+            current.to.push(line);
+            socket.write('250 OK\r\n');
+          }
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+interface SlackRequest {
+  path: string;
+  authorization?: string;
+  body: Record<string, unknown> | null;
+}
+
+function startSlackMock(requests: SlackRequest[]): Promise<HttpServer> {
+  const server = createHttpServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      requests.push({
+        path: url.pathname,
+        authorization: req.headers.authorization,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : null,
+      });
+
+      res.setHeader('Content-Type', 'application/json');
+      if (url.pathname === '/api/users.lookupByEmail') {
+        const email = url.searchParams.get('email');
+        res.end(
+          JSON.stringify(
+            email === 'owner@example.com' ? { ok: true, user: { id: 'U123' } } : { ok: false, error: 'users_not_found' }
+          )
+        );
+      } else if (url.pathname === '/api/chat.postMessage') {
+        res.end(JSON.stringify({ ok: true }));
+      } else {
+        res.statusCode = 503;
+        res.end(JSON.stringify({ ok: false }));
+      }
+    });
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+type Row = Record<string, any>;
+
+function createDb(rows: Row[], options: { slackConnector?: boolean } = {}) {
+  return {
+    notification: {
+      findMany: vi.fn(async ({ where, take }: { where: Row; take: number }) =>
+        rows
+          .filter(
+            (row) =>
+              row.deliveryStatus === where.deliveryStatus &&
+              row.nextDeliveryAt &&
+              row.nextDeliveryAt <= where.nextDeliveryAt.lte
+          )
+          .slice(0, take)
+          .map((row) => ({ ...row }))
+      ),
+      updateMany: vi.fn(async ({ where, data }: { where: Row; data: Row }) => {
+        const row = rows.find(
+          (entry) =>
+            entry.id === where.id &&
+            entry.deliveryStatus === where.deliveryStatus &&
+            entry.nextDeliveryAt?.getTime() === where.nextDeliveryAt?.getTime()
+        );
+        if (!row) {
+          return { count: 0 };
+        }
+        row.deliveryAttempts += data.deliveryAttempts.increment;
+        row.nextDeliveryAt = data.nextDeliveryAt;
+        return { count: 1 };
+      }),
+      update: vi.fn(async ({ where, data }: { where: Row; data: Row }) => {
+        const row = rows.find((entry) => entry.id === where.id)!;
+        Object.assign(row, data);
+        return row;
+      }),
+    },
+    connector: {
+      findFirst: vi.fn(async () =>
+        options.slackConnector ? { id: 'connector-1', tenantId: 'tenant-1', provider: 'slack' } : null
+      ),
+    },
+    $disconnect: vi.fn(),
+  };
+}
+
+const now = new Date('2025-03-05T10:00:00Z');
+
+function notification(overrides: Row): Row {
+  return {
+    id: 'n1',
+    tenantId: 'tenant-1',
+    userId: 'user-1',
+    type: 'alert.triggered',
+    payload: { alertId: 'alert-1', severity: 'critical', summary: 'Revenue dropped 40%' },
+    channel: 'email',
+    deliveryStatus: 'pending',
+    deliveryAttempts: 0,
+    nextDeliveryAt: new Date('2025-03-05T09:59:00Z'),
+    lastDeliveryError: null,
+    deliveredAt: null,
+    createdAt: new Date('2025-03-05T09:59:00Z'),
+    user: { email: 'owner@example.com', name: 'Olive Owner' },
+    ...overrides,
+  };
+}
+
+describe('deliverPendingNotifications', () => {
+  const emails: StoredEmail[] = [];
+  const slackRequests: SlackRequest[] = [];
+  let smtpServer: TcpServer;
+  let slackServer: HttpServer;
+  let transports: NotificationTransports;
+
+  beforeAll(async () => {
+    smtpServer = await startSmtpSink(emails);
+    slackServer = await startSlackMock(slackRequests);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => smtpServer.close(resolve));
+    await new Promise((resolve) => slackServer.close(resolve));
+  });
+
+  beforeEach(() => {
+    emails.length = 0;
+    slackRequests.length = 0;
+    const slackUrl = `http://127.0.0.1:${(slackServer.address() as AddressInfo).port}`;
+    transports = {
+      email: createEmailTransport({
+        host: '127.0.0.1',
+        port: (smtpServer.address() as AddressInfo).port,
+        secure: false,
+        user: null,
+        password: null,
+        from: 'OC-Suite <notifications@example.com>',
+      }),
+      slack: createSlackTransport({ apiUrl: `${slackUrl}/api` }),
+    };
+  });
+
+  it('sends email through SMTP and marks the notification delivered', async () => {
+    const rows = [notification({})];
+    mockCreateTenantClient.mockReturnValue(createDb(rows));
+
+    const totals = await deliverPendingNotifications('tenant-1', { transports, now });
+
+    expect(totals).toEqual({ delivered: 1, retrying: 0, failed: 0 });
+    expect(emails).toHaveLength(1);
+    expect(emails[0]!.to[0]).toContain('owner@example.com');
+    expect(emails[0]!.data).toContain('Subject: [Critical] Revenue dropped 40%');
+    expect(emails[0]!.data).toContain('Hi Olive Owner,');
+    expect(rows[0]).toMatchObject({ deliveryStatus: 'delivered', deliveryAttempts: 1, nextDeliveryAt: null });
+  });
+
+  it('marks permanent SMTP rejections as failed without retrying', async () => {
+    const rows = [notification({ user: { email: 'rejected@example.com', name: null } })];
+    mockCreateTenantClient.mockReturnValue(createDb(rows));
+
+    const totals = await deliverPendingNotifications('tenant-1', { transports, now });
+
+    expect(totals.failed).toBe(1);
+    expect(rows[0]!.deliveryStatus).toBe('failed');
+    expect(rows[0]!.lastDeliveryError).toContain('SMTP delivery failed');
+  });
+
+  it('direct messages Slack users through the tenant bot', async () => {
+    const rows = [
+      notification({
+        channel: 'slack_stub',
+        type: 'action-approval.submitted',
+        payload: { approvalId: 'a1', moduleSlug: 'growth-pulse', risk: { level: 'high', reasons: ['broad scope'] } },
+      }),
+    ];
+    mockCreateTenantClient.mockReturnValue(createDb(rows, { slackConnector: true }));
+
+    const totals = await deliverPendingNotifications('tenant-1', { transports, now });
+
+    expect(totals.delivered).toBe(1);
+    expect(slackRequests.map((request) => request.path)).toEqual([
+      '/api/users.lookupByEmail',
+      '/api/chat.postMessage',
+    ]);
+    expect(slackRequests[1]!.authorization).toBe('Bearer xoxb-test');
+    expect(slackRequests[1]!.body).toMatchObject({ channel: 'U123' });
+    expect(slackRequests[1]!.body!.text).toContain('*Approval needed: growth-pulse (high risk)*');
+  });
+
+  it('fails Slack delivery permanently when the member has no Slack account', async () => {
+    const rows = [notification({ channel: 'slack_stub', user: { email: 'ghost@example.com', name: null } })];
+    mockCreateTenantClient.mockReturnValue(createDb(rows, { slackConnector: true }));
+
+    await deliverPendingNotifications('tenant-1', { transports, now });
+
+    expect(rows[0]).toMatchObject({ deliveryStatus: 'failed' });
+    expect(rows[0]!.lastDeliveryError).toContain('users_not_found');
+  });
+
+  it('fails Slack delivery when the tenant has no Slack connector', async () => {
+    const rows = [notification({ channel: 'slack_stub' })];
+    mockCreateTenantClient.mockReturnValue(createDb(rows));
+
+    const totals = await deliverPendingNotifications('tenant-1', { transports, now });
+
+    expect(totals.failed).toBe(1);
+    expect(rows[0]!.lastDeliveryError).toBe('Slack is not connected for this workspace');
+    expect(slackRequests).toHaveLength(0);
+  });
+
+  it('schedules a retry with backoff after a transient failure', async () => {
+    const rows = [notification({ channel: 'slack_stub', deliveryAttempts: 1 })];
+    mockCreateTenantClient.mockReturnValue(createDb(rows, { slackConnector: true }));
+    const failingSlack = createSlackTransport({ apiUrl: `http://127.0.0.1:${(slackServer.address() as AddressInfo).port}/down` });
+
+    const totals = await deliverPendingNotifications('tenant-1', {
+      transports: { ...transports, slack: failingSlack },
+      now,
+      maxAttempts: 3,
+    });
+
+    expect(totals.retrying).toBe(1);
+    expect(rows[0]).toMatchObject({ deliveryStatus: 'pending', deliveryAttempts: 2 });
+    expect(rows[0]!.nextDeliveryAt).toEqual(new Date(now.getTime() + deliveryRetryDelayMs(2)));
+    expect(rows[0]!.lastDeliveryError).toContain('HTTP 503');
+  });
+
+  it('gives up once the attempt limit is reached', async () => {
+    const rows = [notification({ channel: 'slack_stub', deliveryAttempts: 2 })];
+    mockCreateTenantClient.mockReturnValue(createDb(rows, { slackConnector: true }));
+    const failingSlack = createSlackTransport({ apiUrl: `http://127.0.0.1:${(slackServer.address() as AddressInfo).port}/down` });
+
+    await deliverPendingNotifications('tenant-1', {
+      transports: { ...transports, slack: failingSlack },
+      now,
+      maxAttempts: 3,
+    });
+
+    expect(rows[0]).toMatchObject({ deliveryStatus: 'failed', deliveryAttempts: 3, nextDeliveryAt: null });
+  });
+
+  it('fails email immediately when SMTP is not configured', async () => {
+    const rows = [notification({})];
+    mockCreateTenantClient.mockReturnValue(createDb(rows));
+
+    await deliverPendingNotifications('tenant-1', { transports: { ...transports, email: null }, now });
+
+    expect(rows[0]).toMatchObject({ deliveryStatus: 'failed' });
+    expect(rows[0]!.lastDeliveryError).toContain('not configured');
+  });
+});
+
+describe('deliveryRetryDelayMs', () => {
+  it('doubles up to an hour', () => {
+    expect(deliveryRetryDelayMs(1)).toBe(60_000);
+    expect(deliveryRetryDelayMs(3)).toBe(240_000);
+    expect(deliveryRetryDelayMs(20)).toBe(3_600_000);
+  });
+});
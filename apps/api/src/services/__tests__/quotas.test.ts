@@ -0,0 +1,230 @@
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { config } from '../../config/index.js';
+import { errorHandler } from '../../middleware/error-handler.js';
+import { enforceQuota } from '../../middleware/quota.js';
+import { evaluateQuotaMetric, getQuotaPeriod, getQuotaStatus, recordUsage } from '../quotas.js';
+
+const {
+  mockTenantFindUnique,
+  mockAggregate,
+  mockWidgetCount,
+  mockApplyBillingUsageDelta,
+  mockNotifyQuotaThreshold,
+} = vi.hoisted(() => ({
+  mockTenantFindUnique: vi.fn(),
+  mockAggregate: vi.fn(),
+  mockWidgetCount: vi.fn(),
+  mockApplyBillingUsageDelta: vi.fn(),
+  mockNotifyQuotaThreshold: vi.fn(),
+}));
+
+vi.mock('@ocsuite/db', () => ({
+  prisma: {
+    tenant: { findUnique: mockTenantFindUnique },
+  },
+  createTenantClient: vi.fn(() => ({
+    billingUsage: { aggregate: mockAggregate },
+    tenantWidget: { count: mockWidgetCount },
+    $disconnect: vi.fn().mockResolvedValue(undefined),
+  })),
+  TenantContextError: class TenantContextError extends Error {},
+}));
+
+vi.mock('../billing.js', () => ({
+  applyBillingUsageDelta: mockApplyBillingUsageDelta,
+}));
+
+vi.mock('../notifications.js', () => ({
+  notifyQuotaThreshold: mockNotifyQuotaThreshold,
+}));
+
+function mockUsage(usage: { tokensUsed?: number; tasksExecuted?: number; videoMinutes?: number; widgets?: number }) {
+  mockAggregate.mockResolvedValue({
+    _sum: {
+      tokensUsed: usage.tokensUsed ?? null,
+      tasksExecuted: usage.tasksExecuted ?? null,
+      videoMinutes: usage.videoMinutes ?? null,
+    },
+  });
+  mockWidgetCount.mockResolvedValue(usage.widgets ?? 0);
+}
+
+beforeEach(() => {
+  mockTenantFindUnique.mockReset().mockResolvedValue({ plan: 'free' });
+  mockAggregate.mockReset();
+  mockWidgetCount.mockReset();
+  mockApplyBillingUsageDelta.mockReset().mockResolvedValue({});
+  mockNotifyQuotaThreshold.mockReset().mockResolvedValue(true);
+  mockUsage({});
+  config.quotas.enforcement = 'enforce';
+});
+
+describe('evaluateQuotaMetric', () => {
+  it('classifies usage against the 80% and 100% thresholds', () => {
+    expect(evaluateQuotaMetric('tokens', 79, 100).state).toBe('ok');
+    expect(evaluateQuotaMetric('tokens', 80, 100).state).toBe('warning');
+    expect(evaluateQuotaMetric('tokens', 100, 100).state).toBe('exceeded');
+    expect(evaluateQuotaMetric('tokens', 5_000, null)).toEqual({
+      metric: 'tokens',
+      used: 5_000,
+      limit: null,
+      ratio: null,
+      state: 'ok',
+    });
+  });
+});
+
+describe('getQuotaStatus', () => {
+  it('sums the current month of billing usage against the tenant plan', async () => {
+    mockTenantFindUnique.mockResolvedValue({ plan: 'starter' });
+    mockUsage({ tokensUsed: 850_000, tasksExecuted: 10, videoMinutes: 60, widgets: 2 });
+
+    const now = new Date(2025, 2, 14, 12);
+    const status = await getQuotaStatus('tenant-1', now);
+
+    expect(mockAggregate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          tenantId: 'tenant-1',
+          date: { gte: new Date(2025, 2, 1), lte: new Date(2025, 2, 31) },
+        },
+      })
+    );
+    expect(status.plan).toBe('starter');
+    expect(status.period.key).toBe('2025-03');
+    expect(status.period.resetsAt).toEqual(new Date(2025, 3, 1));
+    expect(status.metrics.tokens).toMatchObject({ used: 850_000, limit: 1_000_000, state: 'warning' });
+    expect(status.metrics.taskExecutions.state).toBe('ok');
+    expect(status.metrics.videoMinutes.state).toBe('exceeded');
+    expect(status.metrics.activeWidgets).toMatchObject({ used: 2, limit: 10 });
+  });
+
+  it('treats tenants without a plan record as free', async () => {
+    mockTenantFindUnique.mockResolvedValue(null);
+
+    const status = await getQuotaStatus('tenant-unknown');
+
+    expect(status.plan).toBe('free');
+    expect(status.enforcement).toBe('block');
+  });
+});
+
+describe('getQuotaPeriod', () => {
+  it('handles year boundaries', () => {
+    const period = getQuotaPeriod(new Date(2025, 11, 31, 23));
+    expect(period.key).toBe('2025-12');
+    expect(period.resetsAt).toEqual(new Date(2026, 0, 1));
+  });
+});
+
+describe('recordUsage', () => {
+  it('notifies when a metered metric crosses a threshold', async () => {
+    mockUsage({ tasksExecuted: 85 });
+
+    await recordUsage({ tenantId: 'tenant-1', deltas: { tasksExecuted: 1 } });
+
+    expect(mockApplyBillingUsageDelta).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      deltas: { tasksExecuted: 1 },
+      event: undefined,
+    });
+    expect(mockNotifyQuotaThreshold).toHaveBeenCalledTimes(1);
+    expect(mockNotifyQuotaThreshold).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        tenantId: 'tenant-1',
+        metric: 'taskExecutions',
+        threshold: 80,
+        used: 85,
+        limit: 100,
+        plan: 'free',
+      })
+    );
+  });
+
+  it('sends the 100% notification once the limit is reached', async () => {
+    mockUsage({ tokensUsed: 120_000 });
+
+    await recordUsage({ tenantId: 'tenant-1', deltas: { tokensUsed: 500 } });
+
+    expect(mockNotifyQuotaThreshold).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ metric: 'tokens', threshold: 100 })
+    );
+  });
+
+  it('ignores metrics that were not part of the delta', async () => {
+    mockUsage({ tokensUsed: 120_000, tasksExecuted: 1 });
+
+    await recordUsage({ tenantId: 'tenant-1', deltas: { tasksExecuted: 1 } });
+
+    expect(mockNotifyQuotaThreshold).not.toHaveBeenCalled();
+  });
+
+  it('does not fail the caller when threshold checks error', async () => {
+    mockAggregate.mockRejectedValue(new Error('database unavailable'));
+
+    await expect(recordUsage({ tenantId: 'tenant-1', deltas: { tokensUsed: 10 } })).resolves.toEqual({});
+  });
+});
+
+describe('enforceQuota middleware', () => {
+  function createApp() {
+    const app = express();
+    app.use((req, _res, next) => {
+      req.tenantId = 'tenant-1';
+      next();
+    });
+    app.post('/chat', enforceQuota('tokens'), (_req, res) => res.status(200).json({ ok: true }));
+    app.use(errorHandler);
+    return app;
+  }
+
+  it('rejects requests with quota_exceeded on plans that block', async () => {
+    mockUsage({ tokensUsed: 100_000 });
+
+    const response = await request(createApp()).post('/chat');
+
+    expect(response.status).toBe(402);
+    expect(response.body).toMatchObject({
+      error: 'quota_exceeded',
+      code: 'QUOTA_EXCEEDED',
+      details: {
+        plan: 'free',
+        metrics: [{ metric: 'tokens', used: 100_000, limit: 100_000 }],
+      },
+    });
+    expect(response.headers['x-quota-warning']).toBe('tokens=100%');
+  });
+
+  it('soft-warns on plans billed for overage', async () => {
+    mockTenantFindUnique.mockResolvedValue({ plan: 'growth' });
+    mockUsage({ tokensUsed: 6_000_000 });
+
+    const response = await request(createApp()).post('/chat');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-quota-warning']).toBe('tokens=120%');
+  });
+
+  it('only warns when enforcement is relaxed to warn', async () => {
+    config.quotas.enforcement = 'warn';
+    mockUsage({ tokensUsed: 150_000 });
+
+    const response = await request(createApp()).post('/chat');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-quota-warning']).toBe('tokens=150%');
+  });
+
+  it('fails open when the quota lookup errors', async () => {
+    mockTenantFindUnique.mockRejectedValue(new Error('database unavailable'));
+
+    const response = await request(createApp()).post('/chat');
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const { mockSubscribe, mockUnsubscribe } = vi.hoisted(() => ({
+  mockSubscribe: vi.fn(),
+  mockUnsubscribe: vi.fn(),
+}));
+
+vi.mock('ioredis', () => ({
+  default: class {
+    on = vi.fn();
+    subscribe = mockSubscribe;
+    unsubscribe = mockUnsubscribe;
+    quit = vi.fn().mockResolvedValue('OK');
+  },
+}));
+
+vi.mock('../../config/index.js', () => ({
+  config: { redisUrl: 'redis://localhost:6379' },
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  createContextLogger: vi.fn(() => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() })),
+}));
+
+import { closeTenantEvents, subscribeToTenantEvents } from '../tenant-events.js';
+
+describe('subscribeToTenantEvents', () => {
+  afterEach(async () => {
+    await closeTenantEvents();
+    mockSubscribe.mockReset();
+    mockUnsubscribe.mockReset();
+  });
+
+  it('retries the Redis subscription after a failed subscribe', async () => {
+    mockSubscribe.mockRejectedValueOnce(new Error('Connection is closed.')).mockResolvedValue(1);
+
+    const first = subscribeToTenantEvents('tenant-1', vi.fn());
+    const joined = subscribeToTenantEvents('tenant-1', vi.fn());
+
+    await expect(first).rejects.toThrow('Connection is closed.');
+    await expect(joined).rejects.toThrow('Connection is closed.');
+
+    const unsubscribe = await subscribeToTenantEvents('tenant-1', vi.fn());
+    expect(mockSubscribe).toHaveBeenCalledTimes(2);
+
+    await unsubscribe();
+    expect(mockUnsubscribe).toHaveBeenCalledWith('tenant-events:tenant-1');
+  });
+
+  it('shares one Redis subscription per tenant', async () => {
+    mockSubscribe.mockResolvedValue(1);
+
+    const unsubscribeFirst = await subscribeToTenantEvents('tenant-2', vi.fn());
+    const unsubscribeSecond = await subscribeToTenantEvents('tenant-2', vi.fn());
+    expect(mockSubscribe).toHaveBeenCalledTimes(1);
+
+    await unsubscribeFirst();
+    expect(mockUnsubscribe).not.toHaveBeenCalled();
+    await unsubscribeSecond();
+    expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
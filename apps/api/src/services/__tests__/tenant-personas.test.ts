@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PrismaClient, TenantPersona as DbTenantPersona } from '@ocsuite/db';
+
+vi.mock('@ocsuite/db', () => ({
+  createTenantClient: vi.fn(),
+  prisma: {},
+}));
+
+vi.mock('../../utils/logger.js', () => ({
+  apiLogger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import {
+  createCustomPersona,
+  deleteCustomPersona,
+  listBoardSeats,
+  listTenantPersonas,
+  resolveTenantPersona,
+  updateTenantPersona,
+  TenantPersonaConflictError,
+  TenantPersonaStateError,
+} from '../tenant-personas.js';
+
+type Key = { tenantId_personaId: { tenantId: string; personaId: string } };
+
+function createDb() {
+  const rows: DbTenantPersona[] = [];
+  let sequence = 0;
+
+  const find = ({ tenantId_personaId: key }: Key) =>
+    rows.find((row) => row.tenantId === key.tenantId && row.personaId === key.personaId) ?? null;
+
+  const build = (data: Partial<DbTenantPersona>): DbTenantPersona => {
+    sequence += 1;
+    return {
+      id: `persona-${sequence}`,
+      custom: false,
+      enabled: true,
+      name: null,
+      tone: null,
+      focus: null,
+      expertise: [],
+      requiredContext: [],
+      maxTokens: null,
+      createdAt: new Date(Date.UTC(2025, 10, 23, 9, sequence)),
+      updatedAt: new Date(Date.UTC(2025, 10, 23, 9, sequence)),
+      ...data,
+    } as DbTenantPersona;
+  };
+
+  const db = {
+    tenantPersona: {
+      findMany: vi.fn(async ({ where }: { where: { tenantId: string } }) =>
+        rows.filter((row) => row.tenantId === where.tenantId)
+      ),
+      findUnique: vi.fn(async ({ where }: { where: Key }) => find(where)),
+      count: vi.fn(
+        async ({ where }: { where: { tenantId: string; custom: boolean } }) =>
+          rows.filter((row) => row.tenantId === where.tenantId && row.custom === where.custom).length
+      ),
+      create: vi.fn(async ({ data }: { data: Partial<DbTenantPersona> }) => {
+        const row = build(data);
+        rows.push(row);
+        return row;
+      }),
+      upsert: vi.fn(
+        async ({ where, create, update }: { where: Key; create: Partial<DbTenantPersona>; update: Partial<DbTenantPersona> }) => {
+          const existing = find(where);
+          if (existing) {
+            Object.assign(existing, update);
+            return existing;
+          }
+          const row = build(create);
+          rows.push(row);
+          return row;
+        }
+      ),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<DbTenantPersona> }) => {
+        const row = rows.find((candidate) => candidate.id === where.id)!;
+        Object.assign(row, data);
+        return row;
+      }),
+      delete: vi.fn(async ({ where }: { where: { id: string } }) => {
+        const index = rows.findIndex((candidate) => candidate.id === where.id);
+        return rows.splice(index, 1)[0];
+      }),
+    },
+  };
+
+  return { rows, client: db as unknown as PrismaClient };
+}
+
+const SUSTAINABILITY = {
+  id: 'head-of-sustainability',
+  name: 'Head of Sustainability',
+  tone: 'measured, evidence-led',
+  focus: 'Weigh the environmental cost of each plan.',
+  expertise: ['emissions', 'supply chain'],
+  requiredContext: ['businessProfile', 'moduleInsights'] as const,
+  maxTokens: 300,
+};
+
+describe('tenant personas', () => {
+  let db: ReturnType<typeof createDb>;
+
+  beforeEach(() => {
+    db = createDb();
+  });
+
+  it('seats the CEO, CFO and CMO until other personas are enabled', async () => {
+    const seats = await listBoardSeats(db.client, 'tenant-1');
+    expect(seats.map((seat) => seat.id)).toEqual(['ceo', 'cfo', 'cmo']);
+
+    const personas = await listTenantPersonas(db.client, 'tenant-1');
+    expect(personas.find((persona) => persona.id === 'cto')).toMatchObject({
+      enabled: false,
+      custom: false,
+      defaultSeat: false,
+    });
+    expect(await resolveTenantPersona(db.client, 'tenant-1', 'cto')).toBeNull();
+  });
+
+  it('enables built-in seats and keeps their definitions read-only', async () => {
+    const cto = await updateTenantPersona(db.client, {
+      tenantId: 'tenant-1',
+      userId: 'member-admin',
+      personaId: 'cto',
+      input: { enabled: true },
+    });
+    expect(cto).toMatchObject({ id: 'cto', enabled: true, custom: false });
+
+    await updateTenantPersona(db.client, {
+      tenantId: 'tenant-1',
+      userId: 'member-admin',
+      personaId: 'cmo',
+      input: { enabled: false },
+    });
+
+    const seats = await listBoardSeats(db.client, 'tenant-1');
+    expect(seats.map((seat) => seat.id)).toEqual(['ceo', 'cfo', 'cto']);
+    // Other tenants are unaffected
+    expect((await listBoardSeats(db.client, 'tenant-2')).map((seat) => seat.id)).toEqual(['ceo', 'cfo', 'cmo']);
+
+    await expect(
+      updateTenantPersona(db.client, {
+        tenantId: 'tenant-1',
+        userId: 'member-admin',
+        personaId: 'cto',
+        input: { tone: 'cheerful' },
+      })
+    ).rejects.toBeInstanceOf(TenantPersonaStateError);
+
+    await expect(
+      updateTenantPersona(db.client, {
+        tenantId: 'tenant-1',
+        userId: 'member-admin',
+        personaId: 'ceo',
+        input: { enabled: false },
+      })
+    ).rejects.toThrow('cannot be disabled');
+  });
+
+  it('stores custom personas with their own tone, context and token budget', async () => {
+    const created = await createCustomPersona(db.client, {
+      tenantId: 'tenant-1',
+      userId: 'member-admin',
+      input: { ...SUSTAINABILITY, requiredContext: [...SUSTAINABILITY.requiredContext] },
+    });
+    expect(created).toMatchObject({ id: 'head-of-sustainability', custom: true, enabled: true, maxTokens: 300 });
+
+    const seat = await resolveTenantPersona(db.client, 'tenant-1', 'head-of-sustainability');
+    expect(seat).toEqual({
+      id: 'head-of-sustainability',
+      name: 'Head of Sustainability',
+      tone: 'measured, evidence-led',
+      focus: 'Weigh the environmental cost of each plan.',
+      expertise: ['emissions', 'supply chain'],
+      requiredContext: ['businessProfile', 'moduleInsights'],
+      maxTokens: 300,
+      streamChunkSize: 100,
+    });
+
+    const updated = await updateTenantPersona(db.client, {
+      tenantId: 'tenant-1',
+      userId: 'member-admin',
+      personaId: 'head-of-sustainability',
+      input: { maxTokens: 500, enabled: false },
+    });
+    expect(updated).toMatchObject({ maxTokens: 500, enabled: false });
+    expect(await resolveTenantPersona(db.client, 'tenant-1', 'head-of-sustainability')).toBeNull();
+
+    await deleteCustomPersona(db.client, { tenantId: 'tenant-1', personaId: 'head-of-sustainability' });
+    expect(db.rows).toHaveLength(0);
+  });
+
+  it('rejects custom ids that clash with built-in or existing personas', async () => {
+    const input = { ...SUSTAINABILITY, requiredContext: [...SUSTAINABILITY.requiredContext] };
+
+    await expect(
+      createCustomPersona(db.client, { tenantId: 'tenant-1', userId: 'member-admin', input: { ...input, id: 'cfo' } })
+    ).rejects.toBeInstanceOf(TenantPersonaConflictError);
+
+    await createCustomPersona(db.client, { tenantId: 'tenant-1', userId: 'member-admin', input });
+    await expect(
+      createCustomPersona(db.client, { tenantId: 'tenant-1', userId: 'member-admin', input })
+    ).rejects.toThrow('Persona head-of-sustainability already exists');
+
+    await expect(
+      deleteCustomPersona(db.client, { tenantId: 'tenant-1', personaId: 'cto' })
+    ).rejects.toBeInstanceOf(TenantPersonaStateError);
+  });
+});
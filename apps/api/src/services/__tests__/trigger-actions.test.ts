@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Alert, Prisma, TriggerRule } from '@ocsuite/db';
+
+import {
+  TRIGGER_ACTION_ACTOR,
+  TRIGGER_ACTION_SOURCE,
+  buildActionContext,
+  parseRuleAction,
+  proposeAlertAction,
+  renderActionPayload,
+} from '../trigger-actions.js';
+
+const { mockSubmitActionApproval } = vi.hoisted(() => ({
+  mockSubmitActionApproval: vi.fn(),
+}));
+
+vi.mock('../action-approvals.js', () => ({
+  submitActionApproval: mockSubmitActionApproval,
+}));
+
+const createdAt = new Date('2025-03-05T10:00:00Z');
+
+const rule = {
+  id: 'rule-1',
+  tenantId: 'tenant-1',
+  name: 'Revenue drop',
+  type: 'condition',
+  config: {
+    action: {
+      moduleSlug: 'growth-pulse',
+      capability: 'runCampaign',
+      payload: {
+        observed: '{{alert.payload.observed}}',
+        reason: 'Revenue fell to {{alert.payload.observed}} ({{rule.name}})',
+        targets: ['{{alert.id}}', 'static'],
+      },
+    },
+  },
+} as unknown as TriggerRule;
+
+const alert = {
+  id: 'alert-1',
+  tenantId: 'tenant-1',
+  ruleId: 'rule-1',
+  type: 'condition',
+  severity: 'critical',
+  title: 'Revenue drop',
+  summary: 'Condition met',
+  payload: { observed: 420 },
+  createdAt,
+} as unknown as Alert;
+
+describe('parseRuleAction', () => {
+  it('reads the template from rule config', () => {
+    expect(parseRuleAction(rule.config)).toMatchObject({ moduleSlug: 'growth-pulse', capability: 'runCampaign' });
+    expect(parseRuleAction({ condition: { type: 'no_data', hours: 1 } })).toBeNull();
+    expect(parseRuleAction({ action: { moduleSlug: 'growth-pulse' } } as Prisma.JsonValue)).toBeNull();
+  });
+});
+
+describe('renderActionPayload', () => {
+  it('maps alert data into the payload', () => {
+    const payload = renderActionPayload(parseRuleAction(rule.config)!, buildActionContext(rule, alert));
+
+    expect(payload).toEqual({
+      observed: 420,
+      reason: 'Revenue fell to 420 (Revenue drop)',
+      targets: ['alert-1', 'static'],
+      moduleSlug: 'growth-pulse',
+      capability: 'runCampaign',
+    });
+  });
+
+  it('resolves unknown placeholders to empty values', () => {
+    const payload = renderActionPayload(
+      { moduleSlug: 'growth-pulse', capability: 'runCampaign', payload: { value: '{{alert.payload.missing}}', note: 'x{{nope}}y' } },
+      buildActionContext(rule, alert)
+    );
+
+    expect(payload).toMatchObject({ value: null, note: 'xy' });
+  });
+});
+
+describe('proposeAlertAction', () => {
+  beforeEach(() => {
+    mockSubmitActionApproval.mockReset();
+  });
+
+  it('submits the rendered action linked to the alert', async () => {
+    mockSubmitActionApproval.mockResolvedValueOnce({ approval: { id: 'approval-1' } });
+    const db = {} as Prisma.TransactionClient;
+
+    const approval = await proposeAlertAction(db, rule, alert);
+
+    expect(approval).toEqual({ id: 'approval-1' });
+    expect(mockSubmitActionApproval).toHaveBeenCalledWith(db, {
+      tenantId: 'tenant-1',
+      userId: TRIGGER_ACTION_ACTOR,
+      source: TRIGGER_ACTION_SOURCE,
+      alertId: 'alert-1',
+      payload: expect.objectContaining({ moduleSlug: 'growth-pulse', observed: 420 }),
+      comment: 'Proposed by trigger rule "Revenue drop" after alert "Revenue drop"',
+    });
+  });
+
+  it('does nothing for rules without a template', async () => {
+    const approval = await proposeAlertAction({} as Prisma.TransactionClient, { ...rule, config: null }, alert);
+
+    expect(approval).toBeNull();
+    expect(mockSubmitActionApproval).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Prisma } from '@ocsuite/db';
+
+import {
+  buildConditionHistory,
+  conditionForRule,
+  conditionRuleSchema,
+  describeConditionTrace,
+  evaluateCondition,
+  previewCondition,
+  type TriggerCondition,
+} from '../trigger-conditions.js';
+
+function snapshot(day: string, values: { sessions?: number; revenue?: number; messages?: number }) {
+  const date = new Date(`${day}T00:00:00Z`);
+  return {
+    date,
+    updatedAt: new Date(`${day}T06:00:00Z`),
+    sessions: values.sessions ?? 0,
+    users: 0,
+    conversions: 0,
+    revenue: values.revenue ?? 0,
+    metadata: (values.messages !== undefined
+      ? { connectors: { slack: { messages: values.messages } } }
+      : null) as Prisma.JsonValue,
+  };
+}
+
+const rows = [
+  snapshot('2025-03-01', { sessions: 100, revenue: 1000, messages: 40 }),
+  snapshot('2025-03-02', { sessions: 110, revenue: 1000, messages: 42 }),
+  snapshot('2025-03-03', { sessions: 90, revenue: 1000, messages: 38 }),
+  snapshot('2025-03-04', { sessions: 50, revenue: 600, messages: 10 }),
+];
+
+const endOfMarch4 = new Date('2025-03-04T23:59:59.999Z');
+
+function evaluate(condition: TriggerCondition, asOf = endOfMarch4) {
+  return evaluateCondition(condition, buildConditionHistory(rows, ['analytics.sessions', 'analytics.revenue', 'connectors.slack.messages']), asOf);
+}
+
+describe('conditionRuleSchema', () => {
+  it('accepts nested AND/OR conditions', () => {
+    const result = conditionRuleSchema.safeParse({
+      type: 'any',
+      conditions: [
+        { type: 'compare', metric: 'analytics.revenue', operator: 'lt', value: 500 },
+        {
+          type: 'all',
+          conditions: [
+            { type: 'change', metric: 'connectors.slack.messages', operator: 'lte', percent: -50, windowDays: 7 },
+            { type: 'no_data', hours: 48 },
+          ],
+        },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects unknown metrics and excessive nesting', () => {
+    expect(
+      conditionRuleSchema.safeParse({ type: 'compare', metric: 'usage.tokens', operator: 'gt', value: 1 }).success
+    ).toBe(false);
+
+    let deep: TriggerCondition = { type: 'no_data', hours: 1 };
+    for (let level = 0; level < 4; level += 1) {
+      deep = { type: 'all', conditions: [deep] };
+    }
+    expect(conditionRuleSchema.safeParse(deep).success).toBe(false);
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('compares the latest value of a metric', () => {
+    const trace = evaluate({ type: 'compare', metric: 'analytics.sessions', operator: 'lt', value: 60 });
+
+    expect(trace).toMatchObject({ matched: true, observed: 50 });
+  });
+
+  it('measures percentage change against the window average', () => {
+    const trace = evaluate({
+      type: 'change',
+      metric: 'connectors.slack.messages',
+      operator: 'lte',
+      percent: -50,
+      windowDays: 3,
+    });
+
+    expect(trace.baseline).toBe(40);
+    expect(trace.observed).toBe(-75);
+    expect(trace.matched).toBe(true);
+  });
+
+  it('combines clauses with all/any', () => {
+    const sessionsDrop = { type: 'compare', metric: 'analytics.sessions', operator: 'lt', value: 60 } as const;
+    const revenueDrop = { type: 'compare', metric: 'analytics.revenue', operator: 'lt', value: 500 } as const;
+
+    expect(evaluate({ type: 'all', conditions: [sessionsDrop, revenueDrop] }).matched).toBe(false);
+    expect(evaluate({ type: 'any', conditions: [sessionsDrop, revenueDrop] }).matched).toBe(true);
+  });
+
+  it('fires no_data once the last snapshot is older than the limit', () => {
+    const condition: TriggerCondition = { type: 'no_data', hours: 36 };
+
+    expect(evaluate(condition, new Date('2025-03-05T12:00:00Z')).matched).toBe(false);
+    expect(evaluate(condition, new Date('2025-03-06T00:00:00Z'))).toMatchObject({ matched: true, observed: 42 });
+  });
+
+  it('only sees data recorded by the evaluation time', () => {
+    const trace = evaluate(
+      { type: 'compare', metric: 'analytics.sessions', operator: 'lt', value: 60 },
+      new Date('2025-03-03T23:59:59.999Z')
+    );
+
+    expect(trace).toMatchObject({ matched: false, observed: 90 });
+  });
+
+  it('describes matched clauses', () => {
+    const trace = evaluate({
+      type: 'all',
+      conditions: [
+        { type: 'compare', metric: 'analytics.sessions', operator: 'lt', value: 60 },
+        { type: 'compare', metric: 'analytics.revenue', operator: 'lte', value: 600 },
+      ],
+    });
+
+    expect(describeConditionTrace(trace)).toBe(
+      'analytics.sessions is 50 (< 60) and analytics.revenue is 600 (<= 600)'
+    );
+  });
+});
+
+describe('previewCondition', () => {
+  it('evaluates once per day over the requested window', async () => {
+    const db = { analyticsSnapshot: { findMany: vi.fn().mockResolvedValue(rows) } };
+
+    const preview = await previewCondition(
+      db as never,
+      'tenant-1',
+      { type: 'compare', metric: 'analytics.sessions', operator: 'lt', value: 100 },
+      { days: 4, now: new Date('2025-03-04T18:00:00Z') }
+    );
+
+    expect(preview.evaluations.map((evaluation) => evaluation.matched)).toEqual([false, false, true, true]);
+    expect(preview.matches).toBe(2);
+    expect(preview.firstMatchAt).toBe('2025-03-03T23:59:59.999Z');
+    expect(preview.lastMatchAt).toBe('2025-03-04T18:00:00.000Z');
+    expect(db.analyticsSnapshot.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tenantId: 'tenant-1', date: { gte: new Date('2025-02-27T00:00:00Z'), lte: new Date('2025-03-04T18:00:00Z') } },
+      })
+    );
+  });
+});
+
+describe('conditionForRule', () => {
+  it('maps analytics threshold rules to a comparison', () => {
+    expect(
+      conditionForRule({ type: 'metric_threshold', metric: 'analytics.revenue', threshold: 500, config: null })
+    ).toEqual({ type: 'compare', metric: 'analytics.revenue', operator: 'gte', value: 500 });
+    expect(
+      conditionForRule({ type: 'metric_threshold', metric: 'usage.tokens_used', threshold: 500, config: null })
+    ).toBeNull();
+  });
+});
@@ -1,16 +1,28 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import type { TenantTransactionClient } from '../trigger-engine.js';
-import { evaluateTenantTriggers } from '../trigger-engine.js';
+import type { PrismaClient } from '@ocsuite/db';
+import type { RaisedAlert, TenantTransactionClient } from '../trigger-engine.js';
+import { evaluateTenantTriggers, followUpRaisedAlerts } from '../trigger-engine.js';
 
-const { mockNotifyAlertRaised, mockTrackTenantEvent } = vi.hoisted(() => ({
-  mockNotifyAlertRaised: vi.fn(),
-  mockTrackTenantEvent: vi.fn(),
-}));
+const { mockNotifyAlertRaised, mockTrackTenantEvent, mockSubmitActionApproval, mockPublishTenantEvent } =
+  vi.hoisted(() => ({
+    mockNotifyAlertRaised: vi.fn(),
+    mockTrackTenantEvent: vi.fn(),
+    mockSubmitActionApproval: vi.fn(),
+    mockPublishTenantEvent: vi.fn(),
+  }));
 
 vi.mock('../notifications.js', () => ({
   notifyAlertRaised: mockNotifyAlertRaised,
 }));
 
+vi.mock('../action-approvals.js', () => ({
+  submitActionApproval: mockSubmitActionApproval,
+}));
+
+vi.mock('../tenant-events.js', () => ({
+  publishTenantEvent: mockPublishTenantEvent,
+}));
+
 vi.mock('../utils/telemetry.js', () => ({
   trackTenantEvent: mockTrackTenantEvent,
 }));
@@ -66,12 +78,16 @@ function createMockDb() {
 
 describe('evaluateTenantTriggers', () => {
   let db: MockDb;
+  let raised: RaisedAlert[];
   const now = new Date('2025-03-05T10:00:00Z');
 
   beforeEach(() => {
     db = createMockDb();
+    raised = [];
     mockNotifyAlertRaised.mockReset();
     mockTrackTenantEvent.mockReset();
+    mockSubmitActionApproval.mockReset();
+    mockPublishTenantEvent.mockReset();
   });
 
   it('fires a scheduled rule and records alert impact', async () => {
@@ -111,7 +127,7 @@ describe('evaluateTenantTriggers', () => {
 
     const triggered = await evaluateTenantTriggers(
       db as unknown as TenantTransactionClient,
-      { tenantId: 'tenant-1', now }
+      { tenantId: 'tenant-1', now, raised }
     );
 
     expect(triggered).toBe(1);
@@ -130,6 +146,7 @@ describe('evaluateTenantTriggers', () => {
       tenantId: 'tenant-1',
       alert: alertRecord,
     });
+    expect(raised).toEqual([{ rule: expect.objectContaining({ id: 'rule-1' }), alert: alertRecord }]);
     expect(db.usageSnapshot.upsert).toHaveBeenCalledTimes(1);
     const usageArgs = db.usageSnapshot.upsert.mock.calls[0][0];
     expect(usageArgs.create).toMatchObject({
@@ -179,7 +196,7 @@ describe('evaluateTenantTriggers', () => {
 
     const triggered = await evaluateTenantTriggers(
       db as unknown as TenantTransactionClient,
-      { tenantId: 'tenant-1', now }
+      { tenantId: 'tenant-1', now, raised }
     );
 
     expect(triggered).toBe(0);
@@ -230,7 +247,7 @@ describe('evaluateTenantTriggers', () => {
 
     const triggered = await evaluateTenantTriggers(
       db as unknown as TenantTransactionClient,
-      { tenantId: 'tenant-9', now }
+      { tenantId: 'tenant-9', now, raised }
     );
 
     expect(triggered).toBe(1);
@@ -248,4 +265,112 @@ describe('evaluateTenantTriggers', () => {
     expect(db.usageSnapshot.upsert).toHaveBeenCalled();
     expect(db.billingUsage.upsert).toHaveBeenCalled();
   });
+
+  it('proposes the rule action for approval when it fires', async () => {
+    const alertRecord = {
+      id: 'alert-456',
+      tenantId: 'tenant-1',
+      ruleId: 'rule-action',
+      type: 'schedule',
+      severity: 'warning',
+      title: 'Weekly cleanup',
+      summary: 'Scheduled rule fired',
+      payload: { schedule: '*/5 * * * *' },
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    } as const;
+
+    db.triggerRule.findMany.mockResolvedValueOnce([
+      {
+        id: 'rule-action',
+        tenantId: 'tenant-1',
+        name: 'Weekly cleanup',
+        type: 'schedule',
+        schedule: '*/5 * * * *',
+        enabled: true,
+        severity: 'warning',
+        lastRunAt: new Date('2025-03-05T09:55:00Z'),
+        lastTriggeredAt: null,
+        metric: null,
+        threshold: null,
+        windowDays: null,
+        config: {
+          action: {
+            moduleSlug: 'growth-pulse',
+            capability: 'runCampaign',
+            payload: { alertTitle: '{{alert.title}}' },
+          },
+        },
+        createdAt: new Date('2025-03-01T00:00:00Z'),
+        updatedAt: new Date('2025-03-01T00:00:00Z'),
+      } as any,
+    ]);
+    db.alert.create.mockResolvedValueOnce(alertRecord);
+    mockSubmitActionApproval.mockResolvedValueOnce({ approval: { id: 'approval-1' } });
+
+    const triggered = await evaluateTenantTriggers(
+      db as unknown as TenantTransactionClient,
+      { tenantId: 'tenant-1', now, raised }
+    );
+
+    expect(triggered).toBe(1);
+    // Nothing is proposed or announced until the evaluation has committed
+    expect(mockSubmitActionApproval).not.toHaveBeenCalled();
+    expect(mockPublishTenantEvent).not.toHaveBeenCalled();
+
+    const client = {} as PrismaClient;
+    await followUpRaisedAlerts(client, raised);
+
+    expect(mockPublishTenantEvent).toHaveBeenCalledWith('tenant-1', 'alert.updated', {
+      alertId: 'alert-456',
+      ruleId: 'rule-action',
+      status: 'pending',
+      severity: 'warning',
+    });
+    expect(mockSubmitActionApproval).toHaveBeenCalledTimes(1);
+    const [submitDb, params] = mockSubmitActionApproval.mock.calls[0];
+    expect(submitDb).toBe(client);
+    expect(params).toMatchObject({
+      tenantId: 'tenant-1',
+      alertId: 'alert-456',
+      source: 'automated-trigger',
+      payload: {
+        moduleSlug: 'growth-pulse',
+        capability: 'runCampaign',
+        alertTitle: 'Weekly cleanup',
+      },
+    });
+  });
+
+  it('keeps the alert when proposing the action fails', async () => {
+    db.triggerRule.findMany.mockResolvedValueOnce([
+      {
+        id: 'rule-action',
+        tenantId: 'tenant-1',
+        name: 'Weekly cleanup',
+        type: 'schedule',
+        schedule: '*/5 * * * *',
+        enabled: true,
+        severity: 'warning',
+        lastRunAt: new Date('2025-03-05T09:55:00Z'),
+        lastTriggeredAt: null,
+        config: { action: { moduleSlug: 'growth-pulse', capability: 'runCampaign' } },
+        createdAt: new Date('2025-03-01T00:00:00Z'),
+        updatedAt: new Date('2025-03-01T00:00:00Z'),
+      } as any,
+    ]);
+    db.alert.create.mockResolvedValueOnce({ id: 'alert-457', tenantId: 'tenant-1', createdAt: now });
+    mockSubmitActionApproval.mockRejectedValueOnce(new Error('boom'));
+
+    const triggered = await evaluateTenantTriggers(
+      db as unknown as TenantTransactionClient,
+      { tenantId: 'tenant-1', now, raised }
+    );
+
+    expect(triggered).toBe(1);
+    expect(db.usageSnapshot.upsert).toHaveBeenCalledTimes(1);
+    await expect(followUpRaisedAlerts({} as PrismaClient, raised)).resolves.toBeUndefined();
+    expect(mockSubmitActionApproval).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1,6 +1,20 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { Prisma } from '@prisma/client';
-import { videoProductionInternals } from '../video-production.js';
+import { prisma } from '@ocsuite/db';
+import {
+  AssemblyAITranscriptionProvider,
+  FfmpegRenderBackend,
+  PLATFORM_SPECS,
+  ShotstackRenderBackend,
+  WhisperCppTranscriptionProvider,
+  exportTranscript,
+} from '@ocsuite/video-core';
+import {
+  TranscriptEditError,
+  TranscriptWordsMissingError,
+  videoProductionInternals,
+  videoProductionService,
+} from '../video-production.js';
 
 describe('video production helpers', () => {
   describe('getErrorMessage', () => {
@@ -120,4 +134,204 @@ describe('video production helpers', () => {
       expect(videoProductionInternals.parseOutputUrls(null)).toBeUndefined();
     });
   });
+
+  describe('createRenderBackend', () => {
+    const settings = {
+      backend: 'auto' as const,
+      ffmpegPath: 'ffmpeg',
+      ffprobePath: 'ffprobe',
+      outputDir: '/tmp/ocsuite-renders',
+      publicUrl: null,
+      timeoutSeconds: 60,
+    };
+
+    it('uses Shotstack when auto and a key is configured', () => {
+      const backend = videoProductionInternals.createRenderBackend(settings, 'shotstack-key');
+      expect(backend).toBeInstanceOf(ShotstackRenderBackend);
+    });
+
+    it('falls back to local ffmpeg without a Shotstack key', () => {
+      const backend = videoProductionInternals.createRenderBackend(settings, undefined);
+      expect(backend).toBeInstanceOf(FfmpegRenderBackend);
+    });
+
+    it('honours an explicit ffmpeg backend even with a key', () => {
+      const backend = videoProductionInternals.createRenderBackend(
+        { ...settings, backend: 'ffmpeg' },
+        'shotstack-key'
+      );
+      expect(backend.name).toBe('ffmpeg');
+    });
+  });
+
+  describe('createTranscriptionProviders', () => {
+    const settings = {
+      provider: 'auto' as const,
+      whisperBinaryPath: 'whisper-cli',
+      whisperModelPath: '/models/ggml-base.en.bin',
+      whisperThreads: null,
+      whisperDiarize: false,
+      timeoutSeconds: 60,
+    };
+
+    it('defaults to AssemblyAI when auto and a key is configured', () => {
+      const { defaultProvider, providers } = videoProductionInternals.createTranscriptionProviders(
+        settings,
+        'assemblyai-key'
+      );
+      expect(defaultProvider).toBe('assemblyai');
+      expect(providers.assemblyai).toBeInstanceOf(AssemblyAITranscriptionProvider);
+      expect(providers.whisper_cpp).toBeInstanceOf(WhisperCppTranscriptionProvider);
+    });
+
+    it('falls back to whisper.cpp without an AssemblyAI key', () => {
+      const { defaultProvider, providers } = videoProductionInternals.createTranscriptionProviders(
+        settings,
+        undefined
+      );
+      expect(defaultProvider).toBe('whisper_cpp');
+      expect(providers.assemblyai).toBeUndefined();
+    });
+
+    it('only registers whisper.cpp when a model is configured', () => {
+      const { defaultProvider, providers } = videoProductionInternals.createTranscriptionProviders(
+        { ...settings, whisperModelPath: null },
+        'assemblyai-key'
+      );
+      expect(defaultProvider).toBe('assemblyai');
+      expect(providers.whisper_cpp).toBeUndefined();
+    });
+
+    it('honours an explicit whisper.cpp provider even with a key', () => {
+      const { defaultProvider } = videoProductionInternals.createTranscriptionProviders(
+        { ...settings, provider: 'whisper_cpp' },
+        'assemblyai-key'
+      );
+      expect(defaultProvider).toBe('whisper_cpp');
+    });
+  });
+
+  describe('resolvePlatformSpec', () => {
+    it('returns the built-in spec for named platforms', () => {
+      expect(videoProductionInternals.resolvePlatformSpec('tiktok')).toBe(PLATFORM_SPECS.tiktok);
+    });
+
+    it('applies a custom spec for the custom platform', () => {
+      expect(
+        videoProductionInternals.resolvePlatformSpec('custom', {
+          aspectRatio: '4:5',
+          width: 1080,
+          height: 1350,
+          maxDuration: 30,
+          format: 'webm',
+        })
+      ).toMatchObject({
+        aspectRatio: '4:5',
+        resolution: { width: 1080, height: 1350 },
+        maxDuration: 30,
+        format: 'webm',
+        fps: 30,
+      });
+    });
+  });
+
+  describe('applyTranscriptEdits', () => {
+    const transcript = {
+      content: 'We use open ai daily. It is amazing!',
+      words: [
+        { text: 'We', start: 0, end: 200, confidence: 0.9 },
+        { text: 'use', start: 200, end: 400, confidence: 0.9 },
+        { text: 'open', start: 400, end: 600, confidence: 0.8 },
+        { text: 'ai', start: 600, end: 800, confidence: 0.7 },
+        { text: 'daily.', start: 800, end: 1000, confidence: 0.9 },
+        { text: 'It', start: 1500, end: 1700, confidence: 0.9 },
+        { text: 'is', start: 1700, end: 1900, confidence: 0.9 },
+        { text: 'amazing!', start: 1900, end: 2400, confidence: 0.9 },
+      ],
+      speakers: [
+        { speaker: 'A', start: 0, end: 1000, text: 'We use open ai daily.', confidence: 0.8 },
+        { speaker: 'B', start: 1500, end: 2400, text: 'It is amazing!', confidence: 0.9 },
+      ],
+    } as unknown as Parameters<typeof videoProductionInternals.applyTranscriptEdits>[0];
+
+    it('rebuilds text, sentences and viral moments from corrected words', () => {
+      const edited = videoProductionInternals.applyTranscriptEdits(transcript, {
+        words: [
+          { index: 2, text: 'OpenAI' },
+          { index: 3, text: 'tools' },
+        ],
+      });
+
+      expect(edited.content).toBe('We use OpenAI tools daily. It is amazing!');
+      expect(edited.words[2]).toEqual({ text: 'OpenAI', start: 400, end: 600, confidence: 0.8 });
+      expect(edited.speakers[0]?.text).toBe('We use OpenAI tools daily.');
+      expect(edited.sentences?.map((sentence) => sentence.text)).toEqual([
+        'We use OpenAI tools daily.',
+        'It is amazing!',
+      ]);
+      expect(edited.viralMoments?.[0]).toMatchObject({ keywords: ['amazing'], start: 0, end: 2400 });
+    });
+
+    it('renames speakers without re-deriving analysis', () => {
+      const edited = videoProductionInternals.applyTranscriptEdits(transcript, {
+        speakers: { A: 'Jane Doe' },
+      });
+
+      expect(edited.speakers.map((segment) => segment.speaker)).toEqual(['Jane Doe', 'B']);
+      expect(edited.content).toBe(transcript.content);
+      expect(edited.sentences).toBeUndefined();
+      expect(edited.viralMoments).toBeUndefined();
+    });
+
+    it('rejects unknown words and speakers', () => {
+      expect(() =>
+        videoProductionInternals.applyTranscriptEdits(transcript, { words: [{ index: 8, text: 'x' }] })
+      ).toThrow(TranscriptEditError);
+      expect(() =>
+        videoProductionInternals.applyTranscriptEdits(transcript, { speakers: { C: 'Sam' } })
+      ).toThrow(TranscriptEditError);
+    });
+
+    it('exports edited transcripts with speaker labels', () => {
+      const edited = videoProductionInternals.applyTranscriptEdits(transcript, {
+        speakers: { A: 'Jane Doe' },
+      });
+      const source = { text: edited.content, words: edited.words, speakers: edited.speakers };
+
+      expect(exportTranscript(source, 'srt')).toBe(
+        '1\n00:00:00,000 --> 00:00:01,000\nJane Doe: We use open ai daily.\n\n' +
+          '2\n00:00:01,500 --> 00:00:02,400\nSpeaker B: It is amazing!\n'
+      );
+      expect(exportTranscript(source, 'vtt')).toBe(
+        'WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n<v Jane Doe>We use open ai daily.\n\n' +
+          '00:00:01.500 --> 00:00:02.400\n<v Speaker B>It is amazing!\n'
+      );
+      expect(exportTranscript(source, 'txt')).toBe(
+        'Jane Doe: We use open ai daily.\n\nSpeaker B: It is amazing!\n'
+      );
+    });
+  });
+
+  describe('exportTranscript', () => {
+    it('refuses subtitle formats for transcripts without word timings', async () => {
+      const findUnique = vi.spyOn(prisma.videoTranscript, 'findUnique').mockResolvedValue({
+        id: 'transcript-1',
+        tenantId: 'tenant-1',
+        content: 'Hello world.',
+        words: [],
+        speakers: [],
+      } as never);
+
+      try {
+        await expect(
+          videoProductionService.exportTranscript('transcript-1', 'tenant-1', 'srt')
+        ).rejects.toBeInstanceOf(TranscriptWordsMissingError);
+        await expect(videoProductionService.exportTranscript('transcript-1', 'tenant-1', 'txt')).resolves.toBe(
+          'Hello world.\n'
+        );
+      } finally {
+        findUnique.mockRestore();
+      }
+    });
+  });
 });
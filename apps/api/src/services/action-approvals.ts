@@ -1,22 +1,39 @@
 import { Prisma } from '@prisma/client';
-import { PrismaClient, ActionApprovalStatus, ActionApproval, Task } from '@ocsuite/db';
+import { createTenantClient, prisma, TenantMemberRole } from '@ocsuite/db';
+import type { PrismaClient, ActionApprovalStatus, ActionApproval, Task } from '@ocsuite/db';
 import { enqueueActionExecution, EnqueueResult } from '../queue/client.js';
 import { calculateActionRisk, ActionPayload } from '../utils/risk-scoring.js';
 import { apiLogger } from '../utils/logger.js';
 import { toJsonValue, toInputJson, parseJsonRecord } from '../utils/json.js';
+import { isValidTimeZone, zonedWallTimeToUtc } from '../utils/timezone.js';
 import {
   notifyActionApprovalSubmitted,
   notifyActionApprovalDecision,
 } from './notifications.js';
+import { publishApprovalUpdate, publishTaskUpdate } from './tenant-events.js';
+import {
+  DEFAULT_APPROVAL_STEPS,
+  parseApprovalPolicySnapshot,
+  resolveApprovalPolicy,
+  resolveApproverIdentities,
+  snapshotApprovalPolicy,
+  type ApprovalPolicyStep,
+} from './approval-policies.js';
 
 export type AuditEventType =
   | 'submitted'
+  | 'step_approved'
   | 'approved'
   | 'rejected'
+  | 'expired'
+  | 'scheduled'
+  | 'canceled'
   | 'enqueued'
   | 'executing'
   | 'completed'
-  | 'failed';
+  | 'failed'
+  | 'rollback_requested'
+  | 'rolled_back';
 
 export type AuditMetadata = Prisma.JsonObject;
 
@@ -30,12 +47,18 @@ export interface AuditEvent {
 
 const AUDIT_EVENT_TYPES = new Set<AuditEventType>([
   'submitted',
+  'step_approved',
   'approved',
   'rejected',
+  'expired',
+  'scheduled',
+  'canceled',
   'enqueued',
   'executing',
   'completed',
   'failed',
+  'rollback_requested',
+  'rolled_back',
 ]);
 
 function toAuditMetadata(metadata?: Record<string, unknown>): AuditMetadata | undefined {
@@ -115,7 +138,12 @@ export interface SubmitActionParams {
   source: string;
   payload: ActionPayload;
   actionItemId?: string;
+  alertId?: string;
   comment?: string;
+  /** Persona that proposed the action, matched against policy criteria */
+  persona?: string;
+  /** Approval whose run this action compensates */
+  rollbackOfId?: string;
 }
 
 export interface SubmitActionResult {
@@ -138,24 +166,75 @@ export interface ListActionFilters {
 
 export interface ApproveActionParams {
   tenantId: string;
+  /** Clerk id, recorded in the audit trail */
   userId: string;
+  /** User.id and role of the caller's membership, used to check policy steps and delegations */
+  tenantUserId: string;
+  tenantRole: TenantMemberRole;
   approvalId: string;
   comment?: string;
+  /** Defers execution instead of enqueueing straight away; final sign-off only */
+  schedule?: ActionScheduleInput;
 }
 
+/**
+ * `task` and `job` are null while later policy steps still need sign-off,
+ * or when execution was scheduled for later.
+ */
 export interface ApproveActionResult {
   approval: ActionApproval;
-  task: Task;
-  job: EnqueueResult;
+  task: Task | null;
+  job: EnqueueResult | null;
 }
 
 export interface RejectActionParams {
   tenantId: string;
   userId: string;
+  tenantUserId: string;
+  tenantRole: TenantMemberRole;
   approvalId: string;
   comment?: string;
 }
 
+/**
+ * `runAt` is either an ISO timestamp with offset, or a wall-clock time
+ * (`2025-11-24T09:00`) read in `timezone`. At least one of `runAt` and
+ * `afterApprovalId` is required.
+ */
+export interface ActionScheduleInput {
+  runAt?: string;
+  timezone?: string;
+  afterApprovalId?: string;
+}
+
+export interface CancelScheduledActionParams {
+  tenantId: string;
+  userId: string;
+  approvalId: string;
+  comment?: string;
+}
+
+export interface RescheduleActionParams {
+  tenantId: string;
+  userId: string;
+  approvalId: string;
+  schedule: ActionScheduleInput;
+}
+
+export const MAX_SCHEDULE_AHEAD_DAYS = 90;
+// Dependency chains longer than this are refused rather than walked
+const MAX_SCHEDULE_CHAIN = 20;
+// A prerequisite in one of these states will never execute
+const DEAD_END_STATUSES: ActionApprovalStatus[] = ['rejected', 'failed', 'canceled'];
+
+// Recorded as the actor of auto-rejections
+const APPROVAL_EXPIRY_ACTOR = 'system-approval-expiry';
+// Recorded when the scheduler, not a person, changes a scheduled action
+const APPROVAL_SCHEDULER_ACTOR = 'system-action-scheduler';
+
+// May reject any pending request regardless of the policy step
+const REJECT_ANY_ROLES: TenantMemberRole[] = [TenantMemberRole.owner, TenantMemberRole.admin];
+
 export class ActionApprovalNotFoundError extends Error {
   constructor(message = 'Action approval not found') {
     super(message);
@@ -170,6 +249,20 @@ export class ActionApprovalStateError extends Error {
   }
 }
 
+export class ActionScheduleError extends Error {
+  constructor(message = 'Invalid execution schedule') {
+    super(message);
+    this.name = 'ActionScheduleError';
+  }
+}
+
+export class ActionApprovalForbiddenError extends Error {
+  constructor(message = 'You are not an eligible approver for this action') {
+    super(message);
+    this.name = 'ActionApprovalForbiddenError';
+  }
+}
+
 export function normalizeAuditLog(value: Prisma.JsonValue | null | undefined): AuditEvent[] {
   if (!value) {
     return [];
@@ -223,20 +316,323 @@ function extractUndoPayload(payload: Record<string, unknown>): Record<string, un
   return null;
 }
 
-export async function submitActionApproval(
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isApprovalExpired(
+  approval: Pick<ActionApproval, 'status' | 'expiresAt'>,
+  now: Date = new Date()
+): boolean {
+  return approval.status === 'pending' && approval.expiresAt !== null && approval.expiresAt <= now;
+}
+
+interface StepProgress {
+  steps: ApprovalPolicyStep[];
+  stepIndex: number;
+  step: ApprovalPolicyStep;
+  /** Sign-offs on the current step that have not outlived the policy's approval TTL */
+  currentApprovals: AuditEvent[];
+  /** Principals and actors that already signed off; each may count once per request */
+  usedPrincipals: Set<string>;
+  usedActors: Set<string>;
+}
+
+function auditMetadataString(event: AuditEvent, key: string): string | undefined {
+  const value = event.metadata?.[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function evaluateStepProgress(approval: ActionApproval, auditLog: AuditEvent[], now: Date): StepProgress {
+  const snapshot = parseApprovalPolicySnapshot(approval.policySnapshot);
+  const steps = snapshot?.steps ?? DEFAULT_APPROVAL_STEPS;
+  const stepIndex = Math.min(approval.currentStep, steps.length - 1);
+  const ttlMs = snapshot?.approvalTtlHours ? snapshot.approvalTtlHours * HOUR_MS : null;
+
+  const currentApprovals: AuditEvent[] = [];
+  const usedPrincipals = new Set<string>();
+  const usedActors = new Set<string>();
+
+  for (const event of auditLog) {
+    if (event.event !== 'step_approved') {
+      continue;
+    }
+
+    const step = event.metadata?.step;
+    if (typeof step !== 'number' || step > stepIndex) {
+      continue;
+    }
+
+    if (step === stepIndex) {
+      if (ttlMs !== null && now.getTime() - new Date(event.at).getTime() > ttlMs) {
+        continue;
+      }
+      currentApprovals.push(event);
+    }
+
+    usedActors.add(event.by);
+    const principal = auditMetadataString(event, 'principalId');
+    if (principal) {
+      usedPrincipals.add(principal);
+    }
+  }
+
+  return { steps, stepIndex, step: steps[stepIndex]!, currentApprovals, usedPrincipals, usedActors };
+}
+
+function describeStep(progress: StepProgress): string {
+  const label = progress.step.name ?? `Step ${progress.stepIndex + 1}`;
+  return `${label} requires ${progress.step.roles.join(' or ')} approval`;
+}
+
+interface ResolvedSchedule {
+  scheduledFor: Date | null;
+  scheduleTimezone: string | null;
+  runAfterApprovalId: string | null;
+}
+
+function parseRunAt(runAt: string, timezone: string | undefined): Date {
+  if (timezone && !isValidTimeZone(timezone)) {
+    throw new ActionScheduleError(`Unknown timezone: ${timezone}`);
+  }
+
+  const wallTime = timezone ? zonedWallTimeToUtc(runAt, timezone) : null;
+  if (wallTime) {
+    return wallTime;
+  }
+
+  // Anything else must carry its own offset so it is never read in server time
+  if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(runAt) || Number.isNaN(Date.parse(runAt))) {
+    throw new ActionScheduleError('runAt must be an ISO timestamp with offset, or a local time with a timezone');
+  }
+
+  return new Date(runAt);
+}
+
+/**
+ * Validates a schedule for `approvalId`: the time must be ahead and within
+ * MAX_SCHEDULE_AHEAD_DAYS, and a prerequisite must belong to the tenant,
+ * still be able to execute, and not (transitively) wait on this approval.
+ */
+async function resolveActionSchedule(
+  db: PrismaClient | Prisma.TransactionClient,
+  params: { tenantId: string; approvalId: string; input: ActionScheduleInput; now: Date }
+): Promise<ResolvedSchedule> {
+  const { tenantId, approvalId, input, now } = params;
+
+  if (!input.runAt && !input.afterApprovalId) {
+    throw new ActionScheduleError('A schedule needs runAt, afterApprovalId or both');
+  }
+
+  let scheduledFor: Date | null = null;
+  if (input.runAt) {
+    scheduledFor = parseRunAt(input.runAt, input.timezone);
+
+    if (scheduledFor <= now) {
+      throw new ActionScheduleError('runAt must be in the future');
+    }
+
+    if (scheduledFor.getTime() - now.getTime() > MAX_SCHEDULE_AHEAD_DAYS * 24 * HOUR_MS) {
+      throw new ActionScheduleError(`runAt may be at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`);
+    }
+  }
+
+  const runAfterApprovalId = input.afterApprovalId ?? null;
+  if (runAfterApprovalId) {
+    let cursor: string | null = runAfterApprovalId;
+
+    for (let depth = 0; cursor; depth += 1) {
+      if (cursor === approvalId) {
+        throw new ActionScheduleError('An action cannot wait on itself');
+      }
+
+      if (depth >= MAX_SCHEDULE_CHAIN) {
+        throw new ActionScheduleError('Prerequisite chain is too long');
+      }
+
+      const prerequisite: Pick<ActionApproval, 'tenantId' | 'status' | 'runAfterApprovalId'> | null =
+        await db.actionApproval.findUnique({
+          where: { id: cursor },
+          select: { tenantId: true, status: true, runAfterApprovalId: true },
+        });
+
+      if (!prerequisite || prerequisite.tenantId !== tenantId) {
+        throw new ActionScheduleError('Prerequisite action not found');
+      }
+
+      if (depth === 0 && DEAD_END_STATUSES.includes(prerequisite.status)) {
+        throw new ActionScheduleError(`Prerequisite action is ${prerequisite.status} and will not execute`);
+      }
+
+      cursor = prerequisite.runAfterApprovalId;
+    }
+  }
+
+  return {
+    scheduledFor,
+    scheduleTimezone: scheduledFor ? input.timezone ?? null : null,
+    runAfterApprovalId,
+  };
+}
+
+function scheduleMetadata(schedule: ResolvedSchedule): Record<string, unknown> {
+  return {
+    scheduledFor: schedule.scheduledFor?.toISOString(),
+    timezone: schedule.scheduleTimezone ?? undefined,
+    afterApprovalId: schedule.runAfterApprovalId ?? undefined,
+  };
+}
+
+function upsertExecutionTask(
+  tx: Prisma.TransactionClient,
+  params: { tenantId: string; userId: string; approval: ActionApproval }
+): Promise<Task> {
+  const { tenantId, userId, approval } = params;
+  const payloadRecord = payloadToRecord(approval.payload);
+
+  return tx.task.upsert({
+    where: { actionApprovalId: approval.id },
+    update: {
+      status: 'pending',
+      payload: toInputJson(approval.payload),
+      moduleSlug: extractModuleSlug(payloadRecord) ?? null,
+      priority: 'normal',
+      queueName: null,
+      jobId: null,
+      error: null,
+      result: Prisma.JsonNull,
+    },
+    create: {
+      tenantId,
+      userId,
+      type: 'action-execution',
+      status: 'pending',
+      priority: 'normal',
+      payload: toInputJson(approval.payload),
+      moduleSlug: extractModuleSlug(payloadRecord) ?? null,
+      actionApprovalId: approval.id,
+    },
+  });
+}
+
+/**
+ * Hands an approved action to the executor queue and records the job on the
+ * task and audit trail. A failed enqueue marks the approval failed and rethrows.
+ */
+async function enqueueApprovedAction(
   db: PrismaClient,
+  params: { tenantId: string; actorId: string; approval: ActionApproval; task: Task }
+): Promise<{ approval: ActionApproval; task: Task; job: EnqueueResult }> {
+  const { tenantId, actorId, approval, task } = params;
+  const approvalPayload = payloadToRecord(approval.payload);
+
+  let job: EnqueueResult;
+  try {
+    job = await enqueueActionExecution({
+      tenantId,
+      approvalId: approval.id,
+      source: approval.source,
+      payload: approvalPayload,
+      createdBy: approval.createdBy,
+      approvedBy: approval.approvedBy ?? actorId,
+      actionItemId: approval.actionItemId ?? undefined,
+      moduleSlug: extractModuleSlug(approvalPayload),
+      capability: extractCapability(approvalPayload),
+      undoPayload: extractUndoPayload(approvalPayload),
+      riskScore: approval.riskScore,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const failedLog = [
+      ...normalizeAuditLog(approval.auditLog),
+      buildAuditEntry('failed', actorId, `Queue enqueue failed: ${message}`),
+    ];
+
+    const failedApproval = await db.actionApproval.update({
+      where: { id: approval.id },
+      data: {
+        status: 'failed',
+        auditLog: auditEventsToJson(failedLog),
+      },
+    });
+    publishApprovalUpdate(failedApproval);
+
+    apiLogger.error('Failed to enqueue action execution job', {
+      tenantId,
+      approvalId: approval.id,
+      error: message,
+    });
+
+    throw error;
+  }
+
+  const taskWithJob = await db.task.update({
+    where: { id: task.id },
+    data: {
+      queueName: job.queueName,
+      jobId: job.jobId,
+    },
+  });
+
+  const updatedApproval = await db.actionApproval.update({
+    where: { id: approval.id },
+    data: {
+      auditLog: auditEventsToJson([
+        ...normalizeAuditLog(approval.auditLog),
+        buildAuditEntry('enqueued', actorId, undefined, { jobId: job.jobId }),
+      ]),
+    },
+  });
+
+  publishApprovalUpdate(updatedApproval);
+  publishTaskUpdate(taskWithJob);
+
+  return { approval: updatedApproval, task: taskWithJob, job };
+}
+
+/**
+ * Reads an approval with its row locked until the transaction ends, so
+ * decisions on the same request apply one after another and each sees the
+ * audit log the previous one wrote.
+ */
+async function lockApproval(tx: Prisma.TransactionClient, approvalId: string): Promise<ActionApproval | null> {
+  await tx.$queryRaw`SELECT "id" FROM "action_approvals" WHERE "id" = ${approvalId} FOR UPDATE`;
+
+  return tx.actionApproval.findUnique({
+    where: { id: approvalId },
+  });
+}
+
+export async function submitActionApproval(
+  db: PrismaClient | Prisma.TransactionClient,
   params: SubmitActionParams
 ): Promise<SubmitActionResult> {
-  const { tenantId, userId, source, payload, actionItemId, comment } = params;
+  const { tenantId, userId, source, payload, actionItemId, alertId, comment, persona, rollbackOfId } = params;
 
   const risk = calculateActionRisk({ source, payload });
 
+  const policy = await resolveApprovalPolicy(db, {
+    tenantId,
+    source,
+    moduleSlug: extractModuleSlug(payload),
+    capability: extractCapability(payload),
+    persona,
+    riskScore: risk.score,
+  });
+  const snapshot = policy ? snapshotApprovalPolicy(policy) : null;
+  const expiresAt = snapshot?.autoRejectAfterHours
+    ? new Date(Date.now() + snapshot.autoRejectAfterHours * HOUR_MS)
+    : null;
+
   const payloadJson = toInputJson(payload);
   const auditLog: AuditEvent[] = [
     buildAuditEntry('submitted', userId, comment, {
       riskScore: risk.score,
       riskLevel: risk.level,
       riskReasons: risk.reasons,
+      policyId: snapshot?.id,
+      policyName: snapshot?.name,
+      steps: snapshot?.steps.length,
+      expiresAt: expiresAt?.toISOString(),
+      rollbackOfId,
     }),
   ];
 
@@ -244,12 +640,17 @@ export async function submitActionApproval(
     data: {
       tenantId,
       actionItemId: actionItemId ?? null,
+      alertId: alertId ?? null,
       source,
       payload: payloadJson,
       riskScore: risk.score,
       status: 'pending',
       createdBy: userId,
       auditLog: auditEventsToJson(auditLog),
+      policyId: snapshot?.id ?? null,
+      policySnapshot: snapshot ? toInputJson(snapshot) : undefined,
+      expiresAt,
+      rollbackOfId: rollbackOfId ?? null,
     },
   });
 
@@ -257,8 +658,10 @@ export async function submitActionApproval(
     tenantId,
     approvalId: approval.id,
     source,
+    alertId,
     riskScore: risk.score,
     riskLevel: risk.level,
+    policyId: snapshot?.id,
   });
 
   await notifyActionApprovalSubmitted(db, {
@@ -303,16 +706,20 @@ export async function listActionApprovals(
   });
 }
 
+/**
+ * Records one sign-off against the approval's current policy step. The action
+ * is only approved and enqueued once the final step has enough distinct
+ * approvers; earlier sign-offs are recorded as `step_approved` audit events.
+ */
 export async function approveAction(
   db: PrismaClient,
   params: ApproveActionParams
 ): Promise<ApproveActionResult> {
-  const { tenantId, userId, approvalId, comment } = params;
+  const { tenantId, userId, tenantUserId, tenantRole, approvalId, comment, schedule } = params;
+  const now = new Date();
 
-  const { approval, task } = await db.$transaction(async (tx) => {
-    const existing = await tx.actionApproval.findUnique({
-      where: { id: approvalId },
-    });
+  const outcome = await db.$transaction(async (tx) => {
+    const existing = await lockApproval(tx, approvalId);
 
     if (!existing || existing.tenantId !== tenantId) {
       throw new ActionApprovalNotFoundError();
@@ -322,141 +729,160 @@ export async function approveAction(
       throw new ActionApprovalStateError('Only pending approvals can be approved');
     }
 
+    if (isApprovalExpired(existing, now)) {
+      throw new ActionApprovalStateError('Approval request has expired');
+    }
+
+    const auditLog = normalizeAuditLog(existing.auditLog);
+    const progress = evaluateStepProgress(existing, auditLog, now);
+
+    if (progress.usedActors.has(userId)) {
+      throw new ActionApprovalStateError('You have already approved this request');
+    }
+
+    const identities = await resolveApproverIdentities(tx, { tenantId, tenantUserId, role: tenantRole, now });
+    const eligible = identities.filter((identity) => progress.step.roles.includes(identity.role));
+    const identity = eligible.find((candidate) => !progress.usedPrincipals.has(candidate.principalId));
+
+    if (!identity) {
+      throw eligible.length
+        ? new ActionApprovalStateError('This approver has already signed off on this request')
+        : new ActionApprovalForbiddenError(describeStep(progress));
+    }
+
+    const approvals = progress.currentApprovals.length + 1;
+    const stepComplete = approvals >= progress.step.approvals;
+    const finalStep = stepComplete && progress.stepIndex === progress.steps.length - 1;
+    const stepMetadata = {
+      step: progress.stepIndex,
+      stepName: progress.step.name,
+      role: identity.role,
+      principalId: identity.principalId,
+      onBehalfOf: identity.onBehalfOf,
+      approvals,
+      required: progress.step.approvals,
+    };
+
+    if (!finalStep) {
+      if (schedule) {
+        throw new ActionApprovalStateError('Only the final approver can schedule execution');
+      }
+
+      const updated = await tx.actionApproval.update({
+        where: { id: approvalId },
+        data: {
+          currentStep: stepComplete ? progress.stepIndex + 1 : progress.stepIndex,
+          auditLog: auditEventsToJson([
+            ...auditLog,
+            buildAuditEntry('step_approved', userId, comment, stepMetadata),
+          ]),
+        },
+      });
+
+      return { approval: updated, task: null, scheduled: false };
+    }
+
     const nextAudit = [
-      ...normalizeAuditLog(existing.auditLog),
-      buildAuditEntry('approved', userId, comment),
+      ...auditLog,
+      buildAuditEntry('approved', userId, comment, stepMetadata),
     ];
 
+    if (schedule) {
+      const resolved = await resolveActionSchedule(tx, { tenantId, approvalId, input: schedule, now });
+      const scheduled = await tx.actionApproval.update({
+        where: { id: approvalId },
+        data: {
+          status: 'scheduled',
+          approvedBy: userId,
+          approvedAt: now,
+          ...resolved,
+          auditLog: auditEventsToJson([
+            ...nextAudit,
+            buildAuditEntry('scheduled', userId, undefined, scheduleMetadata(resolved)),
+          ]),
+        },
+      });
+
+      return { approval: scheduled, task: null, scheduled: true };
+    }
+
     const updated = await tx.actionApproval.update({
       where: { id: approvalId },
       data: {
         status: 'approved',
         approvedBy: userId,
-        approvedAt: new Date(),
+        approvedAt: now,
         auditLog: auditEventsToJson(nextAudit),
       },
     });
 
-    const payloadRecord = payloadToRecord(updated.payload);
+    const task = await upsertExecutionTask(tx, { tenantId, userId, approval: updated });
 
-    const task = await tx.task.upsert({
-      where: { actionApprovalId: approvalId },
-      update: {
-        status: 'pending',
-  payload: toInputJson(updated.payload),
-        moduleSlug: extractModuleSlug(payloadRecord) ?? null,
-        priority: 'normal',
-        queueName: null,
-        jobId: null,
-        error: null,
-        result: Prisma.JsonNull,
-      },
-      create: {
-        tenantId,
-        userId,
-        type: 'action-execution',
-        status: 'pending',
-        priority: 'normal',
-  payload: toInputJson(updated.payload),
-        moduleSlug: extractModuleSlug(payloadRecord) ?? null,
-        actionApprovalId: approvalId,
-      },
-    });
-
-    return { approval: updated, task };
+    return { approval: updated, task, scheduled: false };
   });
 
-  const approvalPayload = payloadToRecord(approval.payload);
+  const { approval, task, scheduled } = outcome;
 
-  let job: EnqueueResult;
-  try {
-    job = await enqueueActionExecution({
-      tenantId,
-      approvalId: approval.id,
-      source: approval.source,
-      payload: approvalPayload,
-      createdBy: approval.createdBy,
-      approvedBy: userId,
-      actionItemId: approval.actionItemId ?? undefined,
-      moduleSlug: extractModuleSlug(approvalPayload),
-      capability: extractCapability(approvalPayload),
-      undoPayload: extractUndoPayload(approvalPayload),
-      riskScore: approval.riskScore,
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    const failedLog = [
-      ...normalizeAuditLog(approval.auditLog),
-      buildAuditEntry('failed', userId, `Queue enqueue failed: ${message}`),
-    ];
+  if (!task) {
+    publishApprovalUpdate(approval);
 
-    await db.actionApproval.update({
-      where: { id: approval.id },
-      data: {
-        status: 'failed',
-        auditLog: auditEventsToJson(failedLog),
-      },
-    });
+    if (!scheduled) {
+      apiLogger.info('Action approval step signed off', {
+        tenantId,
+        approvalId,
+        currentStep: approval.currentStep,
+      });
 
-    apiLogger.error('Failed to enqueue action execution job', {
+      return { approval, task: null, job: null };
+    }
+
+    apiLogger.info('Action approval approved and scheduled', {
       tenantId,
       approvalId,
-      error: message,
+      scheduledFor: approval.scheduledFor?.toISOString(),
+      runAfterApprovalId: approval.runAfterApprovalId,
     });
 
-    throw error;
-  }
+    await notifyActionApprovalDecision(db, {
+      tenantId,
+      actorClerkId: userId,
+      approval,
+      decision: 'approved',
+      comment,
+    });
 
-  const taskWithJob = await db.task.update({
-    where: { id: task.id },
-    data: {
-      queueName: job.queueName,
-      jobId: job.jobId,
-    },
-  });
+    return { approval, task: null, job: null };
+  }
 
-  const updatedApproval = await db.actionApproval.update({
-    where: { id: approval.id },
-    data: {
-      auditLog: auditEventsToJson([
-        ...normalizeAuditLog(approval.auditLog),
-        buildAuditEntry('enqueued', userId, undefined, { jobId: job.jobId }),
-      ]),
-    },
-  });
+  const enqueued = await enqueueApprovedAction(db, { tenantId, actorId: userId, approval, task });
 
   apiLogger.info('Action approval approved and enqueued', {
     tenantId,
     approvalId,
-    jobId: job.jobId,
+    jobId: enqueued.job.jobId,
     taskId: task.id,
   });
 
   await notifyActionApprovalDecision(db, {
     tenantId,
     actorClerkId: userId,
-    approval: updatedApproval,
+    approval: enqueued.approval,
     decision: 'approved',
     comment,
   });
 
-  return {
-    approval: updatedApproval,
-    task: taskWithJob,
-    job,
-  };
+  return enqueued;
 }
 
 export async function rejectAction(
   db: PrismaClient,
   params: RejectActionParams
 ): Promise<ActionApproval> {
-  const { tenantId, userId, approvalId, comment } = params;
+  const { tenantId, userId, tenantUserId, tenantRole, approvalId, comment } = params;
+  const now = new Date();
 
   const updated = await db.$transaction(async (tx) => {
-    const existing = await tx.actionApproval.findUnique({
-      where: { id: approvalId },
-    });
+    const existing = await lockApproval(tx, approvalId);
 
     if (!existing || existing.tenantId !== tenantId) {
       throw new ActionApprovalNotFoundError();
@@ -466,9 +892,29 @@ export async function rejectAction(
       throw new ActionApprovalStateError('Only pending approvals can be rejected');
     }
 
+    if (isApprovalExpired(existing, now)) {
+      throw new ActionApprovalStateError('Approval request has expired');
+    }
+
+    const auditLog = normalizeAuditLog(existing.auditLog);
+    let onBehalfOf: string | null = null;
+
+    // Anyone who could sign off the current step may also turn it down
+    if (!REJECT_ANY_ROLES.includes(tenantRole)) {
+      const progress = evaluateStepProgress(existing, auditLog, now);
+      const identities = await resolveApproverIdentities(tx, { tenantId, tenantUserId, role: tenantRole, now });
+      const identity = identities.find((candidate) => progress.step.roles.includes(candidate.role));
+
+      if (!identity) {
+        throw new ActionApprovalForbiddenError(describeStep(progress));
+      }
+
+      onBehalfOf = identity.onBehalfOf;
+    }
+
     const nextAudit = [
-      ...normalizeAuditLog(existing.auditLog),
-      buildAuditEntry('rejected', userId, comment),
+      ...auditLog,
+      buildAuditEntry('rejected', userId, comment, { step: existing.currentStep, onBehalfOf: onBehalfOf ?? undefined }),
     ];
 
     return tx.actionApproval.update({
@@ -482,6 +928,8 @@ export async function rejectAction(
     });
   });
 
+  publishApprovalUpdate(updated);
+
   apiLogger.info('Action approval rejected', {
     tenantId,
     approvalId,
@@ -498,3 +946,343 @@ export async function rejectAction(
 
   return updated;
 }
+
+/**
+ * Auto-rejects one pending request whose policy deadline has passed. Returns
+ * null when it was decided (or is no longer overdue) by the time it is read.
+ */
+export async function expireActionApproval(
+  db: PrismaClient,
+  params: { tenantId: string; approvalId: string; now?: Date }
+): Promise<ActionApproval | null> {
+  const { tenantId, approvalId } = params;
+  const now = params.now ?? new Date();
+
+  const expired = await db.$transaction(async (tx) => {
+    const existing = await lockApproval(tx, approvalId);
+
+    if (!existing || existing.tenantId !== tenantId || !isApprovalExpired(existing, now)) {
+      return null;
+    }
+
+    return tx.actionApproval.update({
+      where: { id: approvalId },
+      data: {
+        status: 'rejected',
+        approvedBy: null,
+        approvedAt: null,
+        auditLog: auditEventsToJson([
+          ...normalizeAuditLog(existing.auditLog),
+          buildAuditEntry('expired', APPROVAL_EXPIRY_ACTOR, 'No decision before the approval deadline', {
+            step: existing.currentStep,
+            expiresAt: existing.expiresAt?.toISOString(),
+          }),
+        ]),
+      },
+    });
+  });
+
+  if (!expired) {
+    return null;
+  }
+
+  publishApprovalUpdate(expired);
+
+  apiLogger.info('Action approval expired', {
+    tenantId,
+    approvalId,
+  });
+
+  await notifyActionApprovalDecision(db, {
+    tenantId,
+    approval: expired,
+    decision: 'rejected',
+    comment: 'Automatically rejected after the approval deadline passed',
+  });
+
+  return expired;
+}
+
+export async function listTenantsWithOverdueApprovals(now: Date = new Date()): Promise<string[]> {
+  const rows = await prisma.actionApproval.findMany({
+    where: {
+      status: 'pending',
+      expiresAt: { lte: now },
+    },
+    distinct: ['tenantId'],
+    select: { tenantId: true },
+  });
+
+  return rows.map((row) => row.tenantId);
+}
+
+export async function expireOverdueApprovals(tenantId: string, now: Date = new Date()): Promise<number> {
+  const db = createTenantClient({ tenantId });
+  let expired = 0;
+
+  try {
+    const overdue = await db.actionApproval.findMany({
+      where: {
+        tenantId,
+        status: 'pending',
+        expiresAt: { lte: now },
+      },
+      select: { id: true },
+    });
+
+    for (const { id } of overdue) {
+      if (await expireActionApproval(db, { tenantId, approvalId: id, now })) {
+        expired += 1;
+      }
+    }
+  } finally {
+    await db.$disconnect();
+  }
+
+  return expired;
+}
+
+export async function listScheduledActions(db: PrismaClient, limit = 100): Promise<ActionApproval[]> {
+  return db.actionApproval.findMany({
+    where: { status: 'scheduled' },
+    orderBy: [{ scheduledFor: { sort: 'asc', nulls: 'last' } }, { approvedAt: 'asc' }],
+    take: Math.min(limit, 250),
+  });
+}
+
+async function findScheduledApproval(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  approvalId: string
+): Promise<ActionApproval> {
+  const existing = await lockApproval(tx, approvalId);
+
+  if (!existing || existing.tenantId !== tenantId) {
+    throw new ActionApprovalNotFoundError();
+  }
+
+  // Checked under the lock, so a release or cancel that got there first wins
+  if (existing.status !== 'scheduled') {
+    throw new ActionApprovalStateError('Only scheduled actions can be changed');
+  }
+
+  return existing;
+}
+
+export async function cancelScheduledAction(
+  db: PrismaClient,
+  params: CancelScheduledActionParams
+): Promise<ActionApproval> {
+  const { tenantId, userId, approvalId, comment } = params;
+
+  const canceled = await db.$transaction(async (tx) => {
+    const existing = await findScheduledApproval(tx, tenantId, approvalId);
+
+    return tx.actionApproval.update({
+      where: { id: approvalId },
+      data: {
+        status: 'canceled',
+        auditLog: auditEventsToJson([
+          ...normalizeAuditLog(existing.auditLog),
+          buildAuditEntry('canceled', userId, comment),
+        ]),
+      },
+    });
+  });
+
+  publishApprovalUpdate(canceled);
+
+  apiLogger.info('Scheduled action canceled', {
+    tenantId,
+    approvalId,
+    userId,
+  });
+
+  return canceled;
+}
+
+export async function rescheduleAction(
+  db: PrismaClient,
+  params: RescheduleActionParams
+): Promise<ActionApproval> {
+  const { tenantId, userId, approvalId, schedule } = params;
+  const now = new Date();
+
+  const rescheduled = await db.$transaction(async (tx) => {
+    const existing = await findScheduledApproval(tx, tenantId, approvalId);
+    const resolved = await resolveActionSchedule(tx, { tenantId, approvalId, input: schedule, now });
+
+    return tx.actionApproval.update({
+      where: { id: approvalId },
+      data: {
+        ...resolved,
+        auditLog: auditEventsToJson([
+          ...normalizeAuditLog(existing.auditLog),
+          buildAuditEntry('scheduled', userId, undefined, { ...scheduleMetadata(resolved), rescheduled: true }),
+        ]),
+      },
+    });
+  });
+
+  publishApprovalUpdate(rescheduled);
+
+  apiLogger.info('Scheduled action rescheduled', {
+    tenantId,
+    approvalId,
+    scheduledFor: rescheduled.scheduledFor?.toISOString(),
+    runAfterApprovalId: rescheduled.runAfterApprovalId,
+  });
+
+  return rescheduled;
+}
+
+type ScheduledRelease = 'released' | 'waiting' | 'canceled';
+
+/**
+ * Enqueues a scheduled action once its time has come and its prerequisite
+ * (if any) has executed. A prerequisite that can no longer execute cancels
+ * the dependent action.
+ */
+export async function releaseScheduledAction(
+  db: PrismaClient,
+  params: { tenantId: string; approvalId: string; now?: Date }
+): Promise<ScheduledRelease> {
+  const { tenantId, approvalId } = params;
+  const now = params.now ?? new Date();
+
+  const outcome = await db.$transaction(async (tx) => {
+    const existing = await lockApproval(tx, approvalId);
+
+    if (!existing || existing.tenantId !== tenantId || existing.status !== 'scheduled') {
+      return null;
+    }
+
+    if (existing.scheduledFor && existing.scheduledFor > now) {
+      return null;
+    }
+
+    const actorId = existing.approvedBy ?? APPROVAL_SCHEDULER_ACTOR;
+
+    if (existing.runAfterApprovalId) {
+      const prerequisite = await tx.actionApproval.findUnique({
+        where: { id: existing.runAfterApprovalId },
+        select: { status: true },
+      });
+
+      if (!prerequisite || DEAD_END_STATUSES.includes(prerequisite.status)) {
+        const canceled = await tx.actionApproval.update({
+          where: { id: approvalId },
+          data: {
+            status: 'canceled',
+            auditLog: auditEventsToJson([
+              ...normalizeAuditLog(existing.auditLog),
+              buildAuditEntry(
+                'canceled',
+                APPROVAL_SCHEDULER_ACTOR,
+                `Prerequisite action ${prerequisite ? `is ${prerequisite.status}` : 'no longer exists'}`,
+                { afterApprovalId: existing.runAfterApprovalId }
+              ),
+            ]),
+          },
+        });
+
+        return { approval: canceled, task: null, actorId };
+      }
+
+      if (prerequisite.status !== 'executed') {
+        return null;
+      }
+    }
+
+    const approved = await tx.actionApproval.update({
+      where: { id: approvalId },
+      data: { status: 'approved' },
+    });
+    const task = await upsertExecutionTask(tx, { tenantId, userId: actorId, approval: approved });
+
+    return { approval: approved, task, actorId };
+  });
+
+  if (!outcome) {
+    return 'waiting';
+  }
+
+  if (!outcome.task) {
+    publishApprovalUpdate(outcome.approval);
+    apiLogger.info('Scheduled action canceled after its prerequisite failed', {
+      tenantId,
+      approvalId,
+      runAfterApprovalId: outcome.approval.runAfterApprovalId,
+    });
+    return 'canceled';
+  }
+
+  const { job } = await enqueueApprovedAction(db, {
+    tenantId,
+    actorId: outcome.actorId,
+    approval: outcome.approval,
+    task: outcome.task,
+  });
+
+  apiLogger.info('Scheduled action released', {
+    tenantId,
+    approvalId,
+    jobId: job.jobId,
+  });
+
+  return 'released';
+}
+
+/**
+ * Includes approvals still waiting on a prerequisite; those are re-checked
+ * on every run.
+ */
+export async function listTenantsWithDueScheduledActions(now: Date = new Date()): Promise<string[]> {
+  const rows = await prisma.actionApproval.findMany({
+    where: {
+      status: 'scheduled',
+      OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }],
+    },
+    distinct: ['tenantId'],
+    select: { tenantId: true },
+  });
+
+  return rows.map((row) => row.tenantId);
+}
+
+export async function releaseDueScheduledActions(
+  tenantId: string,
+  now: Date = new Date()
+): Promise<Record<ScheduledRelease, number>> {
+  const db = createTenantClient({ tenantId });
+  const totals: Record<ScheduledRelease, number> = { released: 0, waiting: 0, canceled: 0 };
+
+  try {
+    const due = await db.actionApproval.findMany({
+      where: {
+        tenantId,
+        status: 'scheduled',
+        OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }],
+      },
+      orderBy: { approvedAt: 'asc' },
+      select: { id: true },
+    });
+
+    for (const { id } of due) {
+      try {
+        totals[await releaseScheduledAction(db, { tenantId, approvalId: id, now })] += 1;
+      } catch (error) {
+        // enqueueApprovedAction already marked the approval failed
+        apiLogger.error('Failed to release scheduled action', {
+          tenantId,
+          approvalId: id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  } finally {
+    await db.$disconnect();
+  }
+
+  return totals;
+}
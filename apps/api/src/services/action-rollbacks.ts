@@ -0,0 +1,197 @@
+import type { ActionApproval, PrismaClient, Prisma } from '@ocsuite/db';
+import { getCapabilityCompensation } from '@ocsuite/module-sdk';
+import { getModuleCapability, ModuleExecutionError } from '../modules/registry.js';
+import { apiLogger } from '../utils/logger.js';
+import {
+  ActionApprovalNotFoundError,
+  ActionApprovalStateError,
+  auditEventsToJson,
+  buildAuditEntry,
+  normalizeAuditLog,
+  payloadToRecord,
+  submitActionApproval,
+  type AuditEvent,
+  type SubmitActionResult,
+} from './action-approvals.js';
+import { publishApprovalUpdate } from './tenant-events.js';
+
+export const ROLLBACK_SOURCE = 'rollback';
+
+// A rollback in any other state is either still in flight or already done
+const RETRYABLE_ROLLBACK_STATUSES: ActionApproval['status'][] = ['rejected', 'failed', 'canceled'];
+
+export interface RequestActionRollbackParams {
+  tenantId: string;
+  userId: string;
+  approvalId: string;
+  comment?: string;
+}
+
+/** What the original run left behind, attached to the compensation payload */
+export interface RollbackSourceRun {
+  approvalId: string;
+  moduleSlug: string;
+  capability: string;
+  status: ActionApproval['status'];
+  payloadHash: string | null;
+  outputs: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface RequestActionRollbackResult extends SubmitActionResult {
+  rollbackOf: RollbackSourceRun;
+}
+
+export class ActionRollbackUnavailableError extends Error {
+  constructor(message = 'Action cannot be rolled back') {
+    super(message);
+    this.name = 'ActionRollbackUnavailableError';
+  }
+}
+
+function lastRunEvent(auditLog: AuditEvent[]): AuditEvent | undefined {
+  return [...auditLog].reverse().find((event) => event.event === 'completed' || event.event === 'failed');
+}
+
+function resultOutputs(result: Prisma.JsonValue | null | undefined): Record<string, unknown> | null {
+  if (!result || typeof result !== 'object' || Array.isArray(result)) {
+    return null;
+  }
+
+  const outputs = (result as Prisma.JsonObject).outputs;
+  return outputs && typeof outputs === 'object' && !Array.isArray(outputs)
+    ? (outputs as Record<string, unknown>)
+    : null;
+}
+
+function pickKeys(payload: Record<string, unknown>, keys: string[] = []): Record<string, unknown> {
+  return Object.fromEntries(keys.filter((key) => key in payload).map((key) => [key, payload[key]]));
+}
+
+/**
+ * Submits the compensating capability declared by the original action's
+ * capability. The request goes through the same approval policies and
+ * executor as any other action. A run that failed part-way can be rolled
+ * back as well as a successful one.
+ */
+export async function requestActionRollback(
+  db: PrismaClient,
+  params: RequestActionRollbackParams
+): Promise<RequestActionRollbackResult> {
+  const { tenantId, userId, approvalId, comment } = params;
+
+  const original = await db.actionApproval.findUnique({
+    where: { id: approvalId },
+  });
+
+  if (!original || original.tenantId !== tenantId) {
+    throw new ActionApprovalNotFoundError();
+  }
+
+  const auditLog = normalizeAuditLog(original.auditLog);
+  const started = auditLog.some((event) => event.event === 'executing');
+
+  if (original.status !== 'executed' && !(original.status === 'failed' && started)) {
+    throw new ActionApprovalStateError('Only actions that have run can be rolled back');
+  }
+
+  const payload = payloadToRecord(original.payload);
+  const moduleSlug = typeof payload.moduleSlug === 'string' ? payload.moduleSlug : undefined;
+  const capability = typeof payload.capability === 'string' ? payload.capability : undefined;
+
+  if (!moduleSlug || !capability) {
+    throw new ActionRollbackUnavailableError('Action has no module capability to compensate');
+  }
+
+  let compensation: ReturnType<typeof getCapabilityCompensation>;
+  try {
+    compensation = getCapabilityCompensation((await getModuleCapability(moduleSlug, capability)).definition);
+    if (compensation) {
+      await getModuleCapability(moduleSlug, compensation.capability);
+    }
+  } catch (error) {
+    if (error instanceof ModuleExecutionError) {
+      throw new ActionRollbackUnavailableError(error.message);
+    }
+    throw error;
+  }
+
+  if (!compensation) {
+    throw new ActionRollbackUnavailableError(`${moduleSlug} ${capability} does not declare a compensating capability`);
+  }
+
+  const existing = await db.actionApproval.findFirst({
+    where: {
+      tenantId,
+      rollbackOfId: approvalId,
+      status: { notIn: RETRYABLE_ROLLBACK_STATUSES },
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new ActionApprovalStateError(`Rollback ${existing.id} has already been requested`);
+  }
+
+  const task = await db.task.findFirst({
+    where: { actionApprovalId: approvalId },
+    select: { result: true, error: true },
+  });
+  const runEvent = lastRunEvent(auditLog);
+  const payloadHash = runEvent?.metadata?.payloadHash;
+
+  const rollbackOf: RollbackSourceRun = {
+    approvalId,
+    moduleSlug,
+    capability,
+    status: original.status,
+    payloadHash: typeof payloadHash === 'string' ? payloadHash : null,
+    outputs: resultOutputs(task?.result),
+    error: task?.error ?? null,
+  };
+
+  const undoPayload = payload.undoPayload;
+  const summary = typeof payload.summary === 'string' ? payload.summary : `${moduleSlug} ${capability}`;
+
+  const result = await submitActionApproval(db, {
+    tenantId,
+    userId,
+    source: ROLLBACK_SOURCE,
+    payload: {
+      ...pickKeys(payload, compensation.payloadKeys),
+      ...(undoPayload && typeof undoPayload === 'object' && !Array.isArray(undoPayload) ? undoPayload : {}),
+      moduleSlug,
+      capability: compensation.capability,
+      summary: `Roll back: ${summary}`,
+      rollbackOf,
+    },
+    actionItemId: original.actionItemId ?? undefined,
+    comment,
+    rollbackOfId: approvalId,
+  });
+
+  const updatedOriginal = await db.actionApproval.update({
+    where: { id: approvalId },
+    data: {
+      auditLog: auditEventsToJson([
+        ...auditLog,
+        buildAuditEntry('rollback_requested', userId, comment, {
+          rollbackApprovalId: result.approval.id,
+          compensatingCapability: compensation.capability,
+          payloadHash: rollbackOf.payloadHash,
+        }),
+      ]),
+    },
+  });
+
+  publishApprovalUpdate(updatedOriginal);
+
+  apiLogger.info('Action rollback requested', {
+    tenantId,
+    approvalId,
+    rollbackApprovalId: result.approval.id,
+    compensatingCapability: compensation.capability,
+  });
+
+  return { ...result, rollbackOf };
+}
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { TenantMemberRole } from '@ocsuite/db';
+import type { ApprovalPolicy, Prisma, PrismaClient } from '@ocsuite/db';
+
+type DatabaseClient = PrismaClient | Prisma.TransactionClient;
+
+export const MAX_POLICY_STEPS = 5;
+export const MAX_STEP_APPROVALS = 5;
+
+export const approvalPolicyStepSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  roles: z.array(z.nativeEnum(TenantMemberRole)).min(1),
+  approvals: z.number().int().min(1).max(MAX_STEP_APPROVALS).default(1),
+});
+
+export const approvalPolicyStepsSchema = z.array(approvalPolicyStepSchema).min(1).max(MAX_POLICY_STEPS);
+
+export type ApprovalPolicyStep = z.infer<typeof approvalPolicyStepSchema>;
+
+/**
+ * Used when no policy matches: a single owner or admin sign-off, which is
+ * how approvals worked before policies existed.
+ */
+export const DEFAULT_APPROVAL_STEPS: ApprovalPolicyStep[] = [
+  { roles: [TenantMemberRole.owner, TenantMemberRole.admin], approvals: 1 },
+];
+
+/** Frozen onto the approval at submit time so edits never move in-flight requests */
+export interface ApprovalPolicySnapshot {
+  id: string;
+  name: string;
+  steps: ApprovalPolicyStep[];
+  approvalTtlHours: number | null;
+  autoRejectAfterHours: number | null;
+}
+
+export interface ApprovalPolicyMatchContext {
+  tenantId: string;
+  source: string;
+  moduleSlug?: string;
+  capability?: string;
+  persona?: string;
+  riskScore: number;
+}
+
+export interface ApproverIdentity {
+  /** User whose authority is exercised: the approver, or the delegator they stand in for */
+  principalId: string;
+  role: TenantMemberRole;
+  /** Set when approving on someone else's behalf */
+  onBehalfOf: string | null;
+}
+
+function wildcardMatches(pattern: string, value: string | undefined): boolean {
+  if (!value) {
+    return false;
+  }
+
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${escaped}$`, 'i').test(value);
+}
+
+/**
+ * Every non-null criterion must match; a policy with no criteria matches
+ * every action.
+ */
+export function approvalPolicyMatches(
+  policy: Pick<ApprovalPolicy, 'moduleSlug' | 'capability' | 'persona' | 'source' | 'minRiskScore'>,
+  context: ApprovalPolicyMatchContext
+): boolean {
+  if (policy.moduleSlug && policy.moduleSlug !== context.moduleSlug) {
+    return false;
+  }
+
+  if (policy.capability && !wildcardMatches(policy.capability, context.capability)) {
+    return false;
+  }
+
+  if (policy.persona && policy.persona !== context.persona) {
+    return false;
+  }
+
+  if (policy.source && policy.source !== context.source) {
+    return false;
+  }
+
+  if (typeof policy.minRiskScore === 'number' && context.riskScore < policy.minRiskScore) {
+    return false;
+  }
+
+  return true;
+}
+
+export function parseApprovalPolicySteps(value: Prisma.JsonValue): ApprovalPolicyStep[] {
+  const parsed = approvalPolicyStepsSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_APPROVAL_STEPS;
+}
+
+export function snapshotApprovalPolicy(policy: ApprovalPolicy): ApprovalPolicySnapshot {
+  return {
+    id: policy.id,
+    name: policy.name,
+    steps: parseApprovalPolicySteps(policy.steps),
+    approvalTtlHours: policy.approvalTtlHours,
+    autoRejectAfterHours: policy.autoRejectAfterHours,
+  };
+}
+
+export function parseApprovalPolicySnapshot(
+  value: Prisma.JsonValue | null | undefined
+): ApprovalPolicySnapshot | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const record = value as Prisma.JsonObject;
+  if (typeof record.id !== 'string' || typeof record.name !== 'string') {
+    return null;
+  }
+
+  return {
+    id: record.id,
+    name: record.name,
+    steps: parseApprovalPolicySteps(record.steps ?? null),
+    approvalTtlHours: typeof record.approvalTtlHours === 'number' ? record.approvalTtlHours : null,
+    autoRejectAfterHours: typeof record.autoRejectAfterHours === 'number' ? record.autoRejectAfterHours : null,
+  };
+}
+
+/**
+ * Highest priority wins; ties go to the most recently created policy.
+ */
+export async function resolveApprovalPolicy(
+  db: DatabaseClient,
+  context: ApprovalPolicyMatchContext
+): Promise<ApprovalPolicy | null> {
+  const policies = await db.approvalPolicy.findMany({
+    where: { tenantId: context.tenantId, enabled: true },
+    orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  return policies.find((policy) => approvalPolicyMatches(policy, context)) ?? null;
+}
+
+/**
+ * The approver's own membership plus every delegator currently covered by an
+ * active delegation to them, each acting with the delegator's role.
+ */
+export async function resolveApproverIdentities(
+  db: DatabaseClient,
+  params: { tenantId: string; tenantUserId: string; role: TenantMemberRole; now?: Date }
+): Promise<ApproverIdentity[]> {
+  const now = params.now ?? new Date();
+  const identities: ApproverIdentity[] = [
+    { principalId: params.tenantUserId, role: params.role, onBehalfOf: null },
+  ];
+
+  const delegations = await db.approvalDelegation.findMany({
+    where: {
+      tenantId: params.tenantId,
+      delegateId: params.tenantUserId,
+      revokedAt: null,
+      startsAt: { lte: now },
+      endsAt: { gt: now },
+    },
+    select: { delegatorId: true },
+  });
+
+  if (!delegations.length) {
+    return identities;
+  }
+
+  const delegators = await db.tenantMember.findMany({
+    where: {
+      tenantId: params.tenantId,
+      userId: { in: delegations.map((delegation) => delegation.delegatorId) },
+    },
+    select: { userId: true, role: true },
+  });
+
+  for (const delegator of delegators) {
+    if (delegator.userId !== params.tenantUserId) {
+      identities.push({ principalId: delegator.userId, role: delegator.role, onBehalfOf: delegator.userId });
+    }
+  }
+
+  return identities;
+}
@@ -0,0 +1,414 @@
+import type { Prisma, PrismaClient } from '@ocsuite/db';
+import type { AuditLogEntry, AuditLogPage, AuditLogSource } from '@ocsuite/types';
+import { parseJsonRecord } from '../utils/json.js';
+import { normalizeAuditLog } from './action-approvals.js';
+
+/**
+ * Tenant audit log: one timeline merged from access logs, the audit trail
+ * embedded in action approvals, knowledge audit events and connector audit
+ * events. Entries are ordered newest first by (occurredAt, id) and paged
+ * with an opaque cursor so every source can be queried independently.
+ */
+
+export const AUDIT_LOG_SOURCES: AuditLogSource[] = ['access', 'approval', 'knowledge', 'connector'];
+
+export const AUDIT_EXPORT_COLUMNS = [
+  'occurredAt',
+  'type',
+  'source',
+  'actorId',
+  'actorEmail',
+  'summary',
+  'resourceId',
+  'metadata',
+] as const;
+
+// Approvals are scanned in batches because their events live in a JSON column
+const APPROVAL_BATCH_SIZE = 100;
+
+export class AuditCursorError extends Error {
+  constructor(message = 'Audit log cursor is invalid') {
+    super(message);
+    this.name = 'AuditCursorError';
+  }
+}
+
+export interface AuditLogFilters {
+  tenantId: string;
+  /** Clerk user id of the actor */
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+  /**
+   * `<source>` or `<source>.<event>` values, e.g. `knowledge` or
+   * `approval.approved`. Empty means everything.
+   */
+  types?: string[];
+  limit: number;
+  cursor?: string;
+}
+
+interface CursorPosition {
+  at: Date;
+  id: string;
+}
+
+type Entry = Omit<AuditLogEntry, 'occurredAt' | 'actorEmail'> & { occurredAt: Date };
+
+export function encodeAuditCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify({ at: position.at.toISOString(), id: position.id })).toString('base64url');
+}
+
+export function decodeAuditCursor(cursor: string): CursorPosition {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { at?: unknown; id?: unknown };
+    const at = typeof parsed.at === 'string' ? new Date(parsed.at) : null;
+
+    if (!at || Number.isNaN(at.getTime()) || typeof parsed.id !== 'string') {
+      throw new AuditCursorError();
+    }
+
+    return { at, id: parsed.id };
+  } catch (error) {
+    throw error instanceof AuditCursorError ? error : new AuditCursorError();
+  }
+}
+
+function compareEntries(a: Pick<Entry, 'occurredAt' | 'id'>, b: Pick<Entry, 'occurredAt' | 'id'>): number {
+  const byTime = b.occurredAt.getTime() - a.occurredAt.getTime();
+  if (byTime !== 0) {
+    return byTime;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+function isAfterCursor(entry: Pick<Entry, 'occurredAt' | 'id'>, cursor: CursorPosition | null): boolean {
+  return !cursor || compareEntries({ occurredAt: cursor.at, id: cursor.id }, entry) < 0;
+}
+
+/**
+ * Which sources to query and, per source, which event names to keep (null
+ * keeps every event of that source).
+ */
+function resolveTypeFilter(types: string[] | undefined): Map<AuditLogSource, Set<string> | null> {
+  const selection = new Map<AuditLogSource, Set<string> | null>();
+
+  if (!types || types.length === 0) {
+    AUDIT_LOG_SOURCES.forEach((source) => selection.set(source, null));
+    return selection;
+  }
+
+  for (const type of types) {
+    const [source, event] = type.split('.', 2) as [AuditLogSource, string | undefined];
+    if (!AUDIT_LOG_SOURCES.includes(source)) {
+      continue;
+    }
+
+    const existing = selection.get(source);
+    if (!event || existing === null) {
+      selection.set(source, null);
+    } else {
+      selection.set(source, new Set([...(existing ?? []), event]));
+    }
+  }
+
+  return selection;
+}
+
+function createdAtWhere(filters: AuditLogFilters, cursor: CursorPosition | null) {
+  const range =
+    filters.from || filters.to
+      ? { createdAt: { ...(filters.from ? { gte: filters.from } : {}), ...(filters.to ? { lte: filters.to } : {}) } }
+      : {};
+
+  return {
+    ...range,
+    ...(cursor
+      ? {
+          OR: [
+            { createdAt: { lt: cursor.at } },
+            { createdAt: cursor.at, id: { lt: cursor.id } },
+          ],
+        }
+      : {}),
+  };
+}
+
+const NEWEST_FIRST = [{ createdAt: 'desc' as const }, { id: 'desc' as const }];
+
+async function loadAccessEntries(
+  db: PrismaClient,
+  filters: AuditLogFilters,
+  cursor: CursorPosition | null,
+  take: number
+): Promise<Entry[]> {
+  const rows = await db.accessLog.findMany({
+    where: {
+      tenantId: filters.tenantId,
+      ...(filters.actorId ? { userId: filters.actorId } : {}),
+      ...createdAtWhere(filters, cursor),
+    },
+    orderBy: NEWEST_FIRST,
+    take,
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    source: 'access',
+    type: 'access.request',
+    actorId: row.userId,
+    occurredAt: row.createdAt,
+    summary: `${row.method} ${row.route} -> ${row.statusCode}`,
+    resourceId: null,
+    metadata: {
+      method: row.method,
+      route: row.route,
+      statusCode: row.statusCode,
+      ip: row.ip,
+      userAgent: row.userAgent,
+      durationMs: row.durationMs,
+      ...parseJsonRecord(row.metadata),
+    },
+  }));
+}
+
+async function loadKnowledgeEntries(
+  db: PrismaClient,
+  filters: AuditLogFilters,
+  cursor: CursorPosition | null,
+  take: number,
+  events: Set<string> | null
+): Promise<Entry[]> {
+  const rows = await db.knowledgeAuditEvent.findMany({
+    where: {
+      tenantId: filters.tenantId,
+      ...(filters.actorId ? { actorId: filters.actorId } : {}),
+      ...(events ? { event: { in: [...events] as Prisma.EnumKnowledgeAuditEventTypeFilter['in'] } } : {}),
+      ...createdAtWhere(filters, cursor),
+    },
+    orderBy: NEWEST_FIRST,
+    take,
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    source: 'knowledge',
+    type: `knowledge.${row.event}`,
+    actorId: row.actorId,
+    occurredAt: row.createdAt,
+    summary: row.summary,
+    resourceId: row.sourceId,
+    metadata: { sourceName: row.sourceName, entryCount: row.entryCount, ...parseJsonRecord(row.metadata) },
+  }));
+}
+
+async function loadConnectorEntries(
+  db: PrismaClient,
+  filters: AuditLogFilters,
+  cursor: CursorPosition | null,
+  take: number,
+  events: Set<string> | null
+): Promise<Entry[]> {
+  const rows = await db.connectorAuditEvent.findMany({
+    where: {
+      tenantId: filters.tenantId,
+      ...(filters.actorId ? { actorId: filters.actorId } : {}),
+      ...(events ? { event: { in: [...events] as Prisma.EnumConnectorAuditEventTypeFilter['in'] } } : {}),
+      ...createdAtWhere(filters, cursor),
+    },
+    orderBy: NEWEST_FIRST,
+    take,
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    source: 'connector',
+    type: `connector.${row.event}`,
+    actorId: row.actorId,
+    occurredAt: row.createdAt,
+    summary: row.summary,
+    resourceId: row.connectorId,
+    metadata: { provider: row.provider, ...parseJsonRecord(row.metadata) },
+  }));
+}
+
+/**
+ * An approval's events all fall between its createdAt and updatedAt, so
+ * scanning approvals by updatedAt (newest first) can stop once the next
+ * batch cannot beat the oldest entry already collected.
+ */
+async function loadApprovalEntries(
+  db: PrismaClient,
+  filters: AuditLogFilters,
+  cursor: CursorPosition | null,
+  take: number,
+  events: Set<string> | null
+): Promise<Entry[]> {
+  const upperBound = cursor ? cursor.at : filters.to;
+  let collected: Entry[] = [];
+
+  for (let skip = 0; ; skip += APPROVAL_BATCH_SIZE) {
+    const approvals = await db.actionApproval.findMany({
+      where: {
+        tenantId: filters.tenantId,
+        ...(upperBound ? { createdAt: { lte: upperBound } } : {}),
+        ...(filters.from ? { updatedAt: { gte: filters.from } } : {}),
+      },
+      select: { id: true, source: true, status: true, auditLog: true, updatedAt: true },
+      orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+      skip,
+      take: APPROVAL_BATCH_SIZE,
+    });
+
+    for (const approval of approvals) {
+      normalizeAuditLog(approval.auditLog).forEach((event, index) => {
+        const entry: Entry = {
+          id: `${approval.id}:${index}`,
+          source: 'approval',
+          type: `approval.${event.event}`,
+          actorId: event.by,
+          occurredAt: new Date(event.at),
+          summary: `${approval.source} ${event.event}${event.note ? `: ${event.note}` : ''}`,
+          resourceId: approval.id,
+          metadata: { approvalStatus: approval.status, ...(event.metadata ?? {}) },
+        };
+
+        if (
+          Number.isNaN(entry.occurredAt.getTime()) ||
+          (events && !events.has(event.event)) ||
+          (filters.actorId && event.by !== filters.actorId) ||
+          (filters.from && entry.occurredAt < filters.from) ||
+          (filters.to && entry.occurredAt > filters.to) ||
+          !isAfterCursor(entry, cursor)
+        ) {
+          return;
+        }
+
+        collected.push(entry);
+      });
+    }
+
+    collected = collected.sort(compareEntries).slice(0, take);
+    const lastApproval = approvals[approvals.length - 1];
+    const oldestKept = collected.length === take ? collected[take - 1] : undefined;
+
+    if (
+      approvals.length < APPROVAL_BATCH_SIZE ||
+      !lastApproval ||
+      (oldestKept && lastApproval.updatedAt < oldestKept.occurredAt)
+    ) {
+      return collected;
+    }
+  }
+}
+
+async function attachActorEmails(db: PrismaClient, entries: Entry[]): Promise<AuditLogEntry[]> {
+  const actorIds = [...new Set(entries.map((entry) => entry.actorId).filter((id): id is string => Boolean(id)))];
+  const users = actorIds.length
+    ? await db.user.findMany({ where: { clerkId: { in: actorIds } }, select: { clerkId: true, email: true } })
+    : [];
+  const emails = new Map(users.map((user) => [user.clerkId, user.email]));
+
+  return entries.map((entry) => ({
+    ...entry,
+    occurredAt: entry.occurredAt.toISOString(),
+    actorEmail: entry.actorId ? emails.get(entry.actorId) ?? null : null,
+  }));
+}
+
+/**
+ * Resolves an actor filter given as an email to the Clerk id stored on
+ * audit rows. Unknown emails resolve to an id that matches nothing.
+ */
+export async function resolveAuditActor(db: PrismaClient, actor: string): Promise<string> {
+  if (!actor.includes('@')) {
+    return actor;
+  }
+
+  const user = await db.user.findFirst({
+    where: { email: { equals: actor, mode: 'insensitive' } },
+    select: { clerkId: true },
+  });
+
+  return user?.clerkId ?? `unknown:${actor}`;
+}
+
+export async function listAuditLog(db: PrismaClient, filters: AuditLogFilters): Promise<AuditLogPage> {
+  const cursor = filters.cursor ? decodeAuditCursor(filters.cursor) : null;
+  const selection = resolveTypeFilter(filters.types);
+  const take = filters.limit + 1;
+
+  const loads: Array<Promise<Entry[]>> = [];
+  if (selection.has('access')) {
+    loads.push(loadAccessEntries(db, filters, cursor, take));
+  }
+  if (selection.has('approval')) {
+    loads.push(loadApprovalEntries(db, filters, cursor, take, selection.get('approval') ?? null));
+  }
+  if (selection.has('knowledge')) {
+    loads.push(loadKnowledgeEntries(db, filters, cursor, take, selection.get('knowledge') ?? null));
+  }
+  if (selection.has('connector')) {
+    loads.push(loadConnectorEntries(db, filters, cursor, take, selection.get('connector') ?? null));
+  }
+
+  const merged = (await Promise.all(loads)).flat().sort(compareEntries);
+  const page = merged.slice(0, filters.limit);
+  const last = page[page.length - 1];
+
+  return {
+    entries: await attachActorEmails(db, page),
+    nextCursor: merged.length > filters.limit && last ? encodeAuditCursor({ at: last.occurredAt, id: last.id }) : null,
+  };
+}
+
+/**
+ * Pages through the whole filtered log for exports, up to `maxEntries`.
+ */
+export async function* iterateAuditLog(
+  db: PrismaClient,
+  filters: Omit<AuditLogFilters, 'cursor'>,
+  maxEntries: number
+): AsyncGenerator<AuditLogEntry> {
+  let cursor: string | undefined;
+  let emitted = 0;
+
+  do {
+    const page = await listAuditLog(db, {
+      ...filters,
+      limit: Math.min(filters.limit, maxEntries - emitted),
+      cursor,
+    });
+
+    for (const entry of page.entries) {
+      yield entry;
+    }
+
+    emitted += page.entries.length;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor && emitted < maxEntries);
+}
+
+function escapeCsv(value: string): string {
+  // Leading formula characters are neutralised so spreadsheets don't execute them
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function formatAuditCsvHeader(): string {
+  return `${AUDIT_EXPORT_COLUMNS.join(',')}\n`;
+}
+
+export function formatAuditCsvRow(entry: AuditLogEntry): string {
+  return `${AUDIT_EXPORT_COLUMNS.map((column) => {
+    const value = entry[column];
+    if (value === null || value === undefined) {
+      return '';
+    }
+    return escapeCsv(typeof value === 'string' ? value : JSON.stringify(value));
+  }).join(',')}\n`;
+}
+
+export function formatAuditJsonLine(entry: AuditLogEntry): string {
+  return `${JSON.stringify(entry)}\n`;
+}
@@ -13,6 +13,7 @@ export interface BillingUsagePoint {
   tasksExecuted: number;
   alertsTriggered: number;
   activeWidgets: number;
+  videoMinutes: number;
   metadata?: Record<string, unknown>;
 }
 
@@ -23,6 +24,7 @@ export interface BillingUsageSummary {
     tasksExecuted: number;
     alertsTriggered: number;
     activeWidgets: number;
+    videoMinutes: number;
   };
   range: {
     start: string;
@@ -52,6 +54,7 @@ function mapUsagePoint(record: BillingUsage): BillingUsagePoint {
     tasksExecuted: record.tasksExecuted,
     alertsTriggered: record.alertsTriggered,
     activeWidgets: record.activeWidgets,
+    videoMinutes: record.videoMinutes,
     metadata,
   };
 }
@@ -88,9 +91,10 @@ export async function getBillingUsage(params: {
       acc.tasksExecuted += point.tasksExecuted;
       acc.alertsTriggered += point.alertsTriggered;
       acc.activeWidgets = Math.max(acc.activeWidgets, point.activeWidgets);
+      acc.videoMinutes += point.videoMinutes;
       return acc;
     },
-    { tokensUsed: 0, tasksExecuted: 0, alertsTriggered: 0, activeWidgets: 0 }
+    { tokensUsed: 0, tasksExecuted: 0, alertsTriggered: 0, activeWidgets: 0, videoMinutes: 0 }
   );
 
   const start = toISODate(params.startDate);
@@ -113,6 +117,7 @@ export interface BillingUsageDelta {
   tasksExecuted?: number;
   alertsTriggered?: number;
   activeWidgets?: number;
+  videoMinutes?: number;
 }
 
 export interface BillingUsageEventMetadata {
@@ -143,6 +148,7 @@ export async function applyBillingUsageDelta(params: {
     tokensUsed: params.deltas?.tokensUsed ?? 0,
     tasksExecuted: params.deltas?.tasksExecuted ?? 0,
     alertsTriggered: params.deltas?.alertsTriggered ?? 0,
+    videoMinutes: params.deltas?.videoMinutes ?? 0,
   };
 
   const activeWidgets = params.deltas?.activeWidgets;
@@ -185,12 +191,14 @@ export async function applyBillingUsageDelta(params: {
       tasksExecuted: deltas.tasksExecuted,
       alertsTriggered: deltas.alertsTriggered,
       activeWidgets: activeWidgets ?? 0,
+      videoMinutes: deltas.videoMinutes,
       metadata: metadata ? toInputJson(metadata) : undefined,
     },
     update: {
       tokensUsed: { increment: deltas.tokensUsed },
       tasksExecuted: { increment: deltas.tasksExecuted },
       alertsTriggered: { increment: deltas.alertsTriggered },
+      videoMinutes: { increment: deltas.videoMinutes },
       ...(activeWidgets !== undefined ? { activeWidgets } : {}),
       metadata: metadata ? toInputJson(metadata) : undefined,
     },
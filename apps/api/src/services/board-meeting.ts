@@ -15,6 +15,7 @@ import type {
   BoardMeetingAgendaStatus,
   BoardMeetingMetrics,
   BoardMeetingSummary,
+  BoardDissent,
   BoardPersonaAnalysis,
   BoardPersonaRecommendation,
   ModuleInsight,
@@ -23,12 +24,17 @@ import type {
   ActionItem,
   InsightSeverity,
 } from '@ocsuite/types';
+import type { PersonaDefinition } from '@ocsuite/module-sdk';
 import { parseJsonRecord } from '../utils/json.js';
 
-export type PersonaId = 'ceo' | 'cfo' | 'cmo';
+/** A built-in persona id or one of the tenant's custom persona ids */
+export type PersonaId = string;
 
-export function isPersonaId(value: unknown): value is PersonaId {
-  return value === 'ceo' || value === 'cfo' || value === 'cmo';
+/** The part of a persona definition the board agenda and routing need */
+export type BoardSeat = Pick<PersonaDefinition, 'id' | 'name' | 'expertise'>;
+
+export function isPersonaId(value: unknown, seats: readonly BoardSeat[]): value is PersonaId {
+  return typeof value === 'string' && seats.some((seat) => seat.id === value);
 }
 
 export interface AgendaTemplateItem {
@@ -38,6 +44,9 @@ export interface AgendaTemplateItem {
   dependsOn?: string | null;
 }
 
+/** Opening statements plus up to two rebuttal rounds */
+export const MAX_DEBATE_ROUNDS = 3;
+
 const ACTION_PRIORITIES = ['low', 'medium', 'high'] as const;
 const VALID_SEVERITIES = ['info', 'warning', 'critical'] as const;
 const DEFAULT_INSIGHT_SEVERITY: InsightSeverity = 'info';
@@ -83,12 +92,33 @@ export interface BoardMeetingContext {
   metricsSummary?: Record<string, unknown>;
 }
 
+// Module slugs containing these tokens are routed to the persona. Custom
+// personas use the words of their expertise instead.
 const PERSONA_HINTS: Record<PersonaId, readonly string[]> = {
   ceo: ['strategy', 'executive', 'summary', 'overall'],
   cfo: ['finance', 'cash', 'revenue', 'margin'],
   cmo: ['marketing', 'growth', 'pipeline', 'demand'],
+  cto: ['engineering', 'platform', 'infrastructure', 'security'],
+  coo: ['operations', 'fulfillment', 'logistics', 'supply'],
+  chro: ['people', 'hiring', 'talent', 'payroll'],
+  gc: ['legal', 'compliance', 'contract', 'privacy'],
 } as const;
 
+const CHAIR_PERSONA_ID: PersonaId = 'ceo';
+
+const DEFAULT_SEATS: BoardSeat[] = [
+  { id: 'ceo', name: 'CEO', expertise: [] },
+  { id: 'cfo', name: 'CFO', expertise: [] },
+  { id: 'cmo', name: 'CMO', expertise: [] },
+];
+
+const SEAT_AGENDA_TITLES: Record<PersonaId, string> = {
+  cto: 'Technology & Delivery Risk',
+  coo: 'Operations & Execution',
+  chro: 'People & Talent',
+  gc: 'Legal & Compliance Review',
+};
+
 export const DEFAULT_AGENDA: AgendaTemplateItem[] = [
   {
     id: 'agenda-executive-overview',
@@ -109,12 +139,41 @@ export const DEFAULT_AGENDA: AgendaTemplateItem[] = [
   },
 ];
 
+/**
+ * The default agenda for a tenant's board: the default sections whose
+ * persona still has a seat (the CEO always opens), then one section per
+ * additional seat. Each section builds on the one before it.
+ */
+export function buildDefaultAgenda(seats: readonly BoardSeat[]): AgendaTemplateItem[] {
+  const seatIds = new Set(seats.map((seat) => seat.id));
+  const sections = DEFAULT_AGENDA.filter(
+    (item) => item.personaId === CHAIR_PERSONA_ID || seatIds.has(item.personaId)
+  ).map(({ id, title, personaId }) => ({ id, title, personaId }));
+
+  for (const seat of seats) {
+    if (sections.some((item) => item.personaId === seat.id)) {
+      continue;
+    }
+    sections.push({
+      id: `agenda-${seat.id}`,
+      title: SEAT_AGENDA_TITLES[seat.id] ?? `${seat.name} Perspective`,
+      personaId: seat.id,
+    });
+  }
+
+  return sections.map((item, index) => ({
+    ...item,
+    ...(index > 0 ? { dependsOn: sections[index - 1]!.id } : {}),
+  }));
+}
+
 /**
  * Load contextual data required for board meeting prompts.
  */
 export async function loadBoardMeetingContext(
   prisma: PrismaClient,
-  tenantId: string
+  tenantId: string,
+  seats: readonly BoardSeat[] = DEFAULT_SEATS
 ): Promise<BoardMeetingContext> {
   const twoWeeksAgo = new Date(Date.now() - 1000 * 60 * 60 * 24 * 14);
 
@@ -152,8 +211,9 @@ export async function loadBoardMeetingContext(
   const mappedInsights = insights.map(mapModuleInsight);
   const analyticsSnapshots = analytics.map(mapAnalyticsSnapshot);
   const recentWins = deriveRecentWins(recentTasks);
-  const personaQuestions = derivePersonaQuestions(mappedInsights);
-  const metricsSummary = buildMetricsSummary(analyticsSnapshots);
+  const personaQuestions = derivePersonaQuestions(mappedInsights, seats);
+  // Snapshots are loaded newest first
+  const metricsSummary = buildMetricsSummary(analyticsSnapshots, analytics[0]?.metadata);
 
   return {
     businessProfile: businessProfile ? mapBusinessProfile(businessProfile) : null,
@@ -239,13 +299,18 @@ function deriveRecentWins(tasks: Task[]): string[] {
   });
 }
 
-function derivePersonaQuestions(insights: ModuleInsight[]): Record<PersonaId, string[]> {
-  const prompts: Record<PersonaId, string[]> = { ceo: [], cfo: [], cmo: [] };
+function derivePersonaQuestions(
+  insights: ModuleInsight[],
+  seats: readonly BoardSeat[]
+): Record<PersonaId, string[]> {
+  const prompts: Record<PersonaId, string[]> = Object.fromEntries(
+    [CHAIR_PERSONA_ID, ...seats.map((seat) => seat.id)].map((id) => [id, [] as string[]])
+  );
 
   insights.forEach((insight) => {
     const question = `${capitalize(insight.moduleSlug)} insight: ${insight.summary}`;
 
-    const persona = resolvePersonaForInsight(insight);
+    const persona = resolvePersonaForInsight(insight, seats);
     if (!prompts[persona]) {
       prompts[persona] = [];
     }
@@ -257,18 +322,54 @@ function derivePersonaQuestions(insights: ModuleInsight[]): Record<PersonaId, st
   return prompts;
 }
 
-function resolvePersonaForInsight(insight: ModuleInsight): PersonaId {
+function personaHints(seat: BoardSeat): readonly string[] {
+  return (
+    PERSONA_HINTS[seat.id] ??
+    seat.expertise.flatMap((area) => area.toLowerCase().split(/\s+/)).filter((token) => token.length > 2)
+  );
+}
+
+function resolvePersonaForInsight(insight: ModuleInsight, seats: readonly BoardSeat[]): PersonaId {
   const slug = insight.moduleSlug.toLowerCase();
-  if (PERSONA_HINTS.cfo.some((token) => slug.includes(token))) {
-    return 'cfo';
+  const seat = seats.find(
+    (candidate) =>
+      candidate.id !== CHAIR_PERSONA_ID && personaHints(candidate).some((token) => slug.includes(token))
+  );
+  return seat?.id ?? CHAIR_PERSONA_ID;
+}
+
+/**
+ * Flattens the per-provider metrics that connector syncs store on a
+ * snapshot into `slackActivity: messages=12, activeChannels=3` style lines.
+ */
+function summarizeConnectorMetrics(metadata: DbAnalyticsSnapshot['metadata']): Record<string, string> {
+  const connectors = parseJsonRecord(metadata).connectors;
+  if (!connectors || typeof connectors !== 'object' || Array.isArray(connectors)) {
+    return {};
   }
-  if (PERSONA_HINTS.cmo.some((token) => slug.includes(token))) {
-    return 'cmo';
+
+  const summary: Record<string, string> = {};
+  for (const [provider, metrics] of Object.entries(connectors as Record<string, unknown>)) {
+    if (!metrics || typeof metrics !== 'object') {
+      continue;
+    }
+
+    const values = Object.entries(metrics as Record<string, unknown>)
+      .filter(([, value]) => typeof value === 'number')
+      .map(([key, value]) => `${key}=${value}`);
+
+    if (values.length) {
+      summary[`${provider}Activity`] = values.join(', ');
+    }
   }
-  return 'ceo';
+
+  return summary;
 }
 
-function buildMetricsSummary(analytics: AnalyticsSnapshot[]): Record<string, unknown> | undefined {
+function buildMetricsSummary(
+  analytics: AnalyticsSnapshot[],
+  latestMetadata?: DbAnalyticsSnapshot['metadata']
+): Record<string, unknown> | undefined {
   if (!analytics.length) {
     return undefined;
   }
@@ -298,6 +399,7 @@ function buildMetricsSummary(analytics: AnalyticsSnapshot[]): Record<string, unk
     revenue: latest.revenue,
     conversionRate: Number(conversionRate.toFixed(2)),
     revenueChangePct: revenueChange !== null ? Number(revenueChange.toFixed(2)) : null,
+    ...(latestMetadata ? summarizeConnectorMetrics(latestMetadata) : {}),
   };
 }
 
@@ -326,6 +428,8 @@ export interface ParsedPersonaPayload {
   opportunities: string[];
   recommendations: BoardPersonaRecommendation[];
   metrics?: Record<string, unknown> | null;
+  agreements?: string[];
+  dissent?: BoardDissent[];
 }
 
 type RawRecommendation = {
@@ -336,6 +440,26 @@ type RawRecommendation = {
   rationale?: unknown;
 };
 
+type RawDissent = {
+  against?: unknown;
+  point?: unknown;
+  recommendation?: unknown;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toRecommendation(item: RawRecommendation): BoardPersonaRecommendation {
+  return {
+    title: String(item.title ?? ''),
+    ownerHint: item.ownerHint ? String(item.ownerHint) : undefined,
+    dueDateHint: item.dueDateHint ? String(item.dueDateHint) : undefined,
+    priority: item.priority ? String(item.priority) : undefined,
+    rationale: item.rationale ? String(item.rationale) : undefined,
+  };
+}
+
 export function parsePersonaPayload(raw: string): ParsedPersonaPayload {
   const trimmed = raw.trim();
 
@@ -351,13 +475,7 @@ export function parsePersonaPayload(raw: string): ParsedPersonaPayload {
       recommendations: Array.isArray(parsed.recommendations)
         ? (parsed.recommendations as unknown[])
             .filter((item): item is RawRecommendation => typeof item === 'object' && item !== null)
-            .map((item) => ({
-              title: String(item.title ?? ''),
-              ownerHint: item.ownerHint ? String(item.ownerHint) : undefined,
-              dueDateHint: item.dueDateHint ? String(item.dueDateHint) : undefined,
-              priority: item.priority ? String(item.priority) : undefined,
-              rationale: item.rationale ? String(item.rationale) : undefined,
-            }))
+            .map(toRecommendation)
         : [],
       metrics:
         parsed.metrics && typeof parsed.metrics === 'object' && !Array.isArray(parsed.metrics)
@@ -375,12 +493,61 @@ export function parsePersonaPayload(raw: string): ParsedPersonaPayload {
   }
 }
 
+/**
+ * Parses a debate-round rebuttal. Dissent is attributed to the speaking
+ * persona so it can be summarized and turned into action items later.
+ */
+export function parseDebatePayload(
+  raw: string,
+  speaker: { personaId: PersonaId; personaName: string; round: number }
+): ParsedPersonaPayload {
+  const trimmed = raw.trim();
+
+  try {
+    const parsed = JSON.parse(trimmed);
+
+    return {
+      summary: String(parsed.summary ?? ''),
+      risks: [],
+      opportunities: [],
+      recommendations: [],
+      agreements: normalizeHighlights(parsed.agreements),
+      dissent: Array.isArray(parsed.dissent)
+        ? (parsed.dissent as unknown[])
+            .filter((entry): entry is RawDissent => typeof entry === 'object' && entry !== null)
+            .filter((entry) => entry.point)
+            .map((entry) => ({
+              personaId: speaker.personaId,
+              personaName: speaker.personaName,
+              against: entry.against ? String(entry.against) : null,
+              point: String(entry.point),
+              recommendation:
+                isRecord(entry.recommendation) && entry.recommendation.title
+                  ? toRecommendation(entry.recommendation)
+                  : null,
+              round: speaker.round,
+            }))
+        : [],
+    };
+  } catch (error) {
+    return {
+      summary: trimmed,
+      risks: [],
+      opportunities: [],
+      recommendations: [],
+      agreements: [],
+      dissent: [],
+    };
+  }
+}
+
 export function buildPersonaAnalysis(
   personaId: PersonaId,
   personaName: string,
   payload: ParsedPersonaPayload,
   sequence: number,
-  rawContent: string
+  rawContent: string,
+  round = 1
 ): BoardPersonaAnalysis {
   return {
     personaId,
@@ -393,9 +560,54 @@ export function buildPersonaAnalysis(
     rawContent,
     sequence,
     createdAt: new Date().toISOString(),
+    round,
+    ...(payload.agreements ? { agreements: payload.agreements } : {}),
+    ...(payload.dissent ? { dissent: payload.dissent } : {}),
   };
 }
 
+function normalizeStatement(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Positions the board converged on: agreements voiced during debate rounds
+ * plus recommendations more than one persona made independently.
+ */
+function deriveConsensus(analyses: BoardPersonaAnalysis[]): string[] {
+  const consensus = new Map<string, string>();
+
+  analyses
+    .flatMap((analysis) => analysis.agreements ?? [])
+    .forEach((agreement) => {
+      const key = normalizeStatement(agreement);
+      if (key && !consensus.has(key)) {
+        consensus.set(key, agreement);
+      }
+    });
+
+  const backers = new Map<string, { title: string; personas: Set<PersonaId> }>();
+  analyses.forEach((analysis) => {
+    analysis.recommendations.forEach((rec) => {
+      const key = normalizeStatement(rec.title);
+      if (!key) {
+        return;
+      }
+      const entry = backers.get(key) ?? { title: rec.title, personas: new Set<PersonaId>() };
+      entry.personas.add(analysis.personaId);
+      backers.set(key, entry);
+    });
+  });
+
+  backers.forEach((entry, key) => {
+    if (entry.personas.size > 1 && !consensus.has(key)) {
+      consensus.set(key, entry.title);
+    }
+  });
+
+  return [...consensus.values()];
+}
+
 export function buildMeetingSummary(
   analyses: BoardPersonaAnalysis[]
 ): BoardMeetingSummary {
@@ -407,12 +619,18 @@ export function buildMeetingSummary(
 
   return {
     narrative: analyses
-      .map((analysis) => `${analysis.personaName}: ${analysis.summary}`)
+      .map((analysis) =>
+        (analysis.round ?? 1) > 1
+          ? `${analysis.personaName} (round ${analysis.round}): ${analysis.summary}`
+          : `${analysis.personaName}: ${analysis.summary}`
+      )
       .join('\n\n'),
     highlights,
     risks,
     blockers: risks.filter((risk) => /blocker|urgent|critical/i.test(risk)),
     nextSteps,
+    consensus: deriveConsensus(analyses),
+    dissent: analyses.flatMap((analysis) => analysis.dissent ?? []),
   };
 }
 
@@ -0,0 +1,496 @@
+import JSZip from 'jszip';
+import type { BoardMinutesFormat } from '@ocsuite/types';
+
+/**
+ * Renders board meeting minutes. The minutes are first laid out as a list of
+ * format-neutral blocks, which each renderer then turns into Markdown, PDF or
+ * DOCX. The PDF and DOCX writers only cover what minutes need: headings,
+ * paragraphs, bullet lists and one simple table.
+ */
+
+export interface BoardMinutes {
+  meetingId: string;
+  organization: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  attendees: Array<{ personaId: string; name: string }>;
+  agenda: Array<{
+    title: string;
+    presenter: string;
+    discussion: string;
+    risks: string[];
+    opportunities: string[];
+    recommendations: string[];
+  }>;
+  debate: Array<{ round: number; speaker: string; summary: string }>;
+  summary: string;
+  decisions: string[];
+  dissent: Array<{ speaker: string; against: string | null; point: string }>;
+  actionItems: Array<{ title: string; owner: string; dueDate: string; priority: string; status: string }>;
+}
+
+export type MinutesBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; header: string[]; rows: string[][]; widths: number[] };
+
+export interface RenderedMinutes {
+  content: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+function formatDateTime(value: Date): string {
+  return `${value.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+export function buildMinutesBlocks(minutes: BoardMinutes): MinutesBlock[] {
+  const blocks: MinutesBlock[] = [
+    { kind: 'heading', level: 1, text: `Board Meeting Minutes: ${minutes.organization}` },
+    {
+      kind: 'paragraph',
+      text: `Held ${formatDateTime(minutes.startedAt)}${minutes.endedAt ? `, closed ${formatDateTime(minutes.endedAt)}` : ''}. Meeting ${minutes.meetingId}.`,
+    },
+    { kind: 'heading', level: 2, text: 'Attendees' },
+    minutes.attendees.length
+      ? { kind: 'list', items: minutes.attendees.map((attendee) => attendee.name) }
+      : { kind: 'paragraph', text: 'No personas attended.' },
+    { kind: 'heading', level: 2, text: 'Agenda' },
+    minutes.agenda.length
+      ? {
+          kind: 'list',
+          items: minutes.agenda.map((item, index) => `${index + 1}. ${item.title} (${item.presenter})`),
+        }
+      : { kind: 'paragraph', text: 'No agenda recorded.' },
+    { kind: 'heading', level: 2, text: 'Discussion' },
+  ];
+
+  minutes.agenda.forEach((item, index) => {
+    blocks.push({ kind: 'heading', level: 3, text: `${index + 1}. ${item.title}` });
+    blocks.push({
+      kind: 'paragraph',
+      text: item.discussion ? `${item.presenter}: ${item.discussion}` : `${item.presenter} did not report on this item.`,
+    });
+
+    const points = [
+      ...item.risks.map((risk) => `Risk: ${risk}`),
+      ...item.opportunities.map((opportunity) => `Opportunity: ${opportunity}`),
+      ...item.recommendations.map((recommendation) => `Recommended: ${recommendation}`),
+    ];
+    if (points.length) {
+      blocks.push({ kind: 'list', items: points });
+    }
+  });
+
+  if (minutes.debate.length) {
+    blocks.push({ kind: 'heading', level: 2, text: 'Debate' });
+    const rounds = [...new Set(minutes.debate.map((turn) => turn.round))];
+    for (const round of rounds) {
+      blocks.push({ kind: 'heading', level: 3, text: `Round ${round}` });
+      blocks.push({
+        kind: 'list',
+        items: minutes.debate
+          .filter((turn) => turn.round === round)
+          .map((turn) => `${turn.speaker}: ${turn.summary}`),
+      });
+    }
+  }
+
+  if (minutes.summary) {
+    blocks.push({ kind: 'heading', level: 2, text: 'Summary' });
+    minutes.summary
+      .split(/\n{2,}/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .forEach((paragraph) => blocks.push({ kind: 'paragraph', text: paragraph }));
+  }
+
+  blocks.push({ kind: 'heading', level: 2, text: 'Decisions' });
+  blocks.push(
+    minutes.decisions.length
+      ? { kind: 'list', items: minutes.decisions }
+      : { kind: 'paragraph', text: 'No decisions recorded.' }
+  );
+
+  if (minutes.dissent.length) {
+    blocks.push({ kind: 'heading', level: 2, text: 'Dissent' });
+    blocks.push({
+      kind: 'list',
+      items: minutes.dissent.map(
+        (entry) => `${entry.speaker}${entry.against ? ` (against ${entry.against})` : ''}: ${entry.point}`
+      ),
+    });
+  }
+
+  blocks.push({ kind: 'heading', level: 2, text: 'Action Items' });
+  blocks.push(
+    minutes.actionItems.length
+      ? {
+          kind: 'table',
+          header: ['Action', 'Owner', 'Due', 'Priority', 'Status'],
+          rows: minutes.actionItems.map((item) => [item.title, item.owner, item.dueDate, item.priority, item.status]),
+          widths: [0.4, 0.2, 0.14, 0.12, 0.14],
+        }
+      : { kind: 'paragraph', text: 'No action items recorded.' }
+  );
+
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export function renderMinutesMarkdown(blocks: MinutesBlock[]): string {
+  const parts = blocks.map((block) => {
+    switch (block.kind) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${block.text}`;
+      case 'paragraph':
+        return block.text;
+      case 'list':
+        return block.items.map((item) => `- ${item}`).join('\n');
+      case 'table':
+        return [
+          `| ${block.header.map(escapeMarkdownCell).join(' | ')} |`,
+          `| ${block.header.map(() => '---').join(' | ')} |`,
+          ...block.rows.map((row) => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+        ].join('\n');
+    }
+  });
+
+  return `${parts.join('\n\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+
+const PDF_PAGE_WIDTH = 612;
+const PDF_PAGE_HEIGHT = 792;
+const PDF_MARGIN = 56;
+const PDF_CONTENT_WIDTH = PDF_PAGE_WIDTH - PDF_MARGIN * 2;
+// Average Helvetica glyph width as a share of the font size; errs wide so lines never overflow
+const PDF_AVERAGE_GLYPH_WIDTH = 0.52;
+const PDF_BODY_SIZE = 10.5;
+const PDF_HEADING_SIZES: Record<1 | 2 | 3, number> = { 1: 18, 2: 14, 3: 12 };
+
+// Unicode punctuation that WinAnsi encodes outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '…': 0x85,
+  '€': 0x80,
+};
+
+function toPdfString(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code >= 0x20 && code <= 0xff ? code : code === 0x09 ? 0x20 : 0x3f);
+    const next = String.fromCharCode(byte);
+    encoded += next === '\\' || next === '(' || next === ')' ? `\\${next}` : next;
+  }
+  return `(${encoded})`;
+}
+
+function wrapText(text: string, width: number, size: number): string[] {
+  const maxChars = Math.max(8, Math.floor(width / (size * PDF_AVERAGE_GLYPH_WIDTH)));
+  const lines: string[] = [];
+  let current = '';
+
+  for (const rawWord of text.split(/\s+/).filter(Boolean)) {
+    let word = rawWord;
+    while (word.length > maxChars) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, maxChars));
+      word = word.slice(maxChars);
+    }
+
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxChars) {
+      current = `${current} ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines.length ? lines : [''];
+}
+
+class PdfLayout {
+  readonly pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  private addPage(): void {
+    this.pages.push([]);
+    this.y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1]!;
+  }
+
+  /** Starts a new page unless `height` more points fit on the current one */
+  ensureSpace(height: number): void {
+    if (this.y - height < PDF_MARGIN) {
+      this.addPage();
+    }
+  }
+
+  space(points: number): void {
+    this.y -= points;
+  }
+
+  text(value: string, x: number, size: number, bold = false): void {
+    this.ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${this.y.toFixed(2)} Td ${toPdfString(value)} Tj ET`);
+  }
+
+  rule(x1: number, x2: number): void {
+    this.ops.push(`0.5 w ${x1.toFixed(2)} ${this.y.toFixed(2)} m ${x2.toFixed(2)} ${this.y.toFixed(2)} l S`);
+  }
+
+  lines(values: string[], x: number, size: number, bold = false): void {
+    const leading = size * 1.35;
+    for (const value of values) {
+      this.ensureSpace(leading);
+      this.y -= size;
+      this.text(value, x, size, bold);
+      this.y -= leading - size;
+    }
+  }
+
+  row(cells: string[][], columns: Array<{ x: number }>, size: number, bold: boolean): void {
+    const leading = size * 1.35;
+    const height = Math.max(...cells.map((cell) => cell.length)) * leading;
+    this.ensureSpace(height + 4);
+    const top = this.y;
+    cells.forEach((cellLines, index) => {
+      this.y = top;
+      this.lines(cellLines, columns[index]!.x, size, bold);
+    });
+    this.y = top - height - 4;
+  }
+}
+
+export function renderMinutesPdf(blocks: MinutesBlock[], title: string): Buffer {
+  const layout = new PdfLayout();
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'heading': {
+        const size = PDF_HEADING_SIZES[block.level];
+        layout.space(block.level === 1 ? 0 : size);
+        layout.ensureSpace(size * 3);
+        layout.lines(wrapText(block.text, PDF_CONTENT_WIDTH, size), PDF_MARGIN, size, true);
+        layout.space(2);
+        break;
+      }
+      case 'paragraph':
+        layout.lines(wrapText(block.text, PDF_CONTENT_WIDTH, PDF_BODY_SIZE), PDF_MARGIN, PDF_BODY_SIZE);
+        layout.space(6);
+        break;
+      case 'list':
+        for (const item of block.items) {
+          const [first, ...rest] = wrapText(item, PDF_CONTENT_WIDTH - 14, PDF_BODY_SIZE);
+          layout.ensureSpace(PDF_BODY_SIZE * 1.35);
+          layout.space(PDF_BODY_SIZE);
+          layout.text('•', PDF_MARGIN + 2, PDF_BODY_SIZE);
+          layout.text(first ?? '', PDF_MARGIN + 14, PDF_BODY_SIZE);
+          layout.space(PDF_BODY_SIZE * 0.35);
+          layout.lines(rest, PDF_MARGIN + 14, PDF_BODY_SIZE);
+        }
+        layout.space(6);
+        break;
+      case 'table': {
+        const size = PDF_BODY_SIZE - 1;
+        let x = PDF_MARGIN;
+        const columns = block.widths.map((share) => {
+          const column = { x, width: share * PDF_CONTENT_WIDTH - 6 };
+          x += share * PDF_CONTENT_WIDTH;
+          return column;
+        });
+        const wrapRow = (row: string[]) => row.map((cell, index) => wrapText(cell, columns[index]!.width, size));
+
+        layout.row(wrapRow(block.header), columns, size, true);
+        layout.space(-2);
+        layout.rule(PDF_MARGIN, PDF_MARGIN + PDF_CONTENT_WIDTH);
+        layout.space(2);
+        block.rows.forEach((row) => layout.row(wrapRow(row), columns, size, false));
+        layout.space(6);
+        break;
+      }
+    }
+  }
+
+  const pageCount = layout.pages.length;
+  const pageStreams = layout.pages.map((ops, index) => {
+    const footer = `BT /F1 8 Tf ${PDF_MARGIN} ${PDF_MARGIN / 2} Td ${toPdfString(`${title} - page ${index + 1} of ${pageCount}`)} Tj ET`;
+    return [...ops, footer].join('\n');
+  });
+
+  // Fixed objects: 1 catalog, 2 page tree, 3-4 fonts, 5 document info; then a page and its content per page
+  const pageObjectId = (index: number) => 6 + index * 2;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageStreams.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ')}] /Count ${pageCount} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title ${toPdfString(title)} /Producer (OC-Suite) >>`,
+    ...pageStreams.flatMap((stream, index) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectId(index) + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    ]),
+  ];
+
+  // Every character is a single Latin-1 byte, so string lengths are byte offsets
+  let output = '%PDF-1.4\n%âãÏÓ\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`;
+
+const DOCX_PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+// Half-points
+const DOCX_HEADING_SIZES: Record<1 | 2 | 3, number> = { 1: 36, 2: 28, 3: 24 };
+// Twentieths of a point; US Letter with 0.8in margins
+const DOCX_CONTENT_WIDTH = 12240 - 1152 * 2;
+
+function escapeXml(value: string): string {
+  // Control characters other than tab and newlines are not allowed in XML 1.0
+  const printable = [...value]
+    .filter((char) => char >= ' ' || char === '\t' || char === '\n' || char === '\r')
+    .join('');
+
+  return printable
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function docxRun(text: string, options: { bold?: boolean; size?: number } = {}): string {
+  const properties = [options.bold ? '<w:b/>' : '', options.size ? `<w:sz w:val="${options.size}"/>` : ''].join('');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function docxParagraph(content: string, properties = ''): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function docxTable(block: Extract<MinutesBlock, { kind: 'table' }>): string {
+  const widths = block.widths.map((share) => Math.round(share * DOCX_CONTENT_WIDTH));
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="999999"/>`;
+  const row = (cells: string[], bold: boolean) =>
+    `<w:tr>${cells
+      .map(
+        (cell, index) =>
+          `<w:tc><w:tcPr><w:tcW w:w="${widths[index]}" w:type="dxa"/></w:tcPr>${docxParagraph(docxRun(cell, { bold }))}</w:tc>`
+      )
+      .join('')}</w:tr>`;
+
+  return [
+    `<w:tbl><w:tblPr><w:tblW w:w="${DOCX_CONTENT_WIDTH}" w:type="dxa"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>`,
+    `<w:tblGrid>${widths.map((width) => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>`,
+    row(block.header, true),
+    ...block.rows.map((cells) => row(cells, false)),
+    '</w:tbl>',
+    // Word expects a paragraph between a table and whatever follows it
+    docxParagraph(''),
+  ].join('');
+}
+
+export async function renderMinutesDocx(blocks: MinutesBlock[]): Promise<Buffer> {
+  const body = blocks
+    .map((block) => {
+      switch (block.kind) {
+        case 'heading':
+          return docxParagraph(
+            docxRun(block.text, { bold: true, size: DOCX_HEADING_SIZES[block.level] }),
+            `<w:keepNext/><w:spacing w:before="${block.level === 1 ? 0 : 240}" w:after="120"/>`
+          );
+        case 'paragraph':
+          return docxParagraph(docxRun(block.text), '<w:spacing w:after="120"/>');
+        case 'list':
+          return block.items
+            .map((item) => docxParagraph(docxRun(`• ${item}`), '<w:ind w:left="360" w:hanging="240"/>'))
+            .join('');
+        case 'table':
+          return docxTable(block);
+      }
+    })
+    .join('');
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1152" w:right="1152" w:bottom="1152" w:left="1152" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', DOCX_CONTENT_TYPES);
+  zip.file('_rels/.rels', DOCX_PACKAGE_RELS);
+  zip.file('word/document.xml', document);
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+export async function renderMinutes(minutes: BoardMinutes, format: BoardMinutesFormat): Promise<RenderedMinutes> {
+  const blocks = buildMinutesBlocks(minutes);
+
+  switch (format) {
+    case 'markdown':
+      return {
+        content: Buffer.from(renderMinutesMarkdown(blocks), 'utf8'),
+        contentType: 'text/markdown; charset=utf-8',
+        extension: 'md',
+      };
+    case 'pdf':
+      return {
+        content: renderMinutesPdf(blocks, `${minutes.organization} board minutes`),
+        contentType: 'application/pdf',
+        extension: 'pdf',
+      };
+    case 'docx':
+      return {
+        content: await renderMinutesDocx(blocks),
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        extension: 'docx',
+      };
+  }
+}
@@ -0,0 +1,359 @@
+import { z } from 'zod';
+import { TenantMemberRole, type BoardMinutesExport, type PrismaClient } from '@ocsuite/db';
+import type { BoardMeetingSummary, BoardMinutesExportRecord, BoardMinutesFormat } from '@ocsuite/types';
+import { getPersonaById } from '@ocsuite/module-sdk';
+import { config } from '../config/index.js';
+import { parseJsonRecord } from '../utils/json.js';
+import { apiLogger } from '../utils/logger.js';
+import { parsePersonaPayload, type ParsedPersonaPayload } from './board-meeting.js';
+import { renderMinutes, type BoardMinutes } from './board-minutes-render.js';
+import { createEmailTransport } from './notification-transports.js';
+import { renderBoardMinutes } from './notification-templates.js';
+
+export const BOARD_MINUTES_FORMATS = ['markdown', 'pdf', 'docx'] as const satisfies readonly BoardMinutesFormat[];
+
+export const createMinutesExportSchema = z.object({
+  format: z.enum(BOARD_MINUTES_FORMATS),
+  emailMembers: z.boolean().optional(),
+});
+
+export type CreateMinutesExportInput = z.infer<typeof createMinutesExportSchema>;
+
+export class BoardMinutesNotFoundError extends Error {
+  constructor(message = 'Board meeting not found') {
+    super(message);
+    this.name = 'BoardMinutesNotFoundError';
+  }
+}
+
+export class BoardMinutesStateError extends Error {
+  constructor(message = 'Minutes are not available for this meeting') {
+    super(message);
+    this.name = 'BoardMinutesStateError';
+  }
+}
+
+export class BoardMinutesForbiddenError extends Error {
+  constructor(message = 'Only owners, admins or the meeting organizer can email minutes to members') {
+    super(message);
+    this.name = 'BoardMinutesForbiddenError';
+  }
+}
+
+/** Roles that may email any meeting's minutes; others only their own meetings'. */
+const EMAIL_ANY_MINUTES_ROLES: TenantMemberRole[] = [TenantMemberRole.owner, TenantMemberRole.admin];
+
+const AGENDA_ENTRY_SCHEMA = z.object({
+  title: z.string(),
+  personaId: z.string(),
+});
+
+function personaDisplayName(personaId: string, metrics: Record<string, unknown> | null): string {
+  // Custom personas may since have been renamed or deleted
+  if (typeof metrics?.personaName === 'string') {
+    return metrics.personaName;
+  }
+  return getPersonaById(personaId)?.name ?? personaId.toUpperCase();
+}
+
+function toDateLabel(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Collects everything the minutes report: who attended, what was discussed
+ * under each agenda item, the board's decisions and dissent, and the action
+ * items with their owners and due dates.
+ */
+export async function loadBoardMinutes(
+  db: PrismaClient,
+  params: { tenantId: string; meetingId: string }
+): Promise<BoardMinutes> {
+  const { tenantId, meetingId } = params;
+
+  const [meeting, tenant] = await Promise.all([
+    db.boardMeeting.findFirst({
+      where: { id: meetingId, tenantId },
+      include: {
+        personaTurns: { orderBy: { sequence: 'asc' } },
+        actionItems: {
+          orderBy: { createdAt: 'asc' },
+          include: { assignee: { include: { user: true } } },
+        },
+      },
+    }),
+    db.tenant.findUnique({ where: { id: tenantId }, select: { name: true } }),
+  ]);
+
+  if (!meeting) {
+    throw new BoardMinutesNotFoundError();
+  }
+
+  if (!meeting.endedAt) {
+    throw new BoardMinutesStateError('Minutes can be exported once the meeting has finished');
+  }
+
+  const turns = meeting.personaTurns.map((turn) => {
+    const metrics = turn.metrics ? parseJsonRecord(turn.metrics) : null;
+    const parsed = (metrics?.parsed as ParsedPersonaPayload | undefined) ?? parsePersonaPayload(turn.content);
+    return {
+      personaId: turn.persona,
+      name: personaDisplayName(turn.persona, metrics),
+      round: typeof metrics?.round === 'number' ? metrics.round : 1,
+      sequence: turn.sequence,
+      parsed,
+    };
+  });
+
+  const agendaEntries = Array.isArray(meeting.agenda)
+    ? meeting.agenda.flatMap((entry) => {
+        const parsed = AGENDA_ENTRY_SCHEMA.safeParse(entry);
+        return parsed.success ? [parsed.data] : [];
+      })
+    : [];
+
+  const metadata = meeting.metadata ? parseJsonRecord(meeting.metadata) : {};
+  const summary = (metadata.summary ?? null) as Partial<BoardMeetingSummary> | null;
+
+  const attendees = new Map<string, string>();
+  turns.forEach((turn) => attendees.set(turn.personaId, turn.name));
+
+  // The worker records the opening turn of agenda item N with sequence N
+  const agenda = agendaEntries.map((entry, index) => {
+    const turn =
+      turns.find((candidate) => candidate.sequence === index + 1 && candidate.personaId === entry.personaId) ??
+      turns.find((candidate) => candidate.round === 1 && candidate.personaId === entry.personaId);
+
+    return {
+      title: entry.title,
+      presenter: turn?.name ?? attendees.get(entry.personaId) ?? personaDisplayName(entry.personaId, null),
+      discussion: turn?.parsed.summary ?? '',
+      risks: turn?.parsed.risks ?? [],
+      opportunities: turn?.parsed.opportunities ?? [],
+      recommendations: (turn?.parsed.recommendations ?? []).map((recommendation) => recommendation.title),
+    };
+  });
+
+  const decisions = [...new Set([...(summary?.consensus ?? []), ...(summary?.nextSteps ?? [])])];
+
+  return {
+    meetingId: meeting.id,
+    organization: tenant?.name ?? 'OC-Suite',
+    startedAt: meeting.startedAt,
+    endedAt: meeting.endedAt,
+    attendees: [...attendees].map(([personaId, name]) => ({ personaId, name })),
+    agenda,
+    debate: turns
+      .filter((turn) => turn.round > 1)
+      .map((turn) => ({ round: turn.round, speaker: turn.name, summary: turn.parsed.summary })),
+    summary: summary?.narrative ?? meeting.outcomeSummary ?? '',
+    decisions,
+    dissent: (summary?.dissent ?? []).map((entry) => ({
+      speaker: entry.personaName,
+      against: entry.against ? attendees.get(entry.against) ?? entry.against : null,
+      point: entry.point,
+    })),
+    actionItems: meeting.actionItems.map((item) => {
+      const itemMetadata = item.metadata ? parseJsonRecord(item.metadata) : {};
+      const ownerHint = typeof itemMetadata.ownerHint === 'string' ? itemMetadata.ownerHint : null;
+      const dueDateHint = typeof itemMetadata.dueDateHint === 'string' ? itemMetadata.dueDateHint : null;
+      const assignee = item.assignee?.user;
+
+      return {
+        title: item.title,
+        owner: assignee?.name ?? assignee?.email ?? (ownerHint ? `${ownerHint} (suggested)` : 'Unassigned'),
+        dueDate: toDateLabel(item.dueDate) ?? dueDateHint ?? 'Not set',
+        priority: item.priority,
+        status: item.status.replace('_', ' '),
+      };
+    }),
+  };
+}
+
+export function toMinutesExportRecord(row: Omit<BoardMinutesExport, 'content'>): BoardMinutesExportRecord {
+  return {
+    id: row.id,
+    meetingId: row.meetingId,
+    format: row.format,
+    fileName: row.fileName,
+    contentType: row.contentType,
+    sizeBytes: row.sizeBytes,
+    createdBy: row.createdBy,
+    emailedTo: row.emailedTo,
+    emailedAt: row.emailedAt ? row.emailedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+    downloadPath: `/board/meetings/${row.meetingId}/minutes/${row.id}/download`,
+  };
+}
+
+/**
+ * Best effort, like invitation emails: returns the member user ids the
+ * minutes reached and logs the rest.
+ */
+async function emailMinutesToMembers(
+  db: PrismaClient,
+  params: { tenantId: string; userId: string; minutes: BoardMinutes; row: BoardMinutesExport }
+): Promise<string[]> {
+  const { tenantId, userId, minutes, row } = params;
+  const transport = createEmailTransport();
+  if (!transport) {
+    apiLogger.warn('SMTP is not configured; skipping board minutes email', { tenantId, exportId: row.id });
+    return [];
+  }
+
+  try {
+    const [members, sender] = await Promise.all([
+      db.tenantMember.findMany({
+        where: { tenantId },
+        select: { userId: true, user: { select: { email: true } } },
+      }),
+      db.user.findUnique({ where: { id: userId }, select: { name: true, email: true } }),
+    ]);
+
+    const message = renderBoardMinutes({
+      tenantName: minutes.organization,
+      senderName: sender?.name ?? sender?.email ?? 'A board member',
+      meetingDate: minutes.startedAt,
+      fileName: row.fileName,
+      url: config.notifications.appUrl ? `${config.notifications.appUrl}/board` : null,
+    });
+    const attachment = { filename: row.fileName, content: Buffer.from(row.content), contentType: row.contentType };
+
+    const delivered: string[] = [];
+    for (const member of members) {
+      try {
+        await transport.send(member.user.email, message, [attachment]);
+        delivered.push(member.userId);
+      } catch (error) {
+        apiLogger.warn('Failed to email board minutes', {
+          tenantId,
+          exportId: row.id,
+          userId: member.userId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return delivered;
+  } finally {
+    transport.close();
+  }
+}
+
+/**
+ * Emailing reaches every member, so it is limited to owners, admins and the
+ * member who started the meeting (recorded as `requestedBy`, a Clerk id).
+ */
+async function assertCanEmailMinutes(
+  db: PrismaClient,
+  params: { tenantId: string; meetingId: string; clerkId: string; tenantRole: TenantMemberRole }
+): Promise<void> {
+  if (EMAIL_ANY_MINUTES_ROLES.includes(params.tenantRole)) {
+    return;
+  }
+
+  const meeting = await db.boardMeeting.findFirst({
+    where: { id: params.meetingId, tenantId: params.tenantId },
+    select: { metadata: true },
+  });
+
+  if (!meeting) {
+    throw new BoardMinutesNotFoundError();
+  }
+
+  const metadata = meeting.metadata ? parseJsonRecord(meeting.metadata) : {};
+  if (metadata.requestedBy !== params.clerkId) {
+    throw new BoardMinutesForbiddenError();
+  }
+}
+
+/**
+ * Renders the meeting's minutes, stores them for download and optionally
+ * emails them to every member of the tenant.
+ */
+export async function createMinutesExport(
+  db: PrismaClient,
+  params: {
+    tenantId: string;
+    meetingId: string;
+    userId: string;
+    clerkId: string;
+    tenantRole: TenantMemberRole;
+    input: CreateMinutesExportInput;
+  }
+): Promise<BoardMinutesExportRecord> {
+  const { tenantId, meetingId, userId, clerkId, tenantRole, input } = params;
+
+  if (input.emailMembers) {
+    await assertCanEmailMinutes(db, { tenantId, meetingId, clerkId, tenantRole });
+  }
+
+  const minutes = await loadBoardMinutes(db, { tenantId, meetingId });
+  const rendered = await renderMinutes(minutes, input.format);
+
+  let row = await db.boardMinutesExport.create({
+    data: {
+      tenantId,
+      meetingId,
+      format: input.format,
+      fileName: `board-minutes-${minutes.startedAt.toISOString().slice(0, 10)}-${meetingId.slice(-6)}.${rendered.extension}`,
+      contentType: rendered.contentType,
+      sizeBytes: rendered.content.length,
+      content: rendered.content,
+      createdBy: userId,
+    },
+  });
+
+  if (input.emailMembers) {
+    const emailedTo = await emailMinutesToMembers(db, { tenantId, userId, minutes, row });
+    if (emailedTo.length) {
+      row = await db.boardMinutesExport.update({
+        where: { id: row.id },
+        data: { emailedTo, emailedAt: new Date() },
+      });
+    }
+  }
+
+  return toMinutesExportRecord(row);
+}
+
+export async function listMinutesExports(
+  db: PrismaClient,
+  params: { tenantId: string; meetingId: string }
+): Promise<BoardMinutesExportRecord[]> {
+  const rows = await db.boardMinutesExport.findMany({
+    where: { tenantId: params.tenantId, meetingId: params.meetingId },
+    orderBy: { createdAt: 'desc' },
+    // The file is only sent by the download endpoint
+    select: {
+      id: true,
+      tenantId: true,
+      meetingId: true,
+      format: true,
+      fileName: true,
+      contentType: true,
+      sizeBytes: true,
+      createdBy: true,
+      emailedTo: true,
+      emailedAt: true,
+      createdAt: true,
+    },
+  });
+
+  return rows.map(toMinutesExportRecord);
+}
+
+export async function getMinutesExport(
+  db: PrismaClient,
+  params: { tenantId: string; meetingId: string; exportId: string }
+): Promise<BoardMinutesExport> {
+  const row = await db.boardMinutesExport.findFirst({
+    where: { id: params.exportId, tenantId: params.tenantId, meetingId: params.meetingId },
+  });
+
+  if (!row) {
+    throw new BoardMinutesNotFoundError('Minutes export not found');
+  }
+
+  return row;
+}
@@ -0,0 +1,396 @@
+import { randomUUID } from 'node:crypto';
+import type { Message, PrismaClient } from '@ocsuite/db';
+import { config } from '../config/index.js';
+import {
+  executeModuleCapability,
+  listModuleCapabilities,
+  type RegisteredCapability,
+} from '../modules/registry.js';
+import { createContextLogger } from '../utils/logger.js';
+import { toInputJson } from '../utils/json.js';
+import { submitActionApproval } from './action-approvals.js';
+import {
+  streamCompletion,
+  type LLMMessage,
+  type LLMToolCall,
+  type LLMToolDefinition,
+} from './llm/llm-client.js';
+
+export const CHAT_TOOL_SOURCE = 'chat-tool';
+
+const chatToolLogger = createContextLogger('chat-tools');
+
+export type ChatToolStatus = 'running' | 'completed' | 'failed' | 'pending_approval';
+
+export interface ChatTool {
+  definition: LLMToolDefinition;
+  capability: RegisteredCapability;
+}
+
+export interface ChatToolOutcome {
+  toolCallId: string;
+  name: string;
+  status: Exclude<ChatToolStatus, 'running'>;
+  result: Record<string, unknown>;
+  approvalId?: string;
+}
+
+export type ChatLoopEvent =
+  | { type: 'chunk'; content: string }
+  | {
+      type: 'tool_progress';
+      toolCallId: string;
+      name: string;
+      moduleSlug?: string;
+      capability?: string;
+      status: ChatToolStatus;
+      approvalId?: string;
+      error?: string;
+    };
+
+export interface ChatLoopContext {
+  db: PrismaClient;
+  tenantId: string;
+  userId: string;
+  conversationId: string;
+  personaType: string;
+}
+
+export interface ChatLoopResult {
+  content: string;
+  model?: string;
+  provider?: string;
+  tokens: { input: number; output: number; total: number };
+  toolRounds: number;
+}
+
+/**
+ * Tool names must match `^[a-zA-Z0-9_-]{1,64}$` for OpenAI-compatible APIs.
+ */
+export function toChatToolName(moduleSlug: string, capability: string): string {
+  return `${moduleSlug}__${capability}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+/**
+ * Exposes every registered module capability as an LLM tool. The tenant is
+ * implied by the conversation, so `tenantId` is removed from the schema.
+ */
+export function buildChatTools(capabilities: RegisteredCapability[]): Map<string, ChatTool> {
+  const tools = new Map<string, ChatTool>();
+
+  for (const capability of capabilities) {
+    const schema = capability.definition.inputsSchema;
+    const properties = { ...(schema.properties ?? {}) };
+    delete properties.tenantId;
+
+    const name = toChatToolName(capability.moduleSlug, capability.capability);
+    const description = capability.mutating
+      ? `${capability.definition.description}. Changes data, so calling it submits an approval request instead of running immediately.`
+      : capability.definition.description;
+
+    tools.set(name, {
+      capability,
+      definition: {
+        name,
+        description,
+        parameters: {
+          type: 'object',
+          properties,
+          required: (schema.required ?? []).filter((field) => field !== 'tenantId'),
+        },
+      },
+    });
+  }
+
+  return tools;
+}
+
+/**
+ * Chat tools for every capability available right now, including those only
+ * offered by module workers.
+ */
+export async function loadChatTools(): Promise<Map<string, ChatTool>> {
+  return buildChatTools(await listModuleCapabilities());
+}
+
+function parseArguments(raw: string): Record<string, unknown> | null {
+  if (!raw.trim()) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Runs one tool call. Read-only capabilities execute inline; mutating ones
+ * are submitted for approval and the model is told the action is pending.
+ * Failures are returned as results so the model can explain them.
+ */
+export async function executeChatToolCall(
+  call: LLMToolCall,
+  tools: Map<string, ChatTool>,
+  context: ChatLoopContext
+): Promise<ChatToolOutcome> {
+  const tool = tools.get(call.name);
+  if (!tool) {
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      status: 'failed',
+      result: { error: `Unknown tool "${call.name}"` },
+    };
+  }
+
+  const args = parseArguments(call.arguments);
+  if (!args) {
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      status: 'failed',
+      result: { error: 'Tool arguments must be a JSON object' },
+    };
+  }
+
+  const { moduleSlug, capability, mutating } = tool.capability;
+
+  try {
+    if (mutating) {
+      const { approval, risk } = await submitActionApproval(context.db, {
+        tenantId: context.tenantId,
+        userId: context.userId,
+        source: CHAT_TOOL_SOURCE,
+        payload: { ...args, moduleSlug, capability },
+        comment: `Requested by the ${context.personaType.toUpperCase()} in chat conversation ${context.conversationId}`,
+        persona: context.personaType,
+      });
+
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        status: 'pending_approval',
+        approvalId: approval.id,
+        result: {
+          status: 'pending_approval',
+          approvalId: approval.id,
+          riskLevel: risk.level,
+          message: 'The action was submitted for approval and will run once a team member approves it.',
+        },
+      };
+    }
+
+    const execution = await executeModuleCapability({
+      moduleSlug,
+      capability,
+      tenantId: context.tenantId,
+      actorId: context.userId,
+      taskId: randomUUID(),
+      payload: args,
+      db: context.db,
+      logger: chatToolLogger,
+    });
+
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      status: execution.success ? 'completed' : 'failed',
+      result: execution.success
+        ? { outputs: execution.outputs ?? {} }
+        : { error: execution.error?.message ?? 'Capability failed' },
+    };
+  } catch (error) {
+    chatToolLogger.warn('Chat tool call failed', {
+      tenantId: context.tenantId,
+      conversationId: context.conversationId,
+      tool: call.name,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      status: 'failed',
+      result: { error: error instanceof Error ? error.message : 'Capability failed' },
+    };
+  }
+}
+
+async function runAndPersistToolCall(
+  call: LLMToolCall,
+  tools: Map<string, ChatTool>,
+  context: ChatLoopContext,
+  emit: (event: ChatLoopEvent) => void
+): Promise<LLMMessage> {
+  const capability = tools.get(call.name)?.capability;
+  const progress = {
+    type: 'tool_progress' as const,
+    toolCallId: call.id,
+    name: call.name,
+    moduleSlug: capability?.moduleSlug,
+    capability: capability?.capability,
+  };
+
+  emit({ ...progress, status: 'running' });
+
+  const outcome = await executeChatToolCall(call, tools, context);
+  const content = JSON.stringify(outcome.result);
+
+  await context.db.message.create({
+    data: {
+      conversationId: context.conversationId,
+      tenantId: context.tenantId,
+      role: 'tool',
+      content,
+      metadata: toInputJson({
+        personaType: context.personaType,
+        toolCallId: call.id,
+        toolName: call.name,
+        moduleSlug: capability?.moduleSlug ?? null,
+        capability: capability?.capability ?? null,
+        status: outcome.status,
+        approvalId: outcome.approvalId ?? null,
+      }),
+    },
+  });
+
+  emit({
+    ...progress,
+    status: outcome.status,
+    approvalId: outcome.approvalId,
+    error: outcome.status === 'failed' ? String(outcome.result.error ?? 'Tool failed') : undefined,
+  });
+
+  return { role: 'tool', toolCallId: call.id, content };
+}
+
+/**
+ * Tool calls from the conversation's latest assistant turn that have no
+ * persisted result, i.e. the turn was interrupted while tools were running.
+ */
+export function findPendingToolCalls(history: Array<Pick<Message, 'role' | 'metadata'>>): LLMToolCall[] {
+  const lastAssistantIndex = history.map((msg) => msg.role).lastIndexOf('assistant');
+  if (lastAssistantIndex === -1) {
+    return [];
+  }
+
+  const metadata = history[lastAssistantIndex]!.metadata as Record<string, unknown> | null;
+  const calls = Array.isArray(metadata?.toolCalls) ? (metadata!.toolCalls as LLMToolCall[]) : [];
+
+  const answered = new Set(
+    history
+      .slice(lastAssistantIndex + 1)
+      .filter((msg) => msg.role === 'tool')
+      .map((msg) => (msg.metadata as Record<string, unknown> | null)?.toolCallId)
+  );
+
+  return calls.filter((call) => !answered.has(call.id));
+}
+
+/**
+ * Whether the conversation ended mid-turn and `runChatToolLoop` can pick it
+ * up: after a user message, a tool result, or an unanswered tool call.
+ */
+export function isResumable(history: Array<Pick<Message, 'role' | 'metadata'>>): boolean {
+  const last = history[history.length - 1];
+  if (!last) {
+    return false;
+  }
+
+  return last.role === 'user' || last.role === 'tool' || findPendingToolCalls(history).length > 0;
+}
+
+/**
+ * Executes and persists tool calls left unanswered by an interrupted turn.
+ * Run this before rebuilding the prompt so the history is complete.
+ */
+export async function runPendingToolCalls(
+  calls: LLMToolCall[],
+  context: ChatLoopContext,
+  emit: (event: ChatLoopEvent) => void,
+  tools?: Map<string, ChatTool>
+): Promise<void> {
+  const available = tools ?? (await loadChatTools());
+  for (const call of calls) {
+    await runAndPersistToolCall(call, available, context, emit);
+  }
+}
+
+/**
+ * Runs a chat turn, letting the model call module capabilities between
+ * completions. Every assistant tool-call turn and tool result is persisted
+ * as a Message, so an interrupted turn can be resumed from history; the
+ * final answer is returned for the caller to persist.
+ */
+export async function runChatToolLoop(params: {
+  context: ChatLoopContext;
+  messages: LLMMessage[];
+  emit: (event: ChatLoopEvent) => void;
+  tools?: Map<string, ChatTool>;
+  maxToolRounds?: number;
+}): Promise<ChatLoopResult> {
+  const { context, emit } = params;
+  const maxToolRounds = params.maxToolRounds ?? config.chat.maxToolRounds;
+  const tools = params.tools ?? (maxToolRounds > 0 ? await loadChatTools() : new Map<string, ChatTool>());
+  const messages = [...params.messages];
+  const tokens = { input: 0, output: 0, total: 0 };
+
+  for (let round = 0; ; round++) {
+    // Out of rounds: ask for a final answer without offering tools
+    const offerTools = round < maxToolRounds && tools.size > 0;
+    let content = '';
+    let model: string | undefined;
+    let provider: string | undefined;
+    let toolCalls: LLMToolCall[] = [];
+
+    for await (const chunk of streamCompletion({
+      messages,
+      tenantId: context.tenantId,
+      userId: context.userId,
+      personaType: context.personaType,
+      operation: 'chat',
+      tools: offerTools ? [...tools.values()].map((tool) => tool.definition) : undefined,
+    })) {
+      if (chunk.done) {
+        tokens.input += chunk.usage?.inputTokens ?? 0;
+        tokens.output += chunk.usage?.outputTokens ?? 0;
+        tokens.total = tokens.input + tokens.output;
+        model = chunk.metadata?.model;
+        provider = chunk.metadata?.provider;
+        toolCalls = offerTools ? chunk.toolCalls ?? [] : [];
+        break;
+      }
+
+      content += chunk.content;
+      emit({ type: 'chunk', content: chunk.content });
+    }
+
+    if (!toolCalls.length) {
+      return { content, model, provider, tokens, toolRounds: round };
+    }
+
+    await context.db.message.create({
+      data: {
+        conversationId: context.conversationId,
+        tenantId: context.tenantId,
+        role: 'assistant',
+        content,
+        metadata: toInputJson({
+          personaType: context.personaType,
+          model: model ?? null,
+          provider: provider ?? null,
+          toolCalls,
+        }),
+      },
+    });
+
+    messages.push({ role: 'assistant', content, toolCalls });
+
+    for (const call of toolCalls) {
+      messages.push(await runAndPersistToolCall(call, tools, context, emit));
+    }
+  }
+}
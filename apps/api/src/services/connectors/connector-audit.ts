@@ -0,0 +1,48 @@
+import type { ConnectorAuditEventType, ConnectorProvider, PrismaClient } from '@ocsuite/db';
+
+import { createContextLogger } from '../../utils/logger.js';
+import { toInputJson } from '../../utils/json.js';
+
+export interface RecordConnectorAuditEventParams {
+  tenantId: string;
+  connectorId: string | null;
+  provider: ConnectorProvider;
+  event: ConnectorAuditEventType;
+  actorId?: string;
+  summary: string;
+  metadata?: Record<string, unknown>;
+}
+
+const auditLogger = createContextLogger('connector-audit');
+
+/**
+ * Best effort: a failed audit write is logged and never fails the connector
+ * operation that triggered it.
+ */
+export async function recordConnectorAuditEvent(
+  db: Pick<PrismaClient, 'connectorAuditEvent'>,
+  params: RecordConnectorAuditEventParams
+): Promise<void> {
+  const { tenantId, connectorId, provider, event, actorId, summary, metadata } = params;
+
+  try {
+    await db.connectorAuditEvent.create({
+      data: {
+        tenantId,
+        connectorId,
+        provider,
+        event,
+        actorId: actorId ?? null,
+        summary,
+        metadata: metadata ? toInputJson(metadata) : undefined,
+      },
+    });
+  } catch (error) {
+    auditLogger.error('Failed to record connector audit event', {
+      tenantId,
+      connectorId,
+      event,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
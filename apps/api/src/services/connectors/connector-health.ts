@@ -0,0 +1,237 @@
+import { createTenantClient, prisma, type Connector, type PrismaClient } from '@ocsuite/db';
+import { decryptForTenantWithVersion, encryptForTenant, getCurrentKeyVersion } from '@ocsuite/crypto';
+import type { ConnectorHealth, ConnectorHealthState } from '@ocsuite/types';
+import { config } from '../../config/index.js';
+import { apiLogger } from '../../utils/logger.js';
+import { notifyConnectorError } from '../notifications.js';
+import { getConnectorProvider } from './providers/index.js';
+import { recordConnectorAuditEvent } from './connector-audit.js';
+
+type HealthFields = Pick<
+  Connector,
+  'status' | 'lastSyncedAt' | 'lastError' | 'lastErrorAt' | 'tokenExpiresAt' | 'lastRefreshedAt' | 'refreshFailureCount'
+>;
+
+export interface ConnectorRefreshResult {
+  connectorId: string;
+  outcome: 'refreshed' | 'failed' | 'errored';
+  connector: Connector;
+  error?: string;
+}
+
+function refreshLeadMs(): number {
+  return config.connectorRefreshLeadMinutes * 60 * 1000;
+}
+
+export function buildConnectorHealth(connector: HealthFields, now: Date = new Date()): ConnectorHealth {
+  const expiresInSeconds = connector.tokenExpiresAt
+    ? Math.floor((connector.tokenExpiresAt.getTime() - now.getTime()) / 1000)
+    : null;
+
+  let state: ConnectorHealthState;
+  if (connector.status === 'error' || connector.status === 'disconnected') {
+    state = connector.status;
+  } else if (expiresInSeconds !== null && expiresInSeconds <= 0) {
+    state = 'expired';
+  } else if (connector.refreshFailureCount > 0 || (expiresInSeconds !== null && expiresInSeconds * 1000 <= refreshLeadMs())) {
+    state = 'expiring';
+  } else {
+    state = connector.status === 'pending' ? 'pending' : 'healthy';
+  }
+
+  return {
+    state,
+    lastSuccessfulSyncAt: connector.lastSyncedAt?.toISOString() ?? null,
+    lastError: connector.lastError
+      ? { message: connector.lastError, at: connector.lastErrorAt?.toISOString() ?? null }
+      : null,
+    tokenExpiresAt: connector.tokenExpiresAt?.toISOString() ?? null,
+    expiresInSeconds,
+    lastRefreshedAt: connector.lastRefreshedAt?.toISOString() ?? null,
+    refreshFailures: connector.refreshFailureCount,
+  };
+}
+
+/**
+ * Whether the connector's access token expires within the refresh lead time
+ * and can be renewed.
+ */
+export function needsTokenRefresh(
+  connector: Pick<Connector, 'provider' | 'tokenExpiresAt' | 'encryptedRefreshToken'>,
+  now: Date = new Date()
+): boolean {
+  if (!connector.tokenExpiresAt || !connector.encryptedRefreshToken) {
+    return false;
+  }
+
+  if (!getConnectorProvider(connector.provider).refreshTokens) {
+    return false;
+  }
+
+  return connector.tokenExpiresAt.getTime() - now.getTime() <= refreshLeadMs();
+}
+
+/**
+ * Records a sync or refresh failure for the health summary.
+ */
+export async function recordConnectorError(
+  db: PrismaClient,
+  connectorId: string,
+  message: string,
+  now: Date = new Date()
+): Promise<void> {
+  await db.connector.update({
+    where: { id: connectorId },
+    data: { lastError: message.slice(0, 2000), lastErrorAt: now },
+  });
+}
+
+/**
+ * Renews the connector's tokens. A failure increments the consecutive
+ * failure count; reaching CONNECTOR_REFRESH_MAX_FAILURES moves the connector
+ * to `error` and notifies the tenant owners once.
+ */
+export async function refreshConnectorToken(
+  db: PrismaClient,
+  connector: Connector,
+  now: Date = new Date()
+): Promise<ConnectorRefreshResult> {
+  const provider = getConnectorProvider(connector.provider);
+
+  try {
+    if (!provider.refreshTokens || !connector.encryptedRefreshToken) {
+      throw new Error(`${provider.label} connector has no refresh token`);
+    }
+
+    const refreshToken = decryptForTenantWithVersion(
+      connector.encryptedRefreshToken,
+      connector.tenantId,
+      'connector-tokens',
+      connector.encryptionKeyVersion ?? 1
+    );
+
+    const tokens = await provider.refreshTokens(refreshToken);
+
+    // Providers may rotate the refresh token; keep the old one otherwise
+    const updated = await db.connector.update({
+      where: { id: connector.id },
+      data: {
+        encryptedAccessToken: encryptForTenant(tokens.accessToken, connector.tenantId, 'connector-tokens'),
+        encryptedRefreshToken: encryptForTenant(
+          tokens.refreshToken ?? refreshToken,
+          connector.tenantId,
+          'connector-tokens'
+        ),
+        encryptionKeyVersion: getCurrentKeyVersion(),
+        tokenExpiresAt: tokens.expiresIn !== null ? new Date(now.getTime() + tokens.expiresIn * 1000) : null,
+        lastRefreshedAt: now,
+        refreshFailureCount: 0,
+      },
+    });
+
+    apiLogger.info('Refreshed connector token', {
+      tenantId: connector.tenantId,
+      connectorId: connector.id,
+      provider: connector.provider,
+    });
+
+    return { connectorId: connector.id, outcome: 'refreshed', connector: updated };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const failures = connector.refreshFailureCount + 1;
+    const exhausted = failures >= config.connectorRefreshMaxFailures;
+
+    const updated = await db.connector.update({
+      where: { id: connector.id },
+      data: {
+        refreshFailureCount: failures,
+        lastError: `Token refresh failed: ${message}`.slice(0, 2000),
+        lastErrorAt: now,
+        ...(exhausted ? { status: 'error' as const } : {}),
+      },
+    });
+
+    apiLogger.warn('Connector token refresh failed', {
+      tenantId: connector.tenantId,
+      connectorId: connector.id,
+      provider: connector.provider,
+      failures,
+      exhausted,
+      error: message,
+    });
+
+    if (exhausted && connector.status !== 'error') {
+      await recordConnectorAuditEvent(db, {
+        tenantId: connector.tenantId,
+        connectorId: connector.id,
+        provider: connector.provider,
+        event: 'error',
+        summary: `${provider.label} disconnected after ${failures} failed token refreshes`,
+        metadata: { error: message },
+      });
+
+      try {
+        await notifyConnectorError(db, {
+          tenantId: connector.tenantId,
+          connectorId: connector.id,
+          provider: connector.provider,
+          label: provider.label,
+          error: message,
+          failures,
+        });
+      } catch (notifyError) {
+        apiLogger.error('Failed to notify owners about connector error', {
+          tenantId: connector.tenantId,
+          connectorId: connector.id,
+          error: notifyError instanceof Error ? notifyError.message : 'Unknown error',
+        });
+      }
+    }
+
+    return { connectorId: connector.id, outcome: exhausted ? 'errored' : 'failed', connector: updated, error: message };
+  }
+}
+
+/**
+ * Refreshes every active or pending connector of the tenant whose token
+ * expires within the lead time.
+ */
+export async function refreshExpiringConnectors(
+  tenantId: string,
+  now: Date = new Date()
+): Promise<ConnectorRefreshResult[]> {
+  const db = createTenantClient({ tenantId });
+
+  try {
+    const connectors = await db.connector.findMany({
+      where: {
+        tenantId,
+        status: { in: ['active', 'pending'] },
+        encryptedRefreshToken: { not: null },
+        tokenExpiresAt: { lte: new Date(now.getTime() + refreshLeadMs()) },
+      },
+    });
+
+    const results: ConnectorRefreshResult[] = [];
+    for (const connector of connectors.filter((entry) => needsTokenRefresh(entry, now))) {
+      results.push(await refreshConnectorToken(db, connector, now));
+    }
+
+    return results;
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+/**
+ * Tenants that own at least one connector with a refreshable token.
+ */
+export async function listTenantsWithConnectors(): Promise<string[]> {
+  const tenants = await prisma.tenant.findMany({
+    where: { connectors: { some: { encryptedRefreshToken: { not: null } } } },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return tenants.map((tenant) => tenant.id);
+}
@@ -0,0 +1,184 @@
+import type { Connector, PrismaClient } from '@ocsuite/db';
+import { decryptForTenantWithVersion } from '@ocsuite/crypto';
+import { parseJsonRecord, toInputJson } from '../../utils/json.js';
+import { KnowledgeIngestService } from '../knowledge-ingest.js';
+import {
+  ConnectorProviderError,
+  getConnectorProvider,
+  type ConnectorProviderDefinition,
+  type ConnectorSnapshot,
+} from './providers/index.js';
+
+/** How far back the first sync of a connector reaches. */
+export const CONNECTOR_INITIAL_SYNC_DAYS = 30;
+
+export type ConnectorSyncPhase = 'fetching' | 'processing' | 'storing';
+
+export interface ConnectorSyncSummary {
+  documents: number;
+  chunks: number;
+  skippedChunks: number;
+  snapshots: number;
+  since: string;
+}
+
+/**
+ * Start of the window to pull. Incremental syncs restart at the UTC midnight
+ * of the last sync so daily snapshot totals are recomputed from whole days;
+ * re-ingested documents are deduplicated by chunk checksum.
+ */
+export function resolveSyncWindowStart(lastSyncedAt: Date | null, now: Date = new Date()): Date {
+  const from = lastSyncedAt ?? new Date(now.getTime() - CONNECTOR_INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000);
+  return new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+}
+
+export function decryptConnectorAccessToken(connector: Connector): string {
+  return decryptForTenantWithVersion(
+    connector.encryptedAccessToken,
+    connector.tenantId,
+    'connector-tokens',
+    connector.encryptionKeyVersion ?? 1
+  );
+}
+
+function describeSourceName(provider: ConnectorProviderDefinition, metadata: Record<string, unknown>): string {
+  const account = ['teamName', 'workspaceName', 'emailAddress', 'accountName']
+    .map((key) => metadata[key])
+    .find((value): value is string => typeof value === 'string' && value.length > 0);
+
+  return account ? `${provider.label}: ${account}` : provider.label;
+}
+
+/**
+ * Merges provider metrics into the tenant's daily AnalyticsSnapshot. Metrics
+ * always land under `metadata.connectors[provider]`; headline totals are
+ * only written when the day's snapshot is unowned or owned by this
+ * connector, so Stripe revenue never overwrites Google Analytics revenue.
+ */
+export async function applyConnectorSnapshots(
+  db: PrismaClient,
+  params: {
+    tenantId: string;
+    connectorId: string;
+    provider: ConnectorProviderDefinition['id'];
+    snapshots: ConnectorSnapshot[];
+    syncedAt?: Date;
+  }
+): Promise<number> {
+  const { tenantId, connectorId, provider, snapshots, syncedAt = new Date() } = params;
+
+  for (const snapshot of snapshots) {
+    const date = new Date(`${snapshot.date}T00:00:00.000Z`);
+
+    const existing = await db.analyticsSnapshot.findUnique({
+      where: { tenantId_date: { tenantId, date } },
+      select: { id: true, connectorId: true, metadata: true },
+    });
+
+    const metadata = existing?.metadata ? parseJsonRecord(existing.metadata) : {};
+    const connectors =
+      metadata.connectors && typeof metadata.connectors === 'object' && !Array.isArray(metadata.connectors)
+        ? (metadata.connectors as Record<string, unknown>)
+        : {};
+
+    const nextMetadata = toInputJson({
+      ...metadata,
+      connectors: {
+        ...connectors,
+        [provider]: { ...snapshot.metrics, syncedAt: syncedAt.toISOString() },
+      },
+    });
+
+    if (!existing) {
+      await db.analyticsSnapshot.create({
+        data: {
+          tenantId,
+          connectorId,
+          date,
+          ...snapshot.totals,
+          sourceBreakdown: {},
+          metadata: nextMetadata,
+        },
+      });
+      continue;
+    }
+
+    const ownsTotals = !existing.connectorId || existing.connectorId === connectorId;
+
+    await db.analyticsSnapshot.update({
+      where: { id: existing.id },
+      data: {
+        metadata: nextMetadata,
+        ...(ownsTotals && snapshot.totals ? { ...snapshot.totals, connectorId } : {}),
+      },
+    });
+  }
+
+  return snapshots.length;
+}
+
+/**
+ * Pulls a connector's data through its provider definition and stores it as
+ * knowledge documents and analytics snapshots.
+ */
+export async function runConnectorSync(
+  db: PrismaClient,
+  connector: Connector,
+  onPhase: (phase: ConnectorSyncPhase, message: string) => Promise<void> | void = () => undefined
+): Promise<ConnectorSyncSummary> {
+  const provider = getConnectorProvider(connector.provider);
+
+  if (!provider.sync) {
+    throw new ConnectorProviderError(`${provider.label} connectors are not synced by this worker`, provider.id);
+  }
+
+  const metadata = connector.metadata ? parseJsonRecord(connector.metadata) : {};
+  const since = resolveSyncWindowStart(connector.lastSyncedAt);
+
+  await onPhase('fetching', `Fetching data from ${provider.label}`);
+
+  const payload = await provider.sync({
+    tenantId: connector.tenantId,
+    connectorId: connector.id,
+    accessToken: decryptConnectorAccessToken(connector),
+    metadata,
+    since,
+  });
+
+  await onPhase(
+    'processing',
+    `Ingesting ${payload.documents.length} documents from ${provider.label}`
+  );
+
+  let chunks = 0;
+  let skippedChunks = 0;
+
+  if (payload.documents.length) {
+    const ingest = new KnowledgeIngestService({ prisma: db, tenantId: connector.tenantId });
+    const summary = await ingest.ingestConnectorDocuments({
+      sourceName: describeSourceName(provider, metadata),
+      provider: provider.knowledgeProvider,
+      documents: payload.documents,
+      configuration: { connectorId: connector.id, connectorProvider: provider.id },
+    });
+    chunks = summary.chunkCount;
+    skippedChunks = summary.skippedChunks;
+  }
+
+  await onPhase('storing', `Storing ${payload.snapshots.length} analytics snapshots`);
+
+  const snapshots = await applyConnectorSnapshots(db, {
+    tenantId: connector.tenantId,
+    connectorId: connector.id,
+    provider: provider.id,
+    snapshots: payload.snapshots,
+  });
+
+  return {
+    documents: payload.documents.length,
+    chunks,
+    skippedChunks,
+    snapshots,
+    since: since.toISOString(),
+  };
+}
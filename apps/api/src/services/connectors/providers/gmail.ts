@@ -0,0 +1,138 @@
+import { config } from '../../../config/index.js';
+import type { ConnectorDocument } from '../../knowledge-ingest.js';
+import { buildGoogleAuthorizationUrl, exchangeGoogleCode, refreshGoogleTokens } from './google.js';
+import { fetchProviderJson, resolveRedirectUri, toSnapshotDate } from './oauth.js';
+import type {
+  ConnectorOAuthCredentials,
+  ConnectorProviderDefinition,
+  ConnectorSnapshot,
+} from './types.js';
+
+const GMAIL_API_URL = 'https://gmail.googleapis.com/gmail/v1/users/me';
+
+/** Messages pulled per sync; the newest are fetched first. */
+const GMAIL_SYNC_MAX_MESSAGES = 50;
+
+interface GmailMessageList {
+  messages?: Array<{ id: string }>;
+}
+
+interface GmailMessage {
+  id: string;
+  threadId?: string;
+  snippet?: string;
+  internalDate?: string;
+  labelIds?: string[];
+  payload?: {
+    headers?: Array<{ name: string; value: string }>;
+  };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#39;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function gmailCredentials(): ConnectorOAuthCredentials {
+  const gmail = config.connectors.gmail;
+  return {
+    clientId: gmail.clientId ?? config.googleClientId ?? null,
+    clientSecret: gmail.clientSecret ?? config.googleClientSecret ?? null,
+    redirectUri: resolveRedirectUri('gmail', gmail.redirectUri),
+  };
+}
+
+/**
+ * Gmail, read-only. Recent messages become knowledge documents (headers and
+ * snippet, never full bodies) and daily message counts land in analytics.
+ */
+export const gmailProvider: ConnectorProviderDefinition = {
+  id: 'gmail',
+  label: 'Gmail',
+  knowledgeProvider: 'gmail',
+  scopes: [
+    'https://www.googleapis.com/auth/gmail.readonly',
+    'https://www.googleapis.com/auth/userinfo.email',
+  ],
+  credentials: gmailCredentials,
+  buildAuthorizationUrl(state) {
+    return buildGoogleAuthorizationUrl(gmailCredentials(), this.scopes, state);
+  },
+  exchangeCode(code) {
+    return exchangeGoogleCode('gmail', gmailCredentials(), code);
+  },
+  refreshTokens(refreshToken) {
+    return refreshGoogleTokens('gmail', gmailCredentials(), refreshToken);
+  },
+  async describeAccount(tokens) {
+    const profile = await fetchProviderJson<{ emailAddress?: string }>(
+      'gmail',
+      `${GMAIL_API_URL}/profile`,
+      tokens.accessToken
+    );
+    return { emailAddress: profile.emailAddress ?? null };
+  },
+  async sync({ accessToken, since }) {
+    const query = new URLSearchParams({
+      q: `after:${Math.floor(since.getTime() / 1000)} -in:chats`,
+      maxResults: String(GMAIL_SYNC_MAX_MESSAGES),
+    });
+    const list = await fetchProviderJson<GmailMessageList>(
+      'gmail',
+      `${GMAIL_API_URL}/messages?${query.toString()}`,
+      accessToken
+    );
+
+    const documents: ConnectorDocument[] = [];
+    const perDay = new Map<string, { received: number; sent: number }>();
+
+    for (const { id } of list.messages ?? []) {
+      const params = new URLSearchParams({ format: 'metadata' });
+      ['Subject', 'From', 'To', 'Date'].forEach((header) => params.append('metadataHeaders', header));
+
+      const message = await fetchProviderJson<GmailMessage>(
+        'gmail',
+        `${GMAIL_API_URL}/messages/${id}?${params.toString()}`,
+        accessToken
+      );
+
+      const headers = new Map(
+        (message.payload?.headers ?? []).map((header) => [header.name.toLowerCase(), header.value])
+      );
+      const receivedAt = new Date(Number(message.internalDate ?? Date.now()));
+      const subject = headers.get('subject') || '(no subject)';
+      const sent = message.labelIds?.includes('SENT') ?? false;
+
+      const day = toSnapshotDate(receivedAt);
+      const counts = perDay.get(day) ?? { received: 0, sent: 0 };
+      counts[sent ? 'sent' : 'received'] += 1;
+      perDay.set(day, counts);
+
+      documents.push({
+        externalId: `gmail:${message.id}`,
+        title: subject,
+        content: [
+          `From: ${headers.get('from') ?? 'unknown'}`,
+          `To: ${headers.get('to') ?? 'unknown'}`,
+          `Subject: ${subject}`,
+          `Date: ${receivedAt.toISOString()}`,
+          '',
+          decodeEntities(message.snippet ?? ''),
+        ].join('\n'),
+        lastModifiedAt: receivedAt,
+        metadata: { threadId: message.threadId ?? null, sent },
+      });
+    }
+
+    const snapshots: ConnectorSnapshot[] = [...perDay.entries()].map(([date, counts]) => ({
+      date,
+      metrics: { emailsReceived: counts.received, emailsSent: counts.sent },
+    }));
+
+    return { documents, snapshots };
+  },
+};
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { config } from '../../../config/index.js';
+import { apiLogger } from '../../../utils/logger.js';
+import { normalizeTokenResponse, requestOAuthToken, resolveRedirectUri } from './oauth.js';
+import {
+  ConnectorProviderError,
+  type ConnectorOAuthCredentials,
+  type ConnectorProviderDefinition,
+  type OAuthTokenSet,
+} from './types.js';
+
+const GOOGLE_AUTHORIZE_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+export const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+const googleAccountsResponseSchema = z.object({
+  accountSummaries: z
+    .array(
+      z.object({
+        propertySummaries: z
+          .array(
+            z.object({
+              property: z.string(),
+            })
+          )
+          .optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Authorization URL for a Google OAuth app; `access_type=offline` with
+ * `prompt=consent` guarantees a refresh token on every grant.
+ */
+export function buildGoogleAuthorizationUrl(
+  credentials: ConnectorOAuthCredentials,
+  scopes: string[],
+  state: string
+): string {
+  const params = new URLSearchParams({
+    client_id: credentials.clientId || 'demo-client-id',
+    redirect_uri: credentials.redirectUri,
+    response_type: 'code',
+    scope: scopes.join(' '),
+    access_type: 'offline',
+    prompt: 'consent',
+    state,
+    include_granted_scopes: 'true',
+  });
+
+  return `${GOOGLE_AUTHORIZE_URL}?${params.toString()}`;
+}
+
+export async function exchangeGoogleCode(
+  provider: 'google' | 'gmail',
+  credentials: ConnectorOAuthCredentials,
+  code: string
+): Promise<OAuthTokenSet> {
+  if (!credentials.clientId || !credentials.clientSecret) {
+    throw new ConnectorProviderError(`${provider} OAuth credentials not configured`, provider);
+  }
+
+  const data = await requestOAuthToken({
+    provider,
+    url: GOOGLE_TOKEN_URL,
+    clientId: credentials.clientId,
+    clientSecret: credentials.clientSecret,
+    body: {
+      code,
+      redirect_uri: credentials.redirectUri,
+      grant_type: 'authorization_code',
+    },
+  });
+
+  return normalizeTokenResponse(provider, data);
+}
+
+export async function refreshGoogleTokens(
+  provider: 'google' | 'gmail',
+  credentials: ConnectorOAuthCredentials,
+  refreshToken: string
+): Promise<OAuthTokenSet> {
+  if (!credentials.clientId || !credentials.clientSecret) {
+    throw new ConnectorProviderError(`${provider} OAuth credentials not configured`, provider);
+  }
+
+  const data = await requestOAuthToken({
+    provider,
+    url: GOOGLE_TOKEN_URL,
+    clientId: credentials.clientId,
+    clientSecret: credentials.clientSecret,
+    body: {
+      refresh_token: refreshToken,
+      grant_type: 'refresh_token',
+    },
+  });
+
+  return normalizeTokenResponse(provider, data);
+}
+
+/**
+ * Fetch Google Analytics property ID for the authenticated user
+ */
+async function fetchGoogleAnalyticsProperty(accessToken: string): Promise<string | null> {
+  try {
+    const accountsResponse = await fetch(
+      'https://analyticsadmin.googleapis.com/v1beta/accountSummaries',
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    if (!accountsResponse.ok) {
+      apiLogger.warn('Failed to fetch Google Analytics accounts', {
+        status: accountsResponse.status,
+      });
+      return null;
+    }
+
+    const accountsData = googleAccountsResponseSchema.parse(
+      await accountsResponse.json()
+    );
+
+    const propertyName = accountsData.accountSummaries?.[0]?.propertySummaries?.[0]?.property;
+    if (typeof propertyName !== 'string') {
+      return null;
+    }
+
+    const [, propertyId] = propertyName.split('/');
+    return propertyId ?? null;
+  } catch (error) {
+    apiLogger.error('Error fetching Google Analytics property', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+function googleCredentials(): ConnectorOAuthCredentials {
+  return {
+    clientId: config.googleClientId || null,
+    clientSecret: config.googleClientSecret || null,
+    redirectUri: resolveRedirectUri('google', config.googleRedirectUri),
+  };
+}
+
+/**
+ * Google Analytics. Data is pulled by the sync-analytics worker, so there is
+ * no `sync` here.
+ */
+export const googleProvider: ConnectorProviderDefinition = {
+  id: 'google',
+  label: 'Google Analytics',
+  knowledgeProvider: 'other',
+  scopes: [
+    'https://www.googleapis.com/auth/analytics.readonly',
+    'https://www.googleapis.com/auth/userinfo.email',
+    'https://www.googleapis.com/auth/userinfo.profile',
+  ],
+  credentials: googleCredentials,
+  buildAuthorizationUrl(state) {
+    return buildGoogleAuthorizationUrl(googleCredentials(), this.scopes, state);
+  },
+  exchangeCode(code) {
+    return exchangeGoogleCode('google', googleCredentials(), code);
+  },
+  refreshTokens(refreshToken) {
+    return refreshGoogleTokens('google', googleCredentials(), refreshToken);
+  },
+  async describeAccount(tokens) {
+    return { propertyId: await fetchGoogleAnalyticsProperty(tokens.accessToken) };
+  },
+};
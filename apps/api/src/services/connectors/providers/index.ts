@@ -0,0 +1,81 @@
+import type { ConnectorProvider } from '@ocsuite/db';
+import { config } from '../../../config/index.js';
+import { apiLogger } from '../../../utils/logger.js';
+import { gmailProvider } from './gmail.js';
+import { googleProvider } from './google.js';
+import { notionProvider } from './notion.js';
+import { slackProvider } from './slack.js';
+import { stripeProvider } from './stripe.js';
+import {
+  CONNECTOR_PROVIDER_IDS,
+  ConnectorProviderError,
+  type ConnectorProviderDefinition,
+  type OAuthTokenSet,
+} from './types.js';
+
+export * from './types.js';
+
+const registry = new Map<ConnectorProvider, ConnectorProviderDefinition>(
+  [googleProvider, gmailProvider, slackProvider, notionProvider, stripeProvider].map((provider) => [
+    provider.id,
+    provider,
+  ])
+);
+
+export function isConnectorProviderId(value: string): value is ConnectorProvider {
+  return (CONNECTOR_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+export function getConnectorProvider(id: ConnectorProvider): ConnectorProviderDefinition {
+  const provider = registry.get(id);
+  if (!provider) {
+    throw new ConnectorProviderError(`Unknown connector provider "${id}"`, id);
+  }
+
+  return provider;
+}
+
+export function listConnectorProviders(): ConnectorProviderDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Replaces a provider implementation. Intended for tests.
+ */
+export function registerConnectorProvider(provider: ConnectorProviderDefinition): void {
+  registry.set(provider.id, provider);
+}
+
+export function isConnectorProviderConfigured(provider: ConnectorProviderDefinition): boolean {
+  const { clientId, clientSecret } = provider.credentials();
+  return Boolean(clientId && clientSecret);
+}
+
+/**
+ * Exchanges an authorization code. Outside production, providers without
+ * OAuth credentials return mock tokens so the connect flow can be exercised
+ * locally.
+ */
+export async function exchangeConnectorCode(
+  provider: ConnectorProviderDefinition,
+  code: string
+): Promise<OAuthTokenSet> {
+  if (isConnectorProviderConfigured(provider)) {
+    return provider.exchangeCode(code);
+  }
+
+  if (config.nodeEnv === 'production') {
+    throw new ConnectorProviderError(`${provider.label} OAuth credentials not configured`, provider.id);
+  }
+
+  apiLogger.warn('Connector OAuth credentials not configured, using mock tokens', { provider: provider.id });
+
+  return {
+    accessToken: `mock_access_token_${code}_${Date.now()}`,
+    refreshToken: `mock_refresh_token_${code}_${Date.now()}`,
+    expiresIn: 3600,
+    tokenType: 'Bearer',
+    scopes: provider.scopes,
+    raw: {},
+  };
+}
@@ -0,0 +1,173 @@
+import { config } from '../../../config/index.js';
+import type { ConnectorDocument } from '../../knowledge-ingest.js';
+import { fetchProviderJson, normalizeTokenResponse, requestOAuthToken, resolveRedirectUri, toSnapshotDate } from './oauth.js';
+import {
+  ConnectorProviderError,
+  type ConnectorOAuthCredentials,
+  type ConnectorProviderDefinition,
+  type ConnectorSnapshot,
+} from './types.js';
+
+const NOTION_API_URL = 'https://api.notion.com/v1';
+const NOTION_VERSION = '2022-06-28';
+
+/** Recently edited pages read per sync. */
+const NOTION_SYNC_MAX_PAGES = 25;
+
+interface NotionRichText {
+  plain_text?: string;
+}
+
+interface NotionPage {
+  id: string;
+  url?: string;
+  last_edited_time: string;
+  properties?: Record<string, { type?: string; title?: NotionRichText[] }>;
+}
+
+type NotionBlock = { id: string; type: string } & Record<string, unknown>;
+
+function notionHeaders(): Record<string, string> {
+  return { 'Notion-Version': NOTION_VERSION };
+}
+
+function plainText(richText: NotionRichText[] | undefined): string {
+  return (richText ?? []).map((part) => part.plain_text ?? '').join('');
+}
+
+function pageTitle(page: NotionPage): string {
+  const titleProperty = Object.values(page.properties ?? {}).find((property) => property.type === 'title');
+  return plainText(titleProperty?.title).trim() || 'Untitled';
+}
+
+function blockText(block: NotionBlock): string {
+  const value = block[block.type] as { rich_text?: NotionRichText[] } | undefined;
+  const text = plainText(value?.rich_text);
+
+  switch (block.type) {
+    case 'heading_1':
+      return `# ${text}`;
+    case 'heading_2':
+      return `## ${text}`;
+    case 'heading_3':
+      return `### ${text}`;
+    case 'bulleted_list_item':
+    case 'numbered_list_item':
+    case 'to_do':
+      return `- ${text}`;
+    default:
+      return text;
+  }
+}
+
+function notionCredentials(): ConnectorOAuthCredentials {
+  const notion = config.connectors.notion;
+  return {
+    clientId: notion.clientId,
+    clientSecret: notion.clientSecret,
+    redirectUri: resolveRedirectUri('notion', notion.redirectUri),
+  };
+}
+
+/**
+ * Notion public integration. Pages shared with the integration and edited
+ * since the last sync are ingested as knowledge documents.
+ */
+export const notionProvider: ConnectorProviderDefinition = {
+  id: 'notion',
+  label: 'Notion',
+  knowledgeProvider: 'notion',
+  // Notion grants access per page during the OAuth consent, not by scope
+  scopes: [],
+  credentials: notionCredentials,
+  buildAuthorizationUrl(state) {
+    const credentials = notionCredentials();
+    const params = new URLSearchParams({
+      client_id: credentials.clientId ?? '',
+      response_type: 'code',
+      owner: 'user',
+      redirect_uri: credentials.redirectUri,
+      state,
+    });
+    return `${NOTION_API_URL}/oauth/authorize?${params.toString()}`;
+  },
+  async exchangeCode(code) {
+    const credentials = notionCredentials();
+    if (!credentials.clientId || !credentials.clientSecret) {
+      throw new ConnectorProviderError('notion OAuth credentials not configured', 'notion');
+    }
+
+    const data = await requestOAuthToken({
+      provider: 'notion',
+      url: `${NOTION_API_URL}/oauth/token`,
+      clientId: credentials.clientId,
+      clientSecret: credentials.clientSecret,
+      body: { grant_type: 'authorization_code', code, redirect_uri: credentials.redirectUri },
+      encoding: 'json',
+      clientAuth: 'basic',
+    });
+
+    return normalizeTokenResponse('notion', data);
+  },
+  async describeAccount(tokens) {
+    return {
+      workspaceId: typeof tokens.raw.workspace_id === 'string' ? tokens.raw.workspace_id : null,
+      workspaceName: typeof tokens.raw.workspace_name === 'string' ? tokens.raw.workspace_name : null,
+      botId: typeof tokens.raw.bot_id === 'string' ? tokens.raw.bot_id : null,
+    };
+  },
+  async sync({ accessToken, since }) {
+    const search = await fetchProviderJson<{ results?: NotionPage[] }>(
+      'notion',
+      `${NOTION_API_URL}/search`,
+      accessToken,
+      {
+        method: 'POST',
+        headers: notionHeaders(),
+        body: {
+          filter: { property: 'object', value: 'page' },
+          sort: { direction: 'descending', timestamp: 'last_edited_time' },
+          page_size: NOTION_SYNC_MAX_PAGES,
+        },
+      }
+    );
+
+    const pages = (search.results ?? []).filter((page) => new Date(page.last_edited_time) >= since);
+    const documents: ConnectorDocument[] = [];
+    const editsPerDay = new Map<string, number>();
+
+    for (const page of pages) {
+      const { results: blocks = [] } = await fetchProviderJson<{ results?: NotionBlock[] }>(
+        'notion',
+        `${NOTION_API_URL}/blocks/${page.id}/children?page_size=100`,
+        accessToken,
+        { headers: notionHeaders() }
+      );
+
+      const content = blocks.map(blockText).filter((line) => line.trim().length > 0).join('\n');
+      const editedAt = new Date(page.last_edited_time);
+      const day = toSnapshotDate(editedAt);
+      editsPerDay.set(day, (editsPerDay.get(day) ?? 0) + 1);
+
+      if (!content) {
+        continue;
+      }
+
+      const title = pageTitle(page);
+      documents.push({
+        externalId: `notion:${page.id}`,
+        title,
+        content: `${title}\n\n${content}`,
+        lastModifiedAt: editedAt,
+        metadata: { pageId: page.id, url: page.url ?? null },
+      });
+    }
+
+    const snapshots: ConnectorSnapshot[] = [...editsPerDay.entries()].map(([date, pagesEdited]) => ({
+      date,
+      metrics: { pagesEdited },
+    }));
+
+    return { documents, snapshots };
+  },
+};
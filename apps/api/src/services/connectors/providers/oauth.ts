@@ -0,0 +1,145 @@
+import type { ConnectorProvider } from '@ocsuite/db';
+import { config } from '../../../config/index.js';
+import { ConnectorProviderError, type OAuthTokenSet } from './types.js';
+
+/**
+ * Redirect URI registered with the provider, defaulting to this API's
+ * callback route.
+ */
+export function resolveRedirectUri(provider: ConnectorProvider, configured: string | null | undefined): string {
+  return configured || `http://localhost:${config.port}/connectors/${provider}/callback`;
+}
+
+function readErrorDescription(data: unknown, fallback: string): string {
+  if (typeof data !== 'object' || data === null) {
+    return fallback;
+  }
+
+  const record = data as Record<string, unknown>;
+  for (const key of ['error_description', 'message', 'error']) {
+    if (typeof record[key] === 'string' && record[key]) {
+      return record[key] as string;
+    }
+  }
+
+  return fallback;
+}
+
+/**
+ * POSTs an authorization-code or refresh-token grant. `clientAuth: 'basic'`
+ * sends the client credentials as HTTP Basic auth (Notion); otherwise they
+ * travel in the body.
+ */
+export async function requestOAuthToken(params: {
+  provider: ConnectorProvider;
+  url: string;
+  clientId: string;
+  clientSecret: string;
+  body: Record<string, string>;
+  encoding?: 'form' | 'json';
+  clientAuth?: 'body' | 'basic';
+}): Promise<Record<string, unknown>> {
+  const { provider, url, clientId, clientSecret, encoding = 'form', clientAuth = 'body' } = params;
+
+  const fields =
+    clientAuth === 'body'
+      ? { ...params.body, client_id: clientId, client_secret: clientSecret }
+      : params.body;
+
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'Content-Type': encoding === 'json' ? 'application/json' : 'application/x-www-form-urlencoded',
+  };
+  if (clientAuth === 'basic') {
+    headers.Authorization = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: encoding === 'json' ? JSON.stringify(fields) : new URLSearchParams(fields).toString(),
+  });
+
+  const data = (await response.json().catch(() => null)) as unknown;
+
+  if (!response.ok) {
+    throw new ConnectorProviderError(
+      `${provider} token exchange failed: ${readErrorDescription(data, response.statusText)}`,
+      provider,
+      response.status
+    );
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ConnectorProviderError(`${provider} token exchange returned an invalid response`, provider);
+  }
+
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Maps an RFC 6749 token response onto OAuthTokenSet.
+ */
+export function normalizeTokenResponse(
+  provider: ConnectorProvider,
+  data: Record<string, unknown>,
+  scopeSeparator = ' '
+): OAuthTokenSet {
+  const accessToken = data.access_token;
+  if (typeof accessToken !== 'string' || !accessToken) {
+    throw new ConnectorProviderError(`${provider} token response did not include an access token`, provider);
+  }
+
+  const expiresIn = typeof data.expires_in === 'number' ? data.expires_in : null;
+  const scope = typeof data.scope === 'string' ? data.scope : '';
+
+  return {
+    accessToken,
+    refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : null,
+    expiresIn,
+    tokenType: typeof data.token_type === 'string' ? data.token_type : 'Bearer',
+    scopes: scope.split(scopeSeparator).map((value) => value.trim()).filter(Boolean),
+    raw: data,
+  };
+}
+
+/**
+ * Authenticated GET/POST against a provider API, raising
+ * ConnectorProviderError with the upstream status on failure.
+ */
+export async function fetchProviderJson<T>(
+  provider: ConnectorProvider,
+  url: string,
+  accessToken: string,
+  init: { method?: 'GET' | 'POST'; body?: unknown; headers?: Record<string, string> } = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    method: init.method ?? 'GET',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json',
+      ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...init.headers,
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  const data = (await response.json().catch(() => null)) as unknown;
+
+  if (!response.ok) {
+    throw new ConnectorProviderError(
+      `${provider} API error: ${response.status} ${readErrorDescription(data, response.statusText)}`,
+      provider,
+      response.status
+    );
+  }
+
+  return data as T;
+}
+
+/**
+ * YYYY-MM-DD in UTC, matching the AnalyticsSnapshot date keys.
+ */
+export function toSnapshotDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
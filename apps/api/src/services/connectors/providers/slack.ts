@@ -0,0 +1,189 @@
+import { config } from '../../../config/index.js';
+import type { ConnectorDocument } from '../../knowledge-ingest.js';
+import { fetchProviderJson, normalizeTokenResponse, requestOAuthToken, resolveRedirectUri, toSnapshotDate } from './oauth.js';
+import {
+  ConnectorProviderError,
+  type ConnectorOAuthCredentials,
+  type ConnectorProviderDefinition,
+  type ConnectorSnapshot,
+  type OAuthTokenSet,
+} from './types.js';
+
+const SLACK_API_URL = 'https://slack.com/api';
+
+/** Channels read per sync; the bot only sees channels it was invited to. */
+const SLACK_SYNC_MAX_CHANNELS = 20;
+
+interface SlackResponse {
+  ok: boolean;
+  error?: string;
+}
+
+interface SlackChannel {
+  id: string;
+  name: string;
+  is_member?: boolean;
+}
+
+interface SlackMessage {
+  ts: string;
+  text?: string;
+  user?: string;
+  subtype?: string;
+}
+
+/**
+ * Slack reports most failures as HTTP 200 with `ok: false`.
+ */
+async function slackApi<T extends SlackResponse>(
+  method: string,
+  accessToken: string,
+  params: Record<string, string>
+): Promise<T> {
+  const data = await fetchProviderJson<T>(
+    'slack',
+    `${SLACK_API_URL}/${method}?${new URLSearchParams(params).toString()}`,
+    accessToken
+  );
+
+  if (!data.ok) {
+    throw new ConnectorProviderError(`slack API error: ${method} ${data.error ?? 'unknown_error'}`, 'slack');
+  }
+
+  return data;
+}
+
+async function requestSlackToken(body: Record<string, string>): Promise<OAuthTokenSet> {
+  const credentials = slackCredentials();
+  if (!credentials.clientId || !credentials.clientSecret) {
+    throw new ConnectorProviderError('slack OAuth credentials not configured', 'slack');
+  }
+
+  const data = await requestOAuthToken({
+    provider: 'slack',
+    url: `${SLACK_API_URL}/oauth.v2.access`,
+    clientId: credentials.clientId,
+    clientSecret: credentials.clientSecret,
+    body,
+  });
+
+  if (data.ok !== true) {
+    throw new ConnectorProviderError(
+      `slack token exchange failed: ${typeof data.error === 'string' ? data.error : 'unknown_error'}`,
+      'slack'
+    );
+  }
+
+  return normalizeTokenResponse('slack', data, ',');
+}
+
+function slackCredentials(): ConnectorOAuthCredentials {
+  const slack = config.connectors.slack;
+  return {
+    clientId: slack.clientId,
+    clientSecret: slack.clientSecret,
+    redirectUri: resolveRedirectUri('slack', slack.redirectUri),
+  };
+}
+
+/**
+ * Slack bot install. Channel history is filed as one knowledge document per
+ * channel per day, with daily message activity in analytics. The bot also
+ * delivers Slack notifications as direct messages (`chat:write`, matched to
+ * members by email).
+ */
+export const slackProvider: ConnectorProviderDefinition = {
+  id: 'slack',
+  label: 'Slack',
+  knowledgeProvider: 'slack',
+  scopes: ['channels:read', 'channels:history', 'team:read', 'users:read', 'users:read.email', 'chat:write'],
+  credentials: slackCredentials,
+  buildAuthorizationUrl(state) {
+    const credentials = slackCredentials();
+    const params = new URLSearchParams({
+      client_id: credentials.clientId ?? '',
+      scope: this.scopes.join(','),
+      redirect_uri: credentials.redirectUri,
+      state,
+    });
+    return `https://slack.com/oauth/v2/authorize?${params.toString()}`;
+  },
+  exchangeCode(code) {
+    return requestSlackToken({ code, redirect_uri: slackCredentials().redirectUri });
+  },
+  // Only apps with token rotation enabled receive refresh tokens
+  refreshTokens(refreshToken) {
+    return requestSlackToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+  },
+  async describeAccount(tokens) {
+    const team = tokens.raw.team as { id?: string; name?: string } | undefined;
+    return {
+      teamId: team?.id ?? null,
+      teamName: team?.name ?? null,
+      botUserId: typeof tokens.raw.bot_user_id === 'string' ? tokens.raw.bot_user_id : null,
+    };
+  },
+  async sync({ accessToken, since }) {
+    const { channels = [] } = await slackApi<SlackResponse & { channels?: SlackChannel[] }>(
+      'conversations.list',
+      accessToken,
+      { types: 'public_channel', exclude_archived: 'true', limit: '200' }
+    );
+
+    const documents: ConnectorDocument[] = [];
+    const perDay = new Map<string, { messages: number; channels: Set<string>; members: Set<string> }>();
+
+    for (const channel of channels.filter((entry) => entry.is_member).slice(0, SLACK_SYNC_MAX_CHANNELS)) {
+      const { messages = [] } = await slackApi<SlackResponse & { messages?: SlackMessage[] }>(
+        'conversations.history',
+        accessToken,
+        { channel: channel.id, oldest: String(since.getTime() / 1000), limit: '200' }
+      );
+
+      const byDay = new Map<string, string[]>();
+
+      // History is newest-first; transcripts read better oldest-first
+      for (const message of [...messages].reverse()) {
+        if (message.subtype || !message.text?.trim()) {
+          continue;
+        }
+
+        const postedAt = new Date(Number(message.ts) * 1000);
+        const day = toSnapshotDate(postedAt);
+
+        const lines = byDay.get(day) ?? [];
+        lines.push(`[${postedAt.toISOString().slice(11, 16)}] ${message.user ?? 'unknown'}: ${message.text.trim()}`);
+        byDay.set(day, lines);
+
+        const activity = perDay.get(day) ?? { messages: 0, channels: new Set(), members: new Set() };
+        activity.messages += 1;
+        activity.channels.add(channel.id);
+        if (message.user) {
+          activity.members.add(message.user);
+        }
+        perDay.set(day, activity);
+      }
+
+      for (const [day, lines] of byDay) {
+        documents.push({
+          externalId: `slack:${channel.id}:${day}`,
+          title: `#${channel.name} — ${day}`,
+          content: lines.join('\n'),
+          lastModifiedAt: new Date(`${day}T23:59:59.999Z`),
+          metadata: { channelId: channel.id, channelName: channel.name, day },
+        });
+      }
+    }
+
+    const snapshots: ConnectorSnapshot[] = [...perDay.entries()].map(([date, activity]) => ({
+      date,
+      metrics: {
+        messages: activity.messages,
+        activeChannels: activity.channels.size,
+        activeMembers: activity.members.size,
+      },
+    }));
+
+    return { documents, snapshots };
+  },
+};
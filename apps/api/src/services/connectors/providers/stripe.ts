@@ -0,0 +1,174 @@
+import { config } from '../../../config/index.js';
+import { fetchProviderJson, normalizeTokenResponse, requestOAuthToken, resolveRedirectUri, toSnapshotDate } from './oauth.js';
+import {
+  ConnectorProviderError,
+  type ConnectorOAuthCredentials,
+  type ConnectorProviderDefinition,
+  type ConnectorSnapshot,
+} from './types.js';
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+/** Pages of 100 charges read per sync. */
+const STRIPE_SYNC_MAX_PAGES = 10;
+
+interface StripeCharge {
+  id: string;
+  amount: number;
+  amount_refunded: number;
+  currency: string;
+  status: 'succeeded' | 'pending' | 'failed';
+  created: number;
+  customer?: string | null;
+}
+
+interface StripeList<T> {
+  data: T[];
+  has_more: boolean;
+}
+
+function stripeCredentials(): ConnectorOAuthCredentials {
+  const stripe = config.connectors.stripe;
+  return {
+    clientId: stripe.clientId,
+    clientSecret: stripe.secretKey,
+    redirectUri: resolveRedirectUri('stripe', stripe.redirectUri),
+  };
+}
+
+/**
+ * Stripe Connect (read-only). Charges are rolled up into daily revenue,
+ * which becomes the snapshot's headline revenue unless another connector
+ * already owns that day.
+ */
+export const stripeProvider: ConnectorProviderDefinition = {
+  id: 'stripe',
+  label: 'Stripe',
+  knowledgeProvider: 'stripe',
+  scopes: ['read_only'],
+  credentials: stripeCredentials,
+  buildAuthorizationUrl(state) {
+    const credentials = stripeCredentials();
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: credentials.clientId ?? '',
+      scope: this.scopes.join(' '),
+      redirect_uri: credentials.redirectUri,
+      state,
+    });
+    return `https://connect.stripe.com/oauth/authorize?${params.toString()}`;
+  },
+  async exchangeCode(code) {
+    const credentials = stripeCredentials();
+    if (!credentials.clientId || !credentials.clientSecret) {
+      throw new ConnectorProviderError('stripe OAuth credentials not configured', 'stripe');
+    }
+
+    // Stripe authenticates the exchange with the platform secret key as the
+    // Basic auth username, not with the Connect client id
+    const data = await requestOAuthToken({
+      provider: 'stripe',
+      url: 'https://connect.stripe.com/oauth/token',
+      clientId: credentials.clientSecret,
+      clientSecret: '',
+      body: { grant_type: 'authorization_code', code },
+      clientAuth: 'basic',
+    });
+
+    return normalizeTokenResponse('stripe', data);
+  },
+  async describeAccount(tokens) {
+    const account = await fetchProviderJson<{ id?: string; default_currency?: string; business_profile?: { name?: string } }>(
+      'stripe',
+      `${STRIPE_API_URL}/account`,
+      tokens.accessToken
+    );
+
+    return {
+      stripeUserId: typeof tokens.raw.stripe_user_id === 'string' ? tokens.raw.stripe_user_id : account.id ?? null,
+      accountName: account.business_profile?.name ?? null,
+      defaultCurrency: account.default_currency ?? null,
+      livemode: tokens.raw.livemode === true,
+    };
+  },
+  async sync({ accessToken, since, metadata }) {
+    const currency = typeof metadata.defaultCurrency === 'string' ? metadata.defaultCurrency : null;
+    const charges: StripeCharge[] = [];
+    let startingAfter: string | undefined;
+
+    for (let page = 0; page < STRIPE_SYNC_MAX_PAGES; page++) {
+      const params = new URLSearchParams({
+        'created[gte]': String(Math.floor(since.getTime() / 1000)),
+        limit: '100',
+      });
+      if (startingAfter) {
+        params.set('starting_after', startingAfter);
+      }
+
+      const list = await fetchProviderJson<StripeList<StripeCharge>>(
+        'stripe',
+        `${STRIPE_API_URL}/charges?${params.toString()}`,
+        accessToken
+      );
+      charges.push(...list.data);
+
+      if (!list.has_more || !list.data.length) {
+        break;
+      }
+      startingAfter = list.data[list.data.length - 1]!.id;
+    }
+
+    const perDay = new Map<
+      string,
+      { revenue: number; refunded: number; succeeded: number; failed: number; otherCurrency: number; customers: Set<string> }
+    >();
+
+    for (const charge of charges) {
+      const day = toSnapshotDate(new Date(charge.created * 1000));
+      const totals = perDay.get(day) ?? {
+        revenue: 0,
+        refunded: 0,
+        succeeded: 0,
+        failed: 0,
+        otherCurrency: 0,
+        customers: new Set<string>(),
+      };
+      perDay.set(day, totals);
+
+      if (charge.status === 'failed') {
+        totals.failed += 1;
+        continue;
+      }
+      if (charge.status !== 'succeeded') {
+        continue;
+      }
+      // Amounts in different currencies can't be summed meaningfully
+      if (currency && charge.currency !== currency) {
+        totals.otherCurrency += 1;
+        continue;
+      }
+
+      totals.succeeded += 1;
+      totals.revenue += (charge.amount - charge.amount_refunded) / 100;
+      totals.refunded += charge.amount_refunded / 100;
+      if (charge.customer) {
+        totals.customers.add(charge.customer);
+      }
+    }
+
+    const snapshots: ConnectorSnapshot[] = [...perDay.entries()].map(([date, totals]) => ({
+      date,
+      totals: { revenue: totals.revenue, conversions: totals.succeeded },
+      metrics: {
+        revenue: totals.revenue,
+        refunded: totals.refunded,
+        successfulCharges: totals.succeeded,
+        failedCharges: totals.failed,
+        otherCurrencyCharges: totals.otherCurrency,
+        payingCustomers: totals.customers.size,
+      },
+    }));
+
+    return { documents: [], snapshots };
+  },
+};
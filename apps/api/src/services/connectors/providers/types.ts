@@ -0,0 +1,78 @@
+import type { ConnectorProvider, KnowledgeSourceProvider } from '@ocsuite/db';
+import type { ConnectorDocument } from '../../knowledge-ingest.js';
+
+export const CONNECTOR_PROVIDER_IDS = ['google', 'gmail', 'slack', 'notion', 'stripe'] as const satisfies readonly ConnectorProvider[];
+
+export interface ConnectorOAuthCredentials {
+  clientId: string | null;
+  clientSecret: string | null;
+  redirectUri: string;
+}
+
+/**
+ * Token response normalized across providers. Providers whose tokens never
+ * expire (Slack bot tokens, Notion, Stripe Connect) report `expiresIn: null`.
+ */
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresIn: number | null;
+  tokenType: string;
+  scopes: string[];
+  raw: Record<string, unknown>;
+}
+
+export interface ConnectorSyncContext {
+  tenantId: string;
+  connectorId: string;
+  accessToken: string;
+  metadata: Record<string, unknown>;
+  /** Start of the window to pull; always a UTC midnight so daily totals are complete. */
+  since: Date;
+}
+
+export type SnapshotTotal = 'sessions' | 'users' | 'conversions' | 'revenue';
+
+/**
+ * One day of provider metrics. `metrics` is stored under
+ * `AnalyticsSnapshot.metadata.connectors[provider]`; `totals` fill the
+ * headline columns when no other connector owns that day's snapshot.
+ */
+export interface ConnectorSnapshot {
+  date: string;
+  totals?: Partial<Record<SnapshotTotal, number>>;
+  metrics: Record<string, number>;
+}
+
+export interface ConnectorSyncPayload {
+  documents: ConnectorDocument[];
+  snapshots: ConnectorSnapshot[];
+}
+
+export interface ConnectorProviderDefinition {
+  id: ConnectorProvider;
+  label: string;
+  /** Knowledge source provider that synced documents are filed under. */
+  knowledgeProvider: KnowledgeSourceProvider;
+  scopes: string[];
+  credentials(): ConnectorOAuthCredentials;
+  buildAuthorizationUrl(state: string): string;
+  exchangeCode(code: string): Promise<OAuthTokenSet>;
+  /** Absent for providers whose tokens never expire (Notion, Stripe Connect). */
+  refreshTokens?(refreshToken: string): Promise<OAuthTokenSet>;
+  /** Connector metadata derived from the new grant (workspace, account, property). */
+  describeAccount?(tokens: OAuthTokenSet): Promise<Record<string, unknown>>;
+  /** Absent for providers synced by a dedicated worker (Google Analytics). */
+  sync?(context: ConnectorSyncContext): Promise<ConnectorSyncPayload>;
+}
+
+export class ConnectorProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ConnectorProvider,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ConnectorProviderError';
+  }
+}
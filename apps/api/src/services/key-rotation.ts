@@ -0,0 +1,449 @@
+import type { PrismaClient } from '@ocsuite/db';
+import {
+  decryptForTenantWithVersion,
+  getCurrentKeyVersion,
+  getRegisteredKeyVersions,
+  reencryptForTenant,
+} from '@ocsuite/crypto';
+
+import { apiLogger } from '../utils/logger.js';
+import { KNOWLEDGE_ENCRYPTION_CONTEXT } from './knowledge-constants.js';
+import { EXTERNAL_CONTENT_PLACEHOLDER } from './knowledge-storage.js';
+
+export const KEY_ROTATION_DEFAULT_BATCH_SIZE = 100;
+
+const CONNECTOR_TOKEN_CONTEXT = 'connector-tokens';
+const HQ_TENANT_ID = 'company_hq';
+
+/** Failed record IDs kept in progress reports; the full list is in the logs. */
+const MAX_REPORTED_FAILURES = 50;
+
+export const KEY_ROTATION_TARGETS = ['connectors', 'knowledge'] as const;
+export type KeyRotationTarget = (typeof KEY_ROTATION_TARGETS)[number];
+
+export interface KeyRotationOptions {
+  targetVersion: number;
+  targets: KeyRotationTarget[];
+  batchSize: number;
+  dryRun: boolean;
+  tenantId?: string;
+}
+
+export interface KeyRotationCounts {
+  /** Rows below the target version when the run started. */
+  total: number;
+  processed: number;
+  failed: number;
+  /**
+   * Knowledge entries whose content lives in external storage, and rows
+   * another writer changed between read and write.
+   */
+  skipped: number;
+}
+
+/**
+ * Checkpoint written after every batch. Passing it back to `runKeyRotation`
+ * continues after the last processed row.
+ */
+export interface KeyRotationProgress {
+  targetVersion: number;
+  dryRun: boolean;
+  phase: KeyRotationTarget | 'completed';
+  percentage: number;
+  cursors: Record<KeyRotationTarget, string | null>;
+  counts: Record<KeyRotationTarget, KeyRotationCounts>;
+  failedIds: string[];
+  updatedAt: string;
+}
+
+export interface KeyRotationVerificationCounts {
+  checked: number;
+  /** Rows still encrypted under another key version. */
+  outdated: number;
+  undecryptable: number;
+  skipped: number;
+}
+
+export interface KeyRotationVerification {
+  targetVersion: number;
+  counts: Record<KeyRotationTarget, KeyRotationVerificationCounts>;
+  /** Key versions still referenced by stored rows. */
+  versionsInUse: number[];
+  failedIds: string[];
+  /** True once every row is on the target version and decrypts with it. */
+  ok: boolean;
+  /** Registered previous key versions that no stored row depends on any more. */
+  retirableVersions: number[];
+}
+
+interface BatchRow {
+  id: string;
+  tenantId: string;
+  ciphertexts: Array<{ field: string; value: string }>;
+  keyVersion: number;
+  external: boolean;
+}
+
+interface TargetAdapter {
+  context: string;
+  count(where: Record<string, unknown>): Promise<number>;
+  versions(where: Record<string, unknown>): Promise<number[]>;
+  fetch(where: Record<string, unknown>, cursor: string | null, take: number): Promise<BatchRow[]>;
+  /**
+   * Writes the re-encrypted values only if the row still holds the
+   * ciphertexts it was read with. Returns false when it has changed since.
+   */
+  save(row: BatchRow, values: Record<string, string>, targetVersion: number): Promise<boolean>;
+}
+
+function emptyCounts(): KeyRotationCounts {
+  return { total: 0, processed: 0, failed: 0, skipped: 0 };
+}
+
+/** Matches a row only while it still holds the ciphertexts it was fetched with. */
+function unchangedWhere(row: BatchRow): Record<string, unknown> {
+  return {
+    id: row.id,
+    encryptionKeyVersion: row.keyVersion,
+    ...Object.fromEntries(row.ciphertexts.map(({ field, value }) => [field, value])),
+  };
+}
+
+function createAdapters(db: PrismaClient): Record<KeyRotationTarget, TargetAdapter> {
+  return {
+    connectors: {
+      context: CONNECTOR_TOKEN_CONTEXT,
+      count: (where) => db.connector.count({ where }),
+      async versions(where) {
+        const groups = await db.connector.groupBy({ by: ['encryptionKeyVersion'], where });
+        return groups.map((group) => group.encryptionKeyVersion);
+      },
+      async fetch(where, cursor, take) {
+        const connectors = await db.connector.findMany({
+          where: { ...where, ...(cursor ? { id: { gt: cursor } } : {}) },
+          orderBy: { id: 'asc' },
+          take,
+          select: {
+            id: true,
+            tenantId: true,
+            encryptedAccessToken: true,
+            encryptedRefreshToken: true,
+            encryptionKeyVersion: true,
+          },
+        });
+
+        return connectors.map((connector) => ({
+          id: connector.id,
+          tenantId: connector.tenantId,
+          keyVersion: connector.encryptionKeyVersion,
+          external: false,
+          ciphertexts: [
+            { field: 'encryptedAccessToken', value: connector.encryptedAccessToken },
+            ...(connector.encryptedRefreshToken
+              ? [{ field: 'encryptedRefreshToken', value: connector.encryptedRefreshToken }]
+              : []),
+          ],
+        }));
+      },
+      async save(row, values, targetVersion) {
+        const { count } = await db.connector.updateMany({
+          // Rows read without a refresh token must not have gained one since
+          where: { encryptedRefreshToken: null, ...unchangedWhere(row) },
+          data: { ...values, encryptionKeyVersion: targetVersion },
+        });
+        return count > 0;
+      },
+    },
+    knowledge: {
+      context: KNOWLEDGE_ENCRYPTION_CONTEXT,
+      count: (where) => db.knowledgeEntry.count({ where }),
+      async versions(where) {
+        const groups = await db.knowledgeEntry.groupBy({ by: ['encryptionKeyVersion'], where });
+        return groups.map((group) => group.encryptionKeyVersion);
+      },
+      async fetch(where, cursor, take) {
+        const entries = await db.knowledgeEntry.findMany({
+          where: { ...where, ...(cursor ? { id: { gt: cursor } } : {}) },
+          orderBy: { id: 'asc' },
+          take,
+          select: {
+            id: true,
+            tenantId: true,
+            content: true,
+            encryptionKeyVersion: true,
+            storageKey: true,
+            sourceRef: { select: { storageStrategy: true } },
+          },
+        });
+
+        return entries.map((entry) => ({
+          id: entry.id,
+          tenantId: entry.tenantId ?? HQ_TENANT_ID,
+          keyVersion: entry.encryptionKeyVersion,
+          external:
+            entry.sourceRef?.storageStrategy === 'external_s3' ||
+            (!!entry.storageKey && entry.content === EXTERNAL_CONTENT_PLACEHOLDER),
+          ciphertexts: [{ field: 'content', value: entry.content }],
+        }));
+      },
+      async save(row, values, targetVersion) {
+        const { count } = await db.knowledgeEntry.updateMany({
+          where: unchangedWhere(row),
+          data: { ...values, encryptionKeyVersion: targetVersion },
+        });
+        return count > 0;
+      },
+    },
+  };
+}
+
+function scopeWhere(tenantId?: string): Record<string, unknown> {
+  return tenantId ? { tenantId } : {};
+}
+
+function computePercentage(counts: Record<KeyRotationTarget, KeyRotationCounts>, targets: KeyRotationTarget[]): number {
+  const total = targets.reduce((sum, target) => sum + counts[target].total, 0);
+  if (total === 0) {
+    return 100;
+  }
+  const done = targets.reduce(
+    (sum, target) => sum + counts[target].processed + counts[target].failed + counts[target].skipped,
+    0
+  );
+  return Math.min(100, Math.round((done / total) * 100));
+}
+
+export function isKeyRotationProgress(value: unknown): value is KeyRotationProgress {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.targetVersion === 'number' &&
+    typeof candidate.phase === 'string' &&
+    !!candidate.cursors &&
+    typeof candidate.cursors === 'object' &&
+    !!candidate.counts &&
+    typeof candidate.counts === 'object'
+  );
+}
+
+/**
+ * Re-encrypts connector tokens and knowledge entries below `targetVersion`
+ * with the current master key, one batch at a time. Rows that fail to
+ * decrypt are counted and left on their old version so a later run (or the
+ * verification pass) picks them up again. Rows rewritten by another writer
+ * while a batch is in flight are skipped rather than overwritten.
+ */
+export async function runKeyRotation(
+  db: PrismaClient,
+  options: KeyRotationOptions,
+  hooks: {
+    resumeFrom?: KeyRotationProgress | null;
+    onProgress?: (progress: KeyRotationProgress) => Promise<void> | void;
+  } = {}
+): Promise<KeyRotationProgress> {
+  const currentVersion = getCurrentKeyVersion();
+  if (options.targetVersion !== currentVersion) {
+    throw new Error(
+      `Target key version ${options.targetVersion} does not match the current master key version ${currentVersion}`
+    );
+  }
+
+  const { resumeFrom } = hooks;
+  if (resumeFrom && resumeFrom.targetVersion !== options.targetVersion) {
+    throw new Error(
+      `Cannot resume a rotation to version ${resumeFrom.targetVersion} as version ${options.targetVersion}`
+    );
+  }
+
+  const adapters = createAdapters(db);
+  const progress: KeyRotationProgress = resumeFrom
+    ? { ...resumeFrom, dryRun: options.dryRun, failedIds: [...resumeFrom.failedIds] }
+    : {
+        targetVersion: options.targetVersion,
+        dryRun: options.dryRun,
+        phase: options.targets[0] ?? 'completed',
+        percentage: 0,
+        cursors: { connectors: null, knowledge: null },
+        counts: { connectors: emptyCounts(), knowledge: emptyCounts() },
+        failedIds: [],
+        updatedAt: new Date().toISOString(),
+      };
+
+  const pendingWhere = {
+    ...scopeWhere(options.tenantId),
+    encryptionKeyVersion: { lt: options.targetVersion },
+  };
+
+  if (!resumeFrom) {
+    for (const target of options.targets) {
+      progress.counts[target].total = await adapters[target].count(pendingWhere);
+    }
+  }
+
+  const startIndex = progress.phase === 'completed' ? options.targets.length : options.targets.indexOf(progress.phase);
+
+  for (const target of options.targets.slice(Math.max(startIndex, 0))) {
+    const adapter = adapters[target];
+    const counts = progress.counts[target];
+    progress.phase = target;
+
+    for (;;) {
+      const rows = await adapter.fetch(pendingWhere, progress.cursors[target], options.batchSize);
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        if (row.external) {
+          counts.skipped += 1;
+          continue;
+        }
+
+        try {
+          const values = Object.fromEntries(
+            row.ciphertexts.map(({ field, value }) => [
+              field,
+              reencryptForTenant(value, row.tenantId, adapter.context, row.keyVersion),
+            ])
+          );
+
+          if (!options.dryRun && !(await adapter.save(row, values, options.targetVersion))) {
+            // A token refresh or content edit rewrote the row under the
+            // current key; a later run picks it up if it is still outdated
+            counts.skipped += 1;
+            apiLogger.info('Skipped record changed during key rotation', {
+              target,
+              recordId: row.id,
+              tenantId: row.tenantId,
+            });
+            continue;
+          }
+          counts.processed += 1;
+        } catch (error) {
+          counts.failed += 1;
+          if (progress.failedIds.length < MAX_REPORTED_FAILURES) {
+            progress.failedIds.push(row.id);
+          }
+          apiLogger.error('Failed to re-encrypt record during key rotation', {
+            target,
+            recordId: row.id,
+            tenantId: row.tenantId,
+            keyVersion: row.keyVersion,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      progress.cursors[target] = rows[rows.length - 1]!.id;
+      progress.percentage = computePercentage(progress.counts, options.targets);
+      progress.updatedAt = new Date().toISOString();
+      await hooks.onProgress?.(progress);
+    }
+  }
+
+  progress.phase = 'completed';
+  progress.percentage = 100;
+  progress.updatedAt = new Date().toISOString();
+  await hooks.onProgress?.(progress);
+
+  apiLogger.info('Key rotation pass finished', {
+    targetVersion: options.targetVersion,
+    dryRun: options.dryRun,
+    tenantId: options.tenantId ?? null,
+    counts: progress.counts,
+  });
+
+  return progress;
+}
+
+/**
+ * Confirms that every row is on `targetVersion` and decrypts with it, and
+ * reports which previous key versions can be removed from
+ * MASTER_ENCRYPTION_PREVIOUS_KEYS.
+ */
+export async function verifyKeyRotation(
+  db: PrismaClient,
+  options: Pick<KeyRotationOptions, 'targetVersion' | 'targets' | 'batchSize' | 'tenantId'>
+): Promise<KeyRotationVerification> {
+  const adapters = createAdapters(db);
+  const where = scopeWhere(options.tenantId);
+  const versionsInUse = new Set<number>();
+  const failedIds: string[] = [];
+  const counts: Record<KeyRotationTarget, KeyRotationVerificationCounts> = {
+    connectors: { checked: 0, outdated: 0, undecryptable: 0, skipped: 0 },
+    knowledge: { checked: 0, outdated: 0, undecryptable: 0, skipped: 0 },
+  };
+
+  for (const target of options.targets) {
+    const adapter = adapters[target];
+    const targetCounts = counts[target];
+
+    (await adapter.versions(where)).forEach((version) => versionsInUse.add(version));
+
+    let cursor: string | null = null;
+    for (;;) {
+      const rows = await adapter.fetch(where, cursor, options.batchSize);
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        if (row.external) {
+          targetCounts.skipped += 1;
+          continue;
+        }
+
+        targetCounts.checked += 1;
+        if (row.keyVersion !== options.targetVersion) {
+          targetCounts.outdated += 1;
+        }
+
+        try {
+          for (const { value } of row.ciphertexts) {
+            decryptForTenantWithVersion(value, row.tenantId, adapter.context, row.keyVersion);
+          }
+        } catch {
+          targetCounts.undecryptable += 1;
+          if (failedIds.length < MAX_REPORTED_FAILURES) {
+            failedIds.push(row.id);
+          }
+        }
+      }
+
+      cursor = rows[rows.length - 1]!.id;
+    }
+  }
+
+  const ok = options.targets.every(
+    (target) => counts[target].outdated === 0 && counts[target].undecryptable === 0
+  );
+
+  // Partial checks (one tenant or one target) never clear a key for retirement
+  const complete = !options.tenantId && KEY_ROTATION_TARGETS.every((target) => options.targets.includes(target));
+  const retirableVersions = complete
+    ? getRegisteredKeyVersions().filter(
+        (version) => version !== options.targetVersion && !versionsInUse.has(version)
+      )
+    : [];
+
+  const verification: KeyRotationVerification = {
+    targetVersion: options.targetVersion,
+    counts,
+    versionsInUse: [...versionsInUse].sort((a, b) => a - b),
+    failedIds,
+    ok,
+    retirableVersions,
+  };
+
+  apiLogger.info('Key rotation verification finished', {
+    targetVersion: options.targetVersion,
+    tenantId: options.tenantId ?? null,
+    ok,
+    versionsInUse: verification.versionsInUse,
+    counts,
+  });
+
+  return verification;
+}
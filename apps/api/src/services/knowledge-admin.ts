@@ -24,6 +24,7 @@ import {
   type StorageAdapter,
 } from './knowledge-storage.js';
 import { recordKnowledgeAuditEvent } from './knowledge-audit.js';
+import { clearKnowledgeSearchIndex, isKnowledgeKeywordIndexEnabled } from './knowledge-search-index.js';
 
 const adminLogger = createContextLogger('knowledge-admin');
 
@@ -83,6 +84,11 @@ export interface KnowledgeSourceExportPayload {
   entries: KnowledgeEntryExport[];
 }
 
+export interface KnowledgeSearchSettings {
+  /** Whether chunks get a plaintext keyword index for hybrid search. */
+  keywordIndex: boolean;
+}
+
 interface KnowledgeAdminServiceOptions {
   prisma: PrismaClient;
   tenantId: string;
@@ -173,6 +179,34 @@ export class KnowledgeAdminService {
     });
   }
 
+  async getSearchSettings(): Promise<KnowledgeSearchSettings> {
+    return { keywordIndex: await isKnowledgeKeywordIndexEnabled(this.prisma, this.tenantId) };
+  }
+
+  /**
+   * Opting out drops the tenant's existing keyword index in the same
+   * transaction. Opting in only indexes new chunks; older entries need the
+   * `knowledge:search:backfill` script.
+   */
+  async updateSearchSettings(settings: KnowledgeSearchSettings): Promise<KnowledgeSearchSettings> {
+    const cleared = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.tenant.update({
+        where: { id: this.tenantId },
+        data: { knowledgeKeywordIndex: settings.keywordIndex },
+      });
+      return settings.keywordIndex ? 0 : clearKnowledgeSearchIndex(tx, this.tenantId);
+    });
+
+    adminLogger.info('Knowledge search settings updated', {
+      tenantId: this.tenantId,
+      actorId: this.actorId,
+      keywordIndex: settings.keywordIndex,
+      clearedEntries: cleared,
+    });
+
+    return settings;
+  }
+
   async deleteSource(sourceId: string): Promise<void> {
     const source = await this.prisma.knowledgeSource.findFirst({
       where: {
@@ -1 +1,10 @@
 export const KNOWLEDGE_ENCRYPTION_CONTEXT = 'knowledge_entry';
+
+/** Postgres text search configuration used for `knowledge_entries.search_vector`. */
+export const KNOWLEDGE_SEARCH_LANGUAGE = 'english';
+
+/** Share of the fused hybrid score contributed by keyword rank (0 = vector only, 1 = keyword only). */
+export const DEFAULT_HYBRID_KEYWORD_WEIGHT = 0.5;
+
+/** Reciprocal-rank fusion damping constant (`1 / (k + rank)`); 60 is the value from the original RRF paper. */
+export const HYBRID_RRF_K = 60;
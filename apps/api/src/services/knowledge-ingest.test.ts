@@ -65,10 +65,13 @@ interface PrismaLike {
   knowledgeAuditEvent: {
     create: ReturnType<typeof vi.fn>;
   };
+  tenant: {
+    findUnique: ReturnType<typeof vi.fn>;
+  };
   $transaction: ReturnType<typeof vi.fn>;
 }
 
-function createPrismaMock() {
+function createPrismaMock(keywordIndex = true) {
   const knowledgeSources = new Map<string, Record<string, unknown>>();
   const createdEntries: Array<Record<string, unknown>> = [];
   const embeddingUpdates: unknown[][] = [];
@@ -127,6 +130,9 @@ function createPrismaMock() {
         return { id: `audit-${auditEvents.length}`, ...data };
       }),
     },
+    tenant: {
+      findUnique: vi.fn(async () => ({ knowledgeKeywordIndex: keywordIndex })),
+    },
     $transaction: vi.fn(async (handler: (tx: typeof transactionClient) => Promise<unknown>) => {
       return handler(transactionClient);
     }),
@@ -146,8 +152,11 @@ function createService(options?: {
   prisma?: PrismaClient;
   storageStrategy?: KnowledgeStorageStrategy;
   storageKey?: string | null;
+  keywordIndex?: boolean;
 }) {
-  const { prisma, prismaImpl, transactionClient, createdEntries, embeddingUpdates, auditEvents } = createPrismaMock();
+  const { prisma, prismaImpl, transactionClient, createdEntries, embeddingUpdates, auditEvents } = createPrismaMock(
+    options?.keywordIndex
+  );
   const storageKey = options?.storageKey !== undefined ? options.storageKey : 'tenant-123/source-1/chunk-1.json';
   const storageAdapter = {
     storeChunk: vi.fn(async () => ({ storageKey })),
@@ -252,8 +261,12 @@ describe('KnowledgeIngestService', () => {
       dimensions: 1536,
     });
 
-    expect(transactionClient.$executeRaw).toHaveBeenCalledTimes(1);
-    expect(embeddingUpdates).toHaveLength(1);
+    // One statement for the embedding, one for the keyword search vector
+    expect(transactionClient.$executeRaw).toHaveBeenCalledTimes(2);
+    expect(embeddingUpdates).toHaveLength(2);
+    const searchVectorArgs = embeddingUpdates[1]!;
+    expect((searchVectorArgs[0] as string[]).join('?')).toContain('search_vector');
+    expect(searchVectorArgs).toContain('Paragraph 1\n\nParagraph 2');
 
     expect(summary.chunkCount).toBe(1);
     expect(summary.skippedChunks).toBe(0);
@@ -283,13 +296,13 @@ describe('KnowledgeIngestService', () => {
   const persisted = createdEntries[0]!;
     expect(persisted.content).toBe('encrypted::Single paragraph only.');
     expect(persisted.storageKey).toBeNull();
-    expect(transactionClient.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(transactionClient.$executeRaw).toHaveBeenCalledTimes(2);
     expect(summary.createdEntryIds).toEqual(['entry-1']);
     expect(prismaImpl.knowledgeAuditEvent.create).toHaveBeenCalledTimes(1);
     expect(auditEvents[0]?.event).toBe('upload');
   });
 
-  it('handles embedding failures by skipping vector update', async () => {
+  it('handles embedding failures by skipping vector update but still indexing keywords', async () => {
     generateEmbeddingsMock.mockRejectedValueOnce(new Error('embedding failure'));
 
     const { service, createdEntries, embeddingUpdates, transactionClient, prismaImpl } = createService();
@@ -301,10 +314,26 @@ describe('KnowledgeIngestService', () => {
 
   expect(createdEntries).toHaveLength(1);
   expect(createdEntries[0]).toBeDefined();
-  expect(transactionClient.$executeRaw).not.toHaveBeenCalled();
-    expect(embeddingUpdates).toHaveLength(0);
+  expect(transactionClient.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(embeddingUpdates).toHaveLength(1);
+    expect((embeddingUpdates[0]![0] as string[]).join('?')).not.toContain('to_pgvector');
 
     expect(prismaImpl.knowledgeAuditEvent.create).toHaveBeenCalledTimes(1);
 
   });
+
+  it('skips the keyword index for tenants that have not opted in', async () => {
+    const { service, embeddingUpdates, transactionClient, prismaImpl } = createService({ keywordIndex: false });
+
+    await service.ingestManualNote({
+      title: 'Private Note',
+      content: 'Confidential numbers.',
+    });
+
+    expect(prismaImpl.tenant.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'tenant-123' } })
+    );
+    expect(transactionClient.$executeRaw).toHaveBeenCalledTimes(1);
+    expect((embeddingUpdates[0]![0] as string[]).join('?')).not.toContain('search_vector');
+  });
 });
@@ -12,7 +12,7 @@ import type { Buffer } from 'node:buffer';
 
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { estimateTokens } from './llm/fireworks-client.js';
+import { estimateTokens } from './llm/llm-client.js';
 import { generateEmbeddings } from './llm/embedding-client.js';
 import {
   EXTERNAL_CONTENT_PLACEHOLDER,
@@ -24,6 +24,7 @@ import {
   type StorageAdapter,
 } from './knowledge-storage.js';
 import { KNOWLEDGE_ENCRYPTION_CONTEXT } from './knowledge-constants.js';
+import { isKnowledgeKeywordIndexEnabled, writeKnowledgeSearchVector } from './knowledge-search-index.js';
 import { recordKnowledgeAuditEvent } from './knowledge-audit.js';
 import { toInputJson } from '../utils/json.js';
 
@@ -483,6 +484,8 @@ export class KnowledgeIngestService {
         return true;
       });
 
+      const keywordIndex = await isKnowledgeKeywordIndexEnabled(this.prisma, this.tenantId);
+
       const createdEntries = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
         const created: { id: string }[] = [];
 
@@ -524,6 +527,15 @@ export class KnowledgeIngestService {
             `;
           }
 
+          // Content is encrypted at rest, so the keyword index has to be built from the plaintext here.
+          if (keywordIndex) {
+            await writeKnowledgeSearchVector(tx, {
+              entryId: entry.id,
+              title: typeof payload.metadata?.documentTitle === 'string' ? payload.metadata.documentTitle : '',
+              content: payload.chunk.content,
+            });
+          }
+
           created.push(entry);
         }
 
@@ -3,6 +3,7 @@ import { PrismaClient } from '@ocsuite/db';
 import {
   KnowledgeRetrievalService,
   type KnowledgeRetrievalServiceOptions,
+  type KnowledgeSearchMode,
   type KnowledgeSearchOptions,
   type KnowledgeSearchResult,
 } from './knowledge-retrieval.js';
@@ -15,6 +16,13 @@ interface KnowledgeResolverOptions {
   storageAdapterFactory?: KnowledgeRetrievalServiceOptions['storageAdapterFactory'];
 }
 
+export interface ResolveContextOptions extends KnowledgeSearchOptions {
+  /** Raw query text; required for hybrid mode, ignored for pure vector search. */
+  query?: string;
+  mode?: KnowledgeSearchMode;
+  keywordWeight?: number;
+}
+
 /**
  * High-level helper that wraps KnowledgeRetrievalService and exposes
  * a simple `resolveContext` entry point for RAG consumers.
@@ -32,9 +40,15 @@ export class KnowledgeResolver {
     });
   }
 
-  async resolveContext(options: KnowledgeSearchOptions): Promise<KnowledgeSearchResult[]> {
-    return this.retrieval.searchByEmbedding(options);
+  async resolveContext(options: ResolveContextOptions): Promise<KnowledgeSearchResult[]> {
+    const { query, mode = 'vector', keywordWeight, ...searchOptions } = options;
+
+    if (mode === 'hybrid' && query?.trim()) {
+      return this.retrieval.searchHybrid({ ...searchOptions, query, keywordWeight });
+    }
+
+    return this.retrieval.searchByEmbedding(searchOptions);
   }
 }
 
-export type { KnowledgeSearchResult };
\ No newline at end of file
+export type { KnowledgeSearchMode, KnowledgeSearchResult };
\ No newline at end of file
@@ -106,7 +106,7 @@ describe('KnowledgeRetrievalService', () => {
     );
   });
 
-  it('filters results by persona and source ids', async () => {
+  it('pushes persona and source filters into SQL', async () => {
     const prisma = createPrismaStub([
       {
         id: 'entry-1',
@@ -129,17 +129,45 @@ describe('KnowledgeRetrievalService', () => {
         updatedAt: new Date('2025-11-01T01:00:00Z'),
         distance: 0.05,
       },
+    ]);
+
+  decryptForTenantWithVersionMock.mockImplementation((cipher: string) => `plain::${cipher}`);
+
+    const service = new KnowledgeRetrievalService({
+      prisma: prisma as unknown as any,
+      tenantId: 'tenant-123',
+    });
+
+    const results = await service.searchByEmbedding({
+      embedding: [0.2, 0.3, 0.4],
+      limit: 5,
+      persona: 'cfo',
+      sourceIds: ['source-1'],
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.entry.id).toBe('entry-1');
+    expect(results[0]?.content).toBe('plain::cipher-one');
+
+    const query = prisma.$queryRaw.mock.calls[0]![0] as { sql: string; values: unknown[] };
+    expect(query.sql).toContain('e."sourceId" IN');
+    expect(query.sql).toContain('jsonb_build_array');
+    expect(query.values).toEqual(expect.arrayContaining(['tenant-123', 'source-1', 'cfo', 5]));
+  });
+
+  it('fuses keyword and vector ranks in hybrid mode', async () => {
+    const prisma = createPrismaStub([
       {
-        id: 'entry-2',
+        id: 'entry-sku',
         tenantId: 'tenant-123',
-        source: 'Doc 2',
-        sourceId: 'source-2',
-        sourceName: 'Doc 2',
+        source: 'Price list',
+        sourceId: 'source-1',
+        sourceName: 'Price list',
         sourceTenantId: 'tenant-123',
         storageStrategy: 'managed_postgres' as KnowledgeStorageStrategy,
         configuration: {},
-        content: 'cipher-two',
-        metadata: { personas: ['cto'] },
+        content: 'cipher-sku',
+        metadata: null,
         checksum: null,
         chunkSize: null,
         tokenCount: null,
@@ -148,26 +176,44 @@ describe('KnowledgeRetrievalService', () => {
         retentionExpiresAt: null,
         createdAt: new Date('2025-11-01T00:00:00Z'),
         updatedAt: new Date('2025-11-01T01:00:00Z'),
-        distance: 0.2,
+        distance: null,
+        keywordScore: 0.4,
+        fusedScore: 0.75 / 61,
       },
     ]);
 
-  decryptForTenantWithVersionMock.mockImplementation((cipher: string) => `plain::${cipher}`);
-
     const service = new KnowledgeRetrievalService({
       prisma: prisma as unknown as any,
       tenantId: 'tenant-123',
     });
 
-    const results = await service.searchByEmbedding({
-      embedding: [0.2, 0.3, 0.4],
-      limit: 5,
-      persona: 'cfo',
-      sourceIds: ['source-1'],
+    const results = await service.searchHybrid({
+      embedding: [0.1, 0.2],
+      query: 'SKU-4471',
+      keywordWeight: 0.75,
+      limit: 3,
     });
 
     expect(results).toHaveLength(1);
-    expect(results[0]?.entry.id).toBe('entry-1');
-    expect(results[0]?.content).toBe('plain::cipher-one');
+    expect(results[0]?.score).toBeCloseTo(0.75);
+    expect(results[0]?.signals).toEqual({ vectorScore: null, keywordScore: 0.4 });
+
+    const query = prisma.$queryRaw.mock.calls[0]![0] as { sql: string; values: unknown[] };
+    expect(query.sql).toContain('websearch_to_tsquery');
+    expect(query.sql).toContain('FULL OUTER JOIN');
+    expect(query.values).toEqual(expect.arrayContaining(['SKU-4471', 0.75, 0.25]));
+  });
+
+  it('falls back to vector search when hybrid query text is blank', async () => {
+    const prisma = createPrismaStub([]);
+    const service = new KnowledgeRetrievalService({
+      prisma: prisma as unknown as any,
+      tenantId: 'tenant-123',
+    });
+
+    await service.searchHybrid({ embedding: [0.1], query: '   ' });
+
+    const query = prisma.$queryRaw.mock.calls[0]![0] as { sql: string };
+    expect(query.sql).not.toContain('websearch_to_tsquery');
   });
 });
@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import { PrismaClient } from '@ocsuite/db';
 import type { KnowledgeStorageStrategy } from '@ocsuite/types';
 import { decryptForTenantWithVersion } from '@ocsuite/crypto';
@@ -12,7 +13,12 @@ import {
   type KnowledgeSourceStorageDescriptor,
   type StorageAdapter,
 } from './knowledge-storage.js';
-import { KNOWLEDGE_ENCRYPTION_CONTEXT } from './knowledge-constants.js';
+import {
+  DEFAULT_HYBRID_KEYWORD_WEIGHT,
+  HYBRID_RRF_K,
+  KNOWLEDGE_ENCRYPTION_CONTEXT,
+  KNOWLEDGE_SEARCH_LANGUAGE,
+} from './knowledge-constants.js';
 
 interface KnowledgeSearchRow {
   id: string;
@@ -35,6 +41,45 @@ interface KnowledgeSearchRow {
   createdAt: Date;
   updatedAt: Date;
   distance: number | null;
+  keywordScore?: number | null;
+  fusedScore?: number | null;
+}
+
+const ENTRY_COLUMNS = Prisma.sql`
+  e."id",
+  e."tenantId",
+  e."source",
+  e."sourceId",
+  e."content",
+  e."encryption_key_version" AS "encryptionKeyVersion",
+  e."metadata",
+  e."checksum",
+  e."chunk_size" AS "chunkSize",
+  e."token_count" AS "tokenCount",
+  e."embedding_metadata" AS "embeddingMetadata",
+  e."storage_key" AS "storageKey",
+  e."retention_expires_at" AS "retentionExpiresAt",
+  e."createdAt",
+  e."updatedAt",
+  s."name" AS "sourceName",
+  s."tenantId" AS "sourceTenantId",
+  s."storage_strategy" AS "storageStrategy",
+  s."configuration"
+`;
+
+/** Each ranker contributes this many candidates per requested result before fusion. */
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+function toVectorLiteral(embedding: number[]): string {
+  const numericVector = embedding.map((value) => (Number.isFinite(value) ? Number(value) : 0));
+  return `[${numericVector.join(',')}]`;
+}
+
+function clampWeight(value: number): number {
+  if (!Number.isFinite(value)) {
+    return DEFAULT_HYBRID_KEYWORD_WEIGHT;
+  }
+  return Math.min(Math.max(value, 0), 1);
 }
 
 export interface KnowledgeSearchOptions {
@@ -45,6 +90,14 @@ export interface KnowledgeSearchOptions {
   sourceIds?: string[];
 }
 
+export type KnowledgeSearchMode = 'vector' | 'hybrid';
+
+export interface KnowledgeHybridSearchOptions extends KnowledgeSearchOptions {
+  query: string;
+  /** 0 ranks purely by embedding distance, 1 purely by keyword relevance. */
+  keywordWeight?: number;
+}
+
 export interface KnowledgeSearchResultEntry {
   id: string;
   tenantId: string | null;
@@ -66,6 +119,10 @@ export interface KnowledgeSearchResult {
   entry: KnowledgeSearchResultEntry;
   content: string;
   score: number;
+  signals?: {
+    vectorScore: number | null;
+    keywordScore: number | null;
+  };
 }
 
 export interface KnowledgeRetrievalServiceOptions {
@@ -97,102 +154,168 @@ export class KnowledgeRetrievalService {
       return [];
     }
 
-    const limit = Math.max(1, Math.min(options.limit ?? this.defaultLimit, 50));
-    const fetchLimit = Math.min(limit * 4, 100);
-    const numericVector = options.embedding.map((value) =>
-      Number.isFinite(value) ? Number(value) : 0,
-    );
-    const vectorLiteral = `[${numericVector.join(',')}]`;
-    const sourceIds = options.sourceIds?.filter((id) => !!id) ?? [];
+    const limit = this.resolveLimit(options.limit);
+    const vectorLiteral = toVectorLiteral(options.embedding);
+    const filters = this.buildFilters(options);
 
-    let rows: KnowledgeSearchRow[];
-    if (this.tenantId) {
-      rows = await this.prisma.$queryRaw<KnowledgeSearchRow[]>`
+    const rows = await this.prisma.$queryRaw<KnowledgeSearchRow[]>(Prisma.sql`
+      SELECT
+        ${ENTRY_COLUMNS},
+        (e."embedding" <-> to_pgvector(${vectorLiteral})) AS "distance",
+        NULL::double precision AS "keywordScore",
+        NULL::double precision AS "fusedScore"
+      FROM knowledge_entries e
+      LEFT JOIN knowledge_sources s ON s."id" = e."sourceId"
+      WHERE e."embedding" IS NOT NULL
+        ${filters}
+      ORDER BY e."embedding" <-> to_pgvector(${vectorLiteral})
+      LIMIT ${limit}
+    `);
+
+    return this.hydrateRows(rows, {
+      limit,
+      minScore: options.minScore,
+      scoreRow: (row) => this.calculateScore(row.distance),
+    });
+  }
+
+  /**
+   * Combines pgvector distance with Postgres full-text ranking using
+   * reciprocal-rank fusion, so exact identifiers (SKUs, invoice numbers,
+   * customer names) surface even when their embeddings are not close.
+   */
+  async searchHybrid(options: KnowledgeHybridSearchOptions): Promise<KnowledgeSearchResult[]> {
+    const query = options.query.trim();
+    if (!query) {
+      return options.embedding.length ? this.searchByEmbedding(options) : [];
+    }
+
+    const limit = this.resolveLimit(options.limit);
+    const candidateLimit = Math.min(limit * HYBRID_CANDIDATE_MULTIPLIER, 100);
+    const keywordWeight = clampWeight(options.keywordWeight ?? DEFAULT_HYBRID_KEYWORD_WEIGHT);
+    const vectorWeight = 1 - keywordWeight;
+    const filters = this.buildFilters(options);
+
+    const vectorCandidates = options.embedding.length
+      ? Prisma.sql`
+          SELECT
+            e."id",
+            (e."embedding" <-> to_pgvector(${toVectorLiteral(options.embedding)})) AS "distance"
+          FROM knowledge_entries e
+          WHERE e."embedding" IS NOT NULL
+            ${filters}
+          ORDER BY 2
+          LIMIT ${candidateLimit}
+        `
+      : Prisma.sql`SELECT NULL::text AS "id", NULL::double precision AS "distance" WHERE FALSE`;
+
+    const rows = await this.prisma.$queryRaw<KnowledgeSearchRow[]>(Prisma.sql`
+      WITH vector_candidates AS (${vectorCandidates}),
+      vector_ranked AS (
+        SELECT "id", "distance", ROW_NUMBER() OVER (ORDER BY "distance") AS "rank"
+        FROM vector_candidates
+      ),
+      keyword_ranked AS (
         SELECT
           e."id",
-          e."tenantId",
-          e."source",
-          e."sourceId",
-          e."content",
-          e."encryption_key_version" AS "encryptionKeyVersion",
-          e."metadata",
-          e."checksum",
-          e."chunk_size" AS "chunkSize",
-          e."token_count" AS "tokenCount",
-          e."embedding_metadata" AS "embeddingMetadata",
-          e."storage_key" AS "storageKey",
-          e."retention_expires_at" AS "retentionExpiresAt",
-          e."createdAt",
-          e."updatedAt",
-          s."name" AS "sourceName",
-          s."tenantId" AS "sourceTenantId",
-          s."storage_strategy" AS "storageStrategy",
-          s."configuration",
-          (e."embedding" <-> to_pgvector(${vectorLiteral})) AS "distance"
-        FROM knowledge_entries e
-        LEFT JOIN knowledge_sources s ON s."id" = e."sourceId"
-        WHERE e."embedding" IS NOT NULL
-          AND (e."tenantId" = ${this.tenantId} OR e."tenantId" IS NULL)
-        ORDER BY e."embedding" <-> to_pgvector(${vectorLiteral})
-        LIMIT ${fetchLimit}
-      `;
-    } else {
-      rows = await this.prisma.$queryRaw<KnowledgeSearchRow[]>`
+          ts_rank_cd(e."search_vector", q.query) AS "keywordScore",
+          ROW_NUMBER() OVER (ORDER BY ts_rank_cd(e."search_vector", q.query) DESC) AS "rank"
+        FROM knowledge_entries e,
+          websearch_to_tsquery(${KNOWLEDGE_SEARCH_LANGUAGE}::regconfig, ${query}) AS q(query)
+        WHERE e."search_vector" @@ q.query
+          ${filters}
+        ORDER BY 2 DESC
+        LIMIT ${candidateLimit}
+      ),
+      fused AS (
         SELECT
-          e."id",
-          e."tenantId",
-          e."source",
-          e."sourceId",
-          e."content",
-          e."encryption_key_version" AS "encryptionKeyVersion",
-          e."metadata",
-          e."checksum",
-          e."chunk_size" AS "chunkSize",
-          e."token_count" AS "tokenCount",
-          e."embedding_metadata" AS "embeddingMetadata",
-          e."storage_key" AS "storageKey",
-          e."retention_expires_at" AS "retentionExpiresAt",
-          e."createdAt",
-          e."updatedAt",
-          s."name" AS "sourceName",
-          s."tenantId" AS "sourceTenantId",
-          s."storage_strategy" AS "storageStrategy",
-          s."configuration",
-          (e."embedding" <-> to_pgvector(${vectorLiteral})) AS "distance"
-        FROM knowledge_entries e
-        LEFT JOIN knowledge_sources s ON s."id" = e."sourceId"
-        WHERE e."embedding" IS NOT NULL
-        ORDER BY e."embedding" <-> to_pgvector(${vectorLiteral})
-        LIMIT ${fetchLimit}
-      `;
+          COALESCE(v."id", k."id") AS "id",
+          v."distance",
+          k."keywordScore",
+          COALESCE(${vectorWeight}::double precision / (${HYBRID_RRF_K}::double precision + v."rank"), 0)
+            + COALESCE(${keywordWeight}::double precision / (${HYBRID_RRF_K}::double precision + k."rank"), 0)
+            AS "fusedScore"
+        FROM vector_ranked v
+        FULL OUTER JOIN keyword_ranked k ON k."id" = v."id"
+      )
+      SELECT
+        ${ENTRY_COLUMNS},
+        f."distance",
+        f."keywordScore",
+        f."fusedScore"
+      FROM fused f
+      JOIN knowledge_entries e ON e."id" = f."id"
+      LEFT JOIN knowledge_sources s ON s."id" = e."sourceId"
+      WHERE f."fusedScore" > 0
+      ORDER BY f."fusedScore" DESC
+      LIMIT ${limit}
+    `);
+
+    // Normalise against the best achievable fused score (rank 1 in both lists) so
+    // `minScore` and the returned score stay on the same 0..1 scale as vector search.
+    const maxFusedScore = 1 / (HYBRID_RRF_K + 1);
+
+    return this.hydrateRows(rows, {
+      limit,
+      minScore: options.minScore,
+      scoreRow: (row) => {
+        const fused = typeof row.fusedScore === 'number' ? row.fusedScore : Number(row.fusedScore ?? 0);
+        return Number.isFinite(fused) ? Math.min(fused / maxFusedScore, 1) : 0;
+      },
+    });
+  }
+
+  private resolveLimit(limit: number | undefined): number {
+    return Math.max(1, Math.min(limit ?? this.defaultLimit, 50));
+  }
+
+  private buildFilters(options: Pick<KnowledgeSearchOptions, 'persona' | 'sourceIds'>): Prisma.Sql {
+    const clauses: Prisma.Sql[] = [];
+
+    if (this.tenantId) {
+      clauses.push(Prisma.sql`AND (e."tenantId" = ${this.tenantId} OR e."tenantId" IS NULL)`);
     }
 
+    const sourceIds = options.sourceIds?.filter((id) => !!id) ?? [];
+    if (sourceIds.length) {
+      clauses.push(Prisma.sql`AND e."sourceId" IN (${Prisma.join(sourceIds)})`);
+    }
+
+    if (options.persona) {
+      // Entries without a persona list are visible to every persona.
+      clauses.push(Prisma.sql`
+        AND (
+          jsonb_typeof(e."metadata"->'personas') IS DISTINCT FROM 'array'
+          OR jsonb_array_length(e."metadata"->'personas') = 0
+          OR e."metadata" @> jsonb_build_object('personas', jsonb_build_array(${options.persona}::text))
+        )
+      `);
+    }
+
+    return clauses.length ? Prisma.join(clauses, ' ') : Prisma.empty;
+  }
+
+  private async hydrateRows(
+    rows: KnowledgeSearchRow[],
+    options: {
+      limit: number;
+      minScore?: number;
+      scoreRow: (row: KnowledgeSearchRow) => number;
+    },
+  ): Promise<KnowledgeSearchResult[]> {
     const results: KnowledgeSearchResult[] = [];
     for (const row of rows) {
-      if (sourceIds.length && (!row.sourceId || !sourceIds.includes(row.sourceId))) {
+      const score = options.scoreRow(row);
+      if (typeof options.minScore === 'number' && score < options.minScore) {
         continue;
       }
-  const metadata = row.metadata ? parseJsonRecord(row.metadata as never) : null;
-
-      if (options.persona) {
-        const personas = Array.isArray(metadata?.personas)
-          ? (metadata?.personas as unknown[]).filter((item): item is string => typeof item === 'string')
-          : [];
-        if (personas.length && !personas.includes(options.persona)) {
-          continue;
-        }
-      }
 
       const decrypted = await this.resolveContent(row);
       if (!decrypted) {
         continue;
       }
 
-      const score = this.calculateScore(row.distance);
-      if (typeof options.minScore === 'number' && score < options.minScore) {
-        continue;
-      }
-
+      const metadata = row.metadata ? parseJsonRecord(row.metadata as never) : null;
       const embeddingMetadata = row.embeddingMetadata
         ? parseJsonRecord(row.embeddingMetadata as never)
         : null;
@@ -216,8 +339,16 @@ export class KnowledgeRetrievalService {
         },
         content: decrypted,
         score,
+        signals: {
+          vectorScore: row.distance === null || row.distance === undefined
+            ? null
+            : this.calculateScore(row.distance),
+          keywordScore: row.keywordScore === null || row.keywordScore === undefined
+            ? null
+            : Number(row.keywordScore),
+        },
       });
-      if (results.length >= limit) {
+      if (results.length >= options.limit) {
         break;
       }
     }
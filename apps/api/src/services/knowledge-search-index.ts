@@ -0,0 +1,55 @@
+import { Prisma } from '@prisma/client';
+import type { PrismaClient } from '@ocsuite/db';
+
+import { KNOWLEDGE_SEARCH_LANGUAGE } from './knowledge-constants.js';
+
+type RawClient = Pick<PrismaClient, '$executeRaw'> | Prisma.TransactionClient;
+
+/**
+ * `search_vector` stores plaintext lexemes next to the encrypted chunk, so
+ * tenants opt in to the keyword index. Shared HQ entries (no tenant) are
+ * platform content and are always indexed.
+ */
+export async function isKnowledgeKeywordIndexEnabled(
+  prisma: Pick<PrismaClient, 'tenant'>,
+  tenantId: string | null
+): Promise<boolean> {
+  if (!tenantId) {
+    return true;
+  }
+
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { knowledgeKeywordIndex: true },
+  });
+
+  return tenant?.knowledgeKeywordIndex ?? false;
+}
+
+/**
+ * Builds the keyword index for one entry from its plaintext (title weighted
+ * above body).
+ */
+export async function writeKnowledgeSearchVector(
+  client: RawClient,
+  params: { entryId: string; title: string; content: string }
+): Promise<void> {
+  await client.$executeRaw`
+    UPDATE knowledge_entries
+    SET search_vector =
+      setweight(to_tsvector(${KNOWLEDGE_SEARCH_LANGUAGE}::regconfig, ${params.title}), 'A') ||
+      setweight(to_tsvector(${KNOWLEDGE_SEARCH_LANGUAGE}::regconfig, ${params.content}), 'B')
+    WHERE id = ${params.entryId}
+  `;
+}
+
+/**
+ * Drops every keyword index for a tenant, e.g. when it opts out.
+ */
+export async function clearKnowledgeSearchIndex(client: RawClient, tenantId: string): Promise<number> {
+  return client.$executeRaw`
+    UPDATE knowledge_entries
+    SET search_vector = NULL
+    WHERE "tenantId" = ${tenantId} AND search_vector IS NOT NULL
+  `;
+}
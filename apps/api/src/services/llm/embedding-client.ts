@@ -1,7 +1,7 @@
 import { config } from '../../config/index.js';
 import { logger } from '../../utils/logger.js';
 import { trackLLMTokens } from '../../utils/metrics.js';
-import { estimateTokens } from './fireworks-client.js';
+import { estimateTokens } from './llm-client.js';
 
 export interface EmbeddingRequest {
   /** Text chunks to embed */
@@ -47,6 +47,10 @@ export async function generateEmbeddings(request: EmbeddingRequest): Promise<Emb
     };
   }
 
+  if (!config.fireworks.apiKey) {
+    throw new FireworksEmbeddingError('Fireworks embeddings are not configured (FIREWORKS_API_KEY is unset)');
+  }
+
   const body = buildRequestBody(request);
   const estimatedTokens = request.inputs.reduce((total, chunk) => total + estimateTokens(chunk), 0);
 
@@ -0,0 +1,307 @@
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { trackLLMTokens } from '../../utils/metrics.js';
+import { recordUsage } from '../quotas.js';
+import { resolveLLMRoute, type LLMRoute } from './model-routing.js';
+import {
+  getLLMProvider,
+  LLMProviderError,
+  type LLMMessage,
+  type LLMProviderId,
+  type LLMToolCall,
+  type LLMToolDefinition,
+  type LLMUsage,
+} from './providers/index.js';
+
+export type {
+  LLMMessage,
+  LLMProviderId,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMUsage,
+} from './providers/index.js';
+
+export interface LLMStreamChunk {
+  content: string;
+  done: boolean;
+  metadata?: {
+    model: string;
+    provider: LLMProviderId;
+    finishReason?: string;
+  };
+  /** Present on the final chunk only. */
+  usage?: LLMUsage;
+  /** Tools the model asked to call; present on the final chunk only. */
+  toolCalls?: LLMToolCall[];
+}
+
+export interface LLMStreamOptions {
+  messages: LLMMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  tenantId: string;
+  userId: string;
+  /** Selects persona-scoped model settings (ceo, cfo, ...). */
+  personaType?: string;
+  /** Label used for token metrics and the BillingUsage event. */
+  operation?: string;
+  /** Functions the model may call instead of (or before) answering. */
+  tools?: LLMToolDefinition[];
+}
+
+/**
+ * Thrown when the tenant's LLM settings cannot be read. The request fails
+ * rather than sending the prompt to a provider the tenant may have opted out of.
+ */
+export class LLMRouteError extends Error {
+  constructor(message = 'Could not load the tenant LLM settings') {
+    super(message);
+    this.name = 'LLMRouteError';
+  }
+}
+
+/**
+ * Stream a chat completion from the provider configured for the tenant.
+ *
+ * The provider/model comes from the tenant's persona or default
+ * TenantLlmSetting, falling back to LLM_PROVIDER when the tenant has none.
+ * If the settings cannot be loaded, LLMRouteError is thrown before any
+ * provider is called. If a provider fails before producing any output the
+ * next fallback provider is tried; once content has been streamed, errors
+ * propagate to the caller. Token usage is recorded
+ * against the tenant's BillingUsage before the final chunk is yielded.
+ *
+ * @param options - Stream options including messages and tenant context
+ * @returns AsyncGenerator that yields LLMStreamChunk objects
+ */
+export async function* streamCompletion(options: LLMStreamOptions): AsyncGenerator<LLMStreamChunk> {
+  const {
+    messages,
+    temperature = config.fireworks.temperature,
+    maxTokens = config.fireworks.maxTokens,
+    tenantId,
+    userId,
+    personaType,
+    operation = 'chat-completion',
+    tools,
+  } = options;
+
+  const route = await resolveRoute(tenantId, personaType);
+  const candidates = [route.provider, ...route.fallbackProviders].filter(
+    (provider, index, all) => all.indexOf(provider) === index
+  );
+
+  let lastError: unknown;
+
+  for (const [attempt, providerId] of candidates.entries()) {
+    const provider = getLLMProvider(providerId);
+
+    if (!provider.isConfigured()) {
+      lastError = new LLMProviderError(`LLM provider "${providerId}" is not configured`, providerId);
+      logger.warn('Skipping unconfigured LLM provider', { tenantId, provider: providerId });
+      continue;
+    }
+
+    // Caller/tenant model names only make sense for the primary provider
+    const model =
+      attempt === 0 ? options.model ?? route.model ?? provider.defaultModel : provider.defaultModel;
+
+    logger.info('Starting LLM stream', {
+      tenantId,
+      userId,
+      provider: providerId,
+      model,
+      routeSource: route.source,
+      attempt,
+      messageCount: messages.length,
+    });
+
+    const controller = new AbortController();
+    let idleTimer: NodeJS.Timeout | undefined;
+    const armIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => controller.abort(), config.llm.requestTimeoutMs);
+    };
+
+    let streamed = false;
+    let output = '';
+
+    try {
+      armIdleTimer();
+
+      for await (const event of provider.streamChat({
+        messages,
+        model,
+        temperature,
+        maxTokens,
+        tools,
+        signal: controller.signal,
+      })) {
+        armIdleTimer();
+
+        if (event.type === 'delta') {
+          streamed = true;
+          output += event.content;
+          yield {
+            content: event.content,
+            done: false,
+            metadata: {
+              model: event.model ?? model,
+              provider: providerId,
+              finishReason: event.finishReason,
+            },
+          };
+          continue;
+        }
+
+        clearTimeout(idleTimer);
+
+        const usage: LLMUsage = event.usage
+          ? { ...event.usage, reported: true }
+          : {
+              inputTokens: estimateMessagesTokens(messages),
+              outputTokens: estimateTokens(
+                output + (event.toolCalls ?? []).map((call) => call.name + call.arguments).join('')
+              ),
+              reported: false,
+            };
+        const completedModel = event.model ?? model;
+
+        await accountTokens({
+          tenantId,
+          provider: providerId,
+          model: completedModel,
+          operation,
+          personaType,
+          usage,
+        });
+
+        logger.info('LLM stream completed', { tenantId, userId, provider: providerId, ...usage });
+
+        yield {
+          content: '',
+          done: true,
+          metadata: { model: completedModel, provider: providerId, finishReason: event.finishReason },
+          usage,
+          toolCalls: event.toolCalls,
+        };
+        return;
+      }
+
+      throw new LLMProviderError(`LLM provider "${providerId}" ended the stream without completing`, providerId);
+    } catch (error) {
+      lastError = error;
+
+      logger.error('Error in LLM stream', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+        tenantId,
+        userId,
+        provider: providerId,
+        streamed,
+      });
+
+      if (streamed) {
+        throw error;
+      }
+    } finally {
+      clearTimeout(idleTimer);
+    }
+  }
+
+  throw lastError ?? new Error('No LLM provider available');
+}
+
+async function resolveRoute(tenantId: string, personaType?: string): Promise<LLMRoute> {
+  try {
+    return await resolveLLMRoute({ tenantId, personaType });
+  } catch (error) {
+    logger.error('Failed to load tenant LLM settings', {
+      tenantId,
+      personaType,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new LLMRouteError();
+  }
+}
+
+/**
+ * Emits token metrics and charges the tokens to the tenant's usage. Billing
+ * failures are logged rather than thrown so a completed answer is never lost.
+ */
+async function accountTokens(params: {
+  tenantId: string;
+  provider: LLMProviderId;
+  model: string;
+  operation: string;
+  personaType?: string;
+  usage: LLMUsage;
+}): Promise<void> {
+  const { tenantId, provider, model, operation, personaType, usage } = params;
+
+  const tokenAttributes: Record<string, string> = { operation, model, provider };
+  if (tenantId) {
+    tokenAttributes.tenantId = tenantId;
+  }
+  trackLLMTokens(usage.inputTokens, usage.outputTokens, tokenAttributes);
+
+  const totalTokens = usage.inputTokens + usage.outputTokens;
+  if (!tenantId || totalTokens <= 0) {
+    return;
+  }
+
+  try {
+    await recordUsage({
+      tenantId,
+      deltas: { tokensUsed: totalTokens },
+      event: {
+        type: 'llm.completion',
+        payload: {
+          provider,
+          model,
+          operation,
+          personaType: personaType ?? null,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          estimated: !usage.reported,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to record LLM token usage', {
+      tenantId,
+      provider,
+      model,
+      totalTokens,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Estimate token count for a text string
+ *
+ * Uses a rough approximation: 1 token ≈ 4 characters
+ * For production, consider using a proper tokenizer library
+ *
+ * @param text - Text to estimate tokens for
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  // Rough estimate: 1 token ≈ 4 characters
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Calculate total tokens for an array of messages
+ *
+ * @param messages - Array of LLM messages
+ * @returns Total estimated token count
+ */
+export function estimateMessagesTokens(messages: LLMMessage[]): number {
+  return messages.reduce((total, msg) => {
+    // Add tokens for content + some overhead for role/formatting
+    return total + estimateTokens(msg.content) + 4;
+  }, 0);
+}
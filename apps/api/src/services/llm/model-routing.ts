@@ -0,0 +1,127 @@
+import { createTenantClient, type TenantLlmSetting } from '@ocsuite/db';
+import { config } from '../../config/index.js';
+import { LLM_PROVIDER_IDS, type LLMProviderId } from './providers/index.js';
+
+export const DEFAULT_LLM_SCOPE = 'default';
+
+export type LLMRouteSource = 'persona' | 'tenant' | 'config';
+
+export interface LLMRoute {
+  provider: LLMProviderId;
+  /** `null` means "use the provider's configured default model". */
+  model: string | null;
+  fallbackProviders: LLMProviderId[];
+  source: LLMRouteSource;
+}
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === 'string' && (LLM_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+function toRoute(setting: TenantLlmSetting, source: LLMRouteSource): LLMRoute | null {
+  if (!isLLMProviderId(setting.provider)) {
+    return null;
+  }
+
+  return {
+    provider: setting.provider,
+    model: setting.model?.trim() || null,
+    fallbackProviders: setting.fallbackProviders.filter(isLLMProviderId),
+    source,
+  };
+}
+
+export function getConfigLLMRoute(): LLMRoute {
+  return {
+    provider: config.llm.provider,
+    model: null,
+    fallbackProviders: [...config.llm.fallbackProviders],
+    source: 'config',
+  };
+}
+
+/**
+ * Resolves which provider/model serves a completion. A persona-scoped
+ * setting wins over the tenant default, which wins over the API config.
+ */
+export async function resolveLLMRoute(params: {
+  tenantId?: string;
+  personaType?: string;
+}): Promise<LLMRoute> {
+  if (!params.tenantId) {
+    return getConfigLLMRoute();
+  }
+
+  const scopes = params.personaType ? [params.personaType, DEFAULT_LLM_SCOPE] : [DEFAULT_LLM_SCOPE];
+  const db = createTenantClient({ tenantId: params.tenantId });
+
+  try {
+    const settings = await db.tenantLlmSetting.findMany({
+      where: { tenantId: params.tenantId, scope: { in: scopes } },
+    });
+
+    const persona = params.personaType
+      ? settings.find((setting) => setting.scope === params.personaType)
+      : undefined;
+    const tenantDefault = settings.find((setting) => setting.scope === DEFAULT_LLM_SCOPE);
+
+    return (
+      (persona && toRoute(persona, 'persona')) ||
+      (tenantDefault && toRoute(tenantDefault, 'tenant')) ||
+      getConfigLLMRoute()
+    );
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+export async function listTenantLlmSettings(tenantId: string): Promise<TenantLlmSetting[]> {
+  const db = createTenantClient({ tenantId });
+
+  try {
+    return await db.tenantLlmSetting.findMany({
+      where: { tenantId },
+      orderBy: { scope: 'asc' },
+    });
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+export async function upsertTenantLlmSetting(params: {
+  tenantId: string;
+  scope: string;
+  provider: LLMProviderId;
+  model?: string | null;
+  fallbackProviders?: LLMProviderId[];
+  updatedBy?: string;
+}): Promise<TenantLlmSetting> {
+  const db = createTenantClient({ tenantId: params.tenantId });
+  const data = {
+    provider: params.provider,
+    model: params.model?.trim() || null,
+    fallbackProviders: (params.fallbackProviders ?? []).filter((provider) => provider !== params.provider),
+    updatedBy: params.updatedBy ?? null,
+  };
+
+  try {
+    return await db.tenantLlmSetting.upsert({
+      where: { tenantId_scope: { tenantId: params.tenantId, scope: params.scope } },
+      create: { tenantId: params.tenantId, scope: params.scope, ...data },
+      update: data,
+    });
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+export async function deleteTenantLlmSetting(tenantId: string, scope: string): Promise<boolean> {
+  const db = createTenantClient({ tenantId });
+
+  try {
+    const result = await db.tenantLlmSetting.deleteMany({ where: { tenantId, scope } });
+    return result.count > 0;
+  } finally {
+    await db.$disconnect();
+  }
+}
@@ -1,9 +1,18 @@
-import { LLMMessage } from './fireworks-client.js';
-import { prisma, createTenantClient } from '@ocsuite/db';
+import type { LLMMessage, LLMToolCall } from './llm-client.js';
+import { prisma, createTenantClient, type Message } from '@ocsuite/db';
+import type { PersonaDefinition } from '@ocsuite/module-sdk';
+import type { PersonaType } from '@ocsuite/types';
 import { logger } from '../../utils/logger.js';
 import { KnowledgeResolver, type KnowledgeSearchResult } from '../knowledge-resolver.js';
 import { generateEmbeddings } from './embedding-client.js';
 
+interface PersonaPromptProfile {
+  title: string;
+  role: string;
+  focus: string;
+  style: string;
+}
+
 export interface PromptContext {
   tenantId: string;
   userId: string;
@@ -79,15 +88,7 @@ Incorporate the above organization knowledge when crafting your response.`;
       });
 
       // Reverse to get chronological order
-      for (const msg of history.reverse()) {
-        // Skip system messages from history
-        if (msg.role === 'system') continue;
-
-        messages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        });
-      }
+      messages.push(...historyToMessages(history.reverse()));
 
       await prisma.$disconnect();
 
@@ -180,26 +181,31 @@ Your role:
 }
 
 /**
- * Build a prompt for other personas (CFO, CMO, CTO)
+ * Build a prompt for other personas (CFO, CMO, CTO, ...)
  *
  * Similar to CEO prompt but with persona-specific focus
  *
  * @param userMessage - The user's current message
  * @param context - Context including tenant ID, user ID, and business data
  * @param personaType - The persona to build for
+ * @param options.appendUserMessage - Set false when resuming a turn whose
+ *   user message is already in the history (default true)
+ * @param options.persona - The tenant's definition of the persona; required
+ *   for custom personas, which have no built-in prompt profile
  * @returns Array of LLM messages ready for the API
  */
 export async function buildPersonaPrompt(
   userMessage: string,
   context: PromptContext,
-  personaType: 'ceo' | 'cfo' | 'cmo' | 'cto'
+  personaType: PersonaType,
+  options: { appendUserMessage?: boolean; persona?: PersonaDefinition } = {}
 ): Promise<LLMMessage[]> {
   // For now, all personas use similar structure
   // In future iterations, we can customize per persona
   const messages: LLMMessage[] = [];
 
   const knowledgeSnippets = await resolveKnowledgeSnippets(userMessage, context, personaType);
-  let systemPrompt = buildPersonaSystemPrompt(context, personaType);
+  let systemPrompt = buildPersonaSystemPrompt(context, personaType, options.persona);
 
   if (knowledgeSnippets.length) {
     systemPrompt += `
@@ -231,14 +237,7 @@ Blend this knowledge with current analytics when responding.`;
         take: 10,
       });
 
-      for (const msg of history.reverse()) {
-        if (msg.role === 'system') continue;
-
-        messages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        });
-      }
+      messages.push(...historyToMessages(history.reverse()));
 
       await prisma.$disconnect();
     } catch (error) {
@@ -250,10 +249,95 @@ Blend this knowledge with current analytics when responding.`;
     }
   }
 
-  messages.push({
-    role: 'user',
-    content: userMessage,
-  });
+  // The chat route persists the user message before building the prompt, so
+  // it is usually already the last history entry.
+  const lastMessage = messages[messages.length - 1];
+  const alreadyInHistory = lastMessage?.role === 'user' && lastMessage.content === userMessage;
+  if (options.appendUserMessage !== false && !alreadyInHistory) {
+    messages.push({
+      role: 'user',
+      content: userMessage,
+    });
+  }
+
+  return messages;
+}
+
+const MAX_TOOL_RESULT_PROMPT_CHARS = 8000;
+
+function readToolCalls(metadata: Message['metadata']): LLMToolCall[] {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return [];
+  }
+
+  const value = (metadata as Record<string, unknown>).toolCalls;
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(
+    (call): call is LLMToolCall =>
+      !!call &&
+      typeof call === 'object' &&
+      typeof (call as LLMToolCall).id === 'string' &&
+      typeof (call as LLMToolCall).name === 'string' &&
+      typeof (call as LLMToolCall).arguments === 'string'
+  );
+}
+
+function readToolCallId(metadata: Message['metadata']): string | undefined {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return undefined;
+  }
+
+  const value = (metadata as Record<string, unknown>).toolCallId;
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Convert persisted conversation messages (oldest first) into LLM messages,
+ * including assistant tool calls and their `tool` results.
+ *
+ * Providers reject tool results whose call is not in the prompt and tool
+ * calls without results, so exchanges cut off by the history window are
+ * dropped.
+ */
+export function historyToMessages(history: Array<Pick<Message, 'role' | 'content' | 'metadata'>>): LLMMessage[] {
+  const answered = new Set(
+    history.filter((msg) => msg.role === 'tool').map((msg) => readToolCallId(msg.metadata))
+  );
+  const requested = new Set<string>();
+  const messages: LLMMessage[] = [];
+
+  for (const msg of history) {
+    if (msg.role === 'system') continue;
+
+    if (msg.role === 'tool') {
+      const toolCallId = readToolCallId(msg.metadata);
+      if (!toolCallId || !requested.has(toolCallId)) continue;
+
+      messages.push({
+        role: 'tool',
+        toolCallId,
+        content: msg.content.slice(0, MAX_TOOL_RESULT_PROMPT_CHARS),
+      });
+      continue;
+    }
+
+    const toolCalls = msg.role === 'assistant' ? readToolCalls(msg.metadata) : [];
+    if (toolCalls.length) {
+      if (!toolCalls.every((call) => answered.has(call.id))) continue;
+
+      toolCalls.forEach((call) => requested.add(call.id));
+      messages.push({ role: 'assistant', content: msg.content, toolCalls });
+      continue;
+    }
+
+    messages.push({
+      role: msg.role,
+      content: msg.content,
+    });
+  }
 
   return messages;
 }
@@ -263,9 +347,10 @@ Blend this knowledge with current analytics when responding.`;
  */
 function buildPersonaSystemPrompt(
   context: PromptContext,
-  personaType: 'ceo' | 'cfo' | 'cmo' | 'cto'
+  personaType: PersonaType,
+  persona?: PersonaDefinition
 ): string {
-  const personaConfig = {
+  const personaConfig: Record<string, PersonaPromptProfile> = {
     ceo: {
       title: 'CEO',
       role: 'Chief Executive Officer',
@@ -290,12 +375,36 @@ function buildPersonaSystemPrompt(
       focus: 'technology strategy, systems architecture, and technical excellence',
       style: 'technical, innovative, and solution-focused',
     },
+    coo: {
+      title: 'COO',
+      role: 'Chief Operating Officer',
+      focus: 'operational execution, process design, and accountability',
+      style: 'pragmatic, organized, and execution-focused',
+    },
+    chro: {
+      title: 'CHRO',
+      role: 'Chief Human Resources Officer',
+      focus: 'hiring, team health, compensation, and culture',
+      style: 'empathetic, candid, and people-focused',
+    },
+    gc: {
+      title: 'General Counsel',
+      role: 'General Counsel',
+      focus: 'legal risk, compliance, and contract exposure',
+      style: 'precise, cautious, and plain-spoken',
+    },
   };
 
-  const config = personaConfig[personaType];
+  const config =
+    personaConfig[personaType] ??
+    (persona
+      ? { title: persona.name, role: persona.name, focus: persona.focus, style: persona.tone }
+      : personaConfig.ceo!);
   const { businessProfile, recentAnalytics, recentInsights } = context;
 
-  let prompt = `You are the ${config.role} (${config.title}) of Online C-Suite, an AI-powered board of advisors for solopreneurs and small businesses.
+  const identity = config.role === config.title ? config.role : `${config.role} (${config.title})`;
+
+  let prompt = `You are the ${identity} of Online C-Suite, an AI-powered board of advisors for solopreneurs and small businesses.
 
 Your role:
 - Provide ${config.focus}
@@ -346,7 +455,7 @@ Your role:
 async function resolveKnowledgeSnippets(
   userMessage: string,
   context: PromptContext,
-  persona: 'ceo' | 'cfo' | 'cmo' | 'cto'
+  persona: PersonaType
 ): Promise<string[]> {
   if (!context.tenantId || !userMessage.trim()) {
     return [];
@@ -373,6 +482,8 @@ async function resolveKnowledgeSnippets(
 
     const results = await resolver.resolveContext({
       embedding: vector,
+      query: userMessage,
+      mode: 'hybrid',
       persona,
       limit: 6,
     });
@@ -0,0 +1,66 @@
+import { config } from '../../../config/index.js';
+import { createOllamaProvider } from './ollama.js';
+import { createOpenAICompatibleProvider } from './openai-compatible.js';
+import { LLMProviderError, type LLMProvider, type LLMProviderId } from './types.js';
+
+export * from './types.js';
+
+const FIREWORKS_BASE_URL = 'https://api.fireworks.ai/inference/v1';
+
+let registry: Map<LLMProviderId, LLMProvider> | null = null;
+
+function buildRegistry(): Map<LLMProviderId, LLMProvider> {
+  const providers: LLMProvider[] = [
+    createOpenAICompatibleProvider({
+      id: 'fireworks',
+      label: 'Fireworks',
+      baseUrl: FIREWORKS_BASE_URL,
+      apiKey: () => config.fireworks.apiKey,
+      defaultModel: config.fireworks.model,
+      requiresApiKey: true,
+    }),
+    createOpenAICompatibleProvider({
+      id: 'openai',
+      label: 'OpenAI-compatible',
+      baseUrl: config.llm.openai.baseUrl,
+      apiKey: () => config.llm.openai.apiKey,
+      defaultModel: config.llm.openai.model,
+      requiresApiKey: false,
+    }),
+    createOllamaProvider({
+      baseUrl: config.llm.ollama.baseUrl,
+      defaultModel: config.llm.ollama.model,
+    }),
+  ];
+
+  return new Map(providers.map((provider) => [provider.id, provider]));
+}
+
+export function getLLMProvider(id: LLMProviderId): LLMProvider {
+  registry ??= buildRegistry();
+
+  const provider = registry.get(id);
+  if (!provider) {
+    throw new LLMProviderError(`Unknown LLM provider "${id}"`, id);
+  }
+
+  return provider;
+}
+
+export function listLLMProviders(): LLMProvider[] {
+  registry ??= buildRegistry();
+  return [...registry.values()];
+}
+
+/**
+ * Replaces a provider implementation. Intended for tests and for deployments
+ * that register a custom backend at startup.
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  registry ??= buildRegistry();
+  registry.set(provider.id, provider);
+}
+
+export function resetLLMProviders(): void {
+  registry = null;
+}
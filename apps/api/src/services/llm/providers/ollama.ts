@@ -0,0 +1,167 @@
+import { randomUUID } from 'node:crypto';
+import { logger } from '../../../utils/logger.js';
+import { readLines } from './stream-lines.js';
+import {
+  LLMProviderError,
+  type LLMProvider,
+  type LLMMessage,
+  type LLMProviderEvent,
+  type LLMProviderRequest,
+  type LLMToolCall,
+} from './types.js';
+
+interface OllamaOptions {
+  baseUrl: string;
+  defaultModel: string;
+}
+
+interface OllamaChatChunk {
+  model?: string;
+  message?: {
+    content?: string;
+    tool_calls?: Array<{ function?: { name?: string; arguments?: Record<string, unknown> } }>;
+  };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+function toWireMessage(message: LLMMessage): Record<string, unknown> {
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content,
+      tool_calls: message.toolCalls.map((call) => ({
+        function: { name: call.name, arguments: safeParseArguments(call.arguments) },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+function safeParseArguments(value: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Provider for a local Ollama daemon using its native `/api/chat` NDJSON
+ * stream, which reports exact prompt/eval token counts on the final line.
+ */
+export function createOllamaProvider(options: OllamaOptions): LLMProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/api/chat`;
+
+  return {
+    id: 'ollama',
+    defaultModel: options.defaultModel,
+
+    isConfigured() {
+      return true;
+    },
+
+    async *streamChat(request: LLMProviderRequest): AsyncGenerator<LLMProviderEvent> {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages.map(toWireMessage),
+          stream: true,
+          ...(request.tools?.length
+            ? {
+                tools: request.tools.map((tool) => ({
+                  type: 'function',
+                  function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                })),
+              }
+            : {}),
+          options: {
+            temperature: request.temperature,
+            num_predict: request.maxTokens,
+          },
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        logger.error('Ollama API error', {
+          provider: 'ollama',
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+        });
+        throw new LLMProviderError(
+          `Ollama API error: ${response.status} ${response.statusText}`,
+          'ollama',
+          response.status
+        );
+      }
+
+      if (!response.body) {
+        throw new LLMProviderError('No response body from Ollama API', 'ollama');
+      }
+
+      // Ollama returns complete tool calls (with parsed arguments) and no ids
+      const toolCalls: LLMToolCall[] = [];
+
+      for await (const line of readLines(response.body)) {
+        if (!line.trim()) continue;
+
+        let parsed: OllamaChatChunk;
+        try {
+          parsed = JSON.parse(line) as OllamaChatChunk;
+        } catch (e) {
+          logger.warn('Failed to parse Ollama stream chunk', {
+            provider: 'ollama',
+            line,
+            error: e instanceof Error ? e.message : 'Unknown error',
+          });
+          continue;
+        }
+
+        if (parsed.error) {
+          throw new LLMProviderError(`Ollama API error: ${parsed.error}`, 'ollama');
+        }
+
+        for (const call of parsed.message?.tool_calls ?? []) {
+          if (call.function?.name) {
+            toolCalls.push({
+              id: `call_${randomUUID()}`,
+              name: call.function.name,
+              arguments: JSON.stringify(call.function.arguments ?? {}),
+            });
+          }
+        }
+
+        const content = parsed.message?.content;
+        if (content) {
+          yield { type: 'delta', content, model: parsed.model };
+        }
+
+        if (parsed.done) {
+          yield {
+            type: 'done',
+            model: parsed.model,
+            finishReason: parsed.done_reason,
+            usage:
+              parsed.prompt_eval_count !== undefined || parsed.eval_count !== undefined
+                ? { inputTokens: parsed.prompt_eval_count ?? 0, outputTokens: parsed.eval_count ?? 0 }
+                : undefined,
+            toolCalls: toolCalls.length ? toolCalls : undefined,
+          };
+          return;
+        }
+      }
+
+      yield { type: 'done', toolCalls: toolCalls.length ? toolCalls : undefined };
+    },
+  };
+}
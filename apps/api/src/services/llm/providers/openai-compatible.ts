@@ -0,0 +1,199 @@
+import { logger } from '../../../utils/logger.js';
+import { readLines } from './stream-lines.js';
+import {
+  LLMProviderError,
+  type LLMProvider,
+  type LLMProviderEvent,
+  type LLMMessage,
+  type LLMProviderId,
+  type LLMProviderRequest,
+  type LLMToolCall,
+} from './types.js';
+
+interface OpenAICompatibleOptions {
+  id: LLMProviderId;
+  label: string;
+  baseUrl: string;
+  apiKey: () => string | null | undefined;
+  defaultModel: string;
+  /** Local servers (llama.cpp, vLLM) usually run without auth. */
+  requiresApiKey: boolean;
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  } | null;
+}
+
+function toWireMessage(message: LLMMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat-completions streaming
+ * protocol: Fireworks, OpenAI, and self-hosted llama.cpp / vLLM servers.
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: options.id,
+    defaultModel: options.defaultModel,
+
+    isConfigured() {
+      return !options.requiresApiKey || Boolean(options.apiKey());
+    },
+
+    async *streamChat(request: LLMProviderRequest): AsyncGenerator<LLMProviderEvent> {
+      const apiKey = options.apiKey();
+      if (options.requiresApiKey && !apiKey) {
+        throw new LLMProviderError(`${options.label} API key is not configured`, options.id);
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages.map(toWireMessage),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...(request.tools?.length
+            ? {
+                tools: request.tools.map((tool) => ({
+                  type: 'function',
+                  function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                })),
+              }
+            : {}),
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        logger.error(`${options.label} API error`, {
+          provider: options.id,
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+        });
+        throw new LLMProviderError(
+          `${options.label} API error: ${response.status} ${response.statusText}`,
+          options.id,
+          response.status
+        );
+      }
+
+      if (!response.body) {
+        throw new LLMProviderError(`No response body from ${options.label} API`, options.id);
+      }
+
+      let model: string | undefined;
+      let finishReason: string | undefined;
+      let usage: { inputTokens: number; outputTokens: number } | undefined;
+      // Tool call fragments arrive spread over many deltas, keyed by index
+      const toolCalls = new Map<number, LLMToolCall>();
+
+      for await (const line of readLines(response.body)) {
+        if (!line.trim() || line.startsWith(':') || !line.startsWith('data: ')) continue;
+
+        const data = line.slice(6).trim();
+        if (data === '[DONE]') {
+          break;
+        }
+
+        let parsed: ChatCompletionChunk;
+        try {
+          parsed = JSON.parse(data) as ChatCompletionChunk;
+        } catch (e) {
+          logger.warn(`Failed to parse ${options.label} SSE chunk`, {
+            provider: options.id,
+            line,
+            error: e instanceof Error ? e.message : 'Unknown error',
+          });
+          continue;
+        }
+
+        model = parsed.model ?? model;
+        const choice = parsed.choices?.[0];
+        finishReason = choice?.finish_reason ?? finishReason;
+
+        if (parsed.usage) {
+          usage = {
+            inputTokens: parsed.usage.prompt_tokens ?? 0,
+            outputTokens: parsed.usage.completion_tokens ?? 0,
+          };
+        }
+
+        for (const fragment of choice?.delta?.tool_calls ?? []) {
+          const index = fragment.index ?? toolCalls.size;
+          const call = toolCalls.get(index) ?? { id: '', name: '', arguments: '' };
+          call.id = fragment.id ?? call.id;
+          call.name += fragment.function?.name ?? '';
+          call.arguments += fragment.function?.arguments ?? '';
+          toolCalls.set(index, call);
+        }
+
+        const content = choice?.delta?.content;
+        if (content) {
+          yield {
+            type: 'delta',
+            content,
+            model: parsed.model,
+            finishReason: choice?.finish_reason ?? undefined,
+          };
+        }
+      }
+
+      yield {
+        type: 'done',
+        model,
+        finishReason,
+        usage,
+        toolCalls: toolCalls.size
+          ? [...toolCalls.entries()]
+              .sort(([a], [b]) => a - b)
+              .map(([index, call]) => ({ ...call, id: call.id || `call_${index}` }))
+          : undefined,
+      };
+    },
+  };
+}
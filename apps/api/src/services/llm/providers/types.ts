@@ -0,0 +1,76 @@
+export const LLM_PROVIDER_IDS = ['fireworks', 'openai', 'ollama'] as const;
+
+export type LLMProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON string as produced by the model. */
+  arguments: string;
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments object. */
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Set on assistant turns that requested tool calls. */
+  toolCalls?: LLMToolCall[];
+  /** Set on tool results: the call being answered. */
+  toolCallId?: string;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** False when the provider did not report usage and the counts are estimates. */
+  reported: boolean;
+}
+
+export interface LLMProviderRequest {
+  messages: LLMMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  tools?: LLMToolDefinition[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Events emitted by a provider stream. A `done` event is always last and
+ * carries whatever usage the provider reported.
+ */
+export type LLMProviderEvent =
+  | { type: 'delta'; content: string; model?: string; finishReason?: string }
+  | {
+      type: 'done';
+      model?: string;
+      finishReason?: string;
+      usage?: Omit<LLMUsage, 'reported'>;
+      toolCalls?: LLMToolCall[];
+    };
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  /** Model used when neither the caller nor tenant settings name one. */
+  defaultModel: string;
+  /** False when required credentials/endpoints are missing from config. */
+  isConfigured(): boolean;
+  streamChat(request: LLMProviderRequest): AsyncGenerator<LLMProviderEvent>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: LLMProviderId,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
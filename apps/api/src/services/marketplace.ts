@@ -168,6 +168,19 @@ export async function listWidgetsForTenant(tenantId: string): Promise<WidgetWith
   return widgets.map((widget) => toWidgetWithInstallDto(widget, installMap.get(widget.slug)));
 }
 
+export async function isWidgetInstalledForTenant(tenantId: string, widgetSlug: string): Promise<boolean> {
+  const install = await prisma.tenantWidget.findUnique({
+    where: { tenantId_widgetSlug: { tenantId, widgetSlug } },
+    select: { id: true },
+  });
+
+  return Boolean(install);
+}
+
+export async function countInstalledWidgets(tenantId: string): Promise<number> {
+  return prisma.tenantWidget.count({ where: { tenantId } });
+}
+
 export async function installWidgetForTenant(params: {
   tenantId: string;
   widgetSlug: string;
@@ -0,0 +1,381 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { prisma, type ModuleWorker, type ModuleWorkerStatus } from '@ocsuite/db';
+import {
+  HealthCheckResponseSchema,
+  ModuleCapabilitySchema,
+  WorkerRegistrationSchema,
+  type ModuleCapability,
+  type TaskExecutionRequest,
+  type TaskExecutionResult,
+} from '@ocsuite/module-sdk';
+import { formatValidationErrors, validateTaskResult } from '@ocsuite/module-sdk/validation';
+import { findBestMatch, getMajorVersion } from '@ocsuite/module-sdk/versioning';
+import { config } from '../config/index.js';
+import { toInputJson } from '../utils/json.js';
+import { apiLogger } from '../utils/logger.js';
+
+/**
+ * WorkerRegistration plus what the control plane needs to reach the worker.
+ * Re-registering with the same workerId replaces the previous registration.
+ */
+export const moduleWorkerRegistrationSchema = WorkerRegistrationSchema.extend({
+  moduleSlug: z.string().min(1).max(100),
+  endpoint: z.string().url(),
+});
+
+export type ModuleWorkerRegistration = z.infer<typeof moduleWorkerRegistrationSchema>;
+
+export const moduleWorkerHeartbeatSchema = HealthCheckResponseSchema;
+
+export class ModuleWorkerNotFoundError extends Error {
+  constructor(message = 'Module worker not registered') {
+    super(message);
+    this.name = 'ModuleWorkerNotFoundError';
+  }
+}
+
+export class RemoteDispatchError extends Error {
+  /**
+   * False only when the request never reached the worker, so retrying the
+   * capability elsewhere cannot run it twice.
+   */
+  readonly delivered: boolean;
+
+  constructor(message: string, delivered: boolean) {
+    super(message);
+    this.name = 'RemoteDispatchError';
+    this.delivered = delivered;
+  }
+}
+
+export interface ModuleWorkerRecord {
+  workerId: string;
+  moduleSlug: string;
+  endpoint: string;
+  capabilities: Array<{ name: string; version: string }>;
+  status: ModuleWorkerStatus;
+  /** Drained workers receive no new tasks until a healthy heartbeat arrives. */
+  drained: boolean;
+  failureCount: number;
+  lastHeartbeatAt: string;
+  registeredAt: string;
+}
+
+export interface RemoteCapabilityMatch {
+  worker: ModuleWorker;
+  definition: ModuleCapability;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Task rows use cuids but the SDK contract requires a UUID, so other ids are
+ * replaced; callers keep the original as `controlPlaneTaskId`.
+ */
+export function toSdkTaskId(taskId: string): string {
+  return UUID_PATTERN.test(taskId) ? taskId : randomUUID();
+}
+
+function heartbeatCutoff(now: Date): Date {
+  return new Date(now.getTime() - config.moduleWorkers.heartbeatTtlSeconds * 1000);
+}
+
+function isDrained(worker: ModuleWorker, now: Date): boolean {
+  return worker.status === 'unhealthy' || worker.lastHeartbeatAt < heartbeatCutoff(now);
+}
+
+function parseCapabilities(worker: ModuleWorker): ModuleCapability[] {
+  const parsed = z.array(ModuleCapabilitySchema).safeParse(worker.capabilities);
+  return parsed.success ? parsed.data : [];
+}
+
+export function toModuleWorkerRecord(worker: ModuleWorker, now = new Date()): ModuleWorkerRecord {
+  return {
+    workerId: worker.id,
+    moduleSlug: worker.moduleSlug,
+    endpoint: worker.endpoint,
+    capabilities: parseCapabilities(worker).map(({ name, version }) => ({ name, version })),
+    status: worker.status,
+    drained: isDrained(worker, now),
+    failureCount: worker.failureCount,
+    lastHeartbeatAt: worker.lastHeartbeatAt.toISOString(),
+    registeredAt: worker.registeredAt.toISOString(),
+  };
+}
+
+export async function registerModuleWorker(registration: ModuleWorkerRegistration): Promise<ModuleWorkerRecord> {
+  const now = new Date();
+  const data = {
+    moduleSlug: registration.moduleSlug,
+    endpoint: registration.endpoint.replace(/\/+$/, ''),
+    capabilities: toInputJson(registration.capabilities),
+    metadata: registration.metadata ? toInputJson(registration.metadata) : undefined,
+    status: 'healthy' as const,
+    failureCount: 0,
+    lastHeartbeatAt: now,
+  };
+
+  const worker = await prisma.moduleWorker.upsert({
+    where: { id: registration.workerId },
+    create: { id: registration.workerId, ...data },
+    update: data,
+  });
+
+  apiLogger.info('Module worker registered', {
+    workerId: worker.id,
+    moduleSlug: worker.moduleSlug,
+    capabilities: registration.capabilities.map((capability) => `${capability.name}@${capability.version}`),
+  });
+
+  return toModuleWorkerRecord(worker, now);
+}
+
+/**
+ * Records the worker's self-reported health. An unhealthy report drains the
+ * worker; a healthy one also clears failures counted by the dispatcher.
+ */
+export async function recordModuleWorkerHeartbeat(
+  workerId: string,
+  health: z.infer<typeof moduleWorkerHeartbeatSchema>
+): Promise<ModuleWorkerRecord> {
+  const existing = await prisma.moduleWorker.findUnique({ where: { id: workerId } });
+  if (!existing) {
+    throw new ModuleWorkerNotFoundError();
+  }
+
+  const now = new Date();
+  const worker = await prisma.moduleWorker.update({
+    where: { id: workerId },
+    data: {
+      status: health.status,
+      lastHeartbeatAt: now,
+      ...(health.status === 'healthy' ? { failureCount: 0 } : {}),
+    },
+  });
+
+  if (existing.status !== worker.status) {
+    apiLogger.info('Module worker health changed', {
+      workerId,
+      from: existing.status,
+      to: worker.status,
+    });
+  }
+
+  return toModuleWorkerRecord(worker, now);
+}
+
+export async function deregisterModuleWorker(workerId: string): Promise<void> {
+  const { count } = await prisma.moduleWorker.deleteMany({ where: { id: workerId } });
+  if (count === 0) {
+    throw new ModuleWorkerNotFoundError();
+  }
+
+  apiLogger.info('Module worker deregistered', { workerId });
+}
+
+export async function listModuleWorkers(): Promise<ModuleWorkerRecord[]> {
+  const workers = await prisma.moduleWorker.findMany({ orderBy: [{ moduleSlug: 'asc' }, { id: 'asc' }] });
+  const now = new Date();
+  return workers.map((worker) => toModuleWorkerRecord(worker, now));
+}
+
+function findLiveWorkers(moduleSlug?: string): Promise<ModuleWorker[]> {
+  return prisma.moduleWorker.findMany({
+    where: {
+      ...(moduleSlug ? { moduleSlug } : {}),
+      status: { in: ['healthy', 'degraded'] },
+      lastHeartbeatAt: { gte: heartbeatCutoff(new Date()) },
+    },
+    orderBy: { lastHeartbeatAt: 'desc' },
+  });
+}
+
+function pickBestOffer(
+  capability: string,
+  requiredVersion: string,
+  candidates: RemoteCapabilityMatch[]
+): RemoteCapabilityMatch | null {
+  const best = findBestMatch(
+    capability,
+    requiredVersion,
+    candidates.map(({ definition }) => definition)
+  );
+  if (!best) {
+    return null;
+  }
+
+  const offering = candidates.filter(
+    ({ definition }) => definition.name === best.name && definition.version === best.version
+  );
+  return offering.find(({ worker }) => worker.status === 'healthy') ?? offering[0] ?? null;
+}
+
+/**
+ * Picks the worker offering the highest version compatible with
+ * `requiredVersion`, preferring healthy workers over degraded ones. Drained
+ * workers are never chosen.
+ */
+export async function findRemoteCapability(params: {
+  moduleSlug: string;
+  capability: string;
+  requiredVersion: string;
+}): Promise<RemoteCapabilityMatch | null> {
+  const { moduleSlug, capability, requiredVersion } = params;
+
+  const workers = await findLiveWorkers(moduleSlug);
+
+  const candidates = workers.flatMap((worker) => {
+    const capabilities = parseCapabilities(worker);
+    const match = findBestMatch(capability, requiredVersion, capabilities);
+    const definition = match
+      ? capabilities.find((candidate) => candidate.name === match.name && candidate.version === match.version)
+      : undefined;
+    return definition ? [{ worker, definition }] : [];
+  });
+
+  return pickBestOffer(capability, requiredVersion, candidates);
+}
+
+/**
+ * Every capability offered by a live worker, once per module and capability
+ * name, chosen the same way as `findRemoteCapability`.
+ */
+export async function listRemoteCapabilities(): Promise<RemoteCapabilityMatch[]> {
+  const offers = new Map<string, RemoteCapabilityMatch[]>();
+
+  for (const worker of await findLiveWorkers()) {
+    for (const definition of parseCapabilities(worker)) {
+      const key = `${worker.moduleSlug}/${definition.name}`;
+      offers.set(key, [...(offers.get(key) ?? []), { worker, definition }]);
+    }
+  }
+
+  return [...offers.values()].flatMap((candidates) => {
+    const { name } = candidates[0]!.definition;
+    const major = getMajorVersion(name);
+    const match = major !== null ? pickBestOffer(name, `${major}.0.0`, candidates) : null;
+    return match ? [match] : [];
+  });
+}
+
+async function recordDispatchOutcome(worker: ModuleWorker, succeeded: boolean): Promise<void> {
+  try {
+    if (succeeded) {
+      if (worker.failureCount > 0) {
+        await prisma.moduleWorker.update({ where: { id: worker.id }, data: { failureCount: 0 } });
+      }
+      return;
+    }
+
+    const failureCount = worker.failureCount + 1;
+    const drain = failureCount >= config.moduleWorkers.maxDispatchFailures;
+    await prisma.moduleWorker.update({
+      where: { id: worker.id },
+      data: { failureCount, ...(drain ? { status: 'unhealthy' as const } : {}) },
+    });
+
+    if (drain) {
+      apiLogger.warn('Module worker drained after repeated dispatch failures', {
+        workerId: worker.id,
+        moduleSlug: worker.moduleSlug,
+        failureCount,
+      });
+    }
+  } catch (error) {
+    apiLogger.warn('Failed to record module worker dispatch outcome', {
+      workerId: worker.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Sends a TaskExecutionRequest to `{endpoint}/tasks` and validates the
+ * TaskExecutionResult the worker answers with. A result with
+ * `success: false` is the capability failing, not the worker, and is
+ * returned as is.
+ */
+export async function dispatchToModuleWorker(
+  match: RemoteCapabilityMatch,
+  params: {
+    taskId: string;
+    tenantId: string;
+    actorId: string;
+    approvalId?: string;
+    payload: Record<string, unknown>;
+  }
+): Promise<TaskExecutionResult> {
+  const { worker, definition } = match;
+  const taskId = toSdkTaskId(params.taskId);
+  const timeoutMs = config.moduleWorkers.dispatchTimeoutMs;
+
+  const request: TaskExecutionRequest = {
+    taskId,
+    capabilityName: definition.name,
+    inputs: params.payload,
+    context: {
+      userId: params.actorId,
+      tenantId: params.tenantId,
+      timeoutMs,
+      metadata: {
+        controlPlaneTaskId: params.taskId,
+        capabilityVersion: definition.version,
+        ...(params.approvalId ? { approvalId: params.approvalId } : {}),
+      },
+    },
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(`${worker.endpoint}/tasks`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.moduleWorkers.token ? { 'X-Worker-Token': config.moduleWorkers.token } : {}),
+      },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    await recordDispatchOutcome(worker, false);
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    throw new RemoteDispatchError(
+      timedOut
+        ? `Module worker ${worker.id} did not answer within ${timeoutMs}ms`
+        : `Module worker ${worker.id} is unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      timedOut
+    );
+  }
+
+  if (!response.ok) {
+    await recordDispatchOutcome(worker, false);
+    throw new RemoteDispatchError(`Module worker ${worker.id} responded with ${response.status}`, true);
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  const validation = validateTaskResult(body);
+  if (!validation.success) {
+    await recordDispatchOutcome(worker, false);
+    throw new RemoteDispatchError(
+      `Module worker ${worker.id} returned an invalid result: ${formatValidationErrors(validation.errors)}`,
+      true
+    );
+  }
+
+  await recordDispatchOutcome(worker, true);
+
+  const result = validation.data;
+  return {
+    ...result,
+    metadata: {
+      ...result.metadata,
+      workerId: result.metadata.workerId ?? worker.id,
+      extra: {
+        ...result.metadata.extra,
+        remoteWorkerId: worker.id,
+        capabilityVersion: definition.version,
+      },
+    },
+  };
+}
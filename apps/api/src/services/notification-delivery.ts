@@ -0,0 +1,227 @@
+import { createTenantClient, prisma } from '@ocsuite/db';
+import type { Notification, PrismaClient } from '@ocsuite/db';
+import { config } from '../config/index.js';
+import { createContextLogger } from '../utils/logger.js';
+import { decryptConnectorAccessToken } from './connectors/connector-sync.js';
+import { renderNotification } from './notification-templates.js';
+import {
+  NotificationDeliveryError,
+  type NotificationTransports,
+  type SlackDestination,
+} from './notification-transports.js';
+
+const deliveryLogger = createContextLogger('notification-delivery');
+
+/** A claimed notification is retried after this long if its worker dies mid-send. */
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export type DeliveryOutcome = 'delivered' | 'retrying' | 'failed';
+
+export interface DeliveryTotals {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+export interface DeliverNotificationsOptions {
+  transports: NotificationTransports;
+  now?: Date;
+  batchSize?: number;
+  maxAttempts?: number;
+}
+
+type DueNotification = Notification & {
+  user: { email: string; name: string | null };
+};
+
+/**
+ * Exponential backoff after the given number of failed attempts: 1, 2, 4 ...
+ * minutes, capped at an hour.
+ */
+export function deliveryRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Tenants with email or Slack notifications due for (re)delivery.
+ */
+export async function listTenantsWithPendingDeliveries(now: Date = new Date()): Promise<string[]> {
+  const rows = await prisma.notification.findMany({
+    where: {
+      deliveryStatus: 'pending',
+      nextDeliveryAt: { lte: now },
+    },
+    distinct: ['tenantId'],
+    select: { tenantId: true },
+  });
+
+  return rows.map((row) => row.tenantId);
+}
+
+/**
+ * The tenant's Slack connector bot. There is deliberately no deployment-wide
+ * fallback: it would post every tenant's notifications into one channel.
+ */
+async function resolveSlackDestination(db: PrismaClient, tenantId: string): Promise<SlackDestination | null> {
+  const connector = await db.connector.findFirst({
+    where: { tenantId, provider: 'slack', status: 'active' },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  if (connector) {
+    return { type: 'bot', token: decryptConnectorAccessToken(connector) };
+  }
+
+  return null;
+}
+
+async function sendNotification(
+  notification: DueNotification,
+  transports: NotificationTransports,
+  slackDestination: () => Promise<SlackDestination | null>
+): Promise<void> {
+  const message = renderNotification(notification, notification.user);
+
+  switch (notification.channel) {
+    case 'email':
+      if (!transports.email) {
+        throw new NotificationDeliveryError('Email delivery is not configured (SMTP_HOST is unset)', true);
+      }
+      await transports.email.send(notification.user.email, message);
+      return;
+    case 'slack_stub': {
+      const destination = await slackDestination();
+      if (!destination) {
+        throw new NotificationDeliveryError('Slack is not connected for this workspace', true);
+      }
+      await transports.slack.send(destination, notification.user.email, message);
+      return;
+    }
+    default:
+      throw new NotificationDeliveryError(`Channel ${notification.channel} has no external delivery`, true);
+  }
+}
+
+/**
+ * Claims a notification by pushing its next attempt past the lease, so a
+ * concurrent run skips it. Returns false when another run got there first.
+ */
+async function claimNotification(db: PrismaClient, notification: DueNotification, now: Date): Promise<boolean> {
+  const claimed = await db.notification.updateMany({
+    where: {
+      id: notification.id,
+      deliveryStatus: 'pending',
+      nextDeliveryAt: notification.nextDeliveryAt,
+    },
+    data: {
+      deliveryAttempts: { increment: 1 },
+      nextDeliveryAt: new Date(now.getTime() + DELIVERY_LEASE_MS),
+    },
+  });
+
+  return claimed.count === 1;
+}
+
+async function deliverNotification(
+  db: PrismaClient,
+  notification: DueNotification,
+  options: Required<Pick<DeliverNotificationsOptions, 'transports' | 'maxAttempts'>> & {
+    now: Date;
+    slackDestination: () => Promise<SlackDestination | null>;
+  }
+): Promise<DeliveryOutcome | null> {
+  if (!(await claimNotification(db, notification, options.now))) {
+    return null;
+  }
+
+  const attempts = notification.deliveryAttempts + 1;
+
+  try {
+    await sendNotification(notification, options.transports, options.slackDestination);
+
+    await db.notification.update({
+      where: { id: notification.id },
+      data: {
+        deliveryStatus: 'delivered',
+        deliveredAt: new Date(),
+        nextDeliveryAt: null,
+        lastDeliveryError: null,
+      },
+    });
+
+    return 'delivered';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const permanent = error instanceof NotificationDeliveryError && error.permanent;
+    const exhausted = permanent || attempts >= options.maxAttempts;
+
+    await db.notification.update({
+      where: { id: notification.id },
+      data: exhausted
+        ? { deliveryStatus: 'failed', nextDeliveryAt: null, lastDeliveryError: message }
+        : {
+            nextDeliveryAt: new Date(options.now.getTime() + deliveryRetryDelayMs(attempts)),
+            lastDeliveryError: message,
+          },
+    });
+
+    deliveryLogger.warn('Notification delivery failed', {
+      tenantId: notification.tenantId,
+      notificationId: notification.id,
+      channel: notification.channel,
+      attempts,
+      permanent,
+      willRetry: !exhausted,
+      error: message,
+    });
+
+    return exhausted ? 'failed' : 'retrying';
+  }
+}
+
+/**
+ * Sends one batch of the tenant's due email and Slack notifications.
+ */
+export async function deliverPendingNotifications(
+  tenantId: string,
+  options: DeliverNotificationsOptions
+): Promise<DeliveryTotals> {
+  const now = options.now ?? new Date();
+  const db = createTenantClient({ tenantId });
+  const totals: DeliveryTotals = { delivered: 0, retrying: 0, failed: 0 };
+
+  try {
+    const due = await db.notification.findMany({
+      where: {
+        tenantId,
+        deliveryStatus: 'pending',
+        nextDeliveryAt: { lte: now },
+      },
+      include: { user: { select: { email: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: options.batchSize ?? config.notifications.deliveryBatchSize,
+    });
+
+    let slackDestination: Promise<SlackDestination | null> | null = null;
+    const resolveSlack = () => (slackDestination ??= resolveSlackDestination(db, tenantId));
+
+    for (const notification of due) {
+      const outcome = await deliverNotification(db, notification, {
+        transports: options.transports,
+        maxAttempts: options.maxAttempts ?? config.notifications.deliveryMaxAttempts,
+        now,
+        slackDestination: resolveSlack,
+      });
+
+      if (outcome) {
+        totals[outcome] += 1;
+      }
+    }
+
+    return totals;
+  } finally {
+    await db.$disconnect();
+  }
+}
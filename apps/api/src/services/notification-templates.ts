@@ -0,0 +1,237 @@
+import type { Prisma } from '@ocsuite/db';
+import { config } from '../config/index.js';
+import { parseJsonRecord } from '../utils/json.js';
+
+/**
+ * Renders stored notifications for delivery outside the app. Payloads are
+ * the ones written by `services/notifications.ts`.
+ */
+
+export interface NotificationMessage {
+  subject: string;
+  text: string;
+  html: string;
+  /** Slack mrkdwn */
+  slackText: string;
+  /** Web app page the notification points to */
+  url: string | null;
+}
+
+export interface RenderableNotification {
+  type: string;
+  payload: Prisma.JsonValue;
+}
+
+export interface NotificationRecipient {
+  name: string | null;
+  email: string;
+}
+
+interface MessageParts {
+  subject: string;
+  lines: string[];
+  path: string | null;
+}
+
+const SEVERITY_LABELS: Record<string, string> = {
+  critical: 'Critical',
+  warning: 'Warning',
+  info: 'Info',
+};
+
+function readString(record: Record<string, unknown>, key: string): string | null {
+  const value = record[key];
+  return typeof value === 'string' && value.trim().length > 0 ? value : null;
+}
+
+function describeModule(payload: Record<string, unknown>): string {
+  return readString(payload, 'moduleSlug') ?? 'an action';
+}
+
+function humanizeType(type: string): string {
+  const text = type.replace(/[._-]+/g, ' ').trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function buildParts(type: string, payload: Record<string, unknown>): MessageParts {
+  const comment = readString(payload, 'comment');
+
+  switch (type) {
+    case 'action-approval.submitted': {
+      const risk = parseJsonRecord((payload.risk ?? null) as Prisma.JsonValue);
+      const level = readString(risk, 'level');
+      const reasons = Array.isArray(risk.reasons) ? risk.reasons.filter((reason) => typeof reason === 'string') : [];
+
+      return {
+        subject: `Approval needed: ${describeModule(payload)}${level ? ` (${level} risk)` : ''}`,
+        lines: [
+          `A request to run ${describeModule(payload)} is waiting for your approval.`,
+          ...(reasons.length ? [`Risk factors: ${reasons.join(', ')}`] : []),
+          ...(comment ? [`Note: ${comment}`] : []),
+        ],
+        path: '/actions',
+      };
+    }
+    case 'action-approval.approved':
+    case 'action-approval.rejected': {
+      const decision = type.endsWith('approved') ? 'approved' : 'rejected';
+      const approvalId = readString(payload, 'approvalId');
+      return {
+        subject: `Your action request was ${decision}`,
+        lines: [
+          approvalId ? `Action request ${approvalId} was ${decision}.` : `Your action request was ${decision}.`,
+          ...(comment ? [`Comment: ${comment}`] : []),
+        ],
+        path: '/actions',
+      };
+    }
+    case 'action-approval.executed':
+    case 'action-approval.failed': {
+      const succeeded = type.endsWith('executed');
+      const metadata = parseJsonRecord((payload.metadata ?? null) as Prisma.JsonValue);
+      const error = readString(metadata, 'error');
+
+      return {
+        subject: succeeded ? 'Your approved action finished running' : 'Your approved action failed',
+        lines: [
+          succeeded
+            ? 'The approved action ran successfully.'
+            : 'The approved action could not be completed.',
+          ...(error ? [`Error: ${error}`] : []),
+        ],
+        path: '/actions',
+      };
+    }
+    case 'alert.triggered': {
+      const severity = readString(payload, 'severity') ?? 'warning';
+      const summary = readString(payload, 'summary') ?? 'A trigger rule fired.';
+
+      return {
+        subject: `[${SEVERITY_LABELS[severity] ?? severity}] ${summary}`,
+        lines: [summary],
+        path: '/dashboard',
+      };
+    }
+    default: {
+      const title = readString(payload, 'title') ?? humanizeType(type);
+      const message = readString(payload, 'message');
+
+      return {
+        subject: title,
+        lines: message ? [message] : [],
+        path: '/notifications',
+      };
+    }
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Slack only requires these three characters to be escaped in message text
+function escapeSlack(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function renderNotification(
+  notification: RenderableNotification,
+  recipient: NotificationRecipient
+): NotificationMessage {
+  const parts = buildParts(notification.type, parseJsonRecord(notification.payload));
+  const url = parts.path && config.notifications.appUrl ? `${config.notifications.appUrl}${parts.path}` : null;
+  const greeting = `Hi ${recipient.name ?? recipient.email},`;
+
+  const textLines = [greeting, '', ...parts.lines, ...(url ? ['', `Open OC-Suite: ${url}`] : [])];
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...parts.lines.map((line) => `<p>${escapeHtml(line)}</p>`),
+    ...(url ? [`<p><a href="${escapeHtml(url)}">Open OC-Suite</a></p>`] : []),
+  ].join('\n');
+
+  const slackText = [
+    `*${escapeSlack(parts.subject)}*`,
+    ...parts.lines.map(escapeSlack),
+    ...(url ? [`<${url}|Open OC-Suite>`] : []),
+  ].join('\n');
+
+  return {
+    subject: parts.subject,
+    text: textLines.join('\n'),
+    html,
+    slackText,
+    url,
+  };
+}
+
+export interface InvitationMessageInput {
+  tenantName: string;
+  inviterName: string;
+  role: string;
+  acceptUrl: string;
+  expiresAt: Date;
+}
+
+/**
+ * Invitations go to people who may not have an account yet, so they are sent
+ * directly rather than through the stored-notification pipeline.
+ */
+export function renderInvitation(input: InvitationMessageInput): NotificationMessage {
+  const subject = `${input.inviterName} invited you to ${input.tenantName} on OC-Suite`;
+  const lines = [
+    `${input.inviterName} invited you to join ${input.tenantName} as ${input.role === 'admin' ? 'an' : 'a'} ${input.role}.`,
+    `This invitation expires on ${input.expiresAt.toUTCString()}.`,
+  ];
+
+  return {
+    subject,
+    text: [...lines, '', `Accept the invitation: ${input.acceptUrl}`].join('\n'),
+    html: [
+      ...lines.map((line) => `<p>${escapeHtml(line)}</p>`),
+      `<p><a href="${escapeHtml(input.acceptUrl)}">Accept the invitation</a></p>`,
+    ].join('\n'),
+    slackText: [`*${escapeSlack(subject)}*`, ...lines.map(escapeSlack), `<${input.acceptUrl}|Accept the invitation>`].join('\n'),
+    url: input.acceptUrl,
+  };
+}
+
+export interface BoardMinutesMessageInput {
+  tenantName: string;
+  senderName: string;
+  meetingDate: Date;
+  fileName: string;
+  /** Web app page for the meeting, when APP_URL is configured */
+  url: string | null;
+}
+
+/**
+ * Minutes are emailed with the file attached when they are exported, so they
+ * are sent directly rather than through the stored-notification pipeline.
+ */
+export function renderBoardMinutes(input: BoardMinutesMessageInput): NotificationMessage {
+  const meetingDate = input.meetingDate.toUTCString();
+  const subject = `${input.tenantName} board meeting minutes (${input.meetingDate.toISOString().slice(0, 10)})`;
+  const lines = [
+    `${input.senderName} shared the minutes of the board meeting held on ${meetingDate}.`,
+    `The minutes are attached as ${input.fileName}.`,
+  ];
+
+  return {
+    subject,
+    text: [...lines, ...(input.url ? ['', `Open the meeting: ${input.url}`] : [])].join('\n'),
+    html: [
+      ...lines.map((line) => `<p>${escapeHtml(line)}</p>`),
+      ...(input.url ? [`<p><a href="${escapeHtml(input.url)}">Open the meeting</a></p>`] : []),
+    ].join('\n'),
+    slackText: [
+      `*${escapeSlack(subject)}*`,
+      ...lines.map(escapeSlack),
+      ...(input.url ? [`<${input.url}|Open the meeting>`] : []),
+    ].join('\n'),
+    url: input.url,
+  };
+}
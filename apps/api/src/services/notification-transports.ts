@@ -0,0 +1,163 @@
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import { config } from '../config/index.js';
+import type { NotificationMessage } from './notification-templates.js';
+
+export const SLACK_API_URL = 'https://slack.com/api';
+
+/** Slack API errors that retrying will not fix. */
+const PERMANENT_SLACK_ERRORS = new Set([
+  'users_not_found',
+  'account_inactive',
+  'invalid_auth',
+  'not_authed',
+  'token_revoked',
+  'missing_scope',
+  'channel_not_found',
+  'is_archived',
+]);
+
+/**
+ * `permanent` failures are marked failed immediately instead of retried.
+ */
+export class NotificationDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly permanent: boolean = false
+  ) {
+    super(message);
+    this.name = 'NotificationDeliveryError';
+  }
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface EmailTransport {
+  send(to: string, message: NotificationMessage, attachments?: EmailAttachment[]): Promise<void>;
+  close(): void;
+}
+
+export type SlackDestination = { type: 'bot'; token: string };
+
+export interface SlackTransport {
+  send(destination: SlackDestination, recipientEmail: string, message: NotificationMessage): Promise<void>;
+}
+
+export interface NotificationTransports {
+  /** Null when SMTP is not configured */
+  email: EmailTransport | null;
+  slack: SlackTransport;
+}
+
+/**
+ * Returns null when no SMTP host is configured.
+ */
+export function createEmailTransport(
+  smtp: typeof config.notifications.smtp = config.notifications.smtp
+): EmailTransport | null {
+  if (!smtp.host) {
+    return null;
+  }
+
+  const transporter: Transporter = nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    auth: smtp.user ? { user: smtp.user, pass: smtp.password ?? '' } : undefined,
+  });
+
+  return {
+    async send(to, message, attachments) {
+      try {
+        await transporter.sendMail({
+          from: smtp.from,
+          to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          attachments,
+        });
+      } catch (error) {
+        const responseCode = (error as { responseCode?: number }).responseCode;
+        throw new NotificationDeliveryError(
+          `SMTP delivery failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          // 5xx replies (unknown mailbox, rejected sender) will not succeed on retry
+          typeof responseCode === 'number' && responseCode >= 500
+        );
+      }
+    },
+    close() {
+      transporter.close();
+    },
+  };
+}
+
+interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+  user?: { id: string };
+}
+
+async function callSlackApi(
+  apiUrl: string,
+  method: string,
+  token: string,
+  init: { query?: Record<string, string>; body?: Record<string, unknown> }
+): Promise<SlackApiResponse> {
+  const query = init.query ? `?${new URLSearchParams(init.query).toString()}` : '';
+  const response = await fetch(`${apiUrl}/${method}${query}`, {
+    method: init.body ? 'POST' : 'GET',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body ? { 'Content-Type': 'application/json; charset=utf-8' } : {}),
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new NotificationDeliveryError(`Slack ${method} returned HTTP ${response.status}`);
+  }
+
+  const data = (await response.json()) as SlackApiResponse;
+  if (!data.ok) {
+    const error = data.error ?? 'unknown_error';
+    throw new NotificationDeliveryError(`Slack ${method} failed: ${error}`, PERMANENT_SLACK_ERRORS.has(error));
+  }
+
+  return data;
+}
+
+/**
+ * Sends a direct message from the bot to the Slack user whose email matches
+ * the recipient.
+ */
+export function createSlackTransport(options: { apiUrl?: string } = {}): SlackTransport {
+  const apiUrl = options.apiUrl ?? SLACK_API_URL;
+  // Slack user ids per bot token and email, for the lifetime of the transport
+  const userIds = new Map<string, string>();
+
+  return {
+    async send(destination, recipientEmail, message) {
+      const cacheKey = `${destination.token}:${recipientEmail}`;
+      let userId = userIds.get(cacheKey);
+      if (!userId) {
+        const lookup = await callSlackApi(apiUrl, 'users.lookupByEmail', destination.token, {
+          query: { email: recipientEmail },
+        });
+        userId = lookup.user?.id;
+        if (!userId) {
+          throw new NotificationDeliveryError('Slack user lookup returned no user', true);
+        }
+        userIds.set(cacheKey, userId);
+      }
+
+      await callSlackApi(apiUrl, 'chat.postMessage', destination.token, {
+        body: { channel: userId, text: message.slackText, unfurl_links: false },
+      });
+    },
+  };
+}
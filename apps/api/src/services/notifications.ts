@@ -8,12 +8,18 @@ import type {
 import { TenantMemberRole } from '@ocsuite/db';
 import { parseJsonRecord, toInputJson } from '../utils/json.js';
 import { apiLogger } from '../utils/logger.js';
+import { publishTenantEvent } from './tenant-events.js';
 
 interface Recipient {
   userId: string;
+}
+
+interface ChannelRecipient extends Recipient {
   channel: NotificationChannel;
 }
 
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'slack_stub'];
+
 interface BaseNotificationContext {
   tenantId: string;
   actorClerkId?: string;
@@ -78,7 +84,6 @@ async function findRecipients(
 
   return members.map((member) => ({
     userId: member.userId,
-    channel: 'in_app',
   }));
 }
 
@@ -108,7 +113,11 @@ async function notify(
     preferenceMap.set(`${preference.userId}:${preference.channel}`, preference.enabled);
   }
 
-  const filteredRecipients = recipients.filter((recipient) => {
+  const channelRecipients: ChannelRecipient[] = uniqueUserIds.flatMap((userId) =>
+    NOTIFICATION_CHANNELS.map((channel) => ({ userId, channel }))
+  );
+
+  const filteredRecipients = channelRecipients.filter((recipient) => {
     const key = `${recipient.userId}:${recipient.channel}`;
     const preference = preferenceMap.get(key);
 
@@ -132,9 +141,19 @@ async function notify(
         type,
         channel: recipient.channel,
         payload: toInputJson(payload),
+        // Picked up by the notification delivery worker
+        ...(recipient.channel === 'in_app'
+          ? {}
+          : { deliveryStatus: 'pending' as const, nextDeliveryAt: new Date() }),
       })),
       skipDuplicates: true,
     });
+
+    for (const recipient of filteredRecipients) {
+      if (recipient.channel === 'in_app') {
+        publishTenantEvent(context.tenantId, 'notification.created', { type }, { userId: recipient.userId });
+      }
+    }
   } catch (error) {
     apiLogger.error('Failed to create notifications', {
       type,
@@ -181,7 +200,7 @@ export async function notifyActionApprovalDecision(
   await notify(
     db,
     context,
-    [{ userId: requesterUserId, channel: 'in_app' }],
+    [{ userId: requesterUserId }],
     `action-approval.${context.decision}`,
     {
       approvalId: context.approval.id,
@@ -206,7 +225,7 @@ export async function notifyActionExecutionResult(
   await notify(
     db,
     context,
-    [{ userId: requesterUserId, channel: 'in_app' }],
+    [{ userId: requesterUserId }],
     `action-approval.${context.result}`,
     {
       approvalId: context.approval.id,
@@ -244,3 +263,117 @@ export async function notifyAlertRaised(
     }
   );
 }
+
+export async function notifyBillingPaymentFailed(
+  db: DatabaseClient,
+  params: {
+    tenantId: string;
+    invoiceId: string | null;
+    amountDue: number | null;
+    currency: string | null;
+    attemptCount: number | null;
+    nextPaymentAttempt: string | null;
+    hostedInvoiceUrl: string | null;
+  }
+): Promise<void> {
+  const recipients = await findRecipients(db, params.tenantId, [TenantMemberRole.owner]);
+
+  if (!recipients.length) {
+    return;
+  }
+
+  await notify(
+    db,
+    { tenantId: params.tenantId },
+    recipients,
+    'billing.payment_failed',
+    {
+      invoiceId: params.invoiceId,
+      amountDue: params.amountDue,
+      currency: params.currency,
+      attemptCount: params.attemptCount,
+      nextPaymentAttempt: params.nextPaymentAttempt,
+      hostedInvoiceUrl: params.hostedInvoiceUrl,
+    }
+  );
+}
+
+/**
+ * Sends one notification per metric, threshold and billing period; repeated
+ * calls after the threshold was already announced are no-ops.
+ */
+export async function notifyQuotaThreshold(
+  db: DatabaseClient,
+  params: {
+    tenantId: string;
+    metric: string;
+    threshold: 80 | 100;
+    used: number;
+    limit: number;
+    plan: string;
+    periodKey: string;
+  }
+): Promise<boolean> {
+  const type = `billing.quota_${params.threshold}`;
+  const dedupeKey = `${params.metric}:${params.periodKey}`;
+
+  const existing = await db.notification.findFirst({
+    where: {
+      tenantId: params.tenantId,
+      type,
+      payload: { path: ['dedupeKey'], equals: dedupeKey },
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    return false;
+  }
+
+  const recipients = await findRecipients(db, params.tenantId, [TenantMemberRole.owner, TenantMemberRole.admin]);
+
+  await notify(db, { tenantId: params.tenantId }, recipients, type, {
+    dedupeKey,
+    metric: params.metric,
+    threshold: params.threshold,
+    used: params.used,
+    limit: params.limit,
+    plan: params.plan,
+    periodKey: params.periodKey,
+  });
+
+  return recipients.length > 0;
+}
+
+export async function notifyConnectorError(
+  db: DatabaseClient,
+  params: {
+    tenantId: string;
+    connectorId: string;
+    provider: string;
+    label: string;
+    error: string;
+    failures: number;
+  }
+): Promise<void> {
+  const recipients = await findRecipients(db, params.tenantId, [TenantMemberRole.owner]);
+
+  if (!recipients.length) {
+    return;
+  }
+
+  await notify(
+    db,
+    { tenantId: params.tenantId },
+    recipients,
+    'connector.error',
+    {
+      title: `${params.label} connection needs attention`,
+      message: `We could not renew access to ${params.label} after ${params.failures} attempts. Reconnect it from the Connectors page to resume syncing.`,
+      connectorId: params.connectorId,
+      provider: params.provider,
+      error: params.error,
+      failures: params.failures,
+    }
+  );
+}
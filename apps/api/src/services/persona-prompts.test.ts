@@ -263,6 +263,64 @@ describe('persona-prompts', () => {
       );
     });
 
+    it('should build custom personas with only their required context', () => {
+      const result = buildPersonaPrompt('head-of-sustainability', baseContext, [
+        {
+          id: 'head-of-sustainability',
+          name: 'Head of Sustainability',
+          tone: 'measured, evidence-led',
+          expertise: ['emissions', 'supply chain'],
+          maxTokens: 300,
+          streamChunkSize: 100,
+          focus: 'Weigh the environmental cost of each plan.',
+          requiredContext: ['businessProfile', 'recentWins'],
+        },
+      ]);
+
+      expect(result.persona.name).toBe('Head of Sustainability');
+      expect(result.maxTokens).toBe(300);
+      expect(result.prompt).toContain('You are the Head of Sustainability. Tone: measured, evidence-led.');
+      expect(result.prompt).toContain('Industry: SaaS');
+      expect(result.prompt).toContain('Agenda Summary:');
+      expect(result.prompt).toContain('Recent Wins:');
+      expect(result.prompt).toContain('emissions, supply chain');
+      expect(result.prompt).toContain('under 300 tokens');
+      expect(result.prompt).not.toContain('Latest Module Insights:');
+      expect(result.prompt).not.toContain('Analytics Overview:');
+      expect(result.prompt).not.toContain('Key Metrics:');
+    });
+
+    it('should ask for a rebuttal of the other seats during debate rounds', () => {
+      const result = buildPersonaPrompt('cfo', {
+        ...baseContext,
+        debate: {
+          round: 2,
+          totalRounds: 3,
+          priorTurns: [
+            {
+              personaId: 'ceo',
+              personaName: 'CEO',
+              summary: 'Double down on enterprise',
+              risks: ['Sales cycle length'],
+              opportunities: [],
+              recommendations: [{ title: 'Hire two enterprise AEs' }],
+              rawContent: '{}',
+              sequence: 1,
+              createdAt: new Date().toISOString(),
+            },
+          ],
+        },
+      });
+
+      expect(result.prompt).toContain('Board Debate (round 2 of 3):');
+      expect(result.prompt).toContain('- CEO (ceo): Double down on enterprise');
+      expect(result.prompt).toContain('Recommends: Hire two enterprise AEs');
+      expect(result.prompt).toContain('Risks raised: Sales cycle length');
+      expect(result.prompt).toContain('agreements (string[])');
+      expect(result.prompt).toContain('dissent (Array<{against, point, recommendation');
+      expect(result.prompt).not.toContain('opportunities (string[])');
+    });
+
     it('should limit insight highlights to 3 items', () => {
       const context = {
         ...baseContext,
@@ -1,4 +1,11 @@
-import type { ModuleInsight, AnalyticsSnapshot, BusinessProfile, BoardActionItemRecord } from '@ocsuite/types';
+import type {
+  ModuleInsight,
+  AnalyticsSnapshot,
+  BusinessProfile,
+  BoardActionItemRecord,
+  BoardPersonaAnalysis,
+  PersonaContextSection,
+} from '@ocsuite/types';
 import { PERSONAS, getPersonaById, type PersonaDefinition } from '@ocsuite/module-sdk';
 import { apiLogger } from '../utils/logger.js';
 
@@ -15,8 +22,25 @@ const PERSONA_NAME_OVERRIDES: Record<string, string> = {
   cfo: 'CFO',
   cmo: 'CMO',
   cto: 'CTO',
+  coo: 'COO',
+  chro: 'CHRO',
+  gc: 'General Counsel',
 };
 
+/**
+ * Sections a custom persona can list in `requiredContext`. Built-in personas
+ * always receive the full briefing; custom ones only get what they ask for.
+ */
+export const PERSONA_CONTEXT_SECTIONS = [
+  'businessProfile',
+  'moduleInsights',
+  'analyticsSnapshots',
+  'openActionItems',
+  'recentWins',
+  'personaQuestions',
+  'metricsSummary',
+] as const satisfies readonly PersonaContextSection[];
+
 function normalizePersona(persona: PersonaDefinition): PersonaDefinition {
   const override = PERSONA_NAME_OVERRIDES[persona.id];
   return override ? { ...persona, name: override } : persona;
@@ -32,6 +56,15 @@ export interface PersonaPromptContext {
   recentWins: string[];
   personaQuestions?: string[];
   metricsSummary?: Record<string, unknown>;
+  /** Set for debate rounds: the persona rebuts the other seats instead of opening */
+  debate?: PersonaDebateContext;
+}
+
+export interface PersonaDebateContext {
+  round: number;
+  totalRounds: number;
+  /** The other personas' turns from the previous round */
+  priorTurns: BoardPersonaAnalysis[];
 }
 
 export interface PersonaPromptResult {
@@ -45,13 +78,25 @@ export function listSupportedPersonas(): PersonaDefinition[] {
   return PERSONAS.map((persona) => normalizePersona(persona));
 }
 
-export function buildPersonaPrompt(personaId: string, context: PersonaPromptContext): PersonaPromptResult {
-  const personaDefinition = getPersonaById(personaId);
+/**
+ * @param personas - The tenant's personas; checked before the built-in
+ *   definitions so custom personas and tenant overrides resolve.
+ */
+export function buildPersonaPrompt(
+  personaId: string,
+  context: PersonaPromptContext,
+  personas: PersonaDefinition[] = []
+): PersonaPromptResult {
+  const builtIn = getPersonaById(personaId);
+  const personaDefinition = personas.find((candidate) => candidate.id === personaId) ?? builtIn;
   const persona = personaDefinition ? normalizePersona(personaDefinition) : undefined;
   if (!persona) {
     throw new Error(`Persona ${personaId} is not defined`);
   }
 
+  const includes = (section: PersonaContextSection) =>
+    Boolean(builtIn) || persona.requiredContext.includes(section);
+
   const profileSection = context.businessProfile
     ? `Business Profile:\n- Industry: ${context.businessProfile.industry ?? 'Unknown'}\n- Stage: ${context.businessProfile.stage ?? 'Unknown'}\n- Size: ${context.businessProfile.size ?? 'Unknown'}\n- Revenue: ${context.businessProfile.revenue ?? 'Unspecified'}\n- Goals: ${(context.businessProfile.goals ?? []).join(', ') || 'None listed'}`
     : 'Business Profile: Not available';
@@ -94,7 +139,23 @@ export function buildPersonaPrompt(personaId: string, context: PersonaPromptCont
     ? `\n\nVideo Production Tools Available:\nYou have access to professional video production capabilities including:\n- Transcribe videos and podcasts to extract insights and create content\n- Extract viral clips from long-form content using AI analysis\n- Optimize videos for different social platforms (YouTube, TikTok, Instagram, LinkedIn, etc.)\n- Add professional captions automatically\n- Create multi-platform content from single source videos\n\nConsider recommending video content strategies when appropriate for marketing campaigns.`
     : '';
 
-  const prompt = `You are the ${persona.name}. Tone: ${persona.tone}. Focus: ${persona.focus}.\n\n${profileSection}\n\nAgenda Summary:\n${context.agendaSummary}\n\nLatest Module Insights:\n${insightsSection}\n\nAnalytics Overview:\n${analyticsSection}\n\nOpen Action Items:\n${actionItemSection}\n\nRecent Wins:\n${winsSection}\n\nPersona Questions:\n${personaQuestionsSection}\n\n${metricsSection}${videoToolsSection}\n\nInstructions:\n1. Provide a concise analysis tailored to your expertise (${persona.expertise.join(', ')}).\n2. Highlight risks, opportunities, and recommended actions.\n3. Keep the response under ${persona.maxTokens} tokens.\n4. Use a structured JSON response with fields: summary (string), risks (string[]), opportunities (string[]), recommendations (Array<{title, ownerHint, dueDateHint, priority}>), and metrics (object).`;
+  const sections = [
+    `You are the ${persona.name}. Tone: ${persona.tone}. Focus: ${persona.focus}.`,
+    includes('businessProfile') ? profileSection : null,
+    `Agenda Summary:\n${context.agendaSummary}`,
+    includes('moduleInsights') ? `Latest Module Insights:\n${insightsSection}` : null,
+    includes('analyticsSnapshots') ? `Analytics Overview:\n${analyticsSection}` : null,
+    includes('openActionItems') ? `Open Action Items:\n${actionItemSection}` : null,
+    includes('recentWins') ? `Recent Wins:\n${winsSection}` : null,
+    includes('personaQuestions') ? `Persona Questions:\n${personaQuestionsSection}` : null,
+    `${includes('metricsSummary') ? metricsSection : ''}${videoToolsSection}`,
+    context.debate ? buildDebateSection(context.debate) : null,
+    context.debate
+      ? `Instructions:\n1. Rebut or support the positions above from your expertise (${persona.expertise.join(', ')}).\n2. List the positions you agree with in agreements.\n3. List every position you dispute in dissent, naming the persona id you disagree with in against and the recommendation you would make instead.\n4. Keep the response under ${persona.maxTokens} tokens.\n5. Use a structured JSON response with fields: summary (string), agreements (string[]), and dissent (Array<{against, point, recommendation: {title, ownerHint, dueDateHint, priority, rationale}}>).`
+      : `Instructions:\n1. Provide a concise analysis tailored to your expertise (${persona.expertise.join(', ')}).\n2. Highlight risks, opportunities, and recommended actions.\n3. Keep the response under ${persona.maxTokens} tokens.\n4. Use a structured JSON response with fields: summary (string), risks (string[]), opportunities (string[]), recommendations (Array<{title, ownerHint, dueDateHint, priority}>), and metrics (object).`,
+  ];
+
+  const prompt = sections.filter((section): section is string => Boolean(section)).join('\n\n');
 
   return {
     persona,
@@ -116,6 +177,28 @@ export function enforceContentFilter(content: string, logger: Pick<typeof apiLog
   return content;
 }
 
+function buildDebateSection(debate: PersonaDebateContext): string {
+  const turns = debate.priorTurns.length
+    ? debate.priorTurns
+        .map((turn) => {
+          const lines = [`- ${turn.personaName} (${turn.personaId}): ${turn.summary}`];
+          if (turn.recommendations.length) {
+            lines.push(`  Recommends: ${turn.recommendations.map((rec) => rec.title).join('; ')}`);
+          }
+          if (turn.risks.length) {
+            lines.push(`  Risks raised: ${turn.risks.join('; ')}`);
+          }
+          if (turn.dissent?.length) {
+            lines.push(`  Disputes: ${turn.dissent.map((entry) => entry.point).join('; ')}`);
+          }
+          return lines.join('\n');
+        })
+        .join('\n')
+    : 'No other positions were put forward.';
+
+  return `Board Debate (round ${debate.round} of ${debate.totalRounds}):\nYour fellow board members said the following in the previous round.\n${turns}`;
+}
+
 function summarizeAnalytics(snapshots: AnalyticsSnapshot[]): string {
   const sorted = [...snapshots].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   const latest = sorted[0];
@@ -0,0 +1,230 @@
+import { createTenantClient, prisma, type TenantPlan } from '@ocsuite/db';
+import { apiLogger } from '../utils/logger.js';
+import {
+  applyBillingUsageDelta,
+  type BillingUsageDelta,
+  type BillingUsageEventMetadata,
+  type BillingUsagePoint,
+} from './billing.js';
+import { notifyQuotaThreshold } from './notifications.js';
+
+export type QuotaMetric = 'tokens' | 'taskExecutions' | 'activeWidgets' | 'videoMinutes';
+
+export const QUOTA_METRICS: readonly QuotaMetric[] = [
+  'tokens',
+  'taskExecutions',
+  'activeWidgets',
+  'videoMinutes',
+];
+
+/**
+ * `block` plans reject requests once a limit is reached; `warn` plans keep
+ * serving and only surface the overage (billed through Stripe).
+ */
+export type QuotaEnforcement = 'block' | 'warn';
+
+export interface PlanQuota {
+  enforcement: QuotaEnforcement;
+  /** Per billing period; `null` means unlimited. */
+  limits: Record<QuotaMetric, number | null>;
+}
+
+export const PLAN_QUOTAS: Record<TenantPlan, PlanQuota> = {
+  free: {
+    enforcement: 'block',
+    limits: { tokens: 100_000, taskExecutions: 100, activeWidgets: 3, videoMinutes: 10 },
+  },
+  starter: {
+    enforcement: 'block',
+    limits: { tokens: 1_000_000, taskExecutions: 1_000, activeWidgets: 10, videoMinutes: 60 },
+  },
+  growth: {
+    enforcement: 'warn',
+    limits: { tokens: 5_000_000, taskExecutions: 10_000, activeWidgets: 25, videoMinutes: 300 },
+  },
+  enterprise: {
+    enforcement: 'warn',
+    limits: { tokens: null, taskExecutions: null, activeWidgets: null, videoMinutes: null },
+  },
+};
+
+export const QUOTA_WARNING_RATIO = 0.8;
+
+export type QuotaState = 'ok' | 'warning' | 'exceeded';
+
+export interface QuotaMetricUsage {
+  metric: QuotaMetric;
+  used: number;
+  limit: number | null;
+  ratio: number | null;
+  state: QuotaState;
+}
+
+export interface QuotaPeriod {
+  key: string;
+  start: Date;
+  end: Date;
+  resetsAt: Date;
+}
+
+export interface QuotaStatus {
+  tenantId: string;
+  plan: TenantPlan;
+  enforcement: QuotaEnforcement;
+  period: QuotaPeriod;
+  metrics: Record<QuotaMetric, QuotaMetricUsage>;
+}
+
+/**
+ * Quotas reset on calendar months, using the same local-midnight dates that
+ * BillingUsage rows are keyed by.
+ */
+export function getQuotaPeriod(now: Date = new Date()): QuotaPeriod {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+
+  return {
+    key: `${year}-${String(month + 1).padStart(2, '0')}`,
+    start: new Date(year, month, 1),
+    end: new Date(year, month + 1, 0),
+    resetsAt: new Date(year, month + 1, 1),
+  };
+}
+
+export function evaluateQuotaMetric(metric: QuotaMetric, used: number, limit: number | null): QuotaMetricUsage {
+  if (limit === null) {
+    return { metric, used, limit, ratio: null, state: 'ok' };
+  }
+
+  const ratio = limit > 0 ? used / limit : 1;
+  const state: QuotaState = ratio >= 1 ? 'exceeded' : ratio >= QUOTA_WARNING_RATIO ? 'warning' : 'ok';
+
+  return { metric, used, limit, ratio, state };
+}
+
+export async function getQuotaStatus(tenantId: string, now: Date = new Date()): Promise<QuotaStatus> {
+  const period = getQuotaPeriod(now);
+
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { plan: true },
+  });
+  const plan: TenantPlan = tenant?.plan ?? 'free';
+  const quota = PLAN_QUOTAS[plan];
+
+  const db = createTenantClient({ tenantId });
+
+  try {
+    const [usage, activeWidgets] = await Promise.all([
+      db.billingUsage.aggregate({
+        where: {
+          tenantId,
+          date: { gte: period.start, lte: period.end },
+        },
+        _sum: {
+          tokensUsed: true,
+          tasksExecuted: true,
+          videoMinutes: true,
+        },
+      }),
+      db.tenantWidget.count({ where: { tenantId } }),
+    ]);
+
+    const used: Record<QuotaMetric, number> = {
+      tokens: usage._sum.tokensUsed ?? 0,
+      taskExecutions: usage._sum.tasksExecuted ?? 0,
+      activeWidgets,
+      videoMinutes: usage._sum.videoMinutes ?? 0,
+    };
+
+    const metrics = Object.fromEntries(
+      QUOTA_METRICS.map((metric) => [metric, evaluateQuotaMetric(metric, used[metric], quota.limits[metric])])
+    ) as Record<QuotaMetric, QuotaMetricUsage>;
+
+    return {
+      tenantId,
+      plan,
+      enforcement: quota.enforcement,
+      period,
+      metrics,
+    };
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+const DELTA_METRICS: Array<[keyof BillingUsageDelta, QuotaMetric]> = [
+  ['tokensUsed', 'tokens'],
+  ['tasksExecuted', 'taskExecutions'],
+  ['activeWidgets', 'activeWidgets'],
+  ['videoMinutes', 'videoMinutes'],
+];
+
+/**
+ * Sends the 80% / 100% notifications for any of the given metrics that have
+ * crossed a threshold this period. Each threshold is announced once.
+ */
+export async function notifyQuotaThresholds(
+  tenantId: string,
+  metrics: readonly QuotaMetric[],
+  now: Date = new Date()
+): Promise<void> {
+  if (!metrics.length) {
+    return;
+  }
+
+  const status = await getQuotaStatus(tenantId, now);
+  const db = createTenantClient({ tenantId });
+
+  try {
+    for (const metric of metrics) {
+      const usage = status.metrics[metric];
+      if (usage.limit === null || usage.state === 'ok') {
+        continue;
+      }
+
+      await notifyQuotaThreshold(db, {
+        tenantId,
+        metric,
+        threshold: usage.state === 'exceeded' ? 100 : 80,
+        used: usage.used,
+        limit: usage.limit,
+        plan: status.plan,
+        periodKey: status.period.key,
+      });
+    }
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+/**
+ * Records metered usage and checks the affected quotas. Threshold
+ * notifications are best-effort: a failure there is logged, never surfaced
+ * to the caller whose usage was already recorded.
+ */
+export async function recordUsage(params: {
+  tenantId: string;
+  deltas: BillingUsageDelta;
+  event?: BillingUsageEventMetadata;
+}): Promise<BillingUsagePoint> {
+  const point = await applyBillingUsageDelta({
+    tenantId: params.tenantId,
+    deltas: params.deltas,
+    event: params.event,
+  });
+
+  const touched = DELTA_METRICS.filter(([key]) => (params.deltas[key] ?? 0) > 0).map(([, metric]) => metric);
+
+  try {
+    await notifyQuotaThresholds(params.tenantId, touched);
+  } catch (error) {
+    apiLogger.error('Failed to evaluate quota thresholds', {
+      tenantId: params.tenantId,
+      metrics: touched,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return point;
+}
@@ -0,0 +1,463 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  Prisma,
+  createTenantClient,
+  prisma,
+  type BillingEventStatus,
+  type SubscriptionStatus,
+  type TenantPlan,
+} from '@ocsuite/db';
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { toInputJson } from '../utils/json.js';
+import { apiLogger } from '../utils/logger.js';
+import { notifyBillingPaymentFailed } from './notifications.js';
+
+const SIGNATURE_SCHEME = 'v1';
+
+const TENANT_PLANS: readonly TenantPlan[] = ['free', 'starter', 'growth', 'enterprise'];
+
+const SUBSCRIPTION_STATUSES: readonly SubscriptionStatus[] = [
+  'trialing',
+  'active',
+  'past_due',
+  'canceled',
+  'unpaid',
+  'incomplete',
+  'incomplete_expired',
+  'paused',
+];
+
+// Statuses after which Stripe will never bill the subscription again.
+const TERMINAL_STATUSES: ReadonlySet<SubscriptionStatus> = new Set(['canceled', 'incomplete_expired']);
+
+export class StripeSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StripeSignatureError';
+  }
+}
+
+export interface VerifyStripeSignatureOptions {
+  payload: string | Buffer;
+  header: string | undefined;
+  secret: string;
+  toleranceSeconds?: number;
+  now?: Date;
+}
+
+function computeSignature(payload: string, timestamp: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+}
+
+function safeCompare(expected: string, candidate: string): boolean {
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const candidateBuffer = Buffer.from(candidate, 'utf8');
+
+  if (expectedBuffer.length !== candidateBuffer.length) {
+    return false;
+  }
+
+  return timingSafeEqual(expectedBuffer, candidateBuffer);
+}
+
+/**
+ * Verifies a `Stripe-Signature` header (`t=<unix>,v1=<hex>[,v1=<hex>]`) against
+ * the raw request body, following Stripe's documented HMAC-SHA256 scheme.
+ * Throws StripeSignatureError when the header is malformed, no signature
+ * matches, or the timestamp falls outside the replay tolerance.
+ */
+export function verifyStripeSignature(options: VerifyStripeSignatureOptions): void {
+  const { header, secret } = options;
+
+  if (!header) {
+    throw new StripeSignatureError('Missing Stripe-Signature header');
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.split('=', 2).map((segment) => segment?.trim());
+    if (!key || !value) {
+      continue;
+    }
+
+    if (key === 't') {
+      timestamp = Number.parseInt(value, 10);
+    } else if (key === SIGNATURE_SCHEME) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === undefined || Number.isNaN(timestamp) || signatures.length === 0) {
+    throw new StripeSignatureError('Malformed Stripe-Signature header');
+  }
+
+  const payload = typeof options.payload === 'string' ? options.payload : options.payload.toString('utf8');
+  const expected = computeSignature(payload, timestamp, secret);
+
+  if (!signatures.some((signature) => safeCompare(expected, signature))) {
+    throw new StripeSignatureError('No signatures found matching the expected signature');
+  }
+
+  const toleranceSeconds = options.toleranceSeconds ?? config.stripe.webhookToleranceSeconds;
+  const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000);
+
+  if (toleranceSeconds > 0 && Math.abs(nowSeconds - timestamp) > toleranceSeconds) {
+    throw new StripeSignatureError('Stripe-Signature timestamp is outside the tolerance window');
+  }
+}
+
+export type BillingEventClaim = 'new' | 'retry' | 'duplicate' | 'in_progress';
+
+/** How long a `received` event belongs to the delivery processing it. */
+const BILLING_EVENT_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Records the Stripe event before it is processed. Stripe retries deliveries
+ * until it gets a 2xx, so an event that already reached `processed` or
+ * `ignored` is reported as a duplicate. One that `failed`, or was left
+ * `received` by an attempt that stopped without finishing, is claimed again
+ * for another try; a `received` event still within its lease is reported as
+ * in progress so concurrent deliveries never process it twice.
+ */
+export async function claimBillingEvent(event: {
+  id: string;
+  type: string;
+  payload: unknown;
+}): Promise<BillingEventClaim> {
+  try {
+    await prisma.billingEvent.create({
+      data: {
+        id: event.id,
+        type: event.type,
+        status: 'received',
+        payload: toInputJson(event.payload),
+      },
+    });
+    return 'new';
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error;
+    }
+  }
+
+  const { count } = await prisma.billingEvent.updateMany({
+    where: {
+      id: event.id,
+      OR: [
+        { status: 'failed' },
+        { status: 'received', updatedAt: { lt: new Date(Date.now() - BILLING_EVENT_LEASE_MS) } },
+      ],
+    },
+    data: {
+      status: 'received',
+      error: null,
+      attempts: { increment: 1 },
+    },
+  });
+
+  if (count > 0) {
+    return 'retry';
+  }
+
+  const existing = await prisma.billingEvent.findUnique({
+    where: { id: event.id },
+    select: { status: true },
+  });
+
+  return existing && (existing.status === 'processed' || existing.status === 'ignored') ? 'duplicate' : 'in_progress';
+}
+
+export async function completeBillingEvent(
+  eventId: string,
+  result: {
+    status: Exclude<BillingEventStatus, 'received'>;
+    tenantId?: string | null;
+    error?: string;
+  }
+): Promise<void> {
+  await prisma.billingEvent.update({
+    where: { id: eventId },
+    data: {
+      status: result.status,
+      tenantId: result.tenantId ?? undefined,
+      error: result.error ?? null,
+      processedAt: new Date(),
+    },
+  });
+}
+
+const metadataSchema = z.record(z.unknown()).nullish();
+
+const subscriptionSchema = z
+  .object({
+    id: z.string().min(1),
+    customer: z.union([z.string(), z.object({ id: z.string() }).passthrough()]).nullish(),
+    status: z.string(),
+    current_period_end: z.number().nullish(),
+    metadata: metadataSchema,
+    items: z
+      .object({
+        data: z
+          .array(
+            z
+              .object({
+                price: z
+                  .object({
+                    id: z.string(),
+                    lookup_key: z.string().nullish(),
+                  })
+                  .passthrough()
+                  .nullish(),
+              })
+              .passthrough()
+          )
+          .default([]),
+      })
+      .passthrough()
+      .nullish(),
+  })
+  .passthrough();
+
+const invoiceSchema = z
+  .object({
+    id: z.string().nullish(),
+    customer: z.union([z.string(), z.object({ id: z.string() }).passthrough()]).nullish(),
+    subscription: z.union([z.string(), z.object({ id: z.string() }).passthrough()]).nullish(),
+    amount_due: z.number().nullish(),
+    currency: z.string().nullish(),
+    attempt_count: z.number().nullish(),
+    next_payment_attempt: z.number().nullish(),
+    hosted_invoice_url: z.string().nullish(),
+    metadata: metadataSchema,
+    subscription_details: z.object({ metadata: metadataSchema }).passthrough().nullish(),
+  })
+  .passthrough();
+
+type StripeSubscription = z.infer<typeof subscriptionSchema>;
+
+export interface StripeEventResult {
+  status: 'processed' | 'ignored';
+  tenantId: string | null;
+  reason?: string;
+}
+
+function toId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return typeof value === 'string' ? value : value.id;
+}
+
+function metadataTenantId(metadata: Record<string, unknown> | null | undefined): string | null {
+  const tenantId = metadata?.tenantId;
+  return typeof tenantId === 'string' && tenantId.trim().length > 0 ? tenantId.trim() : null;
+}
+
+function fromUnixSeconds(value: number | null | undefined): Date | null {
+  if (typeof value !== 'number') {
+    return null;
+  }
+  const date = new Date(value * 1000);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function isTenantPlan(value: unknown): value is TenantPlan {
+  return typeof value === 'string' && (TENANT_PLANS as readonly string[]).includes(value);
+}
+
+function toSubscriptionStatus(value: string): SubscriptionStatus | null {
+  return (SUBSCRIPTION_STATUSES as readonly string[]).includes(value) ? (value as SubscriptionStatus) : null;
+}
+
+/**
+ * Maps a subscription to a tenant plan: explicit price id mapping from
+ * STRIPE_PRICE_PLANS first, then a price lookup_key or subscription metadata
+ * `plan` that names a plan directly.
+ */
+export function resolvePlanFromSubscription(subscription: StripeSubscription): TenantPlan | null {
+  const prices = (subscription.items?.data ?? [])
+    .map((item) => item.price)
+    .filter((price): price is NonNullable<typeof price> => Boolean(price));
+
+  for (const price of prices) {
+    const mapped = config.stripe.pricePlans[price.id];
+    if (isTenantPlan(mapped)) {
+      return mapped;
+    }
+  }
+
+  for (const price of prices) {
+    if (isTenantPlan(price.lookup_key)) {
+      return price.lookup_key;
+    }
+  }
+
+  const metadataPlan = subscription.metadata?.plan;
+  return isTenantPlan(metadataPlan) ? metadataPlan : null;
+}
+
+async function findTenantForStripeObject(params: {
+  metadataTenantId: string | null;
+  customerId: string | null;
+  subscriptionId: string | null;
+}) {
+  const select = { id: true, plan: true, subscriptionStatus: true, stripeSubscriptionId: true } as const;
+
+  if (params.metadataTenantId) {
+    const tenant = await prisma.tenant.findUnique({ where: { id: params.metadataTenantId }, select });
+    if (tenant) {
+      return tenant;
+    }
+  }
+
+  if (params.subscriptionId) {
+    const tenant = await prisma.tenant.findUnique({
+      where: { stripeSubscriptionId: params.subscriptionId },
+      select,
+    });
+    if (tenant) {
+      return tenant;
+    }
+  }
+
+  if (params.customerId) {
+    return prisma.tenant.findUnique({ where: { stripeCustomerId: params.customerId }, select });
+  }
+
+  return null;
+}
+
+async function handleSubscriptionEvent(type: string, object: unknown): Promise<StripeEventResult> {
+  const parsed = subscriptionSchema.safeParse(object);
+  if (!parsed.success) {
+    return { status: 'ignored', tenantId: null, reason: 'invalid_subscription_payload' };
+  }
+
+  const subscription = parsed.data;
+  const customerId = toId(subscription.customer);
+  const tenant = await findTenantForStripeObject({
+    metadataTenantId: metadataTenantId(subscription.metadata),
+    customerId,
+    subscriptionId: subscription.id,
+  });
+
+  if (!tenant) {
+    return { status: 'ignored', tenantId: null, reason: 'tenant_not_found' };
+  }
+
+  const deleted = type === 'customer.subscription.deleted';
+
+  // A late event for a subscription the tenant has since replaced must not
+  // overwrite the state of the current one.
+  if (
+    tenant.stripeSubscriptionId &&
+    tenant.stripeSubscriptionId !== subscription.id &&
+    type !== 'customer.subscription.created'
+  ) {
+    return { status: 'ignored', tenantId: tenant.id, reason: 'stale_subscription' };
+  }
+
+  const status: SubscriptionStatus = deleted ? 'canceled' : toSubscriptionStatus(subscription.status) ?? 'none';
+  const plan: TenantPlan = TERMINAL_STATUSES.has(status)
+    ? 'free'
+    : resolvePlanFromSubscription(subscription) ?? tenant.plan;
+
+  await prisma.tenant.update({
+    where: { id: tenant.id },
+    data: {
+      plan,
+      subscriptionStatus: status,
+      stripeCustomerId: customerId ?? undefined,
+      stripeSubscriptionId: TERMINAL_STATUSES.has(status) ? null : subscription.id,
+      currentPeriodEnd: fromUnixSeconds(subscription.current_period_end),
+    },
+  });
+
+  apiLogger.info('Applied Stripe subscription update', {
+    tenantId: tenant.id,
+    eventType: type,
+    subscriptionId: subscription.id,
+    previousPlan: tenant.plan,
+    plan,
+    status,
+  });
+
+  return { status: 'processed', tenantId: tenant.id };
+}
+
+async function handleInvoicePaymentFailed(object: unknown): Promise<StripeEventResult> {
+  const parsed = invoiceSchema.safeParse(object);
+  if (!parsed.success) {
+    return { status: 'ignored', tenantId: null, reason: 'invalid_invoice_payload' };
+  }
+
+  const invoice = parsed.data;
+  const tenant = await findTenantForStripeObject({
+    metadataTenantId:
+      metadataTenantId(invoice.subscription_details?.metadata) ?? metadataTenantId(invoice.metadata),
+    customerId: toId(invoice.customer),
+    subscriptionId: toId(invoice.subscription),
+  });
+
+  if (!tenant) {
+    return { status: 'ignored', tenantId: null, reason: 'tenant_not_found' };
+  }
+
+  if (tenant.subscriptionStatus === 'active' || tenant.subscriptionStatus === 'trialing') {
+    await prisma.tenant.update({
+      where: { id: tenant.id },
+      data: { subscriptionStatus: 'past_due' },
+    });
+  }
+
+  const db = createTenantClient({ tenantId: tenant.id });
+  try {
+    await notifyBillingPaymentFailed(db, {
+      tenantId: tenant.id,
+      invoiceId: invoice.id ?? null,
+      amountDue: invoice.amount_due ?? null,
+      currency: invoice.currency ?? null,
+      attemptCount: invoice.attempt_count ?? null,
+      nextPaymentAttempt: fromUnixSeconds(invoice.next_payment_attempt)?.toISOString() ?? null,
+      hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+    });
+  } finally {
+    await db.$disconnect();
+  }
+
+  apiLogger.warn('Stripe invoice payment failed', {
+    tenantId: tenant.id,
+    invoiceId: invoice.id,
+    attemptCount: invoice.attempt_count,
+  });
+
+  return { status: 'processed', tenantId: tenant.id };
+}
+
+export function isStripeLifecycleEvent(type: string): boolean {
+  return type.startsWith('customer.subscription.') || type === 'invoice.payment_failed';
+}
+
+/**
+ * Applies a subscription lifecycle event to the owning tenant. Callers should
+ * check isStripeLifecycleEvent first; any other type is reported as ignored.
+ */
+export async function processStripeLifecycleEvent(event: {
+  type: string;
+  data?: { object?: unknown };
+}): Promise<StripeEventResult> {
+  const object = event.data?.object;
+
+  if (event.type.startsWith('customer.subscription.')) {
+    return handleSubscriptionEvent(event.type, object);
+  }
+
+  if (event.type === 'invoice.payment_failed') {
+    return handleInvoicePaymentFailed(object);
+  }
+
+  return { status: 'ignored', tenantId: null, reason: 'unsupported_event_type' };
+}
@@ -0,0 +1,429 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  PrismaClient,
+  TenantInvitation,
+  TenantInvitationStatus,
+  TenantMember,
+  TenantMemberRole,
+  User,
+} from '@ocsuite/db';
+import { deriveKey } from '@ocsuite/crypto';
+import { config } from '../config/index.js';
+import { apiLogger } from '../utils/logger.js';
+import { createEmailTransport } from './notification-transports.js';
+import { renderInvitation } from './notification-templates.js';
+
+/**
+ * Team membership and invitations.
+ *
+ * Invitation tokens are `<tenantId>.<invitationId>.<signature>`. The signature
+ * is an HMAC over the invitation's email, role and expiry with a per-tenant key
+ * derived from the master key, so tokens are never stored and re-sending an
+ * invitation (which moves the expiry) invalidates earlier links.
+ */
+
+const TOKEN_KEY_CONTEXT = 'tenant-invitations';
+
+export class InvitationNotFoundError extends Error {
+  constructor(message = 'Invitation not found') {
+    super(message);
+    this.name = 'InvitationNotFoundError';
+  }
+}
+
+export class InvitationStateError extends Error {
+  constructor(message = 'Invitation is not in a valid state for this operation') {
+    super(message);
+    this.name = 'InvitationStateError';
+  }
+}
+
+export class InvitationTokenError extends Error {
+  constructor(message = 'Invitation token is invalid') {
+    super(message);
+    this.name = 'InvitationTokenError';
+  }
+}
+
+export class MemberNotFoundError extends Error {
+  constructor(message = 'Team member not found') {
+    super(message);
+    this.name = 'MemberNotFoundError';
+  }
+}
+
+export class LastOwnerError extends Error {
+  constructor(message = 'A tenant must keep at least one owner') {
+    super(message);
+    this.name = 'LastOwnerError';
+  }
+}
+
+export type MemberWithUser = TenantMember & { user: Pick<User, 'id' | 'email' | 'name'> };
+
+type SignableInvitation = Pick<TenantInvitation, 'id' | 'tenantId' | 'email' | 'role' | 'expiresAt'>;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function signatureFor(invitation: SignableInvitation): Buffer {
+  const key = deriveKey(config.masterEncryptionKey, invitation.tenantId, TOKEN_KEY_CONTEXT);
+  return createHmac('sha256', key)
+    .update(`${invitation.id}.${invitation.email}.${invitation.role}.${invitation.expiresAt.getTime()}`)
+    .digest();
+}
+
+export function signInvitationToken(invitation: SignableInvitation): string {
+  return `${invitation.tenantId}.${invitation.id}.${signatureFor(invitation).toString('base64url')}`;
+}
+
+/**
+ * Splits a token into the ids needed to load its invitation. The signature is
+ * checked later against the loaded row by `verifyInvitationToken`.
+ */
+export function parseInvitationToken(token: string): { tenantId: string; invitationId: string } {
+  const parts = token.trim().split('.');
+  if (parts.length !== 3 || parts.some((part) => part.length === 0)) {
+    throw new InvitationTokenError();
+  }
+
+  const [tenantId, invitationId] = parts as [string, string, string];
+  return { tenantId, invitationId };
+}
+
+export function verifyInvitationToken(token: string, invitation: SignableInvitation): boolean {
+  const [, , signature = ''] = token.trim().split('.');
+  const expected = signatureFor(invitation);
+  const provided = Buffer.from(signature, 'base64url');
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+export function isInvitationExpired(invitation: Pick<TenantInvitation, 'status' | 'expiresAt'>, now = new Date()): boolean {
+  return invitation.status === TenantInvitationStatus.pending && invitation.expiresAt.getTime() <= now.getTime();
+}
+
+export function buildAcceptUrl(token: string): string {
+  return `${config.notifications.appUrl ?? ''}/invitations/accept?token=${encodeURIComponent(token)}`;
+}
+
+export async function listMembers(db: PrismaClient, tenantId: string): Promise<MemberWithUser[]> {
+  return db.tenantMember.findMany({
+    where: { tenantId },
+    include: { user: { select: { id: true, email: true, name: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+export async function listInvitations(
+  db: PrismaClient,
+  tenantId: string,
+  filters: { status?: TenantInvitationStatus } = {}
+): Promise<TenantInvitation[]> {
+  return db.tenantInvitation.findMany({
+    where: { tenantId, ...(filters.status ? { status: filters.status } : {}) },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export interface CreateInvitationParams {
+  tenantId: string;
+  email: string;
+  role: TenantMemberRole;
+  /** Internal user id of the inviter */
+  invitedBy: string;
+}
+
+export interface CreateInvitationResult {
+  invitation: TenantInvitation;
+  token: string;
+  acceptUrl: string;
+  emailSent: boolean;
+}
+
+/**
+ * Creates an invitation, or refreshes the role and expiry of a pending one
+ * for the same email, and emails the accept link when SMTP is configured.
+ */
+export async function createInvitation(
+  db: PrismaClient,
+  params: CreateInvitationParams
+): Promise<CreateInvitationResult> {
+  const { tenantId, role, invitedBy } = params;
+  const email = normalizeEmail(params.email);
+  const expiresAt = new Date(Date.now() + config.team.invitationTtlHours * 60 * 60 * 1000);
+
+  const existingMember = await db.tenantMember.findFirst({
+    where: { tenantId, user: { email: { equals: email, mode: 'insensitive' } } },
+    select: { id: true },
+  });
+  if (existingMember) {
+    throw new InvitationStateError('User is already a member of this tenant');
+  }
+
+  const pending = await db.tenantInvitation.findFirst({
+    where: { tenantId, email, status: TenantInvitationStatus.pending },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const invitation = pending
+    ? await db.tenantInvitation.update({
+        where: { id: pending.id },
+        data: { role, invitedBy, expiresAt },
+      })
+    : await db.tenantInvitation.create({
+        data: { tenantId, email, role, invitedBy, expiresAt },
+      });
+
+  const token = signInvitationToken(invitation);
+  const acceptUrl = buildAcceptUrl(token);
+  const emailSent = await sendInvitationEmail(db, invitation, acceptUrl);
+
+  apiLogger.info('Tenant invitation created', {
+    tenantId,
+    invitationId: invitation.id,
+    role,
+    refreshed: Boolean(pending),
+    emailSent,
+  });
+
+  return { invitation, token, acceptUrl, emailSent };
+}
+
+/**
+ * Best effort: the caller still gets the accept link to share manually when
+ * SMTP is missing or delivery fails.
+ */
+async function sendInvitationEmail(
+  db: PrismaClient,
+  invitation: TenantInvitation,
+  acceptUrl: string
+): Promise<boolean> {
+  if (!config.notifications.appUrl) {
+    apiLogger.warn('APP_URL is not configured; skipping invitation email', {
+      tenantId: invitation.tenantId,
+      invitationId: invitation.id,
+    });
+    return false;
+  }
+
+  const transport = createEmailTransport();
+  if (!transport) {
+    return false;
+  }
+
+  try {
+    const [tenant, inviter] = await Promise.all([
+      db.tenant.findUnique({ where: { id: invitation.tenantId }, select: { name: true } }),
+      db.user.findUnique({ where: { id: invitation.invitedBy }, select: { name: true, email: true } }),
+    ]);
+
+    await transport.send(
+      invitation.email,
+      renderInvitation({
+        tenantName: tenant?.name ?? 'OC-Suite',
+        inviterName: inviter?.name ?? inviter?.email ?? 'A teammate',
+        role: invitation.role,
+        acceptUrl,
+        expiresAt: invitation.expiresAt,
+      })
+    );
+    return true;
+  } catch (error) {
+    apiLogger.warn('Failed to send invitation email', {
+      tenantId: invitation.tenantId,
+      invitationId: invitation.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return false;
+  } finally {
+    transport.close();
+  }
+}
+
+export async function revokeInvitation(
+  db: PrismaClient,
+  params: { tenantId: string; invitationId: string }
+): Promise<TenantInvitation> {
+  const invitation = await db.tenantInvitation.findFirst({
+    where: { id: params.invitationId, tenantId: params.tenantId },
+  });
+
+  if (!invitation) {
+    throw new InvitationNotFoundError();
+  }
+
+  if (invitation.status !== TenantInvitationStatus.pending) {
+    throw new InvitationStateError(`Invitation has already been ${invitation.status}`);
+  }
+
+  return db.tenantInvitation.update({
+    where: { id: invitation.id },
+    data: { status: TenantInvitationStatus.revoked, respondedAt: new Date() },
+  });
+}
+
+/**
+ * Loads the invitation a token points to and checks its signature. Status and
+ * expiry are left to the caller so previews can still describe stale links.
+ */
+export async function findInvitationByToken(db: PrismaClient, token: string): Promise<TenantInvitation> {
+  const { tenantId, invitationId } = parseInvitationToken(token);
+  const invitation = await db.tenantInvitation.findFirst({
+    where: { id: invitationId, tenantId },
+  });
+
+  if (!invitation || !verifyInvitationToken(token, invitation)) {
+    throw new InvitationTokenError();
+  }
+
+  return invitation;
+}
+
+function assertRespondable(invitation: TenantInvitation, email: string): void {
+  if (invitation.status !== TenantInvitationStatus.pending) {
+    throw new InvitationStateError(`Invitation has already been ${invitation.status}`);
+  }
+
+  if (isInvitationExpired(invitation)) {
+    throw new InvitationStateError('Invitation has expired');
+  }
+
+  if (normalizeEmail(email) !== invitation.email) {
+    throw new InvitationStateError('Invitation was sent to a different email address');
+  }
+}
+
+export interface RespondToInvitationParams {
+  token: string;
+  /** The signed-in user responding */
+  user: Pick<User, 'id' | 'email'>;
+}
+
+/**
+ * Adds the user to the tenant with the invited role. Existing members keep
+ * their current role.
+ */
+export async function acceptInvitation(
+  db: PrismaClient,
+  params: RespondToInvitationParams
+): Promise<{ invitation: TenantInvitation; membership: TenantMember }> {
+  const invitation = await findInvitationByToken(db, params.token);
+  assertRespondable(invitation, params.user.email);
+
+  return db.$transaction(async (tx) => {
+    const claimed = await tx.tenantInvitation.updateMany({
+      where: { id: invitation.id, status: TenantInvitationStatus.pending },
+      data: {
+        status: TenantInvitationStatus.accepted,
+        acceptedBy: params.user.id,
+        respondedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new InvitationStateError('Invitation is no longer pending');
+    }
+
+    const membership = await tx.tenantMember.upsert({
+      where: { tenantId_userId: { tenantId: invitation.tenantId, userId: params.user.id } },
+      update: {},
+      create: { tenantId: invitation.tenantId, userId: params.user.id, role: invitation.role },
+    });
+
+    const accepted = await tx.tenantInvitation.findUniqueOrThrow({ where: { id: invitation.id } });
+
+    apiLogger.info('Tenant invitation accepted', {
+      tenantId: invitation.tenantId,
+      invitationId: invitation.id,
+      userId: params.user.id,
+      role: membership.role,
+    });
+
+    return { invitation: accepted, membership };
+  });
+}
+
+export async function declineInvitation(
+  db: PrismaClient,
+  params: RespondToInvitationParams
+): Promise<TenantInvitation> {
+  const invitation = await findInvitationByToken(db, params.token);
+  assertRespondable(invitation, params.user.email);
+
+  return db.tenantInvitation.update({
+    where: { id: invitation.id },
+    data: { status: TenantInvitationStatus.declined, respondedAt: new Date() },
+  });
+}
+
+/**
+ * Locks the tenant's owner rows for the rest of the transaction, so
+ * concurrent demotions and removals queue up instead of both passing the
+ * last-owner check. Rows demoted meanwhile drop out once the lock is granted.
+ */
+async function lockOwners(
+  tx: Pick<PrismaClient, '$queryRaw'>,
+  tenantId: string
+): Promise<Set<string>> {
+  const owners = await tx.$queryRaw<Array<{ id: string }>>`
+    SELECT "id" FROM "tenant_members"
+    WHERE "tenantId" = ${tenantId} AND "role" = ${TenantMemberRole.owner}::"TenantMemberRole"
+    FOR UPDATE
+  `;
+
+  return new Set(owners.map(({ id }) => id));
+}
+
+function assertOwnerRemains(member: TenantMember, owners: Set<string>): void {
+  if (owners.has(member.id) && owners.size <= 1) {
+    throw new LastOwnerError();
+  }
+}
+
+export async function changeMemberRole(
+  db: PrismaClient,
+  params: { tenantId: string; memberId: string; role: TenantMemberRole }
+): Promise<MemberWithUser> {
+  return db.$transaction(async (tx) => {
+    const owners = await lockOwners(tx, params.tenantId);
+    const member = await tx.tenantMember.findFirst({
+      where: { id: params.memberId, tenantId: params.tenantId },
+    });
+
+    if (!member) {
+      throw new MemberNotFoundError();
+    }
+
+    if (params.role !== TenantMemberRole.owner) {
+      assertOwnerRemains(member, owners);
+    }
+
+    return tx.tenantMember.update({
+      where: { id: member.id },
+      data: { role: params.role },
+      include: { user: { select: { id: true, email: true, name: true } } },
+    });
+  });
+}
+
+export async function removeMember(
+  db: PrismaClient,
+  params: { tenantId: string; memberId: string }
+): Promise<TenantMember> {
+  return db.$transaction(async (tx) => {
+    const owners = await lockOwners(tx, params.tenantId);
+    const member = await tx.tenantMember.findFirst({
+      where: { id: params.memberId, tenantId: params.tenantId },
+    });
+
+    if (!member) {
+      throw new MemberNotFoundError();
+    }
+
+    assertOwnerRemains(member, owners);
+
+    return tx.tenantMember.delete({ where: { id: member.id } });
+  });
+}
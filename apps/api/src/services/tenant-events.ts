@@ -0,0 +1,205 @@
+import { randomUUID } from 'node:crypto';
+import IORedis from 'ioredis';
+import type { ActionApproval, Task } from '@ocsuite/db';
+import type { TenantEvent, TenantEventPayloads, TenantEventType } from '@ocsuite/types';
+import { config } from '../config/index.js';
+import { createContextLogger } from '../utils/logger.js';
+
+/**
+ * Live tenant events, fanned out over Redis pub/sub so every API instance
+ * can push them to the clients connected to `GET /events`.
+ */
+
+const eventsLogger = createContextLogger('tenant-events');
+
+const CHANNEL_PREFIX = 'tenant-events:';
+
+export type TenantEventListener = (event: TenantEvent) => void;
+
+let publisher: IORedis | null = null;
+let subscriber: IORedis | null = null;
+interface ChannelSubscription {
+  listeners: Set<TenantEventListener>;
+  /** Settles once Redis confirms the subscription. */
+  ready: Promise<unknown>;
+}
+
+const channels = new Map<string, ChannelSubscription>();
+
+/**
+ * Connections are opened on first use so modules that publish can be
+ * imported without Redis.
+ */
+function createConnection(role: 'publisher' | 'subscriber'): IORedis {
+  const connection = new IORedis(config.redisUrl, {
+    // A publish should fail fast while Redis is down rather than queue up
+    maxRetriesPerRequest: role === 'publisher' ? 1 : null,
+    retryStrategy: (times: number) => Math.min(times * 50, 2000),
+  });
+
+  connection.on('error', (error) => {
+    eventsLogger.error('Tenant event connection error', { role, error: error.message });
+  });
+
+  return connection;
+}
+
+export function tenantEventChannel(tenantId: string): string {
+  return `${CHANNEL_PREFIX}${tenantId}`;
+}
+
+export function buildTenantEvent<T extends TenantEventType>(
+  tenantId: string,
+  type: T,
+  data: TenantEventPayloads[T],
+  options: { userId?: string } = {}
+): TenantEvent<T> {
+  return {
+    id: randomUUID(),
+    type,
+    tenantId,
+    ...(options.userId ? { userId: options.userId } : {}),
+    occurredAt: new Date().toISOString(),
+    data,
+  } as TenantEvent<T>;
+}
+
+/**
+ * Fire-and-forget: live updates are best effort and must never fail the
+ * write that produced them.
+ */
+export function publishTenantEvent<T extends TenantEventType>(
+  tenantId: string,
+  type: T,
+  data: TenantEventPayloads[T],
+  options: { userId?: string } = {}
+): void {
+  const event = buildTenantEvent(tenantId, type, data, options);
+
+  try {
+    (publisher ??= createConnection('publisher'))
+      .publish(tenantEventChannel(tenantId), JSON.stringify(event))
+      .catch((error: unknown) => {
+        eventsLogger.warn('Failed to publish tenant event', {
+          tenantId,
+          type,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+  } catch (error) {
+    eventsLogger.warn('Failed to publish tenant event', {
+      tenantId,
+      type,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export function publishTaskUpdate(task: Pick<Task, 'id' | 'tenantId' | 'type' | 'status' | 'error'>): void {
+  publishTenantEvent(task.tenantId, 'task.updated', {
+    taskId: task.id,
+    type: task.type,
+    status: task.status,
+    error: task.error,
+  });
+}
+
+export function publishApprovalUpdate(approval: Pick<ActionApproval, 'id' | 'tenantId' | 'status' | 'alertId'>): void {
+  publishTenantEvent(approval.tenantId, 'approval.updated', {
+    approvalId: approval.id,
+    status: approval.status,
+    alertId: approval.alertId,
+  });
+}
+
+/**
+ * Whether a listener acting as `userId` should see the event. Events without
+ * a user are tenant-wide.
+ */
+export function isEventVisibleTo(event: TenantEvent, userId: string): boolean {
+  return !event.userId || event.userId === userId;
+}
+
+function dispatch(channel: string, message: string): void {
+  const channelListeners = channels.get(channel)?.listeners;
+  if (!channelListeners?.size) {
+    return;
+  }
+
+  let event: TenantEvent;
+  try {
+    event = JSON.parse(message) as TenantEvent;
+  } catch {
+    eventsLogger.warn('Dropped malformed tenant event', { channel });
+    return;
+  }
+
+  for (const listener of channelListeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      eventsLogger.error('Tenant event listener failed', {
+        channel,
+        type: event.type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+// One subscriber connection per process, shared by every open stream
+function getSubscriber(): IORedis {
+  if (!subscriber) {
+    subscriber = createConnection('subscriber');
+    subscriber.on('message', dispatch);
+  }
+
+  return subscriber;
+}
+
+/**
+ * Registers a listener for the tenant's events. Resolves with an unsubscribe
+ * function once the Redis subscription is active.
+ */
+export async function subscribeToTenantEvents(
+  tenantId: string,
+  listener: TenantEventListener
+): Promise<() => Promise<void>> {
+  const channel = tenantEventChannel(tenantId);
+  let subscription = channels.get(channel);
+
+  if (!subscription) {
+    subscription = { listeners: new Set(), ready: getSubscriber().subscribe(channel) };
+    channels.set(channel, subscription);
+  }
+  subscription.listeners.add(listener);
+
+  try {
+    await subscription.ready;
+  } catch (error) {
+    // Forget the failed subscription so the next caller tries again
+    subscription.listeners.delete(listener);
+    if (channels.get(channel) === subscription) {
+      channels.delete(channel);
+    }
+    throw error;
+  }
+
+  return async () => {
+    const current = channels.get(channel);
+    if (!current?.listeners.delete(listener) || current.listeners.size > 0) {
+      return;
+    }
+
+    channels.delete(channel);
+    await subscriber?.unsubscribe(channel);
+  };
+}
+
+export async function closeTenantEvents(): Promise<void> {
+  channels.clear();
+  const connections = [publisher, subscriber].filter((connection): connection is IORedis => connection !== null);
+  publisher = null;
+  subscriber = null;
+  await Promise.all(connections.map((connection) => connection.quit()));
+}
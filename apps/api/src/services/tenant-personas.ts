@@ -0,0 +1,287 @@
+import { z } from 'zod';
+import type { PrismaClient, TenantPersona as DbTenantPersona } from '@ocsuite/db';
+import { PERSONAS, getPersonaById, type PersonaDefinition } from '@ocsuite/module-sdk';
+import type { TenantPersona } from '@ocsuite/types';
+import { PERSONA_CONTEXT_SECTIONS } from './persona-prompts.js';
+
+/**
+ * Per-tenant board personas.
+ *
+ * Every tenant starts with the CEO, CFO and CMO seats. The remaining built-in
+ * personas (CTO, COO, CHRO, General Counsel) join the board and chat once a
+ * tenant enables them, and tenants can add custom personas with their own
+ * tone, expertise, context and token budget. Built-in rows only store the
+ * enabled flag; the definition always comes from the module SDK.
+ */
+
+export const DEFAULT_SEAT_IDS: readonly string[] = ['ceo', 'cfo', 'cmo'];
+
+// The chair: agenda sections with unknown personas fall back to it
+export const CHAIR_PERSONA_ID = 'ceo';
+
+export const MAX_CUSTOM_PERSONAS = 10;
+
+const CUSTOM_PERSONA_STREAM_CHUNK_SIZE = 100;
+const DEFAULT_CUSTOM_PERSONA_MAX_TOKENS = 400;
+
+export const PERSONA_ID_PATTERN = /^[a-z][a-z0-9-]{1,39}$/;
+
+export const personaIdSchema = z
+  .string()
+  .trim()
+  .regex(PERSONA_ID_PATTERN, 'Persona id must be a lowercase slug (letters, digits, dashes)');
+
+const customPersonaFields = {
+  name: z.string().trim().min(1).max(60),
+  tone: z.string().trim().min(1).max(200),
+  focus: z.string().trim().min(1).max(500),
+  expertise: z.array(z.string().trim().min(1).max(60)).min(1).max(8),
+  requiredContext: z.array(z.enum(PERSONA_CONTEXT_SECTIONS)).min(1),
+  maxTokens: z.number().int().min(100).max(1000),
+};
+
+export const createCustomPersonaSchema = z.object({
+  id: personaIdSchema,
+  ...customPersonaFields,
+  enabled: z.boolean().optional(),
+});
+
+export const updatePersonaSchema = z
+  .object({
+    ...customPersonaFields,
+    enabled: z.boolean(),
+  })
+  .partial()
+  .refine((value) => Object.keys(value).length > 0, { message: 'Provide at least one field to update' });
+
+export type CreateCustomPersonaInput = z.infer<typeof createCustomPersonaSchema>;
+export type UpdatePersonaInput = z.infer<typeof updatePersonaSchema>;
+
+export class TenantPersonaNotFoundError extends Error {
+  constructor(message = 'Persona not found') {
+    super(message);
+    this.name = 'TenantPersonaNotFoundError';
+  }
+}
+
+export class TenantPersonaConflictError extends Error {
+  constructor(message = 'Persona already exists') {
+    super(message);
+    this.name = 'TenantPersonaConflictError';
+  }
+}
+
+export class TenantPersonaStateError extends Error {
+  constructor(message = 'Persona cannot be changed this way') {
+    super(message);
+    this.name = 'TenantPersonaStateError';
+  }
+}
+
+function builtInToTenantPersona(definition: PersonaDefinition, row?: DbTenantPersona): TenantPersona {
+  const defaultSeat = DEFAULT_SEAT_IDS.includes(definition.id);
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    tone: definition.tone,
+    focus: definition.focus,
+    expertise: definition.expertise,
+    requiredContext: definition.requiredContext,
+    maxTokens: definition.maxTokens,
+    custom: false,
+    enabled: row ? row.enabled : defaultSeat,
+    defaultSeat,
+    updatedAt: row ? row.updatedAt.toISOString() : null,
+  };
+}
+
+function customToTenantPersona(row: DbTenantPersona): TenantPersona {
+  return {
+    id: row.personaId,
+    name: row.name ?? row.personaId,
+    tone: row.tone ?? '',
+    focus: row.focus ?? '',
+    expertise: row.expertise,
+    requiredContext: row.requiredContext,
+    maxTokens: row.maxTokens ?? DEFAULT_CUSTOM_PERSONA_MAX_TOKENS,
+    custom: true,
+    enabled: row.enabled,
+    defaultSeat: false,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Shapes a tenant persona the way the prompt builders expect persona
+ * definitions.
+ */
+export function toPersonaDefinition(persona: TenantPersona): PersonaDefinition {
+  const builtIn = persona.custom ? undefined : getPersonaById(persona.id);
+  if (builtIn) {
+    return builtIn;
+  }
+
+  return {
+    id: persona.id,
+    name: persona.name,
+    tone: persona.tone,
+    focus: persona.focus,
+    expertise: persona.expertise,
+    requiredContext: persona.requiredContext,
+    maxTokens: persona.maxTokens,
+    streamChunkSize: CUSTOM_PERSONA_STREAM_CHUNK_SIZE,
+  };
+}
+
+/**
+ * All personas available to the tenant, built-in ones first, with their
+ * enabled state.
+ */
+export async function listTenantPersonas(db: PrismaClient, tenantId: string): Promise<TenantPersona[]> {
+  const rows = await db.tenantPersona.findMany({
+    where: { tenantId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const builtIn = PERSONAS.map((definition) =>
+    builtInToTenantPersona(
+      definition,
+      rows.find((row) => !row.custom && row.personaId === definition.id)
+    )
+  );
+  const custom = rows.filter((row) => row.custom).map(customToTenantPersona);
+
+  return [...builtIn, ...custom];
+}
+
+/**
+ * Personas with a seat at the tenant's board, in agenda order.
+ */
+export async function listBoardSeats(db: PrismaClient, tenantId: string): Promise<PersonaDefinition[]> {
+  const personas = await listTenantPersonas(db, tenantId);
+  return personas.filter((persona) => persona.enabled).map(toPersonaDefinition);
+}
+
+/**
+ * Resolves an enabled persona for the tenant.
+ *
+ * @returns null when the persona does not exist or is disabled
+ */
+export async function resolveTenantPersona(
+  db: PrismaClient,
+  tenantId: string,
+  personaId: string
+): Promise<PersonaDefinition | null> {
+  const seats = await listBoardSeats(db, tenantId);
+  return seats.find((persona) => persona.id === personaId) ?? null;
+}
+
+export async function createCustomPersona(
+  db: PrismaClient,
+  params: { tenantId: string; userId: string; input: CreateCustomPersonaInput }
+): Promise<TenantPersona> {
+  const { tenantId, userId, input } = params;
+
+  if (getPersonaById(input.id)) {
+    throw new TenantPersonaConflictError(`${input.id} is a built-in persona`);
+  }
+
+  const [existing, customCount] = await Promise.all([
+    db.tenantPersona.findUnique({
+      where: { tenantId_personaId: { tenantId, personaId: input.id } },
+    }),
+    db.tenantPersona.count({ where: { tenantId, custom: true } }),
+  ]);
+
+  if (existing) {
+    throw new TenantPersonaConflictError(`Persona ${input.id} already exists`);
+  }
+
+  if (customCount >= MAX_CUSTOM_PERSONAS) {
+    throw new TenantPersonaStateError(`A tenant can define at most ${MAX_CUSTOM_PERSONAS} custom personas`);
+  }
+
+  const row = await db.tenantPersona.create({
+    data: {
+      tenantId,
+      personaId: input.id,
+      custom: true,
+      enabled: input.enabled ?? true,
+      name: input.name,
+      tone: input.tone,
+      focus: input.focus,
+      expertise: input.expertise,
+      requiredContext: input.requiredContext,
+      maxTokens: input.maxTokens,
+      createdBy: userId,
+    },
+  });
+
+  return customToTenantPersona(row);
+}
+
+/**
+ * Built-in personas only accept `enabled`; custom personas accept any field.
+ */
+export async function updateTenantPersona(
+  db: PrismaClient,
+  params: { tenantId: string; userId: string; personaId: string; input: UpdatePersonaInput }
+): Promise<TenantPersona> {
+  const { tenantId, userId, personaId, input } = params;
+  const builtIn = getPersonaById(personaId);
+
+  if (builtIn) {
+    const { enabled, ...definitionFields } = input;
+    if (Object.keys(definitionFields).length > 0 || enabled === undefined) {
+      throw new TenantPersonaStateError('Built-in personas can only be enabled or disabled');
+    }
+    if (personaId === CHAIR_PERSONA_ID && !enabled) {
+      throw new TenantPersonaStateError('The CEO chairs every board meeting and cannot be disabled');
+    }
+
+    const row = await db.tenantPersona.upsert({
+      where: { tenantId_personaId: { tenantId, personaId } },
+      create: { tenantId, personaId, custom: false, enabled, createdBy: userId },
+      update: { enabled },
+    });
+
+    return builtInToTenantPersona(builtIn, row);
+  }
+
+  const existing = await db.tenantPersona.findUnique({
+    where: { tenantId_personaId: { tenantId, personaId } },
+  });
+
+  if (!existing || !existing.custom) {
+    throw new TenantPersonaNotFoundError();
+  }
+
+  const row = await db.tenantPersona.update({
+    where: { id: existing.id },
+    data: input,
+  });
+
+  return customToTenantPersona(row);
+}
+
+export async function deleteCustomPersona(
+  db: PrismaClient,
+  params: { tenantId: string; personaId: string }
+): Promise<void> {
+  const { tenantId, personaId } = params;
+
+  if (getPersonaById(personaId)) {
+    throw new TenantPersonaStateError('Built-in personas can be disabled but not deleted');
+  }
+
+  const existing = await db.tenantPersona.findUnique({
+    where: { tenantId_personaId: { tenantId, personaId } },
+  });
+
+  if (!existing || !existing.custom) {
+    throw new TenantPersonaNotFoundError();
+  }
+
+  await db.tenantPersona.delete({ where: { id: existing.id } });
+}
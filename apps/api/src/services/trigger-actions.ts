@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import type { ActionApproval, Alert, Prisma, PrismaClient, TriggerRule } from '@ocsuite/db';
+import { parseJsonRecord } from '../utils/json.js';
+import { submitActionApproval } from './action-approvals.js';
+
+/**
+ * Action templates let a trigger rule propose a remediation when it fires.
+ *
+ * The template lives in `config_json.action`. String values in `payload` may
+ * reference alert data with `{{alert.payload.observed}}`-style placeholders:
+ * a value that is only a placeholder keeps the referenced value's type, while
+ * placeholders inside longer strings are interpolated as text.
+ */
+
+export const TRIGGER_ACTION_SOURCE = 'automated-trigger';
+export const TRIGGER_ACTION_ACTOR = 'system:trigger-engine';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.]+)\s*\}\}/g;
+const EXACT_PLACEHOLDER_PATTERN = /^\{\{\s*([A-Za-z0-9_.]+)\s*\}\}$/;
+
+export const triggerActionTemplateSchema = z.object({
+  moduleSlug: z.string().trim().min(1).max(120),
+  capability: z.string().trim().min(1).max(120),
+  payload: z.record(z.unknown()).default({}),
+  comment: z.string().trim().max(500).optional(),
+});
+
+export type TriggerActionTemplate = z.infer<typeof triggerActionTemplateSchema>;
+
+export interface TriggerActionContext {
+  alert: {
+    id: string;
+    title: string | null;
+    summary: string | null;
+    severity: string;
+    type: string | null;
+    createdAt: string;
+    payload: Record<string, unknown>;
+  };
+  rule: {
+    id: string;
+    name: string;
+    type: string;
+  };
+}
+
+export function parseRuleAction(config: Prisma.JsonValue | null | undefined): TriggerActionTemplate | null {
+  const parsed = triggerActionTemplateSchema.safeParse(parseJsonRecord(config ?? {}).action);
+  return parsed.success ? parsed.data : null;
+}
+
+export function buildActionContext(rule: TriggerRule, alert: Alert): TriggerActionContext {
+  return {
+    alert: {
+      id: alert.id,
+      title: alert.title,
+      summary: alert.summary,
+      severity: alert.severity,
+      type: alert.type,
+      createdAt: alert.createdAt.toISOString(),
+      payload: parseJsonRecord(alert.payload),
+    },
+    rule: {
+      id: rule.id,
+      name: rule.name,
+      type: rule.type,
+    },
+  };
+}
+
+function resolvePath(context: TriggerActionContext, path: string): unknown {
+  let current: unknown = context;
+
+  for (const segment of path.split('.')) {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function renderValue(value: unknown, context: TriggerActionContext): unknown {
+  if (typeof value === 'string') {
+    const exact = value.match(EXACT_PLACEHOLDER_PATTERN);
+    if (exact) {
+      return resolvePath(context, exact[1]!) ?? null;
+    }
+    return value.replace(PLACEHOLDER_PATTERN, (_, path: string) => stringifyValue(resolvePath(context, path)));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry) => renderValue(entry, context));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, renderValue(entry, context)])
+    );
+  }
+
+  return value;
+}
+
+export function renderActionPayload(
+  template: TriggerActionTemplate,
+  context: TriggerActionContext
+): Record<string, unknown> {
+  return {
+    ...(renderValue(template.payload, context) as Record<string, unknown>),
+    moduleSlug: template.moduleSlug,
+    capability: template.capability,
+  };
+}
+
+/**
+ * Submits the rule's action template for approval, linked to the alert.
+ * Returns null when the rule has no template.
+ */
+export async function proposeAlertAction(
+  db: PrismaClient | Prisma.TransactionClient,
+  rule: TriggerRule,
+  alert: Alert
+): Promise<ActionApproval | null> {
+  const template = parseRuleAction(rule.config);
+  if (!template) {
+    return null;
+  }
+
+  const context = buildActionContext(rule, alert);
+  const { approval } = await submitActionApproval(db, {
+    tenantId: rule.tenantId,
+    userId: TRIGGER_ACTION_ACTOR,
+    source: TRIGGER_ACTION_SOURCE,
+    payload: renderActionPayload(template, context),
+    alertId: alert.id,
+    comment: template.comment
+      ? stringifyValue(renderValue(template.comment, context))
+      : `Proposed by trigger rule "${rule.name}" after alert "${alert.title ?? rule.name}"`,
+  });
+
+  return approval;
+}
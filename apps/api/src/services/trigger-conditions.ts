@@ -0,0 +1,449 @@
+import { z } from 'zod';
+import type { Prisma, TriggerRule } from '@ocsuite/db';
+import { parseJsonRecord } from '../utils/json.js';
+
+/**
+ * Declarative conditions for `condition` trigger rules.
+ *
+ * Metrics come from AnalyticsSnapshot: `analytics.<column>` for the headline
+ * columns, `connectors.<provider>.<metric>` for connector metrics stored in
+ * `metadata.connectors`.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const MAX_CONDITION_DEPTH = 4;
+export const MAX_CONDITION_NODES = 20;
+export const MAX_CONDITION_WINDOW_DAYS = 90;
+export const DEFAULT_PREVIEW_DAYS = 30;
+
+const ANALYTICS_COLUMNS = ['sessions', 'users', 'conversions', 'revenue'] as const;
+type AnalyticsColumn = (typeof ANALYTICS_COLUMNS)[number];
+
+const metricSchema = z
+  .string()
+  .trim()
+  .regex(
+    new RegExp(`^(analytics\\.(${ANALYTICS_COLUMNS.join('|')})|connectors\\.[a-z_]+\\.[A-Za-z_]+)$`),
+    'Metric must be analytics.<sessions|users|conversions|revenue> or connectors.<provider>.<metric>'
+  );
+
+const operatorSchema = z.enum(['gt', 'gte', 'lt', 'lte', 'eq', 'neq']);
+export type ComparisonOperator = z.infer<typeof operatorSchema>;
+
+export type TriggerCondition =
+  | { type: 'all'; conditions: TriggerCondition[] }
+  | { type: 'any'; conditions: TriggerCondition[] }
+  | { type: 'compare'; metric: string; operator: ComparisonOperator; value: number }
+  | { type: 'change'; metric: string; operator: ComparisonOperator; percent: number; windowDays: number }
+  | { type: 'no_data'; hours: number; metric?: string };
+
+export const triggerConditionSchema: z.ZodType<TriggerCondition> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('all'),
+      conditions: z.array(triggerConditionSchema).min(1).max(10),
+    }),
+    z.object({
+      type: z.literal('any'),
+      conditions: z.array(triggerConditionSchema).min(1).max(10),
+    }),
+    z.object({
+      type: z.literal('compare'),
+      metric: metricSchema,
+      operator: operatorSchema,
+      value: z.number().finite(),
+    }),
+    z.object({
+      type: z.literal('change'),
+      metric: metricSchema,
+      operator: operatorSchema,
+      // Signed: -20 with `lte` means "dropped by 20% or more"
+      percent: z.number().finite(),
+      windowDays: z.number().int().min(1).max(MAX_CONDITION_WINDOW_DAYS),
+    }),
+    z.object({
+      type: z.literal('no_data'),
+      hours: z.number().int().min(1).max(MAX_CONDITION_WINDOW_DAYS * 24),
+      metric: metricSchema.optional(),
+    }),
+  ])
+);
+
+function measure(condition: TriggerCondition, depth = 1): { depth: number; nodes: number } {
+  if (condition.type !== 'all' && condition.type !== 'any') {
+    return { depth, nodes: 1 };
+  }
+
+  return condition.conditions.reduce(
+    (acc, child) => {
+      const result = measure(child, depth + 1);
+      return { depth: Math.max(acc.depth, result.depth), nodes: acc.nodes + result.nodes };
+    },
+    { depth, nodes: 1 }
+  );
+}
+
+/**
+ * Condition schema with the nesting and size limits applied.
+ */
+export const conditionRuleSchema = triggerConditionSchema.superRefine((condition, ctx) => {
+  const { depth, nodes } = measure(condition);
+  if (depth > MAX_CONDITION_DEPTH) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Conditions may nest at most ${MAX_CONDITION_DEPTH} levels deep`,
+    });
+  }
+  if (nodes > MAX_CONDITION_NODES) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Conditions may contain at most ${MAX_CONDITION_NODES} clauses`,
+    });
+  }
+});
+
+export interface MetricPoint {
+  /** UTC midnight of the snapshot day. */
+  date: Date;
+  value: number;
+  /** Last write for the day, capped at the end of that day. */
+  recordedAt: Date;
+}
+
+export interface ConditionHistory {
+  series(metric: string): MetricPoint[];
+  /** Every snapshot, newest last, regardless of metric. */
+  snapshots: Array<{ date: Date; recordedAt: Date }>;
+}
+
+/**
+ * Explains why a clause matched or not; surfaced in alert payloads and
+ * previews.
+ */
+export interface ConditionTrace {
+  type: TriggerCondition['type'];
+  matched: boolean;
+  metric?: string;
+  observed?: number | null;
+  baseline?: number | null;
+  expected?: string;
+  children?: ConditionTrace[];
+}
+
+type SnapshotRow = {
+  date: Date;
+  updatedAt: Date;
+  sessions: number;
+  users: number;
+  conversions: number;
+  revenue: number;
+  metadata: Prisma.JsonValue | null;
+};
+
+type HistoryClient = Pick<Prisma.TransactionClient, 'analyticsSnapshot'>;
+
+function readMetric(row: SnapshotRow, metric: string): number | null {
+  const [category, first, second] = metric.split('.');
+
+  if (category === 'analytics' && first) {
+    return ANALYTICS_COLUMNS.includes(first as AnalyticsColumn) ? row[first as AnalyticsColumn] : null;
+  }
+
+  if (category === 'connectors' && first && second) {
+    const connectors = parseJsonRecord(parseJsonRecord(row.metadata).connectors as Prisma.JsonValue);
+    const value = parseJsonRecord(connectors[first] as Prisma.JsonValue)[second];
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  }
+
+  return null;
+}
+
+export function collectConditionMetrics(condition: TriggerCondition, into = new Set<string>()): Set<string> {
+  if (condition.type === 'all' || condition.type === 'any') {
+    condition.conditions.forEach((child) => collectConditionMetrics(child, into));
+  } else if (condition.metric) {
+    into.add(condition.metric);
+  }
+  return into;
+}
+
+/**
+ * Longest look-back the condition needs, in days.
+ */
+export function conditionLookbackDays(condition: TriggerCondition): number {
+  switch (condition.type) {
+    case 'all':
+    case 'any':
+      return Math.max(1, ...condition.conditions.map(conditionLookbackDays));
+    case 'change':
+      return condition.windowDays + 1;
+    case 'no_data':
+      return Math.ceil(condition.hours / 24) + 1;
+    default:
+      return 1;
+  }
+}
+
+export function buildConditionHistory(rows: SnapshotRow[], metrics: Iterable<string>): ConditionHistory {
+  const sorted = [...rows].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const snapshots = sorted.map((row) => ({
+    date: row.date,
+    recordedAt: new Date(Math.min(row.updatedAt.getTime(), row.date.getTime() + DAY_MS - 1)),
+  }));
+
+  const seriesByMetric = new Map<string, MetricPoint[]>();
+  for (const metric of metrics) {
+    const points: MetricPoint[] = [];
+    sorted.forEach((row, index) => {
+      const value = readMetric(row, metric);
+      if (value !== null) {
+        points.push({ date: row.date, value, recordedAt: snapshots[index]!.recordedAt });
+      }
+    });
+    seriesByMetric.set(metric, points);
+  }
+
+  return {
+    snapshots,
+    series: (metric) => seriesByMetric.get(metric) ?? [],
+  };
+}
+
+export async function loadConditionHistory(
+  db: HistoryClient,
+  tenantId: string,
+  condition: TriggerCondition,
+  range: { from: Date; to: Date }
+): Promise<ConditionHistory> {
+  const rows = await db.analyticsSnapshot.findMany({
+    where: { tenantId, date: { gte: range.from, lte: range.to } },
+    orderBy: { date: 'asc' },
+    select: {
+      date: true,
+      updatedAt: true,
+      sessions: true,
+      users: true,
+      conversions: true,
+      revenue: true,
+      metadata: true,
+    },
+  });
+
+  return buildConditionHistory(rows, collectConditionMetrics(condition));
+}
+
+function compare(observed: number, operator: ComparisonOperator, expected: number): boolean {
+  switch (operator) {
+    case 'gt':
+      return observed > expected;
+    case 'gte':
+      return observed >= expected;
+    case 'lt':
+      return observed < expected;
+    case 'lte':
+      return observed <= expected;
+    case 'eq':
+      return observed === expected;
+    case 'neq':
+      return observed !== expected;
+  }
+}
+
+const OPERATOR_SYMBOLS: Record<ComparisonOperator, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  eq: '=',
+  neq: '!=',
+};
+
+function pointsAsOf(points: MetricPoint[], asOf: Date): MetricPoint[] {
+  return points.filter((point) => point.date.getTime() <= asOf.getTime());
+}
+
+/**
+ * Evaluates the condition as of `asOf` using only data recorded by then.
+ * Comparisons read the latest day; `change` compares the latest day with the
+ * average of the preceding `windowDays` days. Missing data never matches a
+ * comparison; use `no_data` to alert on it.
+ */
+export function evaluateCondition(
+  condition: TriggerCondition,
+  history: ConditionHistory,
+  asOf: Date
+): ConditionTrace {
+  switch (condition.type) {
+    case 'all':
+    case 'any': {
+      const children = condition.conditions.map((child) => evaluateCondition(child, history, asOf));
+      const matched =
+        condition.type === 'all'
+          ? children.every((child) => child.matched)
+          : children.some((child) => child.matched);
+      return { type: condition.type, matched, children };
+    }
+    case 'compare': {
+      const latest = pointsAsOf(history.series(condition.metric), asOf).at(-1);
+      const observed = latest?.value ?? null;
+      return {
+        type: 'compare',
+        metric: condition.metric,
+        observed,
+        expected: `${OPERATOR_SYMBOLS[condition.operator]} ${condition.value}`,
+        matched: observed !== null && compare(observed, condition.operator, condition.value),
+      };
+    }
+    case 'change': {
+      const points = pointsAsOf(history.series(condition.metric), asOf);
+      const latest = points.at(-1);
+      const windowStart = latest ? latest.date.getTime() - condition.windowDays * DAY_MS : 0;
+      const window = latest
+        ? points.filter((point) => point.date.getTime() >= windowStart && point.date.getTime() < latest.date.getTime())
+        : [];
+      const baseline = window.length
+        ? window.reduce((sum, point) => sum + point.value, 0) / window.length
+        : null;
+
+      let observed: number | null = null;
+      if (latest && baseline !== null && baseline !== 0) {
+        observed = Math.round(((latest.value - baseline) / Math.abs(baseline)) * 10000) / 100;
+      }
+
+      return {
+        type: 'change',
+        metric: condition.metric,
+        observed,
+        baseline,
+        expected: `${OPERATOR_SYMBOLS[condition.operator]} ${condition.percent}% over ${condition.windowDays}d`,
+        matched: observed !== null && compare(observed, condition.operator, condition.percent),
+      };
+    }
+    case 'no_data': {
+      const candidates = condition.metric ? history.series(condition.metric) : history.snapshots;
+      const lastRecorded = candidates
+        .filter((point) => point.recordedAt.getTime() <= asOf.getTime())
+        .reduce<Date | null>(
+          (latest, point) => (!latest || point.recordedAt > latest ? point.recordedAt : latest),
+          null
+        );
+      const hoursSince = lastRecorded
+        ? Math.floor((asOf.getTime() - lastRecorded.getTime()) / HOUR_MS)
+        : null;
+
+      return {
+        type: 'no_data',
+        metric: condition.metric,
+        observed: hoursSince,
+        expected: `no data for ${condition.hours}h`,
+        matched: hoursSince === null || hoursSince >= condition.hours,
+      };
+    }
+  }
+}
+
+/**
+ * One-line explanation of the matched leaf clauses, for alert summaries.
+ */
+export function describeConditionTrace(trace: ConditionTrace): string {
+  if (trace.children) {
+    const parts = trace.children.filter((child) => child.matched).map(describeConditionTrace);
+    return parts.join(trace.type === 'all' ? ' and ' : '; ');
+  }
+
+  const subject = trace.metric ?? 'analytics';
+  if (trace.type === 'no_data') {
+    return trace.observed === null || trace.observed === undefined
+      ? `${subject} has no data`
+      : `${subject} has had no data for ${trace.observed}h`;
+  }
+  if (trace.type === 'change') {
+    return `${subject} changed ${trace.observed}% (${trace.expected})`;
+  }
+  return `${subject} is ${trace.observed} (${trace.expected})`;
+}
+
+/**
+ * Parses the condition stored in a rule's `config_json`, or null when the
+ * config is missing or invalid.
+ */
+export function parseRuleCondition(config: Prisma.JsonValue | null | undefined): TriggerCondition | null {
+  const parsed = conditionRuleSchema.safeParse(parseJsonRecord(config ?? {}).condition);
+  return parsed.success ? parsed.data : null;
+}
+
+export interface ConditionPreviewPoint {
+  asOf: string;
+  matched: boolean;
+  trace: ConditionTrace;
+}
+
+export interface ConditionPreview {
+  days: number;
+  evaluations: ConditionPreviewPoint[];
+  matches: number;
+  firstMatchAt: string | null;
+  lastMatchAt: string | null;
+}
+
+/**
+ * Dry-runs the condition once per day over the last `days` days, as the
+ * trigger runner would have seen the data at the end of each day.
+ */
+export async function previewCondition(
+  db: HistoryClient,
+  tenantId: string,
+  condition: TriggerCondition,
+  options: { days: number; now: Date }
+): Promise<ConditionPreview> {
+  const today = new Date(options.now);
+  today.setUTCHours(0, 0, 0, 0);
+
+  const from = new Date(today.getTime() - (options.days + conditionLookbackDays(condition)) * DAY_MS);
+  const history = await loadConditionHistory(db, tenantId, condition, { from, to: options.now });
+
+  const evaluations: ConditionPreviewPoint[] = [];
+  for (let offset = options.days - 1; offset >= 0; offset -= 1) {
+    const asOf =
+      offset === 0 ? options.now : new Date(today.getTime() - offset * DAY_MS + DAY_MS - 1);
+    const trace = evaluateCondition(condition, history, asOf);
+    evaluations.push({ asOf: asOf.toISOString(), matched: trace.matched, trace });
+  }
+
+  const matched = evaluations.filter((evaluation) => evaluation.matched);
+
+  return {
+    days: options.days,
+    evaluations,
+    matches: matched.length,
+    firstMatchAt: matched[0]?.asOf ?? null,
+    lastMatchAt: matched.at(-1)?.asOf ?? null,
+  };
+}
+
+/**
+ * Condition equivalent of a stored rule, for previews. Metric threshold rules
+ * on analytics metrics map to a `gte` comparison; other rule types have no
+ * equivalent and return null.
+ */
+export function conditionForRule(
+  rule: Pick<TriggerRule, 'type' | 'config' | 'metric' | 'threshold'>
+): TriggerCondition | null {
+  if (rule.type === 'condition') {
+    return parseRuleCondition(rule.config);
+  }
+
+  if (rule.type === 'metric_threshold' && rule.metric && rule.threshold !== null) {
+    const parsed = conditionRuleSchema.safeParse({
+      type: 'compare',
+      metric: rule.metric,
+      operator: 'gte',
+      value: rule.threshold,
+    });
+    return parsed.success ? parsed.data : null;
+  }
+
+  return null;
+}
@@ -1,6 +1,7 @@
 import CronExpressionParser from 'cron-parser';
 import type {
   Prisma,
+  PrismaClient,
   TriggerRule,
   Alert,
   UsageSnapshot,
@@ -9,14 +10,31 @@ import type {
 import { TriggerSeverity } from '@ocsuite/db';
 import { toInputJson, parseJsonRecord } from '../utils/json.js';
 import { notifyAlertRaised } from './notifications.js';
+import { proposeAlertAction } from './trigger-actions.js';
+import { publishTenantEvent } from './tenant-events.js';
 import { trackTenantEvent } from '../utils/telemetry.js';
 import { createContextLogger } from '../utils/logger.js';
+import {
+  conditionLookbackDays,
+  describeConditionTrace,
+  evaluateCondition,
+  loadConditionHistory,
+  parseRuleCondition,
+} from './trigger-conditions.js';
 
 export type TenantTransactionClient = Prisma.TransactionClient;
 
+/** An alert raised during evaluation, announced once the evaluation commits. */
+export interface RaisedAlert {
+  rule: TriggerRule;
+  alert: Alert;
+}
+
 interface EvaluationOptions {
   tenantId: string;
   now: Date;
+  /** Collects raised alerts for `followUpRaisedAlerts`. */
+  raised: RaisedAlert[];
 }
 
 interface EvaluationResult {
@@ -51,6 +69,9 @@ export async function evaluateTenantTriggers(
       const evaluation = await evaluateRule(db, rule, options);
       if (evaluation.triggered) {
         triggeredCount += 1;
+        if (evaluation.alert) {
+          options.raised.push({ rule, alert: evaluation.alert });
+        }
         logger.info('Trigger fired', {
           ruleId: rule.id,
           type: rule.type,
@@ -77,6 +98,25 @@ export async function evaluateTenantTriggers(
   return triggeredCount;
 }
 
+/**
+ * Publishes raised alerts and proposes their rules' remediation actions.
+ * Runs after the evaluation transaction commits, on a client outside any
+ * transaction, so a failed proposal cannot roll back the alert and no event
+ * announces a row that was never committed.
+ */
+export async function followUpRaisedAlerts(db: PrismaClient, raised: RaisedAlert[]): Promise<void> {
+  for (const { rule, alert } of raised) {
+    publishTenantEvent(rule.tenantId, 'alert.updated', {
+      alertId: alert.id,
+      ruleId: alert.ruleId,
+      status: alert.status,
+      severity: alert.severity,
+    });
+
+    await proposeRemediation(db, rule, alert);
+  }
+}
+
 async function evaluateRule(
   db: TenantTransactionClient,
   rule: TriggerRule,
@@ -89,6 +129,8 @@ async function evaluateRule(
       return evaluateMetricThresholdRule(db, rule, options);
     case 'anomaly':
       return evaluateAnomalyRule(db, rule, options);
+    case 'condition':
+      return evaluateConditionRule(db, rule, options);
     default:
       return { triggered: false };
   }
@@ -125,7 +167,7 @@ async function evaluateScheduleRule(
     },
   });
 
-  await finalizeAlert(db, rule.tenantId, alert);
+  await finalizeAlert(db, rule, alert);
 
   return { triggered: true, alert };
 }
@@ -166,7 +208,7 @@ async function evaluateMetricThresholdRule(
     },
   });
 
-  await finalizeAlert(db, rule.tenantId, alert);
+  await finalizeAlert(db, rule, alert);
 
   return { triggered: true, alert };
 }
@@ -226,7 +268,51 @@ async function evaluateAnomalyRule(
     },
   });
 
-  await finalizeAlert(db, rule.tenantId, alert);
+  await finalizeAlert(db, rule, alert);
+
+  return { triggered: true, alert };
+}
+
+async function evaluateConditionRule(
+  db: TenantTransactionClient,
+  rule: TriggerRule,
+  options: EvaluationOptions
+): Promise<EvaluationResult> {
+  const condition = parseRuleCondition(rule.config);
+  if (!condition) {
+    return { triggered: false };
+  }
+
+  const from = startOfDay(
+    new Date(options.now.getTime() - conditionLookbackDays(condition) * 24 * 60 * 60 * 1000)
+  );
+  const history = await loadConditionHistory(db, options.tenantId, condition, {
+    from,
+    to: options.now,
+  });
+  const trace = evaluateCondition(condition, history, options.now);
+
+  if (!trace.matched) {
+    return { triggered: false };
+  }
+
+  const hasOpenAlert = await hasPendingAlert(db, rule.id);
+  if (hasOpenAlert) {
+    return { triggered: false };
+  }
+
+  const alert = await createAlert(db, rule, {
+    title: rule.name,
+    summary: `Condition met: ${describeConditionTrace(trace)}`,
+    payload: {
+      condition,
+      trace,
+      ruleId: rule.id,
+      ruleType: rule.type,
+    },
+  });
+
+  await finalizeAlert(db, rule, alert);
 
   return { triggered: true, alert };
 }
@@ -281,9 +367,11 @@ async function createAlert(
 
 async function finalizeAlert(
   db: TenantTransactionClient,
-  tenantId: string,
+  rule: TriggerRule,
   alert: Alert
 ): Promise<void> {
+  const tenantId = rule.tenantId;
+
   await notifyAlertRaised(db, {
       tenantId,
       alert,
@@ -303,6 +391,36 @@ async function finalizeAlert(
   await recordAlertImpact(db, tenantId, alert);
 }
 
+/**
+ * The alert is already committed, so a failed proposal is only logged.
+ */
+async function proposeRemediation(
+  db: PrismaClient,
+  rule: TriggerRule,
+  alert: Alert
+): Promise<void> {
+  const logger = createContextLogger('trigger-engine', {
+    tenantId: rule.tenantId,
+  });
+
+  try {
+    const approval = await proposeAlertAction(db, rule, alert);
+    if (approval) {
+      logger.info('Trigger proposed remediation action', {
+        ruleId: rule.id,
+        alertId: alert.id,
+        approvalId: approval.id,
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to propose remediation action', {
+      ruleId: rule.id,
+      alertId: alert.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 async function recordAlertImpact(
   db: TenantTransactionClient,
   tenantId: string,
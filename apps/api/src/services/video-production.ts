@@ -1,8 +1,25 @@
 import { prisma as db, Prisma } from '@ocsuite/db';
 import type { VideoJob, VideoTranscript } from '@ocsuite/db';
 import {
-  AssemblyAIClient,
-  ShotstackClient,
+  AssemblyAITranscriptionProvider,
+  FfmpegRenderBackend,
+  ShotstackRenderBackend,
+  deriveSentences,
+  deriveViralMoments,
+  exportTranscript,
+  type CaptionStyle,
+  type PlatformSpec,
+  type RenderBackend,
+  type RenderProgress,
+  type SpeakerSegment,
+  type TranscriptExportFormat,
+  type TranscriptSentence,
+  type TranscriptWord,
+  type UpdateTranscriptRequest,
+  type TranscriptionProgress,
+  type TranscriptionProvider,
+  type TranscriptionProviderName,
+  WhisperCppTranscriptionProvider,
   type VideoComposition,
   type ViralMoment,
   PLATFORM_SPECS,
@@ -11,14 +28,36 @@ import {
 import { logger } from '../utils/logger.js';
 import { config } from '../config/index.js';
 import { toInputJson } from '../utils/json.js';
+import { recordUsage } from './quotas.js';
+import { publishTenantEvent } from './tenant-events.js';
 
-type CaptionStyleOptions = {
-  position?: 'top' | 'center' | 'bottom';
-  fontSize?: string;
-  fontFamily?: string;
-  color?: string;
-  backgroundColor?: string;
-  highlightColor?: string;
+export class TranscriptionProviderUnavailableError extends Error {
+  constructor(message = 'Transcription provider is not configured') {
+    super(message);
+    this.name = 'TranscriptionProviderUnavailableError';
+  }
+}
+
+export class TranscriptWordsMissingError extends Error {
+  constructor(message = 'Transcript has no word timings') {
+    super(message);
+    this.name = 'TranscriptWordsMissingError';
+  }
+}
+
+export class TranscriptEditError extends Error {
+  constructor(message = 'Invalid transcript edit') {
+    super(message);
+    this.name = 'TranscriptEditError';
+  }
+}
+
+type CustomPlatformSpec = {
+  aspectRatio: string;
+  width: number;
+  height: number;
+  maxDuration?: number;
+  format: string;
 };
 
 type CaptionWord = { text: string; start: number; end: number };
@@ -81,6 +120,60 @@ function parseCaptionWords(wordsJson: JsonValue | null): CaptionWord[] {
     .filter((entry): entry is CaptionWord => entry !== null);
 }
 
+function parseTranscriptWords(wordsJson: JsonValue | null): TranscriptWord[] {
+  if (!Array.isArray(wordsJson)) {
+    return [];
+  }
+
+  return wordsJson
+    .filter((entry): entry is JsonObject => isJsonObject(entry))
+    .map((entry) => {
+      const { text, start, end, confidence } = entry;
+
+      if (typeof text !== 'string' || typeof start !== 'number' || typeof end !== 'number') {
+        return null;
+      }
+
+      return {
+        text,
+        start,
+        end,
+        confidence: typeof confidence === 'number' ? confidence : 1,
+      } satisfies TranscriptWord;
+    })
+    .filter((entry): entry is TranscriptWord => entry !== null);
+}
+
+function parseSpeakerSegments(value: JsonValue | null): SpeakerSegment[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((entry): entry is JsonObject => isJsonObject(entry))
+    .map((entry) => {
+      const { speaker, start, end, text, confidence } = entry;
+
+      if (
+        typeof speaker !== 'string' ||
+        typeof start !== 'number' ||
+        typeof end !== 'number' ||
+        typeof text !== 'string'
+      ) {
+        return null;
+      }
+
+      return {
+        speaker,
+        start,
+        end,
+        text,
+        confidence: typeof confidence === 'number' ? confidence : 1,
+      } satisfies SpeakerSegment;
+    })
+    .filter((entry): entry is SpeakerSegment => entry !== null);
+}
+
 function parseViralMoments(value: JsonValue | null): ViralMoment[] | null {
   if (!Array.isArray(value)) {
     return null;
@@ -146,6 +239,172 @@ function extractComposition(value: JsonValue | null): VideoComposition | null {
   return null;
 }
 
+function getCompositionDurationSeconds(composition: VideoComposition): number {
+  let duration = 0;
+
+  for (const track of composition.timeline?.tracks ?? []) {
+    for (const element of track) {
+      duration = Math.max(duration, (element.start ?? 0) + (element.length ?? 0));
+    }
+  }
+
+  return duration;
+}
+
+function toBillableMinutes(seconds: number | undefined): number {
+  return seconds && seconds > 0 ? Math.ceil(seconds / 60) : 0;
+}
+
+interface EditedTranscript {
+  content: string;
+  words: TranscriptWord[];
+  speakers: SpeakerSegment[];
+  // Only re-derived when word text changed
+  sentences?: TranscriptSentence[];
+  viralMoments?: ViralMoment[];
+}
+
+/**
+ * Applies word corrections and speaker renames. Word timings are kept, and
+ * speaker segment text, sentences and viral moments are rebuilt from the
+ * corrected words so clip extraction and exports pick up the edits.
+ */
+function applyTranscriptEdits(
+  transcript: Pick<VideoTranscript, 'content' | 'words' | 'speakers'>,
+  edits: UpdateTranscriptRequest
+): EditedTranscript {
+  const words = parseTranscriptWords(transcript.words);
+  const wordEdits = edits.words ?? [];
+
+  if (wordEdits.length > 0 && words.length === 0) {
+    throw new TranscriptEditError('Transcript has no word timings');
+  }
+
+  for (const edit of wordEdits) {
+    const word = words[edit.index];
+    if (!word) {
+      throw new TranscriptEditError(`Word ${edit.index} does not exist`);
+    }
+    words[edit.index] = { ...word, text: edit.text };
+  }
+
+  const renames = edits.speakers ?? {};
+  const segments = parseSpeakerSegments(transcript.speakers);
+  for (const label of Object.keys(renames)) {
+    if (!segments.some((segment) => segment.speaker === label)) {
+      throw new TranscriptEditError(`Speaker ${label} does not exist`);
+    }
+  }
+
+  const speakers = segments.map((segment) => {
+    const segmentWords = words.filter((word) => {
+      const midpoint = (word.start + word.end) / 2;
+      return midpoint >= segment.start && midpoint <= segment.end;
+    });
+
+    return {
+      ...segment,
+      speaker: renames[segment.speaker] ?? segment.speaker,
+      text: segmentWords.length ? segmentWords.map((word) => word.text).join(' ') : segment.text,
+    };
+  });
+
+  if (wordEdits.length === 0) {
+    return { content: transcript.content, words, speakers };
+  }
+
+  const sentences = deriveSentences(words);
+
+  return {
+    content: words.map((word) => word.text).join(' '),
+    words,
+    speakers,
+    sentences,
+    viralMoments: deriveViralMoments(sentences),
+  };
+}
+
+/**
+ * `auto` keeps Shotstack for deployments that have a key and falls back to
+ * local ffmpeg rendering otherwise.
+ */
+function createRenderBackend(
+  settings: typeof config.videoRender = config.videoRender,
+  shotstackApiKey: string | undefined = config.shotstackApiKey
+): RenderBackend {
+  const useShotstack =
+    settings.backend === 'shotstack' || (settings.backend === 'auto' && Boolean(shotstackApiKey));
+
+  if (useShotstack) {
+    return new ShotstackRenderBackend({
+      apiKey: shotstackApiKey || '',
+      environment: config.nodeEnv === 'production' ? 'production' : 'stage',
+    });
+  }
+
+  return new FfmpegRenderBackend({
+    outputDir: settings.outputDir,
+    publicBaseUrl: settings.publicUrl ?? undefined,
+    ffmpegPath: settings.ffmpegPath,
+    ffprobePath: settings.ffprobePath,
+    timeoutMs: settings.timeoutSeconds * 1000,
+  });
+}
+
+interface TranscriptionProviders {
+  defaultProvider: TranscriptionProviderName;
+  providers: Partial<Record<TranscriptionProviderName, TranscriptionProvider>>;
+}
+
+/**
+ * AssemblyAI is available with an API key and whisper.cpp with a model file.
+ * `auto` prefers AssemblyAI so existing deployments keep their behaviour.
+ */
+function createTranscriptionProviders(
+  settings: typeof config.videoTranscription = config.videoTranscription,
+  assemblyAIApiKey: string | undefined = config.assemblyAIApiKey
+): TranscriptionProviders {
+  const providers: TranscriptionProviders['providers'] = {};
+
+  if (assemblyAIApiKey || settings.provider === 'assemblyai') {
+    providers.assemblyai = new AssemblyAITranscriptionProvider({ apiKey: assemblyAIApiKey || '' });
+  }
+
+  if (settings.whisperModelPath) {
+    providers.whisper_cpp = new WhisperCppTranscriptionProvider({
+      modelPath: settings.whisperModelPath,
+      binaryPath: settings.whisperBinaryPath,
+      ffmpegPath: config.videoRender.ffmpegPath,
+      threads: settings.whisperThreads ?? undefined,
+      diarize: settings.whisperDiarize,
+      timeoutMs: settings.timeoutSeconds * 1000,
+    });
+  }
+
+  const defaultProvider: TranscriptionProviderName =
+    settings.provider === 'auto'
+      ? assemblyAIApiKey || !providers.whisper_cpp
+        ? 'assemblyai'
+        : 'whisper_cpp'
+      : settings.provider;
+
+  return { defaultProvider, providers };
+}
+
+function resolvePlatformSpec(platform: PlatformType, customSpec?: CustomPlatformSpec): PlatformSpec {
+  if (platform === 'custom' && customSpec) {
+    return {
+      ...PLATFORM_SPECS.custom,
+      aspectRatio: customSpec.aspectRatio,
+      resolution: { width: customSpec.width, height: customSpec.height },
+      maxDuration: customSpec.maxDuration,
+      format: customSpec.format,
+    };
+  }
+
+  return PLATFORM_SPECS[platform];
+}
+
 function parseOutputUrls(value: JsonValue | null): string[] | undefined {
   if (!Array.isArray(value)) {
     return undefined;
@@ -158,9 +417,17 @@ function parseOutputUrls(value: JsonValue | null): string[] | undefined {
 export const videoProductionInternals = {
   getErrorMessage,
   parseCaptionWords,
+  parseTranscriptWords,
+  parseSpeakerSegments,
   parseViralMoments,
+  applyTranscriptEdits,
   extractComposition,
   parseOutputUrls,
+  getCompositionDurationSeconds,
+  toBillableMinutes,
+  createRenderBackend,
+  createTranscriptionProviders,
+  resolvePlatformSpec,
 };
 
 export interface VideoJobResult {
@@ -173,20 +440,40 @@ export interface VideoJobResult {
   error?: string;
 }
 
-export class VideoProductionService {
-  private assemblyAI: AssemblyAIClient;
-  private shotstack: ShotstackClient;
+export interface VideoTranscriptResult {
+  id: string;
+  jobId: string;
+  provider: string;
+  content: string;
+  words: TranscriptWord[];
+  speakers: SpeakerSegment[];
+  viralMoments: ViralMoment[];
+  duration?: number;
+  language?: string;
+  createdAt: string;
+}
 
-  constructor() {
-    // Initialize clients with API keys from environment
-    this.assemblyAI = new AssemblyAIClient({
-      apiKey: config.assemblyAIApiKey || '',
-    });
+export class VideoProductionService {
+  private transcription: TranscriptionProviders;
+  private renderer: RenderBackend;
+
+  constructor(
+    renderer: RenderBackend = createRenderBackend(),
+    transcription: TranscriptionProviders = createTranscriptionProviders()
+  ) {
+    this.renderer = renderer;
+    this.transcription = transcription;
+  }
 
-    this.shotstack = new ShotstackClient({
-      apiKey: config.shotstackApiKey || '',
-      environment: config.nodeEnv === 'production' ? 'production' : 'stage',
-    });
+  private getTranscriptionProvider(name?: TranscriptionProviderName): TranscriptionProvider {
+    const providerName = name ?? this.transcription.defaultProvider;
+    const provider = this.transcription.providers[providerName];
+    if (!provider) {
+      throw new TranscriptionProviderUnavailableError(
+        `Transcription provider ${providerName} is not configured`
+      );
+    }
+    return provider;
   }
 
   /**
@@ -199,9 +486,12 @@ export class VideoProductionService {
     options: {
       language?: string;
       speakerLabels?: boolean;
+      provider?: TranscriptionProviderName;
     } = {}
   ): Promise<VideoJobResult> {
     try {
+      const provider = this.getTranscriptionProvider(options.provider);
+
       // Create initial job record
       const job = await db.videoJob.create({
         data: {
@@ -213,14 +503,16 @@ export class VideoProductionService {
           metadata: {
             language: options.language,
             speakerLabels: options.speakerLabels,
+            provider: provider.name,
           },
         },
       });
+      this.publishJob(job);
 
       logger.info(`Created transcription job ${job.id} for tenant ${tenantId}`);
 
       // Start transcription (async)
-      this.processTranscription(job.id, url, options).catch((err) => {
+      this.processTranscription(job.id, url, provider, options).catch((err) => {
         logger.error(`Transcription job ${job.id} failed:`, err);
       });
 
@@ -237,6 +529,7 @@ export class VideoProductionService {
   private async processTranscription(
     jobId: string,
     url: string,
+    provider: TranscriptionProvider,
     options: {
       language?: string;
       speakerLabels?: boolean;
@@ -244,29 +537,15 @@ export class VideoProductionService {
   ): Promise<void> {
     try {
       // Update job to processing
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: { status: 'processing', progress: 10 },
-      });
+      await this.updateJob(jobId, { status: 'processing', progress: 10 });
 
-      // Start transcription
-      const { transcriptId } = await this.assemblyAI.transcribe(url, {
+      const transcriptData = await provider.transcribe(url, {
         language: options.language,
         speakerLabels: options.speakerLabels,
+        onProgress: (update) => this.recordTranscriptionProgress(jobId, update),
       });
 
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: { transcriptId, progress: 30 },
-      });
-
-      // Wait for completion
-      const transcriptData = await this.assemblyAI.waitForTranscript(transcriptId);
-
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: { progress: 80 },
-      });
+      await this.updateJob(jobId, { progress: 80 });
 
       // Store transcript in database
       const job = await db.videoJob.findUnique({ where: { id: jobId } });
@@ -274,12 +553,14 @@ export class VideoProductionService {
 
       await db.videoTranscript.create({
         data: {
-          id: transcriptId,
+          id: transcriptData.id,
           tenantId: job.tenantId,
           jobId: job.id,
-          assemblyAiId: transcriptId,
+          provider: provider.name,
+          assemblyAiId: provider.name === 'assemblyai' ? transcriptData.id : null,
           content: transcriptData.text,
           words: transcriptData.words ? toInputJson(transcriptData.words) : undefined,
+          sentences: transcriptData.sentences ? toInputJson(transcriptData.sentences) : undefined,
           speakers: transcriptData.speakers
             ? toInputJson(transcriptData.speakers)
             : undefined,
@@ -294,25 +575,22 @@ export class VideoProductionService {
       });
 
       // Mark job as completed
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: {
-          status: 'completed',
-          progress: 100,
-          completedAt: new Date(),
-        },
+      await this.updateJob(jobId, {
+        status: 'completed',
+        progress: 100,
+        transcriptId: transcriptData.id,
+        completedAt: new Date(),
       });
 
-      logger.info(`Transcription job ${jobId} completed successfully`);
+      await this.recordVideoMinutes(job.tenantId, jobId, 'transcribe', transcriptData.duration);
+
+      logger.info(`Transcription job ${jobId} completed successfully with ${provider.name}`);
     } catch (error: unknown) {
       logger.error(`Transcription job ${jobId} failed:`, error);
 
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: {
-          status: 'failed',
-          error: getErrorMessage(error),
-        },
+      await this.updateJob(jobId, {
+        status: 'failed',
+        error: getErrorMessage(error),
       });
     }
   }
@@ -360,6 +638,7 @@ export class VideoProductionService {
           }),
         },
       });
+      this.publishJob(job);
 
       logger.info(`Extracted clips for transcript ${transcriptId}`);
 
@@ -427,6 +706,7 @@ export class VideoProductionService {
           metadata: toInputJson(metadata),
         },
       });
+      this.publishJob(job);
 
       logger.info(`Created composition job ${job.id}`);
 
@@ -470,6 +750,7 @@ export class VideoProductionService {
           createdBy: userId,
         },
       });
+      this.publishJob(job);
 
       logger.info(`Created render job ${job.id}`);
 
@@ -494,44 +775,60 @@ export class VideoProductionService {
   ): Promise<void> {
     try {
       // Update to processing
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: { status: 'processing', progress: 10 },
-      });
-
-      // Start render
-      const { renderId } = await this.shotstack.renderVideo(composition);
+      await this.updateJob(jobId, { status: 'processing', progress: 10 });
 
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: { renderId, progress: 30 },
+      const { url: videoUrl } = await this.renderer.renderComposition(composition, {
+        onProgress: (update) => this.recordRenderProgress(jobId, update),
       });
 
-      // Poll for completion
-      const videoUrl = await this.shotstack.waitForRender(renderId);
-
       // Mark as completed
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: {
-          status: 'completed',
-          progress: 100,
-          outputUrls: [videoUrl],
-          completedAt: new Date(),
-        },
+      const completedJob = await this.updateJob(jobId, {
+        status: 'completed',
+        progress: 100,
+        outputUrls: [videoUrl],
+        completedAt: new Date(),
       });
 
+      await this.recordVideoMinutes(
+        completedJob.tenantId,
+        jobId,
+        'render',
+        getCompositionDurationSeconds(composition)
+      );
+
       logger.info(`Render job ${jobId} completed: ${videoUrl}`);
     } catch (error: unknown) {
       logger.error(`Render job ${jobId} failed:`, error);
 
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: {
-          status: 'failed',
-          error: getErrorMessage(error),
-        },
+      await this.updateJob(jobId, {
+        status: 'failed',
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  /**
+   * Meter processed media against the tenant's video-minute quota
+   */
+  private async recordVideoMinutes(
+    tenantId: string,
+    jobId: string,
+    jobType: string,
+    durationSeconds: number | undefined
+  ): Promise<void> {
+    const videoMinutes = toBillableMinutes(durationSeconds);
+    if (!videoMinutes) {
+      return;
+    }
+
+    try {
+      await recordUsage({
+        tenantId,
+        deltas: { videoMinutes },
+        event: { type: `video.${jobType}`, payload: { jobId, videoMinutes } },
       });
+    } catch (error) {
+      logger.error(`Failed to record video minutes for job ${jobId}:`, error);
     }
   }
 
@@ -543,7 +840,7 @@ export class VideoProductionService {
     transcriptId: string,
     tenantId: string,
     userId: string,
-    style?: CaptionStyleOptions
+    style?: CaptionStyle
   ): Promise<VideoJobResult> {
     try {
       const transcript = await db.videoTranscript.findUnique({
@@ -565,6 +862,7 @@ export class VideoProductionService {
           createdBy: userId,
         },
       });
+      this.publishJob(job);
 
       // Start captioning (async)
       this.processCaptions(job.id, videoUrl, transcript, style).catch((err) => {
@@ -582,72 +880,122 @@ export class VideoProductionService {
     jobId: string,
     videoUrl: string,
     transcript: VideoTranscript,
-    style?: CaptionStyleOptions
+    style?: CaptionStyle
   ): Promise<void> {
     try {
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: { status: 'processing', progress: 20 },
-      });
+      await this.updateJob(jobId, { status: 'processing', progress: 20 });
 
-      // Convert words to caption format
       const words = parseCaptionWords(transcript.words);
-      const captions = this.groupWordsIntoCaptions(words);
-
-      // Render with captions
-      const { renderId } = await this.shotstack.createCaptionedVideo(
-        videoUrl,
-        captions,
-        style
-      );
+      if (words.length === 0) {
+        throw new TranscriptWordsMissingError();
+      }
 
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: { renderId, progress: 50 },
+      const { url: outputUrl } = await this.renderer.burnCaptions(videoUrl, words, style, {
+        onProgress: (update) => this.recordRenderProgress(jobId, update),
       });
 
-      const outputUrl = await this.shotstack.waitForRender(renderId);
-
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: {
-          status: 'completed',
-          progress: 100,
-          outputUrls: [outputUrl],
-          completedAt: new Date(),
-        },
+      await this.updateJob(jobId, {
+        status: 'completed',
+        progress: 100,
+        outputUrls: [outputUrl],
+        completedAt: new Date(),
       });
 
       logger.info(`Caption job ${jobId} completed`);
     } catch (error: unknown) {
       logger.error(`Caption job ${jobId} failed:`, error);
 
-      await db.videoJob.update({
-        where: { id: jobId },
-        data: { status: 'failed', error: getErrorMessage(error) },
-      });
+      await this.updateJob(jobId, { status: 'failed', error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Get a transcript with its words, for review and editing
+   */
+  async getTranscript(transcriptId: string, tenantId: string): Promise<VideoTranscriptResult | null> {
+    const transcript = await db.videoTranscript.findUnique({
+      where: { id: transcriptId },
+    });
+
+    if (!transcript || transcript.tenantId !== tenantId) {
+      return null;
     }
+
+    return this.mapTranscriptToResult(transcript);
   }
 
-  private groupWordsIntoCaptions(
-    words: CaptionWord[]
-  ): CaptionWord[] {
-    const captions: CaptionWord[] = [];
-    const wordsPerCaption = 3;
+  /**
+   * Correct word text or rename speakers. Returns null when the transcript
+   * does not exist.
+   */
+  async updateTranscript(
+    transcriptId: string,
+    tenantId: string,
+    edits: UpdateTranscriptRequest
+  ): Promise<VideoTranscriptResult | null> {
+    const transcript = await db.videoTranscript.findUnique({
+      where: { id: transcriptId },
+    });
 
-    for (let i = 0; i < words.length; i += wordsPerCaption) {
-      const group = words.slice(i, i + wordsPerCaption);
-      if (group.length === 0) {
-        continue;
-      }
-      captions.push({
-        text: group.map((w) => w.text).join(' '),
-        start: group[0]!.start,
-        end: group[group.length - 1]!.end,
-      });
+    if (!transcript || transcript.tenantId !== tenantId) {
+      return null;
     }
 
-    return captions;
+    const edited = applyTranscriptEdits(transcript, edits);
+
+    const updated = await db.videoTranscript.update({
+      where: { id: transcriptId },
+      data: {
+        content: edited.content,
+        words: toInputJson(edited.words),
+        speakers: edited.speakers.length ? toInputJson(edited.speakers) : undefined,
+        sentences: edited.sentences ? toInputJson(edited.sentences) : undefined,
+        viralMoments: edited.viralMoments ? toInputJson(edited.viralMoments) : undefined,
+        metadata: toInputJson({
+          ...(isJsonObject(transcript.metadata) ? transcript.metadata : {}),
+          editedAt: new Date().toISOString(),
+        }),
+      },
+    });
+
+    logger.info(`Updated transcript ${transcriptId}`, {
+      words: edits.words?.length ?? 0,
+      speakers: Object.keys(edits.speakers ?? {}).length,
+    });
+
+    return this.mapTranscriptToResult(updated);
+  }
+
+  /**
+   * Render a transcript as SRT or WebVTT captions, or plain text with
+   * speaker labels
+   */
+  async exportTranscript(
+    transcriptId: string,
+    tenantId: string,
+    format: TranscriptExportFormat
+  ): Promise<string | null> {
+    const transcript = await db.videoTranscript.findUnique({
+      where: { id: transcriptId },
+    });
+
+    if (!transcript || transcript.tenantId !== tenantId) {
+      return null;
+    }
+
+    const words = parseCaptionWords(transcript.words);
+    if (format !== 'txt' && words.length === 0) {
+      throw new TranscriptWordsMissingError();
+    }
+
+    return exportTranscript(
+      {
+        text: transcript.content,
+        words,
+        speakers: parseSpeakerSegments(transcript.speakers),
+      },
+      format
+    );
   }
 
   /**
@@ -657,10 +1005,11 @@ export class VideoProductionService {
     videoUrl: string,
     platform: PlatformType,
     tenantId: string,
-    userId: string
+    userId: string,
+    customSpec?: CustomPlatformSpec
   ): Promise<VideoJobResult> {
     try {
-      const platformSpec = PLATFORM_SPECS[platform];
+      const platformSpec = resolvePlatformSpec(platform, customSpec);
 
       // Create job
       const job = await db.videoJob.create({
@@ -676,33 +1025,70 @@ export class VideoProductionService {
           }),
         },
       });
+      this.publishJob(job);
 
-      // For now, just mark as completed
-      // In production, this would call FFmpeg or Shotstack to re-encode
-      await db.videoJob.update({
-        where: { id: job.id },
-        data: {
-          status: 'completed',
-          progress: 100,
-          outputUrls: [videoUrl], // Would be optimized URL
-          completedAt: new Date(),
-        },
+      // Start re-encoding (async)
+      this.processOptimize(job.id, videoUrl, platformSpec).catch((err) => {
+        logger.error(`Optimization job ${job.id} failed:`, err);
       });
 
-      logger.info(`Optimization job ${job.id} completed for platform ${platform}`);
-
-      const refreshedJob = await db.videoJob.findUnique({ where: { id: job.id } });
-      if (!refreshedJob) {
-        throw new Error('Optimized job record missing');
-      }
-
-      return this.mapJobToResult(refreshedJob);
+      return this.mapJobToResult(job);
     } catch (error) {
       logger.error('Failed to optimize video:', error);
       throw error;
     }
   }
 
+  private async processOptimize(
+    jobId: string,
+    videoUrl: string,
+    platformSpec: PlatformSpec
+  ): Promise<void> {
+    try {
+      await this.updateJob(jobId, { status: 'processing', progress: 10 });
+
+      const { url: outputUrl } = await this.renderer.renderForPlatform(videoUrl, platformSpec, {
+        onProgress: (update) => this.recordRenderProgress(jobId, update),
+      });
+
+      await this.updateJob(jobId, {
+        status: 'completed',
+        progress: 100,
+        outputUrls: [outputUrl],
+        completedAt: new Date(),
+      });
+
+      logger.info(`Optimization job ${jobId} completed for ${platformSpec.name}`);
+    } catch (error: unknown) {
+      logger.error(`Optimization job ${jobId} failed:`, error);
+
+      await this.updateJob(jobId, { status: 'failed', error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Resolves the file behind a job's first output when it was rendered
+   * locally; remote outputs are returned as URLs to redirect to.
+   */
+  async getJobOutput(
+    jobId: string,
+    tenantId: string
+  ): Promise<{ path: string } | { url: string } | null> {
+    const job = await db.videoJob.findUnique({ where: { id: jobId } });
+    if (!job || job.tenantId !== tenantId) {
+      return null;
+    }
+
+    const url = parseOutputUrls(job.outputUrls)?.[0];
+    if (!url) {
+      return null;
+    }
+
+    const path =
+      this.renderer instanceof FfmpegRenderBackend ? this.renderer.resolveOutputPath(url) : null;
+    return path ? { path } : { url };
+  }
+
   /**
    * Get job status
    */
@@ -780,6 +1166,54 @@ export class VideoProductionService {
     logger.info(`Deleted job ${jobId}`);
   }
 
+  /**
+   * Persists a job change and pushes it to the tenant's event stream.
+   */
+  private async updateJob(jobId: string, data: Prisma.VideoJobUpdateArgs['data']): Promise<VideoJob> {
+    const job = await db.videoJob.update({
+      where: { id: jobId },
+      data,
+    });
+    this.publishJob(job);
+    return job;
+  }
+
+  private async recordTranscriptionProgress(jobId: string, update: TranscriptionProgress): Promise<void> {
+    await this.updateJob(jobId, {
+      progress: update.progress,
+      ...(update.transcriptId ? { transcriptId: update.transcriptId } : {}),
+    });
+  }
+
+  private async recordRenderProgress(jobId: string, update: RenderProgress): Promise<void> {
+    await this.updateJob(jobId, {
+      progress: update.progress,
+      ...(update.renderId ? { renderId: update.renderId } : {}),
+    });
+  }
+
+  private publishJob(job: VideoJob): void {
+    publishTenantEvent(job.tenantId, 'video-job.updated', this.mapJobToResult(job));
+  }
+
+  private mapTranscriptToResult(transcript: VideoTranscript): VideoTranscriptResult {
+    const metadata = isJsonObject(transcript.metadata) ? transcript.metadata : {};
+    const { duration, language } = metadata;
+
+    return {
+      id: transcript.id,
+      jobId: transcript.jobId,
+      provider: transcript.provider,
+      content: transcript.content,
+      words: parseTranscriptWords(transcript.words),
+      speakers: parseSpeakerSegments(transcript.speakers),
+      viralMoments: parseViralMoments(transcript.viralMoments) ?? [],
+      duration: typeof duration === 'number' ? duration : undefined,
+      language: typeof language === 'string' ? language : undefined,
+      createdAt: transcript.createdAt.toISOString(),
+    };
+  }
+
   private mapJobToResult(job: VideoJob): VideoJobResult {
     return {
       id: job.id,
@@ -1,3 +1,5 @@
+import type { TenantMemberRole } from '@ocsuite/db';
+
 declare global {
   namespace Express {
     interface Request {
@@ -10,9 +12,16 @@ declare global {
       
       // Tenant context
       tenantId?: string;
+
+      // Caller's membership in the resolved tenant
+      tenantUserId?: string;
+      tenantRole?: TenantMemberRole;
       
       // User context
       clerkId?: string;
+
+      // Unparsed body, captured only for signed webhook routes
+      rawBody?: Buffer;
     }
   }
 }
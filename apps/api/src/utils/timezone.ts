@@ -0,0 +1,64 @@
+const WALL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Minutes `timeZone` is ahead of UTC at `instant` (negative west of Greenwich).
+ */
+function timeZoneOffsetMinutes(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((entry) => entry.type === type)?.value);
+  const wallAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+  return Math.round((wallAsUtc - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+/**
+ * Converts a wall-clock time without offset (`2025-11-24T09:00`) in
+ * `timeZone` to the instant it denotes. Times skipped by a DST jump move
+ * forward by the gap; repeated times resolve to their first occurrence.
+ *
+ * @returns null when `value` is not a wall-clock time
+ */
+export function zonedWallTimeToUtc(value: string, timeZone: string): Date | null {
+  const match = WALL_TIME_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second] = match;
+  const wall = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second ?? 0));
+  const parsed = new Date(wall);
+  // Date.UTC rolls out-of-range fields over (Feb 30 -> Mar 2); reject those instead
+  if (parsed.getUTCMonth() !== Number(month) - 1 || parsed.getUTCDate() !== Number(day) || parsed.getUTCHours() !== Number(hour)) {
+    return null;
+  }
+
+  const offset = timeZoneOffsetMinutes(wall, timeZone);
+  const guess = wall - offset * 60000;
+  const guessOffset = timeZoneOffsetMinutes(guess, timeZone);
+  if (guessOffset === offset) {
+    return new Date(guess);
+  }
+
+  // The offset changes between the wall time read as UTC and the real instant
+  const corrected = wall - guessOffset * 60000;
+  return new Date(timeZoneOffsetMinutes(corrected, timeZone) === guessOffset ? corrected : guess);
+}
@@ -1,6 +1,6 @@
 import { Worker, Job } from 'bullmq';
 import { createHash } from 'crypto';
-import { createTenantClient, ActionApproval } from '@ocsuite/db';
+import { createTenantClient, ActionApproval, Task } from '@ocsuite/db';
 import {
   QUEUE_NAMES,
   ActionExecutorJobData,
@@ -24,6 +24,7 @@ import { toInputJson } from '../utils/json.js';
 import type { TaskExecutionResult } from '@ocsuite/module-sdk';
 import { executeModuleCapability, ModuleExecutionError } from '../modules/registry.js';
 import { notifyActionExecutionResult } from '../services/notifications.js';
+import { publishApprovalUpdate, publishTaskUpdate } from '../services/tenant-events.js';
 
 interface ExecutionProgress {
   phase: 'initializing' | 'validating' | 'executing' | 'finalizing' | 'completed';
@@ -98,6 +99,9 @@ async function processActionExecution(
   const startedAt = Date.now();
   let lastBootstrap: TransactionBootstrapResult | undefined;
   let executionOutcomeApproval: ActionApproval | null = null;
+  let rolledBackApproval: ActionApproval | null = null;
+  // Kept so a capability that reports failure part-way still leaves its outputs for rollback
+  let executionResult: TaskExecutionResult | undefined;
 
   try {
     await job.updateProgress({
@@ -250,7 +254,7 @@ async function processActionExecution(
       },
     } as ExecutionProgress);
 
-    const executionResult = await executeModuleCapability({
+    executionResult = await executeModuleCapability({
       moduleSlug: bootstrap.moduleSlug,
       capability: bootstrap.capability,
       tenantId,
@@ -262,6 +266,14 @@ async function processActionExecution(
       logger,
     });
 
+    if (!executionResult.success) {
+      throw new ModuleExecutionError(
+        executionResult.error?.message ?? `Capability ${bootstrap.capability} reported failure`
+      );
+    }
+
+    const succeededResult = executionResult;
+
     await job.updateProgress({
       phase: 'finalizing',
       percentage: 85,
@@ -271,7 +283,7 @@ async function processActionExecution(
     const completedAt = new Date();
     const durationMs = Date.now() - startedAt;
 
-    await db.$transaction(async (tx) => {
+    const completedTask = await db.$transaction(async (tx) => {
       const current = await tx.actionApproval.findUnique({
         where: { id: approvalId },
       });
@@ -303,11 +315,33 @@ async function processActionExecution(
 
       executionOutcomeApproval = executedApproval;
 
-      await tx.task.update({
+      if (executedApproval.rollbackOfId) {
+        const original = await tx.actionApproval.findUnique({
+          where: { id: executedApproval.rollbackOfId },
+        });
+
+        if (original) {
+          rolledBackApproval = await tx.actionApproval.update({
+            where: { id: original.id },
+            data: {
+              auditLog: auditEventsToJson([
+                ...normalizeAuditLog(original.auditLog),
+                buildAuditEntry('rolled_back', actorId, undefined, {
+                  rollbackApprovalId: approvalId,
+                  capability: bootstrap.capability,
+                  payloadHash: bootstrap.payloadHash,
+                }),
+              ]),
+            },
+          });
+        }
+      }
+
+      return tx.task.update({
         where: { id: bootstrap.taskId },
         data: {
           status: 'completed',
-          result: toInputJson(executionResult),
+          result: toInputJson(succeededResult),
           executedAt: completedAt,
           error: null,
         },
@@ -320,7 +354,14 @@ async function processActionExecution(
       message: 'Action executed successfully',
     } as ExecutionProgress);
 
+    publishTaskUpdate(completedTask);
+
+    if (rolledBackApproval) {
+      publishApprovalUpdate(rolledBackApproval);
+    }
+
     if (executionOutcomeApproval) {
+      publishApprovalUpdate(executionOutcomeApproval);
       await notifyActionExecutionResult(db, {
         tenantId,
         approval: executionOutcomeApproval,
@@ -349,7 +390,7 @@ async function processActionExecution(
       payloadHash: bootstrap.payloadHash,
       moduleSlug: bootstrap.moduleSlug,
       capability: bootstrap.capability,
-      result: executionResult,
+      result: succeededResult,
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -359,6 +400,8 @@ async function processActionExecution(
       stack: error instanceof Error ? error.stack : undefined,
     });
 
+    let failedTask: Task | null = null;
+
     try {
       await db.$transaction(async (tx) => {
         const current = await tx.actionApproval.findUnique({
@@ -372,6 +415,8 @@ async function processActionExecution(
               jobId: job.id ?? undefined,
               moduleSlug: lastBootstrap?.moduleSlug ?? job.data.moduleSlug,
               capability: lastBootstrap?.capability ?? job.data.capability,
+              payloadHash: lastBootstrap?.payloadHash,
+              partial: executionResult ? true : undefined,
             }),
           ];
 
@@ -391,11 +436,12 @@ async function processActionExecution(
         });
 
         if (task) {
-          await tx.task.update({
+          failedTask = await tx.task.update({
             where: { id: task.id },
             data: {
               status: 'failed',
               error: message,
+              result: executionResult ? toInputJson(executionResult) : undefined,
             },
           });
         }
@@ -406,7 +452,12 @@ async function processActionExecution(
       });
     }
 
+    if (failedTask) {
+      publishTaskUpdate(failedTask);
+    }
+
     if (executionOutcomeApproval) {
+      publishApprovalUpdate(executionOutcomeApproval);
       await notifyActionExecutionResult(db, {
         tenantId,
         approval: executionOutcomeApproval,
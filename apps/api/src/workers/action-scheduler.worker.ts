@@ -0,0 +1,105 @@
+import { Worker, Job } from 'bullmq';
+import {
+  getRedisConnection,
+  actionSchedulerQueue,
+  QUEUE_NAMES,
+  type ActionSchedulerJobData,
+} from '../queue/index.js';
+import { workerLogger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { listTenantsWithDueScheduledActions, releaseDueScheduledActions } from '../services/action-approvals.js';
+import { instrumentWorker } from '../observability/worker-metrics.js';
+
+const ACTION_SCHEDULER_JOB_NAME = 'action-scheduler';
+const ACTION_SCHEDULER_REPEAT_ID = 'action-scheduler-recurring';
+
+interface ActionSchedulerRunResult {
+  tenants: number;
+  released: number;
+  waiting: number;
+  canceled: number;
+  durationMs: number;
+}
+
+async function processActionSchedulerJob(job: Job<ActionSchedulerJobData>): Promise<ActionSchedulerRunResult> {
+  const startedAt = Date.now();
+  const now = new Date();
+  const tenants = job.data.tenantId ? [job.data.tenantId] : await listTenantsWithDueScheduledActions(now);
+
+  const totals = { released: 0, waiting: 0, canceled: 0 };
+  for (const tenantId of tenants) {
+    try {
+      const result = await releaseDueScheduledActions(tenantId, now);
+      totals.released += result.released;
+      totals.waiting += result.waiting;
+      totals.canceled += result.canceled;
+    } catch (error) {
+      workerLogger.error('Action scheduler failed for tenant', {
+        tenantId,
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const durationMs = Date.now() - startedAt;
+
+  workerLogger.info('Action scheduler job completed', {
+    jobId: job.id,
+    triggeredBy: job.data.triggeredBy,
+    tenants: tenants.length,
+    ...totals,
+    durationMs,
+  });
+
+  return { tenants: tenants.length, ...totals, durationMs };
+}
+
+export const createActionSchedulerWorker = (): Worker<ActionSchedulerJobData> => {
+  const worker = instrumentWorker(
+    new Worker<ActionSchedulerJobData>(
+      QUEUE_NAMES.ACTION_SCHEDULER,
+      async (job) => processActionSchedulerJob(job),
+      {
+        connection: getRedisConnection(),
+        concurrency: 1,
+      }
+    )
+  );
+
+  worker.on('failed', (job, error) => {
+    workerLogger.error('Action scheduler job failed', {
+      jobId: job?.id,
+      tenantId: job?.data?.tenantId ?? 'all-tenants',
+      error: error?.message,
+    });
+  });
+
+  return worker;
+};
+
+export async function ensureActionSchedulerSchedule(): Promise<void> {
+  const cronPattern = config.approvals.scheduleCron;
+  const repeatables = await actionSchedulerQueue.getRepeatableJobs();
+  await Promise.all(
+    repeatables
+      .filter((job) => job.id === ACTION_SCHEDULER_REPEAT_ID || job.name === ACTION_SCHEDULER_JOB_NAME)
+      .map((job) => actionSchedulerQueue.removeRepeatableByKey(job.key))
+  );
+
+  await actionSchedulerQueue.add(
+    ACTION_SCHEDULER_JOB_NAME,
+    {},
+    {
+      jobId: ACTION_SCHEDULER_REPEAT_ID,
+      repeat: {
+        pattern: cronPattern,
+        tz: 'UTC',
+      },
+    }
+  );
+
+  workerLogger.info('Registered action scheduler cron job', {
+    pattern: cronPattern,
+  });
+}
@@ -0,0 +1,100 @@
+import { Worker, Job } from 'bullmq';
+import {
+  getRedisConnection,
+  approvalExpiryQueue,
+  QUEUE_NAMES,
+  type ApprovalExpiryJobData,
+} from '../queue/index.js';
+import { workerLogger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { expireOverdueApprovals, listTenantsWithOverdueApprovals } from '../services/action-approvals.js';
+import { instrumentWorker } from '../observability/worker-metrics.js';
+
+const APPROVAL_EXPIRY_JOB_NAME = 'approval-expiry';
+const APPROVAL_EXPIRY_REPEAT_ID = 'approval-expiry-recurring';
+
+interface ApprovalExpiryRunResult {
+  tenants: number;
+  expired: number;
+  durationMs: number;
+}
+
+async function processApprovalExpiryJob(job: Job<ApprovalExpiryJobData>): Promise<ApprovalExpiryRunResult> {
+  const startedAt = Date.now();
+  const now = new Date();
+  const tenants = job.data.tenantId ? [job.data.tenantId] : await listTenantsWithOverdueApprovals(now);
+
+  let expired = 0;
+  for (const tenantId of tenants) {
+    try {
+      expired += await expireOverdueApprovals(tenantId, now);
+    } catch (error) {
+      workerLogger.error('Approval expiry failed for tenant', {
+        tenantId,
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const durationMs = Date.now() - startedAt;
+
+  workerLogger.info('Approval expiry job completed', {
+    jobId: job.id,
+    triggeredBy: job.data.triggeredBy,
+    tenants: tenants.length,
+    expired,
+    durationMs,
+  });
+
+  return { tenants: tenants.length, expired, durationMs };
+}
+
+export const createApprovalExpiryWorker = (): Worker<ApprovalExpiryJobData> => {
+  const worker = instrumentWorker(
+    new Worker<ApprovalExpiryJobData>(
+      QUEUE_NAMES.APPROVAL_EXPIRY,
+      async (job) => processApprovalExpiryJob(job),
+      {
+        connection: getRedisConnection(),
+        concurrency: 1,
+      }
+    )
+  );
+
+  worker.on('failed', (job, error) => {
+    workerLogger.error('Approval expiry job failed', {
+      jobId: job?.id,
+      tenantId: job?.data?.tenantId ?? 'all-tenants',
+      error: error?.message,
+    });
+  });
+
+  return worker;
+};
+
+export async function ensureApprovalExpirySchedule(): Promise<void> {
+  const cronPattern = config.approvals.expiryCron;
+  const repeatables = await approvalExpiryQueue.getRepeatableJobs();
+  await Promise.all(
+    repeatables
+      .filter((job) => job.id === APPROVAL_EXPIRY_REPEAT_ID || job.name === APPROVAL_EXPIRY_JOB_NAME)
+      .map((job) => approvalExpiryQueue.removeRepeatableByKey(job.key))
+  );
+
+  await approvalExpiryQueue.add(
+    APPROVAL_EXPIRY_JOB_NAME,
+    {},
+    {
+      jobId: APPROVAL_EXPIRY_REPEAT_ID,
+      repeat: {
+        pattern: cronPattern,
+        tz: 'UTC',
+      },
+    }
+  );
+
+  workerLogger.info('Registered approval expiry cron job', {
+    pattern: cronPattern,
+  });
+}
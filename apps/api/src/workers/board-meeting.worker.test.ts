@@ -60,18 +60,26 @@ vi.mock('../services/board-meeting.js', () => ({
     }))
   ),
   parsePersonaPayload: vi.fn(),
+  parseDebatePayload: vi.fn(),
   buildPersonaAnalysis: vi.fn(),
   buildMeetingSummary: vi.fn(),
   buildMeetingMetrics: vi.fn(),
   isPersonaId: vi.fn((value) => ['ceo', 'cfo', 'cmo', 'cto'].includes(value)),
 }));
 
+vi.mock('../services/tenant-personas.js', () => ({
+  CHAIR_PERSONA_ID: 'ceo',
+  listBoardSeats: vi.fn(async () =>
+    ['ceo', 'cfo', 'cmo'].map((id) => ({ id, name: id.toUpperCase(), expertise: [] }))
+  ),
+}));
+
 vi.mock('../services/persona-prompts.js', () => ({
   buildPersonaPrompt: vi.fn(),
   enforceContentFilter: vi.fn((content) => content),
 }));
 
-vi.mock('../services/llm/fireworks-client.js', () => ({
+vi.mock('../services/llm/llm-client.js', () => ({
   streamCompletion: vi.fn(),
   estimateMessagesTokens: vi.fn(() => 100),
   estimateTokens: vi.fn(() => 150),
@@ -88,12 +96,13 @@ import { createTenantClient } from '@ocsuite/db';
 import {
   loadBoardMeetingContext,
   parsePersonaPayload,
+  parseDebatePayload,
   buildPersonaAnalysis,
   buildMeetingSummary,
   buildMeetingMetrics,
 } from '../services/board-meeting.js';
 import { buildPersonaPrompt } from '../services/persona-prompts.js';
-import { streamCompletion } from '../services/llm/fireworks-client.js';
+import { streamCompletion } from '../services/llm/llm-client.js';
 import { boardMeetingDLQ } from '../queue/index.js';
 
 describe('board-meeting.worker', () => {
@@ -580,7 +589,105 @@ describe('board-meeting.worker', () => {
 
       await processor(mockJob as Job<BoardMeetingJobData>);
 
-      expect(buildPersonaPrompt).toHaveBeenCalledWith('ceo', expect.any(Object));
+      expect(buildPersonaPrompt).toHaveBeenCalledWith('ceo', expect.any(Object), expect.any(Array));
+    });
+  });
+
+  describe('debate rounds', () => {
+    it('should have personas rebut each other and turn dissent into candidate action items', async () => {
+      mockJob.data!.debateRounds = 2;
+
+      vi.mocked(buildPersonaAnalysis).mockImplementation(
+        (personaId, personaName, payload, sequence, rawContent, round) => ({
+          personaId,
+          personaName,
+          summary: payload.summary,
+          risks: payload.risks,
+          opportunities: payload.opportunities,
+          recommendations: payload.recommendations,
+          rawContent,
+          sequence,
+          round,
+          createdAt: new Date().toISOString(),
+        })
+      );
+      vi.mocked(parseDebatePayload).mockImplementation((_raw, speaker) => ({
+        summary: 'Enterprise push needs more runway',
+        risks: [],
+        opportunities: [],
+        recommendations: [],
+        agreements: ['Expand to enterprise segment'],
+        dissent: [
+          {
+            ...speaker,
+            against: 'ceo',
+            point: 'Hiring ahead of enterprise revenue shortens runway',
+            recommendation: { title: 'Stage enterprise hiring', priority: 'medium', rationale: 'Protect runway' },
+          },
+        ],
+      }));
+
+      const worker = createBoardMeetingWorker();
+      const processor = (worker as any).processFn;
+
+      const result = await processor(mockJob as Job<BoardMeetingJobData>);
+
+      expect(result.personaCount).toBe(4);
+      expect(buildPersonaPrompt).toHaveBeenCalledTimes(4);
+
+      const ceoRebuttal = vi.mocked(buildPersonaPrompt).mock.calls[2];
+      expect(ceoRebuttal[0]).toBe('ceo');
+      expect(ceoRebuttal[1].debate).toMatchObject({
+        round: 2,
+        totalRounds: 2,
+        priorTurns: [expect.objectContaining({ personaId: 'cfo' })],
+      });
+      expect(parseDebatePayload).toHaveBeenCalledWith(expect.any(String), {
+        personaId: 'ceo',
+        personaName: 'CEO',
+        round: 2,
+      });
+
+      expect(mockDb.boardPersonaTurn.create).toHaveBeenCalledTimes(4);
+      expect(mockDb.boardPersonaTurn.create.mock.calls[3][0].data).toMatchObject({
+        persona: 'cfo',
+        sequence: 4,
+        metrics: expect.objectContaining({ round: 2 }),
+      });
+
+      // 2 opening recommendations + 1 dissent per rebuttal
+      expect(mockDb.boardActionItem.create).toHaveBeenCalledTimes(4);
+      expect(mockDb.boardActionItem.create.mock.calls[3][0].data).toMatchObject({
+        title: 'Stage enterprise hiring',
+        description: 'Protect runway',
+        priority: 'normal',
+        metadata: expect.objectContaining({
+          personaId: 'cfo',
+          source: 'dissent',
+          candidate: true,
+          dissentAgainst: 'ceo',
+          round: 2,
+        }),
+      });
+
+      expect(vi.mocked(buildMeetingSummary).mock.calls[0][0]).toHaveLength(4);
+      const finalUpdate = mockDb.boardMeeting.update.mock.calls.at(-1)[0];
+      expect(finalUpdate.data.metadata).toMatchObject({ debateRounds: 2 });
+    });
+
+    it('should skip debate when only one persona is on the agenda', async () => {
+      mockJob.data!.debateRounds = 3;
+      mockJob.data!.agenda = [
+        { id: 'section-1', title: 'Executive Overview', personaId: 'ceo', dependsOn: null },
+      ];
+
+      const worker = createBoardMeetingWorker();
+      const processor = (worker as any).processFn;
+
+      await processor(mockJob as Job<BoardMeetingJobData>);
+
+      expect(buildPersonaPrompt).toHaveBeenCalledTimes(1);
+      expect(parseDebatePayload).not.toHaveBeenCalled();
     });
   });
 
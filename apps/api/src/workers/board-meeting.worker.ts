@@ -17,22 +17,27 @@ import {
   agendaToSummary,
   agendaTemplateToDisplay,
   parsePersonaPayload,
+  parseDebatePayload,
   buildPersonaAnalysis,
   buildMeetingSummary,
   buildMeetingMetrics,
   isPersonaId,
-  type PersonaId,
   type AgendaTemplateItem,
+  type BoardSeat,
+  type PersonaId,
 } from '../services/board-meeting.js';
 import {
   buildPersonaPrompt as buildBoardPersonaPrompt,
   enforceContentFilter,
 } from '../services/persona-prompts.js';
+import { CHAIR_PERSONA_ID, listBoardSeats } from '../services/tenant-personas.js';
 import {
   streamCompletion,
   estimateMessagesTokens,
   estimateTokens,
-} from '../services/llm/fireworks-client.js';
+  type LLMMessage,
+  type LLMUsage,
+} from '../services/llm/llm-client.js';
 import type {
   BoardMeetingAgendaItem,
   BoardMeetingAgendaStatus,
@@ -41,11 +46,12 @@ import type {
 } from '@ocsuite/types';
 
 interface BoardMeetingProgress {
-  phase: 'initializing' | 'context' | 'persona' | 'summary' | 'completed';
+  phase: 'initializing' | 'context' | 'persona' | 'debate' | 'summary' | 'completed';
   percentage: number;
   message: string;
   personaId?: string;
   sequence?: number;
+  round?: number;
 }
 
 interface BoardMeetingResult {
@@ -60,6 +66,11 @@ interface BoardMeetingResult {
 const PERSONA_RESPONSE_INSTRUCTION =
   'Provide your analysis now following the JSON schema. Do not include any markdown or commentary outside the JSON.';
 
+const DEBATE_RESPONSE_INSTRUCTION =
+  'Provide your rebuttal now following the JSON schema. Do not include any markdown or commentary outside the JSON.';
+
+type TokenUsage = { input: number; output: number; total: number };
+
 const TASK_PRIORITY_MAP: Record<string, string> = {
   low: 'low',
   medium: 'normal',
@@ -76,24 +87,67 @@ function mapTaskPriority(value?: string | null): 'low' | 'normal' | 'high' | 'ur
   return 'normal';
 }
 
-const DEFAULT_PERSONA_ID: PersonaId = 'ceo';
-
-function normalizeAgendaSections(sections: BoardMeetingJobData['agenda']): AgendaTemplateItem[] {
+// Sections whose persona was disabled or deleted after queuing go to the chair
+function normalizeAgendaSections(
+  sections: BoardMeetingJobData['agenda'],
+  seats: readonly BoardSeat[]
+): AgendaTemplateItem[] {
   return sections.map((section) => ({
     id: section.id,
     title: section.title,
-    personaId: isPersonaId(section.personaId) ? section.personaId : DEFAULT_PERSONA_ID,
+    personaId: isPersonaId(section.personaId, seats) ? section.personaId : CHAIR_PERSONA_ID,
     dependsOn: section.dependsOn ?? null,
   }));
 }
 
-const toOptionalPersonaId = (value: unknown): PersonaId | undefined =>
-  typeof value === 'string' && isPersonaId(value) ? value : undefined;
+async function streamPersonaResponse(params: {
+  messages: LLMMessage[];
+  tenantId: string;
+  userId: string;
+  maxTokens: number;
+  personaId: PersonaId;
+}): Promise<{ response: string; usage?: LLMUsage }> {
+  let response = '';
+  let usage: LLMUsage | undefined;
+
+  for await (const chunk of streamCompletion({
+    messages: params.messages,
+    tenantId: params.tenantId,
+    userId: params.userId,
+    maxTokens: params.maxTokens,
+    personaType: params.personaId,
+    operation: 'board-meeting',
+  })) {
+    if (chunk.done) {
+      usage = chunk.usage;
+      continue;
+    }
+    response += chunk.content;
+  }
+
+  return { response, usage };
+}
+
+function measureTokens(messages: LLMMessage[], output: string, usage?: LLMUsage): TokenUsage {
+  const input = usage?.inputTokens ?? estimateMessagesTokens(messages);
+  const outputTokens = usage?.outputTokens ?? estimateTokens(output);
+  return { input, output: outputTokens, total: input + outputTokens };
+}
+
+// Personas speaking more than once (debate rounds) accumulate usage
+function addTokenUsage(totals: Record<string, TokenUsage>, personaId: PersonaId, usage: TokenUsage): void {
+  const current = totals[personaId];
+  totals[personaId] = current
+    ? {
+        input: current.input + usage.input,
+        output: current.output + usage.output,
+        total: current.total + usage.total,
+      }
+    : usage;
+}
 
 async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<BoardMeetingResult> {
   const { tenantId, meetingId, userId, agenda: rawAgenda, agendaVersion } = job.data;
-  const agenda = normalizeAgendaSections(rawAgenda);
-  const totalAgendaSections = agenda.length;
   const logger = createContextLogger('board-meeting-worker', {
     jobId: job.id,
     tenantId,
@@ -102,7 +156,7 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
 
   logger.info('Starting board meeting orchestration', {
     agendaVersion,
-    agendaSections: totalAgendaSections,
+    agendaSections: rawAgenda.length,
   });
 
   await job.updateProgress({
@@ -114,6 +168,13 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
   const db = createTenantClient({ tenantId, userId });
 
   try {
+    const seats = await listBoardSeats(db, tenantId);
+    const agenda = normalizeAgendaSections(rawAgenda, seats);
+    // Debate needs at least two personas to rebut each other
+    const debaters = [...new Set(agenda.map((section) => section.personaId))];
+    const debateRounds = debaters.length > 1 ? Math.max(1, job.data.debateRounds ?? 1) : 1;
+    const totalSteps = agenda.length + debaters.length * (debateRounds - 1);
+
     const meeting = await db.boardMeeting.findUnique({
       where: { id: meetingId },
     });
@@ -140,11 +201,11 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
       message: 'Loading meeting context',
     } as BoardMeetingProgress);
 
-    const context = await loadBoardMeetingContext(db, tenantId);
+    const context = await loadBoardMeetingContext(db, tenantId, seats);
     const agendaSummary = agendaToSummary(agenda);
 
     const personaAnalyses: BoardPersonaAnalysis[] = [];
-    const personaTokens: Record<string, { input: number; output: number; total: number }> = {};
+    const personaTokens: Record<string, TokenUsage> = {};
     const personaLatency: Record<string, number> = {};
 
     let agendaIndex = 0;
@@ -156,7 +217,7 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
 
       await job.updateProgress({
         phase: 'persona',
-        percentage: 10 + (agendaIndex - 1) * (70 / Math.max(totalAgendaSections, 1)),
+        percentage: 10 + (agendaIndex - 1) * (70 / Math.max(totalSteps, 1)),
         message: `Collecting ${section.personaId.toUpperCase()} perspective`,
         personaId: section.personaId,
         sequence: agendaIndex,
@@ -174,23 +235,19 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
         metricsSummary: context.metricsSummary,
       };
 
-      const promptResult = buildBoardPersonaPrompt(section.personaId, promptContext);
+      const promptResult = buildBoardPersonaPrompt(section.personaId, promptContext, seats);
       const messages = [
         { role: 'system' as const, content: promptResult.prompt },
         { role: 'user' as const, content: PERSONA_RESPONSE_INSTRUCTION },
       ];
 
-      let response = '';
-
-      for await (const chunk of streamCompletion({
+      const { response, usage } = await streamPersonaResponse({
         messages,
         tenantId,
         userId,
         maxTokens: promptResult.maxTokens,
-      })) {
-        if (chunk.done) continue;
-        response += chunk.content;
-      }
+        personaId: section.personaId,
+      });
 
       const sanitized = enforceContentFilter(response.trim());
       const parsed = parsePersonaPayload(sanitized);
@@ -204,15 +261,10 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
 
       personaAnalyses.push(analysis);
 
-      const inputTokens = estimateMessagesTokens(messages);
-      const outputTokens = estimateTokens(sanitized);
-      personaTokens[section.personaId] = {
-        input: inputTokens,
-        output: outputTokens,
-        total: inputTokens + outputTokens,
-      };
+      const turnTokens = measureTokens(messages, sanitized, usage);
+      addTokenUsage(personaTokens, section.personaId, turnTokens);
 
-      personaLatency[section.personaId] = Date.now() - personaStart;
+      personaLatency[section.personaId] = (personaLatency[section.personaId] ?? 0) + Date.now() - personaStart;
 
       await db.boardPersonaTurn.create({
         data: {
@@ -222,7 +274,9 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
           role: section.personaId,
           content: sanitized,
           metrics: toInputJson({
-            tokens: personaTokens[section.personaId],
+            tokens: turnTokens,
+            personaName: promptResult.persona.name,
+            round: 1,
             parsed,
           }),
           sequence: agendaIndex,
@@ -253,6 +307,123 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
       agendaState = await updateAgendaStatus(db, meetingId, agendaState, section.id, 'completed');
     }
 
+    // Debate rounds: every persona rebuts what the others said in the round before
+    let sequence = agendaIndex;
+    let previousRound = [...personaAnalyses];
+
+    for (let round = 2; round <= debateRounds; round += 1) {
+      const roundAnalyses: BoardPersonaAnalysis[] = [];
+
+      for (const personaId of debaters) {
+        sequence += 1;
+        const personaStart = Date.now();
+
+        await job.updateProgress({
+          phase: 'debate',
+          percentage: 10 + (sequence - 1) * (70 / Math.max(totalSteps, 1)),
+          message: `Round ${round}: ${personaId.toUpperCase()} rebuttal`,
+          personaId,
+          sequence,
+          round,
+        } as BoardMeetingProgress);
+
+        const promptResult = buildBoardPersonaPrompt(
+          personaId,
+          {
+            tenantId,
+            agendaSummary,
+            businessProfile: context.businessProfile,
+            latestInsights: context.latestInsights,
+            analyticsSnapshots: context.analyticsSnapshots,
+            existingActionItems: context.existingActionItems,
+            recentWins: context.recentWins,
+            personaQuestions: context.personaQuestions[personaId] ?? [],
+            metricsSummary: context.metricsSummary,
+            debate: {
+              round,
+              totalRounds: debateRounds,
+              priorTurns: previousRound.filter((turn) => turn.personaId !== personaId),
+            },
+          },
+          seats
+        );
+        const messages = [
+          { role: 'system' as const, content: promptResult.prompt },
+          { role: 'user' as const, content: DEBATE_RESPONSE_INSTRUCTION },
+        ];
+
+        const { response, usage } = await streamPersonaResponse({
+          messages,
+          tenantId,
+          userId,
+          maxTokens: promptResult.maxTokens,
+          personaId,
+        });
+
+        const sanitized = enforceContentFilter(response.trim());
+        const parsed = parseDebatePayload(sanitized, {
+          personaId,
+          personaName: promptResult.persona.name,
+          round,
+        });
+        roundAnalyses.push(
+          buildPersonaAnalysis(personaId, promptResult.persona.name, parsed, sequence, sanitized, round)
+        );
+
+        const turnTokens = measureTokens(messages, sanitized, usage);
+        addTokenUsage(personaTokens, personaId, turnTokens);
+        personaLatency[personaId] = (personaLatency[personaId] ?? 0) + Date.now() - personaStart;
+
+        await db.boardPersonaTurn.create({
+          data: {
+            meetingId,
+            tenantId,
+            persona: personaId,
+            role: personaId,
+            content: sanitized,
+            metrics: toInputJson({
+              tokens: turnTokens,
+              personaName: promptResult.persona.name,
+              round,
+              parsed,
+            }),
+            sequence,
+            streamedAt: new Date(),
+          },
+        });
+
+        // Dissenting recommendations become candidate action items for the board to triage
+        for (const dissent of parsed.dissent ?? []) {
+          if (!dissent.recommendation) {
+            continue;
+          }
+          await db.boardActionItem.create({
+            data: {
+              meetingId,
+              tenantId,
+              title: dissent.recommendation.title,
+              description: dissent.recommendation.rationale ?? dissent.point,
+              status: 'open',
+              priority: mapTaskPriority(dissent.recommendation.priority),
+              metadata: toInputJson({
+                personaId,
+                ownerHint: dissent.recommendation.ownerHint,
+                dueDateHint: dissent.recommendation.dueDateHint,
+                source: 'dissent',
+                candidate: true,
+                dissentAgainst: dissent.against,
+                dissentPoint: dissent.point,
+                round,
+              }),
+            },
+          });
+        }
+      }
+
+      personaAnalyses.push(...roundAnalyses);
+      previousRound = roundAnalyses;
+    }
+
     await job.updateProgress({
       phase: 'summary',
       percentage: 85,
@@ -264,7 +435,7 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
     });
 
     const endedAt = new Date();
-  const summary = buildMeetingSummary(personaAnalyses);
+    const summary = buildMeetingSummary(personaAnalyses);
     const metrics = buildMeetingMetrics(
       new Date(startedAt),
       endedAt,
@@ -276,7 +447,7 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
             return undefined;
           }
           const record = parseJsonRecord(item.metadata);
-          return toOptionalPersonaId(record.personaId);
+          return isPersonaId(record.personaId, seats) ? record.personaId : undefined;
         })(),
       })),
       personaLatency
@@ -293,6 +464,7 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
           metrics,
           personaOrder: agenda.map((item) => item.personaId),
           agendaVersion,
+          debateRounds,
         }),
         endedAt,
       },
@@ -306,6 +478,7 @@ async function processBoardMeeting(job: Job<BoardMeetingJobData>): Promise<Board
 
     logger.info('Board meeting orchestration finished', {
       meetingId,
+      debateRounds,
       personaCount: personaAnalyses.length,
       actionItems: allActionItems.length,
     });
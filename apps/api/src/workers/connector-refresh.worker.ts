@@ -0,0 +1,110 @@
+import { Worker, Job } from 'bullmq';
+import {
+  getRedisConnection,
+  connectorRefreshQueue,
+  QUEUE_NAMES,
+  type ConnectorRefreshJobData,
+} from '../queue/index.js';
+import { workerLogger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import {
+  listTenantsWithConnectors,
+  refreshExpiringConnectors,
+} from '../services/connectors/connector-health.js';
+import { instrumentWorker } from '../observability/worker-metrics.js';
+
+const CONNECTOR_REFRESH_JOB_NAME = 'connector-refresh';
+const CONNECTOR_REFRESH_REPEAT_ID = 'connector-refresh-recurring';
+
+interface ConnectorRefreshRunResult {
+  refreshed: number;
+  failed: number;
+  errored: number;
+  durationMs: number;
+}
+
+async function processConnectorRefreshJob(
+  job: Job<ConnectorRefreshJobData>
+): Promise<ConnectorRefreshRunResult> {
+  const startedAt = Date.now();
+  const now = new Date();
+  const tenants = job.data.tenantId ? [job.data.tenantId] : await listTenantsWithConnectors();
+
+  const totals = { refreshed: 0, failed: 0, errored: 0 };
+
+  for (const tenantId of tenants) {
+    try {
+      const results = await refreshExpiringConnectors(tenantId, now);
+      for (const result of results) {
+        totals[result.outcome] += 1;
+      }
+    } catch (error) {
+      workerLogger.error('Connector refresh failed for tenant', {
+        tenantId,
+        jobId: job.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const durationMs = Date.now() - startedAt;
+
+  workerLogger.info('Connector refresh job completed', {
+    jobId: job.id,
+    triggeredBy: job.data.triggeredBy,
+    tenants: tenants.length,
+    ...totals,
+    durationMs,
+  });
+
+  return { ...totals, durationMs };
+}
+
+export const createConnectorRefreshWorker = (): Worker<ConnectorRefreshJobData> => {
+  const worker = instrumentWorker(
+    new Worker<ConnectorRefreshJobData>(
+      QUEUE_NAMES.CONNECTOR_REFRESH,
+      async (job) => processConnectorRefreshJob(job),
+      {
+        connection: getRedisConnection(),
+        concurrency: 1,
+      }
+    )
+  );
+
+  worker.on('failed', (job, error) => {
+    workerLogger.error('Connector refresh job failed', {
+      jobId: job?.id,
+      tenantId: job?.data?.tenantId ?? 'all-tenants',
+      error: error?.message,
+    });
+  });
+
+  return worker;
+};
+
+export async function ensureConnectorRefreshSchedule(): Promise<void> {
+  const cronPattern = config.connectorRefreshCron;
+  const repeatables = await connectorRefreshQueue.getRepeatableJobs();
+  await Promise.all(
+    repeatables
+      .filter((job) => job.id === CONNECTOR_REFRESH_REPEAT_ID || job.name === CONNECTOR_REFRESH_JOB_NAME)
+      .map((job) => connectorRefreshQueue.removeRepeatableByKey(job.key))
+  );
+
+  await connectorRefreshQueue.add(
+    CONNECTOR_REFRESH_JOB_NAME,
+    {},
+    {
+      jobId: CONNECTOR_REFRESH_REPEAT_ID,
+      repeat: {
+        pattern: cronPattern,
+        tz: 'UTC',
+      },
+    }
+  );
+
+  workerLogger.info('Registered connector refresh cron job', {
+    pattern: cronPattern,
+  });
+}
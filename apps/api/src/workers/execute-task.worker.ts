@@ -12,6 +12,7 @@ import { workerLogger, createContextLogger } from '../utils/logger.js';
 import { instrumentWorker } from '../observability/worker-metrics.js';
 import { incrementJobCompletion, incrementJobFailure } from '../utils/metrics.js';
 import { toInputJson } from '../utils/json.js';
+import { publishTaskUpdate } from '../services/tenant-events.js';
 
 /**
  * Progress tracking interface
@@ -98,13 +99,14 @@ const processTaskExecution = async (
     }
 
     // Update task status to running
-    await db.task.update({
+    const runningTask = await db.task.update({
       where: { id: taskId },
       data: {
         status: 'running',
         error: null,
       },
     });
+    publishTaskUpdate(runningTask);
 
     logger.info('Task found and marked as running', {
       taskType: task.type,
@@ -194,7 +196,7 @@ const processTaskExecution = async (
     } as TaskProgress);
 
     // Update task with result
-    await db.task.update({
+    const completedTask = await db.task.update({
       where: { id: taskId },
       data: {
         status: 'completed',
@@ -203,6 +205,7 @@ const processTaskExecution = async (
         error: null,
       },
     });
+    publishTaskUpdate(completedTask);
 
     // STUB: Trigger any post-execution hooks
     // In production:
@@ -249,13 +252,14 @@ const processTaskExecution = async (
     if (job.attemptsMade >= config.queueMaxRetries) {
       try {
         const db = createTenantClient({ tenantId, userId });
-        await db.task.update({
+        const updatedTask = await db.task.update({
           where: { id: taskId },
           data: {
             status: 'failed',
             error: errorMessage,
           },
         });
+        publishTaskUpdate(updatedTask);
         await db.$disconnect();
       } catch (updateError) {
         logger.error('Failed to update task status', {
@@ -266,13 +270,14 @@ const processTaskExecution = async (
       // Mark as pending for retry
       try {
         const db = createTenantClient({ tenantId, userId });
-        await db.task.update({
+        const updatedTask = await db.task.update({
           where: { id: taskId },
           data: {
             status: 'pending',
             error: `Attempt ${job.attemptsMade} failed: ${errorMessage}`,
           },
         });
+        publishTaskUpdate(updatedTask);
         await db.$disconnect();
       } catch (updateError) {
         logger.error('Failed to update task status for retry', {
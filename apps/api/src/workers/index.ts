@@ -24,9 +24,20 @@ import { startGrowthPulseWorker } from './modules/growth-pulse.worker.js';
 import { createBoardMeetingWorker } from './board-meeting.worker.js';
 import { createActionExecutorWorker } from './action-executor.worker.js';
 import { workerLogger } from '../utils/logger.js';
+import { closeTenantEvents } from '../services/tenant-events.js';
+import { loadMcpModules, closeMcpConnections } from '../modules/mcp/index.js';
 import { startKnowledgeRetentionWorker, defaultKnowledgeRetentionRepeat } from './knowledge-retention.worker.js';
 import { startTriggerRunnerWorker, ensureTriggerRunnerSchedule } from './trigger-runner.worker.js';
+import { createConnectorRefreshWorker, ensureConnectorRefreshSchedule } from './connector-refresh.worker.js';
+import { createKeyRotationWorker } from './key-rotation.worker.js';
+import {
+  createNotificationDeliveryWorker,
+  ensureNotificationDeliverySchedule,
+} from './notification-delivery.worker.js';
+import { createApprovalExpiryWorker, ensureApprovalExpirySchedule } from './approval-expiry.worker.js';
+import { createActionSchedulerWorker, ensureActionSchedulerSchedule } from './action-scheduler.worker.js';
 import { checkDatabaseHealth } from '@ocsuite/db';
+import { initializeCrypto } from '@ocsuite/crypto';
 import { config } from '../config/index.js';
 import { initializeTelemetry, shutdownTelemetry, parseOtlpHeaders } from '../observability/telemetry.js';
 
@@ -55,12 +66,27 @@ class WorkerManager {
         logLevel: config.observability.logLevel,
       });
 
+      // Workers decrypt connector tokens and knowledge content
+      initializeCrypto({
+        currentKey: config.masterEncryptionKey,
+        currentKeyVersion: config.masterEncryptionKeyVersion,
+        previousKeys: Object.keys(config.masterEncryptionPreviousKeys ?? {}).length
+          ? config.masterEncryptionPreviousKeys
+          : undefined,
+      });
+
       // Check system health
       await this.checkSystemHealth();
 
       // Initialize queues
       await initializeQueues();
 
+      // The action executor runs MCP tools, so it needs their capabilities too
+      if (config.mcpModules.servers.length) {
+        workerLogger.info('Loading MCP modules...');
+        await loadMcpModules();
+      }
+
       // Create and start workers
       workerLogger.info('Creating workers...');
 
@@ -72,9 +98,18 @@ class WorkerManager {
       const growthPulseWorker = startGrowthPulseWorker();
       const triggerRunnerWorker = startTriggerRunnerWorker();
       const knowledgeRetentionWorker = startKnowledgeRetentionWorker();
+      const connectorRefreshWorker = createConnectorRefreshWorker();
+      const keyRotationWorker = createKeyRotationWorker();
+      const notificationDeliveryWorker = createNotificationDeliveryWorker();
+      const approvalExpiryWorker = createApprovalExpiryWorker();
+      const actionSchedulerWorker = createActionSchedulerWorker();
 
       await this.ensureKnowledgeRetentionSchedule();
       await ensureTriggerRunnerSchedule();
+      await ensureConnectorRefreshSchedule();
+      await ensureNotificationDeliverySchedule();
+      await ensureApprovalExpirySchedule();
+      await ensureActionSchedulerSchedule();
 
       this.workers.push(
         syncConnectorWorker,
@@ -84,7 +119,12 @@ class WorkerManager {
         boardMeetingWorker,
         growthPulseWorker,
         triggerRunnerWorker,
-        knowledgeRetentionWorker
+        knowledgeRetentionWorker,
+        connectorRefreshWorker,
+        keyRotationWorker,
+        notificationDeliveryWorker,
+        approvalExpiryWorker,
+        actionSchedulerWorker
       );
 
       workerLogger.info('All workers started successfully', {
@@ -274,9 +314,11 @@ class WorkerManager {
         })
       );
 
-      // Close queues and Redis connection
+      // Close queues and Redis connections
       workerLogger.info('Closing queues...');
       await closeQueues();
+      await closeTenantEvents();
+      await closeMcpConnections();
 
       workerLogger.info('Shutting down telemetry...');
       await shutdownTelemetry();
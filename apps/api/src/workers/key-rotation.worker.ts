@@ -0,0 +1,133 @@
+import { Worker, Job } from 'bullmq';
+import { prisma } from '@ocsuite/db';
+import {
+  getRedisConnection,
+  keyRotationDLQ,
+  QUEUE_NAMES,
+  type DLQJobData,
+  type KeyRotationJobData,
+} from '../queue/index.js';
+import { config } from '../config/index.js';
+import { workerLogger } from '../utils/logger.js';
+import {
+  isKeyRotationProgress,
+  runKeyRotation,
+  verifyKeyRotation,
+  type KeyRotationProgress,
+  type KeyRotationVerification,
+} from '../services/key-rotation.js';
+import { instrumentWorker } from '../observability/worker-metrics.js';
+
+interface KeyRotationJobResult {
+  rotation: KeyRotationProgress | null;
+  verification: KeyRotationVerification | null;
+}
+
+/**
+ * Rotation jobs checkpoint into `job.progress` after every batch, so a retry
+ * continues where the failed attempt stopped.
+ */
+async function processKeyRotationJob(job: Job<KeyRotationJobData>): Promise<KeyRotationJobResult> {
+  const { mode, targetVersion, targets, batchSize, tenantId } = job.data;
+  const dryRun = !!job.data.dryRun;
+
+  workerLogger.info('Starting key rotation job', {
+    jobId: job.id,
+    mode,
+    targetVersion,
+    targets,
+    tenantId: tenantId ?? 'all-tenants',
+    dryRun,
+    attemptsMade: job.attemptsMade,
+  });
+
+  if (mode === 'verify') {
+    return {
+      rotation: null,
+      verification: await verifyKeyRotation(prisma, { targetVersion, targets, batchSize, tenantId }),
+    };
+  }
+
+  const resumeFrom = isKeyRotationProgress(job.progress) ? job.progress : job.data.resumeFrom ?? null;
+
+  const rotation = await runKeyRotation(
+    prisma,
+    { targetVersion, targets, batchSize, dryRun, tenantId },
+    {
+      resumeFrom,
+      onProgress: (progress) => job.updateProgress(progress),
+    }
+  );
+
+  const verification = dryRun
+    ? null
+    : await verifyKeyRotation(prisma, { targetVersion, targets, batchSize, tenantId });
+
+  return { rotation, verification };
+}
+
+const moveToDLQ = async (job: Job<KeyRotationJobData>, error: Error): Promise<void> => {
+  const dlqData: DLQJobData = {
+    originalQueue: QUEUE_NAMES.KEY_ROTATION,
+    originalJobId: job.id!,
+    tenantId: job.data.tenantId ?? 'all-tenants',
+    failedData: { ...job.data, progress: job.progress },
+    failureReason: error.message,
+    failedAt: new Date().toISOString(),
+    attemptsMade: job.attemptsMade,
+  };
+
+  try {
+    await keyRotationDLQ.add('key-rotation-failed', dlqData, {
+      removeOnComplete: false,
+      removeOnFail: false,
+    });
+  } catch (dlqError) {
+    workerLogger.error('Failed to move key rotation job to DLQ', {
+      jobId: job.id,
+      error: dlqError instanceof Error ? dlqError.message : 'Unknown error',
+    });
+  }
+};
+
+export const createKeyRotationWorker = (): Worker<KeyRotationJobData> => {
+  const worker = instrumentWorker(
+    new Worker<KeyRotationJobData>(
+      QUEUE_NAMES.KEY_ROTATION,
+      async (job) => processKeyRotationJob(job),
+      {
+        connection: getRedisConnection(),
+        concurrency: 1,
+      }
+    )
+  );
+
+  worker.on('completed', (job, result: KeyRotationJobResult) => {
+    workerLogger.info('Key rotation job completed', {
+      jobId: job.id,
+      mode: job.data.mode,
+      counts: result.rotation?.counts,
+      verified: result.verification?.ok ?? null,
+      retirableVersions: result.verification?.retirableVersions ?? [],
+    });
+  });
+
+  worker.on('failed', async (job, error) => {
+    if (!job) {
+      return;
+    }
+
+    workerLogger.error('Key rotation job failed', {
+      jobId: job.id,
+      mode: job.data.mode,
+      error: error.message,
+      attemptsMade: job.attemptsMade,
+    });
+
+    if (job.attemptsMade >= config.queueMaxRetries) {
+      await moveToDLQ(job, error);
+    }
+  });
+
+  return worker;
+};
@@ -3,7 +3,7 @@ import { getRedisConnection, alertsQueue } from '../../queue/index.js';
 import { createTenantClient } from '@ocsuite/db';
 import { workerLogger } from '../../utils/logger.js';
 import { instrumentWorker } from '../../observability/worker-metrics.js';
-import { streamCompletion } from '../../services/llm/fireworks-client.js';
+import { streamCompletion } from '../../services/llm/llm-client.js';
 import { toInputJson } from '../../utils/json.js';
 import {
   calculateMetrics,
@@ -172,6 +172,7 @@ async function generateInsightWithLLM(
     tenantId,
     userId,
     maxTokens: 1024,
+    operation: 'growth-pulse',
   })) {
     if (!chunk.done) {
       fullResponse += chunk.content;
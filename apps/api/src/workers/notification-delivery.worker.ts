@@ -0,0 +1,122 @@
+import { Worker, Job } from 'bullmq';
+import {
+  getRedisConnection,
+  notificationDeliveryQueue,
+  QUEUE_NAMES,
+  type NotificationDeliveryJobData,
+} from '../queue/index.js';
+import { workerLogger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import {
+  deliverPendingNotifications,
+  listTenantsWithPendingDeliveries,
+  type DeliveryTotals,
+} from '../services/notification-delivery.js';
+import { createEmailTransport, createSlackTransport } from '../services/notification-transports.js';
+import { instrumentWorker } from '../observability/worker-metrics.js';
+
+const NOTIFICATION_DELIVERY_JOB_NAME = 'notification-delivery';
+const NOTIFICATION_DELIVERY_REPEAT_ID = 'notification-delivery-recurring';
+
+interface NotificationDeliveryRunResult extends DeliveryTotals {
+  tenants: number;
+  durationMs: number;
+}
+
+async function processNotificationDeliveryJob(
+  job: Job<NotificationDeliveryJobData>
+): Promise<NotificationDeliveryRunResult> {
+  const startedAt = Date.now();
+  const now = new Date();
+  const tenants = job.data.tenantId ? [job.data.tenantId] : await listTenantsWithPendingDeliveries(now);
+
+  const totals: DeliveryTotals = { delivered: 0, retrying: 0, failed: 0 };
+  if (!tenants.length) {
+    return { ...totals, tenants: 0, durationMs: Date.now() - startedAt };
+  }
+
+  const transports = {
+    email: createEmailTransport(),
+    slack: createSlackTransport(),
+  };
+
+  try {
+    for (const tenantId of tenants) {
+      try {
+        const result = await deliverPendingNotifications(tenantId, { transports, now });
+        totals.delivered += result.delivered;
+        totals.retrying += result.retrying;
+        totals.failed += result.failed;
+      } catch (error) {
+        workerLogger.error('Notification delivery failed for tenant', {
+          tenantId,
+          jobId: job.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  } finally {
+    transports.email?.close();
+  }
+
+  const durationMs = Date.now() - startedAt;
+
+  workerLogger.info('Notification delivery job completed', {
+    jobId: job.id,
+    triggeredBy: job.data.triggeredBy,
+    tenants: tenants.length,
+    ...totals,
+    durationMs,
+  });
+
+  return { ...totals, tenants: tenants.length, durationMs };
+}
+
+export const createNotificationDeliveryWorker = (): Worker<NotificationDeliveryJobData> => {
+  const worker = instrumentWorker(
+    new Worker<NotificationDeliveryJobData>(
+      QUEUE_NAMES.NOTIFICATION_DELIVERY,
+      async (job) => processNotificationDeliveryJob(job),
+      {
+        connection: getRedisConnection(),
+        concurrency: 1,
+      }
+    )
+  );
+
+  worker.on('failed', (job, error) => {
+    workerLogger.error('Notification delivery job failed', {
+      jobId: job?.id,
+      tenantId: job?.data?.tenantId ?? 'all-tenants',
+      error: error?.message,
+    });
+  });
+
+  return worker;
+};
+
+export async function ensureNotificationDeliverySchedule(): Promise<void> {
+  const cronPattern = config.notifications.deliveryCron;
+  const repeatables = await notificationDeliveryQueue.getRepeatableJobs();
+  await Promise.all(
+    repeatables
+      .filter((job) => job.id === NOTIFICATION_DELIVERY_REPEAT_ID || job.name === NOTIFICATION_DELIVERY_JOB_NAME)
+      .map((job) => notificationDeliveryQueue.removeRepeatableByKey(job.key))
+  );
+
+  await notificationDeliveryQueue.add(
+    NOTIFICATION_DELIVERY_JOB_NAME,
+    {},
+    {
+      jobId: NOTIFICATION_DELIVERY_REPEAT_ID,
+      repeat: {
+        pattern: cronPattern,
+        tz: 'UTC',
+      },
+    }
+  );
+
+  workerLogger.info('Registered notification delivery cron job', {
+    pattern: cronPattern,
+  });
+}
@@ -10,6 +10,11 @@ import {
 import { config } from '../config/index.js';
 import { workerLogger, createContextLogger } from '../utils/logger.js';
 import { instrumentWorker } from '../observability/worker-metrics.js';
+import { enqueueSyncAnalytics } from '../queue/client.js';
+import { runConnectorSync } from '../services/connectors/connector-sync.js';
+import { needsTokenRefresh, refreshConnectorToken } from '../services/connectors/connector-health.js';
+import { getConnectorProvider } from '../services/connectors/providers/index.js';
+import { parseJsonRecord, toInputJson } from '../utils/json.js';
 
 /**
  * Progress tracking interface
@@ -36,13 +41,10 @@ interface SyncResult {
 /**
  * Process sync connector job
  *
- * This is a stub implementation that demonstrates the worker pattern.
- * In production, this would:
- * 1. Fetch the connector from database
- * 2. Decrypt access tokens
- * 3. Call the provider's API
- * 4. Process and store data
- * 5. Update lastSyncedAt
+ * Decrypts the connector's access token, pulls recent data through the
+ * provider definition, ingests documents into the knowledge base and merges
+ * daily metrics into AnalyticsSnapshot. Google Analytics connectors are
+ * handed to the sync-analytics queue.
  */
 const processSyncConnector = async (
   job: Job<SyncConnectorJobData>
@@ -73,7 +75,7 @@ const processSyncConnector = async (
     } as SyncProgress);
 
     // Fetch connector from database
-    const connector = await db.connector.findUnique({
+    let connector = await db.connector.findUnique({
       where: {
         id: connectorId,
         tenantId, // Double-check tenant isolation
@@ -84,8 +86,8 @@ const processSyncConnector = async (
       throw new Error(`Connector ${connectorId} not found for tenant ${tenantId}`);
     }
 
-    if (connector.status !== 'active') {
-      throw new Error(`Connector ${connectorId} is not active (status: ${connector.status})`);
+    if (connector.status === 'disconnected') {
+      throw new Error(`Connector ${connectorId} is disconnected`);
     }
 
     logger.info('Connector found', {
@@ -93,66 +95,42 @@ const processSyncConnector = async (
       status: connector.status,
     });
 
-    // Phase 2: Fetching data
-    await job.updateProgress({
-      phase: 'fetching',
-      percentage: 25,
-      message: `Fetching data from ${connector.provider}`,
-    } as SyncProgress);
-
-    // STUB: In production, decrypt tokens and call provider API
-    // const accessToken = await decrypt(connector.encryptedAccessToken);
-    // const data = await fetchFromProvider(connector.provider, accessToken);
-
-    // Simulate API call delay
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    const mockItemsToSync = Math.floor(Math.random() * 50) + 10;
+    if (!getConnectorProvider(connector.provider).sync) {
+      const { jobId } = await enqueueSyncAnalytics(tenantId, connectorId, {
+        triggeredBy: triggeredBy ?? 'sync-connector',
+      });
+      await db.$disconnect();
 
-    // Phase 3: Processing data
-    await job.updateProgress({
-      phase: 'processing',
-      percentage: 50,
-      message: 'Processing fetched data',
-      itemsTotal: mockItemsToSync,
-      itemsProcessed: 0,
-    } as SyncProgress);
+      logger.info('Delegated connector sync to analytics queue', { analyticsJobId: jobId });
 
-    // STUB: Process items in batches
-    let itemsProcessed = 0;
-    for (let i = 0; i < mockItemsToSync; i += 10) {
-      // Simulate processing
-      await new Promise((resolve) => setTimeout(resolve, 200));
-      itemsProcessed = Math.min(i + 10, mockItemsToSync);
-
-      await job.updateProgress({
-        phase: 'processing',
-        percentage: 50 + (itemsProcessed / mockItemsToSync) * 25,
-        message: `Processing items: ${itemsProcessed}/${mockItemsToSync}`,
-        itemsTotal: mockItemsToSync,
-        itemsProcessed,
-      } as SyncProgress);
+      return {
+        success: true,
+        itemsSynced: 0,
+        errors: [],
+        syncedAt: new Date().toISOString(),
+        duration: Date.now() - startTime,
+      };
     }
 
-    // Phase 4: Storing data
-    await job.updateProgress({
-      phase: 'storing',
-      percentage: 75,
-      message: 'Storing processed data',
-    } as SyncProgress);
+    // Renew tokens that lapse mid-sync instead of waiting for the refresh cron
+    if (needsTokenRefresh(connector)) {
+      const refresh = await refreshConnectorToken(db, connector);
+      if (refresh.outcome !== 'refreshed') {
+        throw new Error(`Token refresh failed: ${refresh.error ?? 'unknown error'}`);
+      }
+      connector = refresh.connector;
+    }
 
-    // STUB: Store data in knowledge base
-    // In production:
-    // await db.knowledgeEntry.createMany({
-    //   data: processedItems.map(item => ({
-    //     tenantId,
-    //     source: `${connector.provider}:${connectorId}`,
-    //     content: item.content,
-    //     metadata: item.metadata,
-    //   })),
-    // });
+    const phasePercentages = { fetching: 25, processing: 50, storing: 75 } as const;
+    const summary = await runConnectorSync(db, connector, (phase, message) =>
+      job.updateProgress({
+        phase,
+        percentage: phasePercentages[phase],
+        message,
+      } as SyncProgress)
+    );
 
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    const itemsSynced = summary.documents + summary.snapshots;
 
     // Update connector lastSyncedAt
     await db.connector.update({
@@ -160,6 +138,10 @@ const processSyncConnector = async (
       data: {
         lastSyncedAt: new Date(),
         status: 'active',
+        metadata: toInputJson({
+          ...(connector.metadata ? parseJsonRecord(connector.metadata) : {}),
+          lastSync: summary,
+        }),
       },
     });
 
@@ -173,7 +155,7 @@ const processSyncConnector = async (
     const duration = Date.now() - startTime;
 
     logger.info('Connector sync completed', {
-      itemsSynced: mockItemsToSync,
+      ...summary,
       duration,
     });
 
@@ -182,7 +164,7 @@ const processSyncConnector = async (
 
     return {
       success: true,
-      itemsSynced: mockItemsToSync,
+      itemsSynced,
       errors: [],
       syncedAt: new Date().toISOString(),
       duration,
@@ -205,6 +187,8 @@ const processSyncConnector = async (
           where: { id: connectorId },
           data: {
             status: 'error',
+            lastError: errorMessage.slice(0, 2000),
+            lastErrorAt: new Date(),
           },
         });
         await db.$disconnect();
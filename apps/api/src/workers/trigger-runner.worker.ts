@@ -7,8 +7,12 @@ import {
 } from '../queue/index.js';
 import { workerLogger } from '../utils/logger.js';
 import { config } from '../config/index.js';
-import { prisma, withTenantContext } from '@ocsuite/db';
-import { evaluateTenantTriggers } from '../services/trigger-engine.js';
+import { createTenantClient, prisma, withTenantContext } from '@ocsuite/db';
+import {
+  evaluateTenantTriggers,
+  followUpRaisedAlerts,
+  type RaisedAlert,
+} from '../services/trigger-engine.js';
 import { instrumentWorker } from '../observability/worker-metrics.js';
 
 const TRIGGER_RUNNER_JOB_NAME = 'trigger-runner';
@@ -65,13 +69,24 @@ async function processTriggerJob(job: Job<TriggerRunnerJobData>): Promise<Trigge
 
   for (const tenantId of tenants) {
     try {
+      const raised: RaisedAlert[] = [];
       const triggered = await withTenantContext(prisma, tenantId, async (tx) => {
         return evaluateTenantTriggers(tx, {
           tenantId,
           now,
+          raised,
         });
       });
 
+      if (raised.length) {
+        const db = createTenantClient({ tenantId });
+        try {
+          await followUpRaisedAlerts(db, raised);
+        } finally {
+          await db.$disconnect();
+        }
+      }
+
       perTenant.push({ tenantId, triggered });
       triggeredTotal += triggered;
 
@@ -0,0 +1,50 @@
+// Minimal stdio MCP server used by the MCP module adapter tests
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+// ECHO_UNSCOPED=1 leaves out the tenant scope declaration
+const experimental = process.env.ECHO_UNSCOPED ? {} : { 'ocsuite/tenant-scope': {} };
+const server = new Server({ name: 'echo-server', version: '2.1.0' }, { capabilities: { tools: {}, experimental } });
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    {
+      name: 'get_pipeline_stats',
+      description: 'Pipeline statistics',
+      inputSchema: { type: 'object', properties: { period: { type: 'string' } } },
+      annotations: { readOnlyHint: true },
+    },
+    {
+      name: 'add_prospect',
+      description: 'Create a prospect',
+      inputSchema: {
+        type: 'object',
+        properties: { company_name: { type: 'string' } },
+        required: ['company_name'],
+      },
+    },
+  ],
+}));
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const delayMs = Number(request.params.arguments?.delayMs ?? 0);
+  if (delayMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  if (request.params.arguments?.fail) {
+    return { content: [{ type: 'text', text: 'Prospect already exists' }], isError: true };
+  }
+
+  const payload = {
+    tool: request.params.name,
+    arguments: request.params.arguments ?? {},
+    tenantFromEnv: process.env.OCSUITE_TENANT_ID ?? null,
+    tenantFromMeta: request.params._meta?.tenantId ?? null,
+    pid: process.pid,
+  };
+  return { content: [{ type: 'text', text: JSON.stringify(payload) }] };
+});
+
+await server.connect(new StdioServerTransport());
@@ -1,14 +1,48 @@
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
 import express from 'express';
 import request from 'supertest';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { Application } from 'express';
 
 import { config } from '../../src/config/index.js';
+import { captureRawBody } from '../../src/middleware/raw-body.js';
 import billingRoutes from '../../src/routes/billing.routes.js';
 
-const { applyBillingUsageDeltaMock } = vi.hoisted(() => ({
-  applyBillingUsageDeltaMock: vi.fn(),
-}));
+const {
+  applyBillingUsageDeltaMock,
+  billingEventMock,
+  tenantMock,
+  notifyBillingPaymentFailedMock,
+  tenantDisconnectMock,
+  KnownRequestError,
+} = vi.hoisted(() => {
+  class KnownRequestError extends Error {
+    code: string;
+
+    constructor(message: string, code: string) {
+      super(message);
+      this.code = code;
+    }
+  }
+
+  return {
+    applyBillingUsageDeltaMock: vi.fn(),
+    billingEventMock: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    tenantMock: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    notifyBillingPaymentFailedMock: vi.fn(),
+    tenantDisconnectMock: vi.fn(),
+    KnownRequestError,
+  };
+});
 
 vi.mock('../../src/services/billing.js', () => ({
   getBillingUsage: vi.fn(),
@@ -20,17 +54,86 @@ vi.mock('../../src/services/billing.js', () => ({
   applyBillingUsageDelta: applyBillingUsageDeltaMock,
 }));
 
+vi.mock('@ocsuite/db', () => ({
+  prisma: {
+    billingEvent: billingEventMock,
+    tenant: tenantMock,
+  },
+  createTenantClient: vi.fn(() => ({ $disconnect: tenantDisconnectMock })),
+  Prisma: {
+    PrismaClientKnownRequestError: KnownRequestError,
+  },
+}));
+
+vi.mock('../../src/services/notifications.js', () => ({
+  notifyBillingPaymentFailed: notifyBillingPaymentFailedMock,
+}));
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const STARTER_PRICE = 'price_1QfA1zLkdIwHu7ixStarter';
+const GROWTH_PRICE = 'price_1QgB6xLkdIwHu7ixGrowth';
+const SUBSCRIPTION_ID = 'sub_1QfA2aLkdIwHu7ixSubA001';
+const CUSTOMER_ID = 'cus_R7z3TestCustomer';
+const TENANT_ID = 'tenant-stripe-001';
+
+function loadFixture(name: string): string {
+  return readFileSync(new URL(`../fixtures/stripe/${name}.json`, import.meta.url), 'utf8');
+}
+
+function signPayload(payload: string, secret = WEBHOOK_SECRET, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
 function createTestApp(): Application {
   const app = express();
-  app.use(express.json());
+  app.use(express.json({ verify: captureRawBody }));
   app.use('/billing', billingRoutes);
   return app;
 }
 
+function sendSigned(payload: string, signature = signPayload(payload)) {
+  return request(createTestApp())
+    .post('/billing/webhook')
+    .set('content-type', 'application/json')
+    .set('stripe-signature', signature)
+    .send(payload);
+}
+
+function mockTenant(overrides: Record<string, unknown> = {}) {
+  const tenant = {
+    id: TENANT_ID,
+    plan: 'free',
+    subscriptionStatus: 'none',
+    stripeSubscriptionId: null,
+    ...overrides,
+  };
+
+  tenantMock.findUnique.mockImplementation(async ({ where }: { where: Record<string, string> }) => {
+    if (where.id === tenant.id) return tenant;
+    if (where.stripeSubscriptionId && where.stripeSubscriptionId === tenant.stripeSubscriptionId) return tenant;
+    if (where.stripeCustomerId === CUSTOMER_ID) return tenant;
+    return null;
+  });
+
+  return tenant;
+}
+
 describe('POST /billing/webhook', () => {
   beforeEach(() => {
     applyBillingUsageDeltaMock.mockReset();
+    billingEventMock.create.mockReset().mockResolvedValue({});
+    billingEventMock.findUnique.mockReset();
+    billingEventMock.update.mockReset().mockResolvedValue({});
+    billingEventMock.updateMany.mockReset().mockResolvedValue({ count: 0 });
+    tenantMock.findUnique.mockReset().mockResolvedValue(null);
+    tenantMock.update.mockReset().mockResolvedValue({});
+    notifyBillingPaymentFailedMock.mockReset().mockResolvedValue(undefined);
+    tenantDisconnectMock.mockReset().mockResolvedValue(undefined);
+    config.nodeEnv = 'test';
     config.stripe.webhookSecret = null;
+    config.stripe.webhookToleranceSeconds = 300;
+    config.stripe.pricePlans = {};
   });
 
   it('accepts a valid webhook event and forwards usage deltas', async () => {
@@ -87,6 +190,12 @@ describe('POST /billing/webhook', () => {
         },
       },
     });
+    expect(billingEventMock.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'evt_123' },
+        data: expect.objectContaining({ status: 'processed', tenantId: 'tenant-abc' }),
+      })
+    );
   });
 
   it('ignores payloads that do not specify a tenant identifier', async () => {
@@ -129,4 +238,200 @@ describe('POST /billing/webhook', () => {
     });
     expect(applyBillingUsageDeltaMock).not.toHaveBeenCalled();
   });
+
+  it('rejects payloads signed with a different secret', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    const payload = loadFixture('customer.subscription.created');
+
+    const response = await sendSigned(payload, signPayload(payload, 'whsec_other'));
+
+    expect(response.status).toBe(401);
+    expect(billingEventMock.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects signatures outside the replay tolerance', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    const payload = loadFixture('customer.subscription.created');
+    const staleTimestamp = Math.floor(Date.now() / 1000) - 301;
+
+    const response = await sendSigned(payload, signPayload(payload, WEBHOOK_SECRET, staleTimestamp));
+
+    expect(response.status).toBe(401);
+    expect(tenantMock.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses unsigned webhooks in production when no secret is configured', async () => {
+    config.nodeEnv = 'production';
+
+    const response = await request(createTestApp())
+      .post('/billing/webhook')
+      .send(JSON.parse(loadFixture('customer.subscription.created')));
+
+    expect(response.status).toBe(503);
+    expect(tenantMock.update).not.toHaveBeenCalled();
+  });
+
+  it('starts a subscription from customer.subscription.created', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    mockTenant();
+
+    const response = await sendSigned(loadFixture('customer.subscription.created'));
+
+    expect(response.status).toBe(202);
+    expect(response.body).toEqual({ status: 'processed' });
+    expect(billingEventMock.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        id: 'evt_1QfA2bLkdIwHu7ix0sub0001',
+        type: 'customer.subscription.created',
+        status: 'received',
+      }),
+    });
+    expect(tenantMock.update).toHaveBeenCalledWith({
+      where: { id: TENANT_ID },
+      data: {
+        plan: 'starter',
+        subscriptionStatus: 'trialing',
+        stripeCustomerId: CUSTOMER_ID,
+        stripeSubscriptionId: SUBSCRIPTION_ID,
+        currentPeriodEnd: new Date(1734080398 * 1000),
+      },
+    });
+    expect(billingEventMock.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'evt_1QfA2bLkdIwHu7ix0sub0001' },
+        data: expect.objectContaining({ status: 'processed', tenantId: TENANT_ID }),
+      })
+    );
+  });
+
+  it('maps configured price ids to plans on customer.subscription.updated', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    config.stripe.pricePlans = { [STARTER_PRICE]: 'starter', [GROWTH_PRICE]: 'growth' };
+    mockTenant({ plan: 'starter', subscriptionStatus: 'trialing', stripeSubscriptionId: SUBSCRIPTION_ID });
+
+    const response = await sendSigned(loadFixture('customer.subscription.updated'));
+
+    expect(response.status).toBe(202);
+    expect(tenantMock.update).toHaveBeenCalledWith({
+      where: { id: TENANT_ID },
+      data: expect.objectContaining({
+        plan: 'growth',
+        subscriptionStatus: 'active',
+        stripeSubscriptionId: SUBSCRIPTION_ID,
+      }),
+    });
+  });
+
+  it('downgrades the tenant to the free plan on customer.subscription.deleted', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    mockTenant({ plan: 'growth', subscriptionStatus: 'active', stripeSubscriptionId: SUBSCRIPTION_ID });
+
+    const response = await sendSigned(loadFixture('customer.subscription.deleted'));
+
+    expect(response.status).toBe(202);
+    expect(tenantMock.update).toHaveBeenCalledWith({
+      where: { id: TENANT_ID },
+      data: expect.objectContaining({
+        plan: 'free',
+        subscriptionStatus: 'canceled',
+        stripeSubscriptionId: null,
+      }),
+    });
+  });
+
+  it('ignores deletions of a subscription the tenant has already replaced', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    mockTenant({ plan: 'growth', subscriptionStatus: 'active', stripeSubscriptionId: 'sub_replacement' });
+
+    const response = await sendSigned(loadFixture('customer.subscription.deleted'));
+
+    expect(response.status).toBe(202);
+    expect(response.body).toEqual({ status: 'ignored' });
+    expect(tenantMock.update).not.toHaveBeenCalled();
+  });
+
+  it('marks the subscription past due and notifies owners on invoice.payment_failed', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    mockTenant({ plan: 'growth', subscriptionStatus: 'active', stripeSubscriptionId: SUBSCRIPTION_ID });
+
+    const response = await sendSigned(loadFixture('invoice.payment_failed'));
+
+    expect(response.status).toBe(202);
+    expect(tenantMock.update).toHaveBeenCalledWith({
+      where: { id: TENANT_ID },
+      data: { subscriptionStatus: 'past_due' },
+    });
+    expect(notifyBillingPaymentFailedMock).toHaveBeenCalledWith(expect.anything(), {
+      tenantId: TENANT_ID,
+      invoiceId: 'in_1QiC4cLkdIwHu7ixInv0004',
+      amountDue: 19900,
+      currency: 'usd',
+      attemptCount: 1,
+      nextPaymentAttempt: new Date(1735549200 * 1000).toISOString(),
+      hostedInvoiceUrl: 'https://invoice.stripe.com/i/acct_test/test_invoice_0004',
+    });
+    expect(tenantDisconnectMock).toHaveBeenCalled();
+  });
+
+  it('acknowledges redelivered events without applying them twice', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    mockTenant();
+    billingEventMock.create.mockRejectedValue(new KnownRequestError('Unique constraint failed', 'P2002'));
+    billingEventMock.findUnique.mockResolvedValue({ status: 'processed' });
+
+    const response = await sendSigned(loadFixture('customer.subscription.created'));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ status: 'duplicate' });
+    expect(tenantMock.update).not.toHaveBeenCalled();
+  });
+
+  it('retries events whose earlier delivery failed', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    mockTenant();
+    billingEventMock.create.mockRejectedValue(new KnownRequestError('Unique constraint failed', 'P2002'));
+    billingEventMock.updateMany.mockResolvedValue({ count: 1 });
+
+    const response = await sendSigned(loadFixture('customer.subscription.created'));
+
+    expect(response.status).toBe(202);
+    expect(billingEventMock.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'evt_1QfA2bLkdIwHu7ix0sub0001',
+        OR: [{ status: 'failed' }, { status: 'received', updatedAt: { lt: expect.any(Date) } }],
+      },
+      data: { status: 'received', error: null, attempts: { increment: 1 } },
+    });
+    expect(tenantMock.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves events another delivery is still processing to that delivery', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    mockTenant();
+    billingEventMock.create.mockRejectedValue(new KnownRequestError('Unique constraint failed', 'P2002'));
+    billingEventMock.findUnique.mockResolvedValue({ status: 'received' });
+
+    const response = await sendSigned(loadFixture('customer.subscription.created'));
+
+    expect(response.status).toBe(409);
+    expect(response.body).toMatchObject({ error: 'invalid_state' });
+    expect(tenantMock.update).not.toHaveBeenCalled();
+    expect(billingEventMock.update).not.toHaveBeenCalled();
+  });
+
+  it('records the failure so Stripe can redeliver the event', async () => {
+    config.stripe.webhookSecret = WEBHOOK_SECRET;
+    mockTenant();
+    tenantMock.update.mockRejectedValue(new Error('database unavailable'));
+
+    const response = await sendSigned(loadFixture('customer.subscription.created'));
+
+    expect(response.status).toBe(500);
+    expect(billingEventMock.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'evt_1QfA2bLkdIwHu7ix0sub0001' },
+        data: expect.objectContaining({ status: 'failed', error: 'database unavailable' }),
+      })
+    );
+  });
 });
@@ -11,9 +11,9 @@ const streamCompletionMock = vi.hoisted(() =>
   })
 );
 
-vi.mock('../../src/services/llm/fireworks-client.js', async () => {
-  const actual = await vi.importActual<typeof import('../../src/services/llm/fireworks-client.js')>(
-    '../../src/services/llm/fireworks-client.js'
+vi.mock('../../src/services/llm/llm-client.js', async () => {
+  const actual = await vi.importActual<typeof import('../../src/services/llm/llm-client.js')>(
+    '../../src/services/llm/llm-client.js'
   );
 
   return {
@@ -50,7 +50,10 @@ vi.mock('@clerk/express', () => ({
   },
 }));
 
-vi.mock('@ocsuite/module-sdk', () => {
+// Keep the real schemas and helpers; only the persona catalogue and widget
+// registration are pinned for tests
+vi.mock('@ocsuite/module-sdk', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@ocsuite/module-sdk')>();
   const personas = [
     {
       id: 'ceo',
@@ -128,6 +131,7 @@ vi.mock('@ocsuite/module-sdk', () => {
   };
 
   return {
+    ...actual,
     PERSONAS: personas,
     getPersonaById,
     WidgetRegistrationSchema,
@@ -0,0 +1,540 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+  streamCompletion,
+  estimateTokens,
+  estimateMessagesTokens,
+  LLMRouteError,
+} from '../../../src/services/llm/llm-client.js';
+import type { LLMMessage } from '../../../src/services/llm/llm-client.js';
+
+const { mockResolveLLMRoute, mockRecordUsage, mockTrackLLMTokens } = vi.hoisted(() => ({
+  mockResolveLLMRoute: vi.fn(),
+  mockRecordUsage: vi.fn(),
+  mockTrackLLMTokens: vi.fn(),
+}));
+
+// Mock the config
+vi.mock('../../../src/config/index.js', () => ({
+  config: {
+    fireworks: {
+      apiKey: 'test-api-key',
+      model: 'test-model',
+      maxTokens: 2048,
+      temperature: 0.7,
+    },
+    llm: {
+      provider: 'fireworks',
+      fallbackProviders: [],
+      requestTimeoutMs: 5000,
+      openai: {
+        baseUrl: 'http://llama.local:8080/v1',
+        apiKey: null,
+        model: 'local-gguf',
+      },
+      ollama: {
+        baseUrl: 'http://ollama.local:11434',
+        model: 'llama3.1:8b',
+      },
+    },
+  },
+}));
+
+vi.mock('../../../src/services/llm/model-routing.js', () => ({
+  resolveLLMRoute: mockResolveLLMRoute,
+}));
+
+vi.mock('../../../src/services/quotas.js', () => ({
+  recordUsage: mockRecordUsage,
+}));
+
+vi.mock('../../../src/utils/metrics.js', () => ({
+  trackLLMTokens: mockTrackLLMTokens,
+}));
+
+// Mock the logger
+vi.mock('../../../src/utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function fireworksRoute(fallbackProviders: string[] = []) {
+  return { provider: 'fireworks', model: null, fallbackProviders, source: 'config' };
+}
+
+describe('LLM Client', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockResolveLLMRoute.mockResolvedValue(fireworksRoute());
+    mockRecordUsage.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('estimateTokens', () => {
+    it('should estimate tokens for empty string', () => {
+      expect(estimateTokens('')).toBe(0);
+    });
+
+    it('should estimate tokens for short text', () => {
+      const text = 'Hello world';
+      const tokens = estimateTokens(text);
+      expect(tokens).toBeGreaterThan(0);
+      expect(tokens).toBe(Math.ceil(text.length / 4));
+    });
+
+    it('should estimate tokens for longer text', () => {
+      const text = 'This is a longer piece of text that should result in more tokens being estimated.';
+      const tokens = estimateTokens(text);
+      expect(tokens).toBe(Math.ceil(text.length / 4));
+      expect(tokens).toBeGreaterThan(10);
+    });
+
+    it('should handle special characters', () => {
+      const text = 'Hello! @#$%^&*() 123';
+      const tokens = estimateTokens(text);
+      expect(tokens).toBeGreaterThan(0);
+    });
+  });
+
+  describe('estimateMessagesTokens', () => {
+    it('should estimate tokens for empty message array', () => {
+      expect(estimateMessagesTokens([])).toBe(0);
+    });
+
+    it('should estimate tokens for single message', () => {
+      const messages: LLMMessage[] = [
+        { role: 'user', content: 'Hello world' },
+      ];
+      const tokens = estimateMessagesTokens(messages);
+      // Should include content tokens + overhead
+      expect(tokens).toBeGreaterThan(estimateTokens('Hello world'));
+    });
+
+    it('should estimate tokens for multiple messages', () => {
+      const messages: LLMMessage[] = [
+        { role: 'system', content: 'You are a helpful assistant' },
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi there!' },
+      ];
+      const tokens = estimateMessagesTokens(messages);
+
+      // Should include all message tokens + overhead per message
+      const expectedMin = estimateTokens('You are a helpful assistant') +
+                          estimateTokens('Hello') +
+                          estimateTokens('Hi there!');
+
+      expect(tokens).toBeGreaterThan(expectedMin);
+    });
+  });
+
+  describe('streamCompletion', () => {
+    it('should handle successful streaming response', async () => {
+      const mockStream = createMockSSEStream([
+        'data: {"choices":[{"delta":{"content":"Hello"}}],"model":"test-model"}\n\n',
+        'data: {"choices":[{"delta":{"content":" world"}}],"model":"test-model"}\n\n',
+        'data: [DONE]\n\n',
+      ]);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        body: mockStream,
+      });
+
+      const messages: LLMMessage[] = [
+        { role: 'user', content: 'Test message' },
+      ];
+
+      const chunks: string[] = [];
+      for await (const chunk of streamCompletion({
+        messages,
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+      })) {
+        if (!chunk.done) {
+          chunks.push(chunk.content);
+        }
+      }
+
+      expect(chunks).toEqual(['Hello', ' world']);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.fireworks.ai/inference/v1/chat/completions',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({
+            'Authorization': 'Bearer test-api-key',
+            'Content-Type': 'application/json',
+          }),
+        })
+      );
+    });
+
+    it('should handle API errors', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
+        text: vi.fn().mockResolvedValue('Error details'),
+      });
+
+      const messages: LLMMessage[] = [
+        { role: 'user', content: 'Test message' },
+      ];
+
+      await expect(async () => {
+        for await (const chunk of streamCompletion({
+          messages,
+          tenantId: 'test-tenant',
+          userId: 'test-user',
+        })) {
+          // Should not reach here
+        }
+      }).rejects.toThrow('Fireworks API error');
+    });
+
+    it('should skip empty content chunks', async () => {
+      const mockStream = createMockSSEStream([
+        'data: {"choices":[{"delta":{"content":""}}],"model":"test-model"}\n\n',
+        'data: {"choices":[{"delta":{"content":"Hello"}}],"model":"test-model"}\n\n',
+        'data: {"choices":[{"delta":{}}],"model":"test-model"}\n\n',
+        'data: [DONE]\n\n',
+      ]);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        body: mockStream,
+      });
+
+      const messages: LLMMessage[] = [
+        { role: 'user', content: 'Test' },
+      ];
+
+      const chunks: string[] = [];
+      for await (const chunk of streamCompletion({
+        messages,
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+      })) {
+        if (!chunk.done) {
+          chunks.push(chunk.content);
+        }
+      }
+
+      expect(chunks).toEqual(['Hello']);
+    });
+
+    it('should handle malformed SSE chunks gracefully', async () => {
+      const mockStream = createMockSSEStream([
+        'data: {"choices":[{"delta":{"content":"Hello"}}],"model":"test-model"}\n\n',
+        'data: {invalid json}\n\n',
+        'data: {"choices":[{"delta":{"content":" world"}}],"model":"test-model"}\n\n',
+        'data: [DONE]\n\n',
+      ]);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        body: mockStream,
+      });
+
+      const messages: LLMMessage[] = [
+        { role: 'user', content: 'Test' },
+      ];
+
+      const chunks: string[] = [];
+      for await (const chunk of streamCompletion({
+        messages,
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+      })) {
+        if (!chunk.done) {
+          chunks.push(chunk.content);
+        }
+      }
+
+      // Should skip the malformed chunk but continue processing
+      expect(chunks).toEqual(['Hello', ' world']);
+    });
+
+    it('should include metadata in chunks', async () => {
+      const mockStream = createMockSSEStream([
+        'data: {"choices":[{"delta":{"content":"Hello"},"finish_reason":null}],"model":"test-model"}\n\n',
+        'data: [DONE]\n\n',
+      ]);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        body: mockStream,
+      });
+
+      const messages: LLMMessage[] = [
+        { role: 'user', content: 'Test' },
+      ];
+
+      const chunks: any[] = [];
+      for await (const chunk of streamCompletion({
+        messages,
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[0].metadata).toBeDefined();
+      expect(chunks[0].metadata?.model).toBe('test-model');
+      expect(chunks[0].metadata?.provider).toBe('fireworks');
+    });
+
+    it('should report provider usage on the final chunk and charge it to the tenant', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        body: createMockSSEStream([
+          'data: {"choices":[{"delta":{"content":"Hi"}}],"model":"test-model"}\n\n',
+          'data: {"choices":[],"model":"test-model","usage":{"prompt_tokens":42,"completion_tokens":7}}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      });
+
+      const chunks: any[] = [];
+      for await (const chunk of streamCompletion({
+        messages: [{ role: 'user', content: 'Test' }],
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+        personaType: 'cfo',
+        operation: 'chat',
+      })) {
+        chunks.push(chunk);
+      }
+
+      const final = chunks[chunks.length - 1];
+      expect(final.done).toBe(true);
+      expect(final.usage).toEqual({ inputTokens: 42, outputTokens: 7, reported: true });
+      expect(mockResolveLLMRoute).toHaveBeenCalledWith({ tenantId: 'test-tenant', personaType: 'cfo' });
+      expect(mockTrackLLMTokens).toHaveBeenCalledWith(42, 7, expect.objectContaining({ provider: 'fireworks', operation: 'chat' }));
+      expect(mockRecordUsage).toHaveBeenCalledWith({
+        tenantId: 'test-tenant',
+        deltas: { tokensUsed: 49 },
+        event: {
+          type: 'llm.completion',
+          payload: expect.objectContaining({ provider: 'fireworks', model: 'test-model', personaType: 'cfo', estimated: false }),
+        },
+      });
+    });
+
+    it('should still complete when usage cannot be recorded', async () => {
+      mockRecordUsage.mockRejectedValue(new Error('database unavailable'));
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        body: createMockSSEStream([
+          'data: {"choices":[{"delta":{"content":"Hi"}}],"model":"test-model"}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      });
+
+      const chunks: any[] = [];
+      for await (const chunk of streamCompletion({
+        messages: [{ role: 'user', content: 'Test' }],
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[chunks.length - 1]).toMatchObject({ done: true, usage: { reported: false } });
+    });
+
+    it('should route to the tenant-selected OpenAI-compatible server and model', async () => {
+      mockResolveLLMRoute.mockResolvedValue({
+        provider: 'openai',
+        model: 'qwen2.5-7b-instruct-q4',
+        fallbackProviders: [],
+        source: 'persona',
+      });
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        body: createMockSSEStream([
+          'data: {"choices":[{"delta":{"content":"Local"}}]}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      });
+
+      const chunks: any[] = [];
+      for await (const chunk of streamCompletion({
+        messages: [{ role: 'user', content: 'Test' }],
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+      })) {
+        chunks.push(chunk);
+      }
+
+      const [url, init] = (global.fetch as any).mock.calls[0];
+      expect(url).toBe('http://llama.local:8080/v1/chat/completions');
+      expect(init.headers.Authorization).toBeUndefined();
+      expect(JSON.parse(init.body).model).toBe('qwen2.5-7b-instruct-q4');
+      expect(chunks[0].metadata).toMatchObject({ provider: 'openai', model: 'qwen2.5-7b-instruct-q4' });
+    });
+
+    it('should assemble streamed tool call fragments and send tools in the request', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        body: createMockSSEStream([
+          'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"growth-pulse__growth-pulse","arguments":""}}]}}]}\n\n',
+          'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"includeForecasts\\":"}}]}}]}\n\n',
+          'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"true}"}}]},"finish_reason":"tool_calls"}]}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      });
+
+      const chunks: any[] = [];
+      for await (const chunk of streamCompletion({
+        messages: [
+          { role: 'user', content: 'How are we growing?' },
+          { role: 'assistant', content: '', toolCalls: [{ id: 'call_0', name: 'growth-pulse__growth-pulse', arguments: '{}' }] },
+          { role: 'tool', toolCallId: 'call_0', content: '{}' },
+        ],
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+        tools: [{ name: 'growth-pulse__growth-pulse', description: 'Growth insights', parameters: { type: 'object' } }],
+      })) {
+        chunks.push(chunk);
+      }
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body.tools).toEqual([
+        {
+          type: 'function',
+          function: { name: 'growth-pulse__growth-pulse', description: 'Growth insights', parameters: { type: 'object' } },
+        },
+      ]);
+      expect(body.messages[1].tool_calls[0]).toEqual({
+        id: 'call_0',
+        type: 'function',
+        function: { name: 'growth-pulse__growth-pulse', arguments: '{}' },
+      });
+      expect(body.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_0', content: '{}' });
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toMatchObject({
+        done: true,
+        metadata: { finishReason: 'tool_calls' },
+        toolCalls: [{ id: 'call_1', name: 'growth-pulse__growth-pulse', arguments: '{"includeForecasts":true}' }],
+      });
+    });
+
+    it('should fall back to the next provider when the primary fails before streaming', async () => {
+      mockResolveLLMRoute.mockResolvedValue(fireworksRoute(['ollama']));
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: 'Service Unavailable',
+          text: vi.fn().mockResolvedValue('overloaded'),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          body: createMockSSEStream([
+            '{"model":"llama3.1:8b","message":{"role":"assistant","content":"From"},"done":false}\n',
+            '{"model":"llama3.1:8b","message":{"role":"assistant","content":" Ollama"},"done":false}\n',
+            '{"model":"llama3.1:8b","message":{"role":"assistant","content":""},"done":true,"done_reason":"stop","prompt_eval_count":30,"eval_count":4}\n',
+          ]),
+        });
+
+      const chunks: any[] = [];
+      for await (const chunk of streamCompletion({
+        messages: [{ role: 'user', content: 'Test' }],
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect((global.fetch as any).mock.calls[1][0]).toBe('http://ollama.local:11434/api/chat');
+      expect(chunks.filter((chunk) => !chunk.done).map((chunk) => chunk.content)).toEqual(['From', ' Ollama']);
+      expect(chunks[chunks.length - 1]).toMatchObject({
+        done: true,
+        metadata: { provider: 'ollama', model: 'llama3.1:8b', finishReason: 'stop' },
+        usage: { inputTokens: 30, outputTokens: 4, reported: true },
+      });
+    });
+
+    it('should fail instead of using the configured provider when tenant settings cannot be loaded', async () => {
+      mockResolveLLMRoute.mockRejectedValueOnce(new Error('connection refused'));
+      global.fetch = vi.fn();
+
+      await expect(async () => {
+        for await (const _chunk of streamCompletion({
+          messages: [{ role: 'user', content: 'Test' }],
+          tenantId: 'test-tenant',
+          userId: 'test-user',
+        })) {
+          // Should not reach here
+        }
+      }).rejects.toBeInstanceOf(LLMRouteError);
+
+      expect(mockResolveLLMRoute).toHaveBeenCalledTimes(1);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back once content has been streamed', async () => {
+      mockResolveLLMRoute.mockResolvedValue(fireworksRoute(['ollama']));
+      const encoder = new TextEncoder();
+      let reads = 0;
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        body: {
+          getReader: () => ({
+            read: async () => {
+              reads++;
+              if (reads === 1) {
+                return {
+                  done: false,
+                  value: encoder.encode('data: {"choices":[{"delta":{"content":"Partial"}}]}\n\n'),
+                };
+              }
+              throw new Error('connection reset');
+            },
+            releaseLock: () => {},
+          }),
+        },
+      });
+
+      const chunks: string[] = [];
+      await expect(async () => {
+        for await (const chunk of streamCompletion({
+          messages: [{ role: 'user', content: 'Test' }],
+          tenantId: 'test-tenant',
+          userId: 'test-user',
+        })) {
+          chunks.push(chunk.content);
+        }
+      }).rejects.toThrow('connection reset');
+
+      expect(chunks).toEqual(['Partial']);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+// Helper function to create a mock SSE stream
+function createMockSSEStream(data: string[]) {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return {
+    getReader: () => ({
+      read: async () => {
+        if (index >= data.length) {
+          return { done: true, value: undefined };
+        }
+        const value = encoder.encode(data[index]);
+        index++;
+        return { done: false, value };
+      },
+      releaseLock: () => {},
+    }),
+  };
+}
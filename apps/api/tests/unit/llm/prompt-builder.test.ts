@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach, afterAll } from 'vitest';
-import { buildPersonaPrompt } from '../../../src/services/llm/prompt-builder.js';
+import { buildPersonaPrompt, historyToMessages } from '../../../src/services/llm/prompt-builder.js';
 import type { PromptContext } from '../../../src/services/llm/prompt-builder.js';
 
 // Mock the database client locally and reset after suite to avoid leaking to other tests
@@ -234,4 +234,36 @@ describe('Prompt Builder', () => {
       expect(systemPrompt).toContain('recommendations');
     });
   });
+
+  describe('historyToMessages', () => {
+    it('should keep complete tool exchanges and drop ones cut off by the window', () => {
+      const messages = historyToMessages([
+        { role: 'tool', content: '{"orphan":true}', metadata: { toolCallId: 'call_0' } },
+        { role: 'user', content: 'How are we growing?', metadata: null },
+        {
+          role: 'assistant',
+          content: '',
+          metadata: { toolCalls: [{ id: 'call_1', name: 'growth-pulse__growth-pulse', arguments: '{}' }] },
+        },
+        { role: 'tool', content: '{"outputs":{}}', metadata: { toolCallId: 'call_1' } },
+        { role: 'assistant', content: 'Growth is steady.', metadata: null },
+        {
+          role: 'assistant',
+          content: '',
+          metadata: { toolCalls: [{ id: 'call_2', name: 'growth-pulse__growth-pulse', arguments: '{}' }] },
+        },
+      ]);
+
+      expect(messages).toEqual([
+        { role: 'user', content: 'How are we growing?' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'growth-pulse__growth-pulse', arguments: '{}' }],
+        },
+        { role: 'tool', toolCallId: 'call_1', content: '{"outputs":{}}' },
+        { role: 'assistant', content: 'Growth is steady.' },
+      ]);
+    });
+  });
 });
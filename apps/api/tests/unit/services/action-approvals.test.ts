@@ -1,10 +1,11 @@
 import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
-import { createTenantClient } from '@ocsuite/db';
+import { createTenantClient, prisma } from '@ocsuite/db';
 import {
   submitActionApproval,
   listActionApprovals,
   approveAction,
   rejectAction,
+  ActionApprovalForbiddenError,
   ActionApprovalStateError,
 } from '../../../src/services/action-approvals.js';
 import {
@@ -39,6 +40,7 @@ const { enqueueMock, notifySubmitted, notifyDecision } = mocks;
 
 const tenantId = generateTestId('phase4-tenant');
 const userId = generateTestId('phase4-user');
+const memberId = generateTestId('phase4-member');
 
 async function resetTenantData() {
   const db = createTenantClient({ tenantId, userId });
@@ -55,10 +57,24 @@ describe('action-approvals service', () => {
   beforeAll(async () => {
     await createTestTenant(tenantId);
     await createTestUser(tenantId, userId);
+    await prisma.user.upsert({
+      where: { id: memberId },
+      update: {},
+      create: {
+        id: memberId,
+        clerkId: memberId,
+        email: `${memberId}@example.com`,
+        name: 'Test Member',
+      },
+    });
+    await prisma.tenantMember.create({
+      data: { tenantId, userId: memberId, role: 'member' },
+    });
   });
 
   afterAll(async () => {
     await cleanupTestData(tenantId, userId);
+    await prisma.user.deleteMany({ where: { id: memberId } });
   });
 
   beforeEach(async () => {
@@ -117,6 +133,8 @@ describe('action-approvals service', () => {
     const result = await approveAction(db, {
       tenantId,
       userId,
+      tenantUserId: userId,
+      tenantRole: 'owner',
       approvalId: approval.id,
       comment: 'Looks OK',
     });
@@ -160,6 +178,8 @@ describe('action-approvals service', () => {
     const updated = await rejectAction(db, {
       tenantId,
       userId,
+      tenantUserId: userId,
+      tenantRole: 'owner',
       approvalId: approval.id,
       comment: 'Not safe',
     });
@@ -227,6 +247,8 @@ describe('action-approvals service', () => {
     await rejectAction(db, {
       tenantId,
       userId,
+      tenantUserId: userId,
+      tenantRole: 'owner',
       approvalId: approval.id,
     });
 
@@ -234,10 +256,42 @@ describe('action-approvals service', () => {
       approveAction(db, {
         tenantId,
         userId,
+        tenantUserId: userId,
+        tenantRole: 'owner',
         approvalId: approval.id,
       })
     ).rejects.toBeInstanceOf(ActionApprovalStateError);
 
     await db.$disconnect();
   });
+
+  it('refuses approval from members outside the approval chain', async () => {
+    const db = createTenantClient({ tenantId, userId: memberId });
+
+    const { approval } = await submitActionApproval(db, {
+      tenantId,
+      userId,
+      source: 'module:revops',
+      payload: {
+        moduleSlug: 'revops-automation',
+        capability: 'bulk-update',
+      },
+    });
+
+    await expect(
+      approveAction(db, {
+        tenantId,
+        userId: memberId,
+        tenantUserId: memberId,
+        tenantRole: 'member',
+        approvalId: approval.id,
+      })
+    ).rejects.toBeInstanceOf(ActionApprovalForbiddenError);
+    expect(enqueueMock).not.toHaveBeenCalled();
+
+    const [pending] = await listActionApprovals(db, { status: 'pending' });
+    expect(pending?.id).toBe(approval.id);
+
+    await db.$disconnect();
+  });
 });
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { isValidTimeZone, zonedWallTimeToUtc } from '../../../src/utils/timezone.js';
+
+describe('zonedWallTimeToUtc', () => {
+  it('reads wall-clock times in the given timezone', () => {
+    expect(zonedWallTimeToUtc('2025-11-24T09:00', 'America/New_York')?.toISOString()).toBe(
+      '2025-11-24T14:00:00.000Z'
+    );
+    expect(zonedWallTimeToUtc('2025-07-01T09:00', 'America/New_York')?.toISOString()).toBe(
+      '2025-07-01T13:00:00.000Z'
+    );
+    expect(zonedWallTimeToUtc('2025-11-24T09:30:15', 'Asia/Kolkata')?.toISOString()).toBe(
+      '2025-11-24T04:00:15.000Z'
+    );
+  });
+
+  it('moves skipped times forward and picks the first repeated time', () => {
+    // 02:30 does not exist on 9 March 2025 in New York
+    expect(zonedWallTimeToUtc('2025-03-09T02:30', 'America/New_York')?.toISOString()).toBe(
+      '2025-03-09T07:30:00.000Z'
+    );
+    // 01:30 happens twice on 2 November 2025
+    expect(zonedWallTimeToUtc('2025-11-02T01:30', 'America/New_York')?.toISOString()).toBe(
+      '2025-11-02T05:30:00.000Z'
+    );
+  });
+
+  it('rejects values that are not wall-clock times', () => {
+    expect(zonedWallTimeToUtc('2025-11-24T09:00Z', 'UTC')).toBeNull();
+    expect(zonedWallTimeToUtc('2025-02-30T09:00', 'UTC')).toBeNull();
+    expect(zonedWallTimeToUtc('next monday', 'UTC')).toBeNull();
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
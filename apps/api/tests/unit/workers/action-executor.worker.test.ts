@@ -5,13 +5,20 @@ import { __test__ as workerTest } from '../../../src/workers/action-executor.wor
 import type { ActionExecutorJobData } from '../../../src/queue/index.js';
 
 const mocks = vi.hoisted(() => {
-  const executeModuleCapability = vi.fn(async () => ({
-    status: 'completed',
-    processed: 10,
-  }));
+  const completedExecution = () => ({
+    taskId: '00000000-0000-4000-8000-000000000010',
+    success: true,
+    outputs: { processed: 10 },
+    metadata: {
+      durationMs: 25,
+      startedAt: '2025-01-01T00:00:00.000Z',
+      completedAt: '2025-01-01T00:00:00.025Z',
+    },
+  });
+  const executeModuleCapability = vi.fn(async () => completedExecution());
   const notifyActionExecutionResult = vi.fn().mockResolvedValue(undefined);
   class ModuleExecutionError extends Error {}
-  return { executeModuleCapability, notifyActionExecutionResult, ModuleExecutionError };
+  return { completedExecution, executeModuleCapability, notifyActionExecutionResult, ModuleExecutionError };
 });
 
 vi.mock('../../../src/modules/registry.js', () => ({
@@ -25,7 +32,7 @@ vi.mock('../../../src/services/notifications.js', () => ({
   notifyActionExecutionResult: mocks.notifyActionExecutionResult,
 }));
 
-const { executeModuleCapability, notifyActionExecutionResult, ModuleExecutionError } = mocks;
+const { completedExecution, executeModuleCapability, notifyActionExecutionResult, ModuleExecutionError } = mocks;
 
 function randomUUID(): string {
   return `${Math.random().toString(16).slice(2)}-${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
@@ -377,7 +384,7 @@ describe('action-executor worker', () => {
 
   beforeEach(async () => {
     executeModuleCapability.mockReset();
-    executeModuleCapability.mockResolvedValue({ status: 'completed', processed: 10 });
+    executeModuleCapability.mockResolvedValue(completedExecution());
     notifyActionExecutionResult.mockClear();
     await clearTenantData();
   });
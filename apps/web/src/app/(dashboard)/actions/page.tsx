@@ -2,7 +2,11 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '@clerk/nextjs';
-import { createApiClient, type ApproveActionApprovalResponse } from '@/lib/api';
+import {
+  createApiClient,
+  type ActionSchedulePayload,
+  type ApproveActionApprovalResponse,
+} from '@/lib/api';
 import type { ActionApproval, ActionApprovalAuditEvent } from '@ocsuite/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -23,6 +27,7 @@ import {
   CheckCircle2,
   XCircle,
   RefreshCw,
+  CalendarClock,
 } from 'lucide-react';
 
 function RiskBadge({ level }: { level: 'low' | 'medium' | 'high' }) {
@@ -36,7 +41,7 @@ function StatusBadge({ status }: { status: ActionApproval['status'] }) {
       ? 'success'
       : status === 'failed'
         ? 'error'
-        : status === 'approved' || status === 'executing'
+        : status === 'approved' || status === 'executing' || status === 'scheduled'
           ? 'warning'
           : 'outline';
 
@@ -50,6 +55,42 @@ function formatDate(value?: string | null) {
   return new Date(value).toLocaleString();
 }
 
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function formatSchedule(approval: ActionApproval): string {
+  const parts: string[] = [];
+  if (approval.scheduledFor) {
+    const when = new Date(approval.scheduledFor).toLocaleString(undefined, {
+      timeZone: approval.scheduleTimezone ?? undefined,
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    });
+    parts.push(approval.scheduleTimezone ? `${when} (${approval.scheduleTimezone})` : when);
+  }
+  if (approval.runAfterApprovalId) {
+    parts.push(`after ${approval.runAfterApprovalId}`);
+  }
+  return parts.join(', ') || '—';
+}
+
+/**
+ * `runAt` comes from a datetime-local input, so it is sent as a wall-clock
+ * time in the browser's timezone.
+ */
+function buildSchedule(runAt: string, afterApprovalId: string): ActionSchedulePayload | undefined {
+  const after = afterApprovalId.trim();
+  if (!runAt && !after) {
+    return undefined;
+  }
+  return {
+    runAt: runAt || undefined,
+    timezone: runAt ? browserTimeZone() : undefined,
+    afterApprovalId: after || undefined,
+  };
+}
+
 function summaryFromPayload(payload: Record<string, unknown>): string {
   const summary = payload.summary;
   if (typeof summary === 'string' && summary.trim().length > 0) {
@@ -102,6 +143,11 @@ export default function ActionsPage() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [comment, setComment] = useState('');
   const [processing, setProcessing] = useState<'approve' | 'reject' | null>(null);
+  const [runAt, setRunAt] = useState('');
+  const [runAfter, setRunAfter] = useState('');
+  const [scheduled, setScheduled] = useState<ActionApproval[]>([]);
+  const [rescheduling, setRescheduling] = useState<{ id: string; runAt: string } | null>(null);
+  const [scheduleBusy, setScheduleBusy] = useState<string | null>(null);
 
   useEffect(() => {
     loadApprovals();
@@ -114,8 +160,12 @@ export default function ActionsPage() {
     }
     try {
       const api = createApiClient(getToken);
-      const data = await api.getActionApprovals({ status: 'pending', limit: 50 });
+      const [data, deferred] = await Promise.all([
+        api.getActionApprovals({ status: 'pending', limit: 50 }),
+        api.getScheduledActions(50),
+      ]);
       setApprovals(data);
+      setScheduled(deferred);
     } catch (error) {
       console.error('Failed to load action approvals', error);
       toast({
@@ -142,6 +192,8 @@ export default function ActionsPage() {
   async function openApprovalDetails(approval: ActionApproval) {
     setDialogOpen(true);
     setComment('');
+    setRunAt('');
+    setRunAfter('');
     setProcessing(null);
     setSelected(approval);
 
@@ -163,6 +215,8 @@ export default function ActionsPage() {
     setDialogOpen(false);
     setSelected(null);
     setComment('');
+    setRunAt('');
+    setRunAfter('');
     setProcessing(null);
   }
 
@@ -171,14 +225,36 @@ export default function ActionsPage() {
     setProcessing('approve');
     try {
       const api = createApiClient(getToken);
-      const response: ApproveActionApprovalResponse =
-        await api.approveActionApproval(selected.id, comment || undefined);
+      const response: ApproveActionApprovalResponse = await api.approveActionApproval(
+        selected.id,
+        comment || undefined,
+        buildSchedule(runAt, runAfter)
+      );
 
-      setApprovals((prev) => prev.filter((item) => item.id !== selected.id));
-      toast({
-        title: 'Action approved',
-        description: `Execution job ${response.job.jobId} queued for processing.`,
-      });
+      if (response.approval.status === 'pending') {
+        setApprovals((prev) =>
+          prev.map((item) => (item.id === selected.id ? response.approval : item))
+        );
+        toast({
+          title: 'Approval recorded',
+          description: 'Further sign-off is required before this action runs.',
+        });
+      } else if (response.approval.status === 'scheduled') {
+        setApprovals((prev) => prev.filter((item) => item.id !== selected.id));
+        setScheduled((prev) => [...prev, response.approval]);
+        toast({
+          title: 'Action scheduled',
+          description: `Runs ${formatSchedule(response.approval)}.`,
+        });
+      } else {
+        setApprovals((prev) => prev.filter((item) => item.id !== selected.id));
+        toast({
+          title: 'Action approved',
+          description: response.job
+            ? `Execution job ${response.job.jobId} queued for processing.`
+            : 'The action has been approved.',
+        });
+      }
       closeDialog();
     } catch (error) {
       console.error('Approval failed', error);
@@ -214,6 +290,57 @@ export default function ActionsPage() {
     }
   }
 
+  async function handleCancelScheduled(approval: ActionApproval) {
+    setScheduleBusy(approval.id);
+    try {
+      const api = createApiClient(getToken);
+      await api.cancelScheduledAction(approval.id);
+      setScheduled((prev) => prev.filter((item) => item.id !== approval.id));
+      toast({
+        title: 'Scheduled action canceled',
+        description: 'It will not run. Actions waiting on it are canceled too.',
+      });
+    } catch (error) {
+      console.error('Cancel failed', error);
+      toast({
+        title: 'Cancel failed',
+        description: 'The action may already have started. Refresh and try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setScheduleBusy(null);
+    }
+  }
+
+  async function handleReschedule() {
+    if (!rescheduling?.runAt) return;
+    setScheduleBusy(rescheduling.id);
+    try {
+      const api = createApiClient(getToken);
+      const existing = scheduled.find((item) => item.id === rescheduling.id);
+      const updated = await api.rescheduleAction(rescheduling.id, {
+        runAt: rescheduling.runAt,
+        timezone: browserTimeZone(),
+        afterApprovalId: existing?.runAfterApprovalId ?? undefined,
+      });
+      setScheduled((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      setRescheduling(null);
+      toast({
+        title: 'Action rescheduled',
+        description: `Runs ${formatSchedule(updated)}.`,
+      });
+    } catch (error) {
+      console.error('Reschedule failed', error);
+      toast({
+        title: 'Reschedule failed',
+        description: 'Pick a time in the future, at most 90 days ahead.',
+        variant: 'destructive',
+      });
+    } finally {
+      setScheduleBusy(null);
+    }
+  }
+
   const auditLog = selected?.auditLog;
   const riskReasons = useMemo(
     () => extractRiskReasons(auditLog),
@@ -314,6 +441,110 @@ export default function ActionsPage() {
         </CardContent>
       </Card>
 
+      {scheduled.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Scheduled actions
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-hidden rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/60 text-left">
+                  <tr className="text-muted-foreground">
+                    <th className="px-4 py-3 font-medium">Action</th>
+                    <th className="px-4 py-3 font-medium">Module</th>
+                    <th className="px-4 py-3 font-medium">Runs</th>
+                    <th className="px-4 py-3 font-medium">Approved By</th>
+                    <th className="px-4 py-3 font-medium text-right">Manage</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scheduled.map((approval) => {
+                    const payload = (approval.payload ?? {}) as Record<string, unknown>;
+                    const editing = rescheduling?.id === approval.id;
+                    const busy = scheduleBusy === approval.id;
+                    return (
+                      <tr key={approval.id} className="border-t">
+                        <td className="px-4 py-3 font-medium text-foreground">
+                          {summaryFromPayload(payload)}
+                        </td>
+                        <td className="px-4 py-3 text-muted-foreground">
+                          {moduleDisplay(payload)}
+                        </td>
+                        <td className="px-4 py-3 text-muted-foreground">
+                          {editing ? (
+                            <input
+                              type="datetime-local"
+                              value={rescheduling.runAt}
+                              onChange={(event) =>
+                                setRescheduling({ id: approval.id, runAt: event.target.value })
+                              }
+                              className="rounded-md border bg-background px-2 py-1 text-sm"
+                            />
+                          ) : (
+                            formatSchedule(approval)
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-muted-foreground">
+                          {approval.approvedBy || '—'}
+                        </td>
+                        <td className="px-4 py-3 pr-4">
+                          <div className="flex justify-end gap-2">
+                            {editing ? (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setRescheduling(null)}
+                                  disabled={busy}
+                                >
+                                  Back
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={handleReschedule}
+                                  disabled={busy || !rescheduling.runAt}
+                                >
+                                  {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                  Save
+                                </Button>
+                              </>
+                            ) : (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setRescheduling({ id: approval.id, runAt: '' })}
+                                  disabled={busy}
+                                >
+                                  Reschedule
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleCancelScheduled(approval)}
+                                  disabled={busy}
+                                >
+                                  {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                  Cancel
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
         <DialogContent className="max-w-3xl">
           {selected ? (
@@ -406,6 +637,36 @@ export default function ActionsPage() {
                 />
               </div>
 
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label htmlFor="approval-run-at" className="text-sm font-medium text-foreground">
+                    Run at (optional)
+                  </label>
+                  <input
+                    id="approval-run-at"
+                    type="datetime-local"
+                    value={runAt}
+                    onChange={(event) => setRunAt(event.target.value)}
+                    className="w-full rounded-md border bg-background p-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Local time in {browserTimeZone()}. Leave empty to run right away.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="approval-run-after" className="text-sm font-medium text-foreground">
+                    Run after action (optional)
+                  </label>
+                  <input
+                    id="approval-run-after"
+                    value={runAfter}
+                    onChange={(event) => setRunAfter(event.target.value)}
+                    className="w-full rounded-md border bg-background p-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                    placeholder="Approval ID that must execute first"
+                  />
+                </div>
+              </div>
+
               <div className="flex justify-end gap-3">
                 <Button
                   variant="outline"
@@ -420,7 +681,7 @@ export default function ActionsPage() {
                   disabled={processing === 'approve'}
                 >
                   {processing === 'approve' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                  Approve &amp; Execute
+                  {runAt || runAfter.trim() ? 'Approve & Schedule' : 'Approve & Execute'}
                 </Button>
               </div>
             </div>
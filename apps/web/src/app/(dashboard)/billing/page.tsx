@@ -2,12 +2,14 @@
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useAuth } from '@clerk/nextjs';
-import type { BillingUsageSummary } from '@ocsuite/types';
+import type { BillingQuotaStatus, BillingUsageSummary, QuotaMetric } from '@ocsuite/types';
 import { createApiClient } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { MetricCard } from '@/components/dashboard/metric-card';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
 import { Sparkline } from '@/components/ui/sparkline';
 import {
   Activity,
@@ -25,6 +27,13 @@ interface Trend {
 
 const RANGE_OPTIONS = [7, 30, 90] as const;
 
+const QUOTA_LABELS: Record<QuotaMetric, string> = {
+  tokens: 'Tokens',
+  taskExecutions: 'Task executions',
+  activeWidgets: 'Active widgets',
+  videoMinutes: 'Video minutes',
+};
+
 function formatNumber(value: number): string {
   return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
 }
@@ -52,6 +61,7 @@ export default function BillingPage() {
   const { getToken } = useAuth();
   const { toast } = useToast();
   const [summary, setSummary] = useState<BillingUsageSummary | null>(null);
+  const [quota, setQuota] = useState<BillingQuotaStatus | null>(null);
   const [range, setRange] = useState<(typeof RANGE_OPTIONS)[number]>(30);
   const [loading, setLoading] = useState(true);
 
@@ -60,8 +70,12 @@ export default function BillingPage() {
   const loadUsage = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.getBillingUsage({ days: range });
+      const [data, quotaStatus] = await Promise.all([
+        api.getBillingUsage({ days: range }),
+        api.getBillingQuota(),
+      ]);
       setSummary(data);
+      setQuota(quotaStatus);
     } catch (error) {
       console.error('Failed to load billing usage', error);
       toast({
@@ -84,6 +98,7 @@ export default function BillingPage() {
     tasksExecuted: 0,
     alertsTriggered: 0,
     activeWidgets: 0,
+    videoMinutes: 0,
   };
 
   const metricDefinitions = useMemo(
@@ -171,6 +186,44 @@ export default function BillingPage() {
         ))}
       </div>
 
+      {quota && (
+        <Card>
+          <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <CardTitle className="text-lg font-semibold">Plan limits</CardTitle>
+              <CardDescription>
+                Resets {new Date(quota.period.resetsAt).toLocaleDateString()}.
+                {quota.enforcement === 'block'
+                  ? ' Requests are blocked once a limit is reached.'
+                  : ' Usage beyond a limit is billed as overage.'}
+              </CardDescription>
+            </div>
+            <Badge variant="secondary" className="capitalize">
+              {quota.plan} plan
+            </Badge>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            {(Object.keys(QUOTA_LABELS) as QuotaMetric[]).map((metric) => {
+              const entry = quota.metrics[metric];
+              return (
+                <div key={metric} className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{QUOTA_LABELS[metric]}</span>
+                    <span className={entry.state === 'ok' ? 'text-muted-foreground' : 'text-destructive'}>
+                      {formatNumber(entry.used)}
+                      {entry.limit === null ? ' / Unlimited' : ` / ${formatNumber(entry.limit)}`}
+                    </span>
+                  </div>
+                  {entry.limit !== null && (
+                    <Progress value={Math.min(100, Math.round((entry.ratio ?? 0) * 100))} className="h-2" />
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div>
@@ -9,6 +9,7 @@ import {
   BarChart3,
   CheckCircle2,
   Clock,
+  Download,
   History,
   Loader2,
   Play,
@@ -57,6 +58,7 @@ import type {
   BoardMeetingMetrics,
   BoardMeetingStreamEnvelope,
   BoardMeetingSummary,
+  BoardMinutesFormat,
   BoardPersonaAnalysis,
 } from '@ocsuite/types';
 
@@ -239,6 +241,7 @@ export default function BoardPage() {
   const [detailOpen, setDetailOpen] = useState(false);
   const [detailLoading, setDetailLoading] = useState(false);
   const [detail, setDetail] = useState<BoardMeetingDetail | null>(null);
+  const [minutesExporting, setMinutesExporting] = useState(false);
 
   const [userRating, setUserRating] = useState<number | null>(null);
   const [ratingSubmitted, setRatingSubmitted] = useState(false);
@@ -640,6 +643,42 @@ export default function BoardPage() {
       });
   }, [api, detailMeetingId, detailOpen, toast]);
 
+  const exportMinutes = useCallback(
+    async (meetingId: string, format: BoardMinutesFormat, emailMembers = false) => {
+      setMinutesExporting(true);
+      try {
+        const minutesExport = await api.exportBoardMinutes(meetingId, { format, emailMembers });
+        const blob = await api.downloadBoardMinutes(minutesExport);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = minutesExport.fileName;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+
+        if (emailMembers) {
+          toast({
+            title: 'Minutes sent',
+            description: minutesExport.emailedTo.length
+              ? `Emailed to ${minutesExport.emailedTo.length} member${minutesExport.emailedTo.length !== 1 ? 's' : ''}`
+              : 'The minutes were saved but could not be emailed',
+          });
+        }
+      } catch (error) {
+        toast({
+          title: 'Export failed',
+          description: error instanceof Error ? error.message : 'Could not export meeting minutes',
+          variant: 'destructive',
+        });
+      } finally {
+        setMinutesExporting(false);
+      }
+    },
+    [api, toast]
+  );
+
   const status = streamState.status;
   const StatusIcon = statusIcon[status];
   const hasActiveMeeting = status === 'running' || status === 'connecting';
@@ -967,6 +1006,35 @@ export default function BoardPage() {
                           </ul>
                         </div>
                       )}
+                      {streamState.summary.consensus && streamState.summary.consensus.length > 0 && (
+                        <div>
+                          <p className="text-xs font-semibold uppercase text-emerald-600 dark:text-emerald-400">Consensus</p>
+                          <ul className="space-y-1 text-muted-foreground">
+                            {streamState.summary.consensus.map((point, idx) => (
+                              <li key={idx} className="flex gap-2">
+                                <span className="mt-1 text-xs">•</span>
+                                <span>{point}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {streamState.summary.dissent && streamState.summary.dissent.length > 0 && (
+                        <div>
+                          <p className="text-xs font-semibold uppercase text-warning">Dissent</p>
+                          <ul className="space-y-1 text-muted-foreground">
+                            {streamState.summary.dissent.map((entry, idx) => (
+                              <li key={idx} className="flex gap-2">
+                                <span className="mt-1 text-xs">•</span>
+                                <span>
+                                  <span className="font-medium text-foreground">{entry.personaName}</span>
+                                  {entry.against ? ` vs ${entry.against.toUpperCase()}` : ''}: {entry.point}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                     </div>
                   </div>
                 ) : (
@@ -1321,6 +1389,38 @@ export default function BoardPage() {
                 {typeof detail.rating === 'number' && <span>Rating {detail.rating}</span>}
               </div>
 
+              {detail.endedAt && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-semibold uppercase text-muted-foreground">
+                    Minutes
+                  </span>
+                  {(['pdf', 'docx', 'markdown'] as const).map((format) => (
+                    <Button
+                      key={format}
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 text-xs"
+                      disabled={minutesExporting}
+                      onClick={() => void exportMinutes(detail.id, format)}
+                      type="button"
+                    >
+                      <Download className="h-3.5 w-3.5" />
+                      {format === 'markdown' ? 'Markdown' : format.toUpperCase()}
+                    </Button>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs"
+                    disabled={minutesExporting}
+                    onClick={() => void exportMinutes(detail.id, 'pdf', true)}
+                    type="button"
+                  >
+                    Email PDF to members
+                  </Button>
+                </div>
+              )}
+
               <div className="space-y-4">
                 <h3 className="text-sm font-semibold uppercase text-muted-foreground">Summary</h3>
                 {detail.summary ? (
@@ -18,7 +18,9 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
 
-const personas: { value: PersonaType; label: string; disabled?: boolean }[] = [
+type PersonaOption = { value: PersonaType; label: string; disabled?: boolean };
+
+const DEFAULT_PERSONAS: PersonaOption[] = [
   { value: 'ceo', label: 'CEO - Strategic Vision' },
   { value: 'cfo', label: 'CFO - Financial Analysis', disabled: true },
   { value: 'cmo', label: 'CMO - Marketing Strategy', disabled: true },
@@ -29,6 +31,7 @@ export default function ChatPage() {
   const { getToken } = useAuth();
   const { toast } = useToast();
   const [selectedPersona, setSelectedPersona] = useState<PersonaType>('ceo');
+  const [personas, setPersonas] = useState<PersonaOption[]>(DEFAULT_PERSONAS);
   const [conversation, setConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [streamingMessage, setStreamingMessage] = useState('');
@@ -45,6 +48,29 @@ export default function ChatPage() {
     scrollToBottom();
   }, [messages, streamingMessage]);
 
+  // Personas the tenant has given a seat
+  useEffect(() => {
+    async function loadPersonas() {
+      try {
+        const api = createApiClient(getToken);
+        const tenantPersonas = await api.listBoardPersonas();
+        const enabled = tenantPersonas.filter((persona) => persona.enabled);
+        if (enabled.length) {
+          setPersonas(
+            enabled.map((persona) => ({
+              value: persona.id,
+              label: `${persona.name} - ${persona.expertise.slice(0, 2).join(', ')}`,
+            }))
+          );
+        }
+      } catch (error) {
+        console.error('Failed to load personas:', error);
+      }
+    }
+
+    loadPersonas();
+  }, [getToken]);
+
   // Load or create conversation
   useEffect(() => {
     async function initializeConversation() {
@@ -64,9 +90,9 @@ export default function ChatPage() {
 
         setConversation(conv);
 
-        // Load messages
+        // Load messages; tool results and tool-call-only turns are internal
         const msgs = await api.getMessages(conv.id);
-        setMessages(msgs);
+        setMessages(msgs.filter((msg) => msg.role !== 'tool' && msg.content.trim() !== ''));
       } catch (error) {
         console.error('Failed to initialize conversation:', error);
         toast({
@@ -234,7 +260,10 @@ export default function ChatPage() {
             <ChatInput
               onSend={handleSendMessage}
               disabled={isSending}
-              placeholder={`Ask the ${selectedPersona.toUpperCase()} a question...`}
+              placeholder={`Ask the ${
+                personas.find((p) => p.value === selectedPersona)?.label.split(' - ')[0] ??
+                selectedPersona.toUpperCase()
+              } a question...`}
             />
           </div>
         </CardContent>
@@ -18,40 +18,42 @@ import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { Plus, Loader2, Cable } from 'lucide-react';
 
-const availableProviders = [
+const availableProviders: Array<{
+  provider: ConnectorProvider;
+  name: string;
+  description: string;
+  icon: string;
+  disabled?: boolean;
+}> = [
   {
-    provider: 'google' as ConnectorProvider,
-    name: 'Google Workspace',
-    description: 'Connect Gmail, Calendar, and Drive',
+    provider: 'google',
+    name: 'Google Analytics',
+    description: 'Sync Google Analytics traffic and revenue',
     icon: '🔗',
   },
   {
-    provider: 'gmail' as ConnectorProvider,
+    provider: 'gmail',
     name: 'Gmail',
-    description: 'Access your email data',
+    description: 'Bring recent email threads into your knowledge base',
     icon: '📧',
-    disabled: true,
   },
   {
-    provider: 'slack' as ConnectorProvider,
+    provider: 'slack',
     name: 'Slack',
-    description: 'Connect your Slack workspace',
+    description: 'Sync channel discussions and team activity',
     icon: '💬',
-    disabled: true,
   },
   {
-    provider: 'notion' as ConnectorProvider,
+    provider: 'notion',
     name: 'Notion',
-    description: 'Sync your Notion workspace',
+    description: 'Sync pages shared with the integration',
     icon: '📝',
-    disabled: true,
   },
   {
-    provider: 'stripe' as ConnectorProvider,
+    provider: 'stripe',
     name: 'Stripe',
-    description: 'Track payments and revenue',
+    description: 'Track daily revenue and payments',
     icon: '💳',
-    disabled: true,
   },
 ];
 
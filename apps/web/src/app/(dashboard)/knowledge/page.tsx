@@ -380,6 +380,7 @@ export default function KnowledgePage() {
 
         const results = await api.searchKnowledge({
           query: trimmed,
+          mode: 'hybrid',
           persona,
           sourceIds,
           limit: 12,
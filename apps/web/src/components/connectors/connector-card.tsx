@@ -28,10 +28,18 @@ const providerNames: Record<string, string> = {
   stripe: 'Stripe',
 };
 
+function formatExpiry(seconds: number): string {
+  if (seconds <= 0) return 'Token expired';
+  if (seconds < 3600) return `Token expires in ${Math.ceil(seconds / 60)} min`;
+  if (seconds < 86400) return `Token expires in ${Math.floor(seconds / 3600)} h`;
+  return `Token expires in ${Math.floor(seconds / 86400)} d`;
+}
+
 export function ConnectorCard({ connector, onDisconnect }: ConnectorCardProps) {
   const status = statusConfig[connector.status];
   const StatusIcon = status.icon;
   const providerName = providerNames[connector.provider] || connector.provider;
+  const health = connector.health;
 
   return (
     <Card>
@@ -64,6 +72,25 @@ export function ConnectorCard({ connector, onDisconnect }: ConnectorCardProps) {
           </div>
         )}
 
+        {health?.expiresInSeconds != null && (
+          <div
+            className={cn(
+              'text-sm',
+              health.state === 'expiring' || health.state === 'expired'
+                ? 'text-amber-600'
+                : 'text-muted-foreground'
+            )}
+          >
+            {formatExpiry(health.expiresInSeconds)}
+          </div>
+        )}
+
+        {health?.lastError && (health.state === 'error' || health.refreshFailures > 0) && (
+          <div className="text-xs text-destructive">
+            {health.lastError.message}
+          </div>
+        )}
+
         {connector.scopes && connector.scopes.length > 0 && (
           <div className="text-xs text-muted-foreground">
             <div className="font-medium mb-1">Permissions:</div>
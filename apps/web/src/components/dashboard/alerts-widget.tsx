@@ -1,6 +1,7 @@
 'use client';
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@clerk/nextjs';
 import { createApiClient } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
@@ -15,6 +16,7 @@ import {
   CheckCircle2,
   Loader2,
   ShieldAlert,
+  Wrench,
 } from 'lucide-react';
 
 const severityOrder: TriggerSeverity[] = ['critical', 'warning', 'info'];
@@ -226,6 +228,7 @@ export function AlertsWidget() {
           <div className="space-y-3">
             {alerts.map((alert) => {
               const Icon = getSeverityIcon((alert.severity as TriggerSeverity) ?? 'warning');
+              const pendingApproval = alert.actionApprovals?.find((approval) => approval.status === 'pending');
 
               return (
                 <div
@@ -255,18 +258,28 @@ export function AlertsWidget() {
                       </p>
                     </div>
                   </div>
-                  <Button
-                    size="sm"
-                    onClick={() => acknowledgeAlert(alert.id)}
-                    disabled={acknowledging === alert.id}
-                  >
-                    {acknowledging === alert.id ? (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    ) : (
-                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                  <div className="flex flex-wrap gap-2">
+                    {pendingApproval && (
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href="/actions">
+                          <Wrench className="mr-2 h-4 w-4" />
+                          Review fix
+                        </Link>
+                      </Button>
                     )}
-                    Acknowledge
-                  </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => acknowledgeAlert(alert.id)}
+                      disabled={acknowledging === alert.id}
+                    >
+                      {acknowledging === alert.id ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                      )}
+                      Acknowledge
+                    </Button>
+                  </div>
                 </div>
               );
             })}
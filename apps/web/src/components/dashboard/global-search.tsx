@@ -254,7 +254,7 @@ export function GlobalSearch() {
         }
 
         const knowledgeMatches = await api
-          .searchKnowledge({ query: trimmed, limit: 5 })
+          .searchKnowledge({ query: trimmed, mode: 'hybrid', limit: 5 })
           .catch<KnowledgeSearchResult[]>(() => []);
 
         const searchResults = buildSearchResults({
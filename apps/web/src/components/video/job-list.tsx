@@ -2,8 +2,9 @@
 
 import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@clerk/nextjs';
-import type { VideoJob } from '@ocsuite/types';
+import type { VideoJob, VideoTranscriptExportFormat } from '@ocsuite/types';
 import { createApiClient } from '@/lib/api';
+import { useTenantEvents } from '@/hooks/use-tenant-events';
 
 export function JobList() {
   const { getToken } = useAuth();
@@ -26,13 +27,27 @@ export function JobList() {
     }
   }, [getToken]);
 
+  // Progress arrives over the tenant event stream
+  const { connected } = useTenantEvents(['video-job.updated'], (event) => {
+    const job = event.data;
+    setJobs((current) =>
+      current.some((existing) => existing.id === job.id)
+        ? current.map((existing) => (existing.id === job.id ? job : existing))
+        : [job, ...current]
+    );
+  });
+
   useEffect(() => {
     loadJobs();
-    // Poll for updates every 5 seconds
-    const interval = setInterval(loadJobs, 5000);
-    return () => clearInterval(interval);
   }, [loadJobs]);
 
+  // Catch up on anything missed while the stream was down
+  useEffect(() => {
+    if (connected) {
+      loadJobs();
+    }
+  }, [connected, loadJobs]);
+
   const handleDelete = useCallback(
     async (jobId: string) => {
     if (!confirm('Are you sure you want to delete this job?')) {
@@ -51,6 +66,44 @@ export function JobList() {
     [getToken, loadJobs]
   );
 
+  const handleDownload = useCallback(
+    async (job: VideoJob) => {
+      try {
+        const api = createApiClient(getToken);
+        const blob = await api.video.downloadOutput(job.id);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = job.outputUrls?.[0]?.split('/').pop() ?? `${job.id}.mp4`;
+        link.click();
+        URL.revokeObjectURL(url);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to download video';
+        alert(`Failed to download video: ${message}`);
+      }
+    },
+    [getToken]
+  );
+
+  const handleExportTranscript = useCallback(
+    async (transcriptId: string, format: VideoTranscriptExportFormat) => {
+      try {
+        const api = createApiClient(getToken);
+        const blob = await api.video.exportTranscript(transcriptId, format);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${transcriptId}.${format}`;
+        link.click();
+        URL.revokeObjectURL(url);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to export transcript';
+        alert(`Failed to export transcript: ${message}`);
+      }
+    },
+    [getToken]
+  );
+
   if (loading) {
     return (
       <div className="bg-white rounded-lg shadow p-6">
@@ -135,7 +188,15 @@ export function JobList() {
                     Error
                   </span>
                 )}
-                {job.outputUrls && job.outputUrls.length > 0 && (
+                {job.outputUrls?.[0]?.startsWith('file:') && (
+                  <button
+                    onClick={() => handleDownload(job)}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Download
+                  </button>
+                )}
+                {job.outputUrls && job.outputUrls.length > 0 && !job.outputUrls[0]?.startsWith('file:') && (
                   <a
                     href={job.outputUrls[0]}
                     target="_blank"
@@ -148,6 +209,19 @@ export function JobList() {
                 {job.transcriptId && !job.outputUrls && (
                   <span className="text-green-600">Transcript ready</span>
                 )}
+                {job.type === 'transcribe' && job.status === 'completed' && job.transcriptId && (
+                  <span className="ml-2 space-x-2">
+                    {(['srt', 'vtt', 'txt'] as const).map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExportTranscript(job.transcriptId!, format)}
+                        className="text-blue-600 hover:underline uppercase"
+                      >
+                        {format}
+                      </button>
+                    ))}
+                  </span>
+                )}
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                 <button
@@ -14,6 +14,7 @@ export function VideoUpload({ onJobCreated }: VideoUploadProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [actionType, setActionType] = useState<'transcribe' | 'caption' | 'optimize'>('transcribe');
+  const [transcribeLocally, setTranscribeLocally] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,7 +28,7 @@ export function VideoUpload({ onJobCreated }: VideoUploadProps) {
         throw new Error('Only transcription is available in this preview. Choose Transcribe to continue.');
       }
 
-      await api.video.transcribe(url);
+      await api.video.transcribe(url, transcribeLocally ? { provider: 'whisper_cpp' } : undefined);
 
       setUrl('');
       onJobCreated?.();
@@ -78,6 +79,23 @@ export function VideoUpload({ onJobCreated }: VideoUploadProps) {
           </p>
         </div>
 
+        {actionType === 'transcribe' && (
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={transcribeLocally}
+              onChange={(e) => setTranscribeLocally(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              Transcribe on our servers
+              <span className="block text-gray-500">
+                The recording is not sent to a third-party transcription service
+              </span>
+            </span>
+          </label>
+        )}
+
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
             {error}
@@ -1,8 +1,9 @@
 'use client';
 
-import { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
 import { useAuth } from '@clerk/nextjs';
 import { createApiClient } from '@/lib/api';
+import { useTenantEvents } from '@/hooks/use-tenant-events';
 
 interface NotificationBellContextValue {
   unreadCount: number;
@@ -15,14 +16,11 @@ const NotificationBellContext = createContext<NotificationBellContextValue | und
   undefined
 );
 
-const POLL_INTERVAL_MS = 30000;
-
 export function NotificationBellProvider({ children }: { children: React.ReactNode }) {
   const { getToken } = useAuth();
   const api = useMemo(() => createApiClient(getToken), [getToken]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(true);
-  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const fetchCount = useMemo(
     () =>
@@ -45,33 +43,22 @@ export function NotificationBellProvider({ children }: { children: React.ReactNo
     [api]
   );
 
-  useEffect(() => {
-    let active = true;
-
-    const kickOff = async () => {
-      if (!active) return;
-      await fetchCount(false);
-      if (!active) return;
-      pollRef.current = setTimeout(loop, POLL_INTERVAL_MS);
-    };
-
-    const loop = async () => {
-      if (!active) return;
-      await fetchCount(true);
-      if (!active) return;
-      pollRef.current = setTimeout(loop, POLL_INTERVAL_MS);
-    };
+  // Live counts come from the event stream; refetch on (re)connect to catch
+  // anything sent while it was down
+  const { connected } = useTenantEvents(['notification.created'], () => {
+    void fetchCount(true);
+  });
 
-    void kickOff();
-
-    return () => {
-      active = false;
-      if (pollRef.current) {
-        clearTimeout(pollRef.current);
-      }
-    };
+  useEffect(() => {
+    void fetchCount(false);
   }, [fetchCount]);
 
+  useEffect(() => {
+    if (connected) {
+      void fetchCount(true);
+    }
+  }, [connected, fetchCount]);
+
   const value = useMemo<NotificationBellContextValue>(
     () => ({
       unreadCount,
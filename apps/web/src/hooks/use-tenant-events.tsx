@@ -0,0 +1,168 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from '@clerk/nextjs';
+import type { TenantEvent, TenantEventType } from '@ocsuite/types';
+import { createApiClient } from '@/lib/api';
+
+type TenantEventHandler = (event: TenantEvent) => void;
+
+interface TenantEventsContextValue {
+  /** True while the stream is open; flips back to true after each reconnect */
+  connected: boolean;
+  subscribe: (handler: TenantEventHandler) => () => void;
+}
+
+const TenantEventsContext = createContext<TenantEventsContextValue | undefined>(undefined);
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+function parseMessage(raw: string): { type: string } | null {
+  const data = raw
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trim())
+    .join('\n');
+
+  if (!data) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(data) as { type: string };
+  } catch (error) {
+    console.error('Failed to parse tenant event', error);
+    return null;
+  }
+}
+
+/**
+ * Keeps one `GET /events` stream open for the dashboard and fans its events
+ * out to `useTenantEvents` subscribers, reconnecting with backoff (and a
+ * fresh token) whenever the stream drops.
+ */
+export function TenantEventsProvider({ children }: { children: React.ReactNode }) {
+  const { getToken } = useAuth();
+  const api = useMemo(() => createApiClient(getToken), [getToken]);
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(new Set<TenantEventHandler>());
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+
+    const dispatch = (event: TenantEvent) => {
+      handlersRef.current.forEach((handler) => {
+        try {
+          handler(event);
+        } catch (error) {
+          console.error('Tenant event handler failed', error);
+        }
+      });
+    };
+
+    const connect = async () => {
+      try {
+        const response = await api.openEventStream({ signal: controller.signal });
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) {
+            break;
+          }
+
+          buffer += decoder.decode(value, { stream: true });
+
+          let boundary = buffer.indexOf('\n\n');
+          while (boundary !== -1) {
+            const message = parseMessage(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+
+            if (message?.type === 'connected') {
+              attempts = 0;
+              setConnected(true);
+            } else if (message) {
+              dispatch(message as TenantEvent);
+            }
+
+            boundary = buffer.indexOf('\n\n');
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('Tenant event stream failed', error);
+      }
+
+      setConnected(false);
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+      attempts += 1;
+      retryTimer = setTimeout(() => void connect(), delay);
+    };
+
+    void connect();
+
+    return () => {
+      controller.abort();
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      setConnected(false);
+    };
+  }, [api]);
+
+  const subscribe = useCallback((handler: TenantEventHandler) => {
+    handlersRef.current.add(handler);
+    return () => {
+      handlersRef.current.delete(handler);
+    };
+  }, []);
+
+  const value = useMemo<TenantEventsContextValue>(
+    () => ({ connected, subscribe }),
+    [connected, subscribe]
+  );
+
+  return <TenantEventsContext.Provider value={value}>{children}</TenantEventsContext.Provider>;
+}
+
+/**
+ * Calls `handler` for each live event of the given types. Returns whether the
+ * stream is connected, so callers can refetch state they may have missed
+ * when it (re)connects.
+ */
+export function useTenantEvents<T extends TenantEventType>(
+  types: T[],
+  handler: (event: TenantEvent<T>) => void
+): { connected: boolean } {
+  const context = useContext(TenantEventsContext);
+  if (!context) {
+    throw new Error('useTenantEvents must be used within TenantEventsProvider');
+  }
+
+  const { connected, subscribe } = context;
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const typeKey = types.join(',');
+
+  useEffect(() => {
+    const accepted = new Set(typeKey.split(','));
+    return subscribe((event) => {
+      if (accepted.has(event.type)) {
+        handlerRef.current(event as TenantEvent<T>);
+      }
+    });
+  }, [subscribe, typeKey]);
+
+  return { connected };
+}
@@ -18,6 +18,8 @@ import type {
   BoardMeetingSummary,
   BoardMeetingWithDetails,
   BoardPersonaAnalysis,
+  BoardMinutesExportRecord,
+  BoardMinutesFormat,
   ActionApproval,
   ActionApprovalStatus,
   ActionApprovalRisk,
@@ -31,13 +33,19 @@ import type {
   TriggerSeverity,
   MarketplaceWidgetWithInstall,
   BillingUsageSummary,
+  BillingQuotaStatus,
   VideoJob,
   VideoJobListResponse,
+  VideoTranscript,
+  VideoTranscriptExportFormat,
+  VideoTranscriptUpdate,
   KnowledgeRetentionPolicy,
   KnowledgeSourceProvider,
   KnowledgeSourceStatus,
   KnowledgeSourceType,
   KnowledgeStorageStrategy,
+  PersonaContextSection,
+  TenantPersona,
 } from '@ocsuite/types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
@@ -54,6 +62,8 @@ type BoardAgendaInput = {
 export interface StartBoardMeetingPayload {
   agenda?: BoardAgendaInput[];
   agendaVersion?: number;
+  /** 1-3; rounds after the first let personas rebut each other */
+  debateRounds?: number;
 }
 
 export interface BoardMeetingListItem extends BoardMeetingRecord {
@@ -174,10 +184,16 @@ export interface KnowledgeSearchResultEntry {
   updatedAt: string;
 }
 
+export type KnowledgeSearchMode = 'vector' | 'hybrid';
+
 export interface KnowledgeSearchResult {
   entry: KnowledgeSearchResultEntry;
   content: string;
   score: number;
+  signals?: {
+    vectorScore: number | null;
+    keywordScore: number | null;
+  };
 }
 
 export interface SubmitActionApprovalPayload {
@@ -196,14 +212,25 @@ export interface ActionApprovalListResponse {
   approvals: ActionApproval[];
 }
 
+/**
+ * `runAt` is an ISO timestamp with offset, or a local `YYYY-MM-DDTHH:mm`
+ * time read in `timezone`.
+ */
+export interface ActionSchedulePayload {
+  runAt?: string;
+  timezone?: string;
+  afterApprovalId?: string;
+}
+
 export interface ApproveActionApprovalResponse {
   approval: ActionApproval;
-  task: Task;
+  /** Null until the final step is signed off and the action is not deferred */
+  task: Task | null;
   job: {
     jobId: string;
     queueName: string;
     enqueuedAt: string;
-  };
+  } | null;
 }
 
 export interface NotificationsListResponse {
@@ -670,6 +697,8 @@ export class ApiClient {
     persona?: string;
     sourceIds?: string[];
     limit?: number;
+    mode?: KnowledgeSearchMode;
+    keywordWeight?: number;
   } = {}): Promise<KnowledgeSearchResult[]> {
     const payload: Record<string, unknown> = {};
     if (typeof params.query === 'string' && params.query.trim()) {
@@ -687,6 +716,12 @@ export class ApiClient {
     if (typeof params.limit === 'number') {
       payload.limit = params.limit;
     }
+    if (params.mode) {
+      payload.mode = params.mode;
+    }
+    if (typeof params.keywordWeight === 'number') {
+      payload.keywordWeight = params.keywordWeight;
+    }
 
     const response = await this.fetchJson<{ results: KnowledgeSearchResult[] }>(
       '/knowledge/search',
@@ -784,13 +819,14 @@ export class ApiClient {
 
   async approveActionApproval(
     approvalId: string,
-    comment?: string
+    comment?: string,
+    schedule?: ActionSchedulePayload
   ): Promise<ApproveActionApprovalResponse> {
     return this.fetchJson<ApproveActionApprovalResponse>(
       `/actions/${approvalId}/approve`,
       {
         method: 'POST',
-        body: JSON.stringify({ comment }),
+        body: JSON.stringify({ comment, schedule }),
       }
     );
   }
@@ -813,6 +849,53 @@ export class ApiClient {
     return this.fetchJson<ActionApproval>(`/actions/${approvalId}/audit`);
   }
 
+  async requestActionRollback(
+    approvalId: string,
+    comment?: string
+  ): Promise<SubmitActionApprovalResponse> {
+    return this.fetchJson<SubmitActionApprovalResponse>(
+      `/actions/${approvalId}/rollback`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ comment }),
+      }
+    );
+  }
+
+  async getScheduledActions(limit?: number): Promise<ActionApproval[]> {
+    const query = typeof limit === 'number' ? `?limit=${limit}` : '';
+    const response = await this.fetchJson<ActionApprovalListResponse>(`/actions/scheduled${query}`);
+    return response.approvals;
+  }
+
+  async cancelScheduledAction(
+    approvalId: string,
+    comment?: string
+  ): Promise<ActionApproval> {
+    const response = await this.fetchJson<{ approval: ActionApproval }>(
+      `/actions/${approvalId}/cancel`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ comment }),
+      }
+    );
+    return response.approval;
+  }
+
+  async rescheduleAction(
+    approvalId: string,
+    schedule: ActionSchedulePayload
+  ): Promise<ActionApproval> {
+    const response = await this.fetchJson<{ approval: ActionApproval }>(
+      `/actions/${approvalId}/reschedule`,
+      {
+        method: 'POST',
+        body: JSON.stringify(schedule),
+      }
+    );
+    return response.approval;
+  }
+
   // Notification endpoints
   async getNotifications(params: {
     limit?: number;
@@ -951,6 +1034,10 @@ export class ApiClient {
     return this.fetchJson<BillingUsageSummary>(`/billing/usage${query}`);
   }
 
+  async getBillingQuota(): Promise<BillingQuotaStatus> {
+    return this.fetchJson<BillingQuotaStatus>('/billing/quota');
+  }
+
   // Dashboard metrics (mocked for Phase 1)
   async getDashboardMetrics(): Promise<{
     revenue: number;
@@ -1035,6 +1122,31 @@ export class ApiClient {
     return response;
   }
 
+  // Live tenant events (notifications, alerts, tasks, approvals, video jobs)
+  async openEventStream(options: { signal?: AbortSignal } = {}): Promise<Response> {
+    const token = await this.getToken();
+
+    if (!token) {
+      throw new ApiError('AUTH_ERROR', 'No authentication token available');
+    }
+
+    const headers = this.buildHeaders(
+      token,
+      { Accept: 'text/event-stream' },
+      { includeJsonContentType: false }
+    );
+    const response = await fetch(`${this.baseURL}/events`, {
+      headers,
+      signal: options.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new ApiError('EVENT_STREAM_ERROR', `Failed to open event stream (HTTP ${response.status})`);
+    }
+
+    return response;
+  }
+
   async listBoardMeetings(params: {
     page?: number;
     pageSize?: number;
@@ -1121,6 +1233,112 @@ export class ApiClient {
     return response.data!;
   }
 
+  async exportBoardMinutes(
+    meetingId: string,
+    payload: { format: BoardMinutesFormat; emailMembers?: boolean }
+  ): Promise<BoardMinutesExportRecord> {
+    const response = await this.request<BoardMinutesExportRecord>(
+      `/board/meetings/${meetingId}/minutes`,
+      {
+        method: 'POST',
+        body: JSON.stringify(payload),
+      }
+    );
+    return response.data!;
+  }
+
+  async listBoardMinutes(meetingId: string): Promise<BoardMinutesExportRecord[]> {
+    const response = await this.request<BoardMinutesExportRecord[]>(
+      `/board/meetings/${meetingId}/minutes`
+    );
+    return response.data ?? [];
+  }
+
+  async downloadBoardMinutes(minutesExport: BoardMinutesExportRecord): Promise<Blob> {
+    const token = await this.getToken();
+
+    if (!token) {
+      throw new ApiError('AUTH_ERROR', 'No authentication token available');
+    }
+
+    const headers = this.buildHeaders(
+      token,
+      {
+        Accept: minutesExport.contentType,
+      },
+      { includeJsonContentType: false }
+    );
+
+    const response = await fetch(`${this.baseURL}${minutesExport.downloadPath}`, {
+      method: 'GET',
+      headers,
+    });
+
+    if (!response.ok) {
+      let code = 'MINUTES_DOWNLOAD_ERROR';
+      let message = 'Failed to download board minutes';
+
+      try {
+        const errorBody = await response.json();
+        code = errorBody.error?.code ?? code;
+        message = errorBody.error?.message ?? message;
+      } catch (error) {
+        // Ignore parsing errors for non-JSON responses
+      }
+
+      throw new ApiError(code, message);
+    }
+
+    return await response.blob();
+  }
+
+  async listBoardPersonas(): Promise<TenantPersona[]> {
+    const response = await this.request<TenantPersona[]>('/board/personas');
+    return response.data!;
+  }
+
+  async createBoardPersona(payload: {
+    id: string;
+    name: string;
+    tone: string;
+    focus: string;
+    expertise: string[];
+    requiredContext: PersonaContextSection[];
+    maxTokens: number;
+    enabled?: boolean;
+  }): Promise<TenantPersona> {
+    const response = await this.request<TenantPersona>('/board/personas', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+    return response.data!;
+  }
+
+  async updateBoardPersona(
+    personaId: string,
+    payload: Partial<{
+      name: string;
+      tone: string;
+      focus: string;
+      expertise: string[];
+      requiredContext: PersonaContextSection[];
+      maxTokens: number;
+      enabled: boolean;
+    }>
+  ): Promise<TenantPersona> {
+    const response = await this.request<TenantPersona>(`/board/personas/${personaId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(payload),
+    });
+    return response.data!;
+  }
+
+  async deleteBoardPersona(personaId: string): Promise<void> {
+    await this.fetchJson<unknown>(`/board/personas/${personaId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Module Insights endpoints
   async getModuleInsights(moduleSlug?: string): Promise<ModuleInsight[]> {
     const query = moduleSlug ? `?moduleSlug=${moduleSlug}` : '';
@@ -1145,7 +1363,10 @@ export class ApiClient {
 
   // Video Production endpoints
   video = {
-    transcribe: async (url: string, options?: { language?: string; speakerLabels?: boolean }) => {
+    transcribe: async (
+      url: string,
+      options?: { language?: string; speakerLabels?: boolean; provider?: 'assemblyai' | 'whisper_cpp' }
+    ) => {
       const response = await this.request<VideoJob>('/video/transcribe', {
         method: 'POST',
         body: JSON.stringify({
@@ -1153,6 +1374,7 @@ export class ApiClient {
           language: options?.language,
           speakerLabels: options?.speakerLabels || false,
           extractViralMoments: true,
+          provider: options?.provider,
         }),
       });
       return response.data!;
@@ -1232,6 +1454,84 @@ export class ApiClient {
         method: 'DELETE',
       });
     },
+
+    // Locally rendered outputs are only reachable through the API
+    downloadOutput: async (jobId: string): Promise<Blob> => {
+      const token = await this.getToken();
+
+      if (!token) {
+        throw new ApiError('AUTH_ERROR', 'No authentication token available');
+      }
+
+      const headers = this.buildHeaders(token, {}, { includeJsonContentType: false });
+      const response = await fetch(`${this.baseURL}/video/jobs/${jobId}/output`, {
+        method: 'GET',
+        headers,
+      });
+
+      if (!response.ok) {
+        let message = 'Failed to download video';
+
+        try {
+          const errorBody = await response.json();
+          message = errorBody.error ?? message;
+        } catch (error) {
+          // Ignore parsing errors for non-JSON responses
+        }
+
+        throw new ApiError('VIDEO_DOWNLOAD_ERROR', message);
+      }
+
+      return await response.blob();
+    },
+
+    getTranscript: async (transcriptId: string) => {
+      const response = await this.request<VideoTranscript>(`/video/transcripts/${transcriptId}`);
+      return response.data!;
+    },
+
+    updateTranscript: async (transcriptId: string, update: VideoTranscriptUpdate) => {
+      const response = await this.request<VideoTranscript>(`/video/transcripts/${transcriptId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(update),
+      });
+      return response.data!;
+    },
+
+    exportTranscript: async (
+      transcriptId: string,
+      format: VideoTranscriptExportFormat
+    ): Promise<Blob> => {
+      const token = await this.getToken();
+
+      if (!token) {
+        throw new ApiError('AUTH_ERROR', 'No authentication token available');
+      }
+
+      const headers = this.buildHeaders(token, {}, { includeJsonContentType: false });
+      const response = await fetch(
+        `${this.baseURL}/video/transcripts/${transcriptId}/captions?format=${format}`,
+        {
+          method: 'GET',
+          headers,
+        }
+      );
+
+      if (!response.ok) {
+        let message = 'Failed to export transcript';
+
+        try {
+          const errorBody = await response.json();
+          message = errorBody.error ?? message;
+        } catch (error) {
+          // Ignore parsing errors for non-JSON responses
+        }
+
+        throw new ApiError('VIDEO_TRANSCRIPT_EXPORT_ERROR', message);
+      }
+
+      return await response.blob();
+    },
   };
 }
 
@@ -10,7 +10,9 @@ import {
   AuthenticationError,
   InvalidCiphertextError,
   generateMasterKey,
-  getCurrentKeyVersion
+  getCurrentKeyVersion,
+  getRegisteredKeyVersions,
+  reencryptForTenant
 } from './index';
 
 describe('initializeCrypto', () => {
@@ -184,6 +186,37 @@ describe('key rotation support', () => {
   });
 });
 
+describe('reencryptForTenant', () => {
+  it('moves ciphertext from a previous key version to the current one', () => {
+    const legacyKey = generateMasterKey();
+    initializeCrypto(legacyKey);
+    const legacyCiphertext = encryptForTenant('refresh-token', 'tenant-1', 'connector-tokens');
+
+    initializeCrypto({
+      currentKey: generateMasterKey(),
+      currentKeyVersion: 3,
+      previousKeys: { 1: legacyKey },
+    });
+
+    expect(getRegisteredKeyVersions()).toEqual([3, 1]);
+
+    const rotated = reencryptForTenant(legacyCiphertext, 'tenant-1', 'connector-tokens', 1);
+    expect(decryptForTenantWithVersion(rotated, 'tenant-1', 'connector-tokens', 3)).toBe('refresh-token');
+    expect(() => decryptForTenantWithVersion(rotated, 'tenant-1', 'connector-tokens', 1)).toThrow(
+      AuthenticationError
+    );
+  });
+
+  it('rejects versions that are not registered', () => {
+    initializeCrypto(generateMasterKey());
+    const ciphertext = encryptForTenant('secret', 'tenant-1', 'connector-tokens');
+
+    expect(() => reencryptForTenant(ciphertext, 'tenant-1', 'connector-tokens', 7)).toThrow(
+      'No master encryption key registered for version 7'
+    );
+  });
+});
+
 describe('Real-world use cases', () => {
   const masterKey = generateMasterKey();
 
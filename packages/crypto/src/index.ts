@@ -306,6 +306,42 @@ export function decryptForTenantWithVersion(
   }
 }
 
+/**
+ * Lists the master key versions currently registered, newest first.
+ *
+ * @returns Registered key versions in descending order
+ * @throws {Error} If crypto package not initialized
+ */
+export function getRegisteredKeyVersions(): number[] {
+  return [...assertRegistry().keys.keys()].sort((a, b) => b - a);
+}
+
+/**
+ * Re-encrypts ciphertext produced under an older master key version with the
+ * current master key. The plaintext never leaves this function.
+ *
+ * @param ciphertext - The base64-encoded encrypted data
+ * @param tenantId - The tenant identifier
+ * @param context - Encryption context
+ * @param fromVersion - Master key version the ciphertext was produced with
+ * @returns Ciphertext encrypted with the current master key version
+ *
+ * @throws {Error} If `fromVersion` is not registered
+ * @throws {AuthenticationError} If the ciphertext does not match `fromVersion`
+ */
+export function reencryptForTenant(
+  ciphertext: string,
+  tenantId: string,
+  context: string,
+  fromVersion: number
+): string {
+  return encryptForTenant(
+    decryptForTenantWithVersion(ciphertext, tenantId, context, fromVersion),
+    tenantId,
+    context
+  );
+}
+
 /**
  * Type guard to check if an error is an AuthenticationError.
  *
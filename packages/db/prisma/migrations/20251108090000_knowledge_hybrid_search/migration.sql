@@ -0,0 +1,17 @@
+-- Knowledge hybrid search
+-- Entry content is encrypted at rest, so the full-text index is materialised at
+-- ingest time from the plaintext chunk and stored alongside the embedding.
+
+BEGIN;
+
+ALTER TABLE knowledge_entries
+  ADD COLUMN IF NOT EXISTS "search_vector" tsvector;
+
+CREATE INDEX IF NOT EXISTS knowledge_entries_search_vector_idx
+  ON knowledge_entries USING GIN ("search_vector");
+
+-- Persona filtering now happens in SQL, so index the metadata document.
+CREATE INDEX IF NOT EXISTS knowledge_entries_metadata_idx
+  ON knowledge_entries USING GIN ("metadata" jsonb_path_ops);
+
+COMMIT;
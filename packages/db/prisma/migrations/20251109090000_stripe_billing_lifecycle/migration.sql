@@ -0,0 +1,83 @@
+-- Stripe billing lifecycle
+-- Adds plan/subscription state to tenants and an idempotent store of Stripe
+-- webhook events keyed by the Stripe event id.
+
+BEGIN;
+
+DO $$
+BEGIN
+  CREATE TYPE "TenantPlan" AS ENUM ('free', 'starter', 'growth', 'enterprise');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE TYPE "SubscriptionStatus" AS ENUM (
+    'none',
+    'trialing',
+    'active',
+    'past_due',
+    'canceled',
+    'unpaid',
+    'incomplete',
+    'incomplete_expired',
+    'paused'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE TYPE "BillingEventStatus" AS ENUM ('received', 'processed', 'ignored', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+ALTER TABLE tenants
+  ADD COLUMN IF NOT EXISTS "plan" "TenantPlan" NOT NULL DEFAULT 'free',
+  ADD COLUMN IF NOT EXISTS "subscription_status" "SubscriptionStatus" NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS "stripe_customer_id" TEXT,
+  ADD COLUMN IF NOT EXISTS "stripe_subscription_id" TEXT,
+  ADD COLUMN IF NOT EXISTS "current_period_end" TIMESTAMP;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tenants_stripe_customer_id_key
+  ON tenants ("stripe_customer_id");
+CREATE UNIQUE INDEX IF NOT EXISTS tenants_stripe_subscription_id_key
+  ON tenants ("stripe_subscription_id");
+
+-- Webhook events arrive before tenant context is known, so this table is
+-- system-scoped (like tenants/users) and written with the global client.
+CREATE TABLE IF NOT EXISTS billing_events (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT,
+  "type" TEXT NOT NULL,
+  "status" "BillingEventStatus" NOT NULL DEFAULT 'received',
+  "payload" JSONB NOT NULL,
+  "error" TEXT,
+  "attempts" INTEGER NOT NULL DEFAULT 1,
+  "received_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "processed_at" TIMESTAMP
+);
+
+DO $$
+BEGIN
+  ALTER TABLE billing_events
+    ADD CONSTRAINT billing_events_tenant_fkey
+    FOREIGN KEY ("tenant_id") REFERENCES tenants("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS billing_events_tenant_received_idx
+  ON billing_events ("tenant_id", "received_at");
+CREATE INDEX IF NOT EXISTS billing_events_type_idx
+  ON billing_events ("type");
+
+COMMIT;
@@ -0,0 +1,14 @@
+-- Plan quotas
+-- Tracks rendered/transcribed video minutes alongside the existing daily
+-- billing usage counters so plan limits can be enforced per billing period.
+
+BEGIN;
+
+ALTER TABLE billing_usage
+  ADD COLUMN IF NOT EXISTS "video_minutes" INTEGER NOT NULL DEFAULT 0;
+
+-- Quota threshold notifications are de-duplicated by (type, payload.periodKey).
+CREATE INDEX IF NOT EXISTS notifications_tenant_type_idx
+  ON notifications ("tenant_id", "type");
+
+COMMIT;
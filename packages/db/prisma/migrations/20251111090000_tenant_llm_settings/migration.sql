@@ -0,0 +1,58 @@
+-- Tenant LLM settings
+-- Lets a tenant route completions to a specific provider/model, either for
+-- every persona ("default" scope) or for a single persona.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS tenant_llm_settings (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT NOT NULL,
+  "scope" TEXT NOT NULL DEFAULT 'default',
+  "provider" TEXT NOT NULL,
+  "model" TEXT,
+  "fallback_providers" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "updated_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  ALTER TABLE tenant_llm_settings
+    ADD CONSTRAINT tenant_llm_settings_tenant_fkey
+    FOREIGN KEY ("tenant_id") REFERENCES tenants("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tenant_llm_settings_tenant_id_scope_key
+  ON tenant_llm_settings ("tenant_id", "scope");
+
+ALTER TABLE tenant_llm_settings ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "tenant_llm_settings_tenant_select"
+    ON tenant_llm_settings
+    FOR SELECT
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE POLICY "tenant_llm_settings_tenant_write"
+    ON tenant_llm_settings
+    FOR ALL
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text)
+    WITH CHECK ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+COMMIT;
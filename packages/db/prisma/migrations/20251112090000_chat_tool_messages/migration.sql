@@ -0,0 +1,6 @@
+-- Chat tool calling
+-- Tool results are persisted as their own messages so an interrupted
+-- tool-calling turn can be resumed from the conversation history.
+-- ADD VALUE cannot run inside a transaction block, so no BEGIN/COMMIT here.
+
+ALTER TYPE "MessageRole" ADD VALUE IF NOT EXISTS 'tool';
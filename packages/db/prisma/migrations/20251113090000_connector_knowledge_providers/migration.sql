@@ -0,0 +1,8 @@
+-- Connector knowledge providers
+-- Slack, Gmail and Stripe connectors ingest into knowledge sources of their
+-- own provider so retrieval can cite where an entry came from.
+-- ADD VALUE cannot run inside a transaction block, so no BEGIN/COMMIT here.
+
+ALTER TYPE "KnowledgeSourceProvider" ADD VALUE IF NOT EXISTS 'slack';
+ALTER TYPE "KnowledgeSourceProvider" ADD VALUE IF NOT EXISTS 'gmail';
+ALTER TYPE "KnowledgeSourceProvider" ADD VALUE IF NOT EXISTS 'stripe';
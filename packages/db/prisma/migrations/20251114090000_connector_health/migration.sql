@@ -0,0 +1,16 @@
+-- Connector health
+-- Tracks token refreshes and the most recent sync/refresh error so expiring
+-- or failing connectors can be surfaced and moved to the error state.
+
+BEGIN;
+
+ALTER TABLE connectors
+  ADD COLUMN IF NOT EXISTS "last_error" TEXT,
+  ADD COLUMN IF NOT EXISTS "last_error_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "last_refreshed_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "refresh_failure_count" INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS connectors_status_token_expires_at_idx
+  ON connectors ("status", "tokenExpiresAt");
+
+COMMIT;
@@ -0,0 +1,7 @@
+-- Trigger condition rules
+-- Rules of type `condition` keep a declarative condition tree (AND/OR of
+-- metric comparisons, percentage change and missing-data checks) in
+-- config_json.condition.
+-- ADD VALUE cannot run inside a transaction block, so no BEGIN/COMMIT here.
+
+ALTER TYPE "TriggerRuleType" ADD VALUE IF NOT EXISTS 'condition';
@@ -0,0 +1,24 @@
+-- Alert action approvals
+-- Links approvals proposed by a trigger rule's action template back to the
+-- alert that raised them.
+
+BEGIN;
+
+ALTER TABLE action_approvals
+  ADD COLUMN IF NOT EXISTS "alert_id" TEXT;
+
+DO $$
+BEGIN
+  ALTER TABLE action_approvals
+    ADD CONSTRAINT action_approvals_alert_id_fkey
+    FOREIGN KEY ("alert_id") REFERENCES alerts("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS action_approvals_alert_id_idx
+  ON action_approvals ("alert_id");
+
+COMMIT;
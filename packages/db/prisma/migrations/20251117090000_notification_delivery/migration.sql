@@ -0,0 +1,25 @@
+-- Notification delivery
+-- Tracks email and Slack delivery per notification so the dispatch worker
+-- can retry failed sends with backoff.
+
+BEGIN;
+
+DO $$
+BEGIN
+  CREATE TYPE "NotificationDeliveryStatus" AS ENUM ('pending', 'delivered', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS "delivery_status" "NotificationDeliveryStatus",
+  ADD COLUMN IF NOT EXISTS "delivery_attempts" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "next_delivery_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "last_delivery_error" TEXT,
+  ADD COLUMN IF NOT EXISTS "delivered_at" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS notifications_delivery_status_next_delivery_at_idx
+  ON notifications ("delivery_status", "next_delivery_at");
+
+COMMIT;
@@ -0,0 +1,70 @@
+-- Tenant invitations
+-- Pending invites to join a workspace. Invite links carry a signed token
+-- bound to the row's email, role and expiry; the token itself is not stored.
+
+BEGIN;
+
+DO $$
+BEGIN
+  CREATE TYPE "TenantInvitationStatus" AS ENUM ('pending', 'accepted', 'declined', 'revoked');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS tenant_invitations (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT NOT NULL,
+  "email" TEXT NOT NULL,
+  "role" "TenantMemberRole" NOT NULL DEFAULT 'member',
+  "status" "TenantInvitationStatus" NOT NULL DEFAULT 'pending',
+  "invited_by" TEXT NOT NULL,
+  "expires_at" TIMESTAMP(3) NOT NULL,
+  "responded_at" TIMESTAMP(3),
+  "accepted_by" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+  ALTER TABLE tenant_invitations
+    ADD CONSTRAINT tenant_invitations_tenant_fkey
+    FOREIGN KEY ("tenant_id") REFERENCES tenants("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS tenant_invitations_tenant_id_status_idx
+  ON tenant_invitations ("tenant_id", "status");
+CREATE INDEX IF NOT EXISTS tenant_invitations_email_idx
+  ON tenant_invitations ("email");
+
+ALTER TABLE tenant_invitations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "tenant_invitations_tenant_select"
+    ON tenant_invitations
+    FOR SELECT
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE POLICY "tenant_invitations_tenant_write"
+    ON tenant_invitations
+    FOR ALL
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text)
+    WITH CHECK ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,67 @@
+-- Connector audit events
+-- Connection lifecycle (connected, reconnected, moved to error) for the
+-- tenant audit log. connector_id is kept without a foreign key so history
+-- outlives the connector row.
+
+BEGIN;
+
+DO $$
+BEGIN
+  CREATE TYPE "ConnectorAuditEventType" AS ENUM ('connected', 'reconnected', 'error');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS connector_audit_events (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT NOT NULL,
+  "connector_id" TEXT,
+  "provider" "ConnectorProvider" NOT NULL,
+  "event" "ConnectorAuditEventType" NOT NULL,
+  "actor_id" TEXT,
+  "summary" TEXT NOT NULL,
+  "metadata" JSONB,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+  ALTER TABLE connector_audit_events
+    ADD CONSTRAINT connector_audit_events_tenant_fkey
+    FOREIGN KEY ("tenant_id") REFERENCES tenants("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS connector_audit_events_tenant_id_created_at_idx
+  ON connector_audit_events ("tenant_id", "created_at");
+
+ALTER TABLE connector_audit_events ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "connector_audit_events_tenant_select"
+    ON connector_audit_events
+    FOR SELECT
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE POLICY "connector_audit_events_tenant_write"
+    ON connector_audit_events
+    FOR ALL
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text)
+    WITH CHECK ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+COMMIT;
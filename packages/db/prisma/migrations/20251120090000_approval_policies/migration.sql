@@ -0,0 +1,125 @@
+-- Multi-step approval policies
+-- Tenant-defined sign-off chains for action approvals, out-of-office
+-- delegations, and the per-request state needed to walk a policy's steps.
+
+BEGIN;
+
+ALTER TABLE action_approvals ADD COLUMN IF NOT EXISTS "policy_id" TEXT;
+ALTER TABLE action_approvals ADD COLUMN IF NOT EXISTS "policy_snapshot" JSONB;
+ALTER TABLE action_approvals ADD COLUMN IF NOT EXISTS "current_step" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE action_approvals ADD COLUMN IF NOT EXISTS "expires_at" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS action_approvals_status_expires_at_idx
+  ON action_approvals ("status", "expires_at");
+
+CREATE TABLE IF NOT EXISTS approval_policies (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "enabled" BOOLEAN NOT NULL DEFAULT true,
+  "priority" INTEGER NOT NULL DEFAULT 0,
+  "module_slug" TEXT,
+  "capability" TEXT,
+  "persona" TEXT,
+  "source" TEXT,
+  "min_risk_score" INTEGER,
+  "steps" JSONB NOT NULL,
+  "approval_ttl_hours" INTEGER,
+  "auto_reject_after_hours" INTEGER,
+  "created_by" TEXT NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS approval_delegations (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT NOT NULL,
+  "delegator_id" TEXT NOT NULL,
+  "delegate_id" TEXT NOT NULL,
+  "starts_at" TIMESTAMP(3) NOT NULL,
+  "ends_at" TIMESTAMP(3) NOT NULL,
+  "reason" TEXT,
+  "revoked_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+  ALTER TABLE approval_policies
+    ADD CONSTRAINT approval_policies_tenant_fkey
+    FOREIGN KEY ("tenant_id") REFERENCES tenants("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  ALTER TABLE approval_delegations
+    ADD CONSTRAINT approval_delegations_tenant_fkey
+    FOREIGN KEY ("tenant_id") REFERENCES tenants("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS approval_policies_tenant_id_enabled_idx
+  ON approval_policies ("tenant_id", "enabled");
+CREATE INDEX IF NOT EXISTS approval_delegations_tenant_id_delegate_id_idx
+  ON approval_delegations ("tenant_id", "delegate_id");
+CREATE INDEX IF NOT EXISTS approval_delegations_tenant_id_delegator_id_idx
+  ON approval_delegations ("tenant_id", "delegator_id");
+
+ALTER TABLE approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE approval_delegations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "approval_policies_tenant_select"
+    ON approval_policies
+    FOR SELECT
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE POLICY "approval_policies_tenant_write"
+    ON approval_policies
+    FOR ALL
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text)
+    WITH CHECK ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE POLICY "approval_delegations_tenant_select"
+    ON approval_delegations
+    FOR SELECT
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE POLICY "approval_delegations_tenant_write"
+    ON approval_delegations
+    FOR ALL
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text)
+    WITH CHECK ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+COMMIT;
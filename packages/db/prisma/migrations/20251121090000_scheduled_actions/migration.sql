@@ -0,0 +1,17 @@
+-- Scheduled action execution
+-- Approvers can defer execution to a point in time and/or until another
+-- approval has executed. Deferred approvals sit in `scheduled` until the
+-- action scheduler releases them; `canceled` ones never run.
+-- ADD VALUE cannot run inside a transaction block, so no BEGIN/COMMIT here.
+
+ALTER TYPE "ActionApprovalStatus" ADD VALUE IF NOT EXISTS 'scheduled';
+ALTER TYPE "ActionApprovalStatus" ADD VALUE IF NOT EXISTS 'canceled';
+
+ALTER TABLE action_approvals ADD COLUMN IF NOT EXISTS "scheduled_for" TIMESTAMP(3);
+ALTER TABLE action_approvals ADD COLUMN IF NOT EXISTS "schedule_timezone" TEXT;
+ALTER TABLE action_approvals ADD COLUMN IF NOT EXISTS "run_after_approval_id" TEXT;
+
+CREATE INDEX IF NOT EXISTS action_approvals_status_scheduled_for_idx
+  ON action_approvals ("status", "scheduled_for");
+CREATE INDEX IF NOT EXISTS action_approvals_run_after_approval_id_idx
+  ON action_approvals ("run_after_approval_id");
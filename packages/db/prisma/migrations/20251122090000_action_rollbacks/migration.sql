@@ -0,0 +1,12 @@
+-- Action rollbacks
+-- A rollback is an ordinary approval running the module's compensating
+-- capability; `rollback_of_id` links it to the approval whose run it undoes.
+
+BEGIN;
+
+ALTER TABLE action_approvals ADD COLUMN IF NOT EXISTS "rollback_of_id" TEXT;
+
+CREATE INDEX IF NOT EXISTS action_approvals_rollback_of_id_idx
+  ON action_approvals ("rollback_of_id");
+
+COMMIT;
@@ -0,0 +1,68 @@
+-- Tenant board personas
+-- Per-tenant board seats (COO, CTO, CHRO, General Counsel) and custom
+-- personas. Conversations and persona turns now store persona ids as text
+-- so custom personas fit alongside the built-in ones.
+
+BEGIN;
+
+ALTER TABLE conversations ALTER COLUMN "personaType" TYPE TEXT USING "personaType"::text;
+ALTER TABLE board_persona_turns ALTER COLUMN "role" TYPE TEXT USING "role"::text;
+DROP TYPE IF EXISTS "PersonaType";
+
+CREATE TABLE IF NOT EXISTS tenant_personas (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT NOT NULL,
+  "persona_id" TEXT NOT NULL,
+  "custom" BOOLEAN NOT NULL DEFAULT false,
+  "enabled" BOOLEAN NOT NULL DEFAULT true,
+  "name" TEXT,
+  "tone" TEXT,
+  "focus" TEXT,
+  "expertise" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "required_context" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "max_tokens" INTEGER,
+  "created_by" TEXT NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+  ALTER TABLE tenant_personas
+    ADD CONSTRAINT tenant_personas_tenant_fkey
+    FOREIGN KEY ("tenant_id") REFERENCES tenants("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tenant_personas_tenant_id_persona_id_key
+  ON tenant_personas ("tenant_id", "persona_id");
+
+ALTER TABLE tenant_personas ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "tenant_personas_tenant_select"
+    ON tenant_personas
+    FOR SELECT
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE POLICY "tenant_personas_tenant_write"
+    ON tenant_personas
+    FOR ALL
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text)
+    WITH CHECK ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,80 @@
+-- Board minutes exports
+-- Markdown, PDF and DOCX minutes rendered from a board meeting, stored so
+-- members can download them again later.
+
+BEGIN;
+
+DO $$
+BEGIN
+  CREATE TYPE "BoardMinutesFormat" AS ENUM ('markdown', 'pdf', 'docx');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS board_minutes_exports (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT NOT NULL,
+  "meeting_id" TEXT NOT NULL,
+  "format" "BoardMinutesFormat" NOT NULL,
+  "file_name" TEXT NOT NULL,
+  "content_type" TEXT NOT NULL,
+  "size_bytes" INTEGER NOT NULL,
+  "content" BYTEA NOT NULL,
+  "created_by" TEXT NOT NULL,
+  "emailed_to" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "emailed_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+  ALTER TABLE board_minutes_exports
+    ADD CONSTRAINT board_minutes_exports_tenant_fkey
+    FOREIGN KEY ("tenant_id") REFERENCES tenants("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  ALTER TABLE board_minutes_exports
+    ADD CONSTRAINT board_minutes_exports_meeting_fkey
+    FOREIGN KEY ("meeting_id") REFERENCES board_meetings("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS board_minutes_exports_tenant_id_meeting_id_created_at_idx
+  ON board_minutes_exports ("tenant_id", "meeting_id", "created_at");
+
+ALTER TABLE board_minutes_exports ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  CREATE POLICY "board_minutes_exports_tenant_select"
+    ON board_minutes_exports
+    FOR SELECT
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+DO $$
+BEGIN
+  CREATE POLICY "board_minutes_exports_tenant_write"
+    ON board_minutes_exports
+    FOR ALL
+    USING ("tenant_id" = current_setting('app.current_tenant_id', true)::text)
+    WITH CHECK ("tenant_id" = current_setting('app.current_tenant_id', true)::text);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,32 @@
+-- Remote module workers
+-- Out-of-process workers register their capabilities with the control plane,
+-- heartbeat their health and receive TaskExecutionRequests over HTTP. The
+-- table is global: workers serve every tenant.
+
+BEGIN;
+
+DO $$
+BEGIN
+  CREATE TYPE "ModuleWorkerStatus" AS ENUM ('healthy', 'degraded', 'unhealthy');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS module_workers (
+  "id" TEXT PRIMARY KEY,
+  "module_slug" TEXT NOT NULL,
+  "endpoint" TEXT NOT NULL,
+  "capabilities" JSONB NOT NULL,
+  "metadata" JSONB,
+  "status" "ModuleWorkerStatus" NOT NULL DEFAULT 'healthy',
+  "failure_count" INTEGER NOT NULL DEFAULT 0,
+  "last_heartbeat_at" TIMESTAMP(3) NOT NULL,
+  "registered_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS module_workers_module_slug_status_idx
+  ON module_workers ("module_slug", "status");
+
+COMMIT;
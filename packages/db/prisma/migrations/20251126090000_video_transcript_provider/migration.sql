@@ -0,0 +1,17 @@
+-- Transcription providers
+-- Transcripts record which provider produced them; only AssemblyAI
+-- transcripts carry an AssemblyAI id. Sentences are stored alongside words so
+-- every provider yields the same transcript shape.
+
+BEGIN;
+
+ALTER TABLE IF EXISTS video_transcripts
+  ADD COLUMN IF NOT EXISTS "provider" TEXT NOT NULL DEFAULT 'assemblyai';
+
+ALTER TABLE IF EXISTS video_transcripts
+  ADD COLUMN IF NOT EXISTS "sentences" JSONB;
+
+ALTER TABLE IF EXISTS video_transcripts
+  ALTER COLUMN "assemblyai_id" DROP NOT NULL;
+
+COMMIT;
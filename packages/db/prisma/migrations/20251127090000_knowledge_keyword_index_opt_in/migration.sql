@@ -0,0 +1,16 @@
+-- Knowledge keyword index opt-in
+-- search_vector holds plaintext lexemes of otherwise encrypted chunks, so the
+-- keyword index becomes a per-tenant opt-in. Existing tenant vectors are
+-- dropped; opted-in tenants rebuild them with knowledge:search:backfill.
+-- Shared HQ entries (no tenant) keep their index.
+
+BEGIN;
+
+ALTER TABLE IF EXISTS tenants
+  ADD COLUMN IF NOT EXISTS "knowledge_keyword_index" BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE knowledge_entries
+  SET "search_vector" = NULL
+  WHERE "tenantId" IS NOT NULL AND "search_vector" IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Billing event lease
+-- updated_at marks when a delivery last claimed the event, so a redelivery
+-- only takes over a `received` event once the earlier attempt's lease expires.
+
+BEGIN;
+
+ALTER TABLE IF EXISTS billing_events
+  ADD COLUMN IF NOT EXISTS "updated_at" TIMESTAMP NOT NULL DEFAULT NOW();
+
+COMMIT;
@@ -25,9 +25,11 @@ export class TenantContextError extends Error {
 const TENANT_SCOPED_MODELS = [
   // Phase 1 Models
   'TenantMember',
+  'TenantInvitation',
   'Conversation',
   'Message',
   'Connector',
+  'ConnectorAuditEvent',
   'Task',
   'UsageSnapshot',
   'KnowledgeEntry',
@@ -40,8 +42,11 @@ const TENANT_SCOPED_MODELS = [
   'BoardMeeting',
   'BoardPersonaTurn',
   'BoardActionItem',
+  'BoardMinutesExport',
   // Phase 4 Models
   'ActionApproval',
+  'ApprovalPolicy',
+  'ApprovalDelegation',
   'Notification',
   'NotificationPreference',
   // Phase 6 Models
@@ -49,6 +54,8 @@ const TENANT_SCOPED_MODELS = [
   'Alert',
   'TenantWidget',
   'BillingUsage',
+  'TenantLlmSetting',
+  'TenantPersona',
 ] as const;
 
 /**
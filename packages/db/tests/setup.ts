@@ -408,7 +408,7 @@ export async function createTestKnowledgeSource(
   tenantId: string | null,
   name = 'Test Source',
   type: 'file_upload' | 'cloud_sync' | 'manual_note' | 'hq_share' = 'file_upload',
-  provider: 'upload' | 'google_drive' | 'notion' | 'manual' | 'hq' | 'other' = 'upload',
+  provider: 'upload' | 'google_drive' | 'notion' | 'slack' | 'gmail' | 'stripe' | 'manual' | 'hq' | 'other' = 'upload',
   status: 'pending' | 'syncing' | 'ready' | 'error' | 'disabled' = 'ready'
 ) {
   return testPrisma.knowledgeSource.create({
@@ -5,6 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   ModuleCapabilitySchema,
+  getCapabilityCompensation,
   MetricSnapshotSchema,
   TaskExecutionRequestSchema,
   TaskExecutionResultSchema,
@@ -85,6 +86,34 @@ describe('ModuleCapabilitySchema', () => {
   });
 });
 
+describe('getCapabilityCompensation', () => {
+  const baseCapability = {
+    name: 'send-campaign-v1',
+    version: '1.0.0',
+    description: 'Sends an email campaign',
+    inputsSchema: { type: 'object' as const },
+    outputsSchema: { type: 'object' as const },
+  };
+
+  it('reads the compensation declared in metadata', () => {
+    const compensation = getCapabilityCompensation({
+      ...baseCapability,
+      metadata: {
+        compensation: { capability: 'cancel-campaign-v1', payloadKeys: ['campaignId'] },
+      },
+    });
+
+    expect(compensation).toEqual({ capability: 'cancel-campaign-v1', payloadKeys: ['campaignId'] });
+  });
+
+  it('returns null when none or a malformed one is declared', () => {
+    expect(getCapabilityCompensation(baseCapability)).toBeNull();
+    expect(
+      getCapabilityCompensation({ ...baseCapability, metadata: { compensation: { capability: '' } } })
+    ).toBeNull();
+  });
+});
+
 describe('MetricSnapshotSchema', () => {
   it('validates a valid metric snapshot', () => {
     const validMetric = {
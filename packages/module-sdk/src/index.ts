@@ -74,6 +74,41 @@ export const ModuleCapabilitySchema = z.object({
 
 export type ModuleCapability = z.infer<typeof ModuleCapabilitySchema>;
 
+/**
+ * CapabilityCompensation is declared under a capability's
+ * `metadata.compensation` to name the capability of the same module that
+ * undoes its effects. Rollbacks submit the compensating capability through
+ * the normal approval pipeline, with the original run attached as `rollbackOf`.
+ */
+export const CapabilityCompensationSchema = z.object({
+  /**
+   * Name of the compensating capability in the same module
+   * Example: "cancel-campaign-v1" compensates "send-campaign-v1"
+   */
+  capability: z.string().min(1),
+
+  /**
+   * Human-readable description of what the compensation reverts
+   */
+  description: z.string().optional(),
+
+  /**
+   * Keys copied from the original payload into the compensation payload
+   */
+  payloadKeys: z.array(z.string().min(1)).optional(),
+});
+
+export type CapabilityCompensation = z.infer<typeof CapabilityCompensationSchema>;
+
+/**
+ * Reads the compensation declared in a capability's metadata.
+ * Returns null when none is declared or the declaration is malformed.
+ */
+export function getCapabilityCompensation(capability: ModuleCapability): CapabilityCompensation | null {
+  const parsed = CapabilityCompensationSchema.safeParse(capability.metadata?.compensation);
+  return parsed.success ? parsed.data : null;
+}
+
 /**
  * MetricSnapshot represents a single metric data point emitted by a worker.
  * Workers can emit metrics during task execution for monitoring and observability.
@@ -313,6 +348,7 @@ export type HealthCheckResponse = z.infer<typeof HealthCheckResponseSchema>;
 export const schemas = {
   JsonSchema: JsonSchemaSchema,
   ModuleCapability: ModuleCapabilitySchema,
+  CapabilityCompensation: CapabilityCompensationSchema,
   MetricSnapshot: MetricSnapshotSchema,
   TaskExecutionRequest: TaskExecutionRequestSchema,
   TaskExecutionResult: TaskExecutionResultSchema,
@@ -1,8 +1,24 @@
 // Core Entity Types
+export type TenantPlan = 'free' | 'starter' | 'growth' | 'enterprise';
+
+export type SubscriptionStatus =
+  | 'none'
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'canceled'
+  | 'unpaid'
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'paused';
+
 export interface Tenant {
   id: string;
   name: string;
   slug: string;
+  plan: TenantPlan;
+  subscriptionStatus: SubscriptionStatus;
+  currentPeriodEnd?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,6 +43,55 @@ export interface TenantMember {
 
 export type TenantMemberRole = 'owner' | 'admin' | 'member';
 
+/** Member row returned by `GET /team/members` */
+export interface TeamMember {
+  id: string;
+  userId: string;
+  email: string;
+  name: string | null;
+  role: TenantMemberRole;
+  createdAt: string;
+}
+
+export type TenantInvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface TenantInvitation {
+  id: string;
+  tenantId: string;
+  email: string;
+  role: TenantMemberRole;
+  status: TenantInvitationStatus;
+  invitedBy: string;
+  expiresAt: string;
+  /** True when still pending but past `expiresAt` */
+  expired: boolean;
+  respondedAt: string | null;
+  createdAt: string;
+}
+
+// Tenant Audit Log
+export type AuditLogSource = 'access' | 'approval' | 'knowledge' | 'connector';
+
+export interface AuditLogEntry {
+  id: string;
+  source: AuditLogSource;
+  /** `<source>.<event>`, e.g. `approval.approved` or `access.request` */
+  type: string;
+  /** Clerk user id of the actor; null for system events */
+  actorId: string | null;
+  actorEmail: string | null;
+  occurredAt: string;
+  summary: string;
+  /** Approval, knowledge source or connector the event concerns */
+  resourceId: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: string | null;
+}
+
 // Chat & Conversation Types
 export interface Conversation {
   id: string;
@@ -48,8 +113,10 @@ export interface Message {
   createdAt: Date;
 }
 
-export type MessageRole = 'user' | 'assistant' | 'system';
-export type PersonaType = 'ceo' | 'cfo' | 'cmo' | 'cto';
+export type MessageRole = 'user' | 'assistant' | 'system' | 'tool';
+export type BuiltInPersonaType = 'ceo' | 'cfo' | 'cmo' | 'cto' | 'coo' | 'chro' | 'gc';
+/** A built-in persona or the id of a tenant's custom persona */
+export type PersonaType = BuiltInPersonaType | (string & {});
 
 // Connector Types
 export interface Connector {
@@ -64,8 +131,26 @@ export interface Connector {
   scopes: string[];
   metadata: Record<string, unknown> | null;
   lastSyncedAt: Date | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  lastRefreshedAt: Date | null;
+  refreshFailureCount: number;
   createdAt: Date;
   updatedAt: Date;
+  /** Present on `GET /connectors` responses. */
+  health?: ConnectorHealth;
+}
+
+export type ConnectorHealthState = 'healthy' | 'pending' | 'expiring' | 'expired' | 'error' | 'disconnected';
+
+export interface ConnectorHealth {
+  state: ConnectorHealthState;
+  lastSuccessfulSyncAt: string | null;
+  lastError: { message: string; at: string | null } | null;
+  tokenExpiresAt: string | null;
+  expiresInSeconds: number | null;
+  lastRefreshedAt: string | null;
+  refreshFailures: number;
 }
 
 export type ConnectorProvider = 'google' | 'gmail' | 'slack' | 'notion' | 'stripe';
@@ -111,7 +196,16 @@ export interface UsageSnapshot {
 
 // Knowledge Base Types
 export type KnowledgeSourceType = 'file_upload' | 'cloud_sync' | 'manual_note' | 'hq_share';
-export type KnowledgeSourceProvider = 'upload' | 'google_drive' | 'notion' | 'manual' | 'hq' | 'other';
+export type KnowledgeSourceProvider =
+  | 'upload'
+  | 'google_drive'
+  | 'notion'
+  | 'slack'
+  | 'gmail'
+  | 'stripe'
+  | 'manual'
+  | 'hq'
+  | 'other';
 export type KnowledgeSourceStatus = 'pending' | 'syncing' | 'ready' | 'error' | 'disabled';
 export type KnowledgeStorageStrategy = 'managed_postgres' | 'external_s3';
 export type KnowledgeRetentionPolicy = 'retain_indefinitely' | 'rolling_90_days' | 'manual_purge';
@@ -173,10 +267,25 @@ export type ActionApprovalStatus =
   | 'rejected'
   | 'executing'
   | 'executed'
-  | 'failed';
+  | 'failed'
+  | 'scheduled'
+  | 'canceled';
 
 export interface ActionApprovalAuditEvent {
-  event: 'submitted' | 'approved' | 'rejected' | 'enqueued' | 'executing' | 'completed' | 'failed';
+  event:
+    | 'submitted'
+    | 'step_approved'
+    | 'approved'
+    | 'rejected'
+    | 'expired'
+    | 'scheduled'
+    | 'canceled'
+    | 'enqueued'
+    | 'executing'
+    | 'completed'
+    | 'failed'
+    | 'rollback_requested'
+    | 'rolled_back';
   at: string;
   by: string;
   note?: string;
@@ -187,6 +296,7 @@ export interface ActionApproval {
   id: string;
   tenantId: string;
   actionItemId?: string | null;
+  alertId?: string | null;
   source: string;
   payload: Record<string, unknown>;
   riskScore: number;
@@ -197,10 +307,67 @@ export interface ActionApproval {
   approvedAt?: string | null;
   executedAt?: string | null;
   auditLog: ActionApprovalAuditEvent[];
+  policyId?: string | null;
+  /** Policy as it stood when the action was submitted */
+  policy?: { name: string; steps: ApprovalPolicyStep[] } | null;
+  /** Zero-based index of the policy step awaiting sign-off */
+  currentStep?: number;
+  /** Pending requests past this time are auto-rejected */
+  expiresAt?: string | null;
+  /** Scheduled approvals run once this time has passed */
+  scheduledFor?: string | null;
+  /** IANA zone the approver scheduled in, for display */
+  scheduleTimezone?: string | null;
+  /** Scheduled approvals wait until this approval has executed */
+  runAfterApprovalId?: string | null;
+  /** Set on compensation requests: the approval whose run this undoes */
+  rollbackOfId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApprovalPolicyStep {
+  name?: string;
+  /** Roles allowed to sign off this step, directly or via delegation */
+  roles: TenantMemberRole[];
+  /** Distinct approvers required before the next step opens */
+  approvals: number;
+}
+
+export interface ApprovalPolicy {
+  id: string;
+  tenantId: string;
+  name: string;
+  description: string | null;
+  enabled: boolean;
+  priority: number;
+  /** Match criteria; null matches anything. Capability accepts `*` wildcards. */
+  moduleSlug: string | null;
+  capability: string | null;
+  persona: PersonaType | null;
+  source: string | null;
+  minRiskScore: number | null;
+  steps: ApprovalPolicyStep[];
+  /** Step approvals older than this no longer count */
+  approvalTtlHours: number | null;
+  autoRejectAfterHours: number | null;
+  createdBy: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ApprovalDelegation {
+  id: string;
+  tenantId: string;
+  delegatorId: string;
+  delegateId: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
 export interface ActionApprovalRisk {
   score: number;
   level: 'low' | 'medium' | 'high';
@@ -210,6 +377,8 @@ export interface ActionApprovalRisk {
 // Notification Types
 export type NotificationChannel = 'in_app' | 'email' | 'slack_stub';
 
+export type NotificationDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
 export interface Notification {
   id: string;
   tenantId: string;
@@ -219,6 +388,11 @@ export interface Notification {
   channel: NotificationChannel;
   readAt: string | null;
   createdAt: string;
+  /** Email and Slack notifications only */
+  deliveryStatus?: NotificationDeliveryStatus | null;
+  deliveryAttempts?: number;
+  lastDeliveryError?: string | null;
+  deliveredAt?: string | null;
 }
 
 export interface NotificationPreference {
@@ -252,7 +426,7 @@ export interface AccessLog {
 }
 
 // Trigger & Alert Types
-export type TriggerRuleType = 'schedule' | 'metric_threshold' | 'anomaly';
+export type TriggerRuleType = 'schedule' | 'metric_threshold' | 'anomaly' | 'condition';
 export type TriggerSeverity = 'info' | 'warning' | 'critical';
 export type AlertStatus = 'pending' | 'acknowledged' | 'resolved' | 'snoozed';
 
@@ -280,10 +454,21 @@ export interface Alert {
   status: AlertStatus;
   acknowledgedAt?: string | null;
   acknowledgedBy?: string | null;
+  actionApprovals?: AlertActionApproval[];
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Approval proposed by the action template of the rule that raised an alert.
+ */
+export interface AlertActionApproval {
+  id: string;
+  status: ActionApprovalStatus;
+  riskScore: number;
+  createdAt: string;
+}
+
 export interface AlertListMeta {
   pending: number;
   criticalPending: number;
@@ -332,6 +517,7 @@ export interface BillingUsagePoint {
   tasksExecuted: number;
   alertsTriggered: number;
   activeWidgets: number;
+  videoMinutes: number;
   metadata?: Record<string, unknown>;
 }
 
@@ -340,6 +526,7 @@ export interface BillingUsageTotals {
   tasksExecuted: number;
   alertsTriggered: number;
   activeWidgets: number;
+  videoMinutes: number;
 }
 
 export interface BillingUsageRange {
@@ -354,6 +541,28 @@ export interface BillingUsageSummary {
   range: BillingUsageRange;
 }
 
+export type QuotaMetric = 'tokens' | 'taskExecutions' | 'activeWidgets' | 'videoMinutes';
+
+export interface QuotaMetricUsage {
+  metric: QuotaMetric;
+  used: number;
+  limit: number | null;
+  ratio: number | null;
+  state: 'ok' | 'warning' | 'exceeded';
+}
+
+export interface BillingQuotaStatus {
+  plan: TenantPlan;
+  enforcement: 'block' | 'warn';
+  period: {
+    key: string;
+    start: string;
+    end: string;
+    resetsAt: string;
+  };
+  metrics: Record<QuotaMetric, QuotaMetricUsage>;
+}
+
 // Video Production Types
 export interface VideoJob {
   id: string;
@@ -370,6 +579,87 @@ export interface VideoJobListResponse {
   total: number;
 }
 
+// Times are in milliseconds
+export interface VideoTranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+export interface VideoTranscriptSpeakerSegment {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+  confidence: number;
+}
+
+export interface VideoTranscript {
+  id: string;
+  jobId: string;
+  provider: string;
+  content: string;
+  words: VideoTranscriptWord[];
+  speakers: VideoTranscriptSpeakerSegment[];
+  viralMoments: Array<{
+    title: string;
+    description: string;
+    start: number;
+    end: number;
+    score: number;
+    keywords: string[];
+    sentiment?: string;
+  }>;
+  duration?: number;
+  language?: string;
+  createdAt: string;
+}
+
+export interface VideoTranscriptUpdate {
+  words?: Array<{ index: number; text: string }>;
+  speakers?: Record<string, string>;
+}
+
+export type VideoTranscriptExportFormat = 'srt' | 'vtt' | 'txt';
+
+// Tenant event stream (GET /events)
+export interface TenantEventPayloads {
+  'notification.created': { type: string };
+  'alert.updated': {
+    alertId: string;
+    ruleId: string | null;
+    status: AlertStatus;
+    severity: TriggerSeverity;
+  };
+  'task.updated': {
+    taskId: string;
+    type: string;
+    status: TaskStatus;
+    error?: string | null;
+  };
+  'approval.updated': {
+    approvalId: string;
+    status: ActionApprovalStatus;
+    alertId?: string | null;
+  };
+  'video-job.updated': VideoJob;
+}
+
+export type TenantEventType = keyof TenantEventPayloads;
+
+export type TenantEvent<T extends TenantEventType = TenantEventType> = {
+  [K in T]: {
+    id: string;
+    type: K;
+    tenantId: string;
+    /** Set when only this user (User.id) should receive the event */
+    userId?: string;
+    occurredAt: string;
+    data: TenantEventPayloads[K];
+  };
+}[T];
+
 // API Request/Response Types
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -489,6 +779,32 @@ export interface AnalyticsSnapshot {
 // Board Meeting Types
 export type BoardMeetingAgendaStatus = 'pending' | 'in_progress' | 'completed';
 
+/** Persona context sections a custom persona can request */
+export type PersonaContextSection =
+  | 'businessProfile'
+  | 'moduleInsights'
+  | 'analyticsSnapshots'
+  | 'openActionItems'
+  | 'recentWins'
+  | 'personaQuestions'
+  | 'metricsSummary';
+
+/** A persona as configured for one tenant's board and chat */
+export interface TenantPersona {
+  id: PersonaType;
+  name: string;
+  tone: string;
+  focus: string;
+  expertise: string[];
+  requiredContext: string[];
+  maxTokens: number;
+  custom: boolean;
+  enabled: boolean;
+  /** Seats every tenant starts with (CEO, CFO, CMO) */
+  defaultSeat: boolean;
+  updatedAt: string | null;
+}
+
 export interface BoardMeetingAgendaItem {
   id: string;
   title: string;
@@ -516,6 +832,24 @@ export interface BoardPersonaAnalysis {
   rawContent: string;
   sequence: number;
   createdAt: string;
+  /** Debate round; 1 is the opening statement for the persona's agenda section */
+  round?: number;
+  /** Debate rounds only: positions from other personas this persona backs */
+  agreements?: string[];
+  /** Debate rounds only: positions this persona disputes */
+  dissent?: BoardDissent[];
+}
+
+/** A persona's explicit disagreement recorded during a debate round */
+export interface BoardDissent {
+  personaId: string;
+  personaName: string;
+  /** The persona whose position is disputed, when the rebuttal names one */
+  against?: string | null;
+  point: string;
+  /** What the dissenting persona would do instead */
+  recommendation?: BoardPersonaRecommendation | null;
+  round: number;
 }
 
 export interface BoardMeetingSummary {
@@ -524,6 +858,9 @@ export interface BoardMeetingSummary {
   risks: string[];
   blockers: string[];
   nextSteps: string[];
+  /** Positions the board converged on; absent for meetings recorded before debate rounds */
+  consensus?: string[];
+  dissent?: BoardDissent[];
 }
 
 export interface BoardMeetingMetrics {
@@ -611,6 +948,24 @@ export interface BoardMeetingWithDetails extends BoardMeetingRecord {
   actionItems: BoardActionItemWithAssignee[];
 }
 
+export type BoardMinutesFormat = 'markdown' | 'pdf' | 'docx';
+
+/** Stored minutes for a board meeting; the file itself is fetched from `downloadPath` */
+export interface BoardMinutesExportRecord {
+  id: string;
+  meetingId: string;
+  format: BoardMinutesFormat;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  createdBy: string;
+  /** Member user ids the minutes were emailed to */
+  emailedTo: string[];
+  emailedAt: string | null;
+  createdAt: string;
+  downloadPath: string;
+}
+
 interface BoardMeetingStreamEventBase<T, Type extends string> {
   type: Type;
   data: T;
@@ -1,5 +1,6 @@
 import { AssemblyAI, Transcript } from 'assemblyai';
 import type { TranscriptData, ViralMoment } from '../types.js';
+import { VIRAL_KEYWORDS, deriveSentences } from '../transcription/derive.js';
 
 export interface AssemblyAIConfig {
   apiKey: string;
@@ -96,6 +97,7 @@ export class AssemblyAIClient {
       id: transcript.id,
       text: transcript.text || '',
       words,
+      sentences: words ? deriveSentences(words) : undefined,
       speakers,
       viralMoments,
   duration: transcript.audio_duration ?? undefined,
@@ -152,25 +154,10 @@ export class AssemblyAIClient {
   }
 
   private calculateViralScore(summary: string, headline: string): number {
-    const viralKeywords = [
-      'shocking',
-      'amazing',
-      'incredible',
-      'revealed',
-      'secret',
-      'mistake',
-      'truth',
-      'surprising',
-      'unexpected',
-      'breakthrough',
-      'game-changer',
-      'revolutionary',
-    ];
-
     const text = (summary + ' ' + headline).toLowerCase();
     let score = 0.5; // Base score
 
-    viralKeywords.forEach((keyword) => {
+    VIRAL_KEYWORDS.forEach((keyword) => {
       if (text.includes(keyword)) {
         score += 0.1;
       }
@@ -1,5 +1,5 @@
 import axios, { AxiosInstance } from 'axios';
-import type { VideoComposition, CompositionElement } from '../types.js';
+import type { VideoComposition, CompositionElement, PlatformSpec } from '../types.js';
 
 export interface ShotstackConfig {
   apiKey: string;
@@ -266,4 +266,52 @@ export class ShotstackClient {
 
     return { renderId: response.data.response.id };
   }
+
+  /**
+   * Re-renders a video at a platform's size and frame rate. `crop` fills the
+   * frame; `pad` fits the whole picture inside it.
+   */
+  async renderForPlatform(
+    videoUrl: string,
+    spec: PlatformSpec,
+    fit: 'crop' | 'pad' = 'crop'
+  ): Promise<{ renderId: string }> {
+    const payload = {
+      timeline: {
+        background: '#000000',
+        tracks: [
+          {
+            clips: [
+              {
+                asset: {
+                  type: 'video',
+                  src: videoUrl,
+                },
+                start: 0,
+                length: 'auto',
+                fit: fit === 'crop' ? 'crop' : 'contain',
+              },
+            ],
+          },
+        ],
+      },
+      output: {
+        format: spec.format,
+        size: spec.resolution,
+        fps: spec.fps || 30,
+        ...(spec.maxDuration ? { range: { start: 0, length: spec.maxDuration } } : {}),
+      },
+    };
+
+    const response = await this.client.post<ShotstackRenderResponse>(
+      '/render',
+      payload
+    );
+
+    if (!response.data.success) {
+      throw new Error(`Platform render failed: ${response.data.message}`);
+    }
+
+    return { renderId: response.data.response.id };
+  }
 }
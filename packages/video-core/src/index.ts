@@ -4,3 +4,47 @@ export * from './types.js';
 // Export clients
 export { AssemblyAIClient, type AssemblyAIConfig } from './clients/assemblyai-client.js';
 export { ShotstackClient, type ShotstackConfig } from './clients/shotstack-client.js';
+
+export {
+  assertPublicMediaUrl,
+  downloadPublicMedia,
+  BlockedMediaUrlError,
+  MediaDownloadError,
+  type DownloadMediaOptions,
+} from './network.js';
+
+// Export render backends
+export * from './render/types.js';
+export { groupCaptionWords } from './render/captions.js';
+export { ShotstackRenderBackend } from './render/shotstack-backend.js';
+export {
+  FfmpegRenderBackend,
+  FfmpegError,
+  type FfmpegRenderConfig,
+  type MediaProbe,
+} from './render/ffmpeg-backend.js';
+
+// Export transcription providers
+export * from './transcription/types.js';
+export {
+  VIRAL_KEYWORDS,
+  deriveSentences,
+  deriveSpeakerSegments,
+  deriveViralMoments,
+} from './transcription/derive.js';
+export {
+  TRANSCRIPT_EXPORT_CONTENT_TYPES,
+  buildSubtitleCues,
+  exportTranscript,
+  formatPlainText,
+  formatSrt,
+  formatWebVtt,
+  type SubtitleCue,
+  type TranscriptExportSource,
+} from './transcription/export.js';
+export { AssemblyAITranscriptionProvider } from './transcription/assemblyai-provider.js';
+export {
+  WhisperCppTranscriptionProvider,
+  WhisperCppError,
+  type WhisperCppConfig,
+} from './transcription/whisper-cpp-provider.js';
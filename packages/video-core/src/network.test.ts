@@ -0,0 +1,203 @@
+/**
+ * Tests for media URL checks and downloads
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// Test hosts resolve without DNS; `media.test` stands in for a public host
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(async (hostname: string) => {
+    const addresses: Record<string, string> = {
+      'media.test': '127.0.0.1',
+      'metadata.test': '169.254.169.254',
+      'intranet.test': '10.0.0.5',
+    };
+    const address = addresses[hostname];
+    if (!address) {
+      throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+    }
+    return [{ address, family: 4 }];
+  }),
+}));
+
+// Loopback is where the test server listens, so it is treated as public here
+vi.mock('net', async (importOriginal) => {
+  const net = await importOriginal<typeof import('net')>();
+  class TestBlockList extends net.BlockList {
+    constructor() {
+      super();
+      const addSubnet = this.addSubnet.bind(this) as (network: string, prefix: number, type?: 'ipv4' | 'ipv6') => void;
+      this.addSubnet = ((network: string, prefix: number, type?: 'ipv4' | 'ipv6') => {
+        if (network !== '127.0.0.0') {
+          addSubnet(network, prefix, type);
+        }
+      }) as InstanceType<typeof net.BlockList>['addSubnet'];
+    }
+  }
+  return { ...net, BlockList: TestBlockList };
+});
+
+import {
+  BlockedMediaUrlError,
+  MediaDownloadError,
+  assertPublicMediaUrl,
+  downloadPublicMedia,
+} from './network.js';
+
+interface SeenRequest {
+  path: string;
+  host: string | undefined;
+}
+
+describe('assertPublicMediaUrl', () => {
+  it('accepts http(s) URLs on public hosts', async () => {
+    await expect(assertPublicMediaUrl('https://media.test/clip.mp4')).resolves.toBeUndefined();
+  });
+
+  it('rejects other protocols and invalid URLs', async () => {
+    await expect(assertPublicMediaUrl('file:///etc/passwd')).rejects.toBeInstanceOf(BlockedMediaUrlError);
+    await expect(assertPublicMediaUrl('ftp://media.test/clip.mp4')).rejects.toBeInstanceOf(BlockedMediaUrlError);
+    await expect(assertPublicMediaUrl('not a url')).rejects.toBeInstanceOf(BlockedMediaUrlError);
+  });
+
+  it('rejects hosts that resolve to private or link-local addresses', async () => {
+    await expect(assertPublicMediaUrl('http://metadata.test/latest')).rejects.toThrow('not publicly reachable');
+    await expect(assertPublicMediaUrl('http://intranet.test/')).rejects.toThrow('not publicly reachable');
+    await expect(assertPublicMediaUrl('http://192.168.1.10/clip.mp4')).rejects.toThrow('not publicly reachable');
+    await expect(assertPublicMediaUrl('http://[::1]/clip.mp4')).rejects.toThrow('not publicly reachable');
+    await expect(assertPublicMediaUrl('http://unknown.test/')).rejects.toThrow('Could not resolve');
+  });
+});
+
+describe('downloadPublicMedia', () => {
+  const seen: SeenRequest[] = [];
+  let server: Server;
+  let base: string;
+  let workDir: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      seen.push({ path: req.url ?? '/', host: req.headers.host });
+
+      switch (req.url) {
+        case '/clip.mp4':
+          res.end('video bytes');
+          return;
+        case '/moved':
+          res.writeHead(302, { Location: '/clip.mp4' });
+          res.end();
+          return;
+        case '/to-metadata':
+          res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+          res.end();
+          return;
+        case '/to-intranet':
+          res.writeHead(301, { Location: 'http://intranet.test/admin' });
+          res.end();
+          return;
+        case '/loop':
+          res.writeHead(302, { Location: '/loop' });
+          res.end();
+          return;
+        case '/large':
+          // Chunked, so the size is only known while streaming
+          res.write(Buffer.alloc(600));
+          res.end(Buffer.alloc(600));
+          return;
+        case '/playlist.m3u8':
+          res.end('#EXTM3U\n#EXTINF:10,\nfile:///etc/passwd\n');
+          return;
+        case '/stall':
+          return;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://media.test:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(async () => {
+    seen.length = 0;
+    if (workDir) {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  });
+
+  async function download(path: string, options: { maxBytes?: number; timeoutMs?: number } = {}) {
+    workDir = await mkdtemp(join(tmpdir(), 'video-core-network-'));
+    const destination = join(workDir, 'source');
+    const result = downloadPublicMedia(`${base}${path}`, destination, {
+      maxBytes: options.maxBytes ?? 1024,
+      timeoutMs: options.timeoutMs ?? 5000,
+    });
+    return { destination, result };
+  }
+
+  it('connects to the checked address and keeps the original Host header', async () => {
+    const { destination, result } = await download('/clip.mp4');
+
+    await expect(result).resolves.toBeUndefined();
+    expect(await readFile(destination, 'utf8')).toBe('video bytes');
+    expect(seen).toEqual([{ path: '/clip.mp4', host: new URL(base).host }]);
+  });
+
+  it('follows redirects to public hosts', async () => {
+    const { destination, result } = await download('/moved');
+
+    await expect(result).resolves.toBeUndefined();
+    expect(await readFile(destination, 'utf8')).toBe('video bytes');
+    expect(seen.map((request) => request.path)).toEqual(['/moved', '/clip.mp4']);
+  });
+
+  it('checks every redirect hop before connecting', async () => {
+    const metadata = await download('/to-metadata');
+    await expect(metadata.result).rejects.toBeInstanceOf(BlockedMediaUrlError);
+    expect(existsSync(metadata.destination)).toBe(false);
+
+    const intranet = await download('/to-intranet');
+    await expect(intranet.result).rejects.toThrow('intranet.test is not publicly reachable');
+    expect(seen.map((request) => request.path)).toEqual(['/to-metadata', '/to-intranet']);
+  });
+
+  it('gives up after too many redirects', async () => {
+    const { result } = await download('/loop');
+
+    await expect(result).rejects.toThrow('Too many redirects');
+    expect(seen).toHaveLength(6);
+  });
+
+  it('stops downloads that grow past the size limit', async () => {
+    const { destination, result } = await download('/large', { maxBytes: 1000 });
+
+    await expect(result).rejects.toThrow('larger than 1000 bytes');
+    expect(existsSync(destination)).toBe(false);
+  });
+
+  it('refuses playlists that point ffmpeg at other files', async () => {
+    const { destination, result } = await download('/playlist.m3u8');
+
+    await expect(result).rejects.toThrow('Playlists are not supported');
+    expect(existsSync(destination)).toBe(false);
+  });
+
+  it('reports HTTP errors and timeouts', async () => {
+    await expect((await download('/missing')).result).rejects.toThrow('HTTP 404');
+
+    const stalled = await download('/stall', { timeoutMs: 200 });
+    await expect(stalled.result).rejects.toBeInstanceOf(MediaDownloadError);
+    await expect(stalled.result).rejects.toThrow('did not finish within 200ms');
+  });
+});
@@ -0,0 +1,226 @@
+import { createWriteStream } from 'fs';
+import { open, rm } from 'fs/promises';
+import type { IncomingMessage, RequestOptions } from 'http';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export class BlockedMediaUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedMediaUrlError';
+  }
+}
+
+export class MediaDownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaDownloadError';
+  }
+}
+
+export interface DownloadMediaOptions {
+  /** The download is aborted once the body grows past this many bytes. */
+  maxBytes: number;
+  /** Covers the whole download, redirects included. */
+  timeoutMs: number;
+  maxRedirects?: number;
+}
+
+// Loopback, private, link-local (including cloud metadata), carrier-grade
+// NAT, unspecified and multicast ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are matched against the IPv4 ranges
+  switch (isIP(address)) {
+    case 4:
+      return blockedAddresses.check(address, 'ipv4');
+    case 6:
+      return blockedAddresses.check(address, 'ipv6');
+    default:
+      return true;
+  }
+}
+
+/**
+ * Parses a media URL and resolves its host, rejecting anything that is not
+ * http(s) or that resolves to a private, loopback or link-local address.
+ * Returns the address to connect to, so the check cannot be bypassed by the
+ * host resolving differently later.
+ */
+async function resolvePublicHost(url: string): Promise<{ parsed: URL; hostname: string; address: string }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedMediaUrlError(`Invalid media URL: ${url}`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BlockedMediaUrlError(`Unsupported media source: ${url}`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    throw new BlockedMediaUrlError(`Could not resolve media host ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new BlockedMediaUrlError(`Media host ${hostname} is not publicly reachable`);
+  }
+
+  return { parsed, hostname, address: addresses[0]! };
+}
+
+/**
+ * Rejects media URLs that are not http(s) or whose host resolves to a
+ * private, loopback or link-local address. This only checks the URL; fetch
+ * with downloadPublicMedia so redirects and re-resolution are covered too.
+ */
+export async function assertPublicMediaUrl(url: string): Promise<void> {
+  await resolvePublicHost(url);
+}
+
+/**
+ * Sends the request to the already-checked address. The URL's host is kept
+ * for the Host header and TLS, so certificates are still verified against it.
+ */
+function requestPinned(
+  target: { parsed: URL; hostname: string; address: string },
+  signal: AbortSignal
+): Promise<IncomingMessage> {
+  const { parsed, hostname, address } = target;
+  const options: RequestOptions = {
+    host: address,
+    port: parsed.port || undefined,
+    path: `${parsed.pathname}${parsed.search}`,
+    headers: { host: parsed.host },
+    signal,
+  };
+
+  return new Promise((resolve, reject) => {
+    const request =
+      parsed.protocol === 'https:'
+        ? httpsRequest({ ...options, servername: isIP(hostname) ? undefined : hostname }, resolve)
+        : httpRequest(options, resolve);
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+// Text formats that make ffmpeg open further files named inside them
+const PLAYLIST_SIGNATURES = ['#EXTM3U', 'ffconcat'];
+
+async function assertNotPlaylist(path: string): Promise<void> {
+  const handle = await open(path, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(64), 0, 64, 0);
+    const head = buffer.subarray(0, bytesRead).toString('utf8').replace(/^\uFEFF/, '').trimStart();
+    if (PLAYLIST_SIGNATURES.some((signature) => head.startsWith(signature))) {
+      throw new MediaDownloadError('Playlists are not supported; link the media file itself');
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Downloads a user-supplied media URL to `destination` so ffmpeg only ever
+ * reads local files. Redirects are followed by hand and every hop goes
+ * through the same address check, connecting to the address that was
+ * checked. The partial file is removed on failure.
+ */
+export async function downloadPublicMedia(
+  url: string,
+  destination: string,
+  options: DownloadMediaOptions
+): Promise<void> {
+  const maxRedirects = options.maxRedirects ?? 5;
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let current = url;
+
+  try {
+    for (let hop = 0; hop <= maxRedirects; hop += 1) {
+      const target = await resolvePublicHost(current);
+      const response = await requestPinned(target, signal);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        current = new URL(response.headers.location, target.parsed).href;
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new MediaDownloadError(`Media host returned HTTP ${status} for ${current}`);
+      }
+
+      const tooLarge = () => new MediaDownloadError(`Media is larger than ${options.maxBytes} bytes`);
+      if (Number(response.headers['content-length']) > options.maxBytes) {
+        response.destroy();
+        throw tooLarge();
+      }
+
+      let received = 0;
+      await pipeline(
+        response,
+        new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            received += chunk.length;
+            callback(received > options.maxBytes ? tooLarge() : null, chunk);
+          },
+        }),
+        createWriteStream(destination)
+      );
+
+      await assertNotPlaylist(destination);
+      return;
+    }
+
+    throw new MediaDownloadError(`Too many redirects fetching ${url}`);
+  } catch (error) {
+    await rm(destination, { force: true });
+    if (signal.aborted) {
+      throw new MediaDownloadError(`Media download did not finish within ${options.timeoutMs}ms`);
+    }
+    if (error instanceof BlockedMediaUrlError || error instanceof MediaDownloadError) {
+      throw error;
+    }
+    throw new MediaDownloadError(
+      `Failed to download ${current}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
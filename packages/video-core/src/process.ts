@@ -0,0 +1,72 @@
+import { spawn } from 'child_process';
+import { basename } from 'path';
+import { createInterface } from 'readline';
+
+export interface RunCommandOptions {
+  /** The process is killed after this long. */
+  timeoutMs: number;
+  onStdoutLine?: (line: string) => void;
+  onStderrLine?: (line: string) => void;
+}
+
+export class CommandError extends Error {
+  readonly exitCode: number | null;
+  readonly timedOut: boolean;
+
+  constructor(message: string, exitCode: number | null, timedOut = false) {
+    super(message);
+    this.name = 'CommandError';
+    this.exitCode = exitCode;
+    this.timedOut = timedOut;
+  }
+}
+
+/**
+ * Runs a binary without a shell and resolves when it exits cleanly. Failures
+ * carry the last lines of stderr, which is where ffmpeg and whisper.cpp
+ * explain themselves.
+ */
+export function runCommand(command: string, args: string[], options: RunCommandOptions): Promise<void> {
+  const name = basename(command);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const stderrTail: string[] = [];
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, options.timeoutMs);
+
+    createInterface({ input: child.stdout }).on('line', (line) => {
+      options.onStdoutLine?.(line);
+    });
+
+    createInterface({ input: child.stderr }).on('line', (line) => {
+      stderrTail.push(line);
+      if (stderrTail.length > 10) {
+        stderrTail.shift();
+      }
+      options.onStderrLine?.(line);
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new CommandError(`Failed to start ${name}: ${error.message}`, null));
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      reject(
+        timedOut
+          ? new CommandError(`${name} did not finish within ${options.timeoutMs}ms`, code, true)
+          : new CommandError(`${name} exited with code ${code}: ${stderrTail.join(' ').trim()}`, code)
+      );
+    });
+  });
+}
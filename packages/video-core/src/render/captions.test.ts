@@ -0,0 +1,41 @@
+/**
+ * Tests for caption cue grouping
+ */
+
+import { describe, expect, it } from 'vitest';
+import { groupCaptionWords } from './captions.js';
+
+function words(...entries: Array<[string, number, number]>) {
+  return entries.map(([text, start, end]) => ({ text, start, end }));
+}
+
+describe('groupCaptionWords', () => {
+  it('groups three words per cue by default', () => {
+    const cues = groupCaptionWords(
+      words(['We', 0, 200], ['grew', 250, 500], ['revenue', 550, 900], ['forty', 950, 1200], ['percent', 1250, 1600])
+    );
+
+    expect(cues.map((cue) => cue.text)).toEqual(['We grew revenue', 'forty percent']);
+    expect(cues[0]).toMatchObject({ start: 0, end: 900 });
+    expect(cues[1]!.words).toHaveLength(2);
+  });
+
+  it('starts a new cue after a pause', () => {
+    const cues = groupCaptionWords(words(['Hello', 0, 400], ['again', 2000, 2400]));
+
+    expect(cues.map((cue) => cue.text)).toEqual(['Hello', 'again']);
+  });
+
+  it('honours custom limits', () => {
+    const cues = groupCaptionWords(words(['a', 0, 100], ['b', 400, 500], ['c', 600, 700]), {
+      wordsPerCue: 5,
+      maxGapMs: 200,
+    });
+
+    expect(cues.map((cue) => cue.text)).toEqual(['a', 'b c']);
+  });
+
+  it('returns no cues for no words', () => {
+    expect(groupCaptionWords([])).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import type { CaptionCue, CaptionWord } from './types.js';
+
+/**
+ * Groups words into short on-screen cues. A pause longer than `maxGapMs`
+ * starts a new cue so captions never linger over silence.
+ */
+export function groupCaptionWords(
+  words: CaptionWord[],
+  options: { wordsPerCue?: number; maxGapMs?: number } = {}
+): CaptionCue[] {
+  const wordsPerCue = options.wordsPerCue ?? 3;
+  const maxGapMs = options.maxGapMs ?? 1000;
+  const cues: CaptionCue[] = [];
+  let current: CaptionWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) {
+      return;
+    }
+    cues.push({
+      text: current.map((word) => word.text).join(' '),
+      start: current[0]!.start,
+      end: current[current.length - 1]!.end,
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (current.length >= wordsPerCue || (previous && word.start - previous.end > maxGapMs)) {
+      flush();
+    }
+    current.push(word);
+  }
+  flush();
+
+  return cues;
+}
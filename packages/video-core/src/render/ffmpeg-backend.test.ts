@@ -0,0 +1,156 @@
+/**
+ * Tests for the ffmpeg render backend, run against stand-in ffmpeg and
+ * ffprobe scripts that record how they were called
+ */
+
+import { chmod, mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockDownloadPublicMedia } = vi.hoisted(() => ({
+  mockDownloadPublicMedia: vi.fn(),
+}));
+
+vi.mock('../network.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../network.js')>()),
+  downloadPublicMedia: mockDownloadPublicMedia,
+}));
+
+import { BlockedMediaUrlError } from '../network.js';
+import { PLATFORM_SPECS } from '../types.js';
+import { FfmpegError, FfmpegRenderBackend } from './ffmpeg-backend.js';
+
+interface Invocation {
+  tool: string;
+  args: string[];
+  input: string | null;
+}
+
+// Logs its arguments and the input file's content; ffmpeg writes its output,
+// ffprobe reports a 10 second 1280x720 clip with audio
+const FAKE_TOOL = `#!${process.execPath}
+const { appendFileSync, readFileSync, writeFileSync } = require('fs');
+const args = process.argv.slice(2);
+const inputIndex = args.indexOf('-i');
+const input = inputIndex === -1 ? null : readFileSync(args[inputIndex + 1], 'utf8');
+appendFileSync(process.env.FAKE_TOOL_LOG, JSON.stringify({ tool: __TOOL__, args, input }) + '\\n');
+if (__TOOL__ === 'ffprobe') {
+  process.stdout.write(JSON.stringify({
+    format: { duration: '10.0' },
+    streams: [{ codec_type: 'video', width: 1280, height: 720 }, { codec_type: 'audio' }],
+  }));
+} else {
+  writeFileSync(args[args.length - 1], 'rendered');
+}
+`;
+
+describe('FfmpegRenderBackend', () => {
+  let binDir: string;
+  let outputDir: string;
+  let logPath: string;
+  let backend: FfmpegRenderBackend;
+
+  async function invocations(): Promise<Invocation[]> {
+    const log = await readFile(logPath, 'utf8').catch(() => '');
+    return log
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as Invocation);
+  }
+
+  async function tempEntries(): Promise<string[]> {
+    return (await readdir(tmpdir())).filter((entry) => entry.startsWith('ocsuite-render-'));
+  }
+
+  beforeEach(async () => {
+    binDir = await mkdtemp(join(tmpdir(), 'video-core-bin-'));
+    outputDir = join(binDir, 'renders');
+    logPath = join(binDir, 'calls.log');
+
+    for (const tool of ['ffmpeg', 'ffprobe']) {
+      const path = join(binDir, tool);
+      await writeFile(path, FAKE_TOOL.replaceAll('__TOOL__', JSON.stringify(tool)));
+      await chmod(path, 0o755);
+    }
+    vi.stubEnv('FAKE_TOOL_LOG', logPath);
+
+    backend = new FfmpegRenderBackend({
+      outputDir,
+      ffmpegPath: join(binDir, 'ffmpeg'),
+      ffprobePath: join(binDir, 'ffprobe'),
+      maxDownloadBytes: 4096,
+      downloadTimeoutMs: 1000,
+    });
+
+    mockDownloadPublicMedia.mockImplementation(async (url: string, destination: string) => {
+      if (url.includes('169.254.169.254')) {
+        throw new BlockedMediaUrlError('Media host 169.254.169.254 is not publicly reachable');
+      }
+      await writeFile(destination, `downloaded ${url}`);
+    });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    mockDownloadPublicMedia.mockReset();
+    await rm(binDir, { recursive: true, force: true });
+  });
+
+  it('downloads remote sources and hands ffmpeg only the local copy', async () => {
+    const before = await tempEntries();
+
+    const result = await backend.renderForPlatform('https://cdn.example.com/talk.mp4?sig=abc', PLATFORM_SPECS.tiktok);
+
+    expect(mockDownloadPublicMedia).toHaveBeenCalledWith(
+      'https://cdn.example.com/talk.mp4?sig=abc',
+      expect.stringMatching(/ocsuite-render-[^/]+\/source-0\.mp4$/),
+      { maxBytes: 4096, timeoutMs: 1000 }
+    );
+
+    const calls = await invocations();
+    expect(calls.map((call) => call.tool)).toEqual(['ffprobe', 'ffmpeg']);
+    for (const call of calls) {
+      const inputIndex = call.args.indexOf('-i');
+      expect(call.args.slice(inputIndex - 2, inputIndex)).toEqual(['-protocol_whitelist', 'file']);
+      expect(call.args[inputIndex + 1]).not.toMatch(/^https?:/);
+      expect(call.input).toBe('downloaded https://cdn.example.com/talk.mp4?sig=abc');
+    }
+
+    expect(result.durationSeconds).toBe(10);
+    expect(await readFile(fileURLToPath(result.url), 'utf8')).toBe('rendered');
+    // The downloaded copy goes away with the work directory
+    expect(await tempEntries()).toEqual(before);
+  });
+
+  it('reads its own earlier outputs without downloading them', async () => {
+    const first = await backend.renderForPlatform('https://cdn.example.com/talk.mp4', PLATFORM_SPECS.youtube);
+    mockDownloadPublicMedia.mockClear();
+
+    await backend.burnCaptions(first.url, [{ text: 'Hello', start: 0, end: 500 }]);
+
+    expect(mockDownloadPublicMedia).not.toHaveBeenCalled();
+    const captionRun = (await invocations()).at(-1)!;
+    expect(captionRun.args).toContain(fileURLToPath(first.url));
+  });
+
+  it('never runs ffmpeg for sources that fail the download checks', async () => {
+    await expect(
+      backend.renderComposition({
+        timeline: {
+          tracks: [
+            [
+              { type: 'video', src: 'https://cdn.example.com/intro.mp4', start: 0, length: 5 },
+              { type: 'image', src: 'http://169.254.169.254/latest/meta-data/', start: 5, length: 5 },
+            ],
+          ],
+        },
+        output: { format: 'mp4', resolution: 'hd' },
+      })
+    ).rejects.toBeInstanceOf(FfmpegError);
+
+    expect(await invocations()).toEqual([]);
+    expect(await readdir(outputDir).catch(() => [])).toEqual([]);
+  });
+});
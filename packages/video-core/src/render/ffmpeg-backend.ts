@@ -0,0 +1,358 @@
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, extname, join, resolve, sep } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { promisify } from 'util';
+import { downloadPublicMedia } from '../network.js';
+import { CommandError, runCommand } from '../process.js';
+import { VideoOutputFormat, type PlatformSpec, type TextOverlay, type VideoComposition } from '../types.js';
+import { groupCaptionWords } from './captions.js';
+import {
+  buildAssSubtitles,
+  buildCaptionCommand,
+  buildCompositionCommand,
+  buildPlatformCommand,
+} from './ffmpeg-filters.js';
+import type {
+  CaptionStyle,
+  CaptionWord,
+  PlatformRenderOptions,
+  RenderBackend,
+  RenderOptions,
+  RenderResult,
+} from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+const PROBE_TIMEOUT_MS = 60_000;
+
+export interface FfmpegRenderConfig {
+  /** Directory rendered files are written to. */
+  outputDir: string;
+  /**
+   * URL the output directory is served from. Without one, results are
+   * returned as file:// URLs.
+   */
+  publicBaseUrl?: string;
+  ffmpegPath?: string;
+  ffprobePath?: string;
+  /** A single ffmpeg run is killed after this long. */
+  timeoutMs?: number;
+  /** Remote sources larger than this are refused. Defaults to 2 GiB. */
+  maxDownloadBytes?: number;
+  /** Downloading one remote source is aborted after this long. */
+  downloadTimeoutMs?: number;
+}
+
+export interface MediaProbe {
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+  hasAudio: boolean;
+}
+
+export class FfmpegError extends Error {
+  readonly exitCode: number | null;
+
+  constructor(message: string, exitCode: number | null = null) {
+    super(message);
+    this.name = 'FfmpegError';
+    this.exitCode = exitCode;
+  }
+}
+
+interface FfprobeOutput {
+  format?: { duration?: string };
+  streams?: Array<{ codec_type?: string; width?: number; height?: number }>;
+}
+
+/**
+ * Renders on the local machine with the ffmpeg and ffprobe binaries. Remote
+ * sources are downloaded into a work directory first and ffmpeg only reads
+ * local files; the only other files it reads are its own earlier outputs, so
+ * renders can be chained.
+ */
+export class FfmpegRenderBackend implements RenderBackend {
+  readonly name = 'ffmpeg';
+  private outputDir: string;
+  private publicBaseUrl?: string;
+  private ffmpegPath: string;
+  private ffprobePath: string;
+  private timeoutMs: number;
+  private maxDownloadBytes: number;
+  private downloadTimeoutMs: number;
+
+  constructor(config: FfmpegRenderConfig) {
+    this.outputDir = resolve(config.outputDir);
+    this.publicBaseUrl = config.publicBaseUrl?.replace(/\/+$/, '');
+    this.ffmpegPath = config.ffmpegPath || 'ffmpeg';
+    this.ffprobePath = config.ffprobePath || 'ffprobe';
+    this.timeoutMs = config.timeoutMs ?? 30 * 60 * 1000;
+    this.maxDownloadBytes = config.maxDownloadBytes ?? 2 * 1024 ** 3;
+    this.downloadTimeoutMs = config.downloadTimeoutMs ?? 10 * 60 * 1000;
+  }
+
+  async renderComposition(composition: VideoComposition, options: RenderOptions = {}): Promise<RenderResult> {
+    return this.withWorkDir(async (workDir) => {
+      const inputs = await this.fetchSources(
+        composition.timeline.tracks.flat().flatMap((element) => (element.type === 'text' ? [] : [element.src])),
+        workDir
+      );
+
+      const sources = [
+        ...new Set(
+          composition.timeline.tracks.flatMap((track) =>
+            track.flatMap((element) => (element.type === 'video' ? [element.src] : []))
+          )
+        ),
+      ];
+      const probes = await Promise.all(sources.map((src) => this.probeFile(inputs.get(src)!, src)));
+      const sourcesWithAudio = new Set(sources.filter((_, index) => probes[index]!.hasAudio));
+
+      const textFiles = new Map<TextOverlay, string>();
+      for (const element of composition.timeline.tracks.flat()) {
+        if (element.type === 'text') {
+          const path = join(workDir, `text-${textFiles.size}.txt`);
+          await writeFile(path, element.text, 'utf8');
+          textFiles.set(element, path);
+        }
+      }
+
+      return this.renderTo(composition.output.format || 'mp4', async (outputPath) => {
+        const command = buildCompositionCommand(
+          composition,
+          {
+            input: (src) => this.inputArgs(inputs.get(src)!),
+            sourcesWithAudio,
+            textFile: (overlay) => textFiles.get(overlay)!,
+          },
+          outputPath
+        );
+        await this.run(command.args, command.durationSeconds, options);
+        return command.durationSeconds;
+      });
+    });
+  }
+
+  async burnCaptions(
+    videoUrl: string,
+    words: CaptionWord[],
+    style?: CaptionStyle,
+    options: RenderOptions = {}
+  ): Promise<RenderResult> {
+    return this.withWorkDir(async (workDir) => {
+      const input = (await this.fetchSources([videoUrl], workDir)).get(videoUrl)!;
+      const probe = await this.probeFile(input, videoUrl);
+      if (!probe.width || !probe.height) {
+        throw new FfmpegError('Caption source has no video stream');
+      }
+      const frame = { width: probe.width, height: probe.height };
+
+      const subtitlesPath = join(workDir, 'captions.ass');
+      await writeFile(subtitlesPath, buildAssSubtitles(groupCaptionWords(words), style, frame), 'utf8');
+
+      return this.renderTo('mp4', async (outputPath) => {
+        await this.run(
+          buildCaptionCommand(this.inputArgs(input), subtitlesPath, outputPath),
+          probe.durationSeconds,
+          options
+        );
+        return probe.durationSeconds;
+      });
+    });
+  }
+
+  async renderForPlatform(
+    videoUrl: string,
+    spec: PlatformSpec,
+    options: PlatformRenderOptions = {}
+  ): Promise<RenderResult> {
+    return this.withWorkDir(async (workDir) => {
+      const input = (await this.fetchSources([videoUrl], workDir)).get(videoUrl)!;
+      const probe = await this.probeFile(input, videoUrl);
+      const durationSeconds =
+        spec.maxDuration && probe.durationSeconds
+          ? Math.min(spec.maxDuration, probe.durationSeconds)
+          : probe.durationSeconds ?? spec.maxDuration;
+
+      return this.renderTo(spec.format, async (outputPath) => {
+        await this.run(
+          buildPlatformCommand(this.inputArgs(input), spec, options.fit ?? 'crop', outputPath),
+          durationSeconds,
+          options
+        );
+        return durationSeconds;
+      });
+    });
+  }
+
+  async probe(src: string): Promise<MediaProbe> {
+    return this.withWorkDir(async (workDir) =>
+      this.probeFile((await this.fetchSources([src], workDir)).get(src)!, src)
+    );
+  }
+
+  private async probeFile(path: string, src: string): Promise<MediaProbe> {
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync(
+        this.ffprobePath,
+        ['-v', 'error', '-show_entries', 'format=duration:stream=codec_type,width,height', '-of', 'json', ...this.inputArgs(path)],
+        { timeout: PROBE_TIMEOUT_MS, maxBuffer: 1024 * 1024 }
+      ));
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new FfmpegError(`Failed to probe ${src}: ${stderr || (error instanceof Error ? error.message : 'Unknown error')}`);
+    }
+
+    const output = JSON.parse(stdout) as FfprobeOutput;
+    const video = output.streams?.find((stream) => stream.codec_type === 'video');
+    const duration = Number(output.format?.duration);
+
+    return {
+      durationSeconds: Number.isFinite(duration) && duration > 0 ? duration : undefined,
+      width: video?.width,
+      height: video?.height,
+      hasAudio: output.streams?.some((stream) => stream.codec_type === 'audio') ?? false,
+    };
+  }
+
+  /**
+   * Maps a URL this backend returned back to the file on disk, or null for
+   * anything that is not one of its outputs.
+   */
+  resolveOutputPath(url: string): string | null {
+    let path: string | null = null;
+    if (url.startsWith('file:')) {
+      try {
+        path = fileURLToPath(url);
+      } catch {
+        return null;
+      }
+    } else if (this.publicBaseUrl && url.startsWith(`${this.publicBaseUrl}/`)) {
+      path = join(this.outputDir, basename(new URL(url).pathname));
+    }
+
+    if (!path) {
+      return null;
+    }
+
+    const resolved = resolve(path);
+    return resolved.startsWith(`${this.outputDir}${sep}`) ? resolved : null;
+  }
+
+  /**
+   * Maps each source to a local file: this backend's earlier outputs as they
+   * are, anything else downloaded into `workDir` (public hosts only, checked
+   * on every redirect).
+   */
+  private async fetchSources(sources: string[], workDir: string): Promise<Map<string, string>> {
+    const local = new Map<string, string>();
+
+    for (const src of new Set(sources)) {
+      const output = this.resolveOutputPath(src);
+      if (output) {
+        local.set(src, output);
+        continue;
+      }
+
+      // The extension helps ffmpeg pick a demuxer; the content is probed anyway
+      let extension = '';
+      try {
+        extension = extname(new URL(src).pathname).toLowerCase();
+      } catch {
+        // downloadPublicMedia reports the invalid URL
+      }
+      const path = join(workDir, `source-${local.size}${/^\.[a-z0-9]{1,5}$/.test(extension) ? extension : ''}`);
+
+      try {
+        await downloadPublicMedia(src, path, {
+          maxBytes: this.maxDownloadBytes,
+          timeoutMs: this.downloadTimeoutMs,
+        });
+      } catch (error) {
+        throw new FfmpegError(error instanceof Error ? error.message : `Failed to download ${src}`);
+      }
+      local.set(src, path);
+    }
+
+    return local;
+  }
+
+  private inputArgs(path: string): string[] {
+    return ['-protocol_whitelist', 'file', '-i', path];
+  }
+
+  private async withWorkDir<T>(fn: (workDir: string) => Promise<T>): Promise<T> {
+    const workDir = await mkdtemp(join(tmpdir(), 'ocsuite-render-'));
+    try {
+      return await fn(workDir);
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async renderTo(
+    format: string,
+    render: (outputPath: string) => Promise<number | undefined>
+  ): Promise<RenderResult> {
+    // The format becomes part of the file name, so anything else could point
+    // the output (and the cleanup on failure) outside outputDir
+    if (!VideoOutputFormat.safeParse(format).success) {
+      throw new FfmpegError(`Unsupported output format: ${format}`);
+    }
+
+    await mkdir(this.outputDir, { recursive: true });
+    const fileName = `${randomUUID()}.${format}`;
+    const outputPath = join(this.outputDir, fileName);
+
+    let durationSeconds: number | undefined;
+    try {
+      durationSeconds = await render(outputPath);
+    } catch (error) {
+      await rm(outputPath, { force: true });
+      throw error;
+    }
+
+    return {
+      url: this.publicBaseUrl ? `${this.publicBaseUrl}/${fileName}` : pathToFileURL(outputPath).href,
+      durationSeconds,
+    };
+  }
+
+  private async run(args: string[], durationSeconds: number | undefined, options: RenderOptions): Promise<void> {
+    let reported = 0;
+    // Progress callbacks run in order and finish before the render resolves,
+    // so a late update never lands after the caller marks the job complete
+    let progressChain: Promise<void> = Promise.resolve();
+
+    try {
+      await runCommand(this.ffmpegPath, ['-hide_banner', '-nostdin', '-y', '-progress', 'pipe:1', '-nostats', ...args], {
+        timeoutMs: this.timeoutMs,
+        // -progress writes key=value lines; out_time_us (out_time_ms before
+        // ffmpeg 4.4, also in microseconds) is the encoded position
+        onStdoutLine: (line) => {
+          const match = line.match(/^out_time_(?:us|ms)=(\d+)$/);
+          const onProgress = options.onProgress;
+          if (!match || !durationSeconds || !onProgress) {
+            return;
+          }
+          const progress = Math.min(90, Math.floor((Number(match[1]) / 1e6 / durationSeconds) * 10) * 10);
+          if (progress > reported) {
+            reported = progress;
+            progressChain = progressChain.then(() => onProgress({ progress })).catch(() => undefined);
+          }
+        },
+      });
+    } catch (error) {
+      throw new FfmpegError(
+        error instanceof Error ? error.message : 'ffmpeg failed',
+        error instanceof CommandError ? error.exitCode : null
+      );
+    }
+
+    await progressChain;
+  }
+}
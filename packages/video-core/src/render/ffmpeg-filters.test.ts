@@ -0,0 +1,202 @@
+/**
+ * Tests for ffmpeg command and subtitle builders
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PLATFORM_SPECS, type TextOverlay, type VideoComposition } from '../types.js';
+import {
+  buildAssSubtitles,
+  buildCaptionCommand,
+  buildCompositionCommand,
+  buildPlatformCommand,
+  encoderArgs,
+  escapeFilterValue,
+  getTimelineDuration,
+  parseColor,
+  resolveFrameSize,
+  toAssColor,
+  toFfmpegColor,
+} from './ffmpeg-filters.js';
+
+function argAfter(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+describe('resolveFrameSize', () => {
+  it('maps named and explicit resolutions', () => {
+    expect(resolveFrameSize('1080')).toEqual({ width: 1920, height: 1080 });
+    expect(resolveFrameSize('720x1280')).toEqual({ width: 720, height: 1280 });
+  });
+
+  it('falls back to HD', () => {
+    expect(resolveFrameSize(undefined)).toEqual({ width: 1280, height: 720 });
+    expect(resolveFrameSize('huge')).toEqual({ width: 1280, height: 720 });
+  });
+});
+
+describe('parseColor', () => {
+  const fallback = { r: 1, g: 2, b: 3, alpha: 1 };
+
+  it('parses hex, rgb() and named colours', () => {
+    expect(parseColor('#f00', null)).toEqual({ r: 255, g: 0, b: 0, alpha: 1 });
+    expect(parseColor('#00ff0080', null)).toEqual({ r: 0, g: 255, b: 0, alpha: 128 / 255 });
+    expect(parseColor('rgba(10, 20, 30, 0.5)', null)).toEqual({ r: 10, g: 20, b: 30, alpha: 0.5 });
+    expect(parseColor(' White ', null)).toEqual({ r: 255, g: 255, b: 255, alpha: 1 });
+  });
+
+  it('returns null for transparent and the fallback for anything else', () => {
+    expect(parseColor('transparent', fallback)).toBeNull();
+    expect(parseColor('hsl(0, 100%, 50%)', fallback)).toBe(fallback);
+    expect(parseColor(undefined, fallback)).toBe(fallback);
+  });
+
+  it('formats colours for ffmpeg and ASS', () => {
+    const color = { r: 255, g: 128, b: 0, alpha: 0.5 };
+    expect(toFfmpegColor(color)).toBe('0xFF8000@0.5');
+    // ASS is &HAABBGGRR with inverted alpha
+    expect(toAssColor(color)).toBe('&H800080FF');
+  });
+});
+
+describe('escapeFilterValue', () => {
+  it('escapes for both the option and the graph parser', () => {
+    expect(escapeFilterValue("/tmp/it's:here")).toBe("/tmp/it\\\\\\'s\\\\:here");
+    expect(escapeFilterValue('a,b;[c]')).toBe('a\\,b\\;\\[c\\]');
+  });
+});
+
+describe('encoderArgs', () => {
+  it('picks codecs per container', () => {
+    expect(encoderArgs('mp4', { audio: true })).toEqual(expect.arrayContaining(['libx264', 'aac', '+faststart']));
+    expect(encoderArgs('webm', { quality: 'high', audio: false })).toEqual(
+      expect.arrayContaining(['libvpx-vp9', '-an', '26'])
+    );
+    expect(encoderArgs('gif', { audio: true })).toEqual(['-an', '-loop', '0']);
+  });
+
+  it('rejects formats it cannot produce', () => {
+    expect(() => encoderArgs('avi', { audio: true })).toThrow('Unsupported output format: avi');
+  });
+});
+
+describe('buildCompositionCommand', () => {
+  const title: TextOverlay = { type: 'text', text: 'Q3 review', start: 0, length: 3, style: { backgroundColor: '#000000' } };
+  const composition: VideoComposition = {
+    timeline: {
+      background: '#ffffff',
+      tracks: [
+        [title],
+        [
+          { type: 'video', src: 'intro', start: 0, length: 4, offset: 2, transition: { in: 'fadeSlow' } },
+          { type: 'image', src: 'logo', start: 4, length: 2 },
+        ],
+        [{ type: 'audio', src: 'music', start: 0, length: 6, volume: 0.5, effect: 'fadeOut' }],
+      ],
+    },
+    output: { format: 'mp4', resolution: 'sd', fps: 25 },
+  };
+  const media = {
+    input: (src: string) => ['-i', `/work/${src}`],
+    sourcesWithAudio: new Set(['intro']),
+    textFile: () => '/work/text-0.txt',
+  };
+
+  it('places clips on a background canvas for the timeline duration', () => {
+    const { args, durationSeconds } = buildCompositionCommand(composition, media, '/out/render.mp4');
+
+    expect(durationSeconds).toBe(6);
+    expect(getTimelineDuration(composition)).toBe(6);
+    expect(args.slice(0, 4)).toEqual(['-f', 'lavfi', '-i', 'color=c=0xFFFFFF@1:s=1024x576:r=25:d=6']);
+    // Bottom track first; the video clip is seeked to its offset
+    expect(args).toEqual(expect.arrayContaining(['-t', '6', '-i', '/work/music']));
+    expect(args).toEqual(expect.arrayContaining(['-ss', '2', '-t', '4', '-i', '/work/intro']));
+    expect(args).toEqual(expect.arrayContaining(['-loop', '1', '-t', '2', '-i', '/work/logo']));
+    expect(args.at(-1)).toBe('/out/render.mp4');
+  });
+
+  it('mixes every audible source and draws text from its file', () => {
+    const { args } = buildCompositionCommand(composition, media, '/out/render.mp4');
+    const graph = argAfter(args, '-filter_complex')!;
+
+    expect(graph).toContain("drawtext=textfile='/work/text-0.txt':expansion=none");
+    expect(graph).toContain('box=1');
+    expect(graph).toContain('fade=t=in:st=0:d=1:alpha=1');
+    expect(graph).toContain('afade=t=out:st=5:d=1');
+    expect(graph).toContain('amix=inputs=2');
+    expect(args).toEqual(expect.arrayContaining(['-map', '[vout]', '-map', '[aout]']));
+  });
+
+  it('leaves out audio the sources do not have', () => {
+    const silent = { ...composition, timeline: { tracks: composition.timeline.tracks.slice(0, 2) } };
+    const { args } = buildCompositionCommand(silent, { ...media, sourcesWithAudio: new Set() }, '/out/render.mp4');
+
+    expect(argAfter(args, '-filter_complex')).not.toContain('[aout]');
+    expect(args).toContain('-an');
+  });
+
+  it('rejects empty timelines', () => {
+    expect(() =>
+      buildCompositionCommand({ timeline: { tracks: [] }, output: { format: 'mp4', resolution: 'hd' } }, media, '/out/x.mp4')
+    ).toThrow('Composition timeline is empty');
+  });
+});
+
+describe('buildPlatformCommand', () => {
+  it('crops or pads to the platform frame and trims to its limit', () => {
+    const input = ['-protocol_whitelist', 'file', '-i', '/work/source-0.mp4'];
+
+    const cropped = buildPlatformCommand(input, PLATFORM_SPECS.tiktok, 'crop', '/out/tiktok.mp4');
+    expect(cropped.slice(0, 4)).toEqual(input);
+    expect(argAfter(cropped, '-vf')).toBe(
+      'scale=1080:1920:force_original_aspect_ratio=increase,crop=1080:1920,setsar=1,fps=30'
+    );
+    expect(argAfter(cropped, '-t')).toBe('180');
+
+    const padded = buildPlatformCommand(input, PLATFORM_SPECS.youtube, 'pad', '/out/youtube.mp4');
+    expect(argAfter(padded, '-vf')).toContain('pad=1920:1080:(ow-iw)/2:(oh-ih)/2:color=black');
+    expect(padded).not.toContain('-t');
+  });
+});
+
+describe('buildCaptionCommand', () => {
+  it('burns the subtitle file in and keeps the audio', () => {
+    const args = buildCaptionCommand(['-i', '/work/in.mp4'], "/work/it's.ass", '/out/captioned.mp4');
+
+    expect(argAfter(args, '-vf')).toBe("subtitles=filename='/work/it\\\\\\'s.ass'");
+    expect(args).toEqual(expect.arrayContaining(['-map', '0:a:0?']));
+  });
+});
+
+describe('buildAssSubtitles', () => {
+  const frame = { width: 1920, height: 1080 };
+  const cue = {
+    text: 'Hello {world}',
+    start: 0,
+    end: 1500,
+    words: [
+      { text: 'Hello', start: 0, end: 600 },
+      { text: '{world}', start: 700, end: 1500 },
+    ],
+  };
+
+  it('sizes the script to the frame and keeps text literal', () => {
+    const script = buildAssSubtitles([cue], {}, frame);
+
+    expect(script).toContain('PlayResX: 1920');
+    expect(script).toContain('PlayResY: 1080');
+    expect(script).toContain('Dialogue: 0,0:00:00.00,0:00:01.50,Default,,0,0,0,,Hello \\{world\\}');
+  });
+
+  it('highlights each word while it is spoken', () => {
+    const script = buildAssSubtitles([cue], { highlightColor: '#ffff00', position: 'top' }, frame);
+    const dialogue = script.split('\n').filter((line) => line.startsWith('Dialogue:'));
+
+    expect(dialogue).toHaveLength(2);
+    expect(dialogue[0]).toContain('0:00:00.00,0:00:00.70');
+    expect(dialogue[0]).toContain('{\\1c&H00FFFF&}Hello{\\1c&HFFFFFF&} \\{world\\}');
+    expect(dialogue[1]).toContain('0:00:00.70,0:00:01.50');
+    // Alignment 8 is top centre
+    expect(script).toMatch(/Style: Default,.*,8,65,65,65,1$/m);
+  });
+});
@@ -0,0 +1,520 @@
+import type {
+  AudioClip,
+  CompositionElement,
+  PlatformSpec,
+  TextOverlay,
+  VideoClip,
+  VideoComposition,
+} from '../types.js';
+import type { CaptionCue, CaptionStyle } from './types.js';
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  alpha: number;
+}
+
+// Shotstack's named output resolutions, so compositions render the same size
+// on either backend
+const NAMED_RESOLUTIONS: Record<string, FrameSize> = {
+  preview: { width: 512, height: 288 },
+  mobile: { width: 640, height: 360 },
+  sd: { width: 1024, height: 576 },
+  hd: { width: 1280, height: 720 },
+  '1080': { width: 1920, height: 1080 },
+  '4k': { width: 3840, height: 2160 },
+};
+
+const NAMED_COLORS: Record<string, Rgba> = {
+  white: { r: 255, g: 255, b: 255, alpha: 1 },
+  black: { r: 0, g: 0, b: 0, alpha: 1 },
+  red: { r: 255, g: 0, b: 0, alpha: 1 },
+  green: { r: 0, g: 128, b: 0, alpha: 1 },
+  blue: { r: 0, g: 0, b: 255, alpha: 1 },
+  yellow: { r: 255, g: 255, b: 0, alpha: 1 },
+};
+
+const WHITE = NAMED_COLORS.white!;
+const BLACK = NAMED_COLORS.black!;
+
+export function resolveFrameSize(resolution: string | undefined): FrameSize {
+  const named = resolution ? NAMED_RESOLUTIONS[resolution] : undefined;
+  if (named) {
+    return named;
+  }
+
+  const match = resolution?.match(/^(\d+)x(\d+)$/);
+  if (match) {
+    return { width: Number(match[1]), height: Number(match[2]) };
+  }
+
+  return NAMED_RESOLUTIONS.hd!;
+}
+
+/**
+ * Parses the CSS colours compositions use (`#rgb`, `#rrggbb`, `#rrggbbaa`,
+ * `rgb()`, `rgba()` and a few names). `transparent` yields null; anything
+ * unrecognised yields `fallback`.
+ */
+export function parseColor(value: string | undefined, fallback: Rgba | null): Rgba | null {
+  if (!value) {
+    return fallback;
+  }
+
+  const color = value.trim().toLowerCase();
+  if (color === 'transparent') {
+    return null;
+  }
+
+  const named = NAMED_COLORS[color];
+  if (named) {
+    return named;
+  }
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.replace(/./g, (digit) => digit + digit) : hex;
+    return {
+      r: parseInt(full.slice(0, 2), 16),
+      g: parseInt(full.slice(2, 4), 16),
+      b: parseInt(full.slice(4, 6), 16),
+      alpha: full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgb) {
+    return {
+      r: Math.min(255, Number(rgb[1])),
+      g: Math.min(255, Number(rgb[2])),
+      b: Math.min(255, Number(rgb[3])),
+      alpha: rgb[4] === undefined ? 1 : Math.min(1, Number(rgb[4])),
+    };
+  }
+
+  return fallback;
+}
+
+function hexByte(value: number): string {
+  return Math.round(value).toString(16).padStart(2, '0').toUpperCase();
+}
+
+export function toFfmpegColor(color: Rgba): string {
+  return `0x${hexByte(color.r)}${hexByte(color.g)}${hexByte(color.b)}@${Number(color.alpha.toFixed(2))}`;
+}
+
+/** ASS colours are `&HAABBGGRR` with inverted alpha (00 is opaque). */
+export function toAssColor(color: Rgba): string {
+  return `&H${hexByte(255 * (1 - color.alpha))}${hexByte(color.b)}${hexByte(color.g)}${hexByte(color.r)}`;
+}
+
+function assColorOverride(color: Rgba): string {
+  return `{\\1c&H${hexByte(color.b)}${hexByte(color.g)}${hexByte(color.r)}&}`;
+}
+
+/**
+ * Escapes a value for use as a filter option inside a filtergraph: once for
+ * the option parser and once more for the graph parser.
+ */
+export function escapeFilterValue(value: string): string {
+  const option = value.replace(/[\\':]/g, (char) => `\\${char}`);
+  return option.replace(/[\\'[\],;]/g, (char) => `\\${char}`);
+}
+
+function parsePixels(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function seconds(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+export function getTimelineDuration(composition: VideoComposition): number {
+  let duration = 0;
+  for (const track of composition.timeline.tracks) {
+    for (const element of track) {
+      duration = Math.max(duration, element.start + element.length);
+    }
+  }
+  return duration;
+}
+
+/** Constant rate factor for the composition's quality label. */
+function crfFor(quality: string | undefined): number {
+  switch (quality) {
+    case 'draft':
+    case 'low':
+      return 28;
+    case 'high':
+      return 18;
+    default:
+      return 23;
+  }
+}
+
+/**
+ * Encoder flags for a container. Only formats both backends can produce are
+ * supported.
+ */
+export function encoderArgs(format: string, options: { quality?: string; audio: boolean }): string[] {
+  const crf = String(crfFor(options.quality));
+
+  switch (format) {
+    case 'mp4':
+    case 'mov':
+      return [
+        '-c:v', 'libx264', '-preset', 'medium', '-crf', crf, '-pix_fmt', 'yuv420p',
+        ...(options.audio ? ['-c:a', 'aac', '-b:a', '192k'] : ['-an']),
+        ...(format === 'mp4' ? ['-movflags', '+faststart'] : []),
+      ];
+    case 'webm':
+      return [
+        '-c:v', 'libvpx-vp9', '-crf', String(crfFor(options.quality) + 8), '-b:v', '0',
+        ...(options.audio ? ['-c:a', 'libopus', '-b:a', '128k'] : ['-an']),
+      ];
+    case 'gif':
+      return ['-an', '-loop', '0'];
+    default:
+      throw new Error(`Unsupported output format: ${format}`);
+  }
+}
+
+/**
+ * Shotstack transition names map to fades; anything else falls back to a
+ * hard cut.
+ */
+function fadeDuration(transition: string | undefined): number | null {
+  if (!transition?.toLowerCase().includes('fade')) {
+    return null;
+  }
+  if (transition.endsWith('Slow')) {
+    return 1;
+  }
+  if (transition.endsWith('Fast')) {
+    return 0.25;
+  }
+  return 0.5;
+}
+
+function textX(value: string | undefined): string {
+  if (value === 'left') return 'w*0.05';
+  if (value === 'right') return 'w-text_w-w*0.05';
+  if (value?.endsWith('%')) return `w*${parseFloat(value) / 100}`;
+  if (value && Number.isFinite(parseFloat(value))) return String(parseFloat(value));
+  return '(w-text_w)/2';
+}
+
+function textY(value: string | undefined): string {
+  if (value === 'top') return 'h*0.05';
+  if (value === 'bottom') return 'h-text_h-h*0.05';
+  if (value?.endsWith('%')) return `h*${parseFloat(value) / 100}`;
+  if (value && Number.isFinite(parseFloat(value))) return String(parseFloat(value));
+  return '(h-text_h)/2';
+}
+
+export interface CompositionGraphMedia {
+  /** Resolves a clip `src` to the ffmpeg input arguments that open it. */
+  input: (src: string) => string[];
+  /** Sources whose probe found an audio stream. */
+  sourcesWithAudio: Set<string>;
+  /** Text file holding an overlay's text; drawtext reads it verbatim. */
+  textFile: (overlay: TextOverlay) => string;
+}
+
+export interface FfmpegCommand {
+  args: string[];
+  durationSeconds: number;
+}
+
+/**
+ * Builds the ffmpeg invocation for a composition. Tracks stack like
+ * Shotstack's: the first track is drawn on top. Clips and overlays are placed
+ * on a background canvas by time, and every audible source is delayed to its
+ * start and mixed.
+ */
+export function buildCompositionCommand(
+  composition: VideoComposition,
+  media: CompositionGraphMedia,
+  outputPath: string
+): FfmpegCommand {
+  const { width, height } = resolveFrameSize(composition.output.resolution);
+  const fps = composition.output.fps ?? 30;
+  const duration = getTimelineDuration(composition);
+  if (duration <= 0) {
+    throw new Error('Composition timeline is empty');
+  }
+
+  const background = parseColor(composition.timeline.background, BLACK) ?? BLACK;
+  const inputs: string[][] = [
+    ['-f', 'lavfi', '-i', `color=c=${toFfmpegColor({ ...background, alpha: 1 })}:s=${width}x${height}:r=${fps}:d=${seconds(duration)}`],
+  ];
+  const filters: string[] = [];
+  const audioLabels: string[] = [];
+  let current = '0:v';
+  let overlayCount = 0;
+  let textCount = 0;
+
+  const layers: CompositionElement[] = [...composition.timeline.tracks].reverse().flat();
+
+  for (const element of layers) {
+    const start = seconds(element.start);
+    const end = seconds(element.start + element.length);
+    const enable = `enable='between(t,${start},${end})'`;
+
+    if (element.type === 'text') {
+      const label = `txt${textCount}`;
+      filters.push(`[${current}]${drawTextFilter(element, media.textFile(element), enable)}[${label}]`);
+      current = label;
+      textCount += 1;
+      continue;
+    }
+
+    const index = inputs.length;
+
+    if (element.type === 'audio') {
+      inputs.push(['-t', seconds(element.length), ...media.input(element.src)]);
+      filters.push(`[${index}:a]${audioChain(element, element.volume)}[a${index}]`);
+      audioLabels.push(`a${index}`);
+      continue;
+    }
+
+    inputs.push(clipInputArgs(element, media));
+    filters.push(`[${index}:v]${clipChain(element, width, height, fps)}[v${index}]`);
+    filters.push(`[${current}][v${index}]overlay=eof_action=pass:repeatlast=0:${enable}[ov${overlayCount}]`);
+    current = `ov${overlayCount}`;
+    overlayCount += 1;
+
+    const volume = element.volume ?? 1;
+    if (element.type === 'video' && volume > 0 && media.sourcesWithAudio.has(element.src)) {
+      filters.push(`[${index}:a]${audioChain(element, volume)}[a${index}]`);
+      audioLabels.push(`a${index}`);
+    }
+  }
+
+  filters.push(`[${current}]format=yuv420p[vout]`);
+
+  if (audioLabels.length === 1) {
+    filters.push(`[${audioLabels[0]}]apad[aout]`);
+  } else if (audioLabels.length > 1) {
+    // amix divides each input by the input count; scale back up so levels
+    // match the source clips
+    filters.push(
+      `${audioLabels.map((label) => `[${label}]`).join('')}amix=inputs=${audioLabels.length}:duration=longest:dropout_transition=0,volume=${audioLabels.length},apad[aout]`
+    );
+  }
+
+  const format = composition.output.format || 'mp4';
+  const hasAudio = audioLabels.length > 0 && format !== 'gif';
+
+  return {
+    args: [
+      ...inputs.flat(),
+      '-filter_complex', filters.join(';'),
+      '-map', '[vout]',
+      ...(hasAudio ? ['-map', '[aout]'] : []),
+      '-t', seconds(duration),
+      '-r', String(fps),
+      ...encoderArgs(format, { quality: composition.output.quality, audio: hasAudio }),
+      outputPath,
+    ],
+    durationSeconds: duration,
+  };
+}
+
+function clipInputArgs(clip: VideoClip, media: CompositionGraphMedia): string[] {
+  if (clip.type === 'image') {
+    return ['-loop', '1', '-t', seconds(clip.length), ...media.input(clip.src)];
+  }
+  return [
+    ...(clip.offset ? ['-ss', seconds(clip.offset)] : []),
+    '-t', seconds(clip.length),
+    ...media.input(clip.src),
+  ];
+}
+
+function clipChain(clip: VideoClip, width: number, height: number, fps: number): string {
+  const steps = [
+    `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+    'format=yuva420p',
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black@0`,
+    'setsar=1',
+    `fps=${fps}`,
+  ];
+
+  const fadeIn = fadeDuration(clip.transition?.in);
+  if (fadeIn) {
+    steps.push(`fade=t=in:st=0:d=${fadeIn}:alpha=1`);
+  }
+  const fadeOut = fadeDuration(clip.transition?.out);
+  if (fadeOut) {
+    steps.push(`fade=t=out:st=${seconds(Math.max(0, clip.length - fadeOut))}:d=${fadeOut}:alpha=1`);
+  }
+
+  steps.push(`setpts=PTS-STARTPTS+${seconds(clip.start)}/TB`);
+  return steps.join(',');
+}
+
+function audioChain(clip: VideoClip | AudioClip, volume: number | undefined): string {
+  const steps = ['asetpts=PTS-STARTPTS', `volume=${volume ?? 1}`];
+
+  // Shotstack audio effects: fadeIn, fadeOut and fadeInFadeOut
+  const effect = clip.type === 'audio' ? clip.effect ?? '' : '';
+  if (/^fadeIn/i.test(effect)) {
+    steps.push('afade=t=in:st=0:d=1');
+  }
+  if (/fadeOut$/i.test(effect)) {
+    steps.push(`afade=t=out:st=${seconds(Math.max(0, clip.length - 1))}:d=1`);
+  }
+
+  const delayMs = Math.round(clip.start * 1000);
+  steps.push(`adelay=${delayMs}:all=1`);
+  return steps.join(',');
+}
+
+function drawTextFilter(overlay: TextOverlay, textFile: string, enable: string): string {
+  const color = parseColor(overlay.style?.color, WHITE) ?? WHITE;
+  const box = parseColor(overlay.style?.backgroundColor, null);
+  const options = [
+    `textfile='${escapeFilterValue(textFile)}'`,
+    'expansion=none',
+    `font='${escapeFilterValue(overlay.style?.fontFamily ?? 'Arial')}'`,
+    `fontsize=${parsePixels(overlay.style?.fontSize, 48)}`,
+    `fontcolor=${toFfmpegColor(color)}`,
+    `x=${textX(overlay.position?.x)}`,
+    `y=${textY(overlay.position?.y)}`,
+    ...(box ? ['box=1', `boxcolor=${toFfmpegColor(box)}`, 'boxborderw=10'] : []),
+    enable,
+  ];
+  return `drawtext=${options.join(':')}`;
+}
+
+/**
+ * Scales a video to the platform's frame, trims it to the platform's maximum
+ * duration and re-encodes it in the platform's container.
+ */
+export function buildPlatformCommand(
+  inputArgs: string[],
+  spec: PlatformSpec,
+  fit: 'crop' | 'pad',
+  outputPath: string
+): string[] {
+  const { width, height } = spec.resolution;
+  const fps = spec.fps ?? 30;
+  const frame =
+    fit === 'crop'
+      ? [`scale=${width}:${height}:force_original_aspect_ratio=increase`, `crop=${width}:${height}`]
+      : [
+          `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+          `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black`,
+        ];
+  const audio = spec.format !== 'gif';
+
+  return [
+    ...inputArgs,
+    '-vf', [...frame, 'setsar=1', `fps=${fps}`].join(','),
+    '-map', '0:v:0',
+    ...(audio ? ['-map', '0:a:0?'] : []),
+    ...(spec.maxDuration ? ['-t', String(spec.maxDuration)] : []),
+    ...encoderArgs(spec.format, { audio }),
+    outputPath,
+  ];
+}
+
+/**
+ * Burns an ASS subtitle file into a video, keeping its audio.
+ */
+export function buildCaptionCommand(inputArgs: string[], subtitlesPath: string, outputPath: string): string[] {
+  return [
+    ...inputArgs,
+    '-vf', `subtitles=filename='${escapeFilterValue(subtitlesPath)}'`,
+    '-map', '0:v:0',
+    '-map', '0:a:0?',
+    ...encoderArgs('mp4', { audio: true }),
+    outputPath,
+  ];
+}
+
+function assTime(ms: number): string {
+  const centiseconds = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const secs = Math.floor((centiseconds % 6000) / 100);
+  const cs = centiseconds % 100;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(cs).padStart(2, '0')}`;
+}
+
+// libass interprets backslash sequences and braces in plain text; a zero-width
+// space after each backslash and escaped braces keep transcript text literal
+function assText(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/\\/g, '\\\u200b')
+    .replace(/[{}]/g, (brace) => `\\${brace}`);
+}
+
+const ASS_ALIGNMENT = { bottom: 2, center: 5, top: 8 } as const;
+
+/**
+ * Renders caption cues (times in ms) as an ASS script sized to the video so
+ * font sizes are in pixels. With `highlightColor`, each word gets its own
+ * event in which that word is recoloured while it is spoken.
+ */
+export function buildAssSubtitles(cues: CaptionCue[], style: CaptionStyle = {}, frame: FrameSize): string {
+  const color = parseColor(style.color, WHITE) ?? WHITE;
+  const background = parseColor(style.backgroundColor, { ...BLACK, alpha: 0.7 });
+  const highlight = style.highlightColor ? parseColor(style.highlightColor, null) : null;
+  const fontSize = parsePixels(style.fontSize, 48);
+  const alignment = ASS_ALIGNMENT[style.position ?? 'bottom'];
+  const margin = Math.round(frame.height * 0.06);
+
+  // BorderStyle 3 draws an opaque box in the outline colour; without a
+  // background a thin black outline keeps the text legible
+  const borderStyle = background ? 3 : 1;
+  const outlineColor = toAssColor(background ?? BLACK);
+  const outline = background ? Math.round(fontSize / 5) : 2;
+
+  const events: string[] = [];
+  for (const cue of cues) {
+    if (!highlight || cue.words.length === 0) {
+      events.push(`Dialogue: 0,${assTime(cue.start)},${assTime(cue.end)},Default,,0,0,0,,${assText(cue.text)}`);
+      continue;
+    }
+
+    cue.words.forEach((word, index) => {
+      const end = cue.words[index + 1]?.start ?? cue.end;
+      const text = cue.words
+        .map((other, otherIndex) =>
+          otherIndex === index
+            ? `${assColorOverride(highlight)}${assText(other.text)}${assColorOverride(color)}`
+            : assText(other.text)
+        )
+        .join(' ');
+      events.push(`Dialogue: 0,${assTime(index === 0 ? cue.start : word.start)},${assTime(end)},Default,,0,0,0,,${text}`);
+    });
+  }
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${frame.width}`,
+    `PlayResY: ${frame.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,${style.fontFamily ?? 'Arial'},${fontSize},${toAssColor(color)},${toAssColor(color)},${outlineColor},${outlineColor},0,0,0,0,100,100,0,0,${borderStyle},${outline},0,${alignment},${margin},${margin},${margin},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
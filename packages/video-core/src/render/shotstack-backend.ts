@@ -0,0 +1,54 @@
+import { ShotstackClient, type ShotstackConfig } from '../clients/shotstack-client.js';
+import type { PlatformSpec, VideoComposition } from '../types.js';
+import { groupCaptionWords } from './captions.js';
+import type {
+  CaptionStyle,
+  CaptionWord,
+  PlatformRenderOptions,
+  RenderBackend,
+  RenderOptions,
+  RenderResult,
+} from './types.js';
+
+/**
+ * Renders through the Shotstack cloud API: submits the job, then polls until
+ * the output URL is ready.
+ */
+export class ShotstackRenderBackend implements RenderBackend {
+  readonly name = 'shotstack';
+  private client: ShotstackClient;
+
+  constructor(config: ShotstackConfig) {
+    this.client = new ShotstackClient(config);
+  }
+
+  async renderComposition(composition: VideoComposition, options: RenderOptions = {}): Promise<RenderResult> {
+    const { renderId } = await this.client.renderVideo(composition);
+    return this.waitFor(renderId, options);
+  }
+
+  async burnCaptions(
+    videoUrl: string,
+    words: CaptionWord[],
+    style?: CaptionStyle,
+    options: RenderOptions = {}
+  ): Promise<RenderResult> {
+    const { renderId } = await this.client.createCaptionedVideo(videoUrl, groupCaptionWords(words), style);
+    return this.waitFor(renderId, options);
+  }
+
+  async renderForPlatform(
+    videoUrl: string,
+    spec: PlatformSpec,
+    options: PlatformRenderOptions = {}
+  ): Promise<RenderResult> {
+    const { renderId } = await this.client.renderForPlatform(videoUrl, spec, options.fit);
+    return this.waitFor(renderId, options);
+  }
+
+  private async waitFor(renderId: string, options: RenderOptions): Promise<RenderResult> {
+    await options.onProgress?.({ progress: 30, renderId });
+    const url = await this.client.waitForRender(renderId);
+    return { url, renderId };
+  }
+}
@@ -0,0 +1,64 @@
+import type { PlatformSpec, TranscriptWord, VideoComposition } from '../types.js';
+
+/** Word timings in milliseconds, as stored on transcripts. */
+export type CaptionWord = Pick<TranscriptWord, 'text' | 'start' | 'end'>;
+
+export interface CaptionCue {
+  text: string;
+  start: number;
+  end: number;
+  words: CaptionWord[];
+}
+
+export interface CaptionStyle {
+  position?: 'top' | 'center' | 'bottom';
+  fontSize?: string;
+  fontFamily?: string;
+  color?: string;
+  backgroundColor?: string;
+  /** Colour each word takes while it is being spoken. */
+  highlightColor?: string;
+}
+
+export interface RenderProgress {
+  /** 0-100 */
+  progress: number;
+  /** Provider-side id, when the backend hands work to a remote service. */
+  renderId?: string;
+}
+
+export interface RenderOptions {
+  onProgress?: (update: RenderProgress) => void | Promise<void>;
+}
+
+export interface RenderResult {
+  /** Where the rendered file can be fetched: an https URL or a file:// URL. */
+  url: string;
+  renderId?: string;
+  durationSeconds?: number;
+}
+
+export interface PlatformRenderOptions extends RenderOptions {
+  /** `crop` fills the frame and trims the edges; `pad` letterboxes. */
+  fit?: 'crop' | 'pad';
+}
+
+/**
+ * Turns compositions and source videos into rendered files. Every method
+ * resolves once the output is ready.
+ */
+export interface RenderBackend {
+  readonly name: string;
+  renderComposition(composition: VideoComposition, options?: RenderOptions): Promise<RenderResult>;
+  burnCaptions(
+    videoUrl: string,
+    words: CaptionWord[],
+    style?: CaptionStyle,
+    options?: RenderOptions
+  ): Promise<RenderResult>;
+  renderForPlatform(
+    videoUrl: string,
+    spec: PlatformSpec,
+    options?: PlatformRenderOptions
+  ): Promise<RenderResult>;
+}
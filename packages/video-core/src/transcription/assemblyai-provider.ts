@@ -0,0 +1,27 @@
+import { AssemblyAIClient, type AssemblyAIConfig } from '../clients/assemblyai-client.js';
+import type { TranscriptData } from '../types.js';
+import type { TranscriptionOptions, TranscriptionProvider } from './types.js';
+
+/**
+ * Uploads the media URL to AssemblyAI and polls until the transcript, with
+ * chapters and sentiment-based viral moments, is ready.
+ */
+export class AssemblyAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'assemblyai' as const;
+  private client: AssemblyAIClient;
+
+  constructor(config: AssemblyAIConfig) {
+    this.client = new AssemblyAIClient(config);
+  }
+
+  async transcribe(mediaUrl: string, options: TranscriptionOptions = {}): Promise<TranscriptData> {
+    const { transcriptId } = await this.client.transcribe(mediaUrl, {
+      language: options.language,
+      speakerLabels: options.speakerLabels,
+    });
+
+    await options.onProgress?.({ progress: 30, transcriptId });
+
+    return this.client.waitForTranscript(transcriptId);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for sentence, speaker and viral moment derivation
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { TranscriptSentence, TranscriptWord } from '../types.js';
+import { deriveSentences, deriveSpeakerSegments, deriveViralMoments } from './derive.js';
+
+function word(text: string, start: number, end: number, confidence = 0.9): TranscriptWord {
+  return { text, start, end, confidence };
+}
+
+function sentence(text: string, start: number, end: number): TranscriptSentence {
+  return { text, start, end, confidence: 1, words: [] };
+}
+
+describe('deriveSentences', () => {
+  it('splits at terminal punctuation', () => {
+    const sentences = deriveSentences([
+      word('Revenue', 0, 400, 0.8),
+      word('grew.', 450, 800, 1),
+      word('Why?', 900, 1200),
+      word('"Pricing."', 1300, 1800),
+    ]);
+
+    expect(sentences.map((entry) => entry.text)).toEqual(['Revenue grew.', 'Why?', '"Pricing."']);
+    expect(sentences[0]).toMatchObject({ start: 0, end: 800, confidence: 0.9 });
+    expect(sentences[0]!.words).toHaveLength(2);
+  });
+
+  it('splits unpunctuated speech at long pauses', () => {
+    const sentences = deriveSentences([word('so', 0, 200), word('anyway', 300, 600), word('next', 3000, 3300)]);
+
+    expect(sentences.map((entry) => entry.text)).toEqual(['so anyway', 'next']);
+  });
+});
+
+describe('deriveSpeakerSegments', () => {
+  it('merges consecutive words by the same speaker', () => {
+    const segments = deriveSpeakerSegments([
+      { ...word('Hi', 0, 200, 1), speaker: 'A' },
+      { ...word('there', 250, 500, 0.5), speaker: 'A' },
+      { ...word('Hello', 700, 900), speaker: 'B' },
+      { ...word('Bye', 1000, 1200), speaker: 'A' },
+    ]);
+
+    expect(segments).toEqual([
+      { speaker: 'A', start: 0, end: 500, text: 'Hi there', confidence: 0.75 },
+      { speaker: 'B', start: 700, end: 900, text: 'Hello', confidence: 0.9 },
+      { speaker: 'A', start: 1000, end: 1200, text: 'Bye', confidence: 0.9 },
+    ]);
+  });
+});
+
+describe('deriveViralMoments', () => {
+  it('scores windows by keywords and emphasis, best first', () => {
+    const moments = deriveViralMoments([
+      sentence('We reviewed the quarter.', 0, 10000),
+      sentence('Nothing unusual came up.', 10000, 21000),
+      sentence('The secret was a surprising pricing mistake!', 21000, 30000),
+      sentence('It was a breakthrough.', 30000, 42000),
+    ]);
+
+    expect(moments).toHaveLength(1);
+    expect(moments[0]).toMatchObject({
+      title: 'The secret was a surprising pricing mistake!',
+      start: 21000,
+      end: 42000,
+      keywords: ['secret', 'mistake', 'surprising', 'breakthrough'],
+    });
+    expect(moments[0]!.score).toBeCloseTo(1);
+  });
+
+  it('keeps windows within the maximum duration and respects the limit', () => {
+    const sentences = Array.from({ length: 6 }, (_, index) =>
+      sentence(`Incredible point ${index}!`, index * 30000, index * 30000 + 25000)
+    );
+
+    const moments = deriveViralMoments(sentences, { targetDurationMs: 20000, maxDurationMs: 40000, limit: 3 });
+
+    expect(moments).toHaveLength(3);
+    for (const moment of moments) {
+      expect(moment.end - moment.start).toBeLessThanOrEqual(40000);
+    }
+  });
+});
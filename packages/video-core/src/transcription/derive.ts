@@ -0,0 +1,151 @@
+import type { SpeakerSegment, TranscriptSentence, TranscriptWord, ViralMoment } from '../types.js';
+
+export const VIRAL_KEYWORDS = [
+  'shocking',
+  'amazing',
+  'incredible',
+  'revealed',
+  'secret',
+  'mistake',
+  'truth',
+  'surprising',
+  'unexpected',
+  'breakthrough',
+  'game-changer',
+  'revolutionary',
+];
+
+const SENTENCE_END = /[.!?]["')\]]*$/;
+// Unpunctuated transcripts still break into sentences at long pauses
+const SENTENCE_PAUSE_MS = 2000;
+
+function averageConfidence(words: TranscriptWord[]): number {
+  if (words.length === 0) {
+    return 0;
+  }
+  return words.reduce((sum, word) => sum + word.confidence, 0) / words.length;
+}
+
+/**
+ * Splits words (times in ms) into sentences at terminal punctuation or long
+ * pauses.
+ */
+export function deriveSentences(words: TranscriptWord[]): TranscriptSentence[] {
+  const sentences: TranscriptSentence[] = [];
+  let current: TranscriptWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) {
+      return;
+    }
+    sentences.push({
+      text: current.map((word) => word.text).join(' '),
+      start: current[0]!.start,
+      end: current[current.length - 1]!.end,
+      confidence: averageConfidence(current),
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (previous && word.start - previous.end > SENTENCE_PAUSE_MS) {
+      flush();
+    }
+    current.push(word);
+    if (SENTENCE_END.test(word.text)) {
+      flush();
+    }
+  }
+  flush();
+
+  return sentences;
+}
+
+/**
+ * Merges consecutive words spoken by the same speaker into segments.
+ */
+export function deriveSpeakerSegments(words: Array<TranscriptWord & { speaker: string }>): SpeakerSegment[] {
+  const segments: SpeakerSegment[] = [];
+  let current: Array<TranscriptWord & { speaker: string }> = [];
+
+  const flush = () => {
+    if (current.length === 0) {
+      return;
+    }
+    segments.push({
+      speaker: current[0]!.speaker,
+      start: current[0]!.start,
+      end: current[current.length - 1]!.end,
+      text: current.map((word) => word.text).join(' '),
+      confidence: averageConfidence(current),
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    if (current.length > 0 && current[0]!.speaker !== word.speaker) {
+      flush();
+    }
+    current.push(word);
+  }
+  flush();
+
+  return segments;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Scores clip-length windows of consecutive sentences by viral keywords and
+ * emphatic delivery (questions, exclamations). Used where the provider has
+ * no analysis of its own.
+ */
+export function deriveViralMoments(
+  sentences: TranscriptSentence[],
+  options: { targetDurationMs?: number; maxDurationMs?: number; limit?: number } = {}
+): ViralMoment[] {
+  const targetDurationMs = options.targetDurationMs ?? 20000;
+  const maxDurationMs = options.maxDurationMs ?? 60000;
+  const moments: ViralMoment[] = [];
+
+  let index = 0;
+  while (index < sentences.length) {
+    const window: TranscriptSentence[] = [sentences[index]!];
+    let next = index + 1;
+
+    while (
+      next < sentences.length &&
+      window[window.length - 1]!.end - window[0]!.start < targetDurationMs &&
+      sentences[next]!.end - window[0]!.start <= maxDurationMs
+    ) {
+      window.push(sentences[next]!);
+      next += 1;
+    }
+    index = next;
+
+    const text = window.map((sentence) => sentence.text).join(' ');
+    const lower = text.toLowerCase();
+    const keywords = VIRAL_KEYWORDS.filter((keyword) => lower.includes(keyword));
+    const emphatic = window.some((sentence) => /[!?]["')\]]*$/.test(sentence.text));
+    const score = Math.min(1, 0.5 + keywords.length * 0.1 + (emphatic ? 0.1 : 0));
+
+    if (score <= 0.5) {
+      continue;
+    }
+
+    moments.push({
+      title: truncate(window[0]!.text, 80),
+      description: truncate(text, 280),
+      start: window[0]!.start,
+      end: window[window.length - 1]!.end,
+      score,
+      keywords,
+    });
+  }
+
+  return moments.sort((a, b) => b.score - a.score).slice(0, options.limit ?? 10);
+}
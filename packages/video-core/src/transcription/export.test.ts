@@ -0,0 +1,94 @@
+/**
+ * Tests for transcript exports
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { SpeakerSegment } from '../types.js';
+import { buildSubtitleCues, exportTranscript, formatPlainText, formatSrt, formatWebVtt } from './export.js';
+
+const speakers: SpeakerSegment[] = [
+  { speaker: 'A', start: 0, end: 1000, text: 'Hello there.', confidence: 1 },
+  { speaker: 'Dana', start: 1100, end: 3800, text: 'Hi <team> & all.', confidence: 1 },
+];
+
+const words = [
+  { text: 'Hello', start: 0, end: 400 },
+  { text: 'there.', start: 450, end: 1000 },
+  { text: 'Hi', start: 1100, end: 1400 },
+  { text: '<team>', start: 1450, end: 1900 },
+  { text: '&', start: 1950, end: 2000 },
+  { text: 'all.', start: 2050, end: 3800 },
+];
+
+describe('buildSubtitleCues', () => {
+  it('breaks cues at sentence ends and speaker changes', () => {
+    expect(buildSubtitleCues(words, speakers)).toEqual([
+      { text: 'Hello there.', start: 0, end: 1000, speaker: 'A' },
+      { text: 'Hi <team> & all.', start: 1100, end: 3800, speaker: 'Dana' },
+    ]);
+  });
+
+  it('caps cue length, duration and gaps', () => {
+    const long = Array.from({ length: 30 }, (_, index) => ({ text: 'word', start: index * 300, end: index * 300 + 250 }));
+    const cues = buildSubtitleCues(long);
+
+    for (const cue of cues) {
+      expect(cue.text.length).toBeLessThanOrEqual(84);
+      expect(cue.end - cue.start).toBeLessThanOrEqual(6000);
+    }
+
+    const paused = buildSubtitleCues([
+      { text: 'one', start: 0, end: 200 },
+      { text: 'two', start: 1500, end: 1700 },
+    ]);
+    expect(paused.map((cue) => cue.text)).toEqual(['one', 'two']);
+  });
+});
+
+describe('formatSrt', () => {
+  it('numbers cues and names the speaker on each turn', () => {
+    const srt = formatSrt([
+      { text: 'Hello there.', start: 0, end: 1000, speaker: 'A' },
+      { text: 'Still me.', start: 1000, end: 3_723_456, speaker: 'A' },
+      { text: 'Hi.', start: 3_724_000, end: 3_725_000, speaker: 'Dana' },
+    ]);
+
+    expect(srt).toBe(
+      [
+        '1\n00:00:00,000 --> 00:00:01,000\nSpeaker A: Hello there.\n',
+        '2\n00:00:01,000 --> 01:02:03,456\nStill me.\n',
+        '3\n01:02:04,000 --> 01:02:05,000\nDana: Hi.\n',
+      ].join('\n')
+    );
+  });
+});
+
+describe('formatWebVtt', () => {
+  it('uses voice tags and escapes markup', () => {
+    const vtt = formatWebVtt(buildSubtitleCues(words, speakers));
+
+    expect(vtt.startsWith('WEBVTT\n\n')).toBe(true);
+    expect(vtt).toContain('00:00:00.000 --> 00:00:01.000\n<v Speaker A>Hello there.\n');
+    expect(vtt).toContain('<v Dana>Hi &lt;team&gt; &amp; all.');
+  });
+});
+
+describe('formatPlainText', () => {
+  it('writes one paragraph per speaker turn', () => {
+    expect(formatPlainText({ text: 'ignored', speakers })).toBe('Speaker A: Hello there.\n\nDana: Hi <team> & all.\n');
+  });
+
+  it('falls back to the transcript text', () => {
+    expect(formatPlainText({ text: '  Just text. ' })).toBe('Just text.\n');
+  });
+});
+
+describe('exportTranscript', () => {
+  it('renders the requested format', () => {
+    const source = { text: 'Hello there.', words: words.slice(0, 2) };
+
+    expect(exportTranscript(source, 'txt')).toBe('Hello there.\n');
+    expect(exportTranscript(source, 'srt')).toBe('1\n00:00:00,000 --> 00:00:01,000\nHello there.\n');
+    expect(exportTranscript(source, 'vtt')).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:01.000\nHello there.\n');
+  });
+});
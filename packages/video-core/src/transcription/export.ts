@@ -0,0 +1,131 @@
+import type { SpeakerSegment, TranscriptExportFormat, TranscriptWord } from '../types.js';
+
+export const TRANSCRIPT_EXPORT_CONTENT_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  txt: 'text/plain',
+};
+
+export interface TranscriptExportSource {
+  text: string;
+  words: Array<Pick<TranscriptWord, 'text' | 'start' | 'end'>>;
+  speakers?: SpeakerSegment[];
+}
+
+export interface SubtitleCue {
+  text: string;
+  start: number;
+  end: number;
+  speaker?: string;
+}
+
+// Common subtitle guidelines: two lines of ~42 characters, on screen for at
+// most ~6 seconds
+const MAX_CUE_CHARS = 84;
+const MAX_CUE_DURATION_MS = 6000;
+const MAX_CUE_GAP_MS = 1000;
+const SENTENCE_END = /[.!?]["')\]]*$/;
+
+/**
+ * Labels are `A`, `B`, ... until someone renames them.
+ */
+function speakerName(label: string): string {
+  return /^[A-Z]$/.test(label) ? `Speaker ${label}` : label;
+}
+
+function speakerAt(speakers: SpeakerSegment[], word: { start: number; end: number }): string | undefined {
+  const midpoint = (word.start + word.end) / 2;
+  return speakers.find((segment) => midpoint >= segment.start && midpoint <= segment.end)?.speaker;
+}
+
+/**
+ * Groups words (times in ms) into subtitle cues. Cues break at sentence ends,
+ * pauses and speaker changes, and are capped in length and duration.
+ */
+export function buildSubtitleCues(
+  words: TranscriptExportSource['words'],
+  speakers: SpeakerSegment[] = []
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let current: SubtitleCue | null = null;
+  let endsSentence = false;
+
+  for (const word of words) {
+    const speaker = speakerAt(speakers, word);
+    const continues =
+      current &&
+      !endsSentence &&
+      speaker === current.speaker &&
+      word.start - current.end <= MAX_CUE_GAP_MS &&
+      word.end - current.start <= MAX_CUE_DURATION_MS &&
+      current.text.length + 1 + word.text.length <= MAX_CUE_CHARS;
+
+    if (current && continues) {
+      current.text += ` ${word.text}`;
+      current.end = word.end;
+    } else {
+      current = { text: word.text, start: word.start, end: word.end, speaker };
+      cues.push(current);
+    }
+    endsSentence = SENTENCE_END.test(word.text);
+  }
+
+  return cues;
+}
+
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+/**
+ * SRT has no speaker markup, so the speaker's name prefixes the first cue of
+ * each turn.
+ */
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) => {
+      const turn = cue.speaker && cue.speaker !== cues[index - 1]?.speaker;
+      const text = turn ? `${speakerName(cue.speaker!)}: ${cue.text}` : cue.text;
+      return `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${text}\n`;
+    })
+    .join('\n');
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function formatWebVtt(cues: SubtitleCue[]): string {
+  const body = cues.map((cue) => {
+    const text = escapeVtt(cue.text);
+    const voiced = cue.speaker ? `<v ${escapeVtt(speakerName(cue.speaker))}>${text}` : text;
+    return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${voiced}\n`;
+  });
+  return ['WEBVTT\n', ...body].join('\n');
+}
+
+/**
+ * One paragraph per speaker turn, or the transcript text as is when there
+ * are no speaker labels.
+ */
+export function formatPlainText(source: Pick<TranscriptExportSource, 'text' | 'speakers'>): string {
+  if (!source.speakers?.length) {
+    return `${source.text.trim()}\n`;
+  }
+  return `${source.speakers
+    .map((segment) => `${speakerName(segment.speaker)}: ${segment.text.trim()}`)
+    .join('\n\n')}\n`;
+}
+
+export function exportTranscript(source: TranscriptExportSource, format: TranscriptExportFormat): string {
+  if (format === 'txt') {
+    return formatPlainText(source);
+  }
+  const cues = buildSubtitleCues(source.words, source.speakers);
+  return format === 'srt' ? formatSrt(cues) : formatWebVtt(cues);
+}
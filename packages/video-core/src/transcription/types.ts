@@ -0,0 +1,25 @@
+import type { TranscriptData } from '../types.js';
+
+export type TranscriptionProviderName = 'assemblyai' | 'whisper_cpp';
+
+export interface TranscriptionProgress {
+  /** 0-100 */
+  progress: number;
+  /** The provider's id for the transcript, once it has one. */
+  transcriptId?: string;
+}
+
+export interface TranscriptionOptions {
+  language?: string;
+  speakerLabels?: boolean;
+  onProgress?: (update: TranscriptionProgress) => void | Promise<void>;
+}
+
+/**
+ * Turns an audio or video URL into a transcript. `transcribe` resolves once
+ * the transcript is complete; `TranscriptData.id` is the provider's id.
+ */
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  transcribe(mediaUrl: string, options?: TranscriptionOptions): Promise<TranscriptData>;
+}
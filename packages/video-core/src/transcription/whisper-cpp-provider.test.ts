@@ -0,0 +1,122 @@
+/**
+ * Tests for the whisper.cpp provider, run against stand-in ffmpeg and
+ * whisper-cli scripts
+ */
+
+import { chmod, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockAssertPublicMediaUrl, mockDownloadPublicMedia } = vi.hoisted(() => ({
+  mockAssertPublicMediaUrl: vi.fn(),
+  mockDownloadPublicMedia: vi.fn(),
+}));
+
+vi.mock('../network.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../network.js')>()),
+  assertPublicMediaUrl: mockAssertPublicMediaUrl,
+  downloadPublicMedia: mockDownloadPublicMedia,
+}));
+
+import { BlockedMediaUrlError } from '../network.js';
+import { WhisperCppError, WhisperCppTranscriptionProvider } from './whisper-cpp-provider.js';
+
+// ffmpeg logs its arguments and input, then writes one second of 16 kHz
+// mono PCM; whisper-cli writes a two-segment transcript
+const FAKE_FFMPEG = `#!${process.execPath}
+const { appendFileSync, readFileSync, writeFileSync } = require('fs');
+const args = process.argv.slice(2);
+const input = readFileSync(args[args.indexOf('-i') + 1], 'utf8');
+appendFileSync(process.env.FAKE_TOOL_LOG, JSON.stringify({ args, input }) + '\\n');
+writeFileSync(args[args.length - 1], Buffer.alloc(44 + 32000));
+`;
+
+const FAKE_WHISPER = `#!${process.execPath}
+const { writeFileSync } = require('fs');
+const args = process.argv.slice(2);
+const token = (text, from, to) => ({ text, offsets: { from, to }, p: 0.9 });
+writeFileSync(args[args.indexOf('-of') + 1] + '.json', JSON.stringify({
+  result: { language: 'en' },
+  transcription: [
+    { offsets: { from: 0, to: 600 }, text: ' Hello world.', speaker_turn_next: true,
+      tokens: [token('[_BEG_]', 0, 0), token(' Hello', 0, 300), token(' world', 300, 550), token('.', 550, 600)] },
+    { offsets: { from: 700, to: 1000 }, text: ' Thanks!', tokens: [token(' Thanks', 700, 950), token('!', 950, 1000)] },
+  ],
+}));
+`;
+
+describe('WhisperCppTranscriptionProvider', () => {
+  let binDir: string;
+  let logPath: string;
+  let provider: WhisperCppTranscriptionProvider;
+
+  beforeEach(async () => {
+    binDir = await mkdtemp(join(tmpdir(), 'video-core-whisper-'));
+    logPath = join(binDir, 'ffmpeg.log');
+
+    for (const [name, script] of [['ffmpeg', FAKE_FFMPEG], ['whisper-cli', FAKE_WHISPER]] as const) {
+      await writeFile(join(binDir, name), script);
+      await chmod(join(binDir, name), 0o755);
+    }
+    vi.stubEnv('FAKE_TOOL_LOG', logPath);
+
+    provider = new WhisperCppTranscriptionProvider({
+      modelPath: 'models/ggml-small.en-tdrz.bin',
+      binaryPath: join(binDir, 'whisper-cli'),
+      ffmpegPath: join(binDir, 'ffmpeg'),
+      diarize: true,
+      timeoutMs: 5000,
+      maxDownloadBytes: 4096,
+    });
+
+    mockAssertPublicMediaUrl.mockResolvedValue(undefined);
+    mockDownloadPublicMedia.mockImplementation(async (url: string, destination: string) => {
+      await writeFile(destination, `downloaded ${url}`);
+    });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    mockAssertPublicMediaUrl.mockReset();
+    mockDownloadPublicMedia.mockReset();
+    await rm(binDir, { recursive: true, force: true });
+  });
+
+  it('extracts audio from a downloaded copy rather than the URL', async () => {
+    const transcript = await provider.transcribe('https://cdn.example.com/call.mp4', { speakerLabels: true });
+
+    expect(mockDownloadPublicMedia).toHaveBeenCalledWith(
+      'https://cdn.example.com/call.mp4',
+      expect.stringMatching(/ocsuite-whisper-[^/]+\/source$/),
+      { maxBytes: 4096, timeoutMs: 5000 }
+    );
+
+    const [call] = (await readFile(logPath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    const inputIndex = call.args.indexOf('-i');
+    expect(call.args.slice(inputIndex - 2, inputIndex)).toEqual(['-protocol_whitelist', 'file']);
+    expect(call.args[inputIndex + 1]).not.toMatch(/^https?:/);
+    expect(call.input).toBe('downloaded https://cdn.example.com/call.mp4');
+
+    expect(transcript).toMatchObject({
+      text: 'Hello world. Thanks!',
+      duration: 1,
+      language: 'en',
+      words: [
+        { text: 'Hello', start: 0, end: 300 },
+        { text: 'world.', start: 300, end: 600 },
+        { text: 'Thanks!', start: 700, end: 1000 },
+      ],
+    });
+    expect(transcript.speakers?.map((segment) => segment.speaker)).toEqual(['A', 'B']);
+  });
+
+  it('never runs ffmpeg when the download is refused', async () => {
+    mockDownloadPublicMedia.mockRejectedValue(new BlockedMediaUrlError('Media host 169.254.169.254 is not publicly reachable'));
+
+    await expect(provider.transcribe('https://cdn.example.com/redirects-inward.mp4')).rejects.toThrow(
+      new WhisperCppError('Media host 169.254.169.254 is not publicly reachable')
+    );
+    await expect(readFile(logPath, 'utf8')).rejects.toThrow();
+  });
+});
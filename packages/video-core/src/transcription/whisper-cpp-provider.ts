@@ -0,0 +1,245 @@
+import { randomUUID } from 'crypto';
+import { mkdtemp, readFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { assertPublicMediaUrl, downloadPublicMedia } from '../network.js';
+import { CommandError, runCommand } from '../process.js';
+import type { TranscriptData, TranscriptWord } from '../types.js';
+import { deriveSentences, deriveSpeakerSegments, deriveViralMoments } from './derive.js';
+import type { TranscriptionOptions, TranscriptionProvider } from './types.js';
+
+// 16 kHz mono 16-bit PCM, the only input whisper.cpp accepts
+const WAV_BYTES_PER_SECOND = 16000 * 2;
+const WAV_HEADER_BYTES = 44;
+
+export interface WhisperCppConfig {
+  /** ggml model file, e.g. models/ggml-base.en.bin */
+  modelPath: string;
+  /** whisper.cpp CLI; `whisper-cli` in current releases, `main` in older ones. */
+  binaryPath?: string;
+  /** Used to extract 16 kHz mono audio from the source. */
+  ffmpegPath?: string;
+  threads?: number;
+  /**
+   * The model is a tinydiarize model (e.g. ggml-small.en-tdrz.bin), so
+   * speaker turns can be detected when speaker labels are requested.
+   */
+  diarize?: boolean;
+  /** Each of the download, audio extraction and transcription steps is killed after this long. */
+  timeoutMs?: number;
+  /** Recordings larger than this are refused. Defaults to 2 GiB. */
+  maxDownloadBytes?: number;
+}
+
+export class WhisperCppError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WhisperCppError';
+  }
+}
+
+interface WhisperToken {
+  text: string;
+  offsets: { from: number; to: number };
+  p?: number;
+}
+
+interface WhisperSegment {
+  offsets: { from: number; to: number };
+  text: string;
+  tokens?: WhisperToken[];
+  speaker_turn_next?: boolean;
+}
+
+interface WhisperOutput {
+  result?: { language?: string };
+  transcription?: WhisperSegment[];
+}
+
+// Special tokens such as [_BEG_], [_TT_150] and [_SOLM_]
+const SPECIAL_TOKEN = /^\[_[^\]]*\]$/;
+
+/**
+ * Rebuilds words from whisper's sub-word tokens: a token starting with a
+ * space begins a new word, anything else (suffixes, punctuation) extends the
+ * previous one. Each word keeps the index of the segment it came from.
+ */
+function wordsFromWhisperSegments(
+  segments: WhisperSegment[]
+): Array<TranscriptWord & { segment: number }> {
+  const words: Array<TranscriptWord & { segment: number; probabilities: number[] }> = [];
+
+  segments.forEach((segment, segmentIndex) => {
+    for (const token of segment.tokens ?? []) {
+      if (SPECIAL_TOKEN.test(token.text.trim()) || token.text.trim() === '') {
+        continue;
+      }
+
+      const previous = words[words.length - 1];
+      const continues = previous && previous.segment === segmentIndex && !token.text.startsWith(' ');
+
+      if (continues) {
+        previous.text += token.text;
+        previous.end = Math.max(previous.end, token.offsets.to);
+        previous.probabilities.push(token.p ?? 1);
+        continue;
+      }
+
+      words.push({
+        text: token.text.trim(),
+        start: token.offsets.from,
+        end: token.offsets.to,
+        confidence: 0,
+        segment: segmentIndex,
+        probabilities: [token.p ?? 1],
+      });
+    }
+  });
+
+  return words.map(({ probabilities, ...word }) => ({
+    ...word,
+    confidence: Math.min(...probabilities),
+  }));
+}
+
+/**
+ * Transcribes on the local CPU with whisper.cpp, so recordings never leave
+ * the host. Speaker segmentation is basic: with a tinydiarize model, speaker
+ * turns alternate between labels A and B; otherwise everything is speaker A.
+ */
+export class WhisperCppTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'whisper_cpp' as const;
+  private config: WhisperCppConfig;
+  private timeoutMs: number;
+
+  constructor(config: WhisperCppConfig) {
+    this.config = config;
+    this.timeoutMs = config.timeoutMs ?? 60 * 60 * 1000;
+  }
+
+  async transcribe(mediaUrl: string, options: TranscriptionOptions = {}): Promise<TranscriptData> {
+    try {
+      await assertPublicMediaUrl(mediaUrl);
+    } catch (error) {
+      throw new WhisperCppError(error instanceof Error ? error.message : `Unsupported media source: ${mediaUrl}`);
+    }
+
+    const transcriptId = randomUUID();
+    await options.onProgress?.({ progress: 10, transcriptId });
+
+    const workDir = await mkdtemp(join(tmpdir(), 'ocsuite-whisper-'));
+    try {
+      // ffmpeg only reads the local copy, so redirects and re-resolution
+      // cannot point it at internal hosts
+      const sourcePath = join(workDir, 'source');
+      try {
+        await downloadPublicMedia(mediaUrl, sourcePath, {
+          maxBytes: this.config.maxDownloadBytes ?? 2 * 1024 ** 3,
+          timeoutMs: this.timeoutMs,
+        });
+      } catch (error) {
+        throw new WhisperCppError(error instanceof Error ? error.message : `Failed to download ${mediaUrl}`);
+      }
+
+      const audioPath = join(workDir, 'audio.wav');
+      await this.run(this.config.ffmpegPath || 'ffmpeg', [
+        '-hide_banner', '-nostdin', '-y',
+        '-protocol_whitelist', 'file',
+        '-i', sourcePath,
+        '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'pcm_s16le',
+        audioPath,
+      ]);
+      await options.onProgress?.({ progress: 30 });
+
+      const outputBase = join(workDir, 'transcript');
+      const diarize = Boolean(options.speakerLabels && this.config.diarize);
+      let reported = 30;
+      let progressChain: Promise<void> = Promise.resolve();
+
+      await this.run(
+        this.config.binaryPath || 'whisper-cli',
+        [
+          '-m', this.config.modelPath,
+          '-f', audioPath,
+          '-l', options.language?.split(/[_-]/)[0]?.toLowerCase() || 'auto',
+          '-ojf',
+          '-of', outputBase,
+          '-np',
+          '-pp',
+          ...(this.config.threads ? ['-t', String(this.config.threads)] : []),
+          ...(diarize ? ['-tdrz'] : []),
+        ],
+        (line) => {
+          const match = line.match(/progress\s*=\s*(\d+)%/);
+          const onProgress = options.onProgress;
+          if (!match || !onProgress) {
+            return;
+          }
+          const progress = 30 + Math.floor((Number(match[1]) * 0.6) / 10) * 10;
+          if (progress > reported) {
+            reported = progress;
+            progressChain = progressChain.then(() => onProgress({ progress })).catch(() => undefined);
+          }
+        }
+      );
+      await progressChain;
+
+      const output = JSON.parse(await readFile(`${outputBase}.json`, 'utf8')) as WhisperOutput;
+      const { size } = await stat(audioPath);
+
+      return this.toTranscriptData(transcriptId, output, {
+        speakerLabels: options.speakerLabels ?? false,
+        durationSeconds: Math.max(0, size - WAV_HEADER_BYTES) / WAV_BYTES_PER_SECOND,
+      });
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private toTranscriptData(
+    transcriptId: string,
+    output: WhisperOutput,
+    options: { speakerLabels: boolean; durationSeconds: number }
+  ): TranscriptData {
+    const segments = output.transcription ?? [];
+    const labelled = wordsFromWhisperSegments(segments);
+
+    // A turn marker on a segment means the next segment has the other speaker
+    const speakerBySegment: string[] = [];
+    let speaker = 0;
+    segments.forEach((segment, index) => {
+      speakerBySegment[index] = speaker % 2 === 0 ? 'A' : 'B';
+      if (segment.speaker_turn_next) {
+        speaker += 1;
+      }
+    });
+
+    const words: TranscriptWord[] = labelled.map(({ segment: _segment, ...word }) => word);
+    const sentences = deriveSentences(words);
+
+    return {
+      id: transcriptId,
+      text: segments.map((segment) => segment.text.trim()).filter(Boolean).join(' '),
+      words,
+      sentences,
+      speakers: options.speakerLabels
+        ? deriveSpeakerSegments(
+            labelled.map(({ segment, ...word }) => ({ ...word, speaker: speakerBySegment[segment] ?? 'A' }))
+          )
+        : undefined,
+      viralMoments: deriveViralMoments(sentences),
+      duration: Math.round(options.durationSeconds),
+      language: output.result?.language,
+    };
+  }
+
+  private async run(command: string, args: string[], onStderrLine?: (line: string) => void): Promise<void> {
+    try {
+      await runCommand(command, args, { timeoutMs: this.timeoutMs, onStderrLine });
+    } catch (error) {
+      throw new WhisperCppError(
+        error instanceof CommandError ? error.message : `Failed to run ${command}`
+      );
+    }
+  }
+}
@@ -281,6 +281,8 @@ export const TranscribeRequestSchema = z.object({
   language: z.string().optional(),
   extractViralMoments: z.boolean().default(true),
   speakerLabels: z.boolean().default(false),
+  // Defaults to the deployment's configured provider
+  provider: z.enum(['assemblyai', 'whisper_cpp']).optional(),
 });
 
 export type TranscribeRequest = z.infer<typeof TranscribeRequestSchema>;
@@ -294,9 +296,13 @@ export const ExtractClipsRequestSchema = z.object({
 
 export type ExtractClipsRequest = z.infer<typeof ExtractClipsRequestSchema>;
 
+export const VideoOutputFormat = z.enum(['mp4', 'mov', 'webm', 'gif']);
+
+export type VideoOutputFormat = z.infer<typeof VideoOutputFormat>;
+
 export const RenderVideoRequestSchema = z.object({
   composition: z.any(), // VideoComposition schema
-  outputFormat: z.string().default('mp4'),
+  outputFormat: VideoOutputFormat.default('mp4'),
   quality: z.enum(['draft', 'standard', 'high']).default('standard'),
 });
 
@@ -328,9 +334,34 @@ export const OptimizeVideoRequestSchema = z.object({
       width: z.number(),
       height: z.number(),
       maxDuration: z.number().optional(),
-      format: z.string(),
+      format: VideoOutputFormat,
     })
     .optional(),
 });
 
 export type OptimizeVideoRequest = z.infer<typeof OptimizeVideoRequestSchema>;
+
+export const TranscriptExportFormat = z.enum(['srt', 'vtt', 'txt']);
+
+export type TranscriptExportFormat = z.infer<typeof TranscriptExportFormat>;
+
+export const UpdateTranscriptRequestSchema = z
+  .object({
+    // Replaces the text of single words; timings are kept
+    words: z
+      .array(
+        z.object({
+          index: z.number().int().min(0),
+          text: z.string().trim().min(1),
+        })
+      )
+      .max(5000)
+      .optional(),
+    // Renames speakers, e.g. { "A": "Jane Doe" }
+    speakers: z.record(z.string().trim().min(1).max(100)).optional(),
+  })
+  .refine((body) => Boolean(body.words?.length || Object.keys(body.speakers ?? {}).length), {
+    message: 'No word or speaker edits provided',
+  });
+
+export type UpdateTranscriptRequest = z.infer<typeof UpdateTranscriptRequestSchema>;